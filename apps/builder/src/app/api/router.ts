@@ -2,7 +2,9 @@ import { ORPCError } from "@orpc/server";
 import { authRouter } from "@typebot.io/auth/api/router";
 import { billingRouter } from "@typebot.io/billing/api/router";
 import { publicProcedure } from "@typebot.io/config/orpc/builder/middlewares";
+import { builderEmailRouter } from "@typebot.io/email-channel/api/router";
 import { fileUploadBuilderRouter } from "@typebot.io/file-input-block/api/router";
+import { builderTelegramRouter } from "@typebot.io/telegram/api/router";
 import { builderWhatsAppRouter } from "@typebot.io/whatsapp/api/router";
 import z from "zod";
 import { analyticsRouter } from "@/features/analytics/api/router";
@@ -18,6 +20,7 @@ import { generateGroupTitle } from "@/features/editor/api/generateGroupTitle";
 import { getFeatureFlags } from "@/features/featureFlags/api/getFeatureFlags";
 import { folderRouter } from "@/features/folders/api/router";
 import { forgeRouter } from "@/features/forge/api/router";
+import { handoffsRouter } from "@/features/handoffs/api/router";
 import { resultsRouter } from "@/features/results/api/router";
 import { telemetryRouter } from "@/features/telemetry/api/router";
 import { themeRouter } from "@/features/theme/api/router";
@@ -33,10 +36,13 @@ export const appRouter = {
   typebot: typebotRouter,
   httpRequest: httpRequestRouter,
   results: resultsRouter,
+  handoffs: handoffsRouter,
   theme: themeRouter,
   collaborators: collaboratorsRouter,
   customDomains: customDomainsRouter,
   whatsApp: builderWhatsAppRouter,
+  telegram: builderTelegramRouter,
+  emailChannel: builderEmailRouter,
   folders: folderRouter,
   user: userRouter,
   healthz: publicProcedure.handler(async () => ({
@@ -0,0 +1,10 @@
+export const twilioBrandColor = "#F22F46";
+
+export const TwilioLogo = (props: React.SVGProps<SVGSVGElement>) => (
+  <svg viewBox="0 0 24 24" {...props}>
+    <path
+      d="M12 0C5.372 0 0 5.372 0 12s5.372 12 12 12 12-5.372 12-12S18.628 0 12 0zm0 20.8c-4.86 0-8.8-3.94-8.8-8.8S7.14 3.2 12 3.2s8.8 3.94 8.8 8.8-3.94 8.8-8.8 8.8zm2.95-13.75a2 2 0 1 0 0 4 2 2 0 0 0 0-4zm-5.9 0a2 2 0 1 0 0 4 2 2 0 0 0 0-4zm5.9 5.9a2 2 0 1 0 0 4 2 2 0 0 0 0-4zm-5.9 0a2 2 0 1 0 0 4 2 2 0 0 0 0-4z"
+      fill="currentColor"
+    />
+  </svg>
+);
@@ -0,0 +1,87 @@
+import { ORPCError } from "@orpc/server";
+import prisma from "@typebot.io/prisma";
+import { WhatsAppMessageStatus } from "@typebot.io/prisma/enum";
+import type { User } from "@typebot.io/user/schemas";
+import { z } from "@typebot.io/zod";
+import { canReadTypebots } from "@/helpers/databaseRules";
+import { defaultTimeFilter, timeFilterValues } from "../constants";
+import {
+  parseFromDateFromTimeFilter,
+  parseToDateFromTimeFilter,
+} from "../helpers/parseDateFromTimeFilter";
+import type { WhatsAppStats } from "../schemas";
+
+const MAX_FAILURE_REASONS = 5;
+
+export const getWhatsAppStatsInputSchema = z.object({
+  typebotId: z.string(),
+  timeFilter: z.enum(timeFilterValues).default(defaultTimeFilter),
+  timeZone: z.string().optional(),
+});
+
+export const handleGetWhatsAppStats = async ({
+  input: { typebotId, timeFilter, timeZone },
+  context: { user },
+}: {
+  input: z.infer<typeof getWhatsAppStatsInputSchema>;
+  context: { user: Pick<User, "id" | "email"> };
+}) => {
+  const typebot = await prisma.typebot.findFirst({
+    where: canReadTypebots(typebotId, user),
+    select: { id: true },
+  });
+  if (!typebot)
+    throw new ORPCError("NOT_FOUND", {
+      message: "Typebot not found",
+    });
+
+  const fromDate = parseFromDateFromTimeFilter(timeFilter, timeZone);
+  const toDate = parseToDateFromTimeFilter(timeFilter, timeZone);
+  const where = {
+    typebotId: typebot.id,
+    createdAt: fromDate
+      ? {
+          gte: fromDate,
+          lte: toDate ?? undefined,
+        }
+      : undefined,
+  };
+
+  const [totalsPerStatus, failureReasons] = await Promise.all([
+    prisma.whatsAppMessage.groupBy({
+      by: ["status"],
+      where,
+      orderBy: { status: "asc" },
+      _count: { _all: true },
+    }),
+    prisma.whatsAppMessage.groupBy({
+      by: ["errorCode", "errorMessage"],
+      where: { ...where, status: WhatsAppMessageStatus.FAILED },
+      orderBy: { _count: { id: "desc" } },
+      take: MAX_FAILURE_REASONS,
+      _count: { id: true },
+    }),
+  ]);
+
+  const getTotal = (...statuses: WhatsAppMessageStatus[]) =>
+    totalsPerStatus
+      .filter((total) => statuses.includes(total.status))
+      .reduce((sum, total) => sum + total._count._all, 0);
+
+  const stats: WhatsAppStats = {
+    totalSent: getTotal(...Object.values(WhatsAppMessageStatus)),
+    totalDelivered: getTotal(
+      WhatsAppMessageStatus.DELIVERED,
+      WhatsAppMessageStatus.READ,
+    ),
+    totalRead: getTotal(WhatsAppMessageStatus.READ),
+    totalFailed: getTotal(WhatsAppMessageStatus.FAILED),
+    failureReasons: failureReasons.map((reason) => ({
+      code: reason.errorCode,
+      message: reason.errorMessage,
+      total: reason._count.id,
+    })),
+  };
+
+  return { stats };
+};
@@ -1,12 +1,20 @@
 import { authenticatedProcedure } from "@typebot.io/config/orpc/builder/middlewares";
 import { statsSchema } from "@typebot.io/results/schemas/answers";
 import { z } from "@typebot.io/zod";
-import { edgeWithTotalVisitsSchema, totalAnswersSchema } from "../schemas";
+import {
+  edgeWithTotalVisitsSchema,
+  totalAnswersSchema,
+  whatsAppStatsSchema,
+} from "../schemas";
 import {
   getInDepthAnalyticsDataInputSchema,
   handleGetInDepthAnalyticsData,
 } from "./handleGetInDepthAnalyticsData";
 import { getStatsInputSchema, handleGetStats } from "./handleGetStats";
+import {
+  getWhatsAppStatsInputSchema,
+  handleGetWhatsAppStats,
+} from "./handleGetWhatsAppStats";
 
 export const analyticsRouter = {
   getInDepthAnalyticsData: authenticatedProcedure
@@ -36,4 +44,15 @@ export const analyticsRouter = {
     .input(getStatsInputSchema)
     .output(z.object({ stats: statsSchema }))
     .handler(handleGetStats),
+
+  getWhatsAppStats: authenticatedProcedure
+    .route({
+      method: "GET",
+      path: "/v1/typebots/{typebotId}/analytics/whatsapp",
+      summary: "Get WhatsApp delivery stats",
+      tags: ["Analytics"],
+    })
+    .input(getWhatsAppStatsInputSchema)
+    .output(z.object({ stats: whatsAppStatsSchema }))
+    .handler(handleGetWhatsAppStats),
 };
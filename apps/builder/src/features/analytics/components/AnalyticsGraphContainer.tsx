@@ -14,6 +14,7 @@ import { orpc } from "@/lib/queryClient";
 import type { timeFilterValues } from "../constants";
 import { populateEdgesWithTotalVisits } from "../helpers/populateEdgesWithTotalVisits";
 import { StatsCards } from "./StatsCards";
+import { WhatsAppStatsCard } from "./WhatsAppStatsCard";
 
 const timeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
 
@@ -107,12 +108,16 @@ export const AnalyticsGraphContainer = ({
         type={t("billing.limitMessage.analytics")}
         excludedPlans={["STARTER"]}
       />
-      <StatsCards
-        stats={stats}
-        className="absolute top-4"
-        timeFilter={timeFilter}
-        onTimeFilterChange={onTimeFilterChange}
-      />
+      <div className="absolute top-4 flex flex-col items-center gap-2">
+        <StatsCards
+          stats={stats}
+          timeFilter={timeFilter}
+          onTimeFilterChange={onTimeFilterChange}
+        />
+        {typebot?.settings.whatsApp?.isEnabled && (
+          <WhatsAppStatsCard typebotId={typebot.id} timeFilter={timeFilter} />
+        )}
+      </div>
     </div>
   );
 };
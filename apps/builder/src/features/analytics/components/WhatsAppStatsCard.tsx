@@ -0,0 +1,74 @@
+import { useQuery } from "@tanstack/react-query";
+import { useTranslate } from "@tolgee/react";
+import { Popover } from "@typebot.io/ui/components/Popover";
+import { Skeleton } from "@typebot.io/ui/components/Skeleton";
+import { orpc } from "@/lib/queryClient";
+import type { timeFilterValues } from "../constants";
+
+const timeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+const computeRate =
+  (notAvailableLabel: string) =>
+  (total: number, totalSent: number): string => {
+    if (totalSent === 0) return notAvailableLabel;
+    return `${Math.round((total / totalSent) * 100)}%`;
+  };
+
+type Props = {
+  typebotId: string;
+  timeFilter: (typeof timeFilterValues)[number];
+};
+
+export const WhatsAppStatsCard = ({ typebotId, timeFilter }: Props) => {
+  const { t } = useTranslate();
+  const { data } = useQuery(
+    orpc.analytics.getWhatsAppStats.queryOptions({
+      input: { typebotId, timeFilter, timeZone },
+    }),
+  );
+  const formatRate = computeRate(t("analytics.notAvailableLabel"));
+
+  return (
+    <div className="bg-gray-1 flex py-2 px-4 rounded-md shadow-md border items-center justify-center gap-4">
+      <p className="font-medium">{t("analytics.whatsApp.label")}</p>
+      {data ? (
+        <>
+          <p>
+            {t("analytics.whatsApp.deliveryRateLabel")}:{" "}
+            {formatRate(data.stats.totalDelivered, data.stats.totalSent)}
+          </p>
+          <p>
+            {t("analytics.whatsApp.readRateLabel")}:{" "}
+            {formatRate(data.stats.totalRead, data.stats.totalSent)}
+          </p>
+          {data.stats.totalFailed > 0 ? (
+            <Popover.Root>
+              <Popover.TriggerButton variant="ghost" size="xs">
+                {t("analytics.whatsApp.failedLabel")}: {data.stats.totalFailed}
+              </Popover.TriggerButton>
+              <Popover.Popup>
+                <div className="flex flex-col gap-2">
+                  <p className="text-sm font-medium">
+                    {t("analytics.whatsApp.failureReasons.heading")}
+                  </p>
+                  {data.stats.failureReasons.map((reason) => (
+                    <p
+                      key={`${reason.code}-${reason.message}`}
+                      className="text-sm"
+                    >
+                      {reason.total} × {reason.message ?? reason.code}
+                    </p>
+                  ))}
+                </div>
+              </Popover.Popup>
+            </Popover.Root>
+          ) : (
+            <p>{t("analytics.whatsApp.failedLabel")}: 0</p>
+          )}
+        </>
+      ) : (
+        <Skeleton className="w-24 h-2" />
+      )}
+    </div>
+  );
+};
@@ -14,3 +14,18 @@ export const edgeWithTotalVisitsSchema = z.object({
   to: edgeSchema.shape.to.nullable(),
 });
 export type EdgeWithTotalVisits = z.infer<typeof edgeWithTotalVisitsSchema>;
+
+export const whatsAppStatsSchema = z.object({
+  totalSent: z.number(),
+  totalDelivered: z.number(),
+  totalRead: z.number(),
+  totalFailed: z.number(),
+  failureReasons: z.array(
+    z.object({
+      code: z.number().nullable(),
+      message: z.string().nullable(),
+      total: z.number(),
+    }),
+  ),
+});
+export type WhatsAppStats = z.infer<typeof whatsAppStatsSchema>;
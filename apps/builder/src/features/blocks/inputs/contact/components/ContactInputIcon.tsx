@@ -0,0 +1,5 @@
+import { UserIcon } from "@typebot.io/ui/icons/UserIcon";
+
+export const ContactInputIcon = ({ className }: { className?: string }) => (
+  <UserIcon className={className} />
+);
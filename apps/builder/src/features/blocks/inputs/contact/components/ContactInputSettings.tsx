@@ -0,0 +1,136 @@
+import { useTranslate } from "@tolgee/react";
+import {
+  contactMappableFields,
+  defaultContactInputOptions,
+} from "@typebot.io/blocks-inputs/contact/constants";
+import type { ContactInputBlock } from "@typebot.io/blocks-inputs/contact/schema";
+import { Field } from "@typebot.io/ui/components/Field";
+import type { Variable } from "@typebot.io/variables/schemas";
+import { BasicSelect } from "@/components/inputs/BasicSelect";
+import { DebouncedTextInputWithVariablesButton } from "@/components/inputs/DebouncedTextInput";
+import { VariablesCombobox } from "@/components/inputs/VariablesCombobox";
+import { TableList, type TableListItemProps } from "@/components/TableList";
+
+type Props = {
+  options: ContactInputBlock["options"];
+  onOptionsChange: (options: ContactInputBlock["options"]) => void;
+};
+
+export const ContactInputSettings = ({ options, onOptionsChange }: Props) => {
+  const { t } = useTranslate();
+  const updateNamePlaceholder = (namePlaceholder: string) =>
+    onOptionsChange({
+      ...options,
+      labels: { ...options?.labels, namePlaceholder },
+    });
+  const updatePhonePlaceholder = (phonePlaceholder: string) =>
+    onOptionsChange({
+      ...options,
+      labels: { ...options?.labels, phonePlaceholder },
+    });
+  const updateButtonLabel = (button: string) =>
+    onOptionsChange({ ...options, labels: { ...options?.labels, button } });
+  const updateRetryMessage = (retryMessageContent: string) =>
+    onOptionsChange({ ...options, retryMessageContent });
+  const updateVariable = (variable?: Variable) =>
+    onOptionsChange({ ...options, variableId: variable?.id });
+  const updateSaveResponseMapping = (
+    saveResponseMapping: NonNullable<
+      ContactInputBlock["options"]
+    >["saveResponseMapping"],
+  ) => onOptionsChange({ ...options, saveResponseMapping });
+
+  return (
+    <div className="flex flex-col gap-4">
+      <Field.Root>
+        <Field.Label>
+          {t("blocks.inputs.contact.settings.namePlaceholder.label")}
+        </Field.Label>
+        <DebouncedTextInputWithVariablesButton
+          defaultValue={
+            options?.labels?.namePlaceholder ??
+            defaultContactInputOptions.labels.namePlaceholder
+          }
+          onValueChange={updateNamePlaceholder}
+        />
+      </Field.Root>
+      <Field.Root>
+        <Field.Label>
+          {t("blocks.inputs.contact.settings.phonePlaceholder.label")}
+        </Field.Label>
+        <DebouncedTextInputWithVariablesButton
+          defaultValue={
+            options?.labels?.phonePlaceholder ??
+            defaultContactInputOptions.labels.phonePlaceholder
+          }
+          onValueChange={updatePhonePlaceholder}
+        />
+      </Field.Root>
+      <Field.Root>
+        <Field.Label>{t("blocks.inputs.settings.button.label")}</Field.Label>
+        <DebouncedTextInputWithVariablesButton
+          defaultValue={
+            options?.labels?.button ?? defaultContactInputOptions.labels.button
+          }
+          onValueChange={updateButtonLabel}
+        />
+      </Field.Root>
+      <Field.Root>
+        <Field.Label>
+          {t("blocks.inputs.settings.retryMessage.label")}
+        </Field.Label>
+        <DebouncedTextInputWithVariablesButton
+          defaultValue={
+            options?.retryMessageContent ??
+            defaultContactInputOptions.retryMessageContent
+          }
+          onValueChange={updateRetryMessage}
+        />
+      </Field.Root>
+      <Field.Root>
+        <Field.Label>
+          {t("blocks.inputs.settings.saveAnswer.label")}
+        </Field.Label>
+        <VariablesCombobox
+          initialVariableId={options?.variableId}
+          onSelectVariable={updateVariable}
+        />
+      </Field.Root>
+      <Field.Root>
+        <Field.Label>
+          {t("blocks.inputs.contact.settings.saveFields.label")}
+        </Field.Label>
+        <TableList
+          initialItems={options?.saveResponseMapping}
+          onItemsChange={updateSaveResponseMapping}
+          addLabel={t("blocks.inputs.settings.saveField.addLabel")}
+        >
+          {(props) => <ContactSaveResponseItem {...props} />}
+        </TableList>
+      </Field.Root>
+    </div>
+  );
+};
+
+const ContactSaveResponseItem = ({
+  item,
+  onItemChange,
+}: TableListItemProps<{
+  variableId?: string;
+  field?: (typeof contactMappableFields)[number];
+}>) => (
+  <div className="flex flex-col gap-2 p-4 rounded-md flex-1 border">
+    <BasicSelect
+      placeholder="Select a field"
+      value={item.field}
+      items={contactMappableFields}
+      onChange={(field) => onItemChange({ ...item, field })}
+    />
+    <VariablesCombobox
+      initialVariableId={item.variableId}
+      onSelectVariable={(variable) =>
+        onItemChange({ ...item, variableId: variable?.id })
+      }
+    />
+  </div>
+);
@@ -0,0 +1,33 @@
+import type { ContactInputBlock } from "@typebot.io/blocks-inputs/contact/schema";
+import { isDefined } from "@typebot.io/lib/utils";
+import { SetVariableLabel } from "@/components/SetVariableLabel";
+import { useTypebot } from "@/features/editor/providers/TypebotProvider";
+import { WithVariableContent } from "@/features/graph/components/nodes/block/WithVariableContent";
+
+type Props = {
+  options: ContactInputBlock["options"];
+};
+
+export const ContactNodeContent = ({ options }: Props) => {
+  const { typebot } = useTypebot();
+  const savingVariableIds = options?.saveResponseMapping
+    ?.map((mapping) => mapping.variableId)
+    .filter(isDefined);
+
+  return (
+    <div className="flex flex-col gap-2 w-[90%]">
+      {options?.variableId ? (
+        <WithVariableContent variableId={options.variableId} />
+      ) : (
+        <p color="gray.500">Ask for a contact</p>
+      )}
+      {savingVariableIds?.map((variableId) => (
+        <SetVariableLabel
+          key={variableId}
+          variableId={variableId}
+          variables={typebot?.variables}
+        />
+      ))}
+    </div>
+  );
+};
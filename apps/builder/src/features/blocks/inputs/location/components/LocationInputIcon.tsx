@@ -0,0 +1,5 @@
+import { Location01Icon } from "@typebot.io/ui/icons/Location01Icon";
+
+export const LocationInputIcon = ({ className }: { className?: string }) => (
+  <Location01Icon className={className} />
+);
@@ -0,0 +1,122 @@
+import { useTranslate } from "@tolgee/react";
+import {
+  defaultLocationInputOptions,
+  locationMappableFields,
+} from "@typebot.io/blocks-inputs/location/constants";
+import type { LocationInputBlock } from "@typebot.io/blocks-inputs/location/schema";
+import { Field } from "@typebot.io/ui/components/Field";
+import type { Variable } from "@typebot.io/variables/schemas";
+import { BasicSelect } from "@/components/inputs/BasicSelect";
+import { DebouncedTextInputWithVariablesButton } from "@/components/inputs/DebouncedTextInput";
+import { VariablesCombobox } from "@/components/inputs/VariablesCombobox";
+import { TableList, type TableListItemProps } from "@/components/TableList";
+
+type Props = {
+  options: LocationInputBlock["options"];
+  onOptionsChange: (options: LocationInputBlock["options"]) => void;
+};
+
+export const LocationInputSettings = ({ options, onOptionsChange }: Props) => {
+  const { t } = useTranslate();
+  const updateShareButtonLabel = (shareButton: string) =>
+    onOptionsChange({
+      ...options,
+      labels: { ...options?.labels, shareButton },
+    });
+  const updatePlaceholder = (placeholder: string) =>
+    onOptionsChange({
+      ...options,
+      labels: { ...options?.labels, placeholder },
+    });
+  const updateButtonLabel = (button: string) =>
+    onOptionsChange({ ...options, labels: { ...options?.labels, button } });
+  const updateVariable = (variable?: Variable) =>
+    onOptionsChange({ ...options, variableId: variable?.id });
+  const updateSaveResponseMapping = (
+    saveResponseMapping: NonNullable<
+      LocationInputBlock["options"]
+    >["saveResponseMapping"],
+  ) => onOptionsChange({ ...options, saveResponseMapping });
+
+  return (
+    <div className="flex flex-col gap-4">
+      <Field.Root>
+        <Field.Label>
+          {t("blocks.inputs.location.settings.shareButton.label")}
+        </Field.Label>
+        <DebouncedTextInputWithVariablesButton
+          defaultValue={
+            options?.labels?.shareButton ??
+            defaultLocationInputOptions.labels.shareButton
+          }
+          onValueChange={updateShareButtonLabel}
+        />
+      </Field.Root>
+      <Field.Root>
+        <Field.Label>
+          {t("blocks.inputs.settings.placeholder.label")}
+        </Field.Label>
+        <DebouncedTextInputWithVariablesButton
+          defaultValue={
+            options?.labels?.placeholder ??
+            defaultLocationInputOptions.labels.placeholder
+          }
+          onValueChange={updatePlaceholder}
+        />
+      </Field.Root>
+      <Field.Root>
+        <Field.Label>{t("blocks.inputs.settings.button.label")}</Field.Label>
+        <DebouncedTextInputWithVariablesButton
+          defaultValue={
+            options?.labels?.button ?? defaultLocationInputOptions.labels.button
+          }
+          onValueChange={updateButtonLabel}
+        />
+      </Field.Root>
+      <Field.Root>
+        <Field.Label>
+          {t("blocks.inputs.settings.saveAnswer.label")}
+        </Field.Label>
+        <VariablesCombobox
+          initialVariableId={options?.variableId}
+          onSelectVariable={updateVariable}
+        />
+      </Field.Root>
+      <Field.Root>
+        <Field.Label>
+          {t("blocks.inputs.location.settings.saveFields.label")}
+        </Field.Label>
+        <TableList
+          initialItems={options?.saveResponseMapping}
+          onItemsChange={updateSaveResponseMapping}
+          addLabel={t("blocks.inputs.settings.saveField.addLabel")}
+        >
+          {(props) => <LocationSaveResponseItem {...props} />}
+        </TableList>
+      </Field.Root>
+    </div>
+  );
+};
+
+const LocationSaveResponseItem = ({
+  item,
+  onItemChange,
+}: TableListItemProps<{
+  variableId?: string;
+  field?: (typeof locationMappableFields)[number];
+}>) => (
+  <div className="flex flex-col gap-2 p-4 rounded-md flex-1 border">
+    <BasicSelect
+      placeholder="Select a field"
+      value={item.field}
+      items={locationMappableFields}
+      onChange={(field) => onItemChange({ ...item, field })}
+    />
+    <VariablesCombobox
+      initialVariableId={item.variableId}
+      onSelectVariable={(variable) =>
+        onItemChange({ ...item, variableId: variable?.id })
+      }
+    />
+  </div>
+);
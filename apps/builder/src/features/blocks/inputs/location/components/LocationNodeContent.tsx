@@ -0,0 +1,33 @@
+import type { LocationInputBlock } from "@typebot.io/blocks-inputs/location/schema";
+import { isDefined } from "@typebot.io/lib/utils";
+import { SetVariableLabel } from "@/components/SetVariableLabel";
+import { useTypebot } from "@/features/editor/providers/TypebotProvider";
+import { WithVariableContent } from "@/features/graph/components/nodes/block/WithVariableContent";
+
+type Props = {
+  options: LocationInputBlock["options"];
+};
+
+export const LocationNodeContent = ({ options }: Props) => {
+  const { typebot } = useTypebot();
+  const savingVariableIds = options?.saveResponseMapping
+    ?.map((mapping) => mapping.variableId)
+    .filter(isDefined);
+
+  return (
+    <div className="flex flex-col gap-2 w-[90%]">
+      {options?.variableId ? (
+        <WithVariableContent variableId={options.variableId} />
+      ) : (
+        <p color="gray.500">Ask for a location</p>
+      )}
+      {savingVariableIds?.map((variableId) => (
+        <SetVariableLabel
+          key={variableId}
+          variableId={variableId}
+          variables={typebot?.variables}
+        />
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,8 @@
+import {
+  WhatsAppLogo,
+  whatsAppBrandColor,
+} from "@/components/logos/WhatsAppLogo";
+
+export const WhatsAppTemplateLogo = (props: React.SVGProps<SVGSVGElement>) => (
+  <WhatsAppLogo color={whatsAppBrandColor} {...props} />
+);
@@ -0,0 +1,19 @@
+import type { WhatsAppTemplateBlock } from "@typebot.io/blocks-integrations/whatsAppTemplate/schema";
+import { cx } from "@typebot.io/ui/lib/cva";
+
+type Props = {
+  options: WhatsAppTemplateBlock["options"];
+};
+
+export const WhatsAppTemplateNodeBody = ({ options }: Props) => (
+  <p
+    className={cx(
+      "truncate",
+      options?.templateName ? "text-gray-12" : "text-gray-9",
+    )}
+  >
+    {options?.templateName
+      ? `Send "${options.templateName}" template`
+      : "Configure..."}
+  </p>
+);
@@ -0,0 +1,198 @@
+import {
+  defaultWhatsAppTemplateButtonType,
+  defaultWhatsAppTemplateOptions,
+  whatsAppTemplateButtonTypes,
+  whatsAppTemplateHeaderTypes,
+} from "@typebot.io/blocks-integrations/whatsAppTemplate/constants";
+import type { WhatsAppTemplateBlock } from "@typebot.io/blocks-integrations/whatsAppTemplate/schema";
+import { isEmpty } from "@typebot.io/lib/utils";
+import { Field } from "@typebot.io/ui/components/Field";
+import { MoreInfoTooltip } from "@typebot.io/ui/components/MoreInfoTooltip";
+import { BasicNumberInput } from "@/components/inputs/BasicNumberInput";
+import { BasicSelect } from "@/components/inputs/BasicSelect";
+import {
+  DebouncedTextInput,
+  DebouncedTextInputWithVariablesButton,
+} from "@/components/inputs/DebouncedTextInput";
+import { TableList, type TableListItemProps } from "@/components/TableList";
+import { TextLink } from "@/components/TextLink";
+
+const templatesReferenceUrl =
+  "https://developers.facebook.com/docs/whatsapp/cloud-api/guides/send-message-templates";
+
+type Options = NonNullable<WhatsAppTemplateBlock["options"]>;
+type BodyParameter = NonNullable<Options["bodyParameters"]>[number];
+type ButtonParameter = NonNullable<Options["buttonParameters"]>[number];
+
+type Props = {
+  options?: WhatsAppTemplateBlock["options"];
+  onOptionsChange: (options: WhatsAppTemplateBlock["options"]) => void;
+};
+
+export const WhatsAppTemplateSettings = ({
+  options,
+  onOptionsChange,
+}: Props) => {
+  const updateTemplateName = (templateName: string) =>
+    onOptionsChange({
+      ...options,
+      templateName: isEmpty(templateName) ? undefined : templateName,
+    });
+
+  const updateLanguageCode = (languageCode: string) =>
+    onOptionsChange({
+      ...options,
+      languageCode: isEmpty(languageCode) ? undefined : languageCode,
+    });
+
+  const updateHeaderType = (
+    type: (typeof whatsAppTemplateHeaderTypes)[number] | undefined,
+  ) =>
+    onOptionsChange({
+      ...options,
+      header: type ? { ...options?.header, type } : undefined,
+    });
+
+  const updateHeaderValue = (value: string) =>
+    onOptionsChange({
+      ...options,
+      header: { ...options?.header, value },
+    });
+
+  const updateBodyParameters = (bodyParameters: BodyParameter[]) =>
+    onOptionsChange({
+      ...options,
+      bodyParameters,
+    });
+
+  const updateButtonParameters = (buttonParameters: ButtonParameter[]) =>
+    onOptionsChange({
+      ...options,
+      buttonParameters,
+    });
+
+  return (
+    <div className="flex flex-col gap-4">
+      <p className="text-sm text-gray-11">
+        Templates must be approved in your WhatsApp Business account. They can
+        be sent outside of the 24h customer service window. Read the{" "}
+        <TextLink href={templatesReferenceUrl} isExternal>
+          reference
+        </TextLink>{" "}
+        to learn more.
+      </p>
+      <Field.Root>
+        <Field.Label>Template name</Field.Label>
+        <DebouncedTextInputWithVariablesButton
+          defaultValue={options?.templateName}
+          onValueChange={updateTemplateName}
+          placeholder="order_confirmation"
+        />
+      </Field.Root>
+      <Field.Root>
+        <Field.Label>Language code</Field.Label>
+        <DebouncedTextInput
+          defaultValue={
+            options?.languageCode ?? defaultWhatsAppTemplateOptions.languageCode
+          }
+          onValueChange={updateLanguageCode}
+        />
+      </Field.Root>
+      <Field.Root>
+        <Field.Label>Header parameter</Field.Label>
+        <BasicSelect
+          value={options?.header?.type}
+          items={whatsAppTemplateHeaderTypes}
+          placeholder="None"
+          onChange={updateHeaderType}
+        />
+        {options?.header?.type && (
+          <DebouncedTextInputWithVariablesButton
+            defaultValue={options.header.value}
+            onValueChange={updateHeaderValue}
+            placeholder={
+              options.header.type === "text" ? "Type a value..." : "Media URL"
+            }
+          />
+        )}
+      </Field.Root>
+      <Field.Root>
+        <Field.Label>
+          Body parameters
+          <MoreInfoTooltip>
+            Values of the body placeholders, in order: {"{{1}}"}, {"{{2}}"}...
+          </MoreInfoTooltip>
+        </Field.Label>
+        <TableList
+          initialItems={options?.bodyParameters}
+          onItemsChange={updateBodyParameters}
+          addLabel="Add parameter"
+          isOrdered
+        >
+          {(props) => <BodyParameterItem {...props} />}
+        </TableList>
+      </Field.Root>
+      <Field.Root>
+        <Field.Label>
+          Button parameters
+          <MoreInfoTooltip>
+            Dynamic URL suffix or quick reply payload of the template buttons.
+          </MoreInfoTooltip>
+        </Field.Label>
+        <TableList
+          initialItems={options?.buttonParameters}
+          onItemsChange={updateButtonParameters}
+          addLabel="Add button parameter"
+        >
+          {(props) => <ButtonParameterItem {...props} />}
+        </TableList>
+      </Field.Root>
+    </div>
+  );
+};
+
+const BodyParameterItem = ({
+  item,
+  onItemChange,
+}: TableListItemProps<BodyParameter>) => (
+  <DebouncedTextInputWithVariablesButton
+    defaultValue={item.value}
+    onValueChange={(value) => onItemChange({ ...item, value })}
+    placeholder="Value"
+  />
+);
+
+const ButtonParameterItem = ({
+  item,
+  onItemChange,
+}: TableListItemProps<ButtonParameter>) => (
+  <div className="flex flex-col gap-2 p-4 rounded-md flex-1 border">
+    <BasicSelect
+      value={item.type}
+      defaultValue={defaultWhatsAppTemplateButtonType}
+      items={whatsAppTemplateButtonTypes.map((type) => ({
+        label: type === "url" ? "URL" : "Quick reply",
+        value: type,
+      }))}
+      onChange={(type) => onItemChange({ ...item, type })}
+    />
+    <Field.Root className="flex-row items-center">
+      <Field.Label>Button index:</Field.Label>
+      <BasicNumberInput
+        defaultValue={item.index}
+        onValueChange={(index) => onItemChange({ ...item, index })}
+        withVariableButton={false}
+        min={0}
+      />
+    </Field.Root>
+    <DebouncedTextInputWithVariablesButton
+      defaultValue={item.value}
+      onValueChange={(value) => onItemChange({ ...item, value })}
+      placeholder={
+        (item.type ?? defaultWhatsAppTemplateButtonType) === "url"
+          ? "URL suffix"
+          : "Payload"
+      }
+    />
+  </div>
+);
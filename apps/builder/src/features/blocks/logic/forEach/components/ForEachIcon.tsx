@@ -0,0 +1,5 @@
+import { RepeatIcon } from "@typebot.io/ui/icons/RepeatIcon";
+
+export const ForEachIcon = ({ className }: { className?: string }) => (
+  <RepeatIcon className={className} />
+);
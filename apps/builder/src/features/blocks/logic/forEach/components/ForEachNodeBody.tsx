@@ -0,0 +1,29 @@
+import type { ForEachBlock } from "@typebot.io/blocks-logic/forEach/schema";
+import { byId } from "@typebot.io/lib/utils";
+import { Badge } from "@typebot.io/ui/components/Badge";
+import { isSingleVariable } from "@typebot.io/variables/isSingleVariable";
+import { useTypebot } from "@/features/editor/providers/TypebotProvider";
+
+type Props = {
+  options: ForEachBlock["options"];
+};
+
+export const ForEachNodeBody = ({ options }: Props) => {
+  const { typebot } = useTypebot();
+  const listVariableName = typebot?.variables.find(
+    byId(options?.listVariableId),
+  )?.name;
+  const groupTitle =
+    options?.groupId && isSingleVariable(options.groupId)
+      ? options.groupId
+      : typebot?.groups.find(byId(options?.groupId))?.title;
+
+  if (!listVariableName || !groupTitle)
+    return <p className="text-gray-9">Configure...</p>;
+  return (
+    <p>
+      For each item of <Badge colorScheme="purple">{listVariableName}</Badge>,
+      run <Badge colorScheme="purple">{groupTitle}</Badge>
+    </p>
+  );
+};
@@ -0,0 +1,97 @@
+import {
+  defaultForEachOptions,
+  maxForEachIterations,
+} from "@typebot.io/blocks-logic/forEach/constants";
+import type { ForEachBlock } from "@typebot.io/blocks-logic/forEach/schema";
+import { Field } from "@typebot.io/ui/components/Field";
+import { MoreInfoTooltip } from "@typebot.io/ui/components/MoreInfoTooltip";
+import type { Variable } from "@typebot.io/variables/schemas";
+import { BasicNumberInput } from "@/components/inputs/BasicNumberInput";
+import { VariablesCombobox } from "@/components/inputs/VariablesCombobox";
+import { useTypebot } from "@/features/editor/providers/TypebotProvider";
+import { GroupsDropdown } from "../../typebotLink/components/GroupsDropdown";
+
+type Props = {
+  options: ForEachBlock["options"];
+  onOptionsChange: (options: ForEachBlock["options"]) => void;
+};
+
+export const ForEachSettings = ({ options, onOptionsChange }: Props) => {
+  const { typebot } = useTypebot();
+
+  const updateListVariableId = (variable?: Pick<Variable, "id">) =>
+    onOptionsChange({ ...options, listVariableId: variable?.id });
+
+  const updateItemVariableId = (variable?: Pick<Variable, "id">) =>
+    onOptionsChange({ ...options, itemVariableId: variable?.id });
+
+  const updateIndexVariableId = (variable?: Pick<Variable, "id">) =>
+    onOptionsChange({ ...options, indexVariableId: variable?.id });
+
+  const updateGroupId = (groupId?: string) =>
+    onOptionsChange({ ...options, groupId });
+
+  const updateMaxIterations = (maxIterations?: number) =>
+    onOptionsChange({ ...options, maxIterations });
+
+  if (!typebot) return null;
+  return (
+    <div className="flex flex-col gap-4">
+      <Field.Root>
+        <Field.Label>List:</Field.Label>
+        <VariablesCombobox
+          initialVariableId={options?.listVariableId}
+          onSelectVariable={updateListVariableId}
+          placeholder="Search for a variable"
+        />
+      </Field.Root>
+      <Field.Root>
+        <Field.Label>
+          Save current item in:{" "}
+          <MoreInfoTooltip>
+            Accessible in the looped group, i.e. {"{{item.name}}"} if the items
+            are objects.
+          </MoreInfoTooltip>
+        </Field.Label>
+        <VariablesCombobox
+          initialVariableId={options?.itemVariableId}
+          onSelectVariable={updateItemVariableId}
+          placeholder="Search for a variable"
+        />
+      </Field.Root>
+      <Field.Root>
+        <Field.Label>Save current index in:</Field.Label>
+        <VariablesCombobox
+          initialVariableId={options?.indexVariableId}
+          onSelectVariable={updateIndexVariableId}
+          placeholder="Search for a variable"
+        />
+      </Field.Root>
+      <Field.Root>
+        <Field.Label>
+          Group to run:{" "}
+          <MoreInfoTooltip>
+            The next item is processed when the group path ends.
+          </MoreInfoTooltip>
+        </Field.Label>
+        <GroupsDropdown
+          groups={typebot.groups}
+          groupId={options?.groupId}
+          onChange={updateGroupId}
+        />
+      </Field.Root>
+      <Field.Root>
+        <Field.Label>Max iterations:</Field.Label>
+        <BasicNumberInput
+          defaultValue={
+            options?.maxIterations ?? defaultForEachOptions.maxIterations
+          }
+          onValueChange={updateMaxIterations}
+          withVariableButton={false}
+          min={1}
+          max={maxForEachIterations}
+        />
+      </Field.Root>
+    </div>
+  );
+};
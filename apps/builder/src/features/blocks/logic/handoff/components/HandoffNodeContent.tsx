@@ -0,0 +1,3 @@
+export const HandoffNodeContent = () => (
+  <p className="truncate">Hand off to an agent</p>
+);
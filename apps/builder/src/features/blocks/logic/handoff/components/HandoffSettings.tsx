@@ -0,0 +1,32 @@
+import { defaultHandoffOptions } from "@typebot.io/blocks-logic/handoff/constants";
+import type { HandoffBlock } from "@typebot.io/blocks-logic/handoff/schema";
+import { Field } from "@typebot.io/ui/components/Field";
+import { DebouncedTextInputWithVariablesButton } from "@/components/inputs/DebouncedTextInput";
+
+type Props = {
+  options: HandoffBlock["options"];
+  onOptionsChange: (options: HandoffBlock["options"]) => void;
+};
+
+export const HandoffSettings = ({ options, onOptionsChange }: Props) => {
+  const updateInputPlaceholder = (inputPlaceholder: string | undefined) =>
+    onOptionsChange({ ...options, inputPlaceholder });
+
+  return (
+    <div className="flex flex-col gap-4">
+      <p className="text-sm text-gray-11">
+        The bot is paused until an agent hands the conversation back from the
+        inbox.
+      </p>
+      <Field.Root>
+        <Field.Label>Input placeholder:</Field.Label>
+        <DebouncedTextInputWithVariablesButton
+          defaultValue={
+            options?.inputPlaceholder ?? defaultHandoffOptions.inputPlaceholder
+          }
+          onValueChange={updateInputPlaceholder}
+        />
+      </Field.Root>
+    </div>
+  );
+};
@@ -0,0 +1,113 @@
+import {
+  dateUnits,
+  defaultDateOperationOptions,
+} from "@typebot.io/blocks-logic/setVariable/constants";
+import type { SetVariableBlock } from "@typebot.io/blocks-logic/setVariable/schema";
+import { timeZones } from "@typebot.io/lib/timeZones";
+import { Field } from "@typebot.io/ui/components/Field";
+import { MoreInfoTooltip } from "@typebot.io/ui/components/MoreInfoTooltip";
+import { BasicSelect } from "@/components/inputs/BasicSelect";
+import { DebouncedTextInputWithVariablesButton } from "@/components/inputs/DebouncedTextInput";
+
+type DateOperationOptions = Extract<
+  NonNullable<SetVariableBlock["options"]>,
+  { type: "Date add/subtract" | "Date difference" | "Format date" }
+>;
+
+type Props = {
+  options: DateOperationOptions;
+  onOptionsChange: (options: DateOperationOptions) => void;
+};
+
+export const DateOperationSettings = ({ options, onOptionsChange }: Props) => (
+  <div className="flex flex-col gap-4">
+    <Field.Root>
+      <Field.Label>
+        Date:{" "}
+        <MoreInfoTooltip>
+          ISO date or timestamp in milliseconds. Defaults to now if empty.
+        </MoreInfoTooltip>
+      </Field.Label>
+      <DebouncedTextInputWithVariablesButton
+        defaultValue={options.date}
+        placeholder="Now"
+        onValueChange={(date) => onOptionsChange({ ...options, date })}
+      />
+    </Field.Root>
+    {options.type === "Date add/subtract" && (
+      <Field.Root>
+        <Field.Label>
+          Amount:{" "}
+          <MoreInfoTooltip>Use a negative number to subtract.</MoreInfoTooltip>
+        </Field.Label>
+        <DebouncedTextInputWithVariablesButton
+          defaultValue={options.amount}
+          placeholder="3"
+          onValueChange={(amount) => onOptionsChange({ ...options, amount })}
+        />
+      </Field.Root>
+    )}
+    {options.type === "Date difference" && (
+      <Field.Root>
+        <Field.Label>
+          Compare with:{" "}
+          <MoreInfoTooltip>
+            The result is positive if the date is after this one. Defaults to
+            now if empty.
+          </MoreInfoTooltip>
+        </Field.Label>
+        <DebouncedTextInputWithVariablesButton
+          defaultValue={options.compareDate}
+          placeholder="Now"
+          onValueChange={(compareDate) =>
+            onOptionsChange({ ...options, compareDate })
+          }
+        />
+      </Field.Root>
+    )}
+    {options.type !== "Format date" && (
+      <Field.Root>
+        <Field.Label>Unit:</Field.Label>
+        <BasicSelect
+          items={dateUnits}
+          value={options.unit}
+          defaultValue={defaultDateOperationOptions.unit}
+          onChange={(unit) => onOptionsChange({ ...options, unit })}
+        />
+      </Field.Root>
+    )}
+    {options.type === "Format date" && (
+      <>
+        <Field.Root>
+          <Field.Label>
+            Format:{" "}
+            <MoreInfoTooltip>
+              Uses date-fns format tokens, i.e. EEEE d MMMM yyyy
+            </MoreInfoTooltip>
+          </Field.Label>
+          <DebouncedTextInputWithVariablesButton
+            defaultValue={options.format}
+            placeholder={defaultDateOperationOptions.format}
+            onValueChange={(format) => onOptionsChange({ ...options, format })}
+          />
+        </Field.Root>
+        <Field.Root>
+          <Field.Label>Locale:</Field.Label>
+          <DebouncedTextInputWithVariablesButton
+            defaultValue={options.locale}
+            placeholder="en-US"
+            onValueChange={(locale) => onOptionsChange({ ...options, locale })}
+          />
+        </Field.Root>
+      </>
+    )}
+    {options.type !== "Date difference" && (
+      <BasicSelect
+        items={timeZones}
+        onChange={(timeZone) => onOptionsChange({ ...options, timeZone })}
+        placeholder="Select time zone"
+        value={options.timeZone}
+      />
+    )}
+  </div>
+);
@@ -1,3 +1,4 @@
+import { defaultDateOperationOptions } from "@typebot.io/blocks-logic/setVariable/constants";
 import type { SetVariableBlock } from "@typebot.io/blocks-logic/setVariable/schema";
 import { byId } from "@typebot.io/lib/utils";
 import { Badge } from "@typebot.io/ui/components/Badge";
@@ -97,6 +98,31 @@ const Expression = ({
         </span>
       );
     }
+    case "Date add/subtract": {
+      return (
+        <span>
+          {variableName}= {options.date || "now"}{" "}
+          {(options.amount ?? "").startsWith("-") ? "" : "+"}
+          {options.amount} {options.unit ?? defaultDateOperationOptions.unit}
+        </span>
+      );
+    }
+    case "Date difference": {
+      return (
+        <span>
+          {variableName}= {options.unit ?? defaultDateOperationOptions.unit}{" "}
+          between {options.compareDate || "now"} and {options.date || "now"}
+        </span>
+      );
+    }
+    case "Format date": {
+      return (
+        <span>
+          {variableName}= {options.date || "now"} formatted as{" "}
+          {options.format ?? defaultDateOperationOptions.format}
+        </span>
+      );
+    }
     case "Random ID":
     case "Today":
     case "Now":
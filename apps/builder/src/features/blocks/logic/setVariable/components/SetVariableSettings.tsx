@@ -27,6 +27,7 @@ import { VariablesCombobox } from "@/components/inputs/VariablesCombobox";
 import { WhatsAppLogo } from "@/components/logos/WhatsAppLogo";
 import { useTypebot } from "@/features/editor/providers/TypebotProvider";
 import { UnsafeScriptAlert } from "../../script/components/UnsafeScriptAlert";
+import { DateOperationSettings } from "./DateOperationSettings";
 
 type Props = {
   options: SetVariableBlock["options"];
@@ -379,6 +380,15 @@ const SetVariableValue = ({
         />
       );
     }
+    case "Date add/subtract":
+    case "Date difference":
+    case "Format date":
+      return (
+        <DateOperationSettings
+          options={options}
+          onOptionsChange={onOptionsChange}
+        />
+      );
     case "Contact name":
     case "Phone number":
     case "Random ID":
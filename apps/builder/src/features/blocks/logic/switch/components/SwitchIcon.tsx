@@ -0,0 +1,5 @@
+import { SplitIcon } from "@typebot.io/ui/icons/SplitIcon";
+
+export const SwitchIcon = ({ className }: { className?: string }) => (
+  <SplitIcon className={className} />
+);
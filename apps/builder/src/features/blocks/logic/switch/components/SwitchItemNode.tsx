@@ -0,0 +1,144 @@
+import type { ItemIndices } from "@typebot.io/blocks-core/schemas/items/schema";
+import {
+  defaultSwitchItemContent,
+  switchMatchTypes,
+} from "@typebot.io/blocks-logic/switch/constants";
+import type {
+  SwitchCase,
+  SwitchItem,
+} from "@typebot.io/blocks-logic/switch/schema";
+import { isEmpty } from "@typebot.io/lib/utils";
+import { Badge } from "@typebot.io/ui/components/Badge";
+import { Field } from "@typebot.io/ui/components/Field";
+import { Popover } from "@typebot.io/ui/components/Popover";
+import { useRef } from "react";
+import { BasicSelect } from "@/components/inputs/BasicSelect";
+import { DebouncedTextInputWithVariablesButton } from "@/components/inputs/DebouncedTextInput";
+import { useTypebot } from "@/features/editor/providers/TypebotProvider";
+import { useGraph } from "@/features/graph/providers/GraphProvider";
+import { useEventListener } from "@/hooks/useEventListener";
+
+type Props = {
+  item: SwitchItem;
+  indices: ItemIndices;
+};
+
+export const SwitchItemNode = ({ item, indices }: Props) => {
+  const { updateItem } = useTypebot();
+  const ref = useRef<HTMLDivElement | null>(null);
+  const { openedNodeId, setOpenedNodeId } = useGraph();
+
+  const updateCase = (updates: Partial<SwitchCase>) =>
+    updateItem(indices, {
+      ...item,
+      content: { ...item.content, ...updates },
+    } as SwitchItem);
+
+  const handleMouseWheel = (e: WheelEvent) => {
+    e.stopPropagation();
+  };
+  useEventListener("wheel", handleMouseWheel, ref);
+
+  const matchType =
+    item.content?.matchType ?? defaultSwitchItemContent.matchType;
+
+  return (
+    <Popover.Root
+      isOpen={openedNodeId === item.id}
+      onOpen={() => setOpenedNodeId(item.id)}
+      onClose={() => setOpenedNodeId(undefined)}
+    >
+      <Popover.Trigger
+        render={(props) => (
+          <div
+            className="flex p-3 relative max-w-full overflow-hidden"
+            {...props}
+          >
+            <SwitchCaseContent content={item.content} />
+          </div>
+        )}
+      />
+      <Popover.Popup side="right" className="p-4" ref={ref}>
+        <div className="flex flex-col gap-4">
+          <BasicSelect
+            items={switchMatchTypes}
+            value={item.content?.matchType}
+            defaultValue={defaultSwitchItemContent.matchType}
+            onChange={(matchType) => updateCase({ matchType })}
+          />
+          {matchType === "Range" ? (
+            <div className="flex gap-2">
+              <Field.Root>
+                <Field.Label>Min:</Field.Label>
+                <DebouncedTextInputWithVariablesButton
+                  defaultValue={item.content?.min}
+                  placeholder="0"
+                  onValueChange={(min) => updateCase({ min })}
+                />
+              </Field.Root>
+              <Field.Root>
+                <Field.Label>Max:</Field.Label>
+                <DebouncedTextInputWithVariablesButton
+                  defaultValue={item.content?.max}
+                  placeholder="100"
+                  onValueChange={(max) => updateCase({ max })}
+                />
+              </Field.Root>
+            </div>
+          ) : (
+            <DebouncedTextInputWithVariablesButton
+              defaultValue={item.content?.value}
+              placeholder={parseValuePlaceholder(matchType)}
+              onValueChange={(value) => updateCase({ value })}
+            />
+          )}
+        </div>
+      </Popover.Popup>
+    </Popover.Root>
+  );
+};
+
+const SwitchCaseContent = ({
+  content,
+}: {
+  content: SwitchCase | undefined;
+}) => {
+  const {
+    matchType = defaultSwitchItemContent.matchType,
+    value,
+    min,
+    max,
+  } = content ?? {};
+  if (matchType === "Range") {
+    if (isEmpty(min) && isEmpty(max))
+      return <p className="text-gray-9">Configure...</p>;
+    return (
+      <p className="flex flex-wrap gap-1 text-sm">
+        {!isEmpty(min) && <Badge>{`>= ${min}`}</Badge>}
+        {!isEmpty(max) && <Badge>{`<= ${max}`}</Badge>}
+      </p>
+    );
+  }
+  if (isEmpty(value)) return <p className="text-gray-9">Configure...</p>;
+  return (
+    <p className="flex flex-wrap gap-1 text-sm">
+      {matchType === "Regex" && "matches"}
+      {matchType === "In list" && "in"}
+      <Badge className="break-all">{value}</Badge>
+    </p>
+  );
+};
+
+const parseValuePlaceholder = (
+  matchType: (typeof switchMatchTypes)[number],
+): string => {
+  switch (matchType) {
+    case "Exact":
+    case "Range":
+      return "Type a value...";
+    case "Regex":
+      return "/^[0-9]+$/";
+    case "In list":
+      return "FR, BE, CH";
+  }
+};
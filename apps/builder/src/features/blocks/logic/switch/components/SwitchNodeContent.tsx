@@ -0,0 +1,31 @@
+import type { BlockIndices } from "@typebot.io/blocks-core/schemas/schema";
+import type { SwitchBlock } from "@typebot.io/blocks-logic/switch/schema";
+import { byId } from "@typebot.io/lib/utils";
+import { Badge } from "@typebot.io/ui/components/Badge";
+import { useTypebot } from "@/features/editor/providers/TypebotProvider";
+import { ItemNodesList } from "@/features/graph/components/nodes/item/ItemNodesList";
+
+type Props = {
+  block: SwitchBlock;
+  indices: BlockIndices;
+};
+
+export const SwitchNodeContent = ({ block, indices }: Props) => {
+  const { typebot } = useTypebot();
+  const variableName = typebot?.variables.find(
+    byId(block.options?.variableId),
+  )?.name;
+
+  return (
+    <div className="flex flex-col gap-2 w-[90%]">
+      {variableName ? (
+        <p>
+          Switch on <Badge colorScheme="purple">{variableName}</Badge>
+        </p>
+      ) : (
+        <p className="text-gray-9">Configure...</p>
+      )}
+      <ItemNodesList block={block} indices={indices} />
+    </div>
+  );
+};
@@ -0,0 +1,25 @@
+import type { SwitchBlock } from "@typebot.io/blocks-logic/switch/schema";
+import { Field } from "@typebot.io/ui/components/Field";
+import type { Variable } from "@typebot.io/variables/schemas";
+import { VariablesCombobox } from "@/components/inputs/VariablesCombobox";
+
+type Props = {
+  options: SwitchBlock["options"];
+  onOptionsChange: (options: SwitchBlock["options"]) => void;
+};
+
+export const SwitchSettings = ({ options, onOptionsChange }: Props) => {
+  const updateVariableId = (variable?: Pick<Variable, "id">) =>
+    onOptionsChange({ ...options, variableId: variable?.id });
+
+  return (
+    <Field.Root>
+      <Field.Label>Variable to route on:</Field.Label>
+      <VariablesCombobox
+        initialVariableId={options?.variableId}
+        onSelectVariable={updateVariableId}
+        placeholder="Search for a variable"
+      />
+    </Field.Root>
+  );
+};
@@ -0,0 +1,5 @@
+import { Tag01Icon } from "@typebot.io/ui/icons/Tag01Icon";
+
+export const TagResultIcon = ({ className }: { className?: string }) => (
+  <Tag01Icon className={className} />
+);
@@ -0,0 +1,26 @@
+import type { TagResultBlock } from "@typebot.io/blocks-logic/tagResult/schema";
+import { resultStatusLabels } from "@typebot.io/results/constants";
+import { cx } from "@typebot.io/ui/lib/cva";
+
+type Props = {
+  options: TagResultBlock["options"];
+};
+
+export const TagResultNodeContent = ({ options }: Props) => {
+  const summary = [
+    options?.status ? `Mark as ${resultStatusLabels[options.status]}` : "",
+    options?.tagsToAdd?.length ? `Add ${options.tagsToAdd.join(", ")}` : "",
+    options?.tagsToRemove?.length
+      ? `Remove ${options.tagsToRemove.join(", ")}`
+      : "",
+    options?.notes ? "Set notes" : "",
+  ]
+    .filter(Boolean)
+    .join(" · ");
+
+  return (
+    <p className={cx(summary ? "text-gray-12" : "text-gray-9", "truncate")}>
+      {summary || "Configure..."}
+    </p>
+  );
+};
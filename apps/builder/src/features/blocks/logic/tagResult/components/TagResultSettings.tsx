@@ -0,0 +1,67 @@
+import { resultStatuses } from "@typebot.io/blocks-logic/tagResult/constants";
+import type { TagResultBlock } from "@typebot.io/blocks-logic/tagResult/schema";
+import { resultStatusLabels } from "@typebot.io/results/constants";
+import { Field } from "@typebot.io/ui/components/Field";
+import { BasicSelect } from "@/components/inputs/BasicSelect";
+import { DebouncedTextareaWithVariablesButton } from "@/components/inputs/DebouncedTextarea";
+import { TagsInput } from "@/components/TagsInput";
+
+type Props = {
+  options: TagResultBlock["options"];
+  onOptionsChange: (options: TagResultBlock["options"]) => void;
+};
+
+export const TagResultSettings = ({ options, onOptionsChange }: Props) => {
+  const updateStatus = (
+    status: NonNullable<TagResultBlock["options"]>["status"],
+  ) => onOptionsChange({ ...options, status });
+
+  const updateTagsToAdd = (tagsToAdd: string[]) =>
+    onOptionsChange({ ...options, tagsToAdd });
+
+  const updateTagsToRemove = (tagsToRemove: string[]) =>
+    onOptionsChange({ ...options, tagsToRemove });
+
+  const updateNotes = (notes: string) =>
+    onOptionsChange({ ...options, notes: notes === "" ? undefined : notes });
+
+  return (
+    <div className="flex flex-col gap-4">
+      <p className="text-sm text-gray-11">
+        Changes are applied to the result of the current chat. They are skipped
+        in preview mode.
+      </p>
+      <Field.Root>
+        <Field.Label>Status:</Field.Label>
+        <BasicSelect
+          value={options?.status}
+          onChange={updateStatus}
+          items={resultStatuses.map((status) => ({
+            label: resultStatusLabels[status],
+            value: status,
+          }))}
+          placeholder="Unchanged"
+        />
+      </Field.Root>
+      <Field.Root>
+        <Field.Label>Tags to add:</Field.Label>
+        <TagsInput items={options?.tagsToAdd} onValueChange={updateTagsToAdd} />
+      </Field.Root>
+      <Field.Root>
+        <Field.Label>Tags to remove:</Field.Label>
+        <TagsInput
+          items={options?.tagsToRemove}
+          onValueChange={updateTagsToRemove}
+        />
+      </Field.Root>
+      <Field.Root>
+        <Field.Label>Notes:</Field.Label>
+        <DebouncedTextareaWithVariablesButton
+          defaultValue={options?.notes}
+          onValueChange={updateNotes}
+          placeholder="Replaces the result notes"
+        />
+      </Field.Root>
+    </div>
+  );
+};
@@ -1,14 +1,19 @@
 import { useQuery } from "@tanstack/react-query";
 import { defaultTypebotLinkOptions } from "@typebot.io/blocks-logic/typebotLink/constants";
-import type { TypebotLinkBlock } from "@typebot.io/blocks-logic/typebotLink/schema";
+import type {
+  TypebotLinkBlock,
+  VariableMapping,
+} from "@typebot.io/blocks-logic/typebotLink/schema";
 import { isNotEmpty } from "@typebot.io/lib/utils";
 import { Field } from "@typebot.io/ui/components/Field";
 import { MoreInfoTooltip } from "@typebot.io/ui/components/MoreInfoTooltip";
 import { Switch } from "@typebot.io/ui/components/Switch";
+import { TableList } from "@/components/TableList";
 import { useTypebot } from "@/features/editor/providers/TypebotProvider";
 import { orpc } from "@/lib/queryClient";
 import { GroupsDropdown } from "./GroupsDropdown";
 import { TypebotsDropdown } from "./TypebotsDropdown";
+import { VariableMappingItem } from "./VariableMappingItem";
 
 type Props = {
   options: TypebotLinkBlock["options"];
@@ -20,7 +25,14 @@ export const TypebotLinkForm = ({ options, onOptionsChange }: Props) => {
 
   const handleTypebotIdChange = async (
     typebotId: string | "current" | undefined,
-  ) => onOptionsChange({ ...options, typebotId, groupId: undefined });
+  ) =>
+    onOptionsChange({
+      ...options,
+      typebotId,
+      groupId: undefined,
+      inputMappings: undefined,
+      outputMappings: undefined,
+    });
 
   const { data: linkedTypebotData } = useQuery(
     orpc.typebot.getTypebot.queryOptions({
@@ -38,10 +50,20 @@ export const TypebotLinkForm = ({ options, onOptionsChange }: Props) => {
   const updateMergeResults = (mergeResults: boolean) =>
     onOptionsChange({ ...options, mergeResults });
 
+  const updateInputMappings = (inputMappings: VariableMapping[]) =>
+    onOptionsChange({ ...options, inputMappings });
+
+  const updateOutputMappings = (outputMappings: VariableMapping[]) =>
+    onOptionsChange({ ...options, outputMappings });
+
   const isCurrentTypebotSelected =
     (typebot && options?.typebotId === typebot.id) ||
     options?.typebotId === "current";
 
+  const linkedTypebotVariables = isCurrentTypebotSelected
+    ? typebot?.variables
+    : linkedTypebotData?.typebot?.variables;
+
   return (
     <div className="flex flex-col gap-2">
       {typebot && (
@@ -70,6 +92,56 @@ export const TypebotLinkForm = ({ options, onOptionsChange }: Props) => {
           }
         />
       )}
+      {options?.typebotId && linkedTypebotVariables && (
+        <>
+          <Field.Root>
+            <Field.Label>
+              Input variables{" "}
+              <MoreInfoTooltip>
+                Set variables of the linked typebot with values of this typebot,
+                even if they are named differently.
+              </MoreInfoTooltip>
+            </Field.Label>
+            <TableList<VariableMapping>
+              key={`${options.typebotId}-input`}
+              initialItems={options.inputMappings}
+              onItemsChange={updateInputMappings}
+              addLabel="Add input"
+            >
+              {(props) => (
+                <VariableMappingItem
+                  {...props}
+                  direction="input"
+                  linkedTypebotVariables={linkedTypebotVariables}
+                />
+              )}
+            </TableList>
+          </Field.Root>
+          <Field.Root>
+            <Field.Label>
+              Output variables{" "}
+              <MoreInfoTooltip>
+                Save variables of the linked typebot in this typebot when the
+                linked flow ends.
+              </MoreInfoTooltip>
+            </Field.Label>
+            <TableList<VariableMapping>
+              key={`${options.typebotId}-output`}
+              initialItems={options.outputMappings}
+              onItemsChange={updateOutputMappings}
+              addLabel="Add output"
+            >
+              {(props) => (
+                <VariableMappingItem
+                  {...props}
+                  direction="output"
+                  linkedTypebotVariables={linkedTypebotVariables}
+                />
+              )}
+            </TableList>
+          </Field.Root>
+        </>
+      )}
       {!isCurrentTypebotSelected && (
         <Field.Root className="flex-row items-center">
           <Switch
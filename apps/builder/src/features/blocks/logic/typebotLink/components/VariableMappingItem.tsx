@@ -0,0 +1,61 @@
+import type { VariableMapping } from "@typebot.io/blocks-logic/typebotLink/schema";
+import type { Variable } from "@typebot.io/variables/schemas";
+import { BasicSelect } from "@/components/inputs/BasicSelect";
+import { VariablesCombobox } from "@/components/inputs/VariablesCombobox";
+import type { TableListItemProps } from "@/components/TableList";
+
+type Props = TableListItemProps<VariableMapping> & {
+  direction: "input" | "output";
+  linkedTypebotVariables: Pick<Variable, "id" | "name">[];
+};
+
+export const VariableMappingItem = ({
+  item,
+  onItemChange,
+  direction,
+  linkedTypebotVariables,
+}: Props) => {
+  const updateParentVariableId = (variable?: Pick<Variable, "id">) =>
+    onItemChange({ ...item, parentVariableId: variable?.id });
+
+  const updateChildVariableId = (childVariableId?: string) =>
+    onItemChange({ ...item, childVariableId });
+
+  const parentVariableInput = (
+    <VariablesCombobox
+      initialVariableId={item.parentVariableId}
+      onSelectVariable={updateParentVariableId}
+      placeholder={direction === "input" ? "Pass variable" : "Save in variable"}
+    />
+  );
+
+  const childVariableInput = (
+    <BasicSelect
+      items={linkedTypebotVariables.map((variable) => ({
+        label: variable.name,
+        value: variable.id,
+      }))}
+      value={item.childVariableId}
+      onChange={updateChildVariableId}
+      placeholder={
+        direction === "input" ? "To linked variable" : "Linked variable"
+      }
+    />
+  );
+
+  return (
+    <div className="flex flex-col gap-2 p-4 rounded-md flex-1 border">
+      {direction === "input" ? (
+        <>
+          {parentVariableInput}
+          {childVariableInput}
+        </>
+      ) : (
+        <>
+          {childVariableInput}
+          {parentVariableInput}
+        </>
+      )}
+    </div>
+  );
+};
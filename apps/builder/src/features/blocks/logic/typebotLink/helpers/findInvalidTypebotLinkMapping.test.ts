@@ -0,0 +1,120 @@
+import { describe, expect, it } from "bun:test";
+import { LogicBlockType } from "@typebot.io/blocks-logic/constants";
+import type { TypebotLinkBlock } from "@typebot.io/blocks-logic/typebotLink/schema";
+import type { GroupV6 } from "@typebot.io/groups/schemas";
+import {
+  findInvalidTypebotLinkMapping,
+  getMappedLinkedTypebotIds,
+} from "./findInvalidTypebotLinkMapping";
+
+const createGroup = (options: TypebotLinkBlock["options"]): GroupV6 => ({
+  id: "group",
+  title: "Group #1",
+  graphCoordinates: { x: 0, y: 0 },
+  blocks: [{ id: "link", type: LogicBlockType.TYPEBOT_LINK, options }],
+});
+
+const createTypebot = (options: TypebotLinkBlock["options"]) => ({
+  id: "parent",
+  name: "Parent",
+  variables: [{ id: "p1" }],
+  groups: [createGroup(options)],
+});
+
+const linkedTypebots = [
+  { id: "child", name: "Child", variables: [{ id: "c1" }] },
+];
+
+describe("getMappedLinkedTypebotIds", () => {
+  it("should only return the linked typebots with mappings", () => {
+    expect(
+      getMappedLinkedTypebotIds([
+        createGroup({
+          typebotId: "child",
+          inputMappings: [{ id: "1", parentVariableId: "p1" }],
+        }),
+        createGroup({
+          typebotId: "child",
+          outputMappings: [{ id: "1", childVariableId: "c1" }],
+        }),
+        createGroup({ typebotId: "other" }),
+      ]),
+    ).toEqual(["child"]);
+  });
+});
+
+describe("findInvalidTypebotLinkMapping", () => {
+  it("should accept mappings of existing variables", () => {
+    expect(
+      findInvalidTypebotLinkMapping(
+        createTypebot({
+          typebotId: "child",
+          inputMappings: [
+            { id: "1", parentVariableId: "p1", childVariableId: "c1" },
+          ],
+        }),
+        { linkedTypebots },
+      ),
+    ).toBeUndefined();
+  });
+
+  it("should report a missing parent variable", () => {
+    expect(
+      findInvalidTypebotLinkMapping(
+        createTypebot({
+          typebotId: "child",
+          outputMappings: [
+            { id: "1", parentVariableId: "deleted", childVariableId: "c1" },
+          ],
+        }),
+        { linkedTypebots },
+      ),
+    ).toBe(
+      'Typebot link in "Group #1" maps a variable that no longer exists in this typebot',
+    );
+  });
+
+  it("should report a missing child variable", () => {
+    expect(
+      findInvalidTypebotLinkMapping(
+        createTypebot({
+          typebotId: "child",
+          inputMappings: [
+            { id: "1", parentVariableId: "p1", childVariableId: "deleted" },
+          ],
+        }),
+        { linkedTypebots },
+      ),
+    ).toBe(
+      'Typebot link in "Group #1" maps a variable that doesn\'t exist in "Child"',
+    );
+  });
+
+  it("should check the current typebot variables when linking to itself", () => {
+    expect(
+      findInvalidTypebotLinkMapping(
+        createTypebot({
+          typebotId: "current",
+          inputMappings: [
+            { id: "1", parentVariableId: "p1", childVariableId: "c1" },
+          ],
+        }),
+        { linkedTypebots },
+      ),
+    ).toBe(
+      'Typebot link in "Group #1" maps a variable that doesn\'t exist in "Parent"',
+    );
+  });
+
+  it("should skip linked typebots that are not found", () => {
+    expect(
+      findInvalidTypebotLinkMapping(
+        createTypebot({
+          typebotId: "unknown",
+          inputMappings: [{ id: "1", childVariableId: "deleted" }],
+        }),
+        { linkedTypebots },
+      ),
+    ).toBeUndefined();
+  });
+});
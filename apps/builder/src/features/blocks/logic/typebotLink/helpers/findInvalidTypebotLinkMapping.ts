@@ -0,0 +1,59 @@
+import { LogicBlockType } from "@typebot.io/blocks-logic/constants";
+import type { GroupV6 } from "@typebot.io/groups/schemas";
+import { byId } from "@typebot.io/lib/utils";
+import type { Variable } from "@typebot.io/variables/schemas";
+
+type TypebotWithVariables = {
+  id: string;
+  name: string;
+  variables: Pick<Variable, "id">[];
+};
+
+export const getMappedLinkedTypebotIds = (
+  groups: Pick<GroupV6, "blocks">[],
+): string[] => [
+  ...new Set(
+    groups
+      .flatMap((group) => group.blocks)
+      .flatMap((block) =>
+        block.type === LogicBlockType.TYPEBOT_LINK &&
+        block.options?.typebotId &&
+        (block.options.inputMappings?.length ||
+          block.options.outputMappings?.length)
+          ? [block.options.typebotId]
+          : [],
+      ),
+  ),
+];
+
+/**
+ * Returns a description of the first Typebot link mapping that references a
+ * variable which doesn't exist in the parent or in the linked typebot.
+ */
+export const findInvalidTypebotLinkMapping = (
+  typebot: TypebotWithVariables & { groups: GroupV6[] },
+  { linkedTypebots }: { linkedTypebots: TypebotWithVariables[] },
+): string | undefined => {
+  for (const group of typebot.groups) {
+    for (const block of group.blocks) {
+      if (block.type !== LogicBlockType.TYPEBOT_LINK) continue;
+      const { typebotId, inputMappings, outputMappings } = block.options ?? {};
+      const mappings = [...(inputMappings ?? []), ...(outputMappings ?? [])];
+      if (!typebotId || mappings.length === 0) continue;
+      const linkedTypebot =
+        typebotId === "current" || typebotId === typebot.id
+          ? typebot
+          : linkedTypebots.find(byId(typebotId));
+      if (!linkedTypebot) continue;
+      for (const { parentVariableId, childVariableId } of mappings) {
+        if (parentVariableId && !typebot.variables.some(byId(parentVariableId)))
+          return `Typebot link in "${group.title}" maps a variable that no longer exists in this typebot`;
+        if (
+          childVariableId &&
+          !linkedTypebot.variables.some(byId(childVariableId))
+        )
+          return `Typebot link in "${group.title}" maps a variable that doesn't exist in "${linkedTypebot.name}"`;
+      }
+    }
+  }
+};
@@ -3,13 +3,20 @@ import { encrypt } from "@typebot.io/credentials/encrypt";
 import type { Credentials } from "@typebot.io/credentials/schemas";
 import {
   googleSheetsCredentialsSchema,
+  s3CredentialsSchema,
   smtpCredentialsSchema,
   stripeCredentialsSchema,
+  telegramCredentialsSchema,
+  twilioCredentialsSchema,
   whatsAppCredentialsSchema,
 } from "@typebot.io/credentials/schemas";
 import { forgedCredentialsSchemas } from "@typebot.io/forge-repository/credentials";
 import { isDefined } from "@typebot.io/lib/utils";
 import prisma from "@typebot.io/prisma";
+import { getTwilioPhoneNumber } from "@typebot.io/sms/getTwilioPhoneNumber";
+import { setTwilioWebhook } from "@typebot.io/sms/setTwilioWebhook";
+import { getTelegramBot } from "@typebot.io/telegram/getTelegramBot";
+import { setTelegramWebhook } from "@typebot.io/telegram/setTelegramWebhook";
 import { trackEvents } from "@typebot.io/telemetry/trackEvents";
 import type { User } from "@typebot.io/user/schemas";
 import { z } from "@typebot.io/zod";
@@ -27,6 +34,9 @@ const credentialsCreateSchema = z
     smtpCredentialsSchema.pick(inputShape),
     googleSheetsCredentialsSchema.pick(inputShape),
     whatsAppCredentialsSchema.pick(inputShape),
+    telegramCredentialsSchema.pick(inputShape),
+    twilioCredentialsSchema.pick(inputShape),
+    s3CredentialsSchema.pick(inputShape),
     ...Object.values(forgedCredentialsSchemas).map((schema) =>
       schema.pick(inputShape),
     ),
@@ -82,6 +92,29 @@ export const handleCreateCredentials = async ({
   if (!workspace || isWriteWorkspaceForbidden(workspace, user))
     throw new ORPCError("NOT_FOUND", { message: "Workspace not found" });
 
+  if (input.credentials.type === "telegram") {
+    const isBotTokenValid = await getTelegramBot({
+      credentials: input.credentials.data,
+    })
+      .then(() => true)
+      .catch(() => false);
+    if (!isBotTokenValid)
+      throw new ORPCError("BAD_REQUEST", {
+        message: "Invalid Telegram bot token.",
+      });
+  }
+
+  if (input.credentials.type === "twilio") {
+    const phoneNumber = await getTwilioPhoneNumber({
+      credentials: input.credentials.data,
+    }).catch(() => undefined);
+    if (!phoneNumber)
+      throw new ORPCError("BAD_REQUEST", {
+        message:
+          "Invalid Twilio credentials or phone number not found in the account.",
+      });
+  }
+
   const { encryptedData, iv } = await encrypt(input.credentials.data);
   const createdCredentials = await prisma.credentials.create({
     data: {
@@ -94,6 +127,18 @@ export const handleCreateCredentials = async ({
       id: true,
     },
   });
+  if (input.credentials.type === "telegram")
+    await setTelegramWebhook({
+      workspaceId: workspace.id,
+      credentialsId: createdCredentials.id,
+      credentials: input.credentials.data,
+    });
+  if (input.credentials.type === "twilio")
+    await setTwilioWebhook({
+      workspaceId: workspace.id,
+      credentialsId: createdCredentials.id,
+      credentials: input.credentials.data,
+    });
   if (input.credentials.type === "whatsApp")
     await trackEvents([
       {
@@ -7,7 +7,10 @@ import { GoogleSheetConnectDialogBody } from "@/features/blocks/integrations/goo
 import { SmtpCredentialsCreateDialogBody } from "@/features/blocks/integrations/sendEmail/components/SmtpCredentialsCreateDialog";
 import { ForgedCredentialsCreateDialogBody } from "@/features/forge/components/credentials/ForgedCredentialsCreateDialog";
 import { ForgedOAuthCredentialsCreateDialogBody } from "@/features/forge/components/credentials/ForgedOAuthCredentialsCreateDialog";
+import { TwilioCreateDialogBody } from "@/features/publish/components/deploy/dialogs/sms/TwilioCredentialsDialog";
+import { TelegramCreateDialogBody } from "@/features/publish/components/deploy/dialogs/telegram/TelegramCredentialsDialog";
 import { WhatsAppCreateDialogBody } from "@/features/publish/components/deploy/dialogs/whatsApp/WhatsAppCredentialsDialog";
+import { S3CreateDialogBody } from "@/features/results/components/exportSchedules/S3CredentialsDialog";
 import { orpc } from "@/lib/queryClient";
 
 export const CredentialsCreateDialog = ({
@@ -67,6 +70,16 @@ const CredentialsCreateDialogPopup = ({
         onClose={onClose}
       />
     );
+  if (type === "telegram")
+    return (
+      <TelegramCreateDialogBody onNewCredentials={onSubmit} onClose={onClose} />
+    );
+  if (type === "twilio")
+    return (
+      <TwilioCreateDialogBody onNewCredentials={onSubmit} onClose={onClose} />
+    );
+  if (type === "s3")
+    return <S3CreateDialogBody onNewCredentials={onSubmit} onClose={onClose} />;
   if (type === "http proxy") return null;
 
   if (forgedBlocks[type].auth?.type === "oauth")
@@ -11,12 +11,15 @@ import { Popover } from "@typebot.io/ui/components/Popover";
 import { Skeleton } from "@typebot.io/ui/components/Skeleton";
 import { useOpenControls } from "@typebot.io/ui/hooks/useOpenControls";
 import { ArrowDown01Icon } from "@typebot.io/ui/icons/ArrowDown01Icon";
+import { DatabaseIcon } from "@typebot.io/ui/icons/DatabaseIcon";
 import { Edit03Icon } from "@typebot.io/ui/icons/Edit03Icon";
 import { TrashIcon } from "@typebot.io/ui/icons/TrashIcon";
 import { cn } from "@typebot.io/ui/lib/cn";
 import { type SVGProps, useMemo, useRef, useState } from "react";
 import { BasicSelect } from "@/components/inputs/BasicSelect";
 import { StripeLogo } from "@/components/logos/StripeLogo";
+import { TelegramLogo } from "@/components/logos/TelegramLogo";
+import { TwilioLogo } from "@/components/logos/TwilioLogo";
 import { WhatsAppLogo } from "@/components/logos/WhatsAppLogo";
 import { BlockIcon } from "@/features/editor/components/BlockIcon";
 import { BlockLabel } from "@/features/editor/components/BlockLabel";
@@ -26,7 +29,13 @@ import { CredentialsCreateDialog } from "./CredentialsCreateDialog";
 import { CredentialsUpdateDialog } from "./CredentialsUpdateDialog";
 
 const hiddenTypes = ["http proxy"] as const;
-const nonEditableTypes = ["whatsApp", "google sheets"] as const;
+const nonEditableTypes = [
+  "whatsApp",
+  "telegram",
+  "twilio",
+  "s3",
+  "google sheets",
+] as const;
 
 type CredentialsInfo = Pick<Credentials, "id" | "type" | "name">;
 
@@ -244,6 +253,12 @@ const CredentialsIcon = ({
       return <StripeLogo {...props} />;
     case "whatsApp":
       return <WhatsAppLogo {...props} />;
+    case "telegram":
+      return <TelegramLogo {...props} />;
+    case "twilio":
+      return <TwilioLogo {...props} />;
+    case "s3":
+      return <DatabaseIcon className={props.className} />;
     case "http proxy":
       return null;
     default:
@@ -267,6 +282,12 @@ const CredentialsLabel = ({
       return <p className={cn("text-sm", className)}>Stripe</p>;
     case "whatsApp":
       return <p className={cn("text-sm", className)}>WhatsApp</p>;
+    case "telegram":
+      return <p className={cn("text-sm", className)}>Telegram</p>;
+    case "twilio":
+      return <p className={cn("text-sm", className)}>Twilio</p>;
+    case "s3":
+      return <p className={cn("text-sm", className)}>S3 bucket</p>;
     case "http proxy":
       return null;
     default:
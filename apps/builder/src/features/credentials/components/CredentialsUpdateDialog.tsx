@@ -67,6 +67,9 @@ const CredentialsUpdateDialogPopup = ({
 
   if (
     editingCredentials.type === "whatsApp" ||
+    editingCredentials.type === "telegram" ||
+    editingCredentials.type === "twilio" ||
+    editingCredentials.type === "s3" ||
     editingCredentials.type === "http proxy"
   )
     return null;
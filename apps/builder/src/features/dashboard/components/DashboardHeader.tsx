@@ -2,11 +2,13 @@ import { useTranslate } from "@tolgee/react";
 import { isNotDefined } from "@typebot.io/lib/utils";
 import { Button } from "@typebot.io/ui/components/Button";
 import { useOpenControls } from "@typebot.io/ui/hooks/useOpenControls";
+import { ChatIcon } from "@typebot.io/ui/icons/ChatIcon";
 import { HardDriveIcon } from "@typebot.io/ui/icons/HardDriveIcon";
 import { Settings01Icon } from "@typebot.io/ui/icons/Settings01Icon";
 import Link from "next/link";
 import { useRouter } from "next/router";
 import { useState } from "react";
+import { ButtonLink } from "@/components/ButtonLink";
 import { EmojiOrImageIcon } from "@/components/EmojiOrImageIcon";
 import { useUser } from "@/features/user/hooks/useUser";
 import { WorkspaceDropdown } from "@/features/workspace/components/WorkspaceDropdown";
@@ -55,6 +57,12 @@ export const DashboardHeader = () => {
               }
             />
           )}
+          {!workspace?.isPastDue && (
+            <ButtonLink href="/inbox" variant="secondary">
+              <ChatIcon />
+              {t("dashboard.header.inboxButton.label")}
+            </ButtonLink>
+          )}
           {!workspace?.isPastDue && (
             <Button
               variant="secondary"
@@ -93,6 +93,26 @@ export const BlockCard = (
           <BlockLabel type={props.type} />
         </BlockCardLayout>
       );
+    case LogicBlockType.FOR_EACH:
+      return (
+        <BlockCardLayout
+          {...props}
+          tooltip={t("editor.blockCard.logicBlock.tooltip.forEach.label")}
+        >
+          <BlockIcon type={props.type} />
+          <BlockLabel type={props.type} />
+        </BlockCardLayout>
+      );
+    case LogicBlockType.SWITCH:
+      return (
+        <BlockCardLayout
+          {...props}
+          tooltip={t("editor.blockCard.logicBlock.tooltip.switch.label")}
+        >
+          <BlockIcon type={props.type} />
+          <BlockLabel type={props.type} />
+        </BlockCardLayout>
+      );
     case IntegrationBlockType.GOOGLE_SHEETS:
       return (
         <BlockCardLayout
@@ -103,6 +123,16 @@ export const BlockCard = (
           <BlockLabel type={props.type} />
         </BlockCardLayout>
       );
+    case IntegrationBlockType.WHATSAPP_TEMPLATE:
+      return (
+        <BlockCardLayout
+          {...props}
+          tooltip={t("blocks.integrations.whatsAppTemplate.blockCard.tooltip")}
+        >
+          <BlockIcon type={props.type} />
+          <BlockLabel type={props.type} />
+        </BlockCardLayout>
+      );
     case IntegrationBlockType.GOOGLE_ANALYTICS:
       return (
         <BlockCardLayout
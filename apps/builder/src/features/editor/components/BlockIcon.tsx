@@ -14,9 +14,11 @@ import { ImageBubbleIcon } from "@/features/blocks/bubbles/image/components/Imag
 import { TextBubbleIcon } from "@/features/blocks/bubbles/textBubble/components/TextBubbleIcon";
 import { VideoBubbleIcon } from "@/features/blocks/bubbles/video/components/VideoBubbleIcon";
 import { ButtonsInputIcon } from "@/features/blocks/inputs/buttons/components/ButtonsIcon";
+import { ContactInputIcon } from "@/features/blocks/inputs/contact/components/ContactInputIcon";
 import { DateInputIcon } from "@/features/blocks/inputs/date/components/DateInputIcon";
 import { EmailInputIcon } from "@/features/blocks/inputs/emailInput/components/EmailInputIcon";
 import { FileInputIcon } from "@/features/blocks/inputs/fileUpload/components/FileInputIcon";
+import { LocationInputIcon } from "@/features/blocks/inputs/location/components/LocationInputIcon";
 import { NumberInputIcon } from "@/features/blocks/inputs/number/components/NumberInputIcon";
 import { PaymentInputIcon } from "@/features/blocks/inputs/payment/components/PaymentInputIcon";
 import { PhoneInputIcon } from "@/features/blocks/inputs/phone/components/PhoneInputIcon";
@@ -33,14 +35,19 @@ import { OpenAILogo } from "@/features/blocks/integrations/openai/components/Ope
 import { PabblyConnectLogo } from "@/features/blocks/integrations/pabbly/components/PabblyConnectLogo";
 import { PixelLogo } from "@/features/blocks/integrations/pixel/components/PixelLogo";
 import { SendEmailIcon } from "@/features/blocks/integrations/sendEmail/components/SendEmailIcon";
+import { WhatsAppTemplateLogo } from "@/features/blocks/integrations/whatsAppTemplate/components/WhatsAppTemplateLogo";
 import { ZapierLogo } from "@/features/blocks/integrations/zapier/components/ZapierLogo";
 import { AbTestIcon } from "@/features/blocks/logic/abTest/components/AbTestIcon";
 import { ConditionIcon } from "@/features/blocks/logic/condition/components/ConditionIcon";
+import { ForEachIcon } from "@/features/blocks/logic/forEach/components/ForEachIcon";
+import { HandoffIcon } from "@/features/blocks/logic/handoff/components/HandoffIcon";
 import { JumpIcon } from "@/features/blocks/logic/jump/components/JumpIcon";
 import { RedirectIcon } from "@/features/blocks/logic/redirect/components/RedirectIcon";
 import { ReturnBlockIcon } from "@/features/blocks/logic/return/components/ReturnBlockIcon";
 import { ScriptIcon } from "@/features/blocks/logic/script/components/ScriptIcon";
 import { SetVariableIcon } from "@/features/blocks/logic/setVariable/components/SetVariableIcon";
+import { SwitchIcon } from "@/features/blocks/logic/switch/components/SwitchIcon";
+import { TagResultIcon } from "@/features/blocks/logic/tagResult/components/TagResultIcon";
 import { TypebotLinkIcon } from "@/features/blocks/logic/typebotLink/components/TypebotLinkIcon";
 import { WaitIcon } from "@/features/blocks/logic/wait/components/WaitIcon";
 import { WebhookIcon } from "@/features/blocks/logic/webhook/components/WebhookIcon";
@@ -93,6 +100,16 @@ export const BlockIcon = ({ type, className }: BlockIconProps): JSX.Element => {
       return (
         <TimeInputIcon className={cn("text-orange-9 stroke-2", className)} />
       );
+    case InputBlockType.LOCATION:
+      return (
+        <LocationInputIcon
+          className={cn("text-orange-9 stroke-2", className)}
+        />
+      );
+    case InputBlockType.CONTACT:
+      return (
+        <ContactInputIcon className={cn("text-orange-9 stroke-2", className)} />
+      );
     case InputBlockType.DATE:
       return (
         <DateInputIcon className={cn("text-orange-9 stroke-2", className)} />
@@ -157,10 +174,24 @@ export const BlockIcon = ({ type, className }: BlockIconProps): JSX.Element => {
       return (
         <ReturnBlockIcon className={cn("text-purple-9 stroke-2", className)} />
       );
+    case LogicBlockType.FOR_EACH:
+      return (
+        <ForEachIcon className={cn("text-purple-9 stroke-2", className)} />
+      );
+    case LogicBlockType.SWITCH:
+      return <SwitchIcon className={cn("text-purple-9 stroke-2", className)} />;
     case LogicBlockType.WEBHOOK:
       return (
         <WebhookIcon className={cn("text-purple-9 stroke-2", className)} />
       );
+    case LogicBlockType.HANDOFF:
+      return (
+        <HandoffIcon className={cn("text-purple-9 stroke-2", className)} />
+      );
+    case LogicBlockType.TAG_RESULT:
+      return (
+        <TagResultIcon className={cn("text-purple-9 stroke-2", className)} />
+      );
     case IntegrationBlockType.GOOGLE_SHEETS:
       return <GoogleSheetsLogo className={className} />;
     case IntegrationBlockType.GOOGLE_ANALYTICS:
@@ -179,6 +210,8 @@ export const BlockIcon = ({ type, className }: BlockIconProps): JSX.Element => {
       return <ChatwootLogo className={className} />;
     case IntegrationBlockType.PIXEL:
       return <PixelLogo className={className} />;
+    case IntegrationBlockType.WHATSAPP_TEMPLATE:
+      return <WhatsAppTemplateLogo className={className} />;
     case "start":
       return <Flag02Icon className={className} />;
     case IntegrationBlockType.OPEN_AI:
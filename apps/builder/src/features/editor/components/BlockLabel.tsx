@@ -62,6 +62,8 @@ export const getInputBlockLabel = (
   [InputBlockType.FILE]: t("editor.sidebarBlock.file.label"),
   [InputBlockType.TIME]: "Time",
   [InputBlockType.CARDS]: "Cards",
+  [InputBlockType.LOCATION]: t("editor.sidebarBlock.location.label"),
+  [InputBlockType.CONTACT]: t("editor.sidebarBlock.contact.label"),
 });
 
 export const getLogicBlockLabel = (
@@ -77,6 +79,10 @@ export const getLogicBlockLabel = (
   [LogicBlockType.AB_TEST]: t("editor.sidebarBlock.abTest.label"),
   [LogicBlockType.WEBHOOK]: "Webhook",
   [LogicBlockType.RETURN]: "Return",
+  [LogicBlockType.FOR_EACH]: t("editor.sidebarBlock.forEach.label"),
+  [LogicBlockType.SWITCH]: t("editor.sidebarBlock.switch.label"),
+  [LogicBlockType.HANDOFF]: t("editor.sidebarBlock.handoff.label"),
+  [LogicBlockType.TAG_RESULT]: t("editor.sidebarBlock.tagResult.label"),
 });
 
 export const getIntegrationBlockLabel = (
@@ -94,4 +100,7 @@ export const getIntegrationBlockLabel = (
   [IntegrationBlockType.CHATWOOT]: t("editor.sidebarBlock.chatwoot.label"),
   [IntegrationBlockType.OPEN_AI]: t("editor.sidebarBlock.openai.label"),
   [IntegrationBlockType.PIXEL]: t("editor.sidebarBlock.pixel.label"),
+  [IntegrationBlockType.WHATSAPP_TEMPLATE]: t(
+    "editor.sidebarBlock.whatsAppTemplate.label",
+  ),
 });
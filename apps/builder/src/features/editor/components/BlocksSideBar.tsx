@@ -162,7 +162,7 @@ export const BlocksSideBar = () => {
 
   const filteredLogicBlockTypes = Object.values(LogicBlockType).filter(
     (type) =>
-      type === LogicBlockType.WEBHOOK
+      type === LogicBlockType.WEBHOOK || type === LogicBlockType.HANDOFF
         ? isDefined(env.NEXT_PUBLIC_PARTYKIT_HOST)
         : true &&
           getLogicBlockLabel(t)
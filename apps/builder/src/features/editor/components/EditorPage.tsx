@@ -6,6 +6,7 @@ import { GraphProvider } from "@/features/graph/providers/GraphProvider";
 import { VideoOnboardingFloatingWindow } from "@/features/onboarding/components/VideoOnboardingFloatingWindow";
 import { PreviewDrawer } from "@/features/preview/components/PreviewDrawer";
 import { VariablesDrawer } from "@/features/preview/components/VariablesDrawer";
+import { UnpublishedChangesPanel } from "@/features/publish/components/UnpublishedChangesPanel";
 import { useWorkspace } from "@/features/workspace/WorkspaceProvider";
 import { useRightPanel } from "@/hooks/useRightPanel";
 import { useThemeValue } from "@/hooks/useThemeValue";
@@ -51,7 +52,7 @@ export const EditorPage = () => {
                 }
               >
                 <Graph className="flex-1" typebot={typebot} key={typebot.id} />
-
+                <UnpublishedChangesPanel />
                 <RightPanel />
               </GraphProvider>
               {currentUserMode === "write" && <BlocksSideBar />}
@@ -23,6 +23,8 @@ const editorContext = createContext<{
       | undefined
     >
   >;
+  isShowingChanges: boolean;
+  setIsShowingChanges: Dispatch<SetStateAction<boolean>>;
   //@ts-expect-error
 }>({});
 
@@ -34,12 +36,15 @@ export const EditorProvider = ({ children }: { children: ReactNode }) => {
       }
     | undefined
   >();
+  const [isShowingChanges, setIsShowingChanges] = useState(false);
 
   return (
     <editorContext.Provider
       value={{
         startPreviewFrom,
         setStartPreviewFrom,
+        isShowingChanges,
+        setIsShowingChanges,
       }}
     >
       {children}
@@ -16,6 +16,7 @@ import type { PictureChoiceItem } from "@typebot.io/blocks-inputs/pictureChoice/
 import type { AbTestBlock } from "@typebot.io/blocks-logic/abTest/schema";
 import type { ConditionItem } from "@typebot.io/blocks-logic/condition/schema";
 import { LogicBlockType } from "@typebot.io/blocks-logic/constants";
+import type { SwitchItem } from "@typebot.io/blocks-logic/switch/schema";
 import { byId } from "@typebot.io/lib/utils";
 import type { Edge } from "@typebot.io/typebot/schemas/edge";
 import { type Draft, produce } from "immer";
@@ -168,6 +169,16 @@ const createItem = (
       block.items.splice(itemIndex, 0, newItem);
       return newItem;
     }
+    case LogicBlockType.SWITCH: {
+      const baseItem = item as SwitchItem;
+      const newItem = {
+        ...baseItem,
+        id: "id" in item && item.id ? item.id : createId(),
+        content: baseItem.content,
+      };
+      block.items.splice(itemIndex, 0, newItem);
+      return newItem;
+    }
     case InputBlockType.CHOICE: {
       const baseItem = item as ButtonItem;
       const newItem = {
@@ -254,6 +265,16 @@ export const duplicateItemDraft = (
       } satisfies ConditionItem;
       return { newItem, newEdges };
     }
+    case LogicBlockType.SWITCH: {
+      const baseItem = item as SwitchItem;
+      const newItem = {
+        ...baseItem,
+        outgoingEdgeId: newDefaultOutgoingEdge?.id,
+        id: newItemId,
+        content: baseItem.content,
+      } satisfies SwitchItem;
+      return { newItem, newEdges };
+    }
     case InputBlockType.CHOICE: {
       const baseItem = item as ButtonItem;
       const newItem = {
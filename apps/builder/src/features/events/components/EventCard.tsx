@@ -61,5 +61,15 @@ export const EventCard = (
           <EventLabel type={props.type} />
         </EventCardLayout>
       );
+    case EventType.INACTIVITY:
+      return (
+        <EventCardLayout
+          {...props}
+          tooltip={t("blocks.events.inactivity.eventCard.tooltip")}
+        >
+          <EventIcon type={props.type} />
+          <EventLabel type={props.type} />
+        </EventCardLayout>
+      );
   }
 };
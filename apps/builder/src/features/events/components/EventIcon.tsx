@@ -1,5 +1,6 @@
 import { EventType } from "@typebot.io/events/constants";
 import type { TEvent } from "@typebot.io/events/schemas";
+import { AlarmClockIcon } from "@typebot.io/ui/icons/AlarmClockIcon";
 import { Cancel01Icon } from "@typebot.io/ui/icons/Cancel01Icon";
 import { CommandIcon } from "@typebot.io/ui/icons/CommandIcon";
 import { Flag02Icon } from "@typebot.io/ui/icons/Flag02Icon";
@@ -29,5 +30,9 @@ export const EventIcon = ({
       return (
         <Cancel01Icon {...props} className={cn(className, "text-gray-12")} />
       );
+    case EventType.INACTIVITY:
+      return (
+        <AlarmClockIcon {...props} className={cn(className, "text-gray-12")} />
+      );
   }
 };
@@ -3,6 +3,7 @@ import type { TEvent } from "@typebot.io/events/schemas";
 import type { JSX } from "react";
 import { StartEventNode } from "@/features/events/components/StartEventNode";
 import { CommandEventNode } from "./CommandEventNode";
+import { InactivityEventNode } from "./InactivityEventNode";
 import { InvalidReplyEventNode } from "./InvalidReplyEventNode";
 import { ReplyEventNode } from "./ReplyEventNode";
 
@@ -20,5 +21,7 @@ export const EventNodeContent = ({ event }: Props): JSX.Element => {
       return <ReplyEventNode options={event.options} />;
     case EventType.INVALID_REPLY:
       return <InvalidReplyEventNode options={event.options} />;
+    case EventType.INACTIVITY:
+      return <InactivityEventNode options={event.options} />;
   }
 };
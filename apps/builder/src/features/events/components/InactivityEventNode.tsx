@@ -0,0 +1,26 @@
+import { useTranslate } from "@tolgee/react";
+import {
+  defaultInactivityEventOptions,
+  EventType,
+} from "@typebot.io/events/constants";
+import type { InactivityEvent } from "@typebot.io/events/schemas";
+import { EventIcon } from "@/features/events/components/EventIcon";
+
+type Props = {
+  options: InactivityEvent["options"];
+};
+
+export const InactivityEventNode = ({ options }: Props) => {
+  const { t } = useTranslate();
+
+  return (
+    <div className="flex items-center gap-3 font-normal">
+      <EventIcon type={EventType.INACTIVITY} />
+      <p>
+        {t("blocks.events.inactivity.node.label", {
+          timeout: options?.timeout ?? defaultInactivityEventOptions.timeout,
+        })}
+      </p>
+    </div>
+  );
+};
@@ -0,0 +1,41 @@
+import { useTranslate } from "@tolgee/react";
+import {
+  defaultInactivityEventOptions,
+  maxInactivityEventTimeout,
+} from "@typebot.io/events/constants";
+import type { InactivityEvent } from "@typebot.io/events/schemas";
+import { Field } from "@typebot.io/ui/components/Field";
+import { MoreInfoTooltip } from "@typebot.io/ui/components/MoreInfoTooltip";
+import { BasicNumberInput } from "@/components/inputs/BasicNumberInput";
+
+export const InactivityEventSettings = ({
+  options,
+  onOptionsChange,
+}: {
+  options: InactivityEvent["options"];
+  onOptionsChange: (options: InactivityEvent["options"]) => void;
+}) => {
+  const { t } = useTranslate();
+
+  return (
+    <div className="flex flex-col gap-4">
+      <Field.Root>
+        <Field.Label>
+          {t("blocks.events.inactivity.settings.timeout.label")}
+          <MoreInfoTooltip>
+            {t("blocks.events.inactivity.settings.timeout.moreInfo")}
+          </MoreInfoTooltip>
+        </Field.Label>
+        <BasicNumberInput
+          defaultValue={
+            options?.timeout ?? defaultInactivityEventOptions.timeout
+          }
+          min={1}
+          max={maxInactivityEventTimeout}
+          withVariableButton={false}
+          onValueChange={(timeout) => onOptionsChange({ ...options, timeout })}
+        />
+      </Field.Root>
+    </div>
+  );
+};
@@ -1,5 +1,5 @@
 import { useMutation, useQuery } from "@tanstack/react-query";
-import type { CreatableCredentials } from "@typebot.io/credentials/schemas";
+import type { ForgedCredentials } from "@typebot.io/credentials/schemas";
 import type { ForgedBlockDefinition } from "@typebot.io/forge-repository/definitions";
 import { Button } from "@typebot.io/ui/components/Button";
 import { Dialog } from "@typebot.io/ui/components/Dialog";
@@ -83,7 +83,7 @@ export const ForgedCredentialsUpdateDialogContent = ({
               type: blockDef.id,
               name: name ?? "My account",
               data,
-            } as CreatableCredentials,
+            } as ForgedCredentials,
             scope: "workspace",
             workspaceId: workspace.id,
           }
@@ -94,7 +94,7 @@ export const ForgedCredentialsUpdateDialogContent = ({
               type: blockDef.id,
               name: name ?? "My account",
               data,
-            } as CreatableCredentials,
+            } as ForgedCredentials,
           },
     );
   };
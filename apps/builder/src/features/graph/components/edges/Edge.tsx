@@ -9,6 +9,7 @@ import { useKeyboardShortcuts } from "@/hooks/useKeyboardShortcuts";
 import { eventWidth, groupWidth } from "../../constants";
 import { computeEdgePath } from "../../helpers/computeEdgePath";
 import { getAnchorsPosition } from "../../helpers/getAnchorsPosition";
+import { getChangeStatus } from "../../helpers/getChangeStatus";
 import { useSelectionStore } from "../../hooks/useSelectionStore";
 import { useEndpoints } from "../../providers/EndpointsProvider";
 import { useGraph } from "../../providers/GraphProvider";
@@ -20,8 +21,13 @@ type Props = {
 
 export const Edge = ({ edge, fromElementId }: Props) => {
   const { deleteEdge } = useTypebot();
-  const { previewingEdge, graphPosition, isReadOnly, setPreviewingEdge } =
-    useGraph();
+  const {
+    previewingEdge,
+    graphPosition,
+    isReadOnly,
+    setPreviewingEdge,
+    changes,
+  } = useGraph();
   const { sourceEndpointYOffsets, targetEndpointYOffsets } = useEndpoints();
   const fromElementCoordinates = useSelectionStore(
     useShallow((state) =>
@@ -42,6 +48,10 @@ export const Edge = ({ edge, fromElementId }: Props) => {
   const [isMouseOver, setIsMouseOver] = useState(false);
 
   const isPreviewing = isMouseOver || previewingEdge?.id === edge.id;
+  const changeStatus = getChangeStatus(changes, {
+    type: "edges",
+    id: edge.id,
+  });
 
   const sourceTop = useMemo(() => {
     const endpointId =
@@ -128,7 +138,11 @@ export const Edge = ({ edge, fromElementId }: Props) => {
               className={cx(
                 isPreviewing || isContextMenuOpen
                   ? "stroke-orange-8"
-                  : "stroke-gray-8",
+                  : changeStatus === "added"
+                    ? "stroke-green-8"
+                    : changeStatus === "modified"
+                      ? "stroke-purple-8"
+                      : "stroke-gray-8",
               )}
               strokeWidth="2px"
               markerEnd={isPreviewing ? "url(#orange-arrow)" : "url(#arrow)"}
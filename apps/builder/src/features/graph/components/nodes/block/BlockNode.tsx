@@ -28,6 +28,10 @@ import { fromZodError } from "zod-validation-error";
 import { TextBubbleEditor } from "@/features/blocks/bubbles/textBubble/components/TextBubbleEditor";
 import { BlockIcon } from "@/features/editor/components/BlockIcon";
 import { useTypebot } from "@/features/editor/providers/TypebotProvider";
+import {
+  changeStatusBorderClassNames,
+  getChangeStatus,
+} from "@/features/graph/helpers/getChangeStatus";
 import { useSelectionStore } from "@/features/graph/hooks/useSelectionStore";
 import {
   type NodePosition,
@@ -66,6 +70,7 @@ export const BlockNode = ({
     isReadOnly,
     isAnalytics,
     previewingBlock,
+    changes,
   } = useGraph();
   const { mouseOverBlock, setMouseOverBlock } = useBlockDnd();
   const { typebot, updateBlock } = useTypebot();
@@ -80,6 +85,11 @@ export const BlockNode = ({
     previewingEdge?.to.blockId === block.id ||
     previewingBlock?.id === block.id;
 
+  const changeStatus = getChangeStatus(changes, {
+    type: "blocks",
+    id: block.id,
+  });
+
   const groupId = typebot?.groups.at(indices.groupIndex)?.id;
 
   const isDraggingGraph = useSelectionStore((state) => state.isDraggingGraph);
@@ -232,7 +242,12 @@ export const BlockNode = ({
                     "flex gap-2 flex-1 p-3 rounded-lg items-start w-full text-left select-none transition-[border-color] cursor-pointer bg-gray-2 dark:border-gray-3",
                     isContextMenuOpened || isPreviewing
                       ? "border-2 border-orange-8 dark:border-orange-8 -m-px"
-                      : "border",
+                      : changeStatus
+                        ? cx(
+                            "border-2 -m-px",
+                            changeStatusBorderClassNames[changeStatus],
+                          )
+                        : "border",
                   )}
                 >
                   <BlockIcon type={block.type} className="mt-1" />
@@ -14,9 +14,11 @@ import { TextBubbleContent } from "@/features/blocks/bubbles/textBubble/componen
 import { VideoBubbleContent } from "@/features/blocks/bubbles/video/components/VideoBubbleContent";
 import { ButtonsBlockNode } from "@/features/blocks/inputs/buttons/components/ButtonsBlockNode";
 import { CardsBlockNode } from "@/features/blocks/inputs/cards/components/CardsBlockNode";
+import { ContactNodeContent } from "@/features/blocks/inputs/contact/components/ContactNodeContent";
 import { DateNodeContent } from "@/features/blocks/inputs/date/components/DateNodeContent";
 import { EmailInputNodeContent } from "@/features/blocks/inputs/emailInput/components/EmailInputNodeContent";
 import { FileInputContent } from "@/features/blocks/inputs/fileUpload/components/FileInputContent";
+import { LocationNodeContent } from "@/features/blocks/inputs/location/components/LocationNodeContent";
 import { NumberNodeContent } from "@/features/blocks/inputs/number/components/NumberNodeContent";
 import { PaymentInputContent } from "@/features/blocks/inputs/payment/components/PaymentInputContent";
 import { PhoneNodeContent } from "@/features/blocks/inputs/phone/components/PhoneNodeContent";
@@ -34,14 +36,19 @@ import { OpenAINodeBody } from "@/features/blocks/integrations/openai/components
 import { PabblyConnectContent } from "@/features/blocks/integrations/pabbly/components/PabblyConnectContent";
 import { PixelNodeBody } from "@/features/blocks/integrations/pixel/components/PixelNodeBody";
 import { SendEmailContent } from "@/features/blocks/integrations/sendEmail/components/SendEmailContent";
+import { WhatsAppTemplateNodeBody } from "@/features/blocks/integrations/whatsAppTemplate/components/WhatsAppTemplateNodeBody";
 import { ZapierContent } from "@/features/blocks/integrations/zapier/components/ZapierContent";
 import { AbTestNodeBody } from "@/features/blocks/logic/abTest/components/AbTestNodeBody";
 import { ConditionBlockContent } from "@/features/blocks/logic/condition/components/ConditionBlockContent";
+import { ForEachNodeBody } from "@/features/blocks/logic/forEach/components/ForEachNodeBody";
+import { HandoffNodeContent } from "@/features/blocks/logic/handoff/components/HandoffNodeContent";
 import { JumpNodeBody } from "@/features/blocks/logic/jump/components/JumpNodeBody";
 import { RedirectNodeContent } from "@/features/blocks/logic/redirect/components/RedirectNodeContent";
 import { ReturnBlockNodeContent } from "@/features/blocks/logic/return/components/ReturnBlockNodeContent";
 import { ScriptNodeContent } from "@/features/blocks/logic/script/components/ScriptNodeContent";
 import { SetVariableContent } from "@/features/blocks/logic/setVariable/components/SetVariableContent";
+import { SwitchNodeContent } from "@/features/blocks/logic/switch/components/SwitchNodeContent";
+import { TagResultNodeContent } from "@/features/blocks/logic/tagResult/components/TagResultNodeContent";
 import { TypebotLinkNode } from "@/features/blocks/logic/typebotLink/components/TypebotLinkNode";
 import { WaitNodeContent } from "@/features/blocks/logic/wait/components/WaitNodeContent";
 import { WebhookNodeContent } from "@/features/blocks/logic/webhook/components/WebhookNodeContent";
@@ -100,6 +107,12 @@ export const BlockNodeContent = ({
     case InputBlockType.TIME: {
       return <TimeNodeContent variableId={block.options?.variableId} />;
     }
+    case InputBlockType.LOCATION: {
+      return <LocationNodeContent options={block.options} />;
+    }
+    case InputBlockType.CONTACT: {
+      return <ContactNodeContent options={block.options} />;
+    }
     case InputBlockType.PAYMENT: {
       return <PaymentInputContent block={block} />;
     }
@@ -127,6 +140,11 @@ export const BlockNodeContent = ({
     case LogicBlockType.JUMP: {
       return <JumpNodeBody options={block.options} />;
     }
+    case LogicBlockType.SWITCH:
+      return <SwitchNodeContent block={block} indices={indices} />;
+    case LogicBlockType.FOR_EACH: {
+      return <ForEachNodeBody options={block.options} />;
+    }
     case LogicBlockType.AB_TEST: {
       return <AbTestNodeBody block={block} groupId={groupId} />;
     }
@@ -138,6 +156,10 @@ export const BlockNodeContent = ({
       return <WebhookNodeContent options={block.options} />;
     case LogicBlockType.RETURN:
       return <ReturnBlockNodeContent />;
+    case LogicBlockType.HANDOFF:
+      return <HandoffNodeContent />;
+    case LogicBlockType.TAG_RESULT:
+      return <TagResultNodeContent options={block.options} />;
     case IntegrationBlockType.GOOGLE_SHEETS: {
       return <GoogleSheetsNodeContent options={block.options} />;
     }
@@ -168,6 +190,9 @@ export const BlockNodeContent = ({
     case IntegrationBlockType.PIXEL: {
       return <PixelNodeBody options={block.options} />;
     }
+    case IntegrationBlockType.WHATSAPP_TEMPLATE: {
+      return <WhatsAppTemplateNodeBody options={block.options} />;
+    }
     default: {
       return <ForgedBlockNodeContent block={block} indices={indices} />;
     }
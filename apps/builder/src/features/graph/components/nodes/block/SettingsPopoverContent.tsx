@@ -9,9 +9,11 @@ import { cn } from "@typebot.io/ui/lib/cn";
 import { type JSX, useRef, useState } from "react";
 import { ButtonsBlockSettings } from "@/features/blocks/inputs/buttons/components/ButtonsBlockSettings";
 import { CardsBlockSettings } from "@/features/blocks/inputs/cards/components/CardsBlockSettings";
+import { ContactInputSettings } from "@/features/blocks/inputs/contact/components/ContactInputSettings";
 import { DateInputSettings } from "@/features/blocks/inputs/date/components/DateInputSettings";
 import { EmailInputSettings } from "@/features/blocks/inputs/emailInput/components/EmailInputSettings";
 import { FileInputSettings } from "@/features/blocks/inputs/fileUpload/components/FileInputSettings";
+import { LocationInputSettings } from "@/features/blocks/inputs/location/components/LocationInputSettings";
 import { NumberInputSettings } from "@/features/blocks/inputs/number/components/NumberInputSettings";
 import { PaymentSettings } from "@/features/blocks/inputs/payment/components/PaymentSettings";
 import { PhoneInputSettings } from "@/features/blocks/inputs/phone/components/PhoneInputSettings";
@@ -29,16 +31,22 @@ import { OpenAISettings } from "@/features/blocks/integrations/openai/components
 import { PabblyConnectSettings } from "@/features/blocks/integrations/pabbly/components/PabblyConnectSettings";
 import { PixelSettings } from "@/features/blocks/integrations/pixel/components/PixelSettings";
 import { SendEmailSettings } from "@/features/blocks/integrations/sendEmail/components/SendEmailSettings";
+import { WhatsAppTemplateSettings } from "@/features/blocks/integrations/whatsAppTemplate/components/WhatsAppTemplateSettings";
 import { ZapierSettings } from "@/features/blocks/integrations/zapier/components/ZapierSettings";
 import { AbTestSettings } from "@/features/blocks/logic/abTest/components/AbTestSettings";
+import { ForEachSettings } from "@/features/blocks/logic/forEach/components/ForEachSettings";
+import { HandoffSettings } from "@/features/blocks/logic/handoff/components/HandoffSettings";
 import { JumpSettings } from "@/features/blocks/logic/jump/components/JumpSettings";
 import { RedirectSettings } from "@/features/blocks/logic/redirect/components/RedirectSettings";
 import { ScriptSettings } from "@/features/blocks/logic/script/components/ScriptSettings";
 import { SetVariableSettings } from "@/features/blocks/logic/setVariable/components/SetVariableSettings";
+import { SwitchSettings } from "@/features/blocks/logic/switch/components/SwitchSettings";
+import { TagResultSettings } from "@/features/blocks/logic/tagResult/components/TagResultSettings";
 import { TypebotLinkForm } from "@/features/blocks/logic/typebotLink/components/TypebotLinkForm";
 import { WaitSettings } from "@/features/blocks/logic/wait/components/WaitSettings";
 import { WebhookSettings } from "@/features/blocks/logic/webhook/components/WebhookSettings";
 import { CommandEventSettings } from "@/features/events/components/CommandEventSettings";
+import { InactivityEventSettings } from "@/features/events/components/InactivityEventSettings";
 import { InvalidReplyEventSettings } from "@/features/events/components/InvalidReplyEventSettings";
 import { ReplyEventSettings } from "@/features/events/components/ReplyEventSettings";
 import { useForgedBlock } from "@/features/forge/hooks/useForgedBlock";
@@ -188,6 +196,22 @@ export const NodeSettings = ({
         />
       );
     }
+    case InputBlockType.LOCATION: {
+      return (
+        <LocationInputSettings
+          options={node.options}
+          onOptionsChange={updateOptions}
+        />
+      );
+    }
+    case InputBlockType.CONTACT: {
+      return (
+        <ContactInputSettings
+          options={node.options}
+          onOptionsChange={updateOptions}
+        />
+      );
+    }
     case InputBlockType.CHOICE: {
       return (
         <ButtonsBlockSettings
@@ -278,6 +302,22 @@ export const NodeSettings = ({
         <JumpSettings options={node.options} onOptionsChange={updateOptions} />
       );
     }
+    case LogicBlockType.SWITCH: {
+      return (
+        <SwitchSettings
+          options={node.options}
+          onOptionsChange={updateOptions}
+        />
+      );
+    }
+    case LogicBlockType.FOR_EACH: {
+      return (
+        <ForEachSettings
+          options={node.options}
+          onOptionsChange={updateOptions}
+        />
+      );
+    }
     case LogicBlockType.AB_TEST: {
       return (
         <AbTestSettings
@@ -343,6 +383,14 @@ export const NodeSettings = ({
         <PixelSettings options={node.options} onOptionsChange={updateOptions} />
       );
     }
+    case IntegrationBlockType.WHATSAPP_TEMPLATE: {
+      return (
+        <WhatsAppTemplateSettings
+          options={node.options}
+          onOptionsChange={updateOptions}
+        />
+      );
+    }
     case LogicBlockType.CONDITION:
       return null;
     case LogicBlockType.WEBHOOK:
@@ -353,6 +401,20 @@ export const NodeSettings = ({
           onOptionsChange={updateOptions}
         />
       );
+    case LogicBlockType.HANDOFF:
+      return (
+        <HandoffSettings
+          options={node.options}
+          onOptionsChange={updateOptions}
+        />
+      );
+    case LogicBlockType.TAG_RESULT:
+      return (
+        <TagResultSettings
+          options={node.options}
+          onOptionsChange={updateOptions}
+        />
+      );
     case EventType.COMMAND:
       return (
         <CommandEventSettings
@@ -374,6 +436,13 @@ export const NodeSettings = ({
           onOptionsChange={updateOptions}
         />
       );
+    case EventType.INACTIVITY:
+      return (
+        <InactivityEventSettings
+          options={node.options}
+          onOptionsChange={updateOptions}
+        />
+      );
     default: {
       return (
         <ForgedBlockSettings block={node} onOptionsChange={updateOptions} />
@@ -9,6 +9,10 @@ import { SingleLineEditable } from "@/components/SingleLineEditable";
 import { useEditor } from "@/features/editor/providers/EditorProvider";
 import { useTypebot } from "@/features/editor/providers/TypebotProvider";
 import { groupWidth } from "@/features/graph/constants";
+import {
+  changeStatusBorderClassNames,
+  getChangeStatus,
+} from "@/features/graph/helpers/getChangeStatus";
 import { useSelectionStore } from "@/features/graph/hooks/useSelectionStore";
 import { useBlockDnd } from "@/features/graph/providers/GraphDndProvider";
 import { useGraph } from "@/features/graph/providers/GraphProvider";
@@ -30,6 +34,7 @@ export const GroupNode = ({ group, groupIndex }: Props) => {
     previewingBlock,
     isReadOnly,
     graphPosition,
+    changes,
   } = useGraph();
   const { typebot, updateGroup, updateGroupsCoordinates } = useTypebot();
   const { setMouseOverGroup, mouseOverGroup } = useBlockDnd();
@@ -144,6 +149,10 @@ export const GroupNode = ({ group, groupIndex }: Props) => {
   );
 
   const isFocused = focusedGroups.includes(group.id);
+  const changeStatus = getChangeStatus(changes, {
+    type: "groups",
+    id: group.id,
+  });
 
   return (
     <ContextMenu.Root
@@ -168,7 +177,7 @@ export const GroupNode = ({ group, groupIndex }: Props) => {
             "flex flex-col group px-4 pt-4 pb-2 rounded-xl border absolute gap-0 select-none bg-gray-1 w-(--group-width) transition-[border-color,box-shadow] hover:shadow-md",
             isConnecting || isContextMenuOpened || isPreviewing || isFocused
               ? "border-orange-8"
-              : undefined,
+              : changeStatus && changeStatusBorderClassNames[changeStatus],
             isMouseDown ? "cursor-grabbing" : "cursor-pointer",
             isFocused ? "z-10" : undefined,
             isDraggingGraph ? "pointer-events-none" : "pointer-events-auto",
@@ -9,11 +9,13 @@ import { InputBlockType } from "@typebot.io/blocks-inputs/constants";
 import type { PictureChoiceItem } from "@typebot.io/blocks-inputs/pictureChoice/schema";
 import type { ConditionItem } from "@typebot.io/blocks-logic/condition/schema";
 import { LogicBlockType } from "@typebot.io/blocks-logic/constants";
+import type { SwitchItem } from "@typebot.io/blocks-logic/switch/schema";
 import type { JSX } from "react";
 import { ButtonsItemNode } from "@/features/blocks/inputs/buttons/components/ButtonsItemNode";
 import { CardsItemNode } from "@/features/blocks/inputs/cards/components/CardsItemNode";
 import { PictureChoiceItemNode } from "@/features/blocks/inputs/pictureChoice/components/PictureChoiceItemNode";
 import { ConditionItemNode } from "@/features/blocks/logic/condition/components/ConditionItemNode";
+import { SwitchItemNode } from "@/features/blocks/logic/switch/components/SwitchItemNode";
 
 type Props = {
   item: Item;
@@ -54,6 +56,8 @@ export const ItemNodeContent = ({
       return (
         <ConditionItemNode item={item as ConditionItem} indices={indices} />
       );
+    case LogicBlockType.SWITCH:
+      return <SwitchItemNode item={item as SwitchItem} indices={indices} />;
     case LogicBlockType.AB_TEST:
       return null;
     case InputBlockType.CARDS:
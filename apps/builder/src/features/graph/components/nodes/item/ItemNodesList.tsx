@@ -206,7 +206,8 @@ const DefaultItemNode = ({
   return (
     <div className="flex px-4 py-2 border rounded-md relative items-center bg-gray-1 cursor-not-allowed">
       <p color="gray.500">
-        {block.type === LogicBlockType.CONDITION
+        {block.type === LogicBlockType.CONDITION ||
+        block.type === LogicBlockType.SWITCH
           ? t("blocks.inputs.button.else.label")
           : t("blocks.inputs.button.default.label")}
       </p>
@@ -226,7 +227,11 @@ const checkIfDefaultItemIsNeeded = (
   isLastBlock: boolean,
 ) => {
   if (!isLastBlock) return false;
-  if (block.outgoingEdgeId || block.type === LogicBlockType.CONDITION)
+  if (
+    block.outgoingEdgeId ||
+    block.type === LogicBlockType.CONDITION ||
+    block.type === LogicBlockType.SWITCH
+  )
     return true;
   if (block.items.length === 1) return false;
   if (block.type === InputBlockType.CARDS) {
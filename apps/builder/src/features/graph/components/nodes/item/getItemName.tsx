@@ -12,6 +12,8 @@ export const getItemName = (blockType: BlockWithItems["type"]): string => {
       return "Card";
     case LogicBlockType.CONDITION:
       return "Condition";
+    case LogicBlockType.SWITCH:
+      return "Case";
     case LogicBlockType.AB_TEST:
       return "AB Test";
   }
@@ -0,0 +1,29 @@
+import type { TypebotsDiff } from "@typebot.io/typebot/schemas/typebotsDiff";
+
+export type ChangeStatus = "added" | "modified" | "moved";
+
+export const getChangeStatus = (
+  changes: TypebotsDiff | undefined,
+  {
+    type,
+    id,
+  }: {
+    type: "groups" | "blocks" | "edges";
+    id: string;
+  },
+): ChangeStatus | undefined => {
+  if (!changes) return;
+  if (changes[type].added.includes(id)) return "added";
+  if (changes[type].modified.includes(id)) return "modified";
+  if (
+    type === "blocks" &&
+    changes.blocks.moved.some((movedBlock) => movedBlock.id === id)
+  )
+    return "moved";
+};
+
+export const changeStatusBorderClassNames = {
+  added: "border-green-8 dark:border-green-8",
+  modified: "border-purple-8 dark:border-purple-8",
+  moved: "border-blue-8 dark:border-blue-8",
+} as const satisfies Record<ChangeStatus, string>;
@@ -43,6 +43,10 @@ export const getHelpDocUrl = (
       return "https://docs.typebot.io/editor/blocks/inputs/rating";
     case InputBlockType.FILE:
       return "https://docs.typebot.io/editor/blocks/inputs/file-upload";
+    case InputBlockType.LOCATION:
+      return "https://docs.typebot.io/editor/blocks/inputs/location";
+    case InputBlockType.CONTACT:
+      return "https://docs.typebot.io/editor/blocks/inputs/contact";
     case IntegrationBlockType.EMAIL:
       return "https://docs.typebot.io/editor/blocks/integrations/email";
     case IntegrationBlockType.CHATWOOT:
@@ -69,18 +73,30 @@ export const getHelpDocUrl = (
       return "https://docs.typebot.io/editor/blocks/logic/ab-test";
     case LogicBlockType.JUMP:
       return "https://docs.typebot.io/editor/blocks/logic/jump";
+    case LogicBlockType.FOR_EACH:
+      return "https://docs.typebot.io/editor/blocks/logic/for-each";
+    case LogicBlockType.SWITCH:
+      return "https://docs.typebot.io/editor/blocks/logic/switch";
     case IntegrationBlockType.PIXEL:
       return "https://docs.typebot.io/editor/blocks/integrations/pixel";
+    case IntegrationBlockType.WHATSAPP_TEMPLATE:
+      return "https://docs.typebot.io/editor/blocks/integrations/whatsapp-template";
     case LogicBlockType.CONDITION:
       return "https://docs.typebot.io/editor/blocks/logic/condition";
     case LogicBlockType.WEBHOOK:
       return "https://docs.typebot.io/editor/blocks/logic/webhook";
+    case LogicBlockType.HANDOFF:
+      return "https://docs.typebot.io/editor/blocks/logic/handoff";
+    case LogicBlockType.TAG_RESULT:
+      return "https://docs.typebot.io/editor/blocks/logic/tag-result";
     case EventType.COMMAND:
       return "https://docs.typebot.io/editor/events/command";
     case EventType.REPLY:
       return "https://docs.typebot.io/editor/events/reply";
     case EventType.INVALID_REPLY:
       return "https://docs.typebot.io/editor/events/invalid-reply";
+    case EventType.INACTIVITY:
+      return "https://docs.typebot.io/editor/events/inactivity";
     default:
       return blockDef?.docsUrl;
   }
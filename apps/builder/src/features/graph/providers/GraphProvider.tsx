@@ -1,12 +1,17 @@
+import { computeTypebotsDiff } from "@typebot.io/typebot/helpers/computeTypebotsDiff";
 import type { Edge } from "@typebot.io/typebot/schemas/edge";
+import type { TypebotsDiff } from "@typebot.io/typebot/schemas/typebotsDiff";
 import {
   createContext,
   type Dispatch,
   type ReactNode,
   type SetStateAction,
   useContext,
+  useMemo,
   useState,
 } from "react";
+import { useEditor } from "@/features/editor/providers/EditorProvider";
+import { useTypebot } from "@/features/editor/providers/TypebotProvider";
 import { graphPositionDefaultValue } from "../constants";
 import type { ConnectingIds, Coordinates } from "../types";
 
@@ -32,6 +37,7 @@ const graphContext = createContext<{
   isAnalytics: boolean;
   focusedGroupId?: string;
   setFocusedGroupId: Dispatch<SetStateAction<string | undefined>>;
+  changes?: TypebotsDiff;
   //@ts-expect-error
 }>({
   graphPosition: graphPositionDefaultValue({ x: 0, y: 0 }),
@@ -57,6 +63,16 @@ export const GraphProvider = ({
   const [previewingBlock, setPreviewingBlock] = useState<PreviewingBlock>();
   const [openedNodeId, setOpenedNodeId] = useState<string>();
   const [focusedGroupId, setFocusedGroupId] = useState<string>();
+  const { isShowingChanges } = useEditor();
+  const { typebot, publishedTypebot } = useTypebot();
+
+  const changes = useMemo(
+    () =>
+      isShowingChanges && typebot && publishedTypebot
+        ? computeTypebotsDiff(publishedTypebot, typebot)
+        : undefined,
+    [isShowingChanges, typebot, publishedTypebot],
+  );
 
   return (
     <graphContext.Provider
@@ -75,6 +91,7 @@ export const GraphProvider = ({
         setPreviewingBlock,
         previewingBlock,
         isAnalytics,
+        changes,
       }}
     >
       {children}
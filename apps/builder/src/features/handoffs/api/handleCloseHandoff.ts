@@ -0,0 +1,64 @@
+import { ORPCError } from "@orpc/server";
+import { parseGroups } from "@typebot.io/groups/helpers/parseGroups";
+import prisma from "@typebot.io/prisma";
+import { HandoffStatus } from "@typebot.io/prisma/enum";
+import type { User } from "@typebot.io/user/schemas";
+import { z } from "@typebot.io/zod";
+import { findHandoffForAgent } from "../helpers/findHandoffForMember";
+import { notifyHandoffSession } from "../helpers/notifyHandoffSession";
+
+export const closeHandoffInputSchema = z.object({
+  handoffId: z.string(),
+  handBackGroupId: z
+    .string()
+    .optional()
+    .describe(
+      "Group the bot resumes from. Defaults to the block connected to the handoff block.",
+    ),
+});
+
+export const handleCloseHandoff = async ({
+  input: { handoffId, handBackGroupId },
+  context: { user },
+}: {
+  input: z.infer<typeof closeHandoffInputSchema>;
+  context: { user: Pick<User, "id" | "email"> };
+}) => {
+  const handoff = await findHandoffForAgent(handoffId, user);
+  if (handoff.status === HandoffStatus.CLOSED)
+    throw new ORPCError("BAD_REQUEST", {
+      message: "Conversation was already handed back to the bot",
+    });
+
+  if (handBackGroupId) {
+    const publishedTypebot = await prisma.publicTypebot.findUnique({
+      where: { typebotId: handoff.typebot.id },
+      select: { version: true, groups: true },
+    });
+    const groups = publishedTypebot
+      ? parseGroups(publishedTypebot.groups, {
+          typebotVersion: publishedTypebot.version,
+        })
+      : [];
+    if (!groups.some((group) => group.id === handBackGroupId))
+      throw new ORPCError("BAD_REQUEST", {
+        message: "Hand back group not found in the published typebot",
+      });
+  }
+
+  await prisma.handoff.update({
+    where: { id: handoffId },
+    data: {
+      status: HandoffStatus.CLOSED,
+      closedAt: new Date(),
+      handBackGroupId,
+    },
+  });
+
+  await notifyHandoffSession({
+    resultId: handoff.resultId,
+    typebot: handoff.typebot,
+  });
+
+  return { message: "success" as const };
+};
@@ -0,0 +1,62 @@
+import { parseGroups } from "@typebot.io/groups/helpers/parseGroups";
+import prisma from "@typebot.io/prisma";
+import type { User } from "@typebot.io/user/schemas";
+import { z } from "@typebot.io/zod";
+import { handleGetResultTranscript } from "@/features/results/api/handleGetResultTranscript";
+import { findHandoffForMember } from "../helpers/findHandoffForMember";
+
+export const getHandoffInputSchema = z.object({
+  handoffId: z.string(),
+});
+
+export const handleGetHandoff = async ({
+  input: { handoffId },
+  context: { user },
+}: {
+  input: z.infer<typeof getHandoffInputSchema>;
+  context: { user: Pick<User, "id" | "email"> };
+}) => {
+  const { typebot, blockId, ...handoff } = await findHandoffForMember(
+    handoffId,
+    user,
+  );
+
+  const { transcript } = await handleGetResultTranscript({
+    input: { typebotId: typebot.id, resultId: handoff.resultId },
+    context: { user },
+  });
+
+  const messages = await prisma.handoffMessage.findMany({
+    where: { handoffId },
+    orderBy: { createdAt: "asc" },
+    select: {
+      id: true,
+      createdAt: true,
+      role: true,
+      content: true,
+      deliveredAt: true,
+    },
+  });
+
+  const publishedTypebot = await prisma.publicTypebot.findUnique({
+    where: { typebotId: typebot.id },
+    select: { version: true, groups: true },
+  });
+
+  return {
+    handoff: {
+      ...handoff,
+      typebot: { id: typebot.id, name: typebot.name, icon: typebot.icon },
+    },
+    transcript,
+    messages,
+    groups: (publishedTypebot
+      ? parseGroups(publishedTypebot.groups, {
+          typebotVersion: publishedTypebot.version,
+        })
+      : []
+    )
+      .filter((group) => !group.blocks.some((block) => block.id === blockId))
+      .map((group) => ({ id: group.id, title: group.title })),
+  };
+};
@@ -0,0 +1,41 @@
+import { ORPCError } from "@orpc/server";
+import prisma from "@typebot.io/prisma";
+import { HandoffStatus } from "@typebot.io/prisma/enum";
+import type { User } from "@typebot.io/user/schemas";
+import { z } from "@typebot.io/zod";
+import { isReadWorkspaceFobidden } from "@/features/workspace/helpers/isReadWorkspaceFobidden";
+import { handoffSelect } from "../helpers/findHandoffForMember";
+
+export const listHandoffsInputSchema = z.object({
+  workspaceId: z
+    .string()
+    .describe(
+      "[Where to find my workspace ID?](../how-to#how-to-find-my-workspaceid)",
+    ),
+});
+
+export const handleListHandoffs = async ({
+  input: { workspaceId },
+  context: { user },
+}: {
+  input: z.infer<typeof listHandoffsInputSchema>;
+  context: { user: Pick<User, "id" | "email"> };
+}) => {
+  const workspace = await prisma.workspace.findUnique({
+    where: { id: workspaceId },
+    select: { members: { select: { userId: true } } },
+  });
+  if (!workspace || isReadWorkspaceFobidden(workspace, user))
+    throw new ORPCError("NOT_FOUND", { message: "Workspace not found" });
+
+  const handoffs = await prisma.handoff.findMany({
+    where: {
+      typebot: { workspaceId },
+      status: { not: HandoffStatus.CLOSED },
+    },
+    orderBy: { createdAt: "asc" },
+    select: handoffSelect,
+  });
+
+  return { handoffs };
+};
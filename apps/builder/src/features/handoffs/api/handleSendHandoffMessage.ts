@@ -0,0 +1,51 @@
+import { ORPCError } from "@orpc/server";
+import prisma from "@typebot.io/prisma";
+import { HandoffMessageRole, HandoffStatus } from "@typebot.io/prisma/enum";
+import type { User } from "@typebot.io/user/schemas";
+import { z } from "@typebot.io/zod";
+import { findHandoffForAgent } from "../helpers/findHandoffForMember";
+import { notifyHandoffSession } from "../helpers/notifyHandoffSession";
+
+export const sendHandoffMessageInputSchema = z.object({
+  handoffId: z.string(),
+  content: z.string().trim().min(1),
+});
+
+export const handleSendHandoffMessage = async ({
+  input: { handoffId, content },
+  context: { user },
+}: {
+  input: z.infer<typeof sendHandoffMessageInputSchema>;
+  context: { user: Pick<User, "id" | "email"> };
+}) => {
+  const handoff = await findHandoffForAgent(handoffId, user);
+  if (handoff.status === HandoffStatus.CLOSED)
+    throw new ORPCError("BAD_REQUEST", {
+      message: "Conversation was already handed back to the bot",
+    });
+
+  await prisma.$transaction([
+    prisma.handoffMessage.create({
+      data: {
+        handoffId,
+        role: HandoffMessageRole.AGENT,
+        content,
+        authorId: user.id,
+      },
+    }),
+    prisma.handoff.update({
+      where: { id: handoffId },
+      data: {
+        status: HandoffStatus.ACTIVE,
+        assignedUserId: handoff.assignedUser?.id ?? user.id,
+      },
+    }),
+  ]);
+
+  await notifyHandoffSession({
+    resultId: handoff.resultId,
+    typebot: handoff.typebot,
+  });
+
+  return { message: "success" as const };
+};
@@ -0,0 +1,78 @@
+import { authenticatedProcedure } from "@typebot.io/config/orpc/builder/middlewares";
+import { z } from "@typebot.io/zod";
+import { handoffMessageSchema, handoffSchema } from "../schemas";
+import {
+  closeHandoffInputSchema,
+  handleCloseHandoff,
+} from "./handleCloseHandoff";
+import { getHandoffInputSchema, handleGetHandoff } from "./handleGetHandoff";
+import {
+  handleListHandoffs,
+  listHandoffsInputSchema,
+} from "./handleListHandoffs";
+import {
+  handleSendHandoffMessage,
+  sendHandoffMessageInputSchema,
+} from "./handleSendHandoffMessage";
+
+export const handoffsRouter = {
+  listHandoffs: authenticatedProcedure
+    .route({
+      method: "GET",
+      path: "/v1/workspaces/{workspaceId}/handoffs",
+      summary: "List conversations waiting for or talking to an agent",
+      tags: ["Handoffs"],
+    })
+    .input(listHandoffsInputSchema)
+    .output(z.object({ handoffs: z.array(handoffSchema) }))
+    .handler(handleListHandoffs),
+
+  getHandoff: authenticatedProcedure
+    .route({
+      method: "GET",
+      path: "/v1/handoffs/{handoffId}",
+      summary: "Get handoff with its transcript",
+      tags: ["Handoffs"],
+    })
+    .input(getHandoffInputSchema)
+    .output(
+      z.object({
+        handoff: handoffSchema,
+        transcript: z.array(
+          z.object({
+            role: z.enum(["bot", "user"]),
+            type: z.enum(["text", "image", "video", "audio"]),
+            text: z.string().optional(),
+            image: z.string().optional(),
+            video: z.string().optional(),
+            audio: z.string().optional(),
+          }),
+        ),
+        messages: z.array(handoffMessageSchema),
+        groups: z.array(z.object({ id: z.string(), title: z.string() })),
+      }),
+    )
+    .handler(handleGetHandoff),
+
+  sendHandoffMessage: authenticatedProcedure
+    .route({
+      method: "POST",
+      path: "/v1/handoffs/{handoffId}/messages",
+      summary: "Reply to the user as an agent",
+      tags: ["Handoffs"],
+    })
+    .input(sendHandoffMessageInputSchema)
+    .output(z.object({ message: z.literal("success") }))
+    .handler(handleSendHandoffMessage),
+
+  closeHandoff: authenticatedProcedure
+    .route({
+      method: "POST",
+      path: "/v1/handoffs/{handoffId}/close",
+      summary: "Hand the conversation back to the bot",
+      tags: ["Handoffs"],
+    })
+    .input(closeHandoffInputSchema)
+    .output(z.object({ message: z.literal("success") }))
+    .handler(handleCloseHandoff),
+};
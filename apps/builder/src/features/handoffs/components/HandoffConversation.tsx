@@ -0,0 +1,173 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { useTranslate } from "@tolgee/react";
+import { Button } from "@typebot.io/ui/components/Button";
+import { Textarea } from "@typebot.io/ui/components/Textarea";
+import { LoaderCircleIcon } from "@typebot.io/ui/icons/LoaderCircleIcon";
+import { cx } from "@typebot.io/ui/lib/cva";
+import { useState } from "react";
+import { BasicSelect } from "@/components/inputs/BasicSelect";
+import {
+  orpc,
+  queryClient,
+  showHttpRequestErrorToast,
+} from "@/lib/queryClient";
+
+type Props = {
+  handoffId: string;
+  onClosed: () => void;
+};
+
+export const HandoffConversation = ({ handoffId, onClosed }: Props) => {
+  const { t } = useTranslate();
+  const [reply, setReply] = useState("");
+  const [handBackGroupId, setHandBackGroupId] = useState<string>();
+
+  const { data } = useQuery(
+    orpc.handoffs.getHandoff.queryOptions({
+      input: { handoffId },
+      refetchInterval: 3000,
+    }),
+  );
+
+  const { mutate: sendMessage, isPending: isSending } = useMutation(
+    orpc.handoffs.sendHandoffMessage.mutationOptions({
+      onError: (error) => {
+        showHttpRequestErrorToast(error, {
+          context: "Could not send message",
+        });
+      },
+      onSuccess: () => {
+        setReply("");
+        queryClient.invalidateQueries({
+          queryKey: orpc.handoffs.getHandoff.key(),
+        });
+        queryClient.invalidateQueries({
+          queryKey: orpc.handoffs.listHandoffs.key(),
+        });
+      },
+    }),
+  );
+
+  const { mutate: closeHandoff, isPending: isClosing } = useMutation(
+    orpc.handoffs.closeHandoff.mutationOptions({
+      onError: (error) => {
+        showHttpRequestErrorToast(error, {
+          context: "Could not hand back to bot",
+        });
+      },
+      onSuccess: () => {
+        queryClient.invalidateQueries({
+          queryKey: orpc.handoffs.listHandoffs.key(),
+        });
+        onClosed();
+      },
+    }),
+  );
+
+  if (!data)
+    return (
+      <div className="flex flex-1 items-center justify-center rounded-md border">
+        <LoaderCircleIcon className="animate-spin" />
+      </div>
+    );
+
+  const submitReply = () => {
+    if (reply.trim().length === 0) return;
+    sendMessage({ handoffId, content: reply });
+  };
+
+  return (
+    <div className="flex flex-col flex-1 gap-4 rounded-md border p-4">
+      <div className="flex items-center justify-between gap-2">
+        <p className="font-medium">{data.handoff.typebot.name}</p>
+        <div className="flex items-center gap-2">
+          <BasicSelect
+            value={handBackGroupId}
+            onChange={setHandBackGroupId}
+            items={data.groups.map((group) => ({
+              label: group.title,
+              value: group.id,
+            }))}
+            placeholder={t("inbox.handBack.defaultGroup")}
+            size="sm"
+          />
+          <Button
+            variant="secondary"
+            size="sm"
+            disabled={isClosing}
+            onClick={() => closeHandoff({ handoffId, handBackGroupId })}
+          >
+            {t("inbox.handBack.button")}
+          </Button>
+        </div>
+      </div>
+      <div className="flex flex-col gap-2 flex-1 overflow-y-auto bg-gray-1 rounded-md p-4">
+        {data.transcript.map((message, index) => (
+          <MessageBubble
+            key={index}
+            isFromUser={message.role === "user"}
+            content={
+              message.type === "text"
+                ? (message.text ?? "")
+                : `[${message.type.toUpperCase()}] ${
+                    message.image ?? message.video ?? message.audio ?? ""
+                  }`
+            }
+          />
+        ))}
+        {data.messages.map((message) => (
+          <MessageBubble
+            key={message.id}
+            isFromUser={message.role === "USER"}
+            content={message.content}
+            label={message.role === "AGENT" ? t("inbox.agentLabel") : undefined}
+          />
+        ))}
+      </div>
+      <div className="flex items-end gap-2">
+        <Textarea
+          value={reply}
+          onValueChange={setReply}
+          placeholder={t("inbox.reply.placeholder")}
+          onKeyDown={(e) => {
+            if (e.key !== "Enter" || e.shiftKey) return;
+            e.preventDefault();
+            submitReply();
+          }}
+        />
+        <Button
+          disabled={isSending || reply.trim().length === 0}
+          onClick={submitReply}
+        >
+          {t("inbox.reply.sendButton")}
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+const MessageBubble = ({
+  isFromUser,
+  content,
+  label,
+}: {
+  isFromUser: boolean;
+  content: string;
+  label?: string;
+}) => (
+  <div
+    className={cx("flex w-full", isFromUser ? "justify-end" : "justify-start")}
+  >
+    <div
+      className={cx(
+        "max-w-[70%] border px-3 py-2 rounded-lg",
+        isFromUser
+          ? "bg-orange-9 text-white rounded-bl-lg rounded-br-sm"
+          : "bg-gray-3 text-gray-12 rounded-bl-sm rounded-br-lg",
+      )}
+    >
+      {label && <p className="text-xs font-medium mb-1">{label}</p>}
+      <p className="text-sm whitespace-pre-wrap overflow-hidden">{content}</p>
+    </div>
+  </div>
+);
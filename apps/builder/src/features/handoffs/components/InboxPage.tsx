@@ -0,0 +1,83 @@
+import { useQuery } from "@tanstack/react-query";
+import { useTranslate } from "@tolgee/react";
+import { Badge } from "@typebot.io/ui/components/Badge";
+import { LayoutBottomIcon } from "@typebot.io/ui/icons/LayoutBottomIcon";
+import { LoaderCircleIcon } from "@typebot.io/ui/icons/LoaderCircleIcon";
+import { cx } from "@typebot.io/ui/lib/cva";
+import { useState } from "react";
+import { EmojiOrImageIcon } from "@/components/EmojiOrImageIcon";
+import { Seo } from "@/components/Seo";
+import { TimeSince } from "@/components/TimeSince";
+import { DashboardHeader } from "@/features/dashboard/components/DashboardHeader";
+import { useWorkspace } from "@/features/workspace/WorkspaceProvider";
+import { orpc } from "@/lib/queryClient";
+import { HandoffConversation } from "./HandoffConversation";
+
+export const InboxPage = () => {
+  const { t } = useTranslate();
+  const { workspace } = useWorkspace();
+  const [selectedHandoffId, setSelectedHandoffId] = useState<string>();
+
+  const { data } = useQuery(
+    orpc.handoffs.listHandoffs.queryOptions({
+      input: { workspaceId: workspace?.id as string },
+      enabled: !!workspace,
+      refetchInterval: 5000,
+    }),
+  );
+
+  return (
+    <div className="flex flex-col min-h-screen">
+      <Seo title={t("inbox.title")} />
+      <DashboardHeader />
+      <div className="flex flex-1 w-full max-w-[1000px] mx-auto gap-4 py-4">
+        <div className="flex flex-col gap-2 w-72 shrink-0">
+          {!data && <LoaderCircleIcon className="animate-spin" />}
+          {data?.handoffs.length === 0 && (
+            <p className="text-sm text-gray-11">{t("inbox.emptyList")}</p>
+          )}
+          {data?.handoffs.map((handoff) => (
+            <button
+              type="button"
+              key={handoff.id}
+              onClick={() => setSelectedHandoffId(handoff.id)}
+              className={cx(
+                "flex items-center gap-3 p-3 rounded-md border text-left",
+                selectedHandoffId === handoff.id ? "bg-gray-3" : "bg-gray-1",
+              )}
+            >
+              <EmojiOrImageIcon
+                icon={handoff.typebot.icon}
+                defaultIcon={LayoutBottomIcon}
+              />
+              <div className="flex flex-col flex-1 min-w-0">
+                <p className="font-medium truncate">{handoff.typebot.name}</p>
+                <p className="text-xs text-gray-11">
+                  <TimeSince date={handoff.createdAt} />
+                </p>
+              </div>
+              <Badge
+                colorScheme={handoff.status === "WAITING" ? "orange" : "blue"}
+              >
+                {handoff.status === "WAITING"
+                  ? t("inbox.status.waiting")
+                  : t("inbox.status.active")}
+              </Badge>
+            </button>
+          ))}
+        </div>
+        {selectedHandoffId ? (
+          <HandoffConversation
+            key={selectedHandoffId}
+            handoffId={selectedHandoffId}
+            onClosed={() => setSelectedHandoffId(undefined)}
+          />
+        ) : (
+          <div className="flex flex-1 items-center justify-center rounded-md border">
+            <p className="text-gray-11">{t("inbox.noSelection")}</p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
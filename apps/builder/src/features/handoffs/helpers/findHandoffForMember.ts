@@ -0,0 +1,63 @@
+import { ORPCError } from "@orpc/server";
+import prisma from "@typebot.io/prisma";
+import type { User } from "@typebot.io/user/schemas";
+import { isWriteTypebotForbidden } from "@/features/typebot/helpers/isWriteTypebotForbidden";
+import { isReadWorkspaceFobidden } from "@/features/workspace/helpers/isReadWorkspaceFobidden";
+
+export const handoffSelect = {
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+  status: true,
+  resultId: true,
+  typebot: { select: { id: true, name: true, icon: true } },
+  assignedUser: { select: { id: true, name: true, image: true } },
+} as const;
+
+export const findHandoffForMember = async (
+  handoffId: string,
+  user: Pick<User, "id" | "email">,
+) => {
+  const handoff = await prisma.handoff.findUnique({
+    where: { id: handoffId },
+    select: {
+      ...handoffSelect,
+      blockId: true,
+      typebot: {
+        select: {
+          ...handoffSelect.typebot.select,
+          settings: true,
+          whatsAppCredentialsId: true,
+          workspaceId: true,
+          workspace: {
+            select: {
+              isSuspended: true,
+              isPastDue: true,
+              members: { select: { userId: true, role: true } },
+            },
+          },
+          collaborators: { select: { userId: true, type: true } },
+        },
+      },
+    },
+  });
+  if (!handoff || isReadWorkspaceFobidden(handoff.typebot.workspace, user))
+    throw new ORPCError("NOT_FOUND", { message: "Handoff not found" });
+  return handoff;
+};
+
+/**
+ * Replying to the user or handing the conversation back to the bot requires
+ * write access, guests can only read the conversation.
+ */
+export const findHandoffForAgent = async (
+  handoffId: string,
+  user: Pick<User, "id" | "email">,
+) => {
+  const handoff = await findHandoffForMember(handoffId, user);
+  if (await isWriteTypebotForbidden(handoff.typebot, user))
+    throw new ORPCError("FORBIDDEN", {
+      message: "You don't have write access to this typebot",
+    });
+  return handoff;
+};
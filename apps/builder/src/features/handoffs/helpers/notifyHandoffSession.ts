@@ -0,0 +1,124 @@
+import { ORPCError } from "@orpc/server";
+import { parseExternalUserIdFromSessionId } from "@typebot.io/channels/getChannelSessionId";
+import { getSession } from "@typebot.io/chat-session/queries/getSession";
+import { resumeEmailFlow } from "@typebot.io/email-channel/resumeEmailFlow";
+import { env } from "@typebot.io/env";
+import prisma from "@typebot.io/prisma";
+import type { Settings } from "@typebot.io/settings/schemas";
+import { resumeSmsFlow } from "@typebot.io/sms/resumeSmsFlow";
+import { resumeTelegramFlow } from "@typebot.io/telegram/resumeTelegramFlow";
+import { resumeWhatsAppFlow } from "@typebot.io/whatsapp/resumeWhatsAppFlow";
+import PartySocket from "partysocket";
+
+type Props = {
+  resultId: string;
+  typebot: {
+    settings: unknown;
+    whatsAppCredentialsId: string | null;
+    workspaceId: string;
+  };
+};
+
+/**
+ * Pings the chat session paused on a handoff block so that it pulls the new
+ * agent messages or resumes the flow if the conversation was handed back.
+ */
+export const notifyHandoffSession = async ({ resultId, typebot }: Props) => {
+  const result = await prisma.result.findUnique({
+    where: { id: resultId },
+    select: { lastChatSessionId: true },
+  });
+  if (!result?.lastChatSessionId)
+    throw new ORPCError("NOT_FOUND", { message: "No chat session found" });
+
+  const chatSession = await getSession(result.lastChatSessionId);
+
+  if (chatSession?.state?.whatsApp) {
+    const from = parseExternalUserIdFromSessionId(chatSession.id);
+    if (!typebot.whatsAppCredentialsId || !from)
+      throw new ORPCError("INTERNAL_SERVER_ERROR", {
+        message: "Could not resume WhatsApp session",
+      });
+    await resumeWhatsAppFlow({
+      receivedMessages: [
+        {
+          from,
+          timestamp: new Date().toISOString(),
+          type: "webhook",
+          webhook: {},
+        },
+      ],
+      workspaceId: typebot.workspaceId,
+      sessionId: chatSession.id,
+      credentialsId: typebot.whatsAppCredentialsId,
+      callFrom: "webhook",
+    });
+    return;
+  }
+
+  if (chatSession?.state?.channel?.type === "telegram") {
+    const credentialsId = (typebot.settings as Settings).telegram
+      ?.credentialsId;
+    if (!credentialsId)
+      throw new ORPCError("INTERNAL_SERVER_ERROR", {
+        message: "Could not resume Telegram session",
+      });
+    await resumeTelegramFlow({
+      receivedMessages: [{ type: "webhook", webhook: {} }],
+      workspaceId: typebot.workspaceId,
+      sessionId: chatSession.id,
+      chatId: chatSession.state.channel.contact.id,
+      credentialsId,
+      callFrom: "webhook",
+    });
+    return;
+  }
+
+  if (chatSession?.state?.channel?.type === "sms") {
+    const credentialsId = (typebot.settings as Settings).sms?.credentialsId;
+    if (!credentialsId)
+      throw new ORPCError("INTERNAL_SERVER_ERROR", {
+        message: "Could not resume SMS session",
+      });
+    await resumeSmsFlow({
+      receivedMessages: [{ type: "webhook", webhook: {} }],
+      workspaceId: typebot.workspaceId,
+      sessionId: chatSession.id,
+      phoneNumber: chatSession.state.channel.contact.id,
+      credentialsId,
+      callFrom: "webhook",
+    });
+    return;
+  }
+
+  if (chatSession?.state?.channel?.type === "email") {
+    const { contact, thread } = chatSession.state.channel;
+    if (!thread)
+      throw new ORPCError("INTERNAL_SERVER_ERROR", {
+        message: "Could not resume email session",
+      });
+    await resumeEmailFlow({
+      receivedMessages: [{ type: "webhook", webhook: {} }],
+      sessionId: chatSession.id,
+      to: contact.id,
+      thread,
+      callFrom: "webhook",
+    });
+    return;
+  }
+
+  if (!env.NEXT_PUBLIC_PARTYKIT_HOST)
+    throw new ORPCError("NOT_FOUND", { message: "PartyKit not configured" });
+
+  try {
+    await PartySocket.fetch(
+      { host: env.NEXT_PUBLIC_PARTYKIT_HOST, room: `${resultId}/handoff` },
+      { method: "POST", body: JSON.stringify({}) },
+    );
+  } catch (error) {
+    console.error("PartySocket.fetch error:", error);
+    throw new ORPCError("INTERNAL_SERVER_ERROR", {
+      message: "PartySocket.fetch error",
+    });
+  }
+};
@@ -0,0 +1,32 @@
+import { HandoffMessageRole, HandoffStatus } from "@typebot.io/prisma/enum";
+import { z } from "@typebot.io/zod";
+
+export const handoffSchema = z.object({
+  id: z.string(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+  status: z.nativeEnum(HandoffStatus),
+  resultId: z.string(),
+  typebot: z.object({
+    id: z.string(),
+    name: z.string(),
+    icon: z.string().nullable(),
+  }),
+  assignedUser: z
+    .object({
+      id: z.string(),
+      name: z.string().nullable(),
+      image: z.string().nullable(),
+    })
+    .nullable(),
+});
+export type Handoff = z.infer<typeof handoffSchema>;
+
+export const handoffMessageSchema = z.object({
+  id: z.string(),
+  createdAt: z.date(),
+  role: z.nativeEnum(HandoffMessageRole),
+  content: z.string(),
+  deliveredAt: z.date().nullable(),
+});
+export type HandoffMessage = z.infer<typeof handoffMessageSchema>;
@@ -5,6 +5,7 @@ import { LogicBlockType } from "@typebot.io/blocks-logic/constants";
 import { sessionOnlySetVariableOptions } from "@typebot.io/blocks-logic/setVariable/constants";
 import type { SetVariableBlock } from "@typebot.io/blocks-logic/setVariable/schema";
 import { isNotEmpty } from "@typebot.io/lib/utils";
+import { Badge } from "@typebot.io/ui/components/Badge";
 import { Button } from "@typebot.io/ui/components/Button";
 import { Field } from "@typebot.io/ui/components/Field";
 import { Input } from "@typebot.io/ui/components/Input";
@@ -16,9 +17,11 @@ import { Cancel01Icon } from "@typebot.io/ui/icons/Cancel01Icon";
 import { MoreHorizontalIcon } from "@typebot.io/ui/icons/MoreHorizontalIcon";
 import { PlusSignIcon } from "@typebot.io/ui/icons/PlusSignIcon";
 import { TrashIcon } from "@typebot.io/ui/icons/TrashIcon";
+import { variableTypes } from "@typebot.io/variables/constants";
 import type { Variable } from "@typebot.io/variables/schemas";
 import { useDrag } from "@use-gesture/react";
 import { type FormEvent, useState } from "react";
+import { BasicSelect } from "@/components/inputs/BasicSelect";
 import { SingleLineEditable } from "@/components/SingleLineEditable";
 import { toast } from "@/lib/toast";
 import { headerHeight } from "../../editor/constants";
@@ -163,17 +166,34 @@ const VariableItem = ({
         onValueCommit={(name) => onChange({ name })}
       />
       <div className="flex items-center gap-2">
-        {!isSessionOnly && !isLinkedToAnswer && (
-          <Popover.Root {...settingsPopoverControls}>
-            <Popover.TriggerButton
-              aria-label={"Settings"}
-              size="icon"
-              variant="secondary"
-              className="size-7"
-            >
-              <MoreHorizontalIcon />
-            </Popover.TriggerButton>
-            <Popover.Popup>
+        {variable.type && <Badge>{variable.type}</Badge>}
+        <Popover.Root {...settingsPopoverControls}>
+          <Popover.TriggerButton
+            aria-label={"Settings"}
+            size="icon"
+            variant="secondary"
+            className="size-7"
+          >
+            <MoreHorizontalIcon />
+          </Popover.TriggerButton>
+          <Popover.Popup className="flex flex-col gap-4">
+            <Field.Root>
+              <Field.Label>
+                Type{" "}
+                <MoreInfoTooltip>
+                  Values are converted to this type when set. Values that can't
+                  be converted are cleared. Conditions compare numbers and dates
+                  by value instead of as text.
+                </MoreInfoTooltip>
+              </Field.Label>
+              <BasicSelect
+                items={variableTypes}
+                value={variable.type}
+                placeholder="Any"
+                onChange={(type) => onChange({ type })}
+              />
+            </Field.Root>
+            {!isSessionOnly && !isLinkedToAnswer && (
               <Field.Root className="flex-row items-center">
                 <Switch
                   checked={!variable.isSessionVariable}
@@ -192,9 +212,9 @@ const VariableItem = ({
                   </MoreInfoTooltip>
                 </Field.Label>
               </Field.Root>
-            </Popover.Popup>
-          </Popover.Root>
-        )}
+            )}
+          </Popover.Popup>
+        </Popover.Root>
         <Button
           aria-label="Delete"
           size="icon"
@@ -10,6 +10,8 @@ import { Menu } from "@typebot.io/ui/components/Menu";
 import { Tooltip } from "@typebot.io/ui/components/Tooltip";
 import { useOpenControls } from "@typebot.io/ui/hooks/useOpenControls";
 import { ArrowDown01Icon } from "@typebot.io/ui/icons/ArrowDown01Icon";
+import { Clock01Icon } from "@typebot.io/ui/icons/Clock01Icon";
+import { GitForkIcon } from "@typebot.io/ui/icons/GitForkIcon";
 import { HotspotOfflineIcon } from "@typebot.io/ui/icons/HotspotOfflineIcon";
 import { SquareLock01Icon } from "@typebot.io/ui/icons/SquareLock01Icon";
 import { SquareUnlock01Icon } from "@typebot.io/ui/icons/SquareUnlock01Icon";
@@ -21,6 +23,7 @@ import { ConfirmDialog } from "@/components/ConfirmDialog";
 import { TextLink } from "@/components/TextLink";
 import { ChangePlanDialog } from "@/features/billing/components/ChangePlanDialog";
 import { isFreePlan } from "@/features/billing/helpers/isFreePlan";
+import { useEditor } from "@/features/editor/providers/EditorProvider";
 import { useTypebot } from "@/features/editor/providers/TypebotProvider";
 import { useWorkspace } from "@/features/workspace/WorkspaceProvider";
 import { useTimeSince } from "@/hooks/useTimeSince";
@@ -30,6 +33,7 @@ import {
   showHttpRequestErrorToast,
 } from "@/lib/queryClient";
 import { toast } from "@/lib/toast";
+import { PublishHistoryDialog } from "./PublishHistoryDialog";
 
 type Props = {
   isMoreMenuDisabled?: boolean;
@@ -54,6 +58,11 @@ export const PublishButton = ({
     onOpen: onTrademarkInfringementOpen,
     onClose: onTrademarkInfringementClose,
   } = useOpenControls();
+  const {
+    isOpen: isPublishHistoryOpen,
+    onOpen: onPublishHistoryOpen,
+    onClose: onPublishHistoryClose,
+  } = useOpenControls();
   const [trademarkPotentialInfringement, setTrademarkPotentialInfringement] =
     useState<string | undefined>(undefined);
   const {
@@ -67,6 +76,7 @@ export const PublishButton = ({
     publishedTypebotVersion,
     currentUserMode,
   } = useTypebot();
+  const { setIsShowingChanges } = useEditor();
   const timeSinceLastPublish = useTimeSince(
     publishedTypebot?.updatedAt.toString(),
   );
@@ -89,6 +99,9 @@ export const PublishButton = ({
           queryClient.invalidateQueries({
             queryKey: orpc.typebot.getPublishedTypebot.key(),
           });
+          queryClient.invalidateQueries({
+            queryKey: orpc.typebot.listPublishedSnapshots.key(),
+          });
           if (data.warnings) {
             setTrademarkPotentialInfringement(data.warnings[0].trademark);
             onTrademarkInfringementOpen();
@@ -186,6 +199,13 @@ export const PublishButton = ({
           </Alert.Root>
         </div>
       </ConfirmDialog>
+      {typebot && (
+        <PublishHistoryDialog
+          typebotId={typebot.id}
+          isOpen={isPublishHistoryOpen}
+          onClose={onPublishHistoryClose}
+        />
+      )}
       {publishedTypebot && publishedTypebotVersion !== typebot?.version && (
         <ConfirmDialog
           isOpen={isNewEngineWarningOpen}
@@ -273,6 +293,16 @@ export const PublishButton = ({
                 {t("publishButton.dropdown.restoreVersion.label")}
               </Menu.Item>
             )}
+            {!isPublished && pathname.endsWith("edit") && (
+              <Menu.Item onClick={() => setIsShowingChanges(true)}>
+                <GitForkIcon />
+                {t("publishButton.dropdown.showChanges.label")}
+              </Menu.Item>
+            )}
+            <Menu.Item onClick={onPublishHistoryOpen}>
+              <Clock01Icon />
+              {t("publishButton.dropdown.history.label")}
+            </Menu.Item>
             {!typebot?.isClosed ? (
               <Menu.Item onClick={closeTypebot}>
                 <SquareLock01Icon />
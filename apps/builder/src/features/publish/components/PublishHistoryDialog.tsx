@@ -0,0 +1,163 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { useTranslate } from "@tolgee/react";
+import type { PublishedTypebotSnapshotSummary } from "@typebot.io/typebot/schemas/publishedTypebotSnapshot";
+import { Accordion } from "@typebot.io/ui/components/Accordion";
+import { Avatar } from "@typebot.io/ui/components/Avatar";
+import { Badge } from "@typebot.io/ui/components/Badge";
+import { Button } from "@typebot.io/ui/components/Button";
+import { Dialog } from "@typebot.io/ui/components/Dialog";
+import { LoaderCircleIcon } from "@typebot.io/ui/icons/LoaderCircleIcon";
+import { useState } from "react";
+import { ConfirmDialog } from "@/components/ConfirmDialog";
+import {
+  orpc,
+  queryClient,
+  showHttpRequestErrorToast,
+} from "@/lib/queryClient";
+import { TypebotsDiffSummary } from "./TypebotsDiffSummary";
+
+type Props = {
+  typebotId: string;
+  isOpen: boolean;
+  onClose: () => void;
+};
+
+export const PublishHistoryDialog = ({ typebotId, isOpen, onClose }: Props) => {
+  const { t } = useTranslate();
+  const [snapshotToRestore, setSnapshotToRestore] =
+    useState<PublishedTypebotSnapshotSummary>();
+
+  const { data, error } = useQuery(
+    orpc.typebot.listPublishedSnapshots.queryOptions({
+      input: { typebotId },
+      enabled: isOpen,
+    }),
+  );
+
+  const { mutateAsync: restoreSnapshot } = useMutation(
+    orpc.typebot.restorePublishedSnapshot.mutationOptions({
+      onError: (error) => {
+        showHttpRequestErrorToast(error, {
+          context: t("publish.history.restore.error.label"),
+        });
+      },
+      onSuccess: () => {
+        queryClient.invalidateQueries({
+          queryKey: orpc.typebot.getPublishedTypebot.key(),
+        });
+        queryClient.invalidateQueries({
+          queryKey: orpc.typebot.listPublishedSnapshots.key(),
+        });
+      },
+    }),
+  );
+
+  return (
+    <Dialog.Root isOpen={isOpen} onClose={onClose}>
+      <Dialog.Popup className="max-w-xl">
+        <Dialog.Title>{t("publish.history.title")}</Dialog.Title>
+        <Dialog.CloseButton />
+        {!error && !data && <LoaderCircleIcon className="animate-spin" />}
+        {data && data.snapshots.length === 0 && (
+          <p>{t("publish.history.empty.label")}</p>
+        )}
+        <Accordion.Root>
+          {data?.snapshots.map((snapshot) => (
+            <Accordion.Item key={snapshot.id}>
+              <Accordion.Trigger>
+                <SnapshotHeader snapshot={snapshot} />
+              </Accordion.Trigger>
+              <Accordion.Panel>
+                <div className="flex flex-col gap-3">
+                  <SnapshotDiffSummary
+                    typebotId={typebotId}
+                    snapshotId={snapshot.id}
+                  />
+                  {!snapshot.isCurrent && (
+                    <Button
+                      size="sm"
+                      variant="secondary"
+                      className="self-start"
+                      onClick={() => setSnapshotToRestore(snapshot)}
+                    >
+                      {t("publish.history.restore.label")}
+                    </Button>
+                  )}
+                </div>
+              </Accordion.Panel>
+            </Accordion.Item>
+          ))}
+        </Accordion.Root>
+      </Dialog.Popup>
+      <ConfirmDialog
+        isOpen={snapshotToRestore !== undefined}
+        onConfirm={() =>
+          snapshotToRestore
+            ? restoreSnapshot({
+                typebotId,
+                snapshotId: snapshotToRestore.id,
+              })
+            : undefined
+        }
+        onClose={() => setSnapshotToRestore(undefined)}
+        actionType="informative"
+        title={t("publish.history.restore.confirm.title")}
+        confirmButtonLabel={t("publish.history.restore.label")}
+      >
+        <p>
+          {t("publish.history.restore.confirm.message", {
+            date: snapshotToRestore?.createdAt.toLocaleString(),
+          })}
+        </p>
+      </ConfirmDialog>
+    </Dialog.Root>
+  );
+};
+
+const SnapshotHeader = ({
+  snapshot,
+}: {
+  snapshot: PublishedTypebotSnapshotSummary;
+}) => {
+  const { t } = useTranslate();
+  return (
+    <div className="flex items-center gap-3">
+      <Avatar.Root className="size-6">
+        <Avatar.Image src={snapshot.author?.image ?? undefined} />
+        <Avatar.Fallback>{snapshot.author?.name?.at(0)}</Avatar.Fallback>
+      </Avatar.Root>
+      <div className="flex flex-col items-start">
+        <span className="font-medium">
+          {snapshot.createdAt.toLocaleString()}
+        </span>
+        <span className="text-sm text-gray-11">
+          {snapshot.author?.name ?? t("publish.history.unknownAuthor.label")}
+        </span>
+      </div>
+      {snapshot.isCurrent && (
+        <Badge colorScheme="green">{t("publish.history.live.label")}</Badge>
+      )}
+      {snapshot.restoredFromId && (
+        <Badge>{t("publish.history.restored.label")}</Badge>
+      )}
+    </div>
+  );
+};
+
+const SnapshotDiffSummary = ({
+  typebotId,
+  snapshotId,
+}: {
+  typebotId: string;
+  snapshotId: string;
+}) => {
+  const { data } = useQuery(
+    orpc.typebot.getPublishedSnapshotsDiff.queryOptions({
+      input: { typebotId, snapshotId },
+    }),
+  );
+
+  if (!data) return <LoaderCircleIcon className="animate-spin" />;
+
+  return <TypebotsDiffSummary diff={data.diff} />;
+};
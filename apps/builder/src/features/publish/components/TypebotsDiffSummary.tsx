@@ -0,0 +1,72 @@
+import { useTranslate } from "@tolgee/react";
+import type { TypebotsDiff } from "@typebot.io/typebot/schemas/typebotsDiff";
+
+export const TypebotsDiffSummary = ({ diff }: { diff: TypebotsDiff }) => {
+  const { t } = useTranslate();
+
+  const lines = [
+    {
+      label: t("publish.history.diff.groups.label"),
+      ...diff.groups,
+      moved: [],
+    },
+    {
+      label: t("publish.history.diff.blocks.label"),
+      ...diff.blocks,
+    },
+    {
+      label: t("publish.history.diff.edges.label"),
+      ...diff.edges,
+      moved: [],
+    },
+    {
+      label: t("publish.history.diff.variables.label"),
+      ...diff.variables,
+      moved: [],
+    },
+  ].filter(
+    (line) =>
+      line.added.length > 0 ||
+      line.removed.length > 0 ||
+      line.modified.length > 0 ||
+      line.moved.length > 0,
+  );
+
+  return (
+    <ul className="text-sm">
+      {lines.map((line) => (
+        <li key={line.label}>
+          <span className="font-medium">{line.label}:</span>{" "}
+          <span className="text-green-11">+{line.added.length}</span>{" "}
+          <span className="text-red-11">-{line.removed.length}</span>{" "}
+          <span className="text-purple-11">~{line.modified.length}</span>
+          {line.moved.length > 0 && (
+            <>
+              {" "}
+              <span className="text-blue-11">↕{line.moved.length}</span>
+            </>
+          )}
+        </li>
+      ))}
+      {diff.variables.renamed.map((variable) => (
+        <li key={variable.id}>
+          {t("publish.history.diff.variableRenamed.label", {
+            from: variable.from,
+            to: variable.to,
+          })}
+        </li>
+      ))}
+      {diff.hasSettingsChanged && (
+        <li>{t("publish.history.diff.settingsChanged.label")}</li>
+      )}
+      {diff.hasThemeChanged && (
+        <li>{t("publish.history.diff.themeChanged.label")}</li>
+      )}
+      {lines.length === 0 &&
+        !diff.hasSettingsChanged &&
+        !diff.hasThemeChanged && (
+          <li>{t("publish.history.diff.noChanges.label")}</li>
+        )}
+    </ul>
+  );
+};
@@ -0,0 +1,42 @@
+import { useTranslate } from "@tolgee/react";
+import { Button } from "@typebot.io/ui/components/Button";
+import { Cancel01Icon } from "@typebot.io/ui/icons/Cancel01Icon";
+import { useEditor } from "@/features/editor/providers/EditorProvider";
+import { useGraph } from "@/features/graph/providers/GraphProvider";
+import { TypebotsDiffSummary } from "./TypebotsDiffSummary";
+
+export const UnpublishedChangesPanel = () => {
+  const { t } = useTranslate();
+  const { setIsShowingChanges } = useEditor();
+  const { changes } = useGraph();
+
+  if (!changes) return null;
+
+  return (
+    <div className="absolute top-4 left-1/2 -translate-x-1/2 z-10 flex flex-col gap-2 p-4 pr-12 rounded-xl border bg-gray-1 shadow-md">
+      <Button
+        className="absolute right-2 top-2"
+        onClick={() => setIsShowingChanges(false)}
+        variant="secondary"
+        size="icon"
+        aria-label={t("publish.changes.close.label")}
+      >
+        <Cancel01Icon />
+      </Button>
+      <h2 className="font-medium">{t("publish.changes.title")}</h2>
+      <TypebotsDiffSummary diff={changes} />
+      <div className="flex items-center gap-3 text-xs text-gray-11">
+        <Legend className="bg-green-8" label={t("publish.changes.added")} />
+        <Legend className="bg-purple-8" label={t("publish.changes.modified")} />
+        <Legend className="bg-blue-8" label={t("publish.changes.moved")} />
+      </div>
+    </div>
+  );
+};
+
+const Legend = ({ className, label }: { className: string; label: string }) => (
+  <span className="flex items-center gap-1">
+    <span className={`size-2 rounded-full ${className}`} />
+    {label}
+  </span>
+);
@@ -2,9 +2,15 @@ import { Plan } from "@typebot.io/prisma/enum";
 import { Badge } from "@typebot.io/ui/components/Badge";
 import { Button } from "@typebot.io/ui/components/Button";
 import { useOpenControls } from "@typebot.io/ui/hooks/useOpenControls";
+import { ChatIcon } from "@typebot.io/ui/icons/ChatIcon";
+import { Mail01Icon } from "@typebot.io/ui/icons/Mail01Icon";
 import { SourceCodeIcon } from "@typebot.io/ui/icons/SourceCodeIcon";
 import { SquareLock01Icon } from "@typebot.io/ui/icons/SquareLock01Icon";
 import type { JSX } from "react";
+import {
+  TelegramLogo,
+  telegramBrandColor,
+} from "@/components/logos/TelegramLogo";
 import {
   WhatsAppLogo,
   whatsAppBrandColor,
@@ -13,6 +19,7 @@ import { hasProPerks } from "@/features/billing/helpers/hasProPerks";
 import { useWorkspace } from "@/features/workspace/WorkspaceProvider";
 import { ApiDeployDialog } from "./dialogs/ApiDeployDialog";
 import { BlinkDeployDialog } from "./dialogs/BlinkDeployDialog";
+import { EmailDeployDialog } from "./dialogs/EmailDeployDialog";
 import { FlutterFlowDeployDialog } from "./dialogs/FlutterFlowDeployDialog";
 import { FramerDeployDialog } from "./dialogs/framer/FramerDeployDialog";
 import { GtmDeployDialog } from "./dialogs/gtm/GtmDeployDialog";
@@ -23,6 +30,8 @@ import { NextjsDeployDialog } from "./dialogs/nextjs/NextjsDeployDialog";
 import { ReactDeployDialog } from "./dialogs/react/ReactDeployDialog";
 import { ScriptDeployDialog } from "./dialogs/script/ScriptDeployDialog";
 import { ShopifyDeployDialog } from "./dialogs/shopify/ShopifyDeployDialog";
+import { SmsDeployDialog } from "./dialogs/sms/SmsDeployDialog";
+import { TelegramDeployDialog } from "./dialogs/telegram/TelegramDeployDialog";
 import { WebflowDeployDialog } from "./dialogs/webflow/WebflowDeployDialog";
 import { WhatsAppDeployDialog } from "./dialogs/whatsApp/WhatsAppDeployDialog";
 import { WixDeployDialog } from "./dialogs/wix/WixDeployDialog";
@@ -115,6 +124,41 @@ export const integrationsList = [
       />
     );
   },
+  (props: Pick<DialogProps, "publicId" | "isPublished">) => (
+    <DeployButton
+      logo={
+        <TelegramLogo
+          className="w-[60px] h-[100px]"
+          color={telegramBrandColor}
+        />
+      }
+      label="Telegram"
+      dialog={({ onClose, isOpen }) => (
+        <TelegramDeployDialog isOpen={isOpen} onClose={onClose} {...props} />
+      )}
+      {...props}
+    />
+  ),
+  (props: Pick<DialogProps, "publicId" | "isPublished">) => (
+    <DeployButton
+      logo={<Mail01Icon className="w-[60px] h-[100px]" />}
+      label="Email"
+      dialog={({ onClose, isOpen }) => (
+        <EmailDeployDialog isOpen={isOpen} onClose={onClose} {...props} />
+      )}
+      {...props}
+    />
+  ),
+  (props: Pick<DialogProps, "publicId" | "isPublished">) => (
+    <DeployButton
+      logo={<ChatIcon className="w-[60px] h-[100px]" />}
+      label="SMS"
+      dialog={({ onClose, isOpen }) => (
+        <SmsDeployDialog isOpen={isOpen} onClose={onClose} {...props} />
+      )}
+      {...props}
+    />
+  ),
   (props: Pick<DialogProps, "publicId" | "isPublished">) => (
     <DeployButton
       logo={<WordpressLogo className="w-[70px] h-[100px]" />}
@@ -0,0 +1,194 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { emailSecretTokenHeaderName } from "@typebot.io/email-channel/constants";
+import { defaultSessionExpiryTimeout } from "@typebot.io/settings/constants";
+import { Alert } from "@typebot.io/ui/components/Alert";
+import { Button } from "@typebot.io/ui/components/Button";
+import { Dialog } from "@typebot.io/ui/components/Dialog";
+import { Field } from "@typebot.io/ui/components/Field";
+import { MoreInfoTooltip } from "@typebot.io/ui/components/MoreInfoTooltip";
+import { Switch } from "@typebot.io/ui/components/Switch";
+import { InformationSquareIcon } from "@typebot.io/ui/icons/InformationSquareIcon";
+import type { JSX } from "react";
+import { BasicNumberInput } from "@/components/inputs/BasicNumberInput";
+import { CodeEditor } from "@/components/inputs/CodeEditor";
+import { TextLink } from "@/components/TextLink";
+import { useTypebot } from "@/features/editor/providers/TypebotProvider";
+import {
+  orpc,
+  queryClient,
+  showHttpRequestErrorToast,
+} from "@/lib/queryClient";
+import { PublishButton } from "../../PublishButton";
+import type { DialogProps } from "../DeployButton";
+import { parseApiHost } from "../snippetParsers/shared";
+
+const inboundEmailExample = `{
+  "from": { "address": "john@example.com", "name": "John Doe" },
+  "to": "support@example.com",
+  "subject": "Hello",
+  "text": "Hi, I have a question",
+  "messageId": "<CAF1234@mail.example.com>",
+  "references": []
+}`;
+
+export const EmailDeployDialog = ({
+  publicId,
+  isOpen,
+  onClose,
+}: DialogProps): JSX.Element => {
+  const { typebot, updateTypebot, isPublished } = useTypebot();
+
+  const emailSettings = typebot?.settings.email;
+
+  const { data } = useQuery(
+    orpc.emailChannel.getWebhookSecretToken.queryOptions({
+      input: { typebotId: typebot?.id as string },
+      enabled: isOpen && !!typebot?.id,
+    }),
+  );
+
+  const { mutate: regenerateSecretToken, isPending: isRegenerating } =
+    useMutation(
+      orpc.emailChannel.regenerateWebhookSecretToken.mutationOptions({
+        onError: (error) => {
+          showHttpRequestErrorToast(error, {
+            context: "Could not regenerate secret token",
+          });
+        },
+        onSuccess: () => {
+          queryClient.invalidateQueries({
+            queryKey: orpc.emailChannel.getWebhookSecretToken.key(),
+          });
+        },
+      }),
+    );
+
+  const updateEmailSettings = (updates: NonNullable<typeof emailSettings>) => {
+    if (!typebot) return;
+    updateTypebot({
+      updates: {
+        settings: {
+          ...typebot.settings,
+          email: {
+            ...typebot.settings.email,
+            ...updates,
+          },
+        },
+      },
+    });
+  };
+
+  const updateSessionExpiryTimeout = (sessionExpiryTimeout?: number) => {
+    if (
+      sessionExpiryTimeout &&
+      (sessionExpiryTimeout <= 0 || sessionExpiryTimeout > 48)
+    )
+      return;
+    updateEmailSettings({ sessionExpiryTimeout });
+  };
+
+  return (
+    <Dialog.Root isOpen={isOpen} onClose={onClose}>
+      <Dialog.Popup className="max-w-xl">
+        <Dialog.Title>Email</Dialog.Title>
+        <Dialog.CloseButton />
+        {!isPublished && (
+          <Alert.Root>
+            <InformationSquareIcon />
+            <Alert.Description>
+              You have modifications that can be published.
+            </Alert.Description>
+          </Alert.Root>
+        )}
+        <ol>
+          <li>
+            <div className="flex flex-col gap-2">
+              <p>
+                Forward the inbound emails of your support address to this
+                endpoint with a <code>POST</code> request:
+              </p>
+              <CodeEditor
+                isReadOnly
+                lang="shell"
+                value={`${parseApiHost(
+                  typebot?.customDomain,
+                )}/api/v1/typebots/${publicId}/email/webhook`}
+              />
+              <p>
+                With the <code>{emailSecretTokenHeaderName}</code> header set
+                to:
+              </p>
+              <CodeEditor
+                isReadOnly
+                lang="shell"
+                value={data?.secretToken ?? ""}
+              />
+              <Button
+                className="self-start"
+                variant="secondary"
+                size="sm"
+                disabled={!typebot || isRegenerating}
+                onClick={() =>
+                  typebot && regenerateSecretToken({ typebotId: typebot.id })
+                }
+              >
+                Regenerate secret token
+              </Button>
+              <p>And the following JSON body:</p>
+              <CodeEditor isReadOnly lang="json" value={inboundEmailExample} />
+            </div>
+          </li>
+          <li>
+            <Field.Root className="inline-flex flex-row items-center">
+              <Field.Label>
+                Session expire timeout
+                <MoreInfoTooltip>
+                  A number between 0 and 48 that represents the time in hours
+                  after which the session will expire if the user does not
+                  reply. The conversation restarts if the user sends an email
+                  after that expiration time.
+                </MoreInfoTooltip>
+              </Field.Label>
+              <BasicNumberInput
+                max={48}
+                min={0}
+                defaultValue={emailSettings?.sessionExpiryTimeout}
+                placeholder={defaultSessionExpiryTimeout.toString()}
+                onValueChange={updateSessionExpiryTimeout}
+                withVariableButton={false}
+              />
+              hours
+            </Field.Root>
+          </li>
+          <li>
+            <Field.Root className="flex-row items-center">
+              <Switch
+                checked={emailSettings?.isEnabled ?? false}
+                onCheckedChange={(isEnabled) =>
+                  updateEmailSettings({ isEnabled })
+                }
+              />
+              <Field.Label>Enable email integration</Field.Label>
+            </Field.Root>
+          </li>
+          <li>
+            <div className="flex items-center gap-2">
+              <p>Publish your bot:</p>
+              <PublishButton size="sm" isMoreMenuDisabled />
+            </div>
+          </li>
+        </ol>
+        <p className="text-sm">
+          Check out the{" "}
+          <TextLink
+            href="https://docs.typebot.io/deploy/email/overview"
+            isExternal
+          >
+            email channel documentation
+          </TextLink>{" "}
+          for more information
+        </p>
+      </Dialog.Popup>
+    </Dialog.Root>
+  );
+};
@@ -0,0 +1,154 @@
+import { defaultSessionExpiryTimeout } from "@typebot.io/settings/constants";
+import { Alert } from "@typebot.io/ui/components/Alert";
+import { Dialog } from "@typebot.io/ui/components/Dialog";
+import { Field } from "@typebot.io/ui/components/Field";
+import { MoreInfoTooltip } from "@typebot.io/ui/components/MoreInfoTooltip";
+import { Switch } from "@typebot.io/ui/components/Switch";
+import { useOpenControls } from "@typebot.io/ui/hooks/useOpenControls";
+import { InformationSquareIcon } from "@typebot.io/ui/icons/InformationSquareIcon";
+import type { JSX } from "react";
+import { BasicNumberInput } from "@/components/inputs/BasicNumberInput";
+import { TextLink } from "@/components/TextLink";
+import { CredentialsDropdown } from "@/features/credentials/components/CredentialsDropdown";
+import { useTypebot } from "@/features/editor/providers/TypebotProvider";
+import { useWorkspace } from "@/features/workspace/WorkspaceProvider";
+import { PublishButton } from "../../../PublishButton";
+import type { DialogProps } from "../../DeployButton";
+import { TwilioCredentialsDialog } from "./TwilioCredentialsDialog";
+
+export const SmsDeployDialog = ({
+  isOpen,
+  onClose,
+}: DialogProps): JSX.Element => {
+  const { typebot, updateTypebot, isPublished } = useTypebot();
+  const { workspace } = useWorkspace();
+  const {
+    isOpen: isCredentialsDialogOpen,
+    onOpen,
+    onClose: onCredentialsDialogClose,
+  } = useOpenControls();
+
+  const smsSettings = typebot?.settings.sms;
+
+  const updateSmsSettings = (updates: NonNullable<typeof smsSettings>) => {
+    if (!typebot) return;
+    updateTypebot({
+      updates: {
+        settings: {
+          ...typebot.settings,
+          sms: {
+            ...typebot.settings.sms,
+            ...updates,
+          },
+        },
+      },
+    });
+  };
+
+  const updateCredentialsId = (credentialsId: string | undefined) =>
+    updateSmsSettings({ credentialsId });
+
+  const updateSessionExpiryTimeout = (sessionExpiryTimeout?: number) => {
+    if (
+      sessionExpiryTimeout &&
+      (sessionExpiryTimeout <= 0 || sessionExpiryTimeout > 48)
+    )
+      return;
+    updateSmsSettings({ sessionExpiryTimeout });
+  };
+
+  return (
+    <Dialog.Root isOpen={isOpen} onClose={onClose}>
+      <Dialog.Popup className="max-w-xl">
+        <Dialog.Title>SMS</Dialog.Title>
+        <Dialog.CloseButton />
+        {!isPublished && smsSettings?.credentialsId && (
+          <Alert.Root>
+            <InformationSquareIcon />
+            <Alert.Description>
+              You have modifications that can be published.
+            </Alert.Description>
+          </Alert.Root>
+        )}
+        <ol>
+          <li>
+            <div className="flex items-center gap-2">
+              <p>Select a phone number:</p>
+              {workspace && (
+                <>
+                  <TwilioCredentialsDialog
+                    isOpen={isCredentialsDialogOpen}
+                    onClose={onCredentialsDialogClose}
+                    onNewCredentials={updateCredentialsId}
+                  />
+                  <CredentialsDropdown
+                    type="twilio"
+                    scope={{ type: "workspace", workspaceId: workspace.id }}
+                    currentCredentialsId={smsSettings?.credentialsId}
+                    onCredentialsSelect={updateCredentialsId}
+                    onCreateNewClick={onOpen}
+                    credentialsName="Twilio phone number"
+                    size="sm"
+                  />
+                </>
+              )}
+            </div>
+          </li>
+          {smsSettings?.credentialsId && (
+            <>
+              <li>
+                <Field.Root className="inline-flex flex-row items-center">
+                  <Field.Label>
+                    Session expire timeout
+                    <MoreInfoTooltip>
+                      A number between 0 and 48 that represents the time in
+                      hours after which the session will expire if the user does
+                      not interact with the bot. The conversation restarts if
+                      the user sends a message after that expiration time.
+                    </MoreInfoTooltip>
+                  </Field.Label>
+                  <BasicNumberInput
+                    max={48}
+                    min={0}
+                    defaultValue={smsSettings.sessionExpiryTimeout}
+                    placeholder={defaultSessionExpiryTimeout.toString()}
+                    onValueChange={updateSessionExpiryTimeout}
+                    withVariableButton={false}
+                  />
+                  hours
+                </Field.Root>
+              </li>
+              <li>
+                <Field.Root className="flex-row items-center">
+                  <Switch
+                    checked={smsSettings.isEnabled ?? false}
+                    onCheckedChange={(isEnabled) =>
+                      updateSmsSettings({ isEnabled })
+                    }
+                  />
+                  <Field.Label>Enable SMS integration</Field.Label>
+                </Field.Root>
+              </li>
+              <li>
+                <div className="flex items-center gap-2">
+                  <p>Publish your bot:</p>
+                  <PublishButton size="sm" isMoreMenuDisabled />
+                </div>
+              </li>
+            </>
+          )}
+        </ol>
+        <p className="text-sm">
+          Check out the{" "}
+          <TextLink
+            href="https://docs.typebot.io/deploy/sms/overview"
+            isExternal
+          >
+            SMS channel documentation
+          </TextLink>{" "}
+          for more information
+        </p>
+      </Dialog.Popup>
+    </Dialog.Root>
+  );
+};
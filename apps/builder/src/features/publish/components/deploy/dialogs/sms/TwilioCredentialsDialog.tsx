@@ -0,0 +1,125 @@
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@typebot.io/ui/components/Button";
+import { Dialog } from "@typebot.io/ui/components/Dialog";
+import { Field } from "@typebot.io/ui/components/Field";
+import { Input } from "@typebot.io/ui/components/Input";
+import type React from "react";
+import { useState } from "react";
+import { TextLink } from "@/components/TextLink";
+import { useWorkspace } from "@/features/workspace/WorkspaceProvider";
+import { orpc, queryClient } from "@/lib/queryClient";
+import { toast } from "@/lib/toast";
+
+type Props = {
+  isOpen: boolean;
+  onClose: () => void;
+  onNewCredentials: (id: string) => void;
+};
+
+export const TwilioCredentialsDialog = ({
+  isOpen,
+  onClose,
+  onNewCredentials,
+}: Props) => (
+  <Dialog.Root isOpen={isOpen} onClose={onClose}>
+    <TwilioCreateDialogBody
+      onNewCredentials={onNewCredentials}
+      onClose={onClose}
+    />
+  </Dialog.Root>
+);
+
+export const TwilioCreateDialogBody = ({
+  onNewCredentials,
+  onClose,
+}: Pick<Props, "onClose" | "onNewCredentials">) => {
+  const { workspace } = useWorkspace();
+  const [name, setName] = useState("");
+  const [accountSid, setAccountSid] = useState("");
+  const [authToken, setAuthToken] = useState("");
+  const [phoneNumber, setPhoneNumber] = useState("");
+  const [isCreating, setIsCreating] = useState(false);
+
+  const { mutate } = useMutation(
+    orpc.credentials.createCredentials.mutationOptions({
+      onMutate: () => setIsCreating(true),
+      onSettled: () => setIsCreating(false),
+      onError: (err) => {
+        toast({
+          description: err.message,
+        });
+      },
+      onSuccess: (data) => {
+        queryClient.invalidateQueries({
+          queryKey: orpc.credentials.listCredentials.key(),
+        });
+        onNewCredentials(data.credentialsId);
+        onClose();
+      },
+    }),
+  );
+
+  const createCredentials = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!workspace) return;
+    mutate({
+      scope: "workspace",
+      credentials: {
+        type: "twilio",
+        name,
+        data: {
+          accountSid: accountSid.trim(),
+          authToken: authToken.trim(),
+          phoneNumber: phoneNumber.replace(/[\s()-]/g, ""),
+        },
+      },
+      workspaceId: workspace.id,
+    });
+  };
+
+  return (
+    <Dialog.Popup
+      render={(props) => <form onSubmit={createCredentials} {...props} />}
+    >
+      <Dialog.Title>Add a Twilio phone number</Dialog.Title>
+      <p>
+        Find your Account SID and Auth Token in the{" "}
+        <TextLink href="https://console.twilio.com" isExternal>
+          Twilio console
+        </TextLink>
+        . The phone number must be able to send and receive SMS, its incoming
+        messages webhook is configured automatically.
+      </p>
+      <Field.Root>
+        <Field.Label>Name</Field.Label>
+        <Input onValueChange={setName} placeholder="My SMS number" />
+      </Field.Root>
+      <Field.Root>
+        <Field.Label>Account SID</Field.Label>
+        <Input onValueChange={setAccountSid} placeholder="AC..." />
+      </Field.Root>
+      <Field.Root>
+        <Field.Label>Auth Token</Field.Label>
+        <Input onValueChange={setAuthToken} type="password" />
+      </Field.Root>
+      <Field.Root>
+        <Field.Label>Phone number</Field.Label>
+        <Input onValueChange={setPhoneNumber} placeholder="+15551234567" />
+      </Field.Root>
+      <Dialog.Footer>
+        <Button
+          type="submit"
+          disabled={
+            name === "" ||
+            accountSid === "" ||
+            authToken === "" ||
+            phoneNumber === "" ||
+            isCreating
+          }
+        >
+          Connect
+        </Button>
+      </Dialog.Footer>
+    </Dialog.Popup>
+  );
+};
@@ -0,0 +1,111 @@
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@typebot.io/ui/components/Button";
+import { Dialog } from "@typebot.io/ui/components/Dialog";
+import { Field } from "@typebot.io/ui/components/Field";
+import { Input } from "@typebot.io/ui/components/Input";
+import type React from "react";
+import { useState } from "react";
+import { TextLink } from "@/components/TextLink";
+import { useWorkspace } from "@/features/workspace/WorkspaceProvider";
+import { orpc, queryClient } from "@/lib/queryClient";
+import { toast } from "@/lib/toast";
+
+type Props = {
+  isOpen: boolean;
+  onClose: () => void;
+  onNewCredentials: (id: string) => void;
+};
+
+export const TelegramCredentialsDialog = ({
+  isOpen,
+  onClose,
+  onNewCredentials,
+}: Props) => (
+  <Dialog.Root isOpen={isOpen} onClose={onClose}>
+    <TelegramCreateDialogBody
+      onNewCredentials={onNewCredentials}
+      onClose={onClose}
+    />
+  </Dialog.Root>
+);
+
+export const TelegramCreateDialogBody = ({
+  onNewCredentials,
+  onClose,
+}: Pick<Props, "onClose" | "onNewCredentials">) => {
+  const { workspace } = useWorkspace();
+  const [name, setName] = useState("");
+  const [botToken, setBotToken] = useState("");
+  const [isCreating, setIsCreating] = useState(false);
+
+  const { mutate } = useMutation(
+    orpc.credentials.createCredentials.mutationOptions({
+      onMutate: () => setIsCreating(true),
+      onSettled: () => setIsCreating(false),
+      onError: (err) => {
+        toast({
+          description: err.message,
+        });
+      },
+      onSuccess: (data) => {
+        queryClient.invalidateQueries({
+          queryKey: orpc.credentials.listCredentials.key(),
+        });
+        onNewCredentials(data.credentialsId);
+        onClose();
+      },
+    }),
+  );
+
+  const createCredentials = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!workspace) return;
+    mutate({
+      scope: "workspace",
+      credentials: {
+        type: "telegram",
+        name,
+        data: {
+          botToken: botToken.trim(),
+        },
+      },
+      workspaceId: workspace.id,
+    });
+  };
+
+  return (
+    <Dialog.Popup
+      render={(props) => <form onSubmit={createCredentials} {...props} />}
+    >
+      <Dialog.Title>Add a Telegram bot</Dialog.Title>
+      <p>
+        Create a bot with{" "}
+        <TextLink href="https://t.me/BotFather" isExternal>
+          @BotFather
+        </TextLink>{" "}
+        using the <code>/newbot</code> command and paste the token it gives you
+        below.
+      </p>
+      <Field.Root>
+        <Field.Label>Name</Field.Label>
+        <Input onValueChange={setName} placeholder="My Telegram bot" />
+      </Field.Root>
+      <Field.Root>
+        <Field.Label>Bot token</Field.Label>
+        <Input
+          onValueChange={setBotToken}
+          placeholder="123456789:AA..."
+          type="password"
+        />
+      </Field.Root>
+      <Dialog.Footer>
+        <Button
+          type="submit"
+          disabled={name === "" || botToken === "" || isCreating}
+        >
+          Connect
+        </Button>
+      </Dialog.Footer>
+    </Dialog.Popup>
+  );
+};
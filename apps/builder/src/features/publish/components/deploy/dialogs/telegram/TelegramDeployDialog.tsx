@@ -0,0 +1,165 @@
+import { useQuery } from "@tanstack/react-query";
+import { defaultSessionExpiryTimeout } from "@typebot.io/settings/constants";
+import { Alert } from "@typebot.io/ui/components/Alert";
+import { Dialog } from "@typebot.io/ui/components/Dialog";
+import { Field } from "@typebot.io/ui/components/Field";
+import { MoreInfoTooltip } from "@typebot.io/ui/components/MoreInfoTooltip";
+import { Switch } from "@typebot.io/ui/components/Switch";
+import { useOpenControls } from "@typebot.io/ui/hooks/useOpenControls";
+import { InformationSquareIcon } from "@typebot.io/ui/icons/InformationSquareIcon";
+import type { JSX } from "react";
+import { BasicNumberInput } from "@/components/inputs/BasicNumberInput";
+import { TextLink } from "@/components/TextLink";
+import { CredentialsDropdown } from "@/features/credentials/components/CredentialsDropdown";
+import { useTypebot } from "@/features/editor/providers/TypebotProvider";
+import { useWorkspace } from "@/features/workspace/WorkspaceProvider";
+import { orpc } from "@/lib/queryClient";
+import { PublishButton } from "../../../PublishButton";
+import type { DialogProps } from "../../DeployButton";
+import { TelegramCredentialsDialog } from "./TelegramCredentialsDialog";
+
+export const TelegramDeployDialog = ({
+  isOpen,
+  onClose,
+}: DialogProps): JSX.Element => {
+  const { typebot, updateTypebot, isPublished } = useTypebot();
+  const { workspace } = useWorkspace();
+  const {
+    isOpen: isCredentialsDialogOpen,
+    onOpen,
+    onClose: onCredentialsDialogClose,
+  } = useOpenControls();
+
+  const telegramSettings = typebot?.settings.telegram;
+
+  const { data: botData } = useQuery(
+    orpc.telegram.getBot.queryOptions({
+      input: {
+        credentialsId: telegramSettings?.credentialsId as string,
+      },
+      enabled: !!telegramSettings?.credentialsId,
+    }),
+  );
+
+  const updateTelegramSettings = (
+    updates: NonNullable<typeof telegramSettings>,
+  ) => {
+    if (!typebot) return;
+    updateTypebot({
+      updates: {
+        settings: {
+          ...typebot.settings,
+          telegram: {
+            ...typebot.settings.telegram,
+            ...updates,
+          },
+        },
+      },
+    });
+  };
+
+  const toggleEnableTelegram = (isEnabled: boolean) => {
+    if (!botData) return;
+    updateTelegramSettings({ isEnabled });
+  };
+
+  const updateCredentialsId = (credentialsId: string | undefined) =>
+    updateTelegramSettings({ credentialsId });
+
+  const updateSessionExpiryTimeout = (sessionExpiryTimeout?: number) => {
+    if (
+      sessionExpiryTimeout &&
+      (sessionExpiryTimeout <= 0 || sessionExpiryTimeout > 48)
+    )
+      return;
+    updateTelegramSettings({ sessionExpiryTimeout });
+  };
+
+  return (
+    <Dialog.Root isOpen={isOpen} onClose={onClose}>
+      <Dialog.Popup className="max-w-xl">
+        <Dialog.Title>Telegram</Dialog.Title>
+        <Dialog.CloseButton />
+        {!isPublished && botData && (
+          <Alert.Root>
+            <InformationSquareIcon />
+            <Alert.Description>
+              You have modifications that can be published.
+            </Alert.Description>
+          </Alert.Root>
+        )}
+        <ol>
+          <li>
+            <div className="flex items-center gap-2">
+              <p>Select a bot:</p>
+              {workspace && (
+                <>
+                  <TelegramCredentialsDialog
+                    isOpen={isCredentialsDialogOpen}
+                    onClose={onCredentialsDialogClose}
+                    onNewCredentials={updateCredentialsId}
+                  />
+                  <CredentialsDropdown
+                    type="telegram"
+                    scope={{ type: "workspace", workspaceId: workspace.id }}
+                    currentCredentialsId={telegramSettings?.credentialsId}
+                    onCredentialsSelect={updateCredentialsId}
+                    onCreateNewClick={onOpen}
+                    credentialsName="Telegram bot"
+                    size="sm"
+                  />
+                </>
+              )}
+            </div>
+          </li>
+          {telegramSettings?.credentialsId && botData && (
+            <>
+              <li>
+                <Field.Root className="inline-flex flex-row items-center">
+                  <Field.Label>
+                    Session expire timeout
+                    <MoreInfoTooltip>
+                      A number between 0 and 48 that represents the time in
+                      hours after which the session will expire if the user does
+                      not interact with the bot. The conversation restarts if
+                      the user sends a message after that expiration time.
+                    </MoreInfoTooltip>
+                  </Field.Label>
+                  <BasicNumberInput
+                    max={48}
+                    min={0}
+                    defaultValue={telegramSettings.sessionExpiryTimeout}
+                    placeholder={defaultSessionExpiryTimeout.toString()}
+                    onValueChange={updateSessionExpiryTimeout}
+                    withVariableButton={false}
+                  />
+                  hours
+                </Field.Root>
+              </li>
+              <li>
+                <Field.Root className="flex-row items-center">
+                  <Switch
+                    checked={telegramSettings.isEnabled ?? false}
+                    onCheckedChange={toggleEnableTelegram}
+                  />
+                  <Field.Label>Enable Telegram integration</Field.Label>
+                </Field.Root>
+              </li>
+              <li>
+                <div className="flex items-center gap-2">
+                  <p>Publish your bot:</p>
+                  <PublishButton size="sm" isMoreMenuDisabled />
+                </div>
+              </li>
+              <li>
+                <TextLink href={`https://t.me/${botData.username}`} isExternal>
+                  Try it out
+                </TextLink>
+              </li>
+            </>
+          )}
+        </ol>
+      </Dialog.Popup>
+    </Dialog.Root>
+  );
+};
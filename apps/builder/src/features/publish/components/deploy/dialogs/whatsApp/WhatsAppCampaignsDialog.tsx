@@ -0,0 +1,247 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { defaultWhatsAppTemplateOptions } from "@typebot.io/blocks-integrations/whatsAppTemplate/constants";
+import { Accordion } from "@typebot.io/ui/components/Accordion";
+import { Badge } from "@typebot.io/ui/components/Badge";
+import { Button, buttonVariants } from "@typebot.io/ui/components/Button";
+import { Dialog } from "@typebot.io/ui/components/Dialog";
+import { Field } from "@typebot.io/ui/components/Field";
+import { Input } from "@typebot.io/ui/components/Input";
+import { Table } from "@typebot.io/ui/components/Table";
+import { LoaderCircleIcon } from "@typebot.io/ui/icons/LoaderCircleIcon";
+import type { WhatsAppCampaign } from "@typebot.io/whatsapp/schemas";
+import { type ChangeEvent, useState } from "react";
+import { TimeSince } from "@/components/TimeSince";
+import { parseWhatsAppCampaignCsv } from "@/features/publish/helpers/parseWhatsAppCampaignCsv";
+import {
+  orpc,
+  queryClient,
+  showHttpRequestErrorToast,
+} from "@/lib/queryClient";
+import { toast } from "@/lib/toast";
+
+type Props = {
+  typebotId: string;
+  isOpen: boolean;
+  onClose: () => void;
+};
+
+type Recipients = ReturnType<typeof parseWhatsAppCampaignCsv>;
+
+export const WhatsAppCampaignsDialog = ({
+  typebotId,
+  isOpen,
+  onClose,
+}: Props) => {
+  const [name, setName] = useState("");
+  const [templateName, setTemplateName] = useState("");
+  const [languageCode, setLanguageCode] = useState<string>(
+    defaultWhatsAppTemplateOptions.languageCode,
+  );
+  const [recipients, setRecipients] = useState<Recipients>([]);
+
+  const { data } = useQuery(
+    orpc.whatsApp.listWhatsAppCampaigns.queryOptions({
+      input: { typebotId },
+      enabled: isOpen,
+      refetchInterval: (query) =>
+        query.state.data?.campaigns.some(
+          (campaign) =>
+            campaign.status === "PENDING" || campaign.status === "RUNNING",
+        )
+          ? 5000
+          : false,
+    }),
+  );
+
+  const { mutate: createCampaign, isPending } = useMutation(
+    orpc.whatsApp.createWhatsAppCampaign.mutationOptions({
+      onError: (error) => {
+        showHttpRequestErrorToast(error, {
+          context: "Could not create campaign",
+        });
+      },
+      onSuccess: () => {
+        setName("");
+        setRecipients([]);
+        queryClient.invalidateQueries({
+          queryKey: orpc.whatsApp.listWhatsAppCampaigns.key(),
+        });
+      },
+    }),
+  );
+
+  const handleCsvChange = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const recipients = parseWhatsAppCampaignCsv(await file.text());
+    if (recipients.length === 0)
+      toast({
+        type: "error",
+        description: "No phone numbers found in the CSV file",
+      });
+    setRecipients(recipients);
+    e.target.value = "";
+  };
+
+  const submit = () =>
+    createCampaign({
+      typebotId,
+      name,
+      template: {
+        name: templateName,
+        language: { code: languageCode },
+      },
+      recipients,
+    });
+
+  return (
+    <Dialog.Root isOpen={isOpen} onClose={onClose}>
+      <Dialog.Popup className="max-w-2xl">
+        <Dialog.Title>Campaigns</Dialog.Title>
+        <Dialog.CloseButton />
+        <p className="text-sm text-gray-11">
+          Send an approved template to a list of phone numbers. The bot starts
+          when a recipient replies. The CSV file needs a phone number column,
+          every other column is used as a prefilled variable.
+        </p>
+        <div className="flex flex-col gap-4 p-4 rounded-md border">
+          <Field.Root>
+            <Field.Label>Name</Field.Label>
+            <Input value={name} onValueChange={setName} />
+          </Field.Root>
+          <div className="flex gap-2">
+            <Field.Root className="flex-1">
+              <Field.Label>Template name</Field.Label>
+              <Input
+                value={templateName}
+                onValueChange={setTemplateName}
+                placeholder="spring_promo"
+              />
+            </Field.Root>
+            <Field.Root>
+              <Field.Label>Language code</Field.Label>
+              <Input value={languageCode} onValueChange={setLanguageCode} />
+            </Field.Root>
+          </div>
+          <div className="flex items-center gap-2">
+            <input
+              type="file"
+              id="campaign-csv-input"
+              className="hidden"
+              onChange={handleCsvChange}
+              accept=".csv"
+            />
+            <label
+              htmlFor="campaign-csv-input"
+              className={buttonVariants({ variant: "secondary", size: "sm" })}
+            >
+              Upload CSV
+            </label>
+            {recipients.length > 0 && (
+              <p className="text-sm">{recipients.length} recipients</p>
+            )}
+          </div>
+          <Button
+            className="self-end"
+            disabled={
+              isPending ||
+              name.length === 0 ||
+              templateName.length === 0 ||
+              recipients.length === 0
+            }
+            onClick={submit}
+          >
+            Send campaign
+          </Button>
+        </div>
+        {!data && <LoaderCircleIcon className="animate-spin" />}
+        <Accordion.Root>
+          {data?.campaigns.map((campaign) => (
+            <Accordion.Item key={campaign.id}>
+              <Accordion.Trigger>
+                <CampaignHeader campaign={campaign} />
+              </Accordion.Trigger>
+              <Accordion.Panel>
+                <CampaignRecipients
+                  typebotId={typebotId}
+                  campaignId={campaign.id}
+                />
+              </Accordion.Panel>
+            </Accordion.Item>
+          ))}
+        </Accordion.Root>
+      </Dialog.Popup>
+    </Dialog.Root>
+  );
+};
+
+const CampaignHeader = ({ campaign }: { campaign: WhatsAppCampaign }) => (
+  <div className="flex items-center justify-between gap-2 w-full">
+    <div className="flex flex-col items-start">
+      <p className="font-medium">{campaign.name}</p>
+      <p className="text-xs text-gray-11">
+        <TimeSince date={campaign.createdAt} />
+      </p>
+    </div>
+    <div className="flex gap-1">
+      {Object.entries(campaign.recipientsCount).map(([status, count]) => (
+        <Badge key={status} colorScheme={statusColorScheme[status]}>
+          {count} {status.toLowerCase()}
+        </Badge>
+      ))}
+      <Badge colorScheme={statusColorScheme[campaign.status]}>
+        {campaign.status.toLowerCase()}
+      </Badge>
+    </div>
+  </div>
+);
+
+const CampaignRecipients = ({
+  typebotId,
+  campaignId,
+}: {
+  typebotId: string;
+  campaignId: string;
+}) => {
+  const { data } = useQuery(
+    orpc.whatsApp.getWhatsAppCampaignRecipients.queryOptions({
+      input: { typebotId, campaignId },
+    }),
+  );
+
+  if (!data) return <LoaderCircleIcon className="animate-spin" />;
+
+  return (
+    <Table.Root>
+      <Table.Header>
+        <Table.Row>
+          <Table.Head>Phone number</Table.Head>
+          <Table.Head>Status</Table.Head>
+        </Table.Row>
+      </Table.Header>
+      <Table.Body>
+        {data.recipients.map((recipient) => (
+          <Table.Row key={recipient.id}>
+            <Table.Cell>{recipient.phoneNumber}</Table.Cell>
+            <Table.Cell>
+              <Badge colorScheme={statusColorScheme[recipient.status]}>
+                {recipient.status.toLowerCase()}
+              </Badge>
+              {recipient.error && (
+                <p className="text-xs text-red-10">{recipient.error}</p>
+              )}
+            </Table.Cell>
+          </Table.Row>
+        ))}
+      </Table.Body>
+    </Table.Root>
+  );
+};
+
+const statusColorScheme: Record<string, "gray" | "blue" | "green" | "red"> = {
+  PENDING: "gray",
+  RUNNING: "blue",
+  SENT: "blue",
+  COMPLETED: "green",
+  FAILED: "red",
+};
@@ -26,6 +26,7 @@ import { useWorkspace } from "@/features/workspace/WorkspaceProvider";
 import { orpc } from "@/lib/queryClient";
 import { PublishButton } from "../../../PublishButton";
 import type { DialogProps } from "../../DeployButton";
+import { WhatsAppCampaignsDialog } from "./WhatsAppCampaignsDialog";
 import { WhatsAppComparisonItem } from "./WhatsAppComparisonItem";
 import { WhatsAppCredentialsDialog } from "./WhatsAppCredentialsDialog";
 
@@ -45,6 +46,11 @@ export const WhatsAppDeployDialog = ({
     onOpen: onChangePlanDialogOpen,
     onClose: onChangePlanDialogClose,
   } = useOpenControls();
+  const {
+    isOpen: isCampaignsDialogOpen,
+    onOpen: onCampaignsDialogOpen,
+    onClose: onCampaignsDialogClose,
+  } = useOpenControls();
 
   const whatsAppSettings = typebot?.settings.whatsApp;
 
@@ -314,6 +320,25 @@ export const WhatsAppDeployDialog = ({
                   </TextLink>
                 </li>
               )}
+              {typebot.settings.whatsApp?.isEnabled && (
+                <li>
+                  <div className="flex items-center gap-2">
+                    <p>Reach out to a list of contacts:</p>
+                    <Button
+                      size="sm"
+                      variant="secondary"
+                      onClick={onCampaignsDialogOpen}
+                    >
+                      Campaigns
+                    </Button>
+                    <WhatsAppCampaignsDialog
+                      typebotId={typebot.id}
+                      isOpen={isCampaignsDialogOpen}
+                      onClose={onCampaignsDialogClose}
+                    />
+                  </div>
+                </li>
+              )}
             </>
           )}
         </ol>
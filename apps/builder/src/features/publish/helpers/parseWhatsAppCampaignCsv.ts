@@ -0,0 +1,26 @@
+import { parse } from "papaparse";
+
+/**
+ * The column whose header contains "phone" (or the first one) holds the
+ * phone numbers, every other column is a prefilled variable.
+ */
+export const parseWhatsAppCampaignCsv = (csv: string) => {
+  const { data, meta } = parse<Record<string, string>>(csv, {
+    header: true,
+    skipEmptyLines: true,
+  });
+  const columns = meta.fields ?? [];
+  const phoneNumberColumn =
+    columns.find((column) => /phone/i.test(column)) ?? columns[0];
+  if (!phoneNumberColumn) return [];
+  return data
+    .filter((row) => row[phoneNumberColumn]?.trim())
+    .map((row) => {
+      const { [phoneNumberColumn]: phoneNumber, ...variables } = row;
+      return {
+        phoneNumber: phoneNumber.trim(),
+        prefilledVariables:
+          Object.keys(variables).length > 0 ? variables : undefined,
+      };
+    });
+};
@@ -9,9 +9,10 @@ import type {
   ResultWithAnswers,
   TableData,
 } from "@typebot.io/results/schemas/results";
+import type { ResultsFilter } from "@typebot.io/typebot/schemas/resultsFilter";
 import type { Typebot } from "@typebot.io/typebot/schemas/typebot";
 import type { ReactNode } from "react";
-import { createContext, useContext, useMemo } from "react";
+import { createContext, useContext, useMemo, useState } from "react";
 import { orpc } from "@/lib/queryClient";
 import type { timeFilterValues } from "../analytics/constants";
 import { useTypebot } from "../editor/providers/TypebotProvider";
@@ -26,6 +27,8 @@ const resultsContext = createContext<{
   resultHeader: ResultHeaderCell[];
   totalResults: number;
   tableData: TableData[];
+  filter: ResultsFilter;
+  setFilter: (filter: ResultsFilter) => void;
   onDeleteResults: (totalResultsDeleted: number) => void;
   fetchNextPage: () => void;
   refetchResults: () => void;
@@ -46,6 +49,7 @@ export const ResultsProvider = ({
   onDeleteResults: (totalResultsDeleted: number) => void;
 }) => {
   const { publishedTypebot } = useTypebot();
+  const [filter, setFilter] = useState<ResultsFilter>({});
   const {
     data: resultsData,
     fetchNextPage,
@@ -58,6 +62,7 @@ export const ResultsProvider = ({
         timeZone,
         timeFilter,
         typebotId,
+        filter,
       }),
       initialPageParam: 0,
       getNextPageParam: (lastPage) => lastPage.nextCursor,
@@ -131,6 +136,8 @@ export const ResultsProvider = ({
         tableData,
         resultHeader,
         totalResults,
+        filter,
+        setFilter,
         onDeleteResults,
         fetchNextPage,
         refetchResults: refetch,
@@ -0,0 +1,56 @@
+import { randomBytes } from "node:crypto";
+import { ORPCError } from "@orpc/server";
+import prisma from "@typebot.io/prisma";
+import { MAX_RESULT_WEBHOOKS_PER_WORKSPACE } from "@typebot.io/results/constants";
+import {
+  type ResultWebhook,
+  resultWebhookInputSchema,
+} from "@typebot.io/results/schemas/webhooks";
+import type { User } from "@typebot.io/user/schemas";
+import { z } from "@typebot.io/zod";
+import {
+  assertTypebotIsInWorkspace,
+  findWorkspaceForResultWebhooks,
+} from "../helpers/findWorkspaceForResultWebhooks";
+import {
+  parseResultWebhook,
+  resultWebhookSelect,
+} from "../helpers/parseResultWebhook";
+
+export const createResultWebhookInputSchema = z.object({
+  workspaceId: z.string(),
+  webhook: resultWebhookInputSchema,
+});
+
+export const handleCreateResultWebhook = async ({
+  input: { workspaceId, webhook },
+  context: { user },
+}: {
+  input: z.infer<typeof createResultWebhookInputSchema>;
+  context: { user: Pick<User, "id"> };
+}): Promise<{ webhook: ResultWebhook }> => {
+  await findWorkspaceForResultWebhooks(workspaceId, user);
+  await assertTypebotIsInWorkspace({
+    typebotId: webhook.typebotId,
+    workspaceId,
+  });
+
+  const webhooksCount = await prisma.resultWebhook.count({
+    where: { workspaceId },
+  });
+  if (webhooksCount >= MAX_RESULT_WEBHOOKS_PER_WORKSPACE)
+    throw new ORPCError("BAD_REQUEST", {
+      message: `A workspace can't have more than ${MAX_RESULT_WEBHOOKS_PER_WORKSPACE} webhooks`,
+    });
+
+  const createdWebhook = await prisma.resultWebhook.create({
+    data: {
+      ...webhook,
+      workspaceId,
+      secret: `whsec_${randomBytes(24).toString("hex")}`,
+    },
+    select: resultWebhookSelect,
+  });
+
+  return { webhook: parseResultWebhook(createdWebhook) };
+};
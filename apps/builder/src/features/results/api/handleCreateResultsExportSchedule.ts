@@ -0,0 +1,69 @@
+import { ORPCError } from "@orpc/server";
+import prisma from "@typebot.io/prisma";
+import {
+  type ResultsExportSchedule,
+  resultsExportScheduleInputSchema,
+} from "@typebot.io/results/schemas/exportSchedules";
+import type { User } from "@typebot.io/user/schemas";
+import { z } from "@typebot.io/zod";
+import { isWriteTypebotForbidden } from "@/features/typebot/helpers/isWriteTypebotForbidden";
+import {
+  parseResultsExportSchedule,
+  resultsExportScheduleSelect,
+} from "../helpers/parseResultsExportSchedule";
+import { parseResultsExportScheduleData } from "../helpers/parseResultsExportScheduleData";
+
+export const createResultsExportScheduleInputSchema = z.object({
+  typebotId: z.string(),
+  schedule: resultsExportScheduleInputSchema,
+});
+
+export const handleCreateResultsExportSchedule = async ({
+  input: { typebotId, schedule },
+  context: { user },
+}: {
+  input: z.infer<typeof createResultsExportScheduleInputSchema>;
+  context: { user: Pick<User, "id"> };
+}): Promise<{ schedule: ResultsExportSchedule }> => {
+  const typebot = await prisma.typebot.findUnique({
+    where: {
+      id: typebotId,
+    },
+    select: {
+      workspace: {
+        select: {
+          id: true,
+          isSuspended: true,
+          isPastDue: true,
+          members: {
+            select: {
+              userId: true,
+              role: true,
+            },
+          },
+        },
+      },
+      collaborators: {
+        select: {
+          userId: true,
+          type: true,
+        },
+      },
+    },
+  });
+  if (!typebot || (await isWriteTypebotForbidden(typebot, user)))
+    throw new ORPCError("NOT_FOUND", { message: "Typebot not found" });
+
+  const createdSchedule = await prisma.resultsExportSchedule.create({
+    data: {
+      typebotId,
+      ...(await parseResultsExportScheduleData({
+        schedule,
+        workspaceId: typebot.workspace.id,
+      })),
+    },
+    select: resultsExportScheduleSelect,
+  });
+
+  return { schedule: parseResultsExportSchedule(createdSchedule) };
+};
@@ -0,0 +1,26 @@
+import { ORPCError } from "@orpc/server";
+import prisma from "@typebot.io/prisma";
+import type { User } from "@typebot.io/user/schemas";
+import { z } from "@typebot.io/zod";
+import { findWorkspaceForResultWebhooks } from "../helpers/findWorkspaceForResultWebhooks";
+
+export const deleteResultWebhookInputSchema = z.object({
+  workspaceId: z.string(),
+  webhookId: z.string(),
+});
+
+export const handleDeleteResultWebhook = async ({
+  input: { workspaceId, webhookId },
+  context: { user },
+}: {
+  input: z.infer<typeof deleteResultWebhookInputSchema>;
+  context: { user: Pick<User, "id"> };
+}) => {
+  await findWorkspaceForResultWebhooks(workspaceId, user);
+
+  const { count } = await prisma.resultWebhook.deleteMany({
+    where: { id: webhookId, workspaceId },
+  });
+  if (count === 0)
+    throw new ORPCError("NOT_FOUND", { message: "Webhook not found" });
+};
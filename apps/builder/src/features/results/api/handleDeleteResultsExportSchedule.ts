@@ -0,0 +1,52 @@
+import { ORPCError } from "@orpc/server";
+import prisma from "@typebot.io/prisma";
+import type { User } from "@typebot.io/user/schemas";
+import { z } from "@typebot.io/zod";
+import { isWriteTypebotForbidden } from "@/features/typebot/helpers/isWriteTypebotForbidden";
+
+export const deleteResultsExportScheduleInputSchema = z.object({
+  typebotId: z.string(),
+  scheduleId: z.string(),
+});
+
+export const handleDeleteResultsExportSchedule = async ({
+  input: { typebotId, scheduleId },
+  context: { user },
+}: {
+  input: z.infer<typeof deleteResultsExportScheduleInputSchema>;
+  context: { user: Pick<User, "id"> };
+}) => {
+  const typebot = await prisma.typebot.findUnique({
+    where: {
+      id: typebotId,
+    },
+    select: {
+      workspace: {
+        select: {
+          isSuspended: true,
+          isPastDue: true,
+          members: {
+            select: {
+              userId: true,
+              role: true,
+            },
+          },
+        },
+      },
+      collaborators: {
+        select: {
+          userId: true,
+          type: true,
+        },
+      },
+    },
+  });
+  if (!typebot || (await isWriteTypebotForbidden(typebot, user)))
+    throw new ORPCError("NOT_FOUND", { message: "Typebot not found" });
+
+  const { count } = await prisma.resultsExportSchedule.deleteMany({
+    where: { id: scheduleId, typebotId },
+  });
+  if (count === 0)
+    throw new ORPCError("NOT_FOUND", { message: "Schedule not found" });
+};
@@ -145,5 +145,26 @@ export const handleGetResultTranscript = async ({
     sessionStore: new SessionStore(),
   });
 
-  return { transcript };
+  const whatsAppMessages = await prisma.whatsAppMessage.findMany({
+    where: {
+      resultId: input.resultId,
+      typebotId: input.typebotId,
+      blockId: { not: null },
+    },
+    orderBy: { createdAt: "asc" },
+    select: { blockId: true, status: true },
+  });
+
+  // Matched in order because a block can be sent several times in a loop
+  return {
+    transcript: transcript.map((message) => {
+      if (message.role !== "bot" || !message.blockId) return message;
+      const index = whatsAppMessages.findIndex(
+        (whatsAppMessage) => whatsAppMessage.blockId === message.blockId,
+      );
+      if (index === -1) return message;
+      const [{ status }] = whatsAppMessages.splice(index, 1);
+      return { ...message, deliveryStatus: status };
+    }),
+  };
 };
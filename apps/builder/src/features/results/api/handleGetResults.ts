@@ -1,8 +1,22 @@
 import { ORPCError } from "@orpc/server";
+import { parseGroups } from "@typebot.io/groups/helpers/parseGroups";
+import type { GroupV6 } from "@typebot.io/groups/schemas";
 import { isDefined } from "@typebot.io/lib/utils";
 import prisma from "@typebot.io/prisma";
-import { resultWithAnswersSchema } from "@typebot.io/results/schemas/results";
+import {
+  filterResults,
+  isResultsFilterInMemory,
+  parseResultsFilterWhereInput,
+} from "@typebot.io/results/filterResults";
+import { parseBlockIdVariableIdMap } from "@typebot.io/results/parseBlockIdVariableIdMap";
+import { parseResultHeader } from "@typebot.io/results/parseResultHeader";
+import {
+  type ResultWithAnswers,
+  resultWithAnswersSchema,
+} from "@typebot.io/results/schemas/results";
 import { isReadTypebotForbidden } from "@typebot.io/typebot/helpers/isReadTypebotForbidden";
+import { resultsFilterSchema } from "@typebot.io/typebot/schemas/resultsFilter";
+import { typebotV6Schema } from "@typebot.io/typebot/schemas/typebot";
 import type { User } from "@typebot.io/user/schemas";
 import { z } from "@typebot.io/zod";
 import {
@@ -13,8 +27,13 @@ import {
   parseFromDateFromTimeFilter,
   parseToDateFromTimeFilter,
 } from "@/features/analytics/helpers/parseDateFromTimeFilter";
+import { fetchLinkedTypebots } from "@/features/blocks/logic/typebotLink/helpers/fetchLinkedTypebots";
 
 const MAX_LIMIT = 500;
+const FILTER_SCAN_BATCH_SIZE = 500;
+// Caps the rows scanned per page when filtering on answers, the returned
+// cursor lets the client continue the scan on the next page.
+const MAX_FILTER_SCANNED_RESULTS = 5000;
 
 export const getResultsInputSchema = z.object({
   typebotId: z
@@ -26,6 +45,7 @@ export const getResultsInputSchema = z.object({
   cursor: z.coerce.number().optional(),
   timeFilter: z.enum(timeFilterValues).default(defaultTimeFilter),
   timeZone: z.string().optional(),
+  filter: resultsFilterSchema.optional(),
 });
 
 export const handleGetResults = async ({
@@ -47,7 +67,9 @@ export const handleGetResults = async ({
     },
     select: {
       id: true,
+      version: true,
       groups: true,
+      variables: true,
       collaborators: {
         select: {
           userId: true,
@@ -76,55 +98,110 @@ export const handleGetResults = async ({
   );
   const toDate = parseToDateFromTimeFilter(input.timeFilter, input.timeZone);
 
-  const results = await prisma.result.findMany({
-    take: limit + 1,
-    skip: cursor,
-    where: {
-      typebotId: typebot.id,
-      hasStarted: true,
-      isArchived: false,
-      createdAt: fromDate
-        ? {
-            gte: fromDate,
-            lte: toDate ?? undefined,
-          }
-        : undefined,
-    },
-    orderBy: {
-      createdAt: "desc",
-    },
-    include: {
-      answers: {
-        select: {
-          blockId: true,
-          content: true,
-          createdAt: true,
-        },
-      },
-      answersV2: {
-        select: {
-          blockId: true,
-          content: true,
-          createdAt: true,
-        },
-      },
+  const findResults = async ({ skip, take }: { skip?: number; take: number }) =>
+    z.array(resultWithAnswersSchema).parse(
+      (
+        await prisma.result.findMany({
+          take,
+          skip,
+          where: {
+            typebotId: typebot.id,
+            hasStarted: true,
+            isArchived: false,
+            createdAt: fromDate
+              ? {
+                  gte: fromDate,
+                  lte: toDate ?? undefined,
+                }
+              : undefined,
+            ...parseResultsFilterWhereInput(input.filter),
+          },
+          orderBy: {
+            createdAt: "desc",
+          },
+          include: {
+            answers: {
+              select: {
+                blockId: true,
+                content: true,
+                createdAt: true,
+              },
+            },
+            answersV2: {
+              select: {
+                blockId: true,
+                content: true,
+                createdAt: true,
+              },
+            },
+          },
+        })
+      ).map((r) => ({
+        ...r,
+        answers: r.answersV2
+          .concat(r.answers)
+          .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime()),
+      })),
+    );
+
+  if (!isResultsFilterInMemory(input.filter)) {
+    const results = await findResults({ skip: cursor, take: limit + 1 });
+
+    let nextCursor: number | undefined;
+    if (results.length > limit && isDefined(cursor)) {
+      nextCursor = cursor + limit;
+    }
+
+    return { results, nextCursor };
+  }
+
+  const groups = parseGroups(typebot.groups, {
+    typebotVersion: typebot.version,
+  }) as GroupV6[];
+  const headerCells = parseResultHeader({
+    typebot: {
+      groups,
+      variables: typebotV6Schema.shape.variables.parse(typebot.variables),
     },
+    linkedTypebots: await fetchLinkedTypebots({ groups }, user),
   });
+  const blockIdVariableIdMap = parseBlockIdVariableIdMap(groups);
 
+  const startOffset = cursor ?? 0;
+  let offset = startOffset;
   let nextCursor: number | undefined;
-  if (results.length > limit && isDefined(cursor)) {
-    nextCursor = cursor + limit;
+  const results: ResultWithAnswers[] = [];
+  while (true) {
+    const batch = await findResults({
+      skip: offset,
+      take: FILTER_SCAN_BATCH_SIZE,
+    });
+    const matchingIds = new Set(
+      filterResults({
+        results: batch,
+        filter: input.filter,
+        headerCells,
+        blockIdVariableIdMap,
+      }).map((result) => result.id),
+    );
+    for (const [index, result] of batch.entries()) {
+      if (!matchingIds.has(result.id)) continue;
+      if (results.length === limit) {
+        nextCursor = offset + index;
+        break;
+      }
+      results.push(result);
+    }
+    if (isDefined(nextCursor) || batch.length < FILTER_SCAN_BATCH_SIZE) break;
+    offset += batch.length;
+    if (offset - startOffset >= MAX_FILTER_SCANNED_RESULTS) {
+      nextCursor = offset;
+      break;
+    }
   }
 
   return {
-    results: z.array(resultWithAnswersSchema).parse(
-      results.map((r) => ({
-        ...r,
-        answers: r.answersV2
-          .concat(r.answers)
-          .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime()),
-      })),
-    ),
-    nextCursor,
+    results,
+    nextCursor: isDefined(cursor) ? nextCursor : undefined,
   };
 };
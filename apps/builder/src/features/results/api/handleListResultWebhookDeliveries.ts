@@ -0,0 +1,52 @@
+import { ORPCError } from "@orpc/server";
+import prisma from "@typebot.io/prisma";
+import {
+  type ResultWebhookDelivery,
+  resultWebhookDeliverySchema,
+} from "@typebot.io/results/schemas/webhooks";
+import type { User } from "@typebot.io/user/schemas";
+import { z } from "@typebot.io/zod";
+import { findWorkspaceForResultWebhooks } from "../helpers/findWorkspaceForResultWebhooks";
+
+export const listResultWebhookDeliveriesInputSchema = z.object({
+  workspaceId: z.string(),
+  webhookId: z.string(),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+});
+
+export const handleListResultWebhookDeliveries = async ({
+  input: { workspaceId, webhookId, limit },
+  context: { user },
+}: {
+  input: z.infer<typeof listResultWebhookDeliveriesInputSchema>;
+  context: { user: Pick<User, "id"> };
+}): Promise<{ deliveries: ResultWebhookDelivery[] }> => {
+  await findWorkspaceForResultWebhooks(workspaceId, user);
+
+  const webhook = await prisma.resultWebhook.findFirst({
+    where: { id: webhookId, workspaceId },
+    select: {
+      deliveries: {
+        orderBy: { createdAt: "desc" },
+        take: limit,
+        select: {
+          id: true,
+          createdAt: true,
+          resultId: true,
+          event: true,
+          status: true,
+          attempts: true,
+          responseStatus: true,
+          error: true,
+          lastAttemptAt: true,
+        },
+      },
+    },
+  });
+  if (!webhook)
+    throw new ORPCError("NOT_FOUND", { message: "Webhook not found" });
+
+  return {
+    deliveries: z.array(resultWebhookDeliverySchema).parse(webhook.deliveries),
+  };
+};
@@ -0,0 +1,40 @@
+import prisma from "@typebot.io/prisma";
+import type { ResultWebhook } from "@typebot.io/results/schemas/webhooks";
+import type { User } from "@typebot.io/user/schemas";
+import { z } from "@typebot.io/zod";
+import { findWorkspaceForResultWebhooks } from "../helpers/findWorkspaceForResultWebhooks";
+import {
+  parseResultWebhook,
+  resultWebhookSelect,
+} from "../helpers/parseResultWebhook";
+
+export const listResultWebhooksInputSchema = z.object({
+  workspaceId: z.string(),
+  typebotId: z
+    .string()
+    .optional()
+    .describe(
+      "If provided, only returns the webhooks triggered by this bot, including the workspace-level ones.",
+    ),
+});
+
+export const handleListResultWebhooks = async ({
+  input: { workspaceId, typebotId },
+  context: { user },
+}: {
+  input: z.infer<typeof listResultWebhooksInputSchema>;
+  context: { user: Pick<User, "id"> };
+}): Promise<{ webhooks: ResultWebhook[] }> => {
+  await findWorkspaceForResultWebhooks(workspaceId, user);
+
+  const webhooks = await prisma.resultWebhook.findMany({
+    where: {
+      workspaceId,
+      OR: typebotId ? [{ typebotId: null }, { typebotId }] : undefined,
+    },
+    orderBy: { createdAt: "asc" },
+    select: resultWebhookSelect,
+  });
+
+  return { webhooks: webhooks.map(parseResultWebhook) };
+};
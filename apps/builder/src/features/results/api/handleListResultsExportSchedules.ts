@@ -0,0 +1,56 @@
+import { ORPCError } from "@orpc/server";
+import prisma from "@typebot.io/prisma";
+import type { ResultsExportSchedule } from "@typebot.io/results/schemas/exportSchedules";
+import { isReadTypebotForbidden } from "@typebot.io/typebot/helpers/isReadTypebotForbidden";
+import type { User } from "@typebot.io/user/schemas";
+import { z } from "@typebot.io/zod";
+import {
+  parseResultsExportSchedule,
+  resultsExportScheduleSelect,
+} from "../helpers/parseResultsExportSchedule";
+
+export const listResultsExportSchedulesInputSchema = z.object({
+  typebotId: z.string(),
+});
+
+export const handleListResultsExportSchedules = async ({
+  input: { typebotId },
+  context: { user },
+}: {
+  input: z.infer<typeof listResultsExportSchedulesInputSchema>;
+  context: { user: Pick<User, "id" | "email"> };
+}): Promise<{ schedules: ResultsExportSchedule[] }> => {
+  const typebot = await prisma.typebot.findFirst({
+    where: {
+      id: typebotId,
+    },
+    select: {
+      workspace: {
+        select: {
+          isSuspended: true,
+          isPastDue: true,
+          members: {
+            select: {
+              userId: true,
+            },
+          },
+        },
+      },
+      collaborators: {
+        select: {
+          userId: true,
+        },
+      },
+    },
+  });
+  if (!typebot || (await isReadTypebotForbidden(typebot, user)))
+    throw new ORPCError("NOT_FOUND", { message: "Typebot not found" });
+
+  const schedules = await prisma.resultsExportSchedule.findMany({
+    where: { typebotId },
+    orderBy: { createdAt: "asc" },
+    select: resultsExportScheduleSelect,
+  });
+
+  return { schedules: schedules.map(parseResultsExportSchedule) };
+};
@@ -7,16 +7,20 @@ import {
   type exportResultsEventDataSchema,
 } from "@typebot.io/inngest/functions/exportResults";
 import prisma from "@typebot.io/prisma";
+import { resultsExportFormats } from "@typebot.io/results/constants";
 import { isReadTypebotForbidden } from "@typebot.io/typebot/helpers/isReadTypebotForbidden";
+import { resultsFilterSchema } from "@typebot.io/typebot/schemas/resultsFilter";
 import type { User } from "@typebot.io/user/schemas";
 import { z } from "@typebot.io/zod";
 
 export const triggerExportJobInputSchema = z.object({
   typebotId: z.string(),
+  format: z.enum(resultsExportFormats).optional(),
+  filter: resultsFilterSchema.optional(),
 });
 
 export const handleTriggerExportJob = async ({
-  input: { typebotId },
+  input: { typebotId, format, filter },
   context: { user },
 }: {
   input: z.infer<typeof triggerExportJobInputSchema>;
@@ -64,6 +68,8 @@ export const handleTriggerExportJob = async ({
     data: {
       userId: user.id,
       typebotId,
+      format,
+      filter,
     } satisfies z.infer<typeof exportResultsEventDataSchema>,
   });
 
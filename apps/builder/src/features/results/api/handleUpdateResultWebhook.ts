@@ -0,0 +1,51 @@
+import { ORPCError } from "@orpc/server";
+import prisma from "@typebot.io/prisma";
+import {
+  type ResultWebhook,
+  resultWebhookInputSchema,
+} from "@typebot.io/results/schemas/webhooks";
+import type { User } from "@typebot.io/user/schemas";
+import { z } from "@typebot.io/zod";
+import {
+  assertTypebotIsInWorkspace,
+  findWorkspaceForResultWebhooks,
+} from "../helpers/findWorkspaceForResultWebhooks";
+import {
+  parseResultWebhook,
+  resultWebhookSelect,
+} from "../helpers/parseResultWebhook";
+
+export const updateResultWebhookInputSchema = z.object({
+  workspaceId: z.string(),
+  webhookId: z.string(),
+  webhook: resultWebhookInputSchema,
+});
+
+export const handleUpdateResultWebhook = async ({
+  input: { workspaceId, webhookId, webhook },
+  context: { user },
+}: {
+  input: z.infer<typeof updateResultWebhookInputSchema>;
+  context: { user: Pick<User, "id"> };
+}): Promise<{ webhook: ResultWebhook }> => {
+  await findWorkspaceForResultWebhooks(workspaceId, user);
+  await assertTypebotIsInWorkspace({
+    typebotId: webhook.typebotId,
+    workspaceId,
+  });
+
+  const existingWebhook = await prisma.resultWebhook.findFirst({
+    where: { id: webhookId, workspaceId },
+    select: { id: true },
+  });
+  if (!existingWebhook)
+    throw new ORPCError("NOT_FOUND", { message: "Webhook not found" });
+
+  const updatedWebhook = await prisma.resultWebhook.update({
+    where: { id: webhookId },
+    data: webhook,
+    select: resultWebhookSelect,
+  });
+
+  return { webhook: parseResultWebhook(updatedWebhook) };
+};
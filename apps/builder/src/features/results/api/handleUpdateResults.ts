@@ -0,0 +1,109 @@
+import { ORPCError } from "@orpc/server";
+import { isDefined } from "@typebot.io/lib/utils";
+import prisma from "@typebot.io/prisma";
+import { ResultStatus } from "@typebot.io/prisma/enum";
+import {
+  MAX_RESULT_NOTES_LENGTH,
+  MAX_RESULT_TAG_LENGTH,
+  MAX_RESULT_TAGS,
+} from "@typebot.io/results/constants";
+import { mergeResultTags } from "@typebot.io/results/mergeResultTags";
+import { resultSchema } from "@typebot.io/results/schemas/results";
+import type { User } from "@typebot.io/user/schemas";
+import { z } from "@typebot.io/zod";
+import { isWriteTypebotForbidden } from "@/features/typebot/helpers/isWriteTypebotForbidden";
+
+const MAX_UPDATED_RESULTS = 500;
+
+const tagsSchema = z
+  .array(z.string().trim().min(1).max(MAX_RESULT_TAG_LENGTH))
+  .max(MAX_RESULT_TAGS);
+
+export const updateResultsInputSchema = z.object({
+  typebotId: z
+    .string()
+    .describe(
+      "[Where to find my bot's ID?](../how-to#how-to-find-my-typebotid)",
+    ),
+  resultIds: z.array(z.string()).min(1).max(MAX_UPDATED_RESULTS),
+  status: z.nativeEnum(ResultStatus).optional(),
+  notes: z.string().max(MAX_RESULT_NOTES_LENGTH).nullable().optional(),
+  tags: tagsSchema.optional().describe("Replaces the tags of the results"),
+  tagsToAdd: tagsSchema.optional(),
+  tagsToRemove: tagsSchema.optional(),
+});
+
+export const handleUpdateResults = async ({
+  input: { typebotId, resultIds, status, notes, tags, tagsToAdd, tagsToRemove },
+  context: { user },
+}: {
+  input: z.infer<typeof updateResultsInputSchema>;
+  context: { user: Pick<User, "id"> };
+}) => {
+  const typebot = await prisma.typebot.findUnique({
+    where: {
+      id: typebotId,
+    },
+    select: {
+      workspace: {
+        select: {
+          isSuspended: true,
+          isPastDue: true,
+          members: {
+            select: {
+              userId: true,
+              role: true,
+            },
+          },
+        },
+      },
+      collaborators: {
+        select: {
+          userId: true,
+          type: true,
+        },
+      },
+    },
+  });
+  if (!typebot || (await isWriteTypebotForbidden(typebot, user)))
+    throw new ORPCError("NOT_FOUND", { message: "Typebot not found" });
+
+  const data = {
+    status,
+    notes: isDefined(notes) ? notes.trim() || null : notes,
+  };
+
+  if (!tags && !tagsToAdd?.length && !tagsToRemove?.length) {
+    const { count } = await prisma.result.updateMany({
+      where: { id: { in: resultIds }, typebotId },
+      data,
+    });
+    if (count === 0)
+      throw new ORPCError("NOT_FOUND", { message: "Results not found" });
+    return;
+  }
+
+  const results = await prisma.result.findMany({
+    where: { id: { in: resultIds }, typebotId },
+    select: { id: true, tags: true },
+  });
+  if (results.length === 0)
+    throw new ORPCError("NOT_FOUND", { message: "Results not found" });
+
+  await prisma.$transaction(
+    results.map((result) =>
+      prisma.result.update({
+        where: { id: result.id },
+        data: {
+          ...data,
+          tags: mergeResultTags({
+            tags:
+              tags ?? resultSchema.shape.tags.catch(null).parse(result.tags),
+            tagsToAdd,
+            tagsToRemove,
+          }),
+        },
+      }),
+    ),
+  );
+};
@@ -0,0 +1,74 @@
+import { ORPCError } from "@orpc/server";
+import prisma from "@typebot.io/prisma";
+import {
+  type ResultsExportSchedule,
+  resultsExportScheduleInputSchema,
+} from "@typebot.io/results/schemas/exportSchedules";
+import type { User } from "@typebot.io/user/schemas";
+import { z } from "@typebot.io/zod";
+import { isWriteTypebotForbidden } from "@/features/typebot/helpers/isWriteTypebotForbidden";
+import {
+  parseResultsExportSchedule,
+  resultsExportScheduleSelect,
+} from "../helpers/parseResultsExportSchedule";
+import { parseResultsExportScheduleData } from "../helpers/parseResultsExportScheduleData";
+
+export const updateResultsExportScheduleInputSchema = z.object({
+  typebotId: z.string(),
+  scheduleId: z.string(),
+  schedule: resultsExportScheduleInputSchema,
+});
+
+export const handleUpdateResultsExportSchedule = async ({
+  input: { typebotId, scheduleId, schedule },
+  context: { user },
+}: {
+  input: z.infer<typeof updateResultsExportScheduleInputSchema>;
+  context: { user: Pick<User, "id"> };
+}): Promise<{ schedule: ResultsExportSchedule }> => {
+  const typebot = await prisma.typebot.findUnique({
+    where: {
+      id: typebotId,
+    },
+    select: {
+      workspace: {
+        select: {
+          id: true,
+          isSuspended: true,
+          isPastDue: true,
+          members: {
+            select: {
+              userId: true,
+              role: true,
+            },
+          },
+        },
+      },
+      collaborators: {
+        select: {
+          userId: true,
+          type: true,
+        },
+      },
+      resultsExportSchedules: {
+        where: { id: scheduleId },
+        select: { id: true },
+      },
+    },
+  });
+  if (!typebot || (await isWriteTypebotForbidden(typebot, user)))
+    throw new ORPCError("NOT_FOUND", { message: "Typebot not found" });
+  if (typebot.resultsExportSchedules.length === 0)
+    throw new ORPCError("NOT_FOUND", { message: "Schedule not found" });
+
+  const updatedSchedule = await prisma.resultsExportSchedule.update({
+    where: { id: scheduleId },
+    data: await parseResultsExportScheduleData({
+      schedule,
+      workspaceId: typebot.workspace.id,
+    }),
+    select: resultsExportScheduleSelect,
+  });
+
+  return { schedule: parseResultsExportSchedule(updatedSchedule) };
+};
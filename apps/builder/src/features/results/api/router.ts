@@ -1,11 +1,33 @@
 import { authenticatedProcedure } from "@typebot.io/config/orpc/builder/middlewares";
 import { logSchema } from "@typebot.io/logs/schemas";
+import { WhatsAppMessageStatus } from "@typebot.io/prisma/enum";
+import { resultsExportScheduleSchema } from "@typebot.io/results/schemas/exportSchedules";
 import { resultWithAnswersSchema } from "@typebot.io/results/schemas/results";
+import {
+  resultWebhookDeliverySchema,
+  resultWebhookSchema,
+} from "@typebot.io/results/schemas/webhooks";
 import { z } from "@typebot.io/zod";
+import {
+  createResultsExportScheduleInputSchema,
+  handleCreateResultsExportSchedule,
+} from "./handleCreateResultsExportSchedule";
+import {
+  createResultWebhookInputSchema,
+  handleCreateResultWebhook,
+} from "./handleCreateResultWebhook";
 import {
   deleteResultsInputSchema,
   handleDeleteResults,
 } from "./handleDeleteResults";
+import {
+  deleteResultsExportScheduleInputSchema,
+  handleDeleteResultsExportSchedule,
+} from "./handleDeleteResultsExportSchedule";
+import {
+  deleteResultWebhookInputSchema,
+  handleDeleteResultWebhook,
+} from "./handleDeleteResultWebhook";
 import { getResultInputSchema, handleGetResult } from "./handleGetResult";
 import {
   getResultBlockFileInputSchema,
@@ -24,12 +46,36 @@ import {
   getResultTranscriptInputSchema,
   handleGetResultTranscript,
 } from "./handleGetResultTranscript";
+import {
+  handleListResultsExportSchedules,
+  listResultsExportSchedulesInputSchema,
+} from "./handleListResultsExportSchedules";
+import {
+  handleListResultWebhookDeliveries,
+  listResultWebhookDeliveriesInputSchema,
+} from "./handleListResultWebhookDeliveries";
+import {
+  handleListResultWebhooks,
+  listResultWebhooksInputSchema,
+} from "./handleListResultWebhooks";
 import { handleTriggerCancelExport } from "./handleTriggerCancelExport";
 import {
   handleTriggerExportJob,
   triggerExportJobInputSchema,
 } from "./handleTriggerExportJob";
 import { handleTriggerSendExportResultsToEmail } from "./handleTriggerSendExportResultsToEmail";
+import {
+  handleUpdateResults,
+  updateResultsInputSchema,
+} from "./handleUpdateResults";
+import {
+  handleUpdateResultsExportSchedule,
+  updateResultsExportScheduleInputSchema,
+} from "./handleUpdateResultsExportSchedule";
+import {
+  handleUpdateResultWebhook,
+  updateResultWebhookInputSchema,
+} from "./handleUpdateResultWebhook";
 
 export const resultsRouter = {
   getResults: authenticatedProcedure
@@ -81,6 +127,10 @@ export const resultsRouter = {
             image: z.string().optional(),
             video: z.string().optional(),
             audio: z.string().optional(),
+            deliveryStatus: z
+              .nativeEnum(WhatsAppMessageStatus)
+              .optional()
+              .describe("Delivery status of the message sent on WhatsApp"),
           }),
         ),
       }),
@@ -108,6 +158,17 @@ export const resultsRouter = {
     .input(deleteResultsInputSchema)
     .output(z.void())
     .handler(handleDeleteResults),
+
+  updateResults: authenticatedProcedure
+    .route({
+      method: "PATCH",
+      path: "/v1/typebots/{typebotId}/results",
+      summary: "Update results status, tags and notes",
+      tags: ["Results"],
+    })
+    .input(updateResultsInputSchema)
+    .output(z.void())
+    .handler(handleUpdateResults),
   getResultFile: authenticatedProcedure
     .route({
       method: "GET",
@@ -170,4 +231,111 @@ export const resultsRouter = {
   triggerCancelExport: authenticatedProcedure.handler(
     handleTriggerCancelExport,
   ),
+
+  listResultsExportSchedules: authenticatedProcedure
+    .route({
+      method: "GET",
+      path: "/v1/typebots/{typebotId}/export-schedules",
+      summary: "List scheduled exports",
+      description:
+        "List the recurring results exports of a typebot with their latest runs.",
+      tags: ["Results"],
+    })
+    .input(listResultsExportSchedulesInputSchema)
+    .output(z.object({ schedules: z.array(resultsExportScheduleSchema) }))
+    .handler(handleListResultsExportSchedules),
+
+  createResultsExportSchedule: authenticatedProcedure
+    .route({
+      method: "POST",
+      path: "/v1/typebots/{typebotId}/export-schedules",
+      summary: "Create scheduled export",
+      description:
+        "Export the results on a recurring schedule, either by email or to an S3-compatible bucket.",
+      tags: ["Results"],
+    })
+    .input(createResultsExportScheduleInputSchema)
+    .output(z.object({ schedule: resultsExportScheduleSchema }))
+    .handler(handleCreateResultsExportSchedule),
+
+  updateResultsExportSchedule: authenticatedProcedure
+    .route({
+      method: "PATCH",
+      path: "/v1/typebots/{typebotId}/export-schedules/{scheduleId}",
+      summary: "Update scheduled export",
+      tags: ["Results"],
+    })
+    .input(updateResultsExportScheduleInputSchema)
+    .output(z.object({ schedule: resultsExportScheduleSchema }))
+    .handler(handleUpdateResultsExportSchedule),
+
+  deleteResultsExportSchedule: authenticatedProcedure
+    .route({
+      method: "DELETE",
+      path: "/v1/typebots/{typebotId}/export-schedules/{scheduleId}",
+      summary: "Delete scheduled export",
+      tags: ["Results"],
+    })
+    .input(deleteResultsExportScheduleInputSchema)
+    .output(z.void())
+    .handler(handleDeleteResultsExportSchedule),
+
+  listResultWebhooks: authenticatedProcedure
+    .route({
+      method: "GET",
+      path: "/v1/workspaces/{workspaceId}/result-webhooks",
+      summary: "List result webhooks",
+      tags: ["Results"],
+    })
+    .input(listResultWebhooksInputSchema)
+    .output(z.object({ webhooks: z.array(resultWebhookSchema) }))
+    .handler(handleListResultWebhooks),
+
+  createResultWebhook: authenticatedProcedure
+    .route({
+      method: "POST",
+      path: "/v1/workspaces/{workspaceId}/result-webhooks",
+      summary: "Create result webhook",
+      description:
+        "Sends the result with its answers to the URL when it is created, answered, completed or abandoned. Requests are signed with the webhook secret and retried with backoff.",
+      tags: ["Results"],
+    })
+    .input(createResultWebhookInputSchema)
+    .output(z.object({ webhook: resultWebhookSchema }))
+    .handler(handleCreateResultWebhook),
+
+  updateResultWebhook: authenticatedProcedure
+    .route({
+      method: "PATCH",
+      path: "/v1/workspaces/{workspaceId}/result-webhooks/{webhookId}",
+      summary: "Update result webhook",
+      tags: ["Results"],
+    })
+    .input(updateResultWebhookInputSchema)
+    .output(z.object({ webhook: resultWebhookSchema }))
+    .handler(handleUpdateResultWebhook),
+
+  deleteResultWebhook: authenticatedProcedure
+    .route({
+      method: "DELETE",
+      path: "/v1/workspaces/{workspaceId}/result-webhooks/{webhookId}",
+      summary: "Delete result webhook",
+      tags: ["Results"],
+    })
+    .input(deleteResultWebhookInputSchema)
+    .output(z.void())
+    .handler(handleDeleteResultWebhook),
+
+  listResultWebhookDeliveries: authenticatedProcedure
+    .route({
+      method: "GET",
+      path: "/v1/workspaces/{workspaceId}/result-webhooks/{webhookId}/deliveries",
+      summary: "List result webhook deliveries",
+      description:
+        "List the latest deliveries of a webhook with their status and last error.",
+      tags: ["Results"],
+    })
+    .input(listResultWebhookDeliveriesInputSchema)
+    .output(z.object({ deliveries: z.array(resultWebhookDeliverySchema) }))
+    .handler(handleListResultWebhookDeliveries),
 };
@@ -1,13 +1,22 @@
 import type { ResultHeaderCell } from "@typebot.io/results/schemas/results";
 import { AlarmClockIcon } from "@typebot.io/ui/icons/AlarmClockIcon";
+import { Flag02Icon } from "@typebot.io/ui/icons/Flag02Icon";
 import { SourceCodeIcon } from "@typebot.io/ui/icons/SourceCodeIcon";
+import { Tag01Icon } from "@typebot.io/ui/icons/Tag01Icon";
+import { TextAlignLeftIcon } from "@typebot.io/ui/icons/TextAlignLeftIcon";
 import { BlockIcon } from "@/features/editor/components/BlockIcon";
 
-export const HeaderIcon = ({ header }: { header: ResultHeaderCell }) =>
-  header.blockType ? (
-    <BlockIcon type={header.blockType} />
-  ) : header.variableIds ? (
-    <SourceCodeIcon />
-  ) : (
-    <AlarmClockIcon />
-  );
+export const HeaderIcon = ({ header }: { header: ResultHeaderCell }) => {
+  if (header.blockType) return <BlockIcon type={header.blockType} />;
+  if (header.variableIds) return <SourceCodeIcon />;
+  switch (header.id) {
+    case "status":
+      return <Flag02Icon />;
+    case "tags":
+      return <Tag01Icon />;
+    case "notes":
+      return <TextAlignLeftIcon />;
+    default:
+      return <AlarmClockIcon />;
+  }
+};
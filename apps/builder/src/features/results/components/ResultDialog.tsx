@@ -16,6 +16,7 @@ import { useTypebot } from "@/features/editor/providers/TypebotProvider";
 import { orpc } from "@/lib/queryClient";
 import { useResults } from "../ResultsProvider";
 import { HeaderIcon } from "./HeaderIcon";
+import { ResultMetadataForm } from "./ResultMetadataForm";
 
 type Props = {
   resultId: string | null;
@@ -24,11 +25,14 @@ type Props = {
 
 export const ResultDialog = ({ resultId, onClose }: Props) => {
   const [tab, setTab] = useState<"transcript" | "answers">("transcript");
-  const { tableData, resultHeader } = useResults();
-  const { typebot } = useTypebot();
+  const { tableData, flatResults, resultHeader } = useResults();
+  const { typebot, currentUserMode } = useTypebot();
   const result = isDefined(resultId)
     ? tableData.find((data) => data.id.plainText === resultId)
     : undefined;
+  const rawResult = isDefined(resultId)
+    ? flatResults.find((result) => result.id === resultId)
+    : undefined;
 
   return (
     <Dialog.Root isOpen={isDefined(result)} onClose={onClose}>
@@ -36,6 +40,13 @@ export const ResultDialog = ({ resultId, onClose }: Props) => {
         <Dialog.Title>Result</Dialog.Title>
         <Dialog.CloseButton />
 
+        {currentUserMode === "write" && typebot?.id && rawResult && (
+          <ResultMetadataForm
+            key={rawResult.id}
+            typebotId={typebot.id}
+            result={rawResult}
+          />
+        )}
         <div className="flex items-center gap-2">
           <Button
             variant={tab === "transcript" ? "outline" : "ghost"}
@@ -119,6 +130,18 @@ const Transcript = ({
                   ? content
                   : `[${message.type.toUpperCase()}] ${content}`}
               </p>
+              {message.deliveryStatus && (
+                <p
+                  className={cx(
+                    "text-xs mt-1",
+                    message.deliveryStatus === "FAILED"
+                      ? "text-red-10"
+                      : "text-gray-10",
+                  )}
+                >
+                  {message.deliveryStatus.toLowerCase()}
+                </p>
+              )}
             </div>
           </div>
         );
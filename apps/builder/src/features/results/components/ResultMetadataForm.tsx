@@ -0,0 +1,86 @@
+import { useMutation } from "@tanstack/react-query";
+import { ResultStatus } from "@typebot.io/prisma/enum";
+import { resultStatusLabels } from "@typebot.io/results/constants";
+import type { ResultWithAnswers } from "@typebot.io/results/schemas/results";
+import { Field } from "@typebot.io/ui/components/Field";
+import { useState } from "react";
+import { BasicSelect } from "@/components/inputs/BasicSelect";
+import { DebouncedTextarea } from "@/components/inputs/DebouncedTextarea";
+import { TagsInput } from "@/components/TagsInput";
+import {
+  orpc,
+  queryClient,
+  showHttpRequestErrorToast,
+} from "@/lib/queryClient";
+
+type Props = {
+  typebotId: string;
+  result: Pick<ResultWithAnswers, "id" | "status" | "tags" | "notes">;
+};
+
+export const ResultMetadataForm = ({ typebotId, result }: Props) => {
+  const [status, setStatus] = useState(result.status);
+  const [tags, setTags] = useState(result.tags ?? []);
+
+  const { mutate: updateResult } = useMutation(
+    orpc.results.updateResults.mutationOptions({
+      onError: (error) => {
+        showHttpRequestErrorToast(error, {
+          context: "Could not update result",
+        });
+      },
+      onSuccess: () => {
+        queryClient.invalidateQueries({
+          queryKey: orpc.results.getResults.key(),
+        });
+      },
+    }),
+  );
+
+  const updateStatus = (status: ResultStatus) => {
+    setStatus(status);
+    updateResult({ typebotId, resultIds: [result.id], status });
+  };
+
+  const updateTags = (tags: string[]) => {
+    setTags(tags);
+    updateResult({ typebotId, resultIds: [result.id], tags });
+  };
+
+  const updateNotes = (notes: string) =>
+    updateResult({ typebotId, resultIds: [result.id], notes: notes || null });
+
+  return (
+    <div className="flex flex-col gap-4 p-4 rounded-md border">
+      <div className="flex gap-4">
+        <Field.Root className="w-40">
+          <Field.Label>Status</Field.Label>
+          <BasicSelect
+            value={status}
+            onChange={updateStatus}
+            items={Object.values(ResultStatus).map((status) => ({
+              label: resultStatusLabels[status],
+              value: status,
+            }))}
+          />
+        </Field.Root>
+        <Field.Root className="flex-1">
+          <Field.Label>Tags</Field.Label>
+          <TagsInput
+            items={tags}
+            onValueChange={updateTags}
+            placeholder="Add a tag..."
+          />
+        </Field.Root>
+      </div>
+      <Field.Root>
+        <Field.Label>Notes</Field.Label>
+        <DebouncedTextarea
+          defaultValue={result.notes ?? ""}
+          onValueChange={updateNotes}
+          placeholder="Write a note for your team..."
+        />
+      </Field.Root>
+    </div>
+  );
+};
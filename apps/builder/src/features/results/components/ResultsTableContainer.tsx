@@ -22,6 +22,8 @@ export const ResultsTableContainer = ({
     hasNextPage,
     resultHeader,
     tableData,
+    filter,
+    setFilter,
   } = useResults();
   const { typebot, publishedTypebot } = useTypebot();
   const [inspectingLogsResultId, setInspectingLogsResultId] = useState<
@@ -68,9 +70,11 @@ export const ResultsTableContainer = ({
           onScrollToBottom={fetchNextPage}
           hasMore={hasNextPage}
           timeFilter={timeFilter}
+          filter={filter}
           onLogOpenIndex={handleLogOpenIndex}
           onResultExpandIndex={handleResultExpandIndex}
           onTimeFilterChange={onTimeFilterChange}
+          onFilterChange={setFilter}
         />
       )}
     </div>
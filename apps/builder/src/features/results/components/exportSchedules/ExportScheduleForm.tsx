@@ -0,0 +1,250 @@
+import type { ResultsExportFormat } from "@typebot.io/results/constants";
+import { parseCronExpression } from "@typebot.io/results/getNextCronDate";
+import type {
+  ResultsExportDestination,
+  ResultsExportSchedule,
+} from "@typebot.io/results/schemas/exportSchedules";
+import { Button } from "@typebot.io/ui/components/Button";
+import { Field } from "@typebot.io/ui/components/Field";
+import { Input } from "@typebot.io/ui/components/Input";
+import { MoreInfoTooltip } from "@typebot.io/ui/components/MoreInfoTooltip";
+import { Switch } from "@typebot.io/ui/components/Switch";
+import { useOpenControls } from "@typebot.io/ui/hooks/useOpenControls";
+import { useState } from "react";
+import { BasicSelect } from "@/components/inputs/BasicSelect";
+import { CredentialsDropdown } from "@/features/credentials/components/CredentialsDropdown";
+import { useUser } from "@/features/user/hooks/useUser";
+import { S3CredentialsDialog } from "./S3CredentialsDialog";
+
+export type ExportScheduleFormValues = Pick<
+  ResultsExportSchedule,
+  | "isEnabled"
+  | "cronExpression"
+  | "timeZone"
+  | "format"
+  | "isIncremental"
+  | "destination"
+>;
+
+export const cronExpressionPresets = [
+  { label: "Every hour", value: "0 * * * *" },
+  { label: "Every day at 9:00", value: "0 9 * * *" },
+  { label: "Every Monday at 9:00", value: "0 9 * * 1" },
+  { label: "First day of the month at 9:00", value: "0 9 1 * *" },
+];
+
+const exportFormatItems: { label: string; value: ResultsExportFormat }[] = [
+  { label: "CSV", value: "csv" },
+  { label: "Excel (XLSX)", value: "xlsx" },
+  { label: "JSON Lines", value: "jsonl" },
+  { label: "Parquet", value: "parquet" },
+];
+
+const destinationTypeItems: {
+  label: string;
+  value: ResultsExportDestination["type"];
+}[] = [
+  { label: "Email", value: "email" },
+  { label: "S3 bucket", value: "s3" },
+];
+
+type Props = {
+  workspaceId: string;
+  defaultValues?: ExportScheduleFormValues;
+  isSubmitting: boolean;
+  onSubmit: (values: ExportScheduleFormValues) => void;
+  onCancel: () => void;
+};
+
+export const ExportScheduleForm = ({
+  workspaceId,
+  defaultValues,
+  isSubmitting,
+  onSubmit,
+  onCancel,
+}: Props) => {
+  const { user } = useUser();
+  const s3DialogControls = useOpenControls();
+  const [cronExpression, setCronExpression] = useState(
+    defaultValues?.cronExpression ?? cronExpressionPresets[2].value,
+  );
+  const [timeZone, setTimeZone] = useState(
+    defaultValues?.timeZone ?? Intl.DateTimeFormat().resolvedOptions().timeZone,
+  );
+  const [format, setFormat] = useState<ResultsExportFormat>(
+    defaultValues?.format ?? "csv",
+  );
+  const [isIncremental, setIsIncremental] = useState(
+    defaultValues?.isIncremental ?? true,
+  );
+  const [destinationType, setDestinationType] = useState<
+    ResultsExportDestination["type"]
+  >(defaultValues?.destination.type ?? "email");
+  const [emails, setEmails] = useState(
+    defaultValues?.destination.type === "email"
+      ? defaultValues.destination.emails.join(", ")
+      : (user?.email ?? ""),
+  );
+  const [credentialsId, setCredentialsId] = useState(
+    defaultValues?.destination.type === "s3"
+      ? defaultValues.destination.credentialsId
+      : undefined,
+  );
+  const [pathPrefix, setPathPrefix] = useState(
+    defaultValues?.destination.type === "s3"
+      ? (defaultValues.destination.pathPrefix ?? "")
+      : "",
+  );
+
+  const parsedEmails = emails
+    .split(",")
+    .map((email) => email.trim())
+    .filter(Boolean);
+  const isCronExpressionValid =
+    parseCronExpression(cronExpression) !== undefined;
+  const isDestinationValid =
+    destinationType === "email"
+      ? parsedEmails.length > 0
+      : credentialsId !== undefined;
+
+  const submit = () => {
+    if (destinationType === "s3" && !credentialsId) return;
+    onSubmit({
+      isEnabled: defaultValues?.isEnabled ?? true,
+      cronExpression: cronExpression.trim(),
+      timeZone: timeZone.trim() || undefined,
+      format,
+      isIncremental,
+      destination:
+        destinationType === "s3" && credentialsId
+          ? {
+              type: "s3",
+              credentialsId,
+              pathPrefix: pathPrefix.trim() || undefined,
+            }
+          : { type: "email", emails: parsedEmails },
+    });
+  };
+
+  return (
+    <div className="flex flex-col gap-4 p-4 rounded-md border">
+      <div className="flex gap-2 items-end">
+        <Field.Root className="flex-1">
+          <Field.Label>
+            Schedule
+            <MoreInfoTooltip>
+              Cron expression with 5 fields: minute, hour, day of month, month
+              and day of week.
+            </MoreInfoTooltip>
+          </Field.Label>
+          <Input
+            value={cronExpression}
+            onValueChange={setCronExpression}
+            placeholder="0 9 * * 1"
+          />
+        </Field.Root>
+        <BasicSelect
+          value={
+            cronExpressionPresets.find(
+              (preset) => preset.value === cronExpression.trim(),
+            )?.value
+          }
+          onChange={(value) => value && setCronExpression(value)}
+          items={cronExpressionPresets}
+          placeholder="Presets"
+        />
+      </div>
+      {!isCronExpressionValid && (
+        <p className="text-sm text-red-10">Invalid cron expression</p>
+      )}
+      <div className="flex gap-2">
+        <Field.Root className="flex-1">
+          <Field.Label>Time zone</Field.Label>
+          <Input
+            value={timeZone}
+            onValueChange={setTimeZone}
+            placeholder="UTC"
+          />
+        </Field.Root>
+        <Field.Root>
+          <Field.Label>Format</Field.Label>
+          <BasicSelect
+            value={format}
+            onChange={setFormat}
+            items={exportFormatItems}
+          />
+        </Field.Root>
+      </div>
+      <Field.Root className="flex-row items-center">
+        <Switch checked={isIncremental} onCheckedChange={setIsIncremental} />
+        <Field.Label>
+          Only new results
+          <MoreInfoTooltip>
+            Each export only contains the results created since the last
+            successful export.
+          </MoreInfoTooltip>
+        </Field.Label>
+      </Field.Root>
+      <Field.Root>
+        <Field.Label>Send to</Field.Label>
+        <BasicSelect
+          value={destinationType}
+          onChange={setDestinationType}
+          items={destinationTypeItems}
+        />
+      </Field.Root>
+      {destinationType === "email" ? (
+        <Field.Root>
+          <Field.Label>Emails</Field.Label>
+          <Input
+            value={emails}
+            onValueChange={setEmails}
+            placeholder="john@company.com, jane@company.com"
+          />
+          <Field.Description>
+            Recipients receive a download link. They need access to this
+            workspace to download the file.
+          </Field.Description>
+        </Field.Root>
+      ) : (
+        <>
+          <S3CredentialsDialog
+            isOpen={s3DialogControls.isOpen}
+            onClose={s3DialogControls.onClose}
+            onNewCredentials={setCredentialsId}
+          />
+          <CredentialsDropdown
+            type="s3"
+            scope={{ type: "workspace", workspaceId }}
+            currentCredentialsId={credentialsId}
+            onCredentialsSelect={setCredentialsId}
+            onCreateNewClick={s3DialogControls.onOpen}
+            credentialsName="S3 bucket"
+            size="sm"
+          />
+          <Field.Root>
+            <Field.Label>Folder</Field.Label>
+            <Input
+              value={pathPrefix}
+              onValueChange={setPathPrefix}
+              placeholder="exports/leads"
+            />
+          </Field.Root>
+        </>
+      )}
+      <div className="flex justify-end gap-2">
+        <Button variant="secondary" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button
+          disabled={
+            isSubmitting || !isCronExpressionValid || !isDestinationValid
+          }
+          onClick={submit}
+        >
+          Save
+        </Button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,281 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import type {
+  ResultsExportRun,
+  ResultsExportSchedule,
+} from "@typebot.io/results/schemas/exportSchedules";
+import { Accordion } from "@typebot.io/ui/components/Accordion";
+import { Badge } from "@typebot.io/ui/components/Badge";
+import { Button } from "@typebot.io/ui/components/Button";
+import { Dialog } from "@typebot.io/ui/components/Dialog";
+import { Switch } from "@typebot.io/ui/components/Switch";
+import { Table } from "@typebot.io/ui/components/Table";
+import { LoaderCircleIcon } from "@typebot.io/ui/icons/LoaderCircleIcon";
+import { useState } from "react";
+import { TimeSince } from "@/components/TimeSince";
+import { useTypebot } from "@/features/editor/providers/TypebotProvider";
+import {
+  orpc,
+  queryClient,
+  showHttpRequestErrorToast,
+} from "@/lib/queryClient";
+import {
+  cronExpressionPresets,
+  ExportScheduleForm,
+  type ExportScheduleFormValues,
+} from "./ExportScheduleForm";
+
+type Props = {
+  isOpen: boolean;
+  onClose: () => void;
+};
+
+export const ExportSchedulesDialog = ({ isOpen, onClose }: Props) => {
+  const { typebot } = useTypebot();
+  const [editedScheduleId, setEditedScheduleId] = useState<
+    string | "new" | null
+  >(null);
+
+  const { data } = useQuery(
+    orpc.results.listResultsExportSchedules.queryOptions({
+      input: { typebotId: typebot?.id as string },
+      enabled: isOpen && !!typebot?.id,
+      refetchInterval: (query) =>
+        query.state.data?.schedules.some((schedule) =>
+          schedule.runs.some(
+            (run) => run.status === "PENDING" || run.status === "RUNNING",
+          ),
+        )
+          ? 5000
+          : false,
+    }),
+  );
+
+  const mutationOptions = {
+    onError: (error: Error) => {
+      showHttpRequestErrorToast(error, {
+        context: "Could not save schedule",
+      });
+    },
+    onSuccess: () => {
+      setEditedScheduleId(null);
+      queryClient.invalidateQueries({
+        queryKey: orpc.results.listResultsExportSchedules.key(),
+      });
+    },
+  };
+
+  const { mutate: createSchedule, isPending: isCreating } = useMutation(
+    orpc.results.createResultsExportSchedule.mutationOptions(mutationOptions),
+  );
+
+  const { mutate: updateSchedule, isPending: isUpdating } = useMutation(
+    orpc.results.updateResultsExportSchedule.mutationOptions(mutationOptions),
+  );
+
+  const { mutate: deleteSchedule } = useMutation(
+    orpc.results.deleteResultsExportSchedule.mutationOptions(mutationOptions),
+  );
+
+  if (!typebot) return null;
+
+  const toFormValues = (
+    schedule: ResultsExportSchedule,
+  ): ExportScheduleFormValues => ({
+    isEnabled: schedule.isEnabled,
+    cronExpression: schedule.cronExpression,
+    timeZone: schedule.timeZone,
+    format: schedule.format,
+    isIncremental: schedule.isIncremental,
+    destination: schedule.destination,
+  });
+
+  return (
+    <Dialog.Root isOpen={isOpen} onClose={onClose}>
+      <Dialog.Popup className="max-w-2xl">
+        <Dialog.Title>Scheduled exports</Dialog.Title>
+        <Dialog.CloseButton />
+        <p className="text-sm text-gray-11">
+          Export the results on a recurring schedule and send the file by email
+          or upload it to your own S3 bucket.
+        </p>
+        {editedScheduleId === "new" ? (
+          <ExportScheduleForm
+            workspaceId={typebot.workspaceId}
+            isSubmitting={isCreating}
+            onSubmit={(schedule) =>
+              createSchedule({ typebotId: typebot.id, schedule })
+            }
+            onCancel={() => setEditedScheduleId(null)}
+          />
+        ) : (
+          <Button
+            className="self-start"
+            variant="secondary"
+            onClick={() => setEditedScheduleId("new")}
+          >
+            New schedule
+          </Button>
+        )}
+        {!data && <LoaderCircleIcon className="animate-spin" />}
+        <Accordion.Root>
+          {data?.schedules.map((schedule) => (
+            <Accordion.Item key={schedule.id}>
+              <Accordion.Trigger>
+                <ScheduleHeader schedule={schedule} />
+              </Accordion.Trigger>
+              <Accordion.Panel>
+                {editedScheduleId === schedule.id ? (
+                  <ExportScheduleForm
+                    workspaceId={typebot.workspaceId}
+                    defaultValues={toFormValues(schedule)}
+                    isSubmitting={isUpdating}
+                    onSubmit={(values) =>
+                      updateSchedule({
+                        typebotId: typebot.id,
+                        scheduleId: schedule.id,
+                        schedule: values,
+                      })
+                    }
+                    onCancel={() => setEditedScheduleId(null)}
+                  />
+                ) : (
+                  <div className="flex flex-col gap-4">
+                    <div className="flex items-center justify-between gap-2">
+                      <div className="flex items-center gap-2">
+                        <Switch
+                          checked={schedule.isEnabled}
+                          onCheckedChange={(isEnabled) =>
+                            updateSchedule({
+                              typebotId: typebot.id,
+                              scheduleId: schedule.id,
+                              schedule: {
+                                ...toFormValues(schedule),
+                                isEnabled,
+                              },
+                            })
+                          }
+                        />
+                        <p className="text-sm">Enabled</p>
+                      </div>
+                      <div className="flex gap-2">
+                        <Button
+                          variant="secondary"
+                          size="sm"
+                          onClick={() => setEditedScheduleId(schedule.id)}
+                        >
+                          Edit
+                        </Button>
+                        <Button
+                          variant="destructive"
+                          size="sm"
+                          onClick={() =>
+                            deleteSchedule({
+                              typebotId: typebot.id,
+                              scheduleId: schedule.id,
+                            })
+                          }
+                        >
+                          Delete
+                        </Button>
+                      </div>
+                    </div>
+                    <ScheduleRuns runs={schedule.runs} />
+                  </div>
+                )}
+              </Accordion.Panel>
+            </Accordion.Item>
+          ))}
+        </Accordion.Root>
+      </Dialog.Popup>
+    </Dialog.Root>
+  );
+};
+
+const ScheduleHeader = ({ schedule }: { schedule: ResultsExportSchedule }) => {
+  const lastRun = schedule.runs.at(0);
+  return (
+    <div className="flex items-center justify-between gap-2 w-full">
+      <div className="flex flex-col items-start">
+        <p className="font-medium">
+          {cronExpressionPresets.find(
+            (preset) => preset.value === schedule.cronExpression,
+          )?.label ?? schedule.cronExpression}{" "}
+          · {schedule.format.toUpperCase()} ·{" "}
+          {schedule.destination.type === "email"
+            ? schedule.destination.emails.join(", ")
+            : "S3 bucket"}
+        </p>
+        <p className="text-xs text-gray-11">
+          {schedule.isEnabled && schedule.nextRunAt
+            ? `Next run on ${schedule.nextRunAt.toLocaleString()}`
+            : "Disabled"}
+        </p>
+      </div>
+      {lastRun && (
+        <Badge colorScheme={statusColorScheme[lastRun.status]}>
+          {lastRun.status.toLowerCase()}
+        </Badge>
+      )}
+    </div>
+  );
+};
+
+const ScheduleRuns = ({ runs }: { runs: ResultsExportRun[] }) => {
+  if (runs.length === 0)
+    return <p className="text-sm text-gray-11">No runs yet.</p>;
+
+  return (
+    <Table.Root>
+      <Table.Header>
+        <Table.Row>
+          <Table.Head>Scheduled</Table.Head>
+          <Table.Head>Status</Table.Head>
+          <Table.Head>Results</Table.Head>
+          <Table.Head>File</Table.Head>
+        </Table.Row>
+      </Table.Header>
+      <Table.Body>
+        {runs.map((run) => (
+          <Table.Row key={run.id}>
+            <Table.Cell>
+              <TimeSince date={run.scheduledAt} />
+            </Table.Cell>
+            <Table.Cell>
+              <Badge colorScheme={statusColorScheme[run.status]}>
+                {run.status.toLowerCase()}
+              </Badge>
+              {run.error && <p className="text-xs text-red-10">{run.error}</p>}
+            </Table.Cell>
+            <Table.Cell>{run.totalRowsExported ?? "-"}</Table.Cell>
+            <Table.Cell>
+              {run.fileUrl?.startsWith("http") ? (
+                <a
+                  href={run.fileUrl}
+                  target="_blank"
+                  rel="noreferrer"
+                  className="text-sm underline"
+                >
+                  Download
+                </a>
+              ) : (
+                <p className="text-xs text-gray-11 break-all">
+                  {run.fileUrl ?? "-"}
+                </p>
+              )}
+            </Table.Cell>
+          </Table.Row>
+        ))}
+      </Table.Body>
+    </Table.Root>
+  );
+};
+
+const statusColorScheme: Record<
+  ResultsExportRun["status"],
+  "gray" | "blue" | "green" | "red"
+> = {
+  PENDING: "gray",
+  RUNNING: "blue",
+  SUCCEEDED: "green",
+  FAILED: "red",
+};
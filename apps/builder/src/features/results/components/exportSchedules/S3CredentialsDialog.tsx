@@ -0,0 +1,136 @@
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@typebot.io/ui/components/Button";
+import { Dialog } from "@typebot.io/ui/components/Dialog";
+import { Field } from "@typebot.io/ui/components/Field";
+import { Input } from "@typebot.io/ui/components/Input";
+import type React from "react";
+import { useState } from "react";
+import { useWorkspace } from "@/features/workspace/WorkspaceProvider";
+import { orpc, queryClient } from "@/lib/queryClient";
+import { toast } from "@/lib/toast";
+
+type Props = {
+  isOpen: boolean;
+  onClose: () => void;
+  onNewCredentials: (id: string) => void;
+};
+
+export const S3CredentialsDialog = ({
+  isOpen,
+  onClose,
+  onNewCredentials,
+}: Props) => (
+  <Dialog.Root isOpen={isOpen} onClose={onClose}>
+    <S3CreateDialogBody onNewCredentials={onNewCredentials} onClose={onClose} />
+  </Dialog.Root>
+);
+
+export const S3CreateDialogBody = ({
+  onNewCredentials,
+  onClose,
+}: Pick<Props, "onClose" | "onNewCredentials">) => {
+  const { workspace } = useWorkspace();
+  const [name, setName] = useState("");
+  const [endpoint, setEndpoint] = useState("");
+  const [region, setRegion] = useState("");
+  const [bucket, setBucket] = useState("");
+  const [accessKeyId, setAccessKeyId] = useState("");
+  const [secretAccessKey, setSecretAccessKey] = useState("");
+  const [isCreating, setIsCreating] = useState(false);
+
+  const { mutate } = useMutation(
+    orpc.credentials.createCredentials.mutationOptions({
+      onMutate: () => setIsCreating(true),
+      onSettled: () => setIsCreating(false),
+      onError: (err) => {
+        toast({
+          description: err.message,
+        });
+      },
+      onSuccess: (data) => {
+        queryClient.invalidateQueries({
+          queryKey: orpc.credentials.listCredentials.key(),
+        });
+        onNewCredentials(data.credentialsId);
+        onClose();
+      },
+    }),
+  );
+
+  const createCredentials = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!workspace) return;
+    mutate({
+      scope: "workspace",
+      credentials: {
+        type: "s3",
+        name,
+        data: {
+          endpoint: endpoint.trim() || undefined,
+          region: region.trim() || undefined,
+          bucket: bucket.trim(),
+          accessKeyId: accessKeyId.trim(),
+          secretAccessKey: secretAccessKey.trim(),
+        },
+      },
+      workspaceId: workspace.id,
+    });
+  };
+
+  return (
+    <Dialog.Popup
+      render={(props) => <form onSubmit={createCredentials} {...props} />}
+    >
+      <Dialog.Title>Add an S3 bucket</Dialog.Title>
+      <p>
+        Works with AWS S3 and any S3-compatible storage (Cloudflare R2, MinIO,
+        Google Cloud Storage...). The access key needs permission to write
+        objects in the bucket.
+      </p>
+      <Field.Root>
+        <Field.Label>Name</Field.Label>
+        <Input onValueChange={setName} placeholder="Data warehouse bucket" />
+      </Field.Root>
+      <Field.Root>
+        <Field.Label>Endpoint</Field.Label>
+        <Input
+          onValueChange={setEndpoint}
+          placeholder="https://<account>.r2.cloudflarestorage.com"
+        />
+        <Field.Description>Leave empty to use AWS S3.</Field.Description>
+      </Field.Root>
+      <div className="flex gap-2">
+        <Field.Root className="flex-1">
+          <Field.Label>Bucket</Field.Label>
+          <Input onValueChange={setBucket} />
+        </Field.Root>
+        <Field.Root className="flex-1">
+          <Field.Label>Region</Field.Label>
+          <Input onValueChange={setRegion} placeholder="us-east-1" />
+        </Field.Root>
+      </div>
+      <Field.Root>
+        <Field.Label>Access key ID</Field.Label>
+        <Input onValueChange={setAccessKeyId} />
+      </Field.Root>
+      <Field.Root>
+        <Field.Label>Secret access key</Field.Label>
+        <Input onValueChange={setSecretAccessKey} type="password" />
+      </Field.Root>
+      <Dialog.Footer>
+        <Button
+          type="submit"
+          disabled={
+            name === "" ||
+            bucket === "" ||
+            accessKeyId === "" ||
+            secretAccessKey === "" ||
+            isCreating
+          }
+        >
+          Connect
+        </Button>
+      </Dialog.Footer>
+    </Dialog.Popup>
+  );
+};
@@ -3,7 +3,12 @@ import { ORPCError } from "@orpc/server";
 import { useQuery } from "@tanstack/react-query";
 import { parseUniqueKey } from "@typebot.io/lib/parseUniqueKey";
 import { byId, isDefined } from "@typebot.io/lib/utils";
+import {
+  defaultResultsExportFormat,
+  type ResultsExportFormat,
+} from "@typebot.io/results/constants";
 import { convertResultsToTableData } from "@typebot.io/results/convertResultsToTableData";
+import { isResultsFilterInMemory } from "@typebot.io/results/filterResults";
 import { getExportFileName } from "@typebot.io/results/getExportFileName";
 import { parseBlockIdVariableIdMap } from "@typebot.io/results/parseBlockIdVariableIdMap";
 import { parseColumnsOrder } from "@typebot.io/results/parseColumnsOrder";
@@ -19,6 +24,7 @@ import { Switch } from "@typebot.io/ui/components/Switch";
 import { InformationSquareIcon } from "@typebot.io/ui/icons/InformationSquareIcon";
 import { unparse } from "papaparse";
 import { useState } from "react";
+import { BasicSelect } from "@/components/inputs/BasicSelect";
 import { EmailInputIcon } from "@/features/blocks/inputs/emailInput/components/EmailInputIcon";
 import { useTypebot } from "@/features/editor/providers/TypebotProvider";
 import { orpc, orpcClient } from "@/lib/queryClient";
@@ -28,6 +34,13 @@ import { ExportJobProgress } from "./ExportJobProgress";
 
 const TOTAL_RESULTS_THRESHOLD_FOR_BACKGROUND_EXPORT = 10000;
 
+const exportFormatItems: { label: string; value: ResultsExportFormat }[] = [
+  { label: "CSV", value: "csv" },
+  { label: "Excel (XLSX)", value: "xlsx" },
+  { label: "JSON Lines", value: "jsonl" },
+  { label: "Parquet", value: "parquet" },
+];
+
 type Props = {
   isOpen: boolean;
   onClose: () => void;
@@ -41,13 +54,26 @@ export const ExportAllResultsDialog = ({ isOpen, onClose }: Props) => {
   const { typebot, publishedTypebot } = useTypebot();
   const workspaceId = typebot?.workspaceId;
   const typebotId = typebot?.id;
-  const { resultHeader: existingResultHeader, totalResults } = useResults();
+  const {
+    resultHeader: existingResultHeader,
+    totalResults,
+    filter,
+  } = useResults();
   const [isExportLoading, setIsExportLoading] = useState(false);
   const [exportProgressValue, setExportProgressValue] = useState(0);
   const [isSchedulingEmail, setIsSchedulingEmail] = useState(false);
 
   const [areDeletedBlocksIncluded, setAreDeletedBlocksIncluded] =
     useState(false);
+  const [format, setFormat] = useState<ResultsExportFormat>(
+    defaultResultsExportFormat,
+  );
+
+  const isFilterActive =
+    isDefined(filter.status) ||
+    isDefined(filter.resultStatus) ||
+    (filter.tags?.length ?? 0) > 0 ||
+    isResultsFilterInMemory(filter);
 
   const { data: linkedTypebotsData } = useQuery(
     orpc.getLinkedTypebots.queryOptions({
@@ -71,6 +97,7 @@ export const ExportAllResultsDialog = ({ isOpen, onClose }: Props) => {
           limit: 500,
           cursor,
           timeFilter: "allTime",
+          filter,
         });
         allResults.push(...results);
         setExportProgressValue((allResults.length / totalStarts) * 100);
@@ -97,14 +124,26 @@ export const ExportAllResultsDialog = ({ isOpen, onClose }: Props) => {
       timeFilter: "allTime",
     });
 
-    if (totalStarts > TOTAL_RESULTS_THRESHOLD_FOR_BACKGROUND_EXPORT) {
+    // Only CSV files can be generated in the browser
+    if (
+      format !== "csv" ||
+      totalStarts > TOTAL_RESULTS_THRESHOLD_FOR_BACKGROUND_EXPORT
+    ) {
       const response = await orpcClient.results.triggerExportJob({
         typebotId,
+        format,
+        filter,
       });
       if (response.status === "success") {
         setBackgroundExportSubscriptionToken(response.token);
         return;
       }
+      if (format !== "csv") {
+        toast({
+          description: "Background exports are not enabled on this instance.",
+        });
+        return setIsExportLoading(false);
+      }
     }
 
     const results = await getAllResults(totalStarts);
@@ -205,6 +244,14 @@ export const ExportAllResultsDialog = ({ isOpen, onClose }: Props) => {
           </div>
         ) : (
           <div className="flex flex-col gap-4">
+            <Field.Root>
+              <Field.Label>Format</Field.Label>
+              <BasicSelect
+                value={format}
+                onChange={setFormat}
+                items={exportFormatItems}
+              />
+            </Field.Root>
             <Field.Root className="flex-row items-center">
               <Switch
                 checked={areDeletedBlocksIncluded}
@@ -217,6 +264,14 @@ export const ExportAllResultsDialog = ({ isOpen, onClose }: Props) => {
                 </MoreInfoTooltip>
               </Field.Label>
             </Field.Root>
+            {isFilterActive && (
+              <Alert.Root>
+                <InformationSquareIcon />
+                <Alert.Description>
+                  Only the results matching the active filter will be exported.
+                </Alert.Description>
+              </Alert.Root>
+            )}
             <Alert.Root>
               <InformationSquareIcon />
               <Alert.Description>
@@ -0,0 +1,259 @@
+import { createId } from "@paralleldrive/cuid2";
+import {
+  ComparisonOperators,
+  LogicalOperator,
+} from "@typebot.io/conditions/constants";
+import { ResultStatus } from "@typebot.io/prisma/enum";
+import { resultStatusLabels } from "@typebot.io/results/constants";
+import type { ResultHeaderCell } from "@typebot.io/results/schemas/results";
+import type {
+  ResultsFilter,
+  ResultsFilterComparison,
+  ResultsFilterView,
+} from "@typebot.io/typebot/schemas/resultsFilter";
+import { Badge } from "@typebot.io/ui/components/Badge";
+import { Button } from "@typebot.io/ui/components/Button";
+import { Field } from "@typebot.io/ui/components/Field";
+import { Input } from "@typebot.io/ui/components/Input";
+import { Popover } from "@typebot.io/ui/components/Popover";
+import { FilterIcon } from "@typebot.io/ui/icons/FilterIcon";
+import { TrashIcon } from "@typebot.io/ui/icons/TrashIcon";
+import { useState } from "react";
+import { BasicSelect } from "@/components/inputs/BasicSelect";
+import { DebouncedTextInput } from "@/components/inputs/DebouncedTextInput";
+import { TableList, type TableListItemProps } from "@/components/TableList";
+import { TagsInput } from "@/components/TagsInput";
+
+type Props = {
+  resultHeader: ResultHeaderCell[];
+  filter: ResultsFilter;
+  filterViews: ResultsFilterView[];
+  isReadOnly: boolean;
+  onFilterChange: (filter: ResultsFilter) => void;
+  onFilterViewsChange: (filterViews: ResultsFilterView[]) => void;
+};
+
+export const ResultsFilterButton = ({
+  resultHeader,
+  filter,
+  filterViews,
+  isReadOnly,
+  onFilterChange,
+  onFilterViewsChange,
+}: Props) => {
+  // Remounts the form inputs when a saved view is applied or the filter is cleared
+  const [formKey, setFormKey] = useState(createId());
+  const [newViewName, setNewViewName] = useState("");
+  const totalActiveFilters = countActiveFilters(filter);
+
+  const applyFilter = (filter: ResultsFilter) => {
+    onFilterChange(filter);
+    setFormKey(createId());
+  };
+
+  const saveView = () => {
+    if (!newViewName.trim()) return;
+    onFilterViewsChange([
+      ...filterViews,
+      { id: createId(), name: newViewName.trim(), filter },
+    ]);
+    setNewViewName("");
+  };
+
+  const deleteView = (viewId: string) =>
+    onFilterViewsChange(filterViews.filter((view) => view.id !== viewId));
+
+  return (
+    <Popover.Root>
+      <Popover.TriggerButton variant="secondary" size="sm">
+        <FilterIcon />
+        Filter
+        {totalActiveFilters > 0 && (
+          <Badge colorScheme="orange">{totalActiveFilters}</Badge>
+        )}
+      </Popover.TriggerButton>
+      <Popover.Popup
+        className="w-[400px] max-h-[70vh] overflow-y-auto"
+        side="bottom"
+        align="end"
+      >
+        <div className="flex flex-col gap-4" key={formKey}>
+          <Field.Root>
+            <Field.Label>Search in answers</Field.Label>
+            <DebouncedTextInput
+              defaultValue={filter.search ?? ""}
+              onValueChange={(search) =>
+                onFilterChange({ ...filter, search: search || undefined })
+              }
+              placeholder="Type a text..."
+            />
+          </Field.Root>
+          <Field.Root>
+            <Field.Label>Completion</Field.Label>
+            <BasicSelect
+              value={filter.status}
+              onChange={(status) => onFilterChange({ ...filter, status })}
+              items={[
+                { label: "Completed", value: "completed" as const },
+                { label: "Not completed", value: "uncompleted" as const },
+              ]}
+              placeholder="Any"
+            />
+          </Field.Root>
+          <Field.Root>
+            <Field.Label>Status</Field.Label>
+            <BasicSelect
+              value={filter.resultStatus}
+              onChange={(resultStatus) =>
+                onFilterChange({ ...filter, resultStatus })
+              }
+              items={Object.values(ResultStatus).map((status) => ({
+                label: resultStatusLabels[status],
+                value: status,
+              }))}
+              placeholder="Any"
+            />
+          </Field.Root>
+          <Field.Root>
+            <Field.Label>Tags</Field.Label>
+            <TagsInput
+              items={filter.tags ?? []}
+              onValueChange={(tags) =>
+                onFilterChange({
+                  ...filter,
+                  tags: tags.length > 0 ? tags : undefined,
+                })
+              }
+              placeholder="Has all of these tags"
+            />
+          </Field.Root>
+          <div className="flex flex-col gap-2">
+            <p className="text-sm font-medium">Columns</p>
+            <TableList<ResultsFilterComparison>
+              initialItems={filter.comparisons}
+              onItemsChange={(comparisons) =>
+                onFilterChange({ ...filter, comparisons })
+              }
+              ComponentBetweenItems={() => (
+                <div className="flex justify-center">
+                  <BasicSelect
+                    value={filter.logicalOperator ?? LogicalOperator.AND}
+                    onChange={(logicalOperator) =>
+                      onFilterChange({ ...filter, logicalOperator })
+                    }
+                    items={Object.values(LogicalOperator)}
+                  />
+                </div>
+              )}
+              addLabel="Add a condition"
+            >
+              {(props) => (
+                <ComparisonItem {...props} resultHeader={resultHeader} />
+              )}
+            </TableList>
+          </div>
+          {totalActiveFilters > 0 && (
+            <Button
+              variant="secondary"
+              size="sm"
+              onClick={() => applyFilter({})}
+            >
+              Clear filter
+            </Button>
+          )}
+          <div className="flex flex-col gap-2 border-t pt-4">
+            <p className="text-sm font-medium">Saved views</p>
+            {filterViews.length === 0 && (
+              <p className="text-sm text-gray-11">No saved views yet.</p>
+            )}
+            {filterViews.map((view) => (
+              <div key={view.id} className="flex items-center gap-1">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="flex-1 justify-start"
+                  onClick={() => applyFilter(view.filter)}
+                >
+                  {view.name}
+                </Button>
+                {!isReadOnly && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    aria-label="Delete view"
+                    className="size-8"
+                    onClick={() => deleteView(view.id)}
+                  >
+                    <TrashIcon />
+                  </Button>
+                )}
+              </div>
+            ))}
+            {!isReadOnly && (
+              <div className="flex items-center gap-2">
+                <Input
+                  value={newViewName}
+                  onValueChange={setNewViewName}
+                  placeholder="View name"
+                  size="sm"
+                />
+                <Button
+                  size="sm"
+                  onClick={saveView}
+                  disabled={!newViewName.trim() || totalActiveFilters === 0}
+                >
+                  Save
+                </Button>
+              </div>
+            )}
+          </div>
+        </div>
+      </Popover.Popup>
+    </Popover.Root>
+  );
+};
+
+const ComparisonItem = ({
+  item,
+  onItemChange,
+  resultHeader,
+}: TableListItemProps<ResultsFilterComparison> & {
+  resultHeader: ResultHeaderCell[];
+}) => (
+  <div className="flex flex-col gap-2 p-4 rounded-md flex-1 border">
+    <BasicSelect
+      value={item.columnId}
+      onChange={(columnId) => onItemChange({ ...item, columnId })}
+      items={resultHeader.map((header) => ({
+        label: header.label,
+        value: header.id,
+      }))}
+      placeholder="Select a column"
+    />
+    <BasicSelect
+      value={item.comparisonOperator}
+      onChange={(comparisonOperator) =>
+        onItemChange({ ...item, comparisonOperator })
+      }
+      items={Object.values(ComparisonOperators)}
+      placeholder="Select an operator"
+    />
+    {item.comparisonOperator !== ComparisonOperators.IS_SET &&
+      item.comparisonOperator !== ComparisonOperators.IS_EMPTY && (
+        <DebouncedTextInput
+          defaultValue={item.value ?? ""}
+          onValueChange={(value) => onItemChange({ ...item, value })}
+          placeholder="Type a value..."
+        />
+      )}
+  </div>
+);
+
+const countActiveFilters = (filter: ResultsFilter) =>
+  (filter.search ? 1 : 0) +
+  (filter.status ? 1 : 0) +
+  (filter.resultStatus ? 1 : 0) +
+  (filter.tags?.length ? 1 : 0) +
+  (filter.comparisons ?? []).filter(
+    (comparison) => comparison.columnId && comparison.comparisonOperator,
+  ).length;
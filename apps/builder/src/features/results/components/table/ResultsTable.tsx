@@ -10,6 +10,10 @@ import type {
   ResultHeaderCell,
   TableData,
 } from "@typebot.io/results/schemas/results";
+import type {
+  ResultsFilter,
+  ResultsFilterView,
+} from "@typebot.io/typebot/schemas/resultsFilter";
 import type { ResultsTablePreferences } from "@typebot.io/typebot/schemas/typebot";
 import { Button } from "@typebot.io/ui/components/Button";
 import { Checkbox } from "@typebot.io/ui/components/Checkbox";
@@ -21,6 +25,7 @@ import { useTypebot } from "@/features/editor/providers/TypebotProvider";
 import { HeaderIcon } from "../HeaderIcon";
 import { HeaderRow } from "./HeaderRow";
 import { LoadingRows } from "./LoadingRows";
+import { ResultsFilterButton } from "./ResultsFilterButton";
 import { Row } from "./Row";
 import { SelectionToolbar } from "./SelectionToolbar";
 import { TableSettingsButton } from "./TableSettingsButton";
@@ -31,7 +36,9 @@ type ResultsTableProps = {
   hasMore?: boolean;
   preferences?: ResultsTablePreferences;
   timeFilter: (typeof timeFilterValues)[number];
+  filter: ResultsFilter;
   onTimeFilterChange: (timeFilter: (typeof timeFilterValues)[number]) => void;
+  onFilterChange: (filter: ResultsFilter) => void;
   onScrollToBottom: () => void;
   onLogOpenIndex: (index: number) => () => void;
   onResultExpandIndex: (index: number) => () => void;
@@ -43,7 +50,9 @@ export const ResultsTable = ({
   hasMore,
   preferences,
   timeFilter,
+  filter,
   onTimeFilterChange,
+  onFilterChange,
   onScrollToBottom,
   onLogOpenIndex,
   onResultExpandIndex,
@@ -57,6 +66,7 @@ export const ResultsTable = ({
     columnsOrder,
     columnsVisibility = {},
     columnsWidth = {},
+    filterViews = [],
   } = {
     ...preferences,
     columnsOrder: parseColumnsOrder(preferences?.columnsOrder, resultHeader),
@@ -67,6 +77,7 @@ export const ResultsTable = ({
     updateTypebot({
       updates: {
         resultsTablePreferences: {
+          ...preferences,
           columnsOrder: newColumnOrder,
           columnsVisibility,
           columnsWidth,
@@ -82,6 +93,7 @@ export const ResultsTable = ({
     updateTypebot({
       updates: {
         resultsTablePreferences: {
+          ...preferences,
           columnsVisibility: newColumnVisibility,
           columnsWidth,
           columnsOrder,
@@ -97,6 +109,7 @@ export const ResultsTable = ({
     updateTypebot({
       updates: {
         resultsTablePreferences: {
+          ...preferences,
           columnsWidth: newColumnSizing(columnsWidth),
           columnsVisibility,
           columnsOrder,
@@ -105,6 +118,20 @@ export const ResultsTable = ({
     });
   };
 
+  const changeFilterViews = (newFilterViews: ResultsFilterView[]) => {
+    updateTypebot({
+      updates: {
+        resultsTablePreferences: {
+          ...preferences,
+          filterViews: newFilterViews,
+          columnsWidth,
+          columnsVisibility,
+          columnsOrder,
+        },
+      },
+    });
+  };
+
   const columns = React.useMemo<ColumnDef<TableData>[]>(
     () => [
       {
@@ -228,6 +255,14 @@ export const ResultsTable = ({
           timeFilter={timeFilter}
           onTimeFilterChange={onTimeFilterChange}
         />
+        <ResultsFilterButton
+          resultHeader={resultHeader}
+          filter={filter}
+          filterViews={filterViews}
+          isReadOnly={currentUserMode !== "write"}
+          onFilterChange={onFilterChange}
+          onFilterViewsChange={changeFilterViews}
+        />
         <TableSettingsButton
           resultHeader={resultHeader}
           columnVisibility={columnsVisibility}
@@ -13,6 +13,7 @@ import { useTypebot } from "@/features/editor/providers/TypebotProvider";
 import { orpc, queryClient } from "@/lib/queryClient";
 import { toast } from "@/lib/toast";
 import { useResults } from "../../ResultsProvider";
+import { UpdateResultsPopover } from "./UpdateResultsPopover";
 
 type Props = {
   selectedResultsId: string[];
@@ -70,31 +71,17 @@ export const SelectionToolbar = ({
     const headerIds = parseColumnsOrder(
       typebot?.resultsTablePreferences?.columnsOrder,
       resultHeader,
-    )
-      .reduce<string[]>((currentHeaderIds, columnId) => {
-        if (
-          typebot?.resultsTablePreferences?.columnsVisibility[columnId] ===
-          false
-        )
-          return currentHeaderIds;
-        const columnLabel = resultHeader.find(
-          (headerCell) => headerCell.id === columnId,
-        )?.id;
-        if (!columnLabel) return currentHeaderIds;
-        return [...currentHeaderIds, columnLabel];
-      }, [])
-      .concat(
-        typebot?.resultsTablePreferences?.columnsOrder
-          ? resultHeader
-              .filter(
-                (headerCell) =>
-                  !typebot?.resultsTablePreferences?.columnsOrder.includes(
-                    headerCell.id,
-                  ),
-              )
-              .map((headerCell) => headerCell.id)
-          : [],
-      );
+    ).reduce<string[]>((currentHeaderIds, columnId) => {
+      if (
+        typebot?.resultsTablePreferences?.columnsVisibility[columnId] === false
+      )
+        return currentHeaderIds;
+      const columnLabel = resultHeader.find(
+        (headerCell) => headerCell.id === columnId,
+      )?.id;
+      if (!columnLabel) return currentHeaderIds;
+      return [...currentHeaderIds, columnLabel];
+    }, []);
 
     const data = dataToUnparse.map<{ [key: string]: string }>((data) => {
       const newObject: { [key: string]: string } = {};
@@ -142,6 +129,13 @@ export const SelectionToolbar = ({
       >
         <Download01Icon />
       </Button>
+      {typebotId && (
+        <UpdateResultsPopover
+          typebotId={typebotId}
+          resultIds={selectedResultsId}
+          className="border-r rounded-r-none rounded-l-none size-8"
+        />
+      )}
       <Button
         variant="secondary"
         aria-label="Delete"
@@ -6,7 +6,11 @@ import { ArrowRight01Icon } from "@typebot.io/ui/icons/ArrowRight01Icon";
 import { Download01Icon } from "@typebot.io/ui/icons/Download01Icon";
 import { LeftToRightListBulletIcon } from "@typebot.io/ui/icons/LeftToRightListBulletIcon";
 import { MoreHorizontalIcon } from "@typebot.io/ui/icons/MoreHorizontalIcon";
+import { RepeatIcon } from "@typebot.io/ui/icons/RepeatIcon";
+import { WebhookIcon } from "@typebot.io/ui/icons/WebhookIcon";
 import { useState } from "react";
+import { ExportSchedulesDialog } from "../exportSchedules/ExportSchedulesDialog";
+import { ResultWebhooksDialog } from "../webhooks/ResultWebhooksDialog";
 import { ColumnSettings } from "./ColumnSettings";
 import { ExportAllResultsDialog } from "./ExportAllResultsDialog";
 
@@ -21,6 +25,8 @@ type Props = {
 export const TableSettingsButton = (props: Props) => {
   const controls = useOpenControls();
   const exportAllDialogControls = useOpenControls();
+  const exportSchedulesDialogControls = useOpenControls();
+  const webhooksDialogControls = useOpenControls();
 
   return (
     <>
@@ -37,6 +43,8 @@ export const TableSettingsButton = (props: Props) => {
           <TableSettingsMenu
             {...props}
             onExportAllClick={exportAllDialogControls.onOpen}
+            onExportSchedulesClick={exportSchedulesDialogControls.onOpen}
+            onWebhooksClick={webhooksDialogControls.onOpen}
           />
         </Popover.Popup>
       </Popover.Root>
@@ -44,6 +52,14 @@ export const TableSettingsButton = (props: Props) => {
         onClose={exportAllDialogControls.onClose}
         isOpen={exportAllDialogControls.isOpen}
       />
+      <ExportSchedulesDialog
+        onClose={exportSchedulesDialogControls.onClose}
+        isOpen={exportSchedulesDialogControls.isOpen}
+      />
+      <ResultWebhooksDialog
+        onClose={webhooksDialogControls.onClose}
+        isOpen={webhooksDialogControls.isOpen}
+      />
     </>
   );
 };
@@ -55,7 +71,13 @@ const TableSettingsMenu = ({
   columnOrder,
   onColumnOrderChange,
   onExportAllClick,
-}: Props & { onExportAllClick: () => void }) => {
+  onExportSchedulesClick,
+  onWebhooksClick,
+}: Props & {
+  onExportAllClick: () => void;
+  onExportSchedulesClick: () => void;
+  onWebhooksClick: () => void;
+}) => {
   const [selectedMenu, setSelectedMenu] = useState<
     "export" | "columnSettings" | null
   >(null);
@@ -90,13 +112,33 @@ const TableSettingsMenu = ({
           <Button
             onClick={onExportAllClick}
             variant="ghost"
-            className="rounded-t-none justify-between"
+            className="rounded-none justify-between"
           >
             <div className="flex items-center gap-2">
               <Download01Icon />
               <p>Export all</p>
             </div>
           </Button>
+          <Button
+            onClick={onExportSchedulesClick}
+            variant="ghost"
+            className="rounded-none justify-between"
+          >
+            <div className="flex items-center gap-2">
+              <RepeatIcon />
+              <p>Scheduled exports</p>
+            </div>
+          </Button>
+          <Button
+            onClick={onWebhooksClick}
+            variant="ghost"
+            className="rounded-t-none justify-between"
+          >
+            <div className="flex items-center gap-2">
+              <WebhookIcon />
+              <p>Webhooks</p>
+            </div>
+          </Button>
         </div>
       );
   }
@@ -0,0 +1,106 @@
+import { useMutation } from "@tanstack/react-query";
+import { ResultStatus } from "@typebot.io/prisma/enum";
+import { resultStatusLabels } from "@typebot.io/results/constants";
+import { Button } from "@typebot.io/ui/components/Button";
+import { Field } from "@typebot.io/ui/components/Field";
+import { Popover } from "@typebot.io/ui/components/Popover";
+import { useOpenControls } from "@typebot.io/ui/hooks/useOpenControls";
+import { Tag01Icon } from "@typebot.io/ui/icons/Tag01Icon";
+import { useState } from "react";
+import { BasicSelect } from "@/components/inputs/BasicSelect";
+import { TagsInput } from "@/components/TagsInput";
+import {
+  orpc,
+  queryClient,
+  showHttpRequestErrorToast,
+} from "@/lib/queryClient";
+
+type Props = {
+  typebotId: string;
+  resultIds: string[];
+  className?: string;
+};
+
+export const UpdateResultsPopover = ({
+  typebotId,
+  resultIds,
+  className,
+}: Props) => {
+  const controls = useOpenControls();
+  const [status, setStatus] = useState<ResultStatus>();
+  const [tagsToAdd, setTagsToAdd] = useState<string[]>([]);
+  const [tagsToRemove, setTagsToRemove] = useState<string[]>([]);
+
+  const { mutate: updateResults, isPending } = useMutation(
+    orpc.results.updateResults.mutationOptions({
+      onError: (error) => {
+        showHttpRequestErrorToast(error, {
+          context: "Could not update results",
+        });
+      },
+      onSuccess: () => {
+        queryClient.invalidateQueries({
+          queryKey: orpc.results.getResults.key(),
+        });
+        setStatus(undefined);
+        setTagsToAdd([]);
+        setTagsToRemove([]);
+        controls.onClose();
+      },
+    }),
+  );
+
+  const isEmpty =
+    !status && tagsToAdd.length === 0 && tagsToRemove.length === 0;
+
+  return (
+    <Popover.Root {...controls}>
+      <Popover.TriggerButton
+        variant="secondary"
+        size="icon"
+        aria-label="Update status and tags"
+        className={className}
+      >
+        <Tag01Icon />
+      </Popover.TriggerButton>
+      <Popover.Popup className="w-[350px]" side="bottom" align="start">
+        <div className="flex flex-col gap-4">
+          <Field.Root>
+            <Field.Label>Status</Field.Label>
+            <BasicSelect
+              value={status}
+              onChange={setStatus}
+              items={Object.values(ResultStatus).map((status) => ({
+                label: resultStatusLabels[status],
+                value: status,
+              }))}
+              placeholder="Unchanged"
+            />
+          </Field.Root>
+          <Field.Root>
+            <Field.Label>Add tags</Field.Label>
+            <TagsInput items={tagsToAdd} onValueChange={setTagsToAdd} />
+          </Field.Root>
+          <Field.Root>
+            <Field.Label>Remove tags</Field.Label>
+            <TagsInput items={tagsToRemove} onValueChange={setTagsToRemove} />
+          </Field.Root>
+          <Button
+            disabled={isEmpty || isPending}
+            onClick={() =>
+              updateResults({
+                typebotId,
+                resultIds,
+                status,
+                tagsToAdd,
+                tagsToRemove,
+              })
+            }
+          >
+            Update {resultIds.length} result{resultIds.length > 1 ? "s" : ""}
+          </Button>
+        </div>
+      </Popover.Popup>
+    </Popover.Root>
+  );
+};
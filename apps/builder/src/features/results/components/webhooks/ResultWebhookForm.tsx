@@ -0,0 +1,149 @@
+import { ResultWebhookEvent } from "@typebot.io/prisma/enum";
+import { defaultResultWebhookAbandonmentTimeout } from "@typebot.io/results/constants";
+import type { ResultWebhook } from "@typebot.io/results/schemas/webhooks";
+import { Button } from "@typebot.io/ui/components/Button";
+import { Checkbox } from "@typebot.io/ui/components/Checkbox";
+import { Field } from "@typebot.io/ui/components/Field";
+import { Input } from "@typebot.io/ui/components/Input";
+import { useState } from "react";
+import { BasicSelect } from "@/components/inputs/BasicSelect";
+
+export type ResultWebhookFormValues = Pick<
+  ResultWebhook,
+  "typebotId" | "isEnabled" | "url" | "events" | "abandonmentTimeout"
+>;
+
+export const resultWebhookEventLabels = {
+  RESULT_CREATED: "Result created",
+  ANSWER_ADDED: "Answer added",
+  RESULT_COMPLETED: "Result completed",
+  RESULT_ABANDONED: "Result abandoned",
+} as const satisfies Record<ResultWebhookEvent, string>;
+
+type Props = {
+  typebotId?: string;
+  defaultValues?: ResultWebhookFormValues;
+  isSubmitting: boolean;
+  onSubmit: (values: ResultWebhookFormValues) => void;
+  onCancel: () => void;
+};
+
+export const ResultWebhookForm = ({
+  typebotId,
+  defaultValues,
+  isSubmitting,
+  onSubmit,
+  onCancel,
+}: Props) => {
+  const [url, setUrl] = useState(defaultValues?.url ?? "");
+  const [scope, setScope] = useState<"typebot" | "workspace">(
+    (defaultValues ? defaultValues.typebotId : typebotId)
+      ? "typebot"
+      : "workspace",
+  );
+  const [events, setEvents] = useState<ResultWebhookEvent[]>(
+    defaultValues?.events ?? [ResultWebhookEvent.RESULT_COMPLETED],
+  );
+  const [abandonmentTimeout, setAbandonmentTimeout] = useState(
+    (
+      defaultValues?.abandonmentTimeout ??
+      defaultResultWebhookAbandonmentTimeout
+    ).toString(),
+  );
+
+  const isListeningToAbandonment = events.includes(
+    ResultWebhookEvent.RESULT_ABANDONED,
+  );
+  const parsedAbandonmentTimeout = Number.parseInt(abandonmentTimeout, 10);
+  const isAbandonmentTimeoutValid =
+    !isListeningToAbandonment || parsedAbandonmentTimeout > 0;
+
+  const toggleEvent = (event: ResultWebhookEvent, isChecked: boolean) =>
+    setEvents((events) =>
+      isChecked ? [...events, event] : events.filter((e) => e !== event),
+    );
+
+  const submit = () =>
+    onSubmit({
+      typebotId:
+        scope === "typebot"
+          ? (defaultValues?.typebotId ?? typebotId ?? null)
+          : null,
+      isEnabled: defaultValues?.isEnabled ?? true,
+      url: url.trim(),
+      events,
+      abandonmentTimeout: isListeningToAbandonment
+        ? parsedAbandonmentTimeout
+        : null,
+    });
+
+  return (
+    <div className="flex flex-col gap-4 p-4 rounded-md border">
+      <Field.Root>
+        <Field.Label>URL</Field.Label>
+        <Input
+          value={url}
+          onValueChange={setUrl}
+          placeholder="https://api.company.com/typebot-results"
+        />
+      </Field.Root>
+      {(typebotId || defaultValues?.typebotId) && (
+        <Field.Root>
+          <Field.Label>Triggered by</Field.Label>
+          <BasicSelect
+            value={scope}
+            onChange={setScope}
+            items={[
+              { label: "This bot", value: "typebot" },
+              { label: "All bots of the workspace", value: "workspace" },
+            ]}
+          />
+        </Field.Root>
+      )}
+      <div className="flex flex-col gap-2">
+        <p className="text-sm font-medium">Events</p>
+        {Object.values(ResultWebhookEvent).map((event) => (
+          <Field.Root key={event} className="flex-row items-center">
+            <Checkbox
+              checked={events.includes(event)}
+              onCheckedChange={(isChecked) => toggleEvent(event, isChecked)}
+            />
+            <Field.Label>{resultWebhookEventLabels[event]}</Field.Label>
+          </Field.Root>
+        ))}
+      </div>
+      {isListeningToAbandonment && (
+        <Field.Root>
+          <Field.Label>Abandonment timeout (minutes)</Field.Label>
+          <Input
+            type="number"
+            min={1}
+            value={abandonmentTimeout}
+            onValueChange={setAbandonmentTimeout}
+            className="max-w-40"
+          />
+          <Field.Description>
+            A started result is abandoned when it is not completed and receives
+            no new answer during this time.
+          </Field.Description>
+        </Field.Root>
+      )}
+      <div className="flex justify-end gap-2">
+        <Button variant="secondary" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button
+          disabled={
+            isSubmitting ||
+            url.trim() === "" ||
+            events.length === 0 ||
+            !isAbandonmentTimeoutValid
+          }
+          onClick={submit}
+        >
+          Save
+        </Button>
+      </div>
+    </div>
+  );
+};
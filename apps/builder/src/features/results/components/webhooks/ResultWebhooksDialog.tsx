@@ -0,0 +1,27 @@
+import { Dialog } from "@typebot.io/ui/components/Dialog";
+import { useTypebot } from "@/features/editor/providers/TypebotProvider";
+import { ResultWebhooksList } from "./ResultWebhooksList";
+
+type Props = {
+  isOpen: boolean;
+  onClose: () => void;
+};
+
+export const ResultWebhooksDialog = ({ isOpen, onClose }: Props) => {
+  const { typebot } = useTypebot();
+
+  return (
+    <Dialog.Root isOpen={isOpen} onClose={onClose}>
+      <Dialog.Popup className="max-w-2xl">
+        <Dialog.Title>Webhooks</Dialog.Title>
+        <Dialog.CloseButton />
+        {typebot && (
+          <ResultWebhooksList
+            workspaceId={typebot.workspaceId}
+            typebotId={typebot.id}
+          />
+        )}
+      </Dialog.Popup>
+    </Dialog.Root>
+  );
+};
@@ -0,0 +1,284 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import type {
+  ResultWebhook,
+  ResultWebhookDelivery,
+} from "@typebot.io/results/schemas/webhooks";
+import { Accordion } from "@typebot.io/ui/components/Accordion";
+import { Badge } from "@typebot.io/ui/components/Badge";
+import { Button } from "@typebot.io/ui/components/Button";
+import { Field } from "@typebot.io/ui/components/Field";
+import { Input } from "@typebot.io/ui/components/Input";
+import { Switch } from "@typebot.io/ui/components/Switch";
+import { Table } from "@typebot.io/ui/components/Table";
+import { LoaderCircleIcon } from "@typebot.io/ui/icons/LoaderCircleIcon";
+import { useState } from "react";
+import { CopyButton } from "@/components/CopyButton";
+import { TimeSince } from "@/components/TimeSince";
+import {
+  orpc,
+  queryClient,
+  showHttpRequestErrorToast,
+} from "@/lib/queryClient";
+import {
+  ResultWebhookForm,
+  type ResultWebhookFormValues,
+  resultWebhookEventLabels,
+} from "./ResultWebhookForm";
+
+type Props = {
+  workspaceId: string;
+  typebotId?: string;
+};
+
+export const ResultWebhooksList = ({ workspaceId, typebotId }: Props) => {
+  const [editedWebhookId, setEditedWebhookId] = useState<string | "new" | null>(
+    null,
+  );
+
+  const { data } = useQuery(
+    orpc.results.listResultWebhooks.queryOptions({
+      input: { workspaceId, typebotId },
+    }),
+  );
+
+  const mutationOptions = {
+    onError: (error: Error) => {
+      showHttpRequestErrorToast(error, {
+        context: "Could not save webhook",
+      });
+    },
+    onSuccess: () => {
+      setEditedWebhookId(null);
+      queryClient.invalidateQueries({
+        queryKey: orpc.results.listResultWebhooks.key(),
+      });
+    },
+  };
+
+  const { mutate: createWebhook, isPending: isCreating } = useMutation(
+    orpc.results.createResultWebhook.mutationOptions(mutationOptions),
+  );
+
+  const { mutate: updateWebhook, isPending: isUpdating } = useMutation(
+    orpc.results.updateResultWebhook.mutationOptions(mutationOptions),
+  );
+
+  const { mutate: deleteWebhook } = useMutation(
+    orpc.results.deleteResultWebhook.mutationOptions(mutationOptions),
+  );
+
+  const toFormValues = (webhook: ResultWebhook): ResultWebhookFormValues => ({
+    typebotId: webhook.typebotId,
+    isEnabled: webhook.isEnabled,
+    url: webhook.url,
+    events: webhook.events,
+    abandonmentTimeout: webhook.abandonmentTimeout,
+  });
+
+  return (
+    <div className="flex flex-col gap-4 w-full">
+      <p className="text-sm text-gray-11">
+        Send the results with their answers to your own endpoint as they come
+        in, including the visitors who drop off. Failed deliveries are retried
+        for a few hours.
+      </p>
+      {editedWebhookId === "new" ? (
+        <ResultWebhookForm
+          typebotId={typebotId}
+          isSubmitting={isCreating}
+          onSubmit={(webhook) => createWebhook({ workspaceId, webhook })}
+          onCancel={() => setEditedWebhookId(null)}
+        />
+      ) : (
+        <Button
+          className="self-start"
+          variant="secondary"
+          onClick={() => setEditedWebhookId("new")}
+        >
+          New webhook
+        </Button>
+      )}
+      {!data && <LoaderCircleIcon className="animate-spin" />}
+      <Accordion.Root>
+        {data?.webhooks.map((webhook) => (
+          <Accordion.Item key={webhook.id}>
+            <Accordion.Trigger>
+              <WebhookHeader webhook={webhook} typebotId={typebotId} />
+            </Accordion.Trigger>
+            <Accordion.Panel>
+              {editedWebhookId === webhook.id ? (
+                <ResultWebhookForm
+                  typebotId={typebotId}
+                  defaultValues={toFormValues(webhook)}
+                  isSubmitting={isUpdating}
+                  onSubmit={(values) =>
+                    updateWebhook({
+                      workspaceId,
+                      webhookId: webhook.id,
+                      webhook: values,
+                    })
+                  }
+                  onCancel={() => setEditedWebhookId(null)}
+                />
+              ) : (
+                <div className="flex flex-col gap-4">
+                  <div className="flex items-center justify-between gap-2">
+                    <div className="flex items-center gap-2">
+                      <Switch
+                        checked={webhook.isEnabled}
+                        onCheckedChange={(isEnabled) =>
+                          updateWebhook({
+                            workspaceId,
+                            webhookId: webhook.id,
+                            webhook: { ...toFormValues(webhook), isEnabled },
+                          })
+                        }
+                      />
+                      <p className="text-sm">Enabled</p>
+                    </div>
+                    <div className="flex gap-2">
+                      <Button
+                        variant="secondary"
+                        size="sm"
+                        onClick={() => setEditedWebhookId(webhook.id)}
+                      >
+                        Edit
+                      </Button>
+                      <Button
+                        variant="destructive"
+                        size="sm"
+                        onClick={() =>
+                          deleteWebhook({ workspaceId, webhookId: webhook.id })
+                        }
+                      >
+                        Delete
+                      </Button>
+                    </div>
+                  </div>
+                  <Field.Root>
+                    <Field.Label>Signing secret</Field.Label>
+                    <div className="flex gap-2">
+                      <Input value={webhook.secret} type="password" readOnly />
+                      <CopyButton textToCopy={webhook.secret} size="sm" />
+                    </div>
+                    <Field.Description>
+                      Each request has a <code>x-typebot-signature</code> header
+                      containing <code>t=timestamp,v1=signature</code>. The
+                      signature is the HMAC SHA-256 of{" "}
+                      <code>timestamp.body</code> with this secret.
+                    </Field.Description>
+                  </Field.Root>
+                  <WebhookDeliveries
+                    workspaceId={workspaceId}
+                    webhookId={webhook.id}
+                  />
+                </div>
+              )}
+            </Accordion.Panel>
+          </Accordion.Item>
+        ))}
+      </Accordion.Root>
+    </div>
+  );
+};
+
+const WebhookHeader = ({
+  webhook,
+  typebotId,
+}: {
+  webhook: ResultWebhook;
+  typebotId?: string;
+}) => (
+  <div className="flex items-center justify-between gap-2 w-full">
+    <div className="flex flex-col items-start min-w-0">
+      <p className="font-medium truncate max-w-full">{webhook.url}</p>
+      <p className="text-xs text-gray-11">
+        {webhook.events
+          .map((event) => resultWebhookEventLabels[event])
+          .join(", ")}
+      </p>
+    </div>
+    <div className="flex gap-1">
+      <Badge colorScheme="blue">
+        {webhook.typebotId
+          ? typebotId
+            ? "This bot"
+            : "Single bot"
+          : "All bots"}
+      </Badge>
+      {!webhook.isEnabled && <Badge colorScheme="gray">disabled</Badge>}
+    </div>
+  </div>
+);
+
+const WebhookDeliveries = ({
+  workspaceId,
+  webhookId,
+}: {
+  workspaceId: string;
+  webhookId: string;
+}) => {
+  const { data } = useQuery(
+    orpc.results.listResultWebhookDeliveries.queryOptions({
+      input: { workspaceId, webhookId },
+      refetchInterval: (query) =>
+        query.state.data?.deliveries.some(
+          (delivery) => delivery.status === "PENDING",
+        )
+          ? 5000
+          : false,
+    }),
+  );
+
+  if (!data) return <LoaderCircleIcon className="animate-spin" />;
+
+  if (data.deliveries.length === 0)
+    return <p className="text-sm text-gray-11">No deliveries yet.</p>;
+
+  return (
+    <Table.Root>
+      <Table.Header>
+        <Table.Row>
+          <Table.Head>Date</Table.Head>
+          <Table.Head>Event</Table.Head>
+          <Table.Head>Result</Table.Head>
+          <Table.Head>Status</Table.Head>
+          <Table.Head>Attempts</Table.Head>
+        </Table.Row>
+      </Table.Header>
+      <Table.Body>
+        {data.deliveries.map((delivery) => (
+          <Table.Row key={delivery.id}>
+            <Table.Cell>
+              <TimeSince date={delivery.createdAt} />
+            </Table.Cell>
+            <Table.Cell>{resultWebhookEventLabels[delivery.event]}</Table.Cell>
+            <Table.Cell>
+              <p className="text-xs text-gray-11">{delivery.resultId}</p>
+            </Table.Cell>
+            <Table.Cell>
+              <Badge colorScheme={statusColorScheme[delivery.status]}>
+                {delivery.responseStatus ?? delivery.status.toLowerCase()}
+              </Badge>
+              {delivery.error && (
+                <p className="text-xs text-red-10 break-all">
+                  {delivery.error}
+                </p>
+              )}
+            </Table.Cell>
+            <Table.Cell>{delivery.attempts}</Table.Cell>
+          </Table.Row>
+        ))}
+      </Table.Body>
+    </Table.Root>
+  );
+};
+
+const statusColorScheme: Record<
+  ResultWebhookDelivery["status"],
+  "gray" | "green" | "red"
+> = {
+  PENDING: "gray",
+  SUCCEEDED: "green",
+  FAILED: "red",
+};
@@ -0,0 +1,44 @@
+import { ORPCError } from "@orpc/server";
+import prisma from "@typebot.io/prisma";
+import type { User } from "@typebot.io/user/schemas";
+import { isWriteWorkspaceForbidden } from "@/features/workspace/helpers/isWriteWorkspaceForbidden";
+
+// Webhooks expose their signing secret so guests can't manage them
+export const findWorkspaceForResultWebhooks = async (
+  workspaceId: string,
+  user: Pick<User, "id">,
+) => {
+  const workspace = await prisma.workspace.findUnique({
+    where: { id: workspaceId },
+    select: {
+      id: true,
+      members: {
+        select: {
+          userId: true,
+          role: true,
+        },
+      },
+    },
+  });
+  if (!workspace || isWriteWorkspaceForbidden(workspace, user))
+    throw new ORPCError("NOT_FOUND", { message: "Workspace not found" });
+  return workspace;
+};
+
+export const assertTypebotIsInWorkspace = async ({
+  typebotId,
+  workspaceId,
+}: {
+  typebotId: string | null;
+  workspaceId: string;
+}) => {
+  if (!typebotId) return;
+  const typebot = await prisma.typebot.findFirst({
+    where: { id: typebotId, workspaceId },
+    select: { id: true },
+  });
+  if (!typebot)
+    throw new ORPCError("BAD_REQUEST", {
+      message: "Typebot not found in this workspace",
+    });
+};
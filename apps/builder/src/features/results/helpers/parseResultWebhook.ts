@@ -0,0 +1,19 @@
+import {
+  type ResultWebhook,
+  resultWebhookSchema,
+} from "@typebot.io/results/schemas/webhooks";
+
+export const resultWebhookSelect = {
+  id: true,
+  createdAt: true,
+  workspaceId: true,
+  typebotId: true,
+  isEnabled: true,
+  url: true,
+  secret: true,
+  events: true,
+  abandonmentTimeout: true,
+} as const;
+
+export const parseResultWebhook = (webhook: unknown): ResultWebhook =>
+  resultWebhookSchema.parse(webhook);
@@ -0,0 +1,41 @@
+import { MAX_RESULTS_EXPORT_RUNS_PER_SCHEDULE } from "@typebot.io/results/constants";
+import {
+  type ResultsExportSchedule,
+  resultsExportScheduleSchema,
+} from "@typebot.io/results/schemas/exportSchedules";
+
+export const resultsExportScheduleSelect = {
+  id: true,
+  createdAt: true,
+  isEnabled: true,
+  cronExpression: true,
+  timeZone: true,
+  format: true,
+  isIncremental: true,
+  destination: true,
+  nextRunAt: true,
+  lastExportedUntil: true,
+  runs: {
+    orderBy: { createdAt: "desc" },
+    take: MAX_RESULTS_EXPORT_RUNS_PER_SCHEDULE,
+    select: {
+      id: true,
+      createdAt: true,
+      scheduledAt: true,
+      status: true,
+      totalRowsExported: true,
+      fileUrl: true,
+      error: true,
+      finishedAt: true,
+    },
+  },
+} as const;
+
+export const parseResultsExportSchedule = (schedule: {
+  timeZone: string | null;
+  [key: string]: unknown;
+}): ResultsExportSchedule =>
+  resultsExportScheduleSchema.parse({
+    ...schedule,
+    timeZone: schedule.timeZone ?? undefined,
+  });
@@ -0,0 +1,37 @@
+import { ORPCError } from "@orpc/server";
+import prisma from "@typebot.io/prisma";
+import { getNextCronDate } from "@typebot.io/results/getNextCronDate";
+import type { resultsExportScheduleInputSchema } from "@typebot.io/results/schemas/exportSchedules";
+import type { z } from "@typebot.io/zod";
+
+export const parseResultsExportScheduleData = async ({
+  schedule,
+  workspaceId,
+}: {
+  schedule: z.infer<typeof resultsExportScheduleInputSchema>;
+  workspaceId: string;
+}) => {
+  if (schedule.destination.type === "s3") {
+    const credentials = await prisma.credentials.findFirst({
+      where: {
+        id: schedule.destination.credentialsId,
+        workspaceId,
+        type: "s3",
+      },
+      select: { id: true },
+    });
+    if (!credentials)
+      throw new ORPCError("BAD_REQUEST", {
+        message: "S3 credentials not found",
+      });
+  }
+  return {
+    ...schedule,
+    nextRunAt: schedule.isEnabled
+      ? (getNextCronDate(schedule.cronExpression, {
+          after: new Date(),
+          timeZone: schedule.timeZone,
+        }) ?? null)
+      : null,
+  };
+};
@@ -0,0 +1,183 @@
+import { useTranslate } from "@tolgee/react";
+import type { Group } from "@typebot.io/groups/schemas";
+import { defaultScheduleTimeZone } from "@typebot.io/settings/constants";
+import type {
+  AvailabilityWindow,
+  ScheduleSettings,
+} from "@typebot.io/settings/schemas";
+import { Field } from "@typebot.io/ui/components/Field";
+import { Input } from "@typebot.io/ui/components/Input";
+import { MoreInfoTooltip } from "@typebot.io/ui/components/MoreInfoTooltip";
+import { Switch } from "@typebot.io/ui/components/Switch";
+import { BasicSelect } from "@/components/inputs/BasicSelect";
+import { DebouncedTextInput } from "@/components/inputs/DebouncedTextInput";
+import { TableList, type TableListItemProps } from "@/components/TableList";
+import { GroupsDropdown } from "@/features/blocks/logic/typebotLink/components/GroupsDropdown";
+
+type Props = {
+  schedule: ScheduleSettings | undefined;
+  groups: Group[];
+  onUpdate: (schedule: ScheduleSettings) => void;
+};
+
+export const ScheduleForm = ({ schedule, groups, onUpdate }: Props) => {
+  const { t } = useTranslate();
+
+  const updateTimeZone = (timeZone: string) =>
+    onUpdate({ ...schedule, timeZone: timeZone || undefined });
+
+  const updatePublishAt = (publishAt: string | undefined) =>
+    onUpdate({ ...schedule, publishAt });
+
+  const updateUnpublishAt = (unpublishAt: string | undefined) =>
+    onUpdate({ ...schedule, unpublishAt });
+
+  const toggleAvailability = (isEnabled: boolean) =>
+    onUpdate({
+      ...schedule,
+      availability: { ...schedule?.availability, isEnabled },
+    });
+
+  const updateWindows = (windows: AvailabilityWindow[]) =>
+    onUpdate({
+      ...schedule,
+      availability: { ...schedule?.availability, windows },
+    });
+
+  const updateClosedGroupId = (closedGroupId: string | undefined) =>
+    onUpdate({
+      ...schedule,
+      availability: { ...schedule?.availability, closedGroupId },
+    });
+
+  return (
+    <div className="flex flex-col gap-6">
+      <Field.Root>
+        <Field.Label>
+          {t("settings.sideMenu.schedule.timeZone")}
+          <MoreInfoTooltip>
+            {t("settings.sideMenu.schedule.timeZone.tooltip")}
+          </MoreInfoTooltip>
+        </Field.Label>
+        <DebouncedTextInput
+          defaultValue={schedule?.timeZone}
+          placeholder={defaultScheduleTimeZone}
+          onValueChange={updateTimeZone}
+        />
+      </Field.Root>
+      <Field.Root>
+        <Field.Label>{t("settings.sideMenu.schedule.publishAt")}</Field.Label>
+        <DateTimeInput value={schedule?.publishAt} onChange={updatePublishAt} />
+      </Field.Root>
+      <Field.Root>
+        <Field.Label>{t("settings.sideMenu.schedule.unpublishAt")}</Field.Label>
+        <DateTimeInput
+          value={schedule?.unpublishAt}
+          onChange={updateUnpublishAt}
+        />
+      </Field.Root>
+      <Field.Container>
+        <Field.Root className="flex-row items-center">
+          <Switch
+            checked={schedule?.availability?.isEnabled ?? false}
+            onCheckedChange={toggleAvailability}
+          />
+          <Field.Label>
+            {t("settings.sideMenu.schedule.availability")}
+            <MoreInfoTooltip>
+              {t("settings.sideMenu.schedule.availability.tooltip")}
+            </MoreInfoTooltip>
+          </Field.Label>
+        </Field.Root>
+        {schedule?.availability?.isEnabled && (
+          <>
+            <TableList<AvailabilityWindow>
+              initialItems={schedule.availability.windows}
+              onItemsChange={updateWindows}
+              newItemDefaultProps={{
+                weekday: 1,
+                startTime: "09:00",
+                endTime: "17:00",
+              }}
+              addLabel={t("settings.sideMenu.schedule.availability.addWindow")}
+            >
+              {(props) => <AvailabilityWindowItem {...props} />}
+            </TableList>
+            <Field.Root>
+              <Field.Label>
+                {t("settings.sideMenu.schedule.availability.closedGroup")}
+                <MoreInfoTooltip>
+                  {t(
+                    "settings.sideMenu.schedule.availability.closedGroup.tooltip",
+                  )}
+                </MoreInfoTooltip>
+              </Field.Label>
+              <GroupsDropdown
+                groups={groups}
+                groupId={schedule.availability.closedGroupId}
+                onChange={updateClosedGroupId}
+              />
+            </Field.Root>
+          </>
+        )}
+      </Field.Container>
+    </div>
+  );
+};
+
+const weekdays: AvailabilityWindow["weekday"][] = [0, 1, 2, 3, 4, 5, 6];
+
+const AvailabilityWindowItem = ({
+  item,
+  onItemChange,
+}: TableListItemProps<AvailabilityWindow>) => {
+  const { t } = useTranslate();
+
+  return (
+    <div className="flex flex-col gap-2 p-4 rounded-md border flex-1">
+      <BasicSelect
+        value={item.weekday}
+        onChange={(weekday) => onItemChange({ ...item, weekday })}
+        items={weekdays.map((weekday) => ({
+          label: t(`settings.sideMenu.schedule.weekday.${weekday}`),
+          value: weekday,
+        }))}
+      />
+      <div className="flex items-center gap-2">
+        <Input
+          type="time"
+          value={item.startTime}
+          onValueChange={(startTime) => onItemChange({ ...item, startTime })}
+        />
+        <span>-</span>
+        <Input
+          type="time"
+          value={item.endTime}
+          onValueChange={(endTime) => onItemChange({ ...item, endTime })}
+        />
+      </div>
+    </div>
+  );
+};
+
+const DateTimeInput = ({
+  value,
+  onChange,
+}: {
+  value: string | undefined;
+  onChange: (value: string | undefined) => void;
+}) => (
+  <Input
+    type="datetime-local"
+    value={value ? toDateTimeLocalValue(new Date(value)) : ""}
+    onValueChange={(newValue) =>
+      onChange(newValue ? new Date(newValue).toISOString() : undefined)
+    }
+  />
+);
+
+const toDateTimeLocalValue = (date: Date) => {
+  if (Number.isNaN(date.getTime())) return "";
+  const offsetInMs = date.getTimezoneOffset() * 60 * 1000;
+  return new Date(date.getTime() - offsetInMs).toISOString().slice(0, 16);
+};
@@ -1,6 +1,7 @@
 import { useTranslate } from "@tolgee/react";
 import type { Settings } from "@typebot.io/settings/schemas";
 import { Accordion } from "@typebot.io/ui/components/Accordion";
+import { Calendar01Icon } from "@typebot.io/ui/icons/Calendar01Icon";
 import { ChatIcon } from "@typebot.io/ui/icons/ChatIcon";
 import { MoreHorizontalIcon } from "@typebot.io/ui/icons/MoreHorizontalIcon";
 import { SourceCodeIcon } from "@typebot.io/ui/icons/SourceCodeIcon";
@@ -8,6 +9,7 @@ import { SquareLock01Icon } from "@typebot.io/ui/icons/SquareLock01Icon";
 import { useTypebot } from "@/features/editor/providers/TypebotProvider";
 import { GeneralSettingsForm } from "./GeneralSettingsForm";
 import { MetadataForm } from "./MetadataForm";
+import { ScheduleForm } from "./ScheduleForm";
 import { SecurityForm } from "./SecurityForm";
 import { TypingEmulationForm } from "./TypingEmulationForm";
 
@@ -29,6 +31,12 @@ export const SettingsSideMenu = () => {
       updates: { settings: { ...typebot.settings, security } },
     });
 
+  const updateSchedule = (schedule: Settings["schedule"]) =>
+    typebot &&
+    updateTypebot({
+      updates: { settings: { ...typebot.settings, schedule } },
+    });
+
   const handleGeneralSettingsChange = (general: Settings["general"]) =>
     typebot &&
     updateTypebot({ updates: { settings: { ...typebot.settings, general } } });
@@ -88,6 +96,23 @@ export const SettingsSideMenu = () => {
             )}
           </Accordion.Panel>
         </Accordion.Item>
+        <Accordion.Item className="border-0 border-t">
+          <Accordion.Trigger className="py-5">
+            <div className="flex items-center gap-3 pl-2">
+              <Calendar01Icon />
+              <h3 className="text-lg">{t("settings.sideMenu.schedule")}</h3>
+            </div>
+          </Accordion.Trigger>
+          <Accordion.Panel>
+            {typebot && (
+              <ScheduleForm
+                schedule={typebot.settings.schedule}
+                groups={typebot.groups}
+                onUpdate={updateSchedule}
+              />
+            )}
+          </Accordion.Panel>
+        </Accordion.Item>
         <Accordion.Item className="border-0 border-t last:rounded-b-none">
           <Accordion.Trigger className="py-5">
             <div className="flex items-center gap-3 pl-2">
@@ -109,6 +109,15 @@ export const SystemMessagesForm = ({
     });
   };
 
+  const updateWhatsAppListButtonLabel = (
+    whatsAppListButtonLabel: SystemMessages["whatsAppListButtonLabel"],
+  ) => {
+    onSystemMessagesChange({
+      ...systemMessages,
+      whatsAppListButtonLabel,
+    });
+  };
+
   return (
     <div className="flex flex-col gap-4">
       <Field.Root>
@@ -260,6 +269,18 @@ export const SystemMessagesForm = ({
           onValueChange={updateWhatsAppPictureChoiceSelectLabel}
         />
       </Field.Root>
+      <Field.Root>
+        <Field.Label>
+          {t(
+            "settings.sideMenu.general.systemMessages.whatsAppListButtonLabel.label",
+          )}
+        </Field.Label>
+        <DebouncedTextInput
+          defaultValue={systemMessages?.whatsAppListButtonLabel}
+          placeholder={defaultSystemMessages.whatsAppListButtonLabel}
+          onValueChange={updateWhatsAppListButtonLabel}
+        />
+      </Field.Root>
     </div>
   );
 };
@@ -0,0 +1,94 @@
+import { ORPCError } from "@orpc/server";
+import prisma from "@typebot.io/prisma";
+import { computeTypebotsDiff } from "@typebot.io/typebot/helpers/computeTypebotsDiff";
+import { isReadTypebotForbidden } from "@typebot.io/typebot/helpers/isReadTypebotForbidden";
+import { publishedTypebotSnapshotSchema } from "@typebot.io/typebot/schemas/publishedTypebotSnapshot";
+import type { User } from "@typebot.io/user/schemas";
+import { z } from "@typebot.io/zod";
+
+export const getPublishedSnapshotsDiffInputSchema = z.object({
+  typebotId: z
+    .string()
+    .describe(
+      "[Where to find my bot's ID?](../how-to#how-to-find-my-typebotid)",
+    ),
+  snapshotId: z.string(),
+  compareToSnapshotId: z
+    .string()
+    .optional()
+    .describe(
+      "Snapshot to compare with. Defaults to the snapshot published right before `snapshotId`.",
+    ),
+});
+
+export const handleGetPublishedSnapshotsDiff = async ({
+  input: { typebotId, snapshotId, compareToSnapshotId },
+  context: { user },
+}: {
+  input: z.infer<typeof getPublishedSnapshotsDiffInputSchema>;
+  context: { user: Pick<User, "id" | "email"> };
+}) => {
+  const typebot = await prisma.typebot.findUnique({
+    where: {
+      id: typebotId,
+    },
+    select: {
+      id: true,
+      collaborators: {
+        select: {
+          userId: true,
+          type: true,
+        },
+      },
+      workspace: {
+        select: {
+          isSuspended: true,
+          isPastDue: true,
+          members: {
+            select: {
+              userId: true,
+            },
+          },
+        },
+      },
+    },
+  });
+  if (!typebot || (await isReadTypebotForbidden(typebot, user)))
+    throw new ORPCError("NOT_FOUND", { message: "Typebot not found" });
+
+  const snapshot = await prisma.publishedTypebotSnapshot.findFirst({
+    where: { id: snapshotId, typebotId: typebot.id },
+  });
+  if (!snapshot)
+    throw new ORPCError("NOT_FOUND", { message: "Snapshot not found" });
+
+  const comparedSnapshot = await prisma.publishedTypebotSnapshot.findFirst({
+    where: compareToSnapshotId
+      ? { id: compareToSnapshotId, typebotId: typebot.id }
+      : { typebotId: typebot.id, createdAt: { lt: snapshot.createdAt } },
+    orderBy: { createdAt: "desc" },
+  });
+  if (compareToSnapshotId && !comparedSnapshot)
+    throw new ORPCError("NOT_FOUND", {
+      message: "Compared snapshot not found",
+    });
+
+  const parsedSnapshot = publishedTypebotSnapshotSchema.parse(snapshot);
+
+  return {
+    compareToSnapshotId: comparedSnapshot?.id ?? null,
+    diff: computeTypebotsDiff(
+      comparedSnapshot
+        ? publishedTypebotSnapshotSchema.parse(comparedSnapshot)
+        : {
+            groups: [],
+            edges: [],
+            events: null,
+            variables: [],
+            settings: {},
+            theme: {},
+          },
+      parsedSnapshot,
+    ),
+  };
+};
@@ -0,0 +1,97 @@
+import { ORPCError } from "@orpc/server";
+import { isDefined } from "@typebot.io/lib/utils";
+import prisma from "@typebot.io/prisma";
+import { isReadTypebotForbidden } from "@typebot.io/typebot/helpers/isReadTypebotForbidden";
+import type { User } from "@typebot.io/user/schemas";
+import { z } from "@typebot.io/zod";
+
+const MAX_LIMIT = 100;
+
+export const listPublishedSnapshotsInputSchema = z.object({
+  typebotId: z
+    .string()
+    .describe(
+      "[Where to find my bot's ID?](../how-to#how-to-find-my-typebotid)",
+    ),
+  limit: z.coerce.number().min(1).max(MAX_LIMIT).default(20),
+  cursor: z.coerce.number().optional(),
+});
+
+export const handleListPublishedSnapshots = async ({
+  input: { typebotId, limit, cursor },
+  context: { user },
+}: {
+  input: z.infer<typeof listPublishedSnapshotsInputSchema>;
+  context: { user: Pick<User, "id" | "email"> };
+}) => {
+  const typebot = await prisma.typebot.findUnique({
+    where: {
+      id: typebotId,
+    },
+    select: {
+      id: true,
+      publishedTypebot: {
+        select: {
+          snapshotId: true,
+        },
+      },
+      collaborators: {
+        select: {
+          userId: true,
+          type: true,
+        },
+      },
+      workspace: {
+        select: {
+          isSuspended: true,
+          isPastDue: true,
+          members: {
+            select: {
+              userId: true,
+            },
+          },
+        },
+      },
+    },
+  });
+  if (!typebot || (await isReadTypebotForbidden(typebot, user)))
+    throw new ORPCError("NOT_FOUND", { message: "Typebot not found" });
+
+  const snapshots = await prisma.publishedTypebotSnapshot.findMany({
+    take: limit + 1,
+    skip: cursor,
+    where: {
+      typebotId: typebot.id,
+    },
+    orderBy: {
+      createdAt: "desc",
+    },
+    select: {
+      id: true,
+      createdAt: true,
+      version: true,
+      restoredFromId: true,
+      author: {
+        select: {
+          id: true,
+          name: true,
+          image: true,
+        },
+      },
+    },
+  });
+
+  let nextCursor: number | undefined;
+  if (snapshots.length > limit) {
+    snapshots.pop();
+    nextCursor = (isDefined(cursor) ? cursor : 0) + limit;
+  }
+
+  return {
+    snapshots: snapshots.map((snapshot) => ({
+      ...snapshot,
+      isCurrent: snapshot.id === typebot.publishedTypebot?.snapshotId,
+    })),
+    nextCursor,
+  };
+};
@@ -2,6 +2,7 @@ import { ORPCError } from "@orpc/server";
 import { InputBlockType } from "@typebot.io/blocks-inputs/constants";
 import { env } from "@typebot.io/env";
 import { parseGroups } from "@typebot.io/groups/helpers/parseGroups";
+import type { GroupV6 } from "@typebot.io/groups/schemas";
 import prisma from "@typebot.io/prisma";
 import { Plan } from "@typebot.io/prisma/enum";
 import { computeRiskLevel } from "@typebot.io/radar/computeRiskLevel";
@@ -22,8 +23,13 @@ import { typebotV6Schema } from "@typebot.io/typebot/schemas/typebot";
 import type { User } from "@typebot.io/user/schemas";
 import { variableSchema } from "@typebot.io/variables/schemas";
 import { z } from "@typebot.io/zod";
+import {
+  findInvalidTypebotLinkMapping,
+  getMappedLinkedTypebotIds,
+} from "@/features/blocks/logic/typebotLink/helpers/findInvalidTypebotLinkMapping";
 import { parseTypebotPublishEvents } from "@/features/telemetry/helpers/parseTypebotPublishEvents";
 import { isWriteTypebotForbidden } from "../helpers/isWriteTypebotForbidden";
+import { publishTypebotSnapshot } from "../helpers/publishTypebotSnapshot";
 
 const warningSchema = z.object({
   type: z.enum(["trademarkInfringement"]),
@@ -79,9 +85,11 @@ export const handlePublishTypebot = async ({
   )
     throw new ORPCError("NOT_FOUND", { message: "Typebot not found" });
 
-  const hasFileUploadBlocks = parseGroups(existingTypebot.groups, {
+  const groups = parseGroups(existingTypebot.groups, {
     typebotVersion: existingTypebot.version,
-  }).some((group) =>
+  });
+
+  const hasFileUploadBlocks = groups.some((group) =>
     group.blocks.some((block) => block.type === InputBlockType.FILE),
   );
 
@@ -90,6 +98,22 @@ export const handlePublishTypebot = async ({
       message: "File upload blocks can't be published on the free plan",
     });
 
+  const variables = z.array(variableSchema).parse(existingTypebot.variables);
+  // Typebot link blocks are the same in V5 and V6 groups
+  const groupsWithTypebotLinks = groups as GroupV6[];
+  const invalidTypebotLinkMapping = findInvalidTypebotLinkMapping(
+    { ...existingTypebot, groups: groupsWithTypebotLinks, variables },
+    {
+      linkedTypebots: await fetchMappedLinkedTypebots(groupsWithTypebotLinks, {
+        workspaceId: existingTypebot.workspaceId,
+      }),
+    },
+  );
+  if (invalidTypebotLinkMapping)
+    throw new ORPCError("BAD_REQUEST", {
+      message: invalidTypebotLinkMapping,
+    });
+
   const typebotWasVerified =
     existingTypebot.riskLevel === -1 || existingTypebot.workspace.isVerified;
 
@@ -168,57 +192,35 @@ export const handlePublishTypebot = async ({
     hasFileUploadBlocks,
   });
 
-  if (existingTypebot.publishedTypebot)
-    await prisma.publicTypebot.updateMany({
-      where: {
-        id: existingTypebot.publishedTypebot.id,
-      },
-      data: {
-        updatedAt: new Date(),
-        version: existingTypebot.version,
-        edges: z.array(edgeSchema).parse(existingTypebot.edges),
-        groups: parseGroups(existingTypebot.groups, {
-          typebotVersion: existingTypebot.version,
-        }),
-        events:
-          (isTypebotVersionAtLeastV6(existingTypebot.version)
-            ? publicTypebotSchemaV6.shape.events
-            : z.null()
-          ).parse(existingTypebot.events) ?? undefined,
-        settings: settingsSchema.parse(existingTypebot.settings),
-        variables: z.array(variableSchema).parse(existingTypebot.variables),
-        theme: themeSchema.parse(existingTypebot.theme),
-      },
-    });
-  else {
-    await prisma.publicTypebot.createMany({
-      data: {
-        version: existingTypebot.version,
-        typebotId: existingTypebot.id,
-        edges: z.array(edgeSchema).parse(existingTypebot.edges),
-        groups: parseGroups(existingTypebot.groups, {
-          typebotVersion: existingTypebot.version,
-        }),
-        events:
-          (isTypebotVersionAtLeastV6(existingTypebot.version)
-            ? publicTypebotSchemaV6.shape.events
-            : z.null()
-          ).parse(existingTypebot.events) ?? undefined,
-        settings: settingsSchema.parse(existingTypebot.settings),
-        variables: z.array(variableSchema).parse(existingTypebot.variables),
-        theme: themeSchema.parse(existingTypebot.theme),
-      },
-    });
+  await publishTypebotSnapshot({
+    typebotId: existingTypebot.id,
+    publicTypebotId: existingTypebot.publishedTypebot?.id,
+    authorId: user.id,
+    content: {
+      version: existingTypebot.version,
+      edges: z.array(edgeSchema).parse(existingTypebot.edges),
+      groups,
+      events:
+        (isTypebotVersionAtLeastV6(existingTypebot.version)
+          ? publicTypebotSchemaV6.shape.events
+          : z.null()
+        ).parse(existingTypebot.events) ?? undefined,
+      settings: settingsSchema.parse(existingTypebot.settings),
+      variables,
+      theme: themeSchema.parse(existingTypebot.theme),
+    },
+  });
+
+  if (!existingTypebot.publishedTypebot)
     publishEvents.push({
       name: "Typebot published",
       workspaceId: existingTypebot.workspaceId,
       typebotId: existingTypebot.id,
       userId: user.id,
       data: {
-        isFirstPublish: existingTypebot.publishedTypebot ? undefined : true,
+        isFirstPublish: true,
       },
     });
-  }
 
   await trackEvents(publishEvents);
 
@@ -227,3 +229,29 @@ export const handlePublishTypebot = async ({
     warnings: warnings.length > 0 ? warnings : undefined,
   };
 };
+
+const fetchMappedLinkedTypebots = async (
+  groups: GroupV6[],
+  { workspaceId }: { workspaceId: string },
+) => {
+  const typebotIds = getMappedLinkedTypebotIds(groups);
+  if (typebotIds.length === 0) return [];
+  const linkedTypebots = await prisma.typebot.findMany({
+    where: { id: { in: typebotIds }, workspaceId },
+    select: {
+      id: true,
+      name: true,
+      variables: true,
+      publishedTypebot: { select: { variables: true } },
+    },
+  });
+  return linkedTypebots.map((linkedTypebot) => ({
+    id: linkedTypebot.id,
+    name: linkedTypebot.name,
+    variables: z
+      .array(variableSchema)
+      .parse(
+        linkedTypebot.publishedTypebot?.variables ?? linkedTypebot.variables,
+      ),
+  }));
+};
@@ -0,0 +1,92 @@
+import { ORPCError } from "@orpc/server";
+import prisma from "@typebot.io/prisma";
+import { publishedTypebotSnapshotSchema } from "@typebot.io/typebot/schemas/publishedTypebotSnapshot";
+import type { User } from "@typebot.io/user/schemas";
+import { z } from "@typebot.io/zod";
+import { isWriteTypebotForbidden } from "../helpers/isWriteTypebotForbidden";
+import { publishTypebotSnapshot } from "../helpers/publishTypebotSnapshot";
+
+export const restorePublishedSnapshotInputSchema = z.object({
+  typebotId: z
+    .string()
+    .describe(
+      "[Where to find my bot's ID?](../how-to#how-to-find-my-typebotid)",
+    ),
+  snapshotId: z.string(),
+});
+
+export const handleRestorePublishedSnapshot = async ({
+  input: { typebotId, snapshotId },
+  context: { user },
+}: {
+  input: z.infer<typeof restorePublishedSnapshotInputSchema>;
+  context: { user: Pick<User, "id"> };
+}) => {
+  const existingTypebot = await prisma.typebot.findFirst({
+    where: {
+      id: typebotId,
+    },
+    include: {
+      collaborators: true,
+      publishedTypebot: {
+        select: {
+          id: true,
+        },
+      },
+      workspace: {
+        select: {
+          isVerified: true,
+          isSuspended: true,
+          isPastDue: true,
+          members: {
+            select: {
+              userId: true,
+              role: true,
+            },
+          },
+        },
+      },
+    },
+  });
+  if (
+    !existingTypebot?.id ||
+    (await isWriteTypebotForbidden(existingTypebot, user))
+  )
+    throw new ORPCError("NOT_FOUND", { message: "Typebot not found" });
+
+  if (
+    !existingTypebot.workspace.isVerified &&
+    existingTypebot.riskLevel &&
+    existingTypebot.riskLevel > 80
+  )
+    throw new ORPCError("FORBIDDEN", {
+      message:
+        "Radar detected a potential malicious typebot. This bot is being manually reviewed by Fraud Prevention team.",
+    });
+
+  const snapshot = await prisma.publishedTypebotSnapshot.findFirst({
+    where: { id: snapshotId, typebotId: existingTypebot.id },
+  });
+  if (!snapshot)
+    throw new ORPCError("NOT_FOUND", { message: "Snapshot not found" });
+
+  const parsedSnapshot = publishedTypebotSnapshotSchema.parse(snapshot);
+
+  const newSnapshotId = await publishTypebotSnapshot({
+    typebotId: existingTypebot.id,
+    publicTypebotId: existingTypebot.publishedTypebot?.id,
+    authorId: user.id,
+    restoredFromId: snapshot.id,
+    content: {
+      version: parsedSnapshot.version,
+      groups: parsedSnapshot.groups,
+      edges: parsedSnapshot.edges,
+      events: parsedSnapshot.events ?? undefined,
+      settings: parsedSnapshot.settings,
+      variables: parsedSnapshot.variables,
+      theme: parsedSnapshot.theme,
+    },
+  });
+
+  return { message: "success" as const, snapshotId: newSnapshotId };
+};
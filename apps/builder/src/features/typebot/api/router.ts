@@ -7,11 +7,13 @@ import {
   publicTypebotSchemaV5,
   publicTypebotSchemaV6,
 } from "@typebot.io/typebot/schemas/publicTypebot";
+import { publishedTypebotSnapshotSummarySchema } from "@typebot.io/typebot/schemas/publishedTypebotSnapshot";
 import {
   typebotSchema,
   typebotV5Schema,
   typebotV6Schema,
 } from "@typebot.io/typebot/schemas/typebot";
+import { typebotsDiffSchema } from "@typebot.io/typebot/schemas/typebotsDiff";
 import { z } from "@typebot.io/zod";
 import {
   createTypebotInputSchema,
@@ -21,6 +23,10 @@ import {
   deleteTypebotInputSchema,
   handleDeleteTypebot,
 } from "./handleDeleteTypebot";
+import {
+  getPublishedSnapshotsDiffInputSchema,
+  handleGetPublishedSnapshotsDiff,
+} from "./handleGetPublishedSnapshotsDiff";
 import {
   getPublishedTypebotInputSchema,
   handleGetPublishedTypebot,
@@ -38,6 +44,10 @@ import {
   handleIsPublicIdAvailable,
   isPublicIdAvailableInputSchema,
 } from "./handleIsPublicIdAvailable";
+import {
+  handleListPublishedSnapshots,
+  listPublishedSnapshotsInputSchema,
+} from "./handleListPublishedSnapshots";
 import {
   handleListTypebots,
   listTypebotsInputSchema,
@@ -47,6 +57,10 @@ import {
   publishTypebotInputSchema,
   warningSchema,
 } from "./handlePublishTypebot";
+import {
+  handleRestorePublishedSnapshot,
+  restorePublishedSnapshotInputSchema,
+} from "./handleRestorePublishedSnapshot";
 import {
   handleUnpublishTypebot,
   unpublishTypebotInputSchema,
@@ -185,6 +199,58 @@ export const typebotRouter = {
     )
     .handler(handleGetPublishedTypebot),
 
+  listPublishedSnapshots: authenticatedProcedure
+    .route({
+      method: "GET",
+      path: "/v1/typebots/{typebotId}/publishedSnapshots",
+      summary: "List publish history",
+      description:
+        "Every publish is stored as an immutable snapshot. Snapshots are ordered by descending creation date.",
+      tags: ["Typebot"],
+    })
+    .input(listPublishedSnapshotsInputSchema)
+    .output(
+      z.object({
+        snapshots: z.array(publishedTypebotSnapshotSummarySchema),
+        nextCursor: z.number().nullish(),
+      }),
+    )
+    .handler(handleListPublishedSnapshots),
+
+  getPublishedSnapshotsDiff: authenticatedProcedure
+    .route({
+      method: "GET",
+      path: "/v1/typebots/{typebotId}/publishedSnapshots/{snapshotId}/diff",
+      summary: "Compare published snapshots",
+      tags: ["Typebot"],
+    })
+    .input(getPublishedSnapshotsDiffInputSchema)
+    .output(
+      z.object({
+        compareToSnapshotId: z.string().nullable(),
+        diff: typebotsDiffSchema,
+      }),
+    )
+    .handler(handleGetPublishedSnapshotsDiff),
+
+  restorePublishedSnapshot: authenticatedProcedure
+    .route({
+      method: "POST",
+      path: "/v1/typebots/{typebotId}/publishedSnapshots/{snapshotId}/restore",
+      summary: "Restore a published snapshot",
+      description:
+        "Republishes the content of the snapshot. A new snapshot is created, pointing to the restored one.",
+      tags: ["Typebot"],
+    })
+    .input(restorePublishedSnapshotInputSchema)
+    .output(
+      z.object({
+        message: z.literal("success"),
+        snapshotId: z.string(),
+      }),
+    )
+    .handler(handleRestorePublishedSnapshot),
+
   importTypebot: authenticatedProcedure
     .route({
       method: "POST",
@@ -14,7 +14,8 @@ export const hasDefaultConnector = (block: BlockV6) =>
     !isPictureChoiceInput(block) &&
     !isConditionBlock(block) &&
     !isCardsInput(block) &&
-    block.type !== LogicBlockType.AB_TEST) ||
+    block.type !== LogicBlockType.AB_TEST &&
+    block.type !== LogicBlockType.SWITCH) ||
   (block.type === InputBlockType.CHOICE &&
     isDefined(block.options?.dynamicVariableId)) ||
   (block.type === InputBlockType.PICTURE_CHOICE &&
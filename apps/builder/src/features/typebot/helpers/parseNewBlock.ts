@@ -13,6 +13,7 @@ const parseDefaultItems = (type: BlockWithItems["type"]): ItemV6[] => {
     case InputBlockType.CHOICE:
     case InputBlockType.PICTURE_CHOICE:
     case LogicBlockType.CONDITION:
+    case LogicBlockType.SWITCH:
       return [{ id: createId() }];
     case InputBlockType.CARDS:
       return [
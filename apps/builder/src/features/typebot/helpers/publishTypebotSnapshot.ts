@@ -0,0 +1,60 @@
+import { createId } from "@paralleldrive/cuid2";
+import prisma from "@typebot.io/prisma";
+import type { Prisma } from "@typebot.io/prisma/types";
+
+type PublishedContent = Pick<
+  Prisma.Prisma.PublicTypebotCreateManyInput,
+  "version" | "groups" | "edges" | "events" | "settings" | "variables" | "theme"
+>;
+
+type Props = {
+  typebotId: string;
+  publicTypebotId: string | undefined;
+  authorId: string;
+  restoredFromId?: string;
+  content: PublishedContent;
+};
+
+/**
+ * Stores an immutable snapshot of the content and makes it the live version
+ * of the typebot.
+ */
+export const publishTypebotSnapshot = async ({
+  typebotId,
+  publicTypebotId,
+  authorId,
+  restoredFromId,
+  content,
+}: Props) => {
+  const snapshotId = createId();
+  await prisma.$transaction([
+    prisma.publishedTypebotSnapshot.create({
+      data: {
+        ...content,
+        id: snapshotId,
+        typebotId,
+        authorId,
+        restoredFromId,
+      },
+    }),
+    publicTypebotId
+      ? prisma.publicTypebot.updateMany({
+          where: {
+            id: publicTypebotId,
+          },
+          data: {
+            ...content,
+            snapshotId,
+            updatedAt: new Date(),
+          },
+        })
+      : prisma.publicTypebot.createMany({
+          data: {
+            ...content,
+            typebotId,
+            snapshotId,
+          },
+        }),
+  ]);
+  return snapshotId;
+};
@@ -37,6 +37,18 @@ export const sanitizeSettings = (
               : false,
       }
     : undefined,
+  telegram: settings.telegram
+    ? {
+        ...settings.telegram,
+        isEnabled: mode === "create" ? false : settings.telegram.isEnabled,
+      }
+    : undefined,
+  sms: settings.sms
+    ? {
+        ...settings.sms,
+        isEnabled: mode === "create" ? false : settings.sms.isEnabled,
+      }
+    : undefined,
 });
 
 export const sanitizeGroups = async (
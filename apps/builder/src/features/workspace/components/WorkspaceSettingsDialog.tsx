@@ -7,11 +7,13 @@ import { HardDriveIcon } from "@typebot.io/ui/icons/HardDriveIcon";
 import { Settings01Icon } from "@typebot.io/ui/icons/Settings01Icon";
 import { UsersIcon } from "@typebot.io/ui/icons/UsersIcon";
 import { Wallet01Icon } from "@typebot.io/ui/icons/Wallet01Icon";
+import { WebhookIcon } from "@typebot.io/ui/icons/WebhookIcon";
 import type { ClientUser } from "@typebot.io/user/schemas";
 import { useState } from "react";
 import { EmojiOrImageIcon } from "@/components/EmojiOrImageIcon";
 import { BillingSettingsLayout } from "@/features/billing/components/BillingSettingsLayout";
 import { CredentialsSettingsForm } from "@/features/credentials/components/CredentialsSettingsForm";
+import { ResultWebhooksList } from "@/features/results/components/webhooks/ResultWebhooksList";
 import { MyAccountForm } from "@/features/user/components/MyAccountForm";
 import { UserPreferencesForm } from "@/features/user/components/UserPreferencesForm";
 import packageJson from "../../../../../../package.json";
@@ -33,7 +35,8 @@ type SettingsTab =
   | "workspace-settings"
   | "members"
   | "billing"
-  | "credentials";
+  | "credentials"
+  | "result-webhooks";
 
 export const WorkspaceSettingsDialog = ({
   isOpen,
@@ -130,6 +133,19 @@ export const WorkspaceSettingsDialog = ({
                   {t("workspace.settings.modal.menu.billingAndUsage.label")}
                 </Button>
               )}
+              {currentUserMode === "write" && (
+                <Button
+                  variant={
+                    selectedTab === "result-webhooks" ? "outline" : "ghost"
+                  }
+                  onClick={() => setSelectedTab("result-webhooks")}
+                  className="justify-start pl-4"
+                  size="sm"
+                >
+                  <WebhookIcon />
+                  {t("workspace.settings.modal.menu.resultWebhooks.label")}
+                </Button>
+              )}
             </div>
           </div>
 
@@ -143,7 +159,11 @@ export const WorkspaceSettingsDialog = ({
         </div>
 
         <div className="flex flex-1 p-10">
-          <SettingsContent tab={selectedTab} onClose={onClose} />
+          <SettingsContent
+            tab={selectedTab}
+            workspaceId={workspace.id}
+            onClose={onClose}
+          />
         </div>
       </Dialog.Popup>
     </Dialog.Root>
@@ -152,9 +172,11 @@ export const WorkspaceSettingsDialog = ({
 
 const SettingsContent = ({
   tab,
+  workspaceId,
   onClose,
 }: {
   tab: SettingsTab;
+  workspaceId: string;
   onClose: () => void;
 }) => {
   switch (tab) {
@@ -170,6 +192,8 @@ const SettingsContent = ({
       return <BillingSettingsLayout />;
     case "credentials":
       return <CredentialsSettingsForm />;
+    case "result-webhooks":
+      return <ResultWebhooksList workspaceId={workspaceId} />;
     default:
       return null;
   }
@@ -0,0 +1,5 @@
+import { InboxPage } from "@/features/handoffs/components/InboxPage";
+
+export default function Page() {
+  return <InboxPage />;
+}
@@ -7,6 +7,7 @@ import { authenticateWithBearerToken } from "@typebot.io/auth/helpers/authentica
 import {
   audioMessageSchema,
   commandMessageSchema,
+  inactivityMessageSchema,
   startFromEventSchema,
   startFromGroupSchema,
   textMessageSchema,
@@ -58,6 +59,9 @@ const handler = new OpenAPIHandler(appRouter, {
           Command: {
             schema: commandMessageSchema,
           },
+          Inactivity: {
+            schema: inactivityMessageSchema,
+          },
           Group: {
             schema: startFromGroupSchema,
           },
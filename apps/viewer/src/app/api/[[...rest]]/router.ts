@@ -3,7 +3,10 @@ import {
   protectedProcedure,
   publicProcedure,
 } from "@typebot.io/config/orpc/viewer/middlewares";
+import { chatEmailRouter } from "@typebot.io/email-channel/api/router";
 import { fileUploadViewerRouter } from "@typebot.io/file-input-block/api/router";
+import { chatSmsRouter } from "@typebot.io/sms/api/router";
+import { chatTelegramRouter } from "@typebot.io/telegram/api/router";
 import { webhookRouter } from "@typebot.io/webhook-block/api/router";
 import { chatWhatsAppRouter } from "@typebot.io/whatsapp/api/router";
 import { z } from "@typebot.io/zod";
@@ -64,6 +67,9 @@ export const appRouter = {
   },
   webhook: webhookRouter,
   chatWhatsAppRouter,
+  chatTelegramRouter,
+  chatEmailRouter,
+  chatSmsRouter,
 };
 
 export type AppRouter = typeof appRouter;
@@ -26,12 +26,27 @@ import {
   ExportResultsWorkflowLayer,
   SendExportToEmailWorkflowLayer,
 } from "@typebot.io/results/workflows/exportResultsWorkflow";
+import {
+  ResultAbandonmentWorkflowLayer,
+  ResultWebhookDeliveryWorkflowLayer,
+  ResultWebhookEventWorkflowLayer,
+} from "@typebot.io/results/workflows/resultWebhooksWorkflow";
 import {
   ResultsWorkflowsRpc,
   ResultsWorkflowsRpcLayer,
   RPC_SECRET_HEADER_KEY,
 } from "@typebot.io/results/workflows/rpc";
+import {
+  ResultsExportSchedulerLayer,
+  ScheduledExportWorkflowLayer,
+} from "@typebot.io/results/workflows/scheduledExportWorkflow";
 import { TypebotServiceLayer } from "@typebot.io/typebot/services/TypebotService";
+import { WhatsAppCampaignWorkflowLayer } from "@typebot.io/whatsapp/workflows/campaignWorkflow";
+import { WhatsAppInactivityWorkflowLayer } from "@typebot.io/whatsapp/workflows/inactivityWorkflow";
+import {
+  WhatsAppWorkflowsRpc,
+  WhatsAppWorkflowsRpcLayer,
+} from "@typebot.io/whatsapp/workflows/rpc";
 import { Effect, Equivalence, Layer, Redacted } from "effect";
 
 const WorkflowEngineLayer = ClusterWorkflowEngine.layer.pipe(
@@ -51,6 +66,13 @@ const WorkflowEngineLayer = ClusterWorkflowEngine.layer.pipe(
 const WorkflowLayer = Layer.mergeAll(
   ExportResultsWorkflowLayer,
   SendExportToEmailWorkflowLayer,
+  ScheduledExportWorkflowLayer,
+  ResultsExportSchedulerLayer,
+  ResultWebhookEventWorkflowLayer,
+  ResultWebhookDeliveryWorkflowLayer,
+  ResultAbandonmentWorkflowLayer,
+  WhatsAppInactivityWorkflowLayer,
+  WhatsAppCampaignWorkflowLayer,
 ).pipe(Layer.provideMerge(WorkflowEngineLayer));
 
 const PrismaLayer = Layer.provide(
@@ -88,12 +110,13 @@ const AuthMiddleware = HttpLayerRouter.middleware(
   }),
 ).layer;
 
-const ResultsRpcRouterLayer = RpcServer.layerHttpRouter({
-  group: ResultsWorkflowsRpc,
+const RpcRouterLayer = RpcServer.layerHttpRouter({
+  group: ResultsWorkflowsRpc.merge(WhatsAppWorkflowsRpc),
   path: "/rpc",
   protocol: "http",
 }).pipe(
   Layer.provide(ResultsWorkflowsRpcLayer),
+  Layer.provide(WhatsAppWorkflowsRpcLayer),
   Layer.provide(AuthMiddleware),
   Layer.provide(RpcSerialization.layerNdjson),
 );
@@ -113,7 +136,7 @@ const OtelNodeSdkLive = NodeSdk.layer(() => ({
   logRecordProcessor: new BatchLogRecordProcessor(new OTLPLogExporter()),
 }));
 
-const Routes = Layer.mergeAll(HealthRoute, ResultsRpcRouterLayer);
+const Routes = Layer.mergeAll(HealthRoute, RpcRouterLayer);
 
 const Main = HttpLayerRouter.serve(Routes).pipe(
   Layer.provide(WorkflowLayer),
@@ -103,10 +103,12 @@ export const blockTypeHasItems = (
   | LogicBlockType.CONDITION
   | InputBlockType.CHOICE
   | LogicBlockType.AB_TEST
+  | LogicBlockType.SWITCH
   | InputBlockType.CARDS =>
   type === LogicBlockType.CONDITION ||
   type === InputBlockType.CHOICE ||
   type === LogicBlockType.AB_TEST ||
+  type === LogicBlockType.SWITCH ||
   type === InputBlockType.PICTURE_CHOICE ||
   type === InputBlockType.CARDS;
 
@@ -133,4 +135,5 @@ export const shouldOpenBlockSettingsOnCreation = (
 
 export const shouldOpenItemSettingsOnCreation = (
   type: Block["type"] | undefined,
-) => type && type === LogicBlockType.CONDITION;
+) =>
+  type && (type === LogicBlockType.CONDITION || type === LogicBlockType.SWITCH);
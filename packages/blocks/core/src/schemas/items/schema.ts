@@ -6,11 +6,13 @@ import {
   bItemSchemas,
 } from "@typebot.io/blocks-logic/abTest/schema";
 import { conditionItemSchemas } from "@typebot.io/blocks-logic/condition/schema";
+import { switchItemSchemas } from "@typebot.io/blocks-logic/switch/schema";
 import { z } from "@typebot.io/zod";
 
 const itemSchemas = {
   v5: z.union([
     buttonItemSchemas.v5,
+    switchItemSchemas.v5,
     conditionItemSchemas.v5,
     pictureChoiceItemSchemas.v5,
     aItemSchemas.v5,
@@ -18,6 +20,7 @@ const itemSchemas = {
   ]),
   v6: z.union([
     buttonItemSchemas.v6,
+    switchItemSchemas.v6,
     conditionItemSchemas.v6,
     pictureChoiceItemSchemas.v6,
     aItemSchemas.v6,
@@ -14,6 +14,8 @@ export enum InputBlockType {
   RATING = "rating input",
   FILE = "file input",
   CARDS = "cards",
+  LOCATION = "location input",
+  CONTACT = "contact input",
 }
 
 export const replyEventInputTypeFromEnum = {
@@ -30,4 +32,6 @@ export const replyEventInputTypeFromEnum = {
   [InputBlockType.RATING]: "rating",
   [InputBlockType.FILE]: "file",
   [InputBlockType.CARDS]: "cards",
+  [InputBlockType.LOCATION]: "location",
+  [InputBlockType.CONTACT]: "contact",
 };
@@ -0,0 +1,14 @@
+import { defaultButtonLabel } from "../constants";
+import type { ContactInputBlock } from "./schema";
+
+export const contactMappableFields = ["Name", "Phone number"] as const;
+
+export const defaultContactInputOptions = {
+  labels: {
+    button: defaultButtonLabel,
+    namePlaceholder: "Contact name",
+    phonePlaceholder: "Contact phone number",
+  },
+  retryMessageContent:
+    "This contact doesn't seem to have a valid phone number. Can you share it again?",
+} as const satisfies ContactInputBlock["options"];
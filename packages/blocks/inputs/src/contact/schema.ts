@@ -0,0 +1,36 @@
+import {
+  blockBaseSchema,
+  optionBaseSchema,
+} from "@typebot.io/blocks-base/schemas";
+import { z } from "@typebot.io/zod";
+import { InputBlockType } from "../constants";
+import { contactMappableFields } from "./constants";
+
+export const contactInputOptionsSchema = optionBaseSchema.extend({
+  labels: z
+    .object({
+      button: z.string().optional(),
+      namePlaceholder: z.string().optional(),
+      phonePlaceholder: z.string().optional(),
+    })
+    .optional(),
+  retryMessageContent: z.string().optional(),
+  saveResponseMapping: z
+    .array(
+      z.object({
+        field: z.enum(contactMappableFields).optional(),
+        variableId: z.string().optional(),
+      }),
+    )
+    .optional(),
+});
+
+export const contactInputSchema = blockBaseSchema.merge(
+  z.object({
+    type: z.enum([InputBlockType.CONTACT]),
+    options: contactInputOptionsSchema.optional(),
+  }),
+);
+
+export type ContactInputBlock = z.infer<typeof contactInputSchema>;
+export type ContactInputOptions = z.infer<typeof contactInputOptionsSchema>;
@@ -0,0 +1,16 @@
+import type { LocationInputBlock } from "./schema";
+
+export const locationMappableFields = [
+  "Latitude",
+  "Longitude",
+  "Address",
+  "Name",
+] as const;
+
+export const defaultLocationInputOptions = {
+  labels: {
+    button: "Send location",
+    shareButton: "Share my location",
+    placeholder: "Search an address...",
+  },
+} as const satisfies LocationInputBlock["options"];
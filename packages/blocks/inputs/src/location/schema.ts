@@ -0,0 +1,35 @@
+import {
+  blockBaseSchema,
+  optionBaseSchema,
+} from "@typebot.io/blocks-base/schemas";
+import { z } from "@typebot.io/zod";
+import { InputBlockType } from "../constants";
+import { locationMappableFields } from "./constants";
+
+export const locationInputOptionsSchema = optionBaseSchema.extend({
+  labels: z
+    .object({
+      button: z.string().optional(),
+      shareButton: z.string().optional(),
+      placeholder: z.string().optional(),
+    })
+    .optional(),
+  saveResponseMapping: z
+    .array(
+      z.object({
+        field: z.enum(locationMappableFields).optional(),
+        variableId: z.string().optional(),
+      }),
+    )
+    .optional(),
+});
+
+export const locationInputSchema = blockBaseSchema.merge(
+  z.object({
+    type: z.enum([InputBlockType.LOCATION]),
+    options: locationInputOptionsSchema.optional(),
+  }),
+);
+
+export type LocationInputBlock = z.infer<typeof locationInputSchema>;
+export type LocationInputOptions = z.infer<typeof locationInputOptionsSchema>;
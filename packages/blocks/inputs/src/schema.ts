@@ -1,9 +1,11 @@
 import { z } from "@typebot.io/zod";
 import { cardsBlockSchema } from "./cards/schema";
 import { buttonsInputSchemas } from "./choice/schema";
+import { contactInputSchema } from "./contact/schema";
 import { dateInputSchema } from "./date/schema";
 import { emailInputSchema } from "./email/schema";
 import { fileInputBlockSchemas } from "./file/schema";
+import { locationInputSchema } from "./location/schema";
 import { numberInputSchema } from "./number/schema";
 import { paymentInputSchema } from "./payment/schema";
 import { phoneNumberInputBlockSchema } from "./phone/schema";
@@ -24,6 +26,8 @@ const inputBlockSchemas = [
   paymentInputSchema,
   ratingInputBlockSchema,
   cardsBlockSchema,
+  locationInputSchema,
+  contactInputSchema,
 ] as const;
 
 export const inputBlockV5Schema = z.discriminatedUnion("type", [
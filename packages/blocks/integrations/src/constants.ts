@@ -9,4 +9,5 @@ export enum IntegrationBlockType {
   PABBLY_CONNECT = "Pabbly",
   CHATWOOT = "Chatwoot",
   PIXEL = "Pixel",
+  WHATSAPP_TEMPLATE = "WhatsApp template",
 }
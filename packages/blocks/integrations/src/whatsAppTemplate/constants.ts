@@ -0,0 +1,17 @@
+import type { WhatsAppTemplateBlock } from "./schema";
+
+export const whatsAppTemplateHeaderTypes = [
+  "text",
+  "image",
+  "video",
+  "document",
+] as const;
+
+export const whatsAppTemplateButtonTypes = ["url", "quick_reply"] as const;
+
+export const defaultWhatsAppTemplateOptions = {
+  languageCode: "en_US",
+} as const satisfies WhatsAppTemplateBlock["options"];
+
+export const defaultWhatsAppTemplateButtonType =
+  "url" as const satisfies (typeof whatsAppTemplateButtonTypes)[number];
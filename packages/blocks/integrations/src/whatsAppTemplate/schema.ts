@@ -0,0 +1,45 @@
+import { blockBaseSchema } from "@typebot.io/blocks-base/schemas";
+import { z } from "@typebot.io/zod";
+import { IntegrationBlockType } from "../constants";
+import {
+  whatsAppTemplateButtonTypes,
+  whatsAppTemplateHeaderTypes,
+} from "./constants";
+
+export const whatsAppTemplateOptionsSchema = z.object({
+  templateName: z.string().optional(),
+  languageCode: z.string().optional(),
+  header: z
+    .object({
+      type: z.enum(whatsAppTemplateHeaderTypes).optional(),
+      value: z.string().optional(),
+    })
+    .optional(),
+  bodyParameters: z
+    .array(
+      z.object({
+        id: z.string(),
+        value: z.string().optional(),
+      }),
+    )
+    .optional(),
+  buttonParameters: z
+    .array(
+      z.object({
+        id: z.string(),
+        type: z.enum(whatsAppTemplateButtonTypes).optional(),
+        index: z.number().optional(),
+        value: z.string().optional(),
+      }),
+    )
+    .optional(),
+});
+
+export const whatsAppTemplateBlockSchema = blockBaseSchema.merge(
+  z.object({
+    type: z.enum([IntegrationBlockType.WHATSAPP_TEMPLATE]),
+    options: whatsAppTemplateOptionsSchema.optional(),
+  }),
+);
+
+export type WhatsAppTemplateBlock = z.infer<typeof whatsAppTemplateBlockSchema>;
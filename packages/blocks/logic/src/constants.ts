@@ -9,4 +9,8 @@ export enum LogicBlockType {
   WEBHOOK = "webhook",
   JUMP = "Jump",
   RETURN = "Return",
+  FOR_EACH = "For each",
+  SWITCH = "Switch",
+  HANDOFF = "Handoff",
+  TAG_RESULT = "Tag result",
 }
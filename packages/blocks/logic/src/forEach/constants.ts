@@ -0,0 +1,7 @@
+import type { ForEachBlock } from "./schema";
+
+export const maxForEachIterations = 1000;
+
+export const defaultForEachOptions = {
+  maxIterations: 100,
+} as const satisfies ForEachBlock["options"];
@@ -0,0 +1,20 @@
+import { blockBaseSchema } from "@typebot.io/blocks-base/schemas";
+import { z } from "@typebot.io/zod";
+import { LogicBlockType } from "../constants";
+
+export const forEachOptionsSchema = z.object({
+  listVariableId: z.string().optional(),
+  itemVariableId: z.string().optional(),
+  indexVariableId: z.string().optional(),
+  groupId: z.string().optional(),
+  maxIterations: z.number().optional(),
+});
+
+export const forEachBlockSchema = blockBaseSchema.merge(
+  z.object({
+    type: z.enum([LogicBlockType.FOR_EACH]),
+    options: forEachOptionsSchema.optional(),
+  }),
+);
+
+export type ForEachBlock = z.infer<typeof forEachBlockSchema>;
@@ -0,0 +1,5 @@
+import type { HandoffBlock } from "./schema";
+
+export const defaultHandoffOptions = {
+  inputPlaceholder: "Type a message...",
+} as const satisfies HandoffBlock["options"];
@@ -0,0 +1,16 @@
+import { blockBaseSchema } from "@typebot.io/blocks-base/schemas";
+import { z } from "@typebot.io/zod";
+import { LogicBlockType } from "../constants";
+
+export const handoffOptionsSchema = z.object({
+  inputPlaceholder: z.string().optional(),
+});
+
+export const handoffBlockSchema = blockBaseSchema.merge(
+  z.object({
+    type: z.enum([LogicBlockType.HANDOFF]),
+    options: handoffOptionsSchema.optional(),
+  }),
+);
+
+export type HandoffBlock = z.infer<typeof handoffBlockSchema>;
@@ -1,11 +1,15 @@
 import { z } from "@typebot.io/zod";
 import { abTestBlockSchemas } from "./abTest/schema";
 import { conditionBlockSchemas } from "./condition/schema";
+import { forEachBlockSchema } from "./forEach/schema";
+import { handoffBlockSchema } from "./handoff/schema";
 import { jumpBlockSchema } from "./jump/schema";
 import { redirectBlockSchema } from "./redirect/schema";
 import { returnBlockSchema } from "./return/schema";
 import { scriptBlockSchema } from "./script/schema";
 import { setVariableBlockSchema } from "./setVariable/schema";
+import { switchBlockSchemas } from "./switch/schema";
+import { tagResultBlockSchema } from "./tagResult/schema";
 import { typebotLinkBlockSchema } from "./typebotLink/schema";
 import { waitBlockSchema } from "./wait/schema";
 import { webhookBlockSchema } from "./webhook/schema";
@@ -18,12 +22,14 @@ const logicBlockSchemas = [
   waitBlockSchema,
   jumpBlockSchema,
   returnBlockSchema,
+  forEachBlockSchema,
 ] as const;
 
 export const logicBlockV5Schema = z.discriminatedUnion("type", [
   ...logicBlockSchemas,
   conditionBlockSchemas.v5,
   abTestBlockSchemas.v5,
+  switchBlockSchemas.v5,
 ]);
 export type LogicBlockV5 = z.infer<typeof logicBlockV5Schema>;
 
@@ -31,7 +37,10 @@ export const logicBlockV6Schema = z.discriminatedUnion("type", [
   ...logicBlockSchemas,
   conditionBlockSchemas.v6,
   abTestBlockSchemas.v6,
+  switchBlockSchemas.v6,
   webhookBlockSchema,
+  handoffBlockSchema,
+  tagResultBlockSchema,
 ]);
 export type LogicBlockV6 = z.infer<typeof logicBlockV6Schema>;
 
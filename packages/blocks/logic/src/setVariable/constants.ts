@@ -13,6 +13,9 @@ export const valueTypes = [
   "Today",
   "Yesterday",
   "Tomorrow",
+  "Date add/subtract",
+  "Date difference",
+  "Format date",
   "Random ID",
   "Moment of the day",
   "Map item with same index",
@@ -50,6 +53,22 @@ export const defaultSetVariableOptions = {
   isCode: false,
 } as const satisfies SetVariableBlock["options"];
 
+export const dateUnits = [
+  "seconds",
+  "minutes",
+  "hours",
+  "days",
+  "business days",
+  "weeks",
+  "months",
+  "years",
+] as const;
+
+export const defaultDateOperationOptions = {
+  unit: "days",
+  format: "yyyy-MM-dd HH:mm",
+} as const;
+
 export const whatsAppSetVariableTypes = [
   "Phone number",
   "Contact name",
@@ -1,7 +1,7 @@
 import { blockBaseSchema } from "@typebot.io/blocks-base/schemas";
 import { z } from "@typebot.io/zod";
 import { LogicBlockType } from "../constants";
-import { valueTypesWithNoOptions } from "./constants";
+import { dateUnits, valueTypesWithNoOptions } from "./constants";
 
 const baseOptions = z.object({
   variableId: z.string().optional(),
@@ -28,6 +28,41 @@ const dateSetVariableOptionsSchema = baseOptions.extend({
   timeZone: z.string().optional(),
 });
 
+const dateAddSetVariableOptionsSchema = baseOptions.extend({
+  type: z.literal("Date add/subtract"),
+  date: z
+    .string()
+    .optional()
+    .describe("Date to start from. Defaults to now if empty."),
+  amount: z
+    .string()
+    .optional()
+    .describe("Number of units to add. Use a negative number to subtract."),
+  unit: z.enum(dateUnits).optional(),
+  timeZone: z.string().optional(),
+});
+
+const dateDifferenceSetVariableOptionsSchema = baseOptions.extend({
+  type: z.literal("Date difference"),
+  date: z.string().optional(),
+  compareDate: z
+    .string()
+    .optional()
+    .describe("Date to subtract from `date`. Defaults to now if empty."),
+  unit: z.enum(dateUnits).optional(),
+});
+
+const formatDateSetVariableOptionsSchema = baseOptions.extend({
+  type: z.literal("Format date"),
+  date: z
+    .string()
+    .optional()
+    .describe("Date to format. Defaults to now if empty."),
+  format: z.string().optional().describe("date-fns format pattern"),
+  locale: z.string().optional(),
+  timeZone: z.string().optional(),
+});
+
 const customSetVariableOptionsSchema = baseOptions.extend({
   expressionToEvaluate: z.string().optional(),
   isCode: z.boolean().optional(),
@@ -59,6 +94,9 @@ export const setVariableOptionsSchema = z.discriminatedUnion("type", [
     type: z.literal("Custom"),
   }),
   dateSetVariableOptionsSchema,
+  dateAddSetVariableOptionsSchema,
+  dateDifferenceSetVariableOptionsSchema,
+  formatDateSetVariableOptionsSchema,
   basicSetVariableOptionsSchema,
   mapListItemsOptionsSchema,
   appendItemToListOptionsSchema,
@@ -0,0 +1,7 @@
+import type { SwitchBlock } from "./schema";
+
+export const switchMatchTypes = ["Exact", "Regex", "Range", "In list"] as const;
+
+export const defaultSwitchItemContent = {
+  matchType: "Exact",
+} as const satisfies SwitchBlock["items"][number]["content"];
@@ -0,0 +1,65 @@
+import {
+  blockBaseSchema,
+  itemBaseSchemas,
+} from "@typebot.io/blocks-base/schemas";
+import { z } from "@typebot.io/zod";
+import { LogicBlockType } from "../constants";
+import { switchMatchTypes } from "./constants";
+
+export const switchCaseSchema = z.object({
+  matchType: z.enum(switchMatchTypes).optional(),
+  value: z
+    .string()
+    .optional()
+    .describe("Exact value, regex or comma separated list of values"),
+  min: z.string().optional(),
+  max: z.string().optional(),
+});
+export type SwitchCase = z.infer<typeof switchCaseSchema>;
+
+export const switchItemSchemas = {
+  v5: itemBaseSchemas.v5.merge(
+    z.object({
+      content: switchCaseSchema.optional(),
+    }),
+  ),
+  v6: itemBaseSchemas.v6.merge(
+    z.object({
+      content: switchCaseSchema.optional(),
+    }),
+  ),
+};
+
+export const switchItemSchema = z.union([
+  switchItemSchemas.v5,
+  switchItemSchemas.v6,
+]);
+
+const switchOptionsSchema = z.object({
+  variableId: z.string().optional(),
+});
+
+export const switchBlockSchemas = {
+  v5: blockBaseSchema.merge(
+    z.object({
+      type: z.enum([LogicBlockType.SWITCH]),
+      items: z.array(switchItemSchemas.v5),
+      options: switchOptionsSchema.optional(),
+    }),
+  ),
+  v6: blockBaseSchema.merge(
+    z.object({
+      type: z.enum([LogicBlockType.SWITCH]),
+      items: z.array(switchItemSchemas.v6),
+      options: switchOptionsSchema.optional(),
+    }),
+  ),
+};
+
+export const switchBlockSchema = z.union([
+  switchBlockSchemas.v5,
+  switchBlockSchemas.v6,
+]);
+
+export type SwitchItem = z.infer<typeof switchItemSchema>;
+export type SwitchBlock = z.infer<typeof switchBlockSchema>;
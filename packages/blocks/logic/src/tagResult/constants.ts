@@ -0,0 +1 @@
+export const resultStatuses = ["NEW", "IN_PROGRESS", "DONE"] as const;
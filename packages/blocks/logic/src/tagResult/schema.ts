@@ -0,0 +1,20 @@
+import { blockBaseSchema } from "@typebot.io/blocks-base/schemas";
+import { z } from "@typebot.io/zod";
+import { LogicBlockType } from "../constants";
+import { resultStatuses } from "./constants";
+
+export const tagResultOptionsSchema = z.object({
+  tagsToAdd: z.array(z.string()).optional(),
+  tagsToRemove: z.array(z.string()).optional(),
+  status: z.enum(resultStatuses).optional(),
+  notes: z.string().optional(),
+});
+
+export const tagResultBlockSchema = blockBaseSchema.merge(
+  z.object({
+    type: z.enum([LogicBlockType.TAG_RESULT]),
+    options: tagResultOptionsSchema.optional(),
+  }),
+);
+
+export type TagResultBlock = z.infer<typeof tagResultBlockSchema>;
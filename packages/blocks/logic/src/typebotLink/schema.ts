@@ -2,10 +2,27 @@ import { blockBaseSchema } from "@typebot.io/blocks-base/schemas";
 import { z } from "@typebot.io/zod";
 import { LogicBlockType } from "../constants";
 
+const variableMappingSchema = z.object({
+  id: z.string(),
+  parentVariableId: z.string().optional(),
+  childVariableId: z.string().optional(),
+});
+export type VariableMapping = z.infer<typeof variableMappingSchema>;
+
 export const typebotLinkOptionsSchema = z.object({
   typebotId: z.string().optional(),
   groupId: z.string().optional(),
   mergeResults: z.boolean().optional(),
+  inputMappings: z
+    .array(variableMappingSchema)
+    .optional()
+    .describe("Parent variable values to set on the linked typebot variables"),
+  outputMappings: z
+    .array(variableMappingSchema)
+    .optional()
+    .describe(
+      "Linked typebot variable values to set back on the parent variables when it returns",
+    ),
 });
 
 export const typebotLinkBlockSchema = blockBaseSchema.merge(
@@ -1,12 +1,17 @@
 import { ORPCError } from "@orpc/server";
 import { LogicBlockType } from "@typebot.io/blocks-logic/constants";
+import { parseExternalUserIdFromSessionId } from "@typebot.io/channels/getChannelSessionId";
 import { getSession } from "@typebot.io/chat-session/queries/getSession";
+import { resumeEmailFlow } from "@typebot.io/email-channel/resumeEmailFlow";
 import { env } from "@typebot.io/env";
 import { parseGroups } from "@typebot.io/groups/helpers/parseGroups";
 import { byId } from "@typebot.io/lib/utils";
 import prisma from "@typebot.io/prisma";
 import type { Prisma } from "@typebot.io/prisma/types";
 import { isTypebotVersionAtLeastV6 } from "@typebot.io/schemas/helpers/isTypebotVersionAtLeastV6";
+import type { Settings } from "@typebot.io/settings/schemas";
+import { resumeSmsFlow } from "@typebot.io/sms/resumeSmsFlow";
+import { resumeTelegramFlow } from "@typebot.io/telegram/resumeTelegramFlow";
 import { isReadTypebotForbidden } from "@typebot.io/typebot/helpers/isReadTypebotForbidden";
 import { resumeWhatsAppFlow } from "@typebot.io/whatsapp/resumeWhatsAppFlow";
 import { z } from "@typebot.io/zod";
@@ -110,7 +115,7 @@ export const handleExecuteWebhook = async ({
         message: "Found WA session but no credentialsId in typebot",
       });
 
-    const from = chatSession.id.split("-").at(-1);
+    const from = parseExternalUserIdFromSessionId(chatSession.id);
     if (!from)
       throw new ORPCError("INTERNAL_SERVER_ERROR", {
         message:
@@ -124,7 +129,7 @@ export const handleExecuteWebhook = async ({
           timestamp: new Date().toISOString(),
           type: "webhook",
           webhook: {
-            data: parseBodyForWhatsApp(body),
+            data: parseBodyForChannel(body),
           },
         },
       ],
@@ -137,6 +142,84 @@ export const handleExecuteWebhook = async ({
     return { message: "OK" };
   }
 
+  if (chatSession?.state?.channel?.type === "telegram") {
+    const credentialsId = (typebot.settings as Settings).telegram
+      ?.credentialsId;
+    if (!credentialsId)
+      throw new ORPCError("INTERNAL_SERVER_ERROR", {
+        message: "Found Telegram session but no credentialsId in typebot",
+      });
+
+    await resumeTelegramFlow({
+      receivedMessages: [
+        {
+          type: "webhook",
+          webhook: {
+            data: parseBodyForChannel(body),
+          },
+        },
+      ],
+      workspaceId: typebot.workspace.id,
+      sessionId: chatSession.id,
+      chatId: chatSession.state.channel.contact.id,
+      credentialsId,
+      callFrom: "webhook",
+    });
+
+    return { message: "OK" };
+  }
+
+  if (chatSession?.state?.channel?.type === "sms") {
+    const credentialsId = (typebot.settings as Settings).sms?.credentialsId;
+    if (!credentialsId)
+      throw new ORPCError("INTERNAL_SERVER_ERROR", {
+        message: "Found SMS session but no credentialsId in typebot",
+      });
+
+    await resumeSmsFlow({
+      receivedMessages: [
+        {
+          type: "webhook",
+          webhook: {
+            data: parseBodyForChannel(body),
+          },
+        },
+      ],
+      workspaceId: typebot.workspace.id,
+      sessionId: chatSession.id,
+      phoneNumber: chatSession.state.channel.contact.id,
+      credentialsId,
+      callFrom: "webhook",
+    });
+
+    return { message: "OK" };
+  }
+
+  if (chatSession?.state?.channel?.type === "email") {
+    const { contact, thread } = chatSession.state.channel;
+    if (!thread)
+      throw new ORPCError("INTERNAL_SERVER_ERROR", {
+        message: "Found email session but no thread in session state",
+      });
+
+    await resumeEmailFlow({
+      receivedMessages: [
+        {
+          type: "webhook",
+          webhook: {
+            data: parseBodyForChannel(body),
+          },
+        },
+      ],
+      sessionId: chatSession.id,
+      to: contact.id,
+      thread,
+      callFrom: "webhook",
+    });
+
+    return { message: "OK" };
+  }
+
   try {
     await PartySocket.fetch(
       { host: env.NEXT_PUBLIC_PARTYKIT_HOST, room: `${resultId}/webhooks` },
@@ -155,7 +238,7 @@ export const handleExecuteWebhook = async ({
   return { message: "OK" };
 };
 
-const parseBodyForWhatsApp = (body: unknown): string | undefined => {
+const parseBodyForChannel = (body: unknown): string | undefined => {
   if (!body) return;
   return typeof body === "string"
     ? JSON.stringify({ data: JSON.parse(body) })
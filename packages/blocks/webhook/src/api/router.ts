@@ -20,7 +20,7 @@ export const webhookRouter = {
       path: "/v1/typebots/{typebotId}/blocks/{blockId}/results/{resultId}/executeWebhook",
       summary: "Execute webhook",
       description:
-        "Execute a webhook block in a live chat session. Handles both web (PartyKit) and WhatsApp flows.",
+        "Execute a webhook block in a live chat session. Handles web (PartyKit), WhatsApp, Telegram and email flows.",
       tags: ["Webhook"],
       inputStructure: "detailed",
     })
@@ -0,0 +1,42 @@
+import type { ContactInputBlock } from "@typebot.io/blocks-inputs/contact/schema";
+import type { SharedContact } from "@typebot.io/chat-api/schemas";
+import type { Variable } from "@typebot.io/variables/schemas";
+import type { ParsedReply } from "../../../types";
+import { formatPhoneNumber } from "../phone/formatPhoneNumber";
+
+export const parseContactReply = (
+  reply: string,
+  {
+    contact,
+    block,
+    variables,
+  }: {
+    contact: SharedContact | undefined;
+    block: ContactInputBlock;
+    variables: Variable[];
+  },
+): ParsedReply => {
+  const phoneNumber = formatPhoneNumber(contact?.phoneNumber ?? reply);
+  if (!phoneNumber) return { status: "fail" };
+
+  const variablesToUpdate = block.options?.saveResponseMapping?.reduce<
+    Variable[]
+  >((acc, mapping) => {
+    if (!mapping.variableId || !mapping.field) return acc;
+    const existingVariable = variables.find(
+      (variable) => variable.id === mapping.variableId,
+    );
+    if (!existingVariable) return acc;
+    acc.push({
+      ...existingVariable,
+      value: mapping.field === "Name" ? contact?.name : phoneNumber,
+    });
+    return acc;
+  }, []);
+
+  return {
+    status: "success",
+    content: phoneNumber,
+    variablesToUpdate,
+  };
+};
@@ -0,0 +1,84 @@
+import { describe, expect, it } from "bun:test";
+import { InputBlockType } from "@typebot.io/blocks-inputs/constants";
+import type { LocationInputBlock } from "@typebot.io/blocks-inputs/location/schema";
+import { parseLocationReply } from "./parseLocationReply";
+
+const block: LocationInputBlock = {
+  id: "block1",
+  type: InputBlockType.LOCATION,
+  options: {
+    saveResponseMapping: [
+      { field: "Latitude", variableId: "lat" },
+      { field: "Longitude", variableId: "long" },
+      { field: "Address", variableId: "address" },
+    ],
+  },
+};
+
+const variables = [
+  { id: "lat", name: "Latitude" },
+  { id: "long", name: "Longitude" },
+  { id: "address", name: "Address" },
+];
+
+describe("parseLocationReply", () => {
+  it("should use shared location metadata", () => {
+    expect(
+      parseLocationReply("48.8566, 2.3522", {
+        location: {
+          latitude: 48.8566,
+          longitude: 2.3522,
+          address: "Paris, France",
+        },
+        block,
+        variables,
+      }),
+    ).toEqual({
+      status: "success",
+      content: "48.8566, 2.3522",
+      variablesToUpdate: [
+        { id: "lat", name: "Latitude", value: "48.8566" },
+        { id: "long", name: "Longitude", value: "2.3522" },
+        { id: "address", name: "Address", value: "Paris, France" },
+      ],
+    });
+  });
+
+  it("should parse typed coordinates", () => {
+    expect(
+      parseLocationReply(" -33.8688,151.2093 ", {
+        location: undefined,
+        block,
+        variables,
+      }),
+    ).toEqual({
+      status: "success",
+      content: "-33.8688, 151.2093",
+      variablesToUpdate: [
+        { id: "lat", name: "Latitude", value: "-33.8688" },
+        { id: "long", name: "Longitude", value: "151.2093" },
+        { id: "address", name: "Address", value: undefined },
+      ],
+    });
+  });
+
+  it("should fallback to address when coordinates are out of range", () => {
+    expect(
+      parseLocationReply("120, 200", {
+        location: undefined,
+        block: { ...block, options: undefined },
+        variables,
+      }),
+    ).toEqual({
+      status: "success",
+      content: "120, 200",
+      variablesToUpdate: undefined,
+    });
+  });
+
+  it("should fail on empty reply", () => {
+    expect(
+      parseLocationReply("  ", { location: undefined, block, variables }),
+    ).toEqual({ status: "fail" });
+  });
+});
@@ -0,0 +1,68 @@
+import type { LocationInputBlock } from "@typebot.io/blocks-inputs/location/schema";
+import type { SharedLocation } from "@typebot.io/chat-api/schemas";
+import type { Variable } from "@typebot.io/variables/schemas";
+import type { ParsedReply } from "../../../types";
+
+const coordinatesRegex =
+  /^\s*(-?\d{1,3}(?:\.\d+)?)\s*,\s*(-?\d{1,3}(?:\.\d+)?)\s*$/;
+
+export const parseLocationReply = (
+  reply: string,
+  {
+    location,
+    block,
+    variables,
+  }: {
+    location: SharedLocation | undefined;
+    block: LocationInputBlock;
+    variables: Variable[];
+  },
+): ParsedReply => {
+  const parsedLocation = location ?? parseLocationFromText(reply);
+  if (!parsedLocation) return { status: "fail" };
+
+  const variablesToUpdate = block.options?.saveResponseMapping?.reduce<
+    Variable[]
+  >((acc, mapping) => {
+    if (!mapping.variableId || !mapping.field) return acc;
+    const existingVariable = variables.find(
+      (variable) => variable.id === mapping.variableId,
+    );
+    if (!existingVariable) return acc;
+    let value;
+    if (mapping.field === "Latitude") value = parsedLocation.latitude;
+    if (mapping.field === "Longitude") value = parsedLocation.longitude;
+    if (mapping.field === "Address") value = parsedLocation.address;
+    if (mapping.field === "Name") value = parsedLocation.name;
+    acc.push({
+      ...existingVariable,
+      value: value?.toString(),
+    });
+    return acc;
+  }, []);
+
+  return {
+    status: "success",
+    content:
+      parsedLocation.latitude !== undefined &&
+      parsedLocation.longitude !== undefined
+        ? `${parsedLocation.latitude}, ${parsedLocation.longitude}`
+        : (parsedLocation.address ?? reply),
+    variablesToUpdate,
+  };
+};
+
+// Typed replies are either coordinates or a free-form address
+const parseLocationFromText = (
+  text: string,
+): Partial<SharedLocation> | undefined => {
+  const match = text.match(coordinatesRegex);
+  if (match) {
+    const latitude = Number(match[1]);
+    const longitude = Number(match[2]);
+    if (Math.abs(latitude) <= 90 && Math.abs(longitude) <= 180)
+      return { latitude, longitude };
+  }
+  if (text.trim() === "") return;
+  return { address: text.trim() };
+};
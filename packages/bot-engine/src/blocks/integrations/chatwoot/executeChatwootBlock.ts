@@ -7,6 +7,7 @@ import type { SessionStore } from "@typebot.io/runtime-session-store";
 import { extractVariablesFromText } from "@typebot.io/variables/extractVariablesFromText";
 import { parseGuessedValueType } from "@typebot.io/variables/parseGuessedValueType";
 import { parseVariables } from "@typebot.io/variables/parseVariables";
+import { isMessagingChannelSession } from "../../../helpers/isMessagingChannelSession";
 import type { ExecuteIntegrationResponse } from "../../../types";
 
 const parseSetUserCode = (
@@ -77,7 +78,8 @@ export const executeChatwootBlock = (
   block: ChatwootBlock,
   { sessionStore, state }: { sessionStore: SessionStore; state: SessionState },
 ): ExecuteIntegrationResponse => {
-  if (state.whatsApp) return { outgoingEdgeId: block.outgoingEdgeId };
+  if (isMessagingChannelSession(state))
+    return { outgoingEdgeId: block.outgoingEdgeId };
   const { typebot, resultId } = state.typebotsQueue[0];
   const chatwootCode =
     block.options?.task === "Close widget"
@@ -40,6 +40,7 @@ import type { Variable } from "@typebot.io/variables/schemas";
 import { HTTPError, type Options, TimeoutError } from "ky";
 import { stringify } from "qs";
 import { ProxyAgent } from "undici";
+import { isMessagingChannelSession } from "../../../helpers/isMessagingChannelSession";
 import type { ExecuteIntegrationResponse } from "../../../types";
 import { saveDataInResponseVariableMapping } from "./saveDataInResponseVariableMapping";
 
@@ -102,7 +103,7 @@ export const executeHttpRequestBlock = async (
     });
     return { outgoingEdgeId: block.outgoingEdgeId, logs };
   }
-  if (block.options?.isExecutedOnClient && !state.whatsApp)
+  if (block.options?.isExecutedOnClient && !isMessagingChannelSession(state))
     return {
       outgoingEdgeId: block.outgoingEdgeId,
       clientSideActions: [
@@ -140,7 +140,10 @@ const getSampleValue = (block: InputBlock, userEmail?: string): string => {
     case InputBlockType.NUMBER:
       return "20";
     case InputBlockType.PHONE:
+    case InputBlockType.CONTACT:
       return "+33665566773";
+    case InputBlockType.LOCATION:
+      return "48.8566, 2.3522";
     case InputBlockType.TEXT:
       return "answer value";
     case InputBlockType.URL:
@@ -2,6 +2,7 @@ import type { GoogleAnalyticsBlock } from "@typebot.io/blocks-integrations/googl
 import type { SessionState } from "@typebot.io/chat-session/schemas";
 import type { SessionStore } from "@typebot.io/runtime-session-store";
 import { deepParseVariables } from "@typebot.io/variables/deepParseVariables";
+import { isMessagingChannelSession } from "../../../../helpers/isMessagingChannelSession";
 import type { ExecuteIntegrationResponse } from "../../../../types";
 
 export const executeGoogleAnalyticsBlock = (
@@ -9,7 +10,7 @@ export const executeGoogleAnalyticsBlock = (
   { state, sessionStore }: { state: SessionState; sessionStore: SessionStore },
 ): ExecuteIntegrationResponse => {
   const { typebot, resultId } = state.typebotsQueue[0];
-  if (!resultId || state.whatsApp || !block.options)
+  if (!resultId || isMessagingChannelSession(state) || !block.options)
     return { outgoingEdgeId: block.outgoingEdgeId };
   return {
     outgoingEdgeId: block.outgoingEdgeId,
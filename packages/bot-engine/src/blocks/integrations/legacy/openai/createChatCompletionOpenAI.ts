@@ -17,6 +17,7 @@ import { isEmpty } from "@typebot.io/lib/utils";
 import type { SessionStore } from "@typebot.io/runtime-session-store";
 import { parseVariableNumber } from "@typebot.io/variables/parseVariableNumber";
 import { getNextBlock } from "../../../../getNextBlock";
+import { isMessagingChannelSession } from "../../../../helpers/isMessagingChannelSession";
 import type { ExecuteIntegrationResponse } from "../../../../types";
 import { updateVariablesInSession } from "../../../../updateVariablesInSession";
 import { executeChatCompletionOpenAIRequest } from "./executeChatCompletionOpenAIRequest";
@@ -88,7 +89,7 @@ export const createChatCompletionOpenAI = async (
 
   if (
     newSessionState.isStreamEnabled &&
-    !newSessionState.whatsApp &&
+    !isMessagingChannelSession(newSessionState) &&
     isNextBubbleMessageWithAssistantMessage(typebot)(
       blockId,
       assistantMessageVariableName,
@@ -2,6 +2,7 @@ import type { PixelBlock } from "@typebot.io/blocks-integrations/pixel/schema";
 import type { SessionState } from "@typebot.io/chat-session/schemas";
 import type { SessionStore } from "@typebot.io/runtime-session-store";
 import { deepParseVariables } from "@typebot.io/variables/deepParseVariables";
+import { isMessagingChannelSession } from "../../../helpers/isMessagingChannelSession";
 import type { ExecuteIntegrationResponse } from "../../../types";
 
 export const executePixelBlock = (
@@ -13,7 +14,7 @@ export const executePixelBlock = (
     !resultId ||
     !block.options?.pixelId ||
     !block.options.eventType ||
-    state.whatsApp
+    isMessagingChannelSession(state)
   )
     return { outgoingEdgeId: block.outgoingEdgeId };
   const pixel = deepParseVariables(block.options, {
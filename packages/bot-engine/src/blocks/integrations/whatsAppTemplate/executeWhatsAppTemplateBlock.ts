@@ -0,0 +1,38 @@
+import type { WhatsAppTemplateBlock } from "@typebot.io/blocks-integrations/whatsAppTemplate/schema";
+import type { SessionState } from "@typebot.io/chat-session/schemas";
+import { isEmpty } from "@typebot.io/lib/utils";
+import type { SessionStore } from "@typebot.io/runtime-session-store";
+import { deepParseVariables } from "@typebot.io/variables/deepParseVariables";
+import type { ExecuteIntegrationResponse } from "../../../types";
+
+export const executeWhatsAppTemplateBlock = (
+  block: WhatsAppTemplateBlock,
+  { state, sessionStore }: { state: SessionState; sessionStore: SessionStore },
+): ExecuteIntegrationResponse => {
+  if (!state.whatsApp)
+    return {
+      outgoingEdgeId: block.outgoingEdgeId,
+      logs: [
+        {
+          status: "info",
+          description:
+            "WhatsApp templates can only be sent in WhatsApp conversations",
+        },
+      ],
+    };
+  if (!block.options || isEmpty(block.options.templateName))
+    return { outgoingEdgeId: block.outgoingEdgeId };
+  const { typebot } = state.typebotsQueue[0];
+  return {
+    outgoingEdgeId: block.outgoingEdgeId,
+    clientSideActions: [
+      {
+        type: "whatsAppTemplate",
+        whatsAppTemplate: deepParseVariables(block.options, {
+          variables: typebot.variables,
+          sessionStore,
+        }),
+      },
+    ],
+  };
+};
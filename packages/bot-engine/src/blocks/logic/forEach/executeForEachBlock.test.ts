@@ -0,0 +1,127 @@
+import { describe, expect, it, mock } from "bun:test";
+import type { ForEachBlock } from "@typebot.io/blocks-logic/forEach/schema";
+import type { SessionState } from "@typebot.io/chat-session/schemas";
+import type { SessionStore } from "@typebot.io/runtime-session-store";
+import type { Variable } from "@typebot.io/variables/schemas";
+
+// Inline code is not evaluated in these tests and the native module can't be
+// loaded by Bun.
+mock.module("isolated-vm", () => ({ default: {} }));
+
+const { executeForEachBlock } = await import("./executeForEachBlock");
+
+const sessionStore = {} as SessionStore;
+
+const createBlock = (
+  options?: Partial<NonNullable<ForEachBlock["options"]>>,
+): ForEachBlock => ({
+  id: "forEach",
+  type: "For each",
+  outgoingEdgeId: "done",
+  options: {
+    listVariableId: "list",
+    itemVariableId: "item",
+    indexVariableId: "index",
+    groupId: "loopGroup",
+    ...options,
+  },
+});
+
+const createState = (listValue: Variable["value"]) =>
+  ({
+    version: "3",
+    typebotsQueue: [
+      {
+        resultId: "result",
+        answers: [],
+        typebot: {
+          version: "6",
+          id: "typebot",
+          events: [],
+          edges: [],
+          groups: [
+            {
+              id: "currentGroup",
+              title: "Current",
+              graphCoordinates: { x: 0, y: 0 },
+              blocks: [{ id: "forEach", type: "For each" }],
+            },
+            {
+              id: "loopGroup",
+              title: "Loop",
+              graphCoordinates: { x: 0, y: 0 },
+              blocks: [],
+            },
+          ],
+          variables: [
+            { id: "list", name: "List", value: listValue },
+            { id: "item", name: "Item" },
+            { id: "index", name: "Index" },
+          ],
+        },
+      },
+    ],
+  }) as unknown as SessionState;
+
+const getVariableValue = (state: SessionState, id: string) =>
+  state.typebotsQueue[0].typebot.variables.find((v) => v.id === id)?.value;
+
+describe("executeForEachBlock", () => {
+  it("should run the group once per item, in order", () => {
+    const block = createBlock();
+    let state = createState(["a", "b", "c"]);
+    const items: unknown[] = [];
+    const indexes: unknown[] = [];
+    for (let i = 0; i < 3; i++) {
+      const response = executeForEachBlock(block, { state, sessionStore });
+      state = response.newSessionState!;
+      expect(response.outgoingEdgeId).toBe("virtual-loopGroup");
+      expect(state.typebotsQueue[0].queuedEdgeIds?.[0]).toBe(
+        "virtual-currentGroup-forEach",
+      );
+      expect(state.typebotsQueue[0].loopIndexes).toEqual({ forEach: i });
+      items.push(getVariableValue(state, "item"));
+      indexes.push(getVariableValue(state, "index"));
+    }
+    expect(items).toEqual(["a", "b", "c"]);
+    expect(indexes).toEqual(["0", "1", "2"]);
+
+    const response = executeForEachBlock(block, { state, sessionStore });
+    expect(response.outgoingEdgeId).toBe("done");
+    expect(response.logs).toBeUndefined();
+    expect(response.newSessionState?.typebotsQueue[0].loopIndexes).toEqual({});
+  });
+
+  it("should stop with a warning after the max iterations", () => {
+    const block = createBlock({ maxIterations: 2 });
+    let state = createState(["a", "b", "c"]);
+    for (let i = 0; i < 2; i++)
+      state = executeForEachBlock(block, { state, sessionStore })
+        .newSessionState!;
+
+    const response = executeForEachBlock(block, { state, sessionStore });
+    expect(response.outgoingEdgeId).toBe("done");
+    expect(response.logs).toEqual([
+      {
+        status: "warning",
+        context: "For each block",
+        description: "Stopped after 2 iterations, 1 items were not processed",
+      },
+    ]);
+    expect(response.newSessionState?.typebotsQueue[0].loopIndexes).toEqual({});
+  });
+
+  it("should directly continue when the list is empty or missing", () => {
+    for (const state of [createState([]), createState(undefined)]) {
+      const response = executeForEachBlock(createBlock(), {
+        state,
+        sessionStore,
+      });
+      expect(response.outgoingEdgeId).toBe("done");
+      expect(response.logs).toBeUndefined();
+      expect(getVariableValue(response.newSessionState!, "item")).toBe(
+        undefined,
+      );
+    }
+  });
+});
@@ -0,0 +1,142 @@
+import {
+  defaultForEachOptions,
+  maxForEachIterations,
+} from "@typebot.io/blocks-logic/forEach/constants";
+import type { ForEachBlock } from "@typebot.io/blocks-logic/forEach/schema";
+import type { SessionState } from "@typebot.io/chat-session/schemas";
+import { byId, isEmpty, isNotDefined } from "@typebot.io/lib/utils";
+import type { SessionStore } from "@typebot.io/runtime-session-store";
+import { coerceVariableValue } from "@typebot.io/variables/coerceVariableValue";
+import { isSingleVariable } from "@typebot.io/variables/isSingleVariable";
+import { parseVariables } from "@typebot.io/variables/parseVariables";
+import type { VariableWithUnknowValue } from "@typebot.io/variables/schemas";
+import { addVirtualEdge } from "../../../addPortalEdge";
+import type { ExecuteLogicResponse } from "../../../types";
+import { updateVariablesInSession } from "../../../updateVariablesInSession";
+
+/**
+ * Runs the target group once per list item. Before jumping to the group, an
+ * edge back to this block is queued so that the flow comes back here once the
+ * group path ends, then continues on the outgoing edge when the list is done.
+ */
+export const executeForEachBlock = (
+  block: ForEachBlock,
+  { state, sessionStore }: { state: SessionState; sessionStore: SessionStore },
+): ExecuteLogicResponse => {
+  const { listVariableId, itemVariableId, indexVariableId, groupId } =
+    block.options ?? {};
+  if (!groupId) return { outgoingEdgeId: undefined };
+  const { typebot, loopIndexes } = state.typebotsQueue[0];
+  const groupTitle = isSingleVariable(groupId)
+    ? parseVariables(groupId, { sessionStore, variables: typebot.variables })
+    : undefined;
+  const groupToLoopOver = groupTitle
+    ? typebot.groups.find((group) => group.title === groupTitle)
+    : typebot.groups.find(byId(groupId));
+  const currentGroup = typebot.groups.find((group) =>
+    group.blocks.some(byId(block.id)),
+  );
+
+  if (!groupToLoopOver || !currentGroup)
+    return {
+      outgoingEdgeId: null,
+      logs: [
+        {
+          context: "Error while executing For each block",
+          description: "Group to loop over is not found",
+          details: JSON.stringify({
+            groupIdOrTitle: groupTitle ?? groupId,
+            forEachBlockId: block.id,
+          }),
+        },
+      ],
+    };
+
+  const list = parseList(typebot.variables.find(byId(listVariableId))?.value);
+  const index = (loopIndexes?.[block.id] ?? -1) + 1;
+  const maxIterations = Math.min(
+    block.options?.maxIterations ?? defaultForEachOptions.maxIterations,
+    maxForEachIterations,
+  );
+
+  if (index >= list.length || index >= maxIterations)
+    return {
+      outgoingEdgeId: block.outgoingEdgeId,
+      newSessionState: setLoopIndex(state, block.id, undefined),
+      logs:
+        index < list.length
+          ? [
+              {
+                status: "warning",
+                context: "For each block",
+                description: `Stopped after ${maxIterations} iterations, ${list.length - index} items were not processed`,
+              },
+            ]
+          : undefined,
+    };
+
+  const newVariables: VariableWithUnknowValue[] = [];
+  const itemVariable = typebot.variables.find(byId(itemVariableId));
+  if (itemVariable) newVariables.push({ ...itemVariable, value: list[index] });
+  const indexVariable = typebot.variables.find(byId(indexVariableId));
+  if (indexVariable)
+    newVariables.push({ ...indexVariable, value: index.toString() });
+
+  const { updatedState, newSetVariableHistory } = updateVariablesInSession({
+    state: setLoopIndex(state, block.id, index),
+    newVariables,
+    currentBlockId: block.id,
+  });
+
+  const loopBack = addVirtualEdge(updatedState, {
+    to: { groupId: currentGroup.id, blockId: block.id },
+  });
+  const iteration = addVirtualEdge(loopBack.newSessionState, {
+    to: { groupId: groupToLoopOver.id },
+  });
+
+  return {
+    outgoingEdgeId: iteration.edgeId,
+    newSessionState: {
+      ...iteration.newSessionState,
+      typebotsQueue: iteration.newSessionState.typebotsQueue.map(
+        (typebotInQueue, queueIndex) =>
+          queueIndex === 0
+            ? {
+                ...typebotInQueue,
+                queuedEdgeIds: [
+                  loopBack.edgeId,
+                  ...(typebotInQueue.queuedEdgeIds ?? []),
+                ],
+              }
+            : typebotInQueue,
+      ),
+    },
+    newSetVariableHistory,
+  };
+};
+
+const parseList = (value: unknown): unknown[] => {
+  if (isNotDefined(value) || (typeof value === "string" && isEmpty(value)))
+    return [];
+  return coerceVariableValue(value, "list") as unknown[];
+};
+
+const setLoopIndex = (
+  state: SessionState,
+  blockId: string,
+  index: number | undefined,
+): SessionState => ({
+  ...state,
+  typebotsQueue: state.typebotsQueue.map((typebotInQueue, queueIndex) => {
+    if (queueIndex !== 0) return typebotInQueue;
+    const { [blockId]: _, ...loopIndexes } = typebotInQueue.loopIndexes ?? {};
+    return {
+      ...typebotInQueue,
+      loopIndexes:
+        index === undefined
+          ? loopIndexes
+          : { ...loopIndexes, [blockId]: index },
+    };
+  }),
+});
@@ -0,0 +1,41 @@
+import type { HandoffBlock } from "@typebot.io/blocks-logic/handoff/schema";
+import type { SessionState } from "@typebot.io/chat-session/schemas";
+import prisma from "@typebot.io/prisma";
+import type { ExecuteLogicResponse } from "../../../types";
+import { parseHandoffInput } from "./parseHandoffInput";
+
+export const executeHandoffBlock = async (
+  block: HandoffBlock,
+  { state }: { state: SessionState },
+): Promise<ExecuteLogicResponse> => {
+  const { resultId, typebot } = state.typebotsQueue[0];
+  if (!resultId)
+    return {
+      outgoingEdgeId: block.outgoingEdgeId,
+      logs: [
+        {
+          status: "info",
+          description: "Handoff to agent is skipped in preview mode",
+        },
+      ],
+    };
+
+  await prisma.handoff.create({
+    data: {
+      typebotId: typebot.id,
+      resultId,
+      blockId: block.id,
+    },
+  });
+
+  return {
+    outgoingEdgeId: block.outgoingEdgeId,
+    input: parseHandoffInput(block),
+    clientSideActions: [
+      {
+        type: "listenForAgent",
+        expectsDedicatedReply: true,
+      },
+    ],
+  };
+};
@@ -0,0 +1,22 @@
+import { InputBlockType } from "@typebot.io/blocks-inputs/constants";
+import { defaultHandoffOptions } from "@typebot.io/blocks-logic/handoff/constants";
+import type { HandoffBlock } from "@typebot.io/blocks-logic/handoff/schema";
+import type { ContinueChatResponse } from "@typebot.io/chat-api/schemas";
+
+/**
+ * The handoff block is not an input block but the user still needs a text
+ * input to chat with the agent while the bot is paused.
+ */
+export const parseHandoffInput = (
+  block: HandoffBlock,
+): NonNullable<ContinueChatResponse["input"]> => ({
+  id: block.id,
+  type: InputBlockType.TEXT,
+  options: {
+    labels: {
+      placeholder:
+        block.options?.inputPlaceholder ??
+        defaultHandoffOptions.inputPlaceholder,
+    },
+  },
+});
@@ -0,0 +1,115 @@
+import { BubbleBlockType } from "@typebot.io/blocks-bubbles/constants";
+import type { HandoffBlock } from "@typebot.io/blocks-logic/handoff/schema";
+import type {
+  ContinueChatResponse,
+  Message,
+} from "@typebot.io/chat-api/schemas";
+import type { SessionState } from "@typebot.io/chat-session/schemas";
+import { byId } from "@typebot.io/lib/utils";
+import prisma from "@typebot.io/prisma";
+import { HandoffMessageRole, HandoffStatus } from "@typebot.io/prisma/enum";
+import { addVirtualEdge } from "../../../addPortalEdge";
+import { parseHandoffInput } from "./parseHandoffInput";
+
+type ResumeHandoffResponse =
+  | ({ status: "waiting" } & Pick<
+      ContinueChatResponse,
+      "messages" | "input" | "clientSideActions"
+    >)
+  | {
+      status: "closed";
+      newSessionState: SessionState;
+      nextEdge?: { id: string; isOffDefaultPath: boolean };
+    };
+
+/**
+ * Called each time the session is resumed on a handoff block: either the user
+ * sent a message to the agent or the builder pinged the session because an
+ * agent replied or handed the conversation back to the bot.
+ */
+export const resumeHandoffBlock = async (
+  block: HandoffBlock,
+  {
+    state,
+    reply,
+    textBubbleContentFormat,
+  }: {
+    state: SessionState;
+    reply: Message | undefined;
+    textBubbleContentFormat: "richText" | "markdown";
+  },
+): Promise<ResumeHandoffResponse> => {
+  const { resultId, typebot } = state.typebotsQueue[0];
+  const handoff = resultId
+    ? await prisma.handoff.findFirst({
+        where: { resultId, blockId: block.id },
+        orderBy: { createdAt: "desc" },
+        select: { id: true, status: true, handBackGroupId: true },
+      })
+    : null;
+
+  if (!handoff || handoff.status === HandoffStatus.CLOSED) {
+    const handBackGroup = handoff?.handBackGroupId
+      ? typebot.groups.find(byId(handoff.handBackGroupId))
+      : undefined;
+    if (!handBackGroup) return { status: "closed", newSessionState: state };
+    const { newSessionState, edgeId } = addVirtualEdge(state, {
+      to: { groupId: handBackGroup.id },
+    });
+    return {
+      status: "closed",
+      newSessionState,
+      nextEdge: { id: edgeId, isOffDefaultPath: true },
+    };
+  }
+
+  if (reply?.type === "text" && reply.text.trim().length > 0)
+    await prisma.handoffMessage.create({
+      data: {
+        handoffId: handoff.id,
+        role: HandoffMessageRole.USER,
+        content: reply.text,
+      },
+    });
+
+  const agentMessages = await prisma.handoffMessage.findMany({
+    where: {
+      handoffId: handoff.id,
+      role: HandoffMessageRole.AGENT,
+      deliveredAt: null,
+    },
+    orderBy: { createdAt: "asc" },
+    select: { id: true, content: true },
+  });
+
+  if (agentMessages.length > 0)
+    await prisma.handoffMessage.updateMany({
+      where: { id: { in: agentMessages.map((message) => message.id) } },
+      data: { deliveredAt: new Date() },
+    });
+
+  return {
+    status: "waiting",
+    messages: agentMessages.map((message) => ({
+      id: message.id,
+      type: BubbleBlockType.TEXT,
+      content:
+        textBubbleContentFormat === "richText"
+          ? {
+              type: "richText",
+              richText: [{ type: "p", children: [{ text: message.content }] }],
+            }
+          : {
+              type: "markdown",
+              markdown: message.content,
+            },
+    })),
+    input: parseHandoffInput(block),
+    clientSideActions: [
+      {
+        type: "listenForAgent",
+        expectsDedicatedReply: true,
+      },
+    ],
+  };
+};
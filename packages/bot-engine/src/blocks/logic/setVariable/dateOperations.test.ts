@@ -0,0 +1,88 @@
+import { describe, expect, it } from "bun:test";
+import {
+  addToDate,
+  computeDateDifference,
+  formatDate,
+  parseDateInput,
+} from "./dateOperations";
+
+// Friday
+const date = new Date("2024-01-05T10:00:00.000Z");
+
+describe("parseDateInput", () => {
+  it("should default to now when empty", () => {
+    expect(parseDateInput("", { now: date })).toEqual(date);
+  });
+
+  it("should parse ISO strings and timestamps", () => {
+    expect(parseDateInput("2024-01-05T10:00:00.000Z")).toEqual(date);
+    expect(parseDateInput(date.getTime().toString())).toEqual(date);
+  });
+
+  it("should return undefined for invalid dates", () => {
+    expect(parseDateInput("not a date")).toBeUndefined();
+  });
+});
+
+describe("addToDate", () => {
+  it("should skip week-ends when adding business days", () => {
+    expect(
+      addToDate(date, { amount: 3, unit: "business days", timeZone: "UTC" }),
+    ).toBe("2024-01-10T10:00:00Z");
+  });
+
+  it("should subtract with a negative amount", () => {
+    expect(addToDate(date, { amount: -2, unit: "hours" })).toBe(
+      "2024-01-05T08:00:00.000Z",
+    );
+  });
+
+  it("should keep the wall clock time in the given time zone", () => {
+    expect(
+      addToDate(new Date("2024-03-09T15:00:00.000Z"), {
+        amount: 1,
+        unit: "days",
+        timeZone: "America/New_York",
+      }),
+    ).toBe("2024-03-10T10:00:00-04:00");
+  });
+
+  it("should return undefined for invalid time zones", () => {
+    expect(
+      addToDate(date, { amount: 1, unit: "days", timeZone: "Not/AZone" }),
+    ).toBeUndefined();
+  });
+});
+
+describe("computeDateDifference", () => {
+  it("should compute the difference in the given unit", () => {
+    expect(
+      computeDateDifference(new Date("2024-01-12T10:00:00.000Z"), date, {
+        unit: "days",
+      }),
+    ).toBe(7);
+    expect(
+      computeDateDifference(date, new Date("2024-01-12T10:00:00.000Z"), {
+        unit: "weeks",
+      }),
+    ).toBe(-1);
+  });
+});
+
+describe("formatDate", () => {
+  it("should format in the given locale and time zone", () => {
+    expect(
+      formatDate(date, {
+        format: "EEEE d MMMM yyyy HH:mm",
+        locale: "fr-FR",
+        timeZone: "Europe/Paris",
+      }),
+    ).toBe("vendredi 5 janvier 2024 11:00");
+  });
+
+  it("should return undefined for invalid patterns", () => {
+    expect(
+      formatDate(date, { format: "yyyy-MM-dd j", timeZone: "UTC" }),
+    ).toBeUndefined();
+  });
+});
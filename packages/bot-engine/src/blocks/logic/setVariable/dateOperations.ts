@@ -0,0 +1,131 @@
+import type { dateUnits } from "@typebot.io/blocks-logic/setVariable/constants";
+import { isEmpty } from "@typebot.io/lib/utils";
+import {
+  addBusinessDays,
+  addDays,
+  addHours,
+  addMinutes,
+  addMonths,
+  addSeconds,
+  addWeeks,
+  addYears,
+  differenceInBusinessDays,
+  differenceInDays,
+  differenceInHours,
+  differenceInMinutes,
+  differenceInMonths,
+  differenceInSeconds,
+  differenceInWeeks,
+  differenceInYears,
+  type Locale,
+} from "date-fns";
+import * as locales from "date-fns/locale";
+import {
+  format as tzFormat,
+  utcToZonedTime,
+  zonedTimeToUtc,
+} from "date-fns-tz";
+
+type DateUnit = (typeof dateUnits)[number];
+
+const addFunctions = {
+  seconds: addSeconds,
+  minutes: addMinutes,
+  hours: addHours,
+  days: addDays,
+  "business days": addBusinessDays,
+  weeks: addWeeks,
+  months: addMonths,
+  years: addYears,
+} as const satisfies Record<DateUnit, (date: Date, amount: number) => Date>;
+
+const differenceFunctions = {
+  seconds: differenceInSeconds,
+  minutes: differenceInMinutes,
+  hours: differenceInHours,
+  days: differenceInDays,
+  "business days": differenceInBusinessDays,
+  weeks: differenceInWeeks,
+  months: differenceInMonths,
+  years: differenceInYears,
+} as const satisfies Record<DateUnit, (left: Date, right: Date) => number>;
+
+/**
+ * Parses a date coming from a variable. Accepts ISO strings and timestamps in
+ * milliseconds, defaults to now when empty.
+ */
+export const parseDateInput = (
+  value: string | undefined,
+  { now = new Date() }: { now?: Date } = {},
+): Date | undefined => {
+  if (isEmpty(value)) return now;
+  const trimmedValue = value.trim();
+  const date = /^-?\d+$/.test(trimmedValue)
+    ? new Date(Number(trimmedValue))
+    : new Date(trimmedValue);
+  if (Number.isNaN(date.getTime())) return;
+  return date;
+};
+
+export const addToDate = (
+  date: Date,
+  {
+    amount,
+    unit,
+    timeZone,
+  }: { amount: number; unit: DateUnit; timeZone?: string },
+) => {
+  if (isEmpty(timeZone)) return addFunctions[unit](date, amount).toISOString();
+  try {
+    // Compute on the wall clock time so that day based units respect DST and
+    // business days are evaluated in the given time zone.
+    const zonedDate = addFunctions[unit](
+      utcToZonedTime(date, timeZone),
+      amount,
+    );
+    return toISOWithTz(zonedTimeToUtc(zonedDate, timeZone), timeZone);
+  } catch {
+    return;
+  }
+};
+
+export const computeDateDifference = (
+  date: Date,
+  compareDate: Date,
+  { unit }: { unit: DateUnit },
+) => differenceFunctions[unit](date, compareDate);
+
+export const formatDate = (
+  date: Date,
+  {
+    format,
+    locale,
+    timeZone,
+  }: { format: string; locale?: string; timeZone?: string },
+) => {
+  try {
+    if (isEmpty(timeZone))
+      return tzFormat(date, format, { locale: parseLocale(locale) });
+    return tzFormat(utcToZonedTime(date, timeZone), format, {
+      timeZone,
+      locale: parseLocale(locale),
+    });
+  } catch {
+    return;
+  }
+};
+
+export const toISOWithTz = (date: Date, timeZone: string) => {
+  const zonedDate = utcToZonedTime(date, timeZone);
+  return tzFormat(zonedDate, "yyyy-MM-dd'T'HH:mm:ssXXX", { timeZone });
+};
+
+const parseLocale = (locale: string | undefined): Locale | undefined => {
+  if (isEmpty(locale)) return;
+  const [language, region] = locale.trim().split(/[-_]/);
+  const localesByKey = locales as Record<string, Locale>;
+  return (
+    localesByKey[`${language}${region?.toUpperCase() ?? ""}`] ??
+    localesByKey[language]
+  );
+};
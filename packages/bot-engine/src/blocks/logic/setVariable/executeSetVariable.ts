@@ -1,5 +1,6 @@
 import { createId } from "@paralleldrive/cuid2";
 import {
+  defaultDateOperationOptions,
   defaultSetVariableOptions,
   sessionOnlySetVariableOptions,
 } from "@typebot.io/blocks-logic/setVariable/constants";
@@ -17,14 +18,21 @@ import type {
   VariableWithUnknowValue,
   VariableWithValue,
 } from "@typebot.io/variables/schemas";
-import { format as tzFormat, utcToZonedTime } from "date-fns-tz";
 import {
   computeResultTranscript,
   parseTranscriptMessageText,
 } from "../../../computeResultTranscript";
+import { isMessagingChannelSession } from "../../../helpers/isMessagingChannelSession";
 import type { ExecuteLogicResponse } from "../../../types";
 import { updateVariablesInSession } from "../../../updateVariablesInSession";
 import { parseScriptToExecuteClientSideAction } from "../script/executeScript";
+import {
+  addToDate,
+  computeDateDifference,
+  formatDate,
+  parseDateInput,
+  toISOWithTz,
+} from "./dateOperations";
 
 export const executeSetVariable = async (
   block: SetVariableBlock,
@@ -59,7 +67,7 @@ export const executeSetVariable = async (
   if (
     expressionToEvaluate &&
     expressionToEvaluate.type === "code" &&
-    !state.whatsApp &&
+    !isMessagingChannelSession(state) &&
     (block.options.isExecutedOnClient ||
       block.options.type === "Moment of the day" ||
       block.options.type === "Device type")
@@ -161,11 +169,15 @@ const getExpressionToEvaluate = async (
     case "Contact name":
       return state.whatsApp?.contact.name
         ? { type: "value", value: state.whatsApp.contact.name }
-        : null;
+        : state.channel?.contact.name
+          ? { type: "value", value: state.channel.contact.name }
+          : null;
     case "Phone number": {
       return state.whatsApp?.contact.phoneNumber
         ? { type: "value", value: state.whatsApp.contact.phoneNumber }
-        : null;
+        : state.channel?.type === "sms"
+          ? { type: "value", value: state.channel.contact.id }
+          : null;
     }
     case "Referral Click ID": {
       return state.whatsApp?.referral?.ctwaClickId
@@ -219,6 +231,59 @@ const getExpressionToEvaluate = async (
         value: toISOWithTz(new Date(Date.now() - 86400000), timeZone),
       };
     }
+    case "Date add/subtract": {
+      const { variables } = state.typebotsQueue[0].typebot;
+      const date = parseDateInput(
+        parseVariables(options.date, { variables, sessionStore }),
+      );
+      const amount = Number(
+        parseVariables(options.amount, { variables, sessionStore }),
+      );
+      if (!date || Number.isNaN(amount)) return null;
+      const newDate = addToDate(date, {
+        amount,
+        unit: options.unit ?? defaultDateOperationOptions.unit,
+        timeZone: parseVariables(options.timeZone, {
+          variables,
+          sessionStore,
+        }),
+      });
+      return newDate ? { type: "value", value: newDate } : null;
+    }
+    case "Date difference": {
+      const { variables } = state.typebotsQueue[0].typebot;
+      const date = parseDateInput(
+        parseVariables(options.date, { variables, sessionStore }),
+      );
+      const compareDate = parseDateInput(
+        parseVariables(options.compareDate, { variables, sessionStore }),
+      );
+      if (!date || !compareDate) return null;
+      return {
+        type: "value",
+        value: computeDateDifference(date, compareDate, {
+          unit: options.unit ?? defaultDateOperationOptions.unit,
+        }).toString(),
+      };
+    }
+    case "Format date": {
+      const { variables } = state.typebotsQueue[0].typebot;
+      const date = parseDateInput(
+        parseVariables(options.date, { variables, sessionStore }),
+      );
+      if (!date) return null;
+      const formattedDate = formatDate(date, {
+        format:
+          parseVariables(options.format, { variables, sessionStore }) ||
+          defaultDateOperationOptions.format,
+        locale: parseVariables(options.locale, { variables, sessionStore }),
+        timeZone: parseVariables(options.timeZone, {
+          variables,
+          sessionStore,
+        }),
+      });
+      return formattedDate ? { type: "value", value: formattedDate } : null;
+    }
     case "Random ID": {
       return { type: "value", value: createId() };
     }
@@ -323,7 +388,7 @@ const getExpressionToEvaluate = async (
     case "Environment name": {
       return {
         type: "value",
-        value: state.whatsApp ? "whatsapp" : "web",
+        value: state.whatsApp ? "whatsapp" : (state.channel?.type ?? "web"),
       };
     }
     case "Device type": {
@@ -396,11 +461,6 @@ return detectDeviceType()`,
   }
 };
 
-const toISOWithTz = (date: Date, timeZone: string) => {
-  const zonedDate = utcToZonedTime(date, timeZone);
-  return tzFormat(zonedDate, "yyyy-MM-dd'T'HH:mm:ssXXX", { timeZone });
-};
-
 type ParsedTranscriptProps = {
   answers: Pick<Answer, "blockId" | "content" | "attachedFileUrls">[];
   setVariableHistory: Pick<
@@ -0,0 +1,26 @@
+import type { SwitchBlock } from "@typebot.io/blocks-logic/switch/schema";
+import type { SessionState } from "@typebot.io/chat-session/schemas";
+import { executeCondition } from "@typebot.io/conditions/executeCondition";
+import type { SessionStore } from "@typebot.io/runtime-session-store";
+import type { ExecuteLogicResponse } from "../../../types";
+import { parseSwitchCaseCondition } from "./parseSwitchCaseCondition";
+
+export const executeSwitchBlock = (
+  block: SwitchBlock,
+  { state, sessionStore }: { state: SessionState; sessionStore: SessionStore },
+): ExecuteLogicResponse => {
+  const { variables } = state.typebotsQueue[0].typebot;
+  const matchingCase = block.items.find((item) => {
+    const condition = parseSwitchCaseCondition(item, {
+      variableId: block.options?.variableId,
+    });
+    return (
+      condition && executeCondition(condition, { variables, sessionStore })
+    );
+  });
+  return {
+    outgoingEdgeId: matchingCase
+      ? (matchingCase.outgoingEdgeId ?? null)
+      : block.outgoingEdgeId,
+  };
+};
@@ -0,0 +1,69 @@
+import { describe, expect, it } from "bun:test";
+import {
+  ComparisonOperators,
+  LogicalOperator,
+} from "@typebot.io/conditions/constants";
+import { parseSwitchCaseCondition } from "./parseSwitchCaseCondition";
+
+describe("parseSwitchCaseCondition", () => {
+  it("should not return a condition for empty cases", () => {
+    expect(
+      parseSwitchCaseCondition(
+        { id: "case", content: { matchType: "Exact" } },
+        { variableId: "country" },
+      ),
+    ).toBeUndefined();
+    expect(
+      parseSwitchCaseCondition(
+        { id: "case", content: { value: "FR" } },
+        { variableId: undefined },
+      ),
+    ).toBeUndefined();
+  });
+
+  it("should default to an exact match", () => {
+    expect(
+      parseSwitchCaseCondition(
+        { id: "case", content: { value: "FR" } },
+        { variableId: "country" },
+      ),
+    ).toEqual({
+      comparisons: [
+        {
+          id: "case-0",
+          variableId: "country",
+          comparisonOperator: ComparisonOperators.EQUAL,
+          value: "FR",
+        },
+      ],
+    });
+  });
+
+  it("should only compare with the defined range bounds", () => {
+    expect(
+      parseSwitchCaseCondition(
+        { id: "case", content: { matchType: "Range", max: "18" } },
+        { variableId: "age" },
+      ),
+    ).toEqual({
+      logicalOperator: LogicalOperator.AND,
+      comparisons: [
+        {
+          id: "case-1",
+          variableId: "age",
+          comparisonOperator: ComparisonOperators.LESS_OR_EQUAL,
+          value: "18",
+        },
+      ],
+    });
+  });
+
+  it("should match any value of the list", () => {
+    expect(
+      parseSwitchCaseCondition(
+        { id: "case", content: { matchType: "In list", value: "FR, BE,,CH " } },
+        { variableId: "country" },
+      )?.comparisons?.map((comparison) => comparison.value),
+    ).toEqual(["FR", "BE", "CH"]);
+  });
+});
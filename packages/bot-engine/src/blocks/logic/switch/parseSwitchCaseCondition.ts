@@ -0,0 +1,70 @@
+import { defaultSwitchItemContent } from "@typebot.io/blocks-logic/switch/constants";
+import type { SwitchItem } from "@typebot.io/blocks-logic/switch/schema";
+import {
+  ComparisonOperators,
+  LogicalOperator,
+} from "@typebot.io/conditions/constants";
+import type { Comparison, Condition } from "@typebot.io/conditions/schemas";
+import { isEmpty } from "@typebot.io/lib/utils";
+
+/**
+ * Translates a Switch case into a condition so that it is evaluated with the
+ * same comparison semantics as the Condition block.
+ */
+export const parseSwitchCaseCondition = (
+  item: Pick<SwitchItem, "id" | "content">,
+  { variableId }: { variableId: string | undefined },
+): Condition | undefined => {
+  if (!variableId || !item.content) return;
+  const { value, min, max } = item.content;
+  const createComparison = (
+    comparisonOperator: ComparisonOperators,
+    value: string,
+    index = 0,
+  ): Comparison => ({
+    id: `${item.id}-${index}`,
+    variableId,
+    comparisonOperator,
+    value,
+  });
+  switch (item.content.matchType ?? defaultSwitchItemContent.matchType) {
+    case "Exact":
+      if (isEmpty(value)) return;
+      return {
+        comparisons: [createComparison(ComparisonOperators.EQUAL, value)],
+      };
+    case "Regex":
+      if (isEmpty(value)) return;
+      return {
+        comparisons: [
+          createComparison(ComparisonOperators.MATCHES_REGEX, value),
+        ],
+      };
+    case "Range": {
+      const comparisons: Comparison[] = [];
+      if (!isEmpty(min))
+        comparisons.push(
+          createComparison(ComparisonOperators.GREATER_OR_EQUAL, min, 0),
+        );
+      if (!isEmpty(max))
+        comparisons.push(
+          createComparison(ComparisonOperators.LESS_OR_EQUAL, max, 1),
+        );
+      if (comparisons.length === 0) return;
+      return { logicalOperator: LogicalOperator.AND, comparisons };
+    }
+    case "In list": {
+      const values = value
+        ?.split(",")
+        .map((value) => value.trim())
+        .filter((value) => value !== "");
+      if (!values || values.length === 0) return;
+      return {
+        logicalOperator: LogicalOperator.OR,
+        comparisons: values.map((value, index) =>
+          createComparison(ComparisonOperators.EQUAL, value, index),
+        ),
+      };
+    }
+  }
+};
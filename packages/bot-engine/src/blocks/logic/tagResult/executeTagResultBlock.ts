@@ -0,0 +1,55 @@
+import type { TagResultBlock } from "@typebot.io/blocks-logic/tagResult/schema";
+import type { SessionState } from "@typebot.io/chat-session/schemas";
+import { isDefined } from "@typebot.io/lib/utils";
+import { mergeResultTags } from "@typebot.io/results/mergeResultTags";
+import type { SessionStore } from "@typebot.io/runtime-session-store";
+import { parseVariables } from "@typebot.io/variables/parseVariables";
+import type { ExecuteLogicResponse } from "../../../types";
+
+export const executeTagResultBlock = (
+  block: TagResultBlock,
+  { state, sessionStore }: { state: SessionState; sessionStore: SessionStore },
+): ExecuteLogicResponse => {
+  const { resultId, typebot } = state.typebotsQueue[0];
+  if (!block.options) return { outgoingEdgeId: block.outgoingEdgeId };
+  if (!resultId)
+    return {
+      outgoingEdgeId: block.outgoingEdgeId,
+      logs: [
+        {
+          status: "info",
+          description: "Result tagging is skipped in preview mode",
+        },
+      ],
+    };
+
+  const parse = (text: string) =>
+    parseVariables(text, { variables: typebot.variables, sessionStore });
+  const tagsToAdd = (block.options.tagsToAdd ?? []).map(parse);
+  const tagsToRemove = (block.options.tagsToRemove ?? []).map(parse);
+  const { pendingResultUpdate } = state;
+
+  return {
+    outgoingEdgeId: block.outgoingEdgeId,
+    newSessionState: {
+      ...state,
+      pendingResultUpdate: {
+        status: block.options.status ?? pendingResultUpdate?.status,
+        // A later block cancels what a previous one did on the same tag
+        tagsToAdd: mergeResultTags({
+          tags: pendingResultUpdate?.tagsToAdd,
+          tagsToAdd,
+          tagsToRemove,
+        }),
+        tagsToRemove: mergeResultTags({
+          tags: pendingResultUpdate?.tagsToRemove,
+          tagsToAdd: tagsToRemove,
+          tagsToRemove: tagsToAdd,
+        }),
+        notes: isDefined(block.options.notes)
+          ? parse(block.options.notes)
+          : pendingResultUpdate?.notes,
+      },
+    },
+  };
+};
@@ -0,0 +1,55 @@
+import { describe, expect, it } from "bun:test";
+import {
+  applyVariableMappings,
+  parseInputMappings,
+  parseOutputMappings,
+} from "./applyVariableMappings";
+
+const parentVariables = [
+  { id: "p1", name: "Email", value: "john@example.com" },
+  { id: "p2", name: "Score", value: undefined },
+];
+
+const childVariables = [
+  { id: "c1", name: "email", value: undefined },
+  { id: "c2", name: "result", value: "42" },
+];
+
+describe("applyVariableMappings", () => {
+  it("should set child variables from parent variables", () => {
+    expect(
+      applyVariableMappings(childVariables, {
+        sourceVariables: parentVariables,
+        mappings: parseInputMappings([
+          { id: "1", parentVariableId: "p1", childVariableId: "c1" },
+        ]),
+      }),
+    ).toEqual([
+      { id: "c1", name: "email", value: "john@example.com" },
+      { id: "c2", name: "result", value: "42" },
+    ]);
+  });
+
+  it("should set parent variables from child variables", () => {
+    expect(
+      applyVariableMappings(parentVariables, {
+        sourceVariables: childVariables,
+        mappings: parseOutputMappings([
+          { id: "1", parentVariableId: "p2", childVariableId: "c2" },
+        ]),
+      }),
+    ).toEqual([
+      { id: "p1", name: "Email", value: "john@example.com" },
+      { id: "p2", name: "Score", value: "42" },
+    ]);
+  });
+
+  it("should ignore incomplete mappings", () => {
+    expect(
+      parseInputMappings([
+        { id: "1", parentVariableId: "p1" },
+        { id: "2", childVariableId: "c1" },
+      ]),
+    ).toEqual([]);
+  });
+});
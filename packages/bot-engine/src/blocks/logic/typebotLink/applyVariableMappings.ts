@@ -0,0 +1,50 @@
+import type { VariableMapping } from "@typebot.io/blocks-logic/typebotLink/schema";
+import { byId, isDefined } from "@typebot.io/lib/utils";
+import type { Variable } from "@typebot.io/variables/schemas";
+
+type ResolvedMapping = { fromVariableId: string; toVariableId: string };
+
+export const parseInputMappings = (
+  mappings: VariableMapping[] | undefined,
+): ResolvedMapping[] =>
+  (mappings ?? [])
+    .map(({ parentVariableId, childVariableId }) =>
+      parentVariableId && childVariableId
+        ? { fromVariableId: parentVariableId, toVariableId: childVariableId }
+        : undefined,
+    )
+    .filter(isDefined);
+
+export const parseOutputMappings = (
+  mappings: VariableMapping[] | undefined,
+): ResolvedMapping[] =>
+  (mappings ?? [])
+    .map(({ parentVariableId, childVariableId }) =>
+      parentVariableId && childVariableId
+        ? { fromVariableId: childVariableId, toVariableId: parentVariableId }
+        : undefined,
+    )
+    .filter(isDefined);
+
+/**
+ * Sets the value of each mapped variable from its source variable. Variables
+ * without mapping are left untouched.
+ */
+export const applyVariableMappings = (
+  variables: Variable[],
+  {
+    sourceVariables,
+    mappings,
+  }: { sourceVariables: Variable[]; mappings: ResolvedMapping[] },
+): Variable[] => {
+  if (mappings.length === 0) return variables;
+  return variables.map((variable) => {
+    const mapping = mappings
+      .filter((mapping) => mapping.toVariableId === variable.id)
+      .at(-1);
+    if (!mapping) return variable;
+    const sourceVariable = sourceVariables.find(byId(mapping.fromVariableId));
+    if (!sourceVariable) return variable;
+    return { ...variable, value: sourceVariable.value };
+  });
+};
@@ -20,6 +20,11 @@ import { addVirtualEdge } from "../../../addPortalEdge";
 import { isTypebotInSessionAtLeastV6 } from "../../../helpers/isTypebotInSessionAtLeastV6";
 import { createResultIfNotExist } from "../../../queries/createResultIfNotExist";
 import type { ExecuteLogicResponse } from "../../../types";
+import {
+  applyVariableMappings,
+  parseInputMappings,
+  parseOutputMappings,
+} from "./applyVariableMappings";
 
 export const executeTypebotLink = async (
   block: TypebotLinkBlock,
@@ -114,9 +119,20 @@ const addSameTypebotToState = async ({
       {
         typebot: {
           ...newSessionState.typebotsQueue[0].typebot,
+          variables: applyVariableMappings(
+            newSessionState.typebotsQueue[0].typebot.variables,
+            {
+              sourceVariables:
+                newSessionState.typebotsQueue[0].typebot.variables,
+              mappings: parseInputMappings(block.options?.inputMappings),
+            },
+          ),
         },
         resultId: newSessionState.typebotsQueue[0].resultId,
         queuedEdgeIds: edgeIdToQueue ? [edgeIdToQueue] : undefined,
+        outputVariableMappings: parseOutputMappings(
+          block.options?.outputMappings,
+        ),
         answers: newSessionState.typebotsQueue[0].answers,
         isMergingWithParent: true,
       },
@@ -168,9 +184,16 @@ const addLinkedTypebotToState = async (
       {
         typebot: {
           ...linkedTypebot,
-          variables: fillVariablesWithExistingValues(
-            linkedTypebot.variables,
-            newSessionState.typebotsQueue,
+          variables: applyVariableMappings(
+            fillVariablesWithExistingValues(
+              linkedTypebot.variables,
+              newSessionState.typebotsQueue,
+            ),
+            {
+              sourceVariables:
+                newSessionState.typebotsQueue[0].typebot.variables,
+              mappings: parseInputMappings(block.options?.inputMappings),
+            },
           ),
         },
         resultId: isPreview
@@ -179,6 +202,9 @@ const addLinkedTypebotToState = async (
             ? newSessionState.typebotsQueue[0].resultId
             : createId(),
         queuedEdgeIds: edgeIdToQueue ? [edgeIdToQueue] : undefined,
+        outputVariableMappings: parseOutputMappings(
+          block.options?.outputMappings,
+        ),
         answers: shouldMergeResults
           ? newSessionState.typebotsQueue[0].answers
           : [],
@@ -16,6 +16,7 @@ import type {
   Variable,
 } from "@typebot.io/variables/schemas";
 import { createVirtualEdgeId } from "./addPortalEdge";
+import { parseSwitchCaseCondition } from "./blocks/logic/switch/parseSwitchCaseCondition";
 import { getReplyOutgoingEdge } from "./getReplyOutgoingEdge";
 import { isTypebotInSessionAtLeastV6 } from "./helpers/isTypebotInSessionAtLeastV6";
 import {
@@ -50,6 +51,8 @@ type SetVarSnapshot = Readonly<
 
 type TranscriptMessage = {
   role: "bot" | "user";
+  /** Bubble block the bot message comes from */
+  blockId?: string;
 } & (
   | { type: "text"; text: string }
   | { type: "image"; image: string }
@@ -310,6 +313,25 @@ const executeGroup = ({
         nextEdgeId = passed.outgoingEdgeId;
       }
     }
+    // ──────────────────────────────────────────────────────────── Switch
+    else if (block.type === LogicBlockType.SWITCH) {
+      const matchingCase = block.items.find((item) => {
+        const condition = parseSwitchCaseCondition(item, {
+          variableId: block.options?.variableId,
+        });
+        return (
+          condition &&
+          executeCondition(condition, {
+            variables: typebot.variables,
+            sessionStore,
+          })
+        );
+      });
+      if (matchingCase) {
+        visitedEdges.next();
+        nextEdgeId = matchingCase.outgoingEdgeId;
+      }
+    }
     if (block.type === LogicBlockType.JUMP) {
       if (!block.options?.groupId) continue;
       const virtualId = createVirtualEdgeId({
@@ -325,6 +347,22 @@ const executeGroup = ({
         },
       });
       nextEdgeId = virtualId;
+    } else if (block.type === LogicBlockType.HANDOFF) {
+      // The agent may have handed the conversation back to a specific group
+      const handBackGroup = typebot.groups.find(
+        (group) =>
+          createVirtualEdgeId({ groupId: group.id }) === visitedEdges.peek(),
+      );
+      if (handBackGroup) {
+        const virtualId = createVirtualEdgeId({ groupId: handBackGroup.id });
+        visitedEdges.next();
+        typebotsQueue[0].typebot.edges.push({
+          id: virtualId,
+          from: { blockId: block.id },
+          to: { groupId: handBackGroup.id },
+        });
+        nextEdgeId = virtualId;
+      }
     } else if (
       block.type === LogicBlockType.AB_TEST ||
       block.type === LogicBlockType.RETURN
@@ -440,6 +478,7 @@ const convertChatMessageToTranscriptMessage = (
       if (chatMessage.content.type === "richText") return null;
       return {
         role: "bot",
+        blockId: chatMessage.id,
         type: "text",
         text: chatMessage.content.markdown,
       };
@@ -448,6 +487,7 @@ const convertChatMessageToTranscriptMessage = (
       if (!chatMessage.content.url) return null;
       return {
         role: "bot",
+        blockId: chatMessage.id,
         type: "image",
         image: chatMessage.content.url,
       };
@@ -456,6 +496,7 @@ const convertChatMessageToTranscriptMessage = (
       if (!chatMessage.content.url) return null;
       return {
         role: "bot",
+        blockId: chatMessage.id,
         type: "video",
         video: chatMessage.content.url,
       };
@@ -464,6 +505,7 @@ const convertChatMessageToTranscriptMessage = (
       if (!chatMessage.content.url) return null;
       return {
         role: "bot",
+        blockId: chatMessage.id,
         type: "audio",
         audio: chatMessage.content.url,
       };
@@ -6,6 +6,7 @@ import {
 } from "@typebot.io/blocks-core/helpers";
 import type { Block } from "@typebot.io/blocks-core/schemas/schema";
 import { InputBlockType } from "@typebot.io/blocks-inputs/constants";
+import { defaultContactInputOptions } from "@typebot.io/blocks-inputs/contact/constants";
 import { defaultEmailInputOptions } from "@typebot.io/blocks-inputs/email/constants";
 import { defaultPaymentInputOptions } from "@typebot.io/blocks-inputs/payment/constants";
 import type { InputBlock } from "@typebot.io/blocks-inputs/schema";
@@ -28,6 +29,8 @@ import { getBlockById } from "@typebot.io/groups/helpers/getBlockById";
 import type { Group } from "@typebot.io/groups/schemas";
 import { parseUnknownError } from "@typebot.io/lib/parseUnknownError";
 import { byId, isDefined, isNotDefined } from "@typebot.io/lib/utils";
+import { ResultWebhookEvent } from "@typebot.io/prisma/enum";
+import { dispatchResultWebhookEvents } from "@typebot.io/results/dispatchResultWebhookEvents";
 import type { AnswerInSessionState } from "@typebot.io/results/schemas/answers";
 import type { SessionStore } from "@typebot.io/runtime-session-store";
 import { defaultSystemMessages } from "@typebot.io/settings/constants";
@@ -38,7 +41,12 @@ import type {
 } from "@typebot.io/variables/schemas";
 import { saveDataInResponseVariableMapping } from "./blocks/integrations/httpRequest/saveDataInResponseVariableMapping";
 import { resumeChatCompletion } from "./blocks/integrations/legacy/openai/resumeChatCompletion";
+import { resumeHandoffBlock } from "./blocks/logic/handoff/resumeHandoffBlock";
 import { executeCommandEvent } from "./events/executeCommandEvent";
+import {
+  executeInactivityEvent,
+  getInactivityTimeout,
+} from "./events/executeInactivityEvent";
 import { executeInvalidReplyEvent } from "./events/executeInvalidReplyEvent";
 import { executeReplyEvent } from "./events/executeReplyEvent";
 import { formatInputForChatResponse } from "./formatInputForChatResponse";
@@ -88,6 +96,14 @@ export const continueBotFlow = async (
     });
   }
 
+  if (reply?.type === "inactivity")
+    newSessionState = executeInactivityEvent({ state });
+  else if (reply && newSessionState.isInactivityEventTriggered)
+    newSessionState = {
+      ...newSessionState,
+      isInactivityEventTriggered: undefined,
+    };
+
   if (!newSessionState.currentBlockId)
     throw new ORPCError("INTERNAL_SERVER_ERROR", {
       message: "Current block id is not set",
@@ -103,6 +119,26 @@ export const continueBotFlow = async (
       message: "Group / block not found",
     });
 
+  let handoffNextEdge: { id: string; isOffDefaultPath: boolean } | undefined;
+  if (block.type === LogicBlockType.HANDOFF) {
+    const handoffResponse = await resumeHandoffBlock(block, {
+      state: newSessionState,
+      reply,
+      textBubbleContentFormat,
+    });
+    if (handoffResponse.status === "waiting")
+      return {
+        messages: handoffResponse.messages,
+        input: handoffResponse.input,
+        clientSideActions: handoffResponse.clientSideActions,
+        newSessionState,
+        visitedEdges: [],
+        setVariableHistory: [],
+      };
+    newSessionState = handoffResponse.newSessionState;
+    handoffNextEdge = handoffResponse.nextEdge;
+  }
+
   const nonInputProcessResult = await processNonInputBlock({
     block,
     state: newSessionState,
@@ -205,11 +241,13 @@ export const continueBotFlow = async (
     continueReply = parsedReplyResult;
   }
 
-  const nextEdge = getReplyOutgoingEdge(continueReply, {
-    block,
-    variables: newSessionState.typebotsQueue[0].typebot.variables,
-    sessionStore,
-  });
+  const nextEdge =
+    handoffNextEdge ??
+    getReplyOutgoingEdge(continueReply, {
+      block,
+      variables: newSessionState.typebotsQueue[0].typebot.variables,
+      sessionStore,
+    });
 
   const content =
     continueReply && "content" in continueReply
@@ -620,6 +658,7 @@ const parseRetryMessage = async (
       variables: state.typebotsQueue[0].typebot.variables,
       isPreview: isNotDefined(state.typebotsQueue[0].resultId),
       workspaceId: state.workspaceId,
+      inactivityTimeout: getInactivityTimeout(state),
       sessionStore,
     }),
   };
@@ -640,6 +679,8 @@ const parseDefaultRetryMessage = (
       return defaultEmailInputOptions.retryMessageContent;
     case InputBlockType.PAYMENT:
       return defaultPaymentInputOptions.retryMessageContent;
+    case InputBlockType.CONTACT:
+      return defaultContactInputOptions.retryMessageContent;
     default:
       return currentTypebot.systemMessages?.invalidMessage
         ? parseVariables(currentTypebot.systemMessages.invalidMessage, {
@@ -665,6 +706,18 @@ const saveAnswerInDb =
       },
       state,
     });
+    const resultId = state.typebotsQueue[0].resultId;
+    if (resultId && state.hasResultWebhooks)
+      await dispatchResultWebhookEvents({
+        resultId,
+        events: [
+          // The first answer is what lists the result in the results table
+          ...(state.typebotsQueue[0].answers.length === 0
+            ? [ResultWebhookEvent.RESULT_CREATED]
+            : []),
+          ResultWebhookEvent.ANSWER_ADDED,
+        ],
+      });
 
     newSessionState = {
       ...saveVariablesValueIfAny(newSessionState, block)(reply),
@@ -757,4 +810,5 @@ const findInvalidReplyEvent = (
 
 const isInputMessage = (
   message: Message | undefined,
-): message is InputMessage => message?.type !== "command";
+): message is InputMessage =>
+  message?.type !== "command" && message?.type !== "inactivity";
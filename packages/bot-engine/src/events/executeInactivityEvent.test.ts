@@ -0,0 +1,63 @@
+import { describe, expect, it } from "bun:test";
+import type { SessionState } from "@typebot.io/chat-session/schemas";
+import {
+  executeInactivityEvent,
+  getInactivityTimeout,
+} from "./executeInactivityEvent";
+
+const state = {
+  version: "3",
+  workspaceId: "workspace",
+  currentBlockId: "input",
+  typebotsQueue: [
+    {
+      resultId: "result",
+      answers: [],
+      typebot: {
+        version: "6",
+        id: "typebot",
+        variables: [],
+        events: [
+          {
+            id: "inactivity",
+            type: "inactivity",
+            outgoingEdgeId: "edge",
+            graphCoordinates: { x: 0, y: 0 },
+            options: { timeout: 30 },
+          },
+        ],
+        edges: [
+          { id: "edge", from: { eventId: "inactivity" }, to: { groupId: "g" } },
+        ],
+        groups: [
+          {
+            id: "g",
+            title: "Nudge",
+            graphCoordinates: { x: 0, y: 0 },
+            blocks: [{ id: "nudge", type: "text" }],
+          },
+        ],
+      },
+    },
+  ],
+} as unknown as SessionState;
+
+describe("executeInactivityEvent", () => {
+  it("should go to the event group and return to the waiting input", () => {
+    const newSessionState = executeInactivityEvent({ state });
+    expect(newSessionState.currentBlockId).toBe("virtual-inactivity-block");
+    expect(newSessionState.returnMark).toEqual({
+      status: "pending",
+      blockId: "input",
+    });
+  });
+
+  it("should only be triggered once until the user replies", () => {
+    const newSessionState = executeInactivityEvent({ state });
+    expect(getInactivityTimeout(state)).toBe(30);
+    expect(getInactivityTimeout(newSessionState)).toBeUndefined();
+    expect(() => executeInactivityEvent({ state: newSessionState })).toThrow(
+      "Inactivity event was already triggered",
+    );
+  });
+});
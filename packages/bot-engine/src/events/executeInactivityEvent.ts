@@ -0,0 +1,53 @@
+import { ORPCError } from "@orpc/server";
+import type { SessionState } from "@typebot.io/chat-session/schemas";
+import {
+  defaultInactivityEventOptions,
+  EventType,
+} from "@typebot.io/events/constants";
+import type { InactivityEvent } from "@typebot.io/events/schemas";
+import { updateCurrentBlockIdWithEvent } from "./updateCurrentBlockIdWithEvent";
+
+type Props = {
+  state: SessionState;
+};
+export const executeInactivityEvent = ({ state }: Props) => {
+  const event = findInactivityEvent(state);
+
+  if (!event)
+    throw new ORPCError("BAD_REQUEST", {
+      message: "Inactivity event not found",
+    });
+
+  if (state.isInactivityEventTriggered)
+    throw new ORPCError("BAD_REQUEST", {
+      message: "Inactivity event was already triggered",
+    });
+
+  const newSessionState = { ...state, isInactivityEventTriggered: true };
+  if (newSessionState.currentBlockId)
+    newSessionState.returnMark = {
+      status: "pending",
+      blockId: newSessionState.currentBlockId,
+    };
+
+  return updateCurrentBlockIdWithEvent({
+    state: newSessionState,
+    event,
+  });
+};
+
+export const findInactivityEvent = (
+  state: Pick<SessionState, "typebotsQueue">,
+): (InactivityEvent & { outgoingEdgeId: string }) | undefined =>
+  state.typebotsQueue[0].typebot.events?.find(
+    (e) => e.type === EventType.INACTIVITY && e.outgoingEdgeId,
+  ) as (InactivityEvent & { outgoingEdgeId: string }) | undefined;
+
+export const getInactivityTimeout = (
+  state: Pick<SessionState, "typebotsQueue" | "isInactivityEventTriggered">,
+) => {
+  if (state.isInactivityEventTriggered) return;
+  const event = findInactivityEvent(state);
+  if (!event) return;
+  return event.options?.timeout ?? defaultInactivityEventOptions.timeout;
+};
@@ -11,6 +11,7 @@ import { executeGoogleAnalyticsBlock } from "./blocks/integrations/legacy/google
 import { executeOpenAIBlock } from "./blocks/integrations/legacy/openai/executeOpenAIBlock";
 import { executePixelBlock } from "./blocks/integrations/pixel/executePixelBlock";
 import { executeSendEmailBlock } from "./blocks/integrations/sendEmail/executeSendEmailBlock";
+import { executeWhatsAppTemplateBlock } from "./blocks/integrations/whatsAppTemplate/executeWhatsAppTemplateBlock";
 import { executeForgedBlock } from "./forge/executeForgedBlock";
 import type { ExecuteIntegrationResponse } from "./types";
 
@@ -61,6 +62,8 @@ export const executeIntegration = async ({
       };
     case IntegrationBlockType.PIXEL:
       return executePixelBlock(block, { state, sessionStore });
+    case IntegrationBlockType.WHATSAPP_TEMPLATE:
+      return executeWhatsAppTemplateBlock(block, { state, sessionStore });
     default:
       return {
         ...(await executeForgedBlock(block, { state, sessionStore })),
@@ -6,11 +6,15 @@ import type { SessionStore } from "@typebot.io/runtime-session-store";
 import type { SetVariableHistoryItem } from "@typebot.io/variables/schemas";
 import { executeAbTest } from "./blocks/logic/abTest/executeAbTest";
 import { executeConditionBlock } from "./blocks/logic/condition/executeConditionBlock";
+import { executeForEachBlock } from "./blocks/logic/forEach/executeForEachBlock";
+import { executeHandoffBlock } from "./blocks/logic/handoff/executeHandoffBlock";
 import { executeJumpBlock } from "./blocks/logic/jump/executeJumpBlock";
 import { executeRedirect } from "./blocks/logic/redirect/executeRedirect";
 import { executeReturnBlock } from "./blocks/logic/return/executeReturnBlock";
 import { executeScript } from "./blocks/logic/script/executeScript";
 import { executeSetVariable } from "./blocks/logic/setVariable/executeSetVariable";
+import { executeSwitchBlock } from "./blocks/logic/switch/executeSwitchBlock";
+import { executeTagResultBlock } from "./blocks/logic/tagResult/executeTagResultBlock";
 import { executeTypebotLink } from "./blocks/logic/typebotLink/executeTypebotLink";
 import { executeWait } from "./blocks/logic/wait/executeWait";
 import { executeWebhookBlock } from "./blocks/logic/webhook/executeWebhookBlock";
@@ -55,5 +59,13 @@ export const executeLogic = async ({
       return executeWebhookBlock(block);
     case LogicBlockType.RETURN:
       return executeReturnBlock(state);
+    case LogicBlockType.FOR_EACH:
+      return executeForEachBlock(block, { state, sessionStore });
+    case LogicBlockType.SWITCH:
+      return executeSwitchBlock(block, { state, sessionStore });
+    case LogicBlockType.HANDOFF:
+      return executeHandoffBlock(block, { state });
+    case LogicBlockType.TAG_RESULT:
+      return executeTagResultBlock(block, { state, sessionStore });
   }
 };
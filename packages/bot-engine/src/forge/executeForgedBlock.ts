@@ -24,6 +24,7 @@ import {
 } from "@typebot.io/variables/parseVariables";
 import type { SetVariableHistoryItem } from "@typebot.io/variables/schemas";
 import { getNextBlock } from "../getNextBlock";
+import { isMessagingChannelSession } from "../helpers/isMessagingChannelSession";
 import type { ExecuteIntegrationResponse } from "../types";
 import { updateVariablesInSession } from "../updateVariablesInSession";
 
@@ -55,7 +56,7 @@ export const executeForgedBlock = async (
       action.getStreamVariableId?.(block.options),
     ) &&
     state.isStreamEnabled &&
-    !state.whatsApp
+    !isMessagingChannelSession(state)
   ) {
     return {
       outgoingEdgeId: block.outgoingEdgeId,
@@ -15,6 +15,32 @@ import { injectVariableValuesInPictureChoiceBlock } from "./blocks/inputs/pictur
 import { getPrefilledInputValue } from "./getPrefilledValue";
 
 export const formatInputForChatResponse = async (
+  block: InputBlock,
+  {
+    variables,
+    sessionStore,
+    isPreview,
+    workspaceId,
+    inactivityTimeout,
+  }: {
+    variables: Variable[];
+    sessionStore: SessionStore;
+    isPreview: boolean;
+    workspaceId: string;
+    inactivityTimeout?: number;
+  },
+): Promise<ContinueChatResponse["input"]> => {
+  const input = await formatInput(block, {
+    variables,
+    sessionStore,
+    isPreview,
+    workspaceId,
+  });
+  if (!input || !inactivityTimeout) return input;
+  return { ...input, inactivityTimeout };
+};
+
+const formatInput = async (
   block: InputBlock,
   {
     variables,
@@ -1,6 +1,8 @@
 import { ORPCError } from "@orpc/server";
 import type { StartFrom } from "@typebot.io/chat-api/schemas";
 import type { TypebotInSession } from "@typebot.io/chat-session/schemas";
+import { defaultSystemMessages } from "@typebot.io/settings/constants";
+import { getScheduleStatus } from "@typebot.io/settings/getScheduleStatus";
 import { getFirstEdgeId } from "./getFirstEdgeId";
 import type { WalkFlowStartingPoint } from "./walkFlowForward";
 
@@ -24,6 +26,23 @@ export const getStartingPoint = ({
       group,
     };
   }
+  if (
+    !startFrom &&
+    getScheduleStatus(typebot.schedule) === "outsideAvailability"
+  ) {
+    const closedGroup = typebot.groups.find(
+      (group) => group.id === typebot.schedule?.availability?.closedGroupId,
+    );
+    if (!closedGroup)
+      throw new ORPCError("BAD_REQUEST", {
+        message:
+          typebot.systemMessages?.botClosed ?? defaultSystemMessages.botClosed,
+      });
+    return {
+      type: "group",
+      group: closedGroup,
+    };
+  }
   const firstEdgeId = getFirstEdgeId({
     typebot,
     startEventId: startFrom?.type === "event" ? startFrom.eventId : undefined,
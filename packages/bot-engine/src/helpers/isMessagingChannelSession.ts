@@ -0,0 +1,9 @@
+import type { SessionState } from "@typebot.io/chat-session/schemas";
+
+/**
+ * Sessions running on a messaging channel have no client able to execute
+ * client side actions.
+ */
+export const isMessagingChannelSession = (
+  state: Pick<SessionState, "whatsApp" | "channel">,
+) => Boolean(state.whatsApp || state.channel);
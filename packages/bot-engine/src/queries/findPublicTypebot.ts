@@ -17,6 +17,7 @@ export const findPublicTypebot = ({ publicId }: Props) =>
       theme: true,
       variables: true,
       typebotId: true,
+      snapshotId: true,
       lastActivityAt: true,
       typebot: {
         select: {
@@ -30,6 +31,9 @@ export const findPublicTypebot = ({ publicId }: Props) =>
               customChatsLimit: true,
               isQuarantined: true,
               isSuspended: true,
+              _count: {
+                select: { resultWebhooks: { where: { isEnabled: true } } },
+              },
             },
           },
         },
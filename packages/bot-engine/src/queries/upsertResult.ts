@@ -1,7 +1,7 @@
 import type { ContinueChatResponse } from "@typebot.io/chat-api/schemas";
 import type { TypebotInSession } from "@typebot.io/chat-session/schemas";
 import prisma from "@typebot.io/prisma";
-import { JsonNull } from "@typebot.io/prisma/enum";
+import { JsonNull, type ResultStatus } from "@typebot.io/prisma/enum";
 import type { Prisma } from "@typebot.io/prisma/types";
 import { filterNonSessionVariablesWithValues } from "@typebot.io/variables/filterVariablesWithValues";
 import type { SetVariableHistoryItem } from "@typebot.io/variables/schemas";
@@ -13,9 +13,14 @@ type Props = {
   hasStarted: boolean;
   isCompleted: boolean;
   lastChatSessionId?: string;
+  publishedSnapshotId?: string;
+  campaignId?: string;
   logs?: ContinueChatResponse["logs"];
   visitedEdges?: Prisma.VisitedEdge[];
   setVariableHistory?: SetVariableHistoryItem[];
+  status?: ResultStatus;
+  tags?: string[];
+  notes?: string | null;
 };
 export const upsertResult = ({
   resultId,
@@ -23,9 +28,14 @@ export const upsertResult = ({
   hasStarted,
   isCompleted,
   lastChatSessionId,
+  publishedSnapshotId,
+  campaignId,
   logs,
   visitedEdges,
   setVariableHistory,
+  status,
+  tags,
+  notes,
 }: Props): Prisma.PrismaPromise<any> => {
   const variablesWithValue = filterNonSessionVariablesWithValues(
     typebot.variables,
@@ -81,6 +91,9 @@ export const upsertResult = ({
       logs: logsToCreate,
       setVariableHistory: setVariableHistoryToCreate,
       edges: visitedEdgesToCreate,
+      status,
+      tags,
+      notes,
     },
     create: {
       id: resultId,
@@ -89,9 +102,14 @@ export const upsertResult = ({
       hasStarted,
       variables: variablesWithValue,
       lastChatSessionId,
+      publishedSnapshotId,
+      campaignId,
       logs: logsToCreate,
       setVariableHistory: setVariableHistoryToCreate,
       edges: visitedEdgesToCreate,
+      status,
+      tags,
+      notes,
     },
     select: { id: true },
   });
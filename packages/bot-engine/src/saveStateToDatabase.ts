@@ -4,7 +4,11 @@ import { updateSession } from "@typebot.io/chat-session/queries/updateSession";
 import { upsertSession } from "@typebot.io/chat-session/queries/upsertSession";
 import type { ChatSession } from "@typebot.io/chat-session/schemas";
 import prisma from "@typebot.io/prisma";
+import { ResultWebhookEvent } from "@typebot.io/prisma/enum";
 import type { Prisma } from "@typebot.io/prisma/types";
+import { dispatchResultWebhookEvents } from "@typebot.io/results/dispatchResultWebhookEvents";
+import { mergeResultTags } from "@typebot.io/results/mergeResultTags";
+import { resultSchema } from "@typebot.io/results/schemas/results";
 import type { SetVariableHistoryItem } from "@typebot.io/variables/schemas";
 import { upsertResult } from "./queries/upsertResult";
 
@@ -43,6 +47,9 @@ export const saveStateToDatabase = async ({
       !isWaitingForExternalEvent,
   );
 
+  // Applied to the result below, no need to keep it in the session
+  const { pendingResultUpdate, ...stateToSave } = state;
+
   const queries: Prisma.PrismaPromise<any>[] = [];
 
   const resultId = state.typebotsQueue[0].resultId;
@@ -53,19 +60,26 @@ export const saveStateToDatabase = async ({
       queries.push(
         updateSession({
           id: sessionId.id,
-          state,
+          state: stateToSave,
           isReplying: isWaitingForExternalEvent ?? false,
         }),
       );
   }
 
-  const session =
+  const [session, existingResult] = await Promise.all([
     sessionId.type === "existing"
-      ? { state, id: sessionId.id }
-      : await upsertSession(sessionId.id, {
-          state,
+      ? { state: stateToSave, id: sessionId.id }
+      : upsertSession(sessionId.id, {
+          state: stateToSave,
           isReplying: isWaitingForExternalEvent ?? false,
-        });
+        }),
+    resultId && pendingResultUpdate
+      ? prisma.result.findUnique({
+          where: { id: resultId },
+          select: { tags: true },
+        })
+      : undefined,
+  ]);
 
   if (!resultId) {
     if (queries.length > 0) await prisma.$transaction(queries);
@@ -74,22 +88,55 @@ export const saveStateToDatabase = async ({
 
   const answers = state.typebotsQueue[0].answers;
 
+  const isResultCompleted = Boolean(
+    !input && !containsSetVariableClientSideAction && answers.length > 0,
+  );
+
+  const hasPendingTagsUpdate = Boolean(
+    pendingResultUpdate?.tagsToAdd?.length ||
+      pendingResultUpdate?.tagsToRemove?.length,
+  );
+
   queries.push(
     upsertResult({
       resultId,
       typebot: state.typebotsQueue[0].typebot,
-      isCompleted: Boolean(
-        !input && !containsSetVariableClientSideAction && answers.length > 0,
-      ),
+      isCompleted: isResultCompleted,
       hasStarted: answers.length > 0,
       lastChatSessionId: session.id,
+      publishedSnapshotId:
+        state.typebotsQueue.length === 1
+          ? state.publishedSnapshotId
+          : undefined,
+      campaignId:
+        state.typebotsQueue.length === 1 ? state.campaignId : undefined,
       logs,
       visitedEdges,
       setVariableHistory,
+      status: pendingResultUpdate?.status,
+      tags: hasPendingTagsUpdate
+        ? mergeResultTags({
+            tags: resultSchema.shape.tags
+              .catch(null)
+              .parse(existingResult?.tags ?? null),
+            tagsToAdd: pendingResultUpdate?.tagsToAdd,
+            tagsToRemove: pendingResultUpdate?.tagsToRemove,
+          })
+        : undefined,
+      notes:
+        pendingResultUpdate?.notes !== undefined
+          ? pendingResultUpdate.notes.trim() || null
+          : undefined,
     }),
   );
 
   await prisma.$transaction(queries);
 
+  if (isResultCompleted && state.hasResultWebhooks)
+    await dispatchResultWebhookEvents({
+      resultId,
+      events: [ResultWebhookEvent.RESULT_COMPLETED],
+    });
+
   return session;
 };
@@ -91,6 +91,8 @@ const autoContinueChatIfStartingWithInput = async ({
       isCompleted: false,
       resultId,
       typebot: chatReply.newSessionState.typebotsQueue[0].typebot,
+      publishedSnapshotId: chatReply.newSessionState.publishedSnapshotId,
+      campaignId: chatReply.newSessionState.campaignId,
     });
   return continueBotFlow(message, {
     version,
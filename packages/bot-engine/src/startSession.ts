@@ -38,6 +38,7 @@ import {
   defaultSettings,
   defaultSystemMessages,
 } from "@typebot.io/settings/constants";
+import { getScheduleStatus } from "@typebot.io/settings/getScheduleStatus";
 import { settingsSchema } from "@typebot.io/settings/schemas";
 import {
   defaultGuestAvatarIsEnabled,
@@ -58,6 +59,7 @@ import { transformPrefilledVariablesToVariables } from "@typebot.io/variables/tr
 import { after } from "next/server";
 import { NodeType, parse } from "node-html-parser";
 import { getStartingPoint } from "./getStartingPoint";
+import { isMessagingChannelSession } from "./helpers/isMessagingChannelSession";
 import { isTypebotInSessionAtLeastV6 } from "./helpers/isTypebotInSessionAtLeastV6";
 import { parseDynamicTheme } from "./parseDynamicTheme";
 import { findPublicTypebot } from "./queries/findPublicTypebot";
@@ -80,7 +82,10 @@ type Props = {
   version: 1 | 2;
   sessionStore: SessionStore;
   startParams: StartParams;
-  initialSessionState?: Pick<SessionState, "whatsApp" | "expiryTimeout">;
+  initialSessionState?: Pick<
+    SessionState,
+    "whatsApp" | "channel" | "expiryTimeout" | "campaignId"
+  >;
 };
 
 export const startSession = async ({
@@ -119,12 +124,15 @@ export const startSession = async ({
   const typebotInSession = convertStartTypebotToTypebotInSession(
     typebot,
     startVariables,
+    { isPreview: startParams.type === "preview" },
   );
 
   let initialState: SessionState = {
     version: "3",
     workspaceId: typebot.workspaceId,
     publicTypebotId: typebot.publicTypebotId,
+    publishedSnapshotId: typebot.publishedSnapshotId,
+    hasResultWebhooks: typebot.hasResultWebhooks || undefined,
     typebotsQueue: [
       {
         resultId: result?.id,
@@ -164,11 +172,12 @@ export const startSession = async ({
       startParams.type === "preview"
         ? undefined
         : typebot.settings.security?.allowedOrigins,
-    progressMetadata: initialSessionState?.whatsApp
-      ? undefined
-      : typebot.theme.general?.progressBar?.isEnabled
-        ? { totalAnswers: 0 }
-        : undefined,
+    progressMetadata:
+      initialSessionState && isMessagingChannelSession(initialSessionState)
+        ? undefined
+        : typebot.theme.general?.progressBar?.isEnabled
+          ? { totalAnswers: 0 }
+          : undefined,
     setVariableIdsForHistory: extractVariableIdsUsedForTranscript(
       typebotInSession,
       { sessionStore },
@@ -333,7 +342,7 @@ export const startSession = async ({
 
 const getTypebot = async (startParams: StartParams) => {
   if (startParams.type === "preview" && startParams.typebot)
-    return startParams.typebot;
+    return { ...startParams.typebot, hasResultWebhooks: false };
 
   if (startParams.type === "preview" && !startParams.userId)
     throw new ORPCError("UNAUTHORIZED", {
@@ -366,9 +375,10 @@ const getTypebot = async (startParams: StartParams) => {
     typebotQuery && "typebot" in typebotQuery
       ? {
           publicTypebotId: typebotQuery.id,
+          publishedSnapshotId: typebotQuery.snapshotId ?? undefined,
           id: typebotQuery.typebotId,
           ...omit(typebotQuery.typebot, "workspace"),
-          ...omit(typebotQuery, "typebot", "typebotId", "id"),
+          ...omit(typebotQuery, "typebot", "typebotId", "id", "snapshotId"),
         }
       : typebotQuery;
 
@@ -395,7 +405,27 @@ const getTypebot = async (startParams: StartParams) => {
           ?.botClosed ?? defaultSystemMessages.botClosed,
     });
 
-  return startTypebotSchema.parse(parsedTypebot);
+  if (typebotQuery && "typebot" in typebotQuery) {
+    const settings = settingsSchema.parse(parsedTypebot.settings);
+    const scheduleStatus = getScheduleStatus(settings.schedule);
+    if (
+      scheduleStatus === "notPublishedYet" ||
+      scheduleStatus === "unpublished"
+    )
+      throw new ORPCError("BAD_REQUEST", {
+        message:
+          settings.general?.systemMessages?.botClosed ??
+          defaultSystemMessages.botClosed,
+      });
+  }
+
+  return {
+    ...startTypebotSchema.parse(parsedTypebot),
+    hasResultWebhooks:
+      typebotQuery && "typebot" in typebotQuery
+        ? typebotQuery.typebot.workspace._count.resultWebhooks > 0
+        : false,
+  };
 };
 
 const getOrInitResult = async ({
@@ -536,7 +566,15 @@ const removeLiteBadgeCss = (code: string) => {
 const convertStartTypebotToTypebotInSession = (
   typebot: StartTypebot,
   startVariables: Variable[],
+  { isPreview }: { isPreview: boolean },
 ): TypebotInSession => {
+  // Availability windows are not applied in preview so that the bot can be tested at any time
+  const schedule = isPreview
+    ? undefined
+    : typebot.settings.schedule && {
+        timeZone: typebot.settings.schedule.timeZone,
+        availability: typebot.settings.schedule.availability,
+      };
   const isAtLeastV6 = (typebot: StartTypebot): typebot is StartTypebotV6 =>
     Number(typebot.version) >= 6;
   if (isAtLeastV6(typebot)) {
@@ -548,6 +586,7 @@ const convertStartTypebotToTypebotInSession = (
       variables: startVariables,
       events: typebot.events,
       systemMessages: typebot.settings.general?.systemMessages,
+      schedule,
     };
   }
   return {
@@ -558,6 +597,7 @@ const convertStartTypebotToTypebotInSession = (
     variables: startVariables,
     events: typebot.events,
     systemMessages: typebot.settings.general?.systemMessages,
+    schedule,
   } as TypebotInSessionV5; // I am not sure why, this needs to be casted, the discrimination does not work here
 };
 
@@ -604,6 +644,8 @@ const extractVariableIdsUsedForTranscript = (
             : undefined;
         });
       }
+      if (block.type === LogicBlockType.SWITCH && block.options?.variableId)
+        variableIds.add(block.options.variableId);
       if (block.type === LogicBlockType.CONDITION) {
         block.items.forEach((item) => {
           item.content?.comparisons?.forEach((comparison) => {
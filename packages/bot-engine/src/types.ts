@@ -13,7 +13,7 @@ export type ExecuteLogicResponse = {
   outgoingEdgeId: string | undefined | null;
   newSessionState?: SessionState;
   newSetVariableHistory?: SetVariableHistoryItem[];
-} & Pick<ContinueChatResponse, "clientSideActions" | "logs">;
+} & Pick<ContinueChatResponse, "clientSideActions" | "logs" | "input">;
 
 export type ExecuteIntegrationResponse = {
   outgoingEdgeId: string | undefined | null;
@@ -1,5 +1,6 @@
 import type { SessionState } from "@typebot.io/chat-session/schemas";
 import { safeStringify } from "@typebot.io/lib/safeStringify";
+import { coerceVariableValue } from "@typebot.io/variables/coerceVariableValue";
 import type {
   SetVariableHistoryItem,
   Variable,
@@ -68,14 +69,21 @@ const updateTypebotVariables = ({
   newSetVariableHistory: SetVariableHistoryItem[];
   setVariableHistoryIndex: number;
 } => {
-  const serializedNewVariables = newVariables.map((variable) => ({
-    ...variable,
-    value: Array.isArray(variable.value)
-      ? variable.value.map((value) =>
-          sanitizeNewVariableValue(safeStringify(value)),
-        )
-      : sanitizeNewVariableValue(safeStringify(variable.value)),
-  }));
+  const serializedNewVariables = newVariables.map((variable) => {
+    const value = coerceVariableValue(
+      variable.value,
+      variable.type ??
+        state.typebotsQueue[0]!.typebot.variables.find(
+          (v) => v.id === variable.id,
+        )?.type,
+    );
+    return {
+      ...variable,
+      value: Array.isArray(value)
+        ? value.map((value) => sanitizeNewVariableValue(safeStringify(value)))
+        : sanitizeNewVariableValue(safeStringify(value)),
+    };
+  });
 
   let setVariableHistoryIndex = state.currentSetVariableHistoryIndex ?? 0;
   const blockIndex = setVariableHistoryIndex;
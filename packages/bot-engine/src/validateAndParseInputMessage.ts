@@ -11,8 +11,10 @@ import { parseCardsReply } from "./blocks/cards/parseCardsReply";
 import { injectVariableValuesInButtonsInputBlock } from "./blocks/inputs/buttons/injectVariableValuesInButtonsInputBlock";
 import { parseMultipleChoiceReply } from "./blocks/inputs/buttons/parseMultipleChoiceReply";
 import { parseSingleChoiceReply } from "./blocks/inputs/buttons/parseSingleChoiceReply";
+import { parseContactReply } from "./blocks/inputs/contact/parseContactReply";
 import { parseDateReply } from "./blocks/inputs/date/parseDateReply";
 import { formatEmail } from "./blocks/inputs/email/formatEmail";
+import { parseLocationReply } from "./blocks/inputs/location/parseLocationReply";
 import { parseNumber } from "./blocks/inputs/number/parseNumber";
 import { formatPhoneNumber } from "./blocks/inputs/phone/formatPhoneNumber";
 import { injectVariableValuesInPictureChoiceBlock } from "./blocks/inputs/pictureChoice/injectVariableValuesInPictureChoiceBlock";
@@ -178,5 +180,21 @@ export const validateAndParseInputMessage = (
         replyId: message.metadata?.replyId,
       });
     }
+    case InputBlockType.LOCATION: {
+      if (!message || message.type !== "text") return { status: "fail" };
+      return parseLocationReply(message.text, {
+        location: message.metadata?.location,
+        block,
+        variables,
+      });
+    }
+    case InputBlockType.CONTACT: {
+      if (!message || message.type !== "text") return { status: "fail" };
+      return parseContactReply(message.text, {
+        contact: message.metadata?.contact,
+        block,
+        variables,
+      });
+    }
   }
 };
@@ -18,6 +18,8 @@ import type {
   SetVariableHistoryItem,
   VariableWithValue,
 } from "@typebot.io/variables/schemas";
+import { applyVariableMappings } from "./blocks/logic/typebotLink/applyVariableMappings";
+import { getInactivityTimeout } from "./events/executeInactivityEvent";
 import { executeIntegration } from "./executeIntegration";
 import { executeLogic } from "./executeLogic";
 import { formatInputForChatResponse } from "./formatInputForChatResponse";
@@ -248,6 +250,7 @@ const executeGroup = async (
           variables: newSessionState.typebotsQueue[0].typebot.variables,
           isPreview: isNotDefined(newSessionState.typebotsQueue[0].resultId),
           workspaceId: newSessionState.workspaceId,
+          inactivityTimeout: getInactivityTimeout(newSessionState),
           sessionStore,
         }),
         newSessionState: {
@@ -347,6 +350,10 @@ const executeGroup = async (
       ) {
         return {
           messages,
+          input:
+            "input" in logicOrIntegrationExecutionResponse
+              ? logicOrIntegrationExecutionResponse.input
+              : undefined,
           newSessionState: {
             ...newSessionState,
             currentBlockId: block.id,
@@ -414,6 +421,9 @@ const navigateToNextGroupAndUpdateState = async ({
       const isMergingWithParent =
         newSessionState.typebotsQueue[0].isMergingWithParent;
       const currentResultId = newSessionState.typebotsQueue[0].resultId;
+      const { outputVariableMappings } = newSessionState.typebotsQueue[0];
+      const linkedTypebotVariables =
+        newSessionState.typebotsQueue[0].typebot.variables;
       if (!isMergingWithParent && currentResultId)
         await upsertResult({
           resultId: currentResultId,
@@ -466,6 +476,28 @@ const navigateToNextGroupAndUpdateState = async ({
           ...newSessionState.typebotsQueue.slice(2),
         ],
       } satisfies SessionState;
+      if (outputVariableMappings?.length)
+        newSessionState = {
+          ...newSessionState,
+          typebotsQueue: newSessionState.typebotsQueue.map(
+            (typebotInQueue, index) =>
+              index === 0
+                ? {
+                    ...typebotInQueue,
+                    typebot: {
+                      ...typebotInQueue.typebot,
+                      variables: applyVariableMappings(
+                        typebotInQueue.typebot.variables,
+                        {
+                          sourceVariables: linkedTypebotVariables,
+                          mappings: outputVariableMappings,
+                        },
+                      ),
+                    },
+                  }
+                : typebotInQueue,
+          ),
+        };
       if (newSessionState.progressMetadata)
         newSessionState.progressMetadata = {
           ...newSessionState.progressMetadata,
@@ -0,0 +1,18 @@
+type Details = {
+  [key: string]: unknown;
+};
+
+/**
+ * Expected error while handling a channel event (i.e. message too old, session
+ * in reply state). Not worth reporting as an unknown error.
+ */
+export class ChannelError extends Error {
+  message: string;
+  details?: Details;
+
+  constructor(message: string, details?: Details) {
+    super(message);
+    this.message = message;
+    this.details = details;
+  }
+}
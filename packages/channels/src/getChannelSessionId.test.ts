@@ -0,0 +1,37 @@
+import { describe, expect, it } from "bun:test";
+import {
+  getChannelSessionId,
+  parseExternalUserIdFromSessionId,
+} from "./getChannelSessionId";
+
+describe("getChannelSessionId", () => {
+  it("should key sessions by account and external user", () => {
+    expect(
+      getChannelSessionId({
+        sessionIdPrefix: "wa-",
+        accountId: "1234",
+        externalUserId: "33612345678",
+      }),
+    ).toBe("wa-1234-33612345678");
+  });
+
+  it("should key preview sessions by external user only", () => {
+    expect(
+      getChannelSessionId({
+        sessionIdPrefix: "wa-",
+        externalUserId: "33612345678",
+      }),
+    ).toBe("wa-preview-33612345678");
+  });
+});
+
+describe("parseExternalUserIdFromSessionId", () => {
+  it("should return the external user ID", () => {
+    expect(parseExternalUserIdFromSessionId("wa-1234-33612345678")).toBe(
+      "33612345678",
+    );
+    expect(parseExternalUserIdFromSessionId("wa-preview-33612345678")).toBe(
+      "33612345678",
+    );
+  });
+});
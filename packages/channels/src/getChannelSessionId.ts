@@ -0,0 +1,22 @@
+type Props = {
+  sessionIdPrefix: string;
+  externalUserId: string;
+  /** Preview sessions are keyed by external user only */
+  accountId?: string;
+};
+
+/**
+ * Chat sessions of messaging channels are keyed by the external user ID so
+ * that incoming messages resume the conversation where it was left.
+ */
+export const getChannelSessionId = ({
+  sessionIdPrefix,
+  externalUserId,
+  accountId,
+}: Props) =>
+  accountId
+    ? `${sessionIdPrefix}${accountId}-${externalUserId}`
+    : `${sessionIdPrefix}preview-${externalUserId}`;
+
+export const parseExternalUserIdFromSessionId = (sessionId: string) =>
+  sessionId.split("-").at(-1);
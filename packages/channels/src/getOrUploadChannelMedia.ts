@@ -0,0 +1,59 @@
+import { getMediaIdFromCache } from "@typebot.io/bot-engine/mediaCache/getMediaIdFromCache";
+import { insertMediaIdToCache } from "@typebot.io/bot-engine/mediaCache/insertMediaIdToCache";
+import { ky } from "@typebot.io/lib/ky";
+import type { ChatProvider } from "@typebot.io/prisma/enum";
+import type { ChannelMediaFile } from "./types";
+
+const mediaIdCacheDuration = 1000 * 60 * 60 * 24 * 30; // 30 days
+
+type Props = {
+  url: string;
+  provider: ChatProvider;
+  publicTypebotId: string;
+  upload: (media: ChannelMediaFile) => Promise<string>;
+};
+
+/**
+ * Uploads a media to a channel and returns its ID so that it can be sent
+ * right away. Media IDs are cached per published typebot.
+ *
+ * Returns null if the upload fails so that callers can fall back to sending
+ * the media URL.
+ */
+export const getOrUploadChannelMedia = async ({
+  url,
+  provider,
+  publicTypebotId,
+  upload,
+}: Props): Promise<string | null> => {
+  try {
+    const urlWithoutQueryParams = url.split("?")[0];
+    const cachedMediaId = await getMediaIdFromCache({
+      url: urlWithoutQueryParams,
+      provider,
+      publicTypebotId,
+    });
+    if (cachedMediaId) return cachedMediaId;
+
+    const response = await ky.get(url);
+    const mimeType =
+      response.headers.get("content-type") ?? "application/octet-stream";
+    const mediaId = await upload({
+      file: new Blob([await response.arrayBuffer()], { type: mimeType }),
+      mimeType,
+    });
+
+    insertMediaIdToCache({
+      url: urlWithoutQueryParams,
+      mediaId,
+      provider,
+      publicTypebotId,
+      expiresAt: new Date(Date.now() + mediaIdCacheDuration),
+    });
+
+    return mediaId;
+  } catch (error) {
+    console.warn(`Failed to upload media to ${provider}:`, error);
+    return null;
+  }
+};
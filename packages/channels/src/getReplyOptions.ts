@@ -0,0 +1,54 @@
+import type { Block } from "@typebot.io/blocks-core/schemas/schema";
+import { InputBlockType } from "@typebot.io/blocks-inputs/constants";
+import type { ContinueChatResponse } from "@typebot.io/chat-api/schemas";
+import { isDefined } from "@typebot.io/lib/utils";
+
+type ReplyOption = {
+  id: string;
+  label: string;
+  description?: string;
+  imageUrl?: string;
+};
+
+/**
+ * Options the user can answer with, in the order they are numbered in email
+ * and SMS replies. Card buttons are numbered across all the cards.
+ */
+export const getReplyOptions = (
+  input: Block | NonNullable<ContinueChatResponse["input"]>,
+): ReplyOption[] | undefined => {
+  switch (input.type) {
+    case InputBlockType.CHOICE:
+      return input.items
+        .filter((item) => isDefined(item.content))
+        .map((item) => ({ id: item.id, label: item.content as string }));
+    case InputBlockType.PICTURE_CHOICE:
+      return input.items.map((item, idx) => ({
+        id: item.id,
+        label: item.title || `${idx + 1}`,
+        description: item.description,
+        imageUrl: item.pictureSrc,
+      }));
+    case InputBlockType.CARDS:
+      return input.items.flatMap((item) =>
+        (item.paths ?? []).map((path) => ({
+          id: path.id,
+          label: [item.title, path.text].filter(Boolean).join(" - "),
+          description: item.description ?? undefined,
+          imageUrl: item.imageUrl ?? undefined,
+        })),
+      );
+  }
+};
+
+/**
+ * Channels without buttons number the options, so that users can reply with
+ * the number of their choice.
+ */
+export const parseNumberedReplyId = (
+  text: string,
+  block: Block | undefined,
+) => {
+  if (!block || !/^\d+\.?$/.test(text.trim())) return;
+  return getReplyOptions(block)?.[Number.parseInt(text, 10) - 1]?.id;
+};
@@ -0,0 +1,12 @@
+import { describe, expect, it } from "bun:test";
+import { isValidWebhookSecret } from "./isValidWebhookSecret";
+
+describe("isValidWebhookSecret", () => {
+  it("should only accept the expected secret", () => {
+    expect(isValidWebhookSecret("secret", "secret")).toBe(true);
+    expect(isValidWebhookSecret("secreT", "secret")).toBe(false);
+    expect(isValidWebhookSecret("secret-longer", "secret")).toBe(false);
+    expect(isValidWebhookSecret("", "secret")).toBe(false);
+    expect(isValidWebhookSecret(undefined, "secret")).toBe(false);
+  });
+});
@@ -0,0 +1,17 @@
+import { timingSafeEqual } from "node:crypto";
+
+/**
+ * Compares the secret received by a channel webhook with the expected one in
+ * constant time so that it can't be guessed from the response times.
+ */
+export const isValidWebhookSecret = (
+  receivedSecret: string | undefined,
+  expectedSecret: string,
+) => {
+  if (!receivedSecret) return false;
+  const received = Buffer.from(receivedSecret);
+  const expected = Buffer.from(expectedSecret);
+  return (
+    received.length === expected.length && timingSafeEqual(received, expected)
+  );
+};
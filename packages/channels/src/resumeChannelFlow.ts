@@ -0,0 +1,325 @@
+import { continueBotFlow } from "@typebot.io/bot-engine/continueBotFlow";
+import { saveStateToDatabase } from "@typebot.io/bot-engine/saveStateToDatabase";
+import type {
+  ContinueChatResponse,
+  Message,
+} from "@typebot.io/chat-api/schemas";
+import { getSession } from "@typebot.io/chat-session/queries/getSession";
+import { upsertSession } from "@typebot.io/chat-session/queries/upsertSession";
+import type { SessionState } from "@typebot.io/chat-session/schemas";
+import { getBlockById } from "@typebot.io/groups/helpers/getBlockById";
+import redis from "@typebot.io/lib/redis";
+import { isDefined } from "@typebot.io/lib/utils";
+import type { Prisma } from "@typebot.io/prisma/types";
+import {
+  deleteSessionStore,
+  getSessionStore,
+  type SessionStore,
+} from "@typebot.io/runtime-session-store";
+import type { SetVariableHistoryItem } from "@typebot.io/variables/schemas";
+import { ChannelError } from "./ChannelError";
+import { sendChatReplyToChannel } from "./sendChatReplyToChannel";
+import type { Channel } from "./types";
+
+const INCOMING_MEDIA_MESSAGE_DEBOUNCE = 3_000;
+
+export type ChannelFlowResponse = ContinueChatResponse & {
+  newSessionState: SessionState;
+  visitedEdges: Prisma.VisitedEdge[];
+  setVariableHistory: SetVariableHistoryItem[];
+};
+
+type Props<TIncomingMessage, TSendingMessage, TCredentials> = {
+  channel: Channel<TIncomingMessage, TSendingMessage, TCredentials>;
+  receivedMessages: TIncomingMessage[];
+  /**
+   * Resumes the session with this reply instead of the received messages, i.e.
+   * to trigger an event from a workflow
+   */
+  reply?: Message;
+  sessionId: string;
+  credentials: TCredentials;
+  /** External user ID to send the replies to */
+  to: string;
+  /** Last received message ID, used to display the typing indicator */
+  messageId?: string;
+  workspaceId?: string;
+  callFrom?: "webhook";
+  /** Called before resuming an existing session, i.e. to refresh the contact */
+  updateState?: (state: SessionState) => SessionState;
+  startSession: (props: {
+    incomingMessage: Message | undefined;
+    sessionStore: SessionStore;
+  }) => Promise<ChannelFlowResponse>;
+};
+
+/**
+ * Resumes the chat session of an external user with the messages received
+ * on a channel, or starts a new one, and sends the replies back.
+ */
+export const resumeChannelFlow = async <
+  TIncomingMessage,
+  TSendingMessage,
+  TCredentials,
+>({
+  channel,
+  receivedMessages,
+  reply: internalReply,
+  sessionId,
+  credentials,
+  to,
+  messageId,
+  workspaceId,
+  callFrom,
+  updateState,
+  startSession,
+}: Props<TIncomingMessage, TSendingMessage, TCredentials>) => {
+  if (receivedMessages.length === 0 && !internalReply)
+    throw new ChannelError("Received messages is empty");
+
+  const session = await getSession(sessionId);
+  if (session && !session.state)
+    throw new ChannelError("Session is empty. Most likely in reply state.");
+
+  const aggregationResponse = internalReply
+    ? ({
+        status: "treat as unique message",
+        incomingMessages: receivedMessages,
+      } as const)
+    : await aggregateParallelMediaMessagesIfRedisEnabled({
+        receivedMessages,
+        sessionId,
+        isAggregatedMessage: channel.isAggregatedIncomingMessage,
+      });
+
+  if (aggregationResponse.status === "found newer message")
+    throw new ChannelError("Found newer message, skipping this one");
+
+  const isSessionExpired =
+    isDefined(session?.state) &&
+    isDefined(session.state.expiryTimeout) &&
+    session?.updatedAt.getTime() + session.state.expiryTimeout < Date.now();
+
+  if (!isSessionExpired && session?.isReplying && callFrom !== "webhook")
+    throw new ChannelError("Is in reply state");
+  else if (aggregationResponse.status === "treat as unique message") {
+    await upsertSession(sessionId, {
+      isReplying: true,
+    });
+  }
+
+  const currentTypebot = session?.state?.typebotsQueue[0].typebot;
+  const { block } =
+    (currentTypebot && session?.state?.currentBlockId
+      ? getBlockById(session.state.currentBlockId, currentTypebot.groups)
+      : undefined) ?? {};
+  const reply =
+    internalReply ??
+    (await channel.convertIncomingMessages({
+      messages: aggregationResponse.incomingMessages,
+      credentials,
+      workspaceId,
+      typebotId: currentTypebot?.id,
+      resultId: session?.state?.typebotsQueue[0].resultId,
+      block,
+    }));
+
+  if (messageId)
+    channel.sendTypingIndicator?.({
+      to,
+      messageId,
+      credentials,
+    });
+
+  const sessionStore = getSessionStore(sessionId);
+  const {
+    input,
+    logs,
+    visitedEdges,
+    setVariableHistory,
+    newSessionState,
+    isWaitingForWebhook,
+  } = await resumeFlowAndSendMessages({
+    channel,
+    to,
+    credentials,
+    isFirstChatChunk: !session?.state || isSessionExpired,
+    reply,
+    state:
+      session?.state && !isSessionExpired
+        ? (updateState?.(session.state) ?? session.state)
+        : undefined,
+    sessionStore,
+    startSession,
+  });
+  deleteSessionStore(sessionId);
+
+  await saveStateToDatabase({
+    clientSideActions: [],
+    input,
+    logs,
+    sessionId: {
+      type: "existing",
+      id: sessionId,
+    },
+    session: {
+      state: {
+        ...newSessionState,
+        currentBlockId:
+          !input && !isWaitingForWebhook
+            ? undefined
+            : newSessionState.currentBlockId,
+      },
+    },
+    isWaitingForExternalEvent: isWaitingForWebhook,
+    visitedEdges,
+    setVariableHistory,
+  });
+
+  return { input };
+};
+
+const resumeFlowAndSendMessages = async <
+  TIncomingMessage,
+  TSendingMessage,
+  TCredentials,
+>(props: {
+  channel: Channel<TIncomingMessage, TSendingMessage, TCredentials>;
+  to: string;
+  credentials: TCredentials;
+  isFirstChatChunk: boolean;
+  state: SessionState | undefined;
+  reply: Message | undefined;
+  sessionStore: SessionStore;
+  startSession: Props<
+    TIncomingMessage,
+    TSendingMessage,
+    TCredentials
+  >["startSession"];
+}): Promise<
+  Omit<ChannelFlowResponse, "messages" | "clientSideActions"> & {
+    isWaitingForWebhook: boolean;
+  }
+> => {
+  const {
+    input,
+    logs,
+    messages,
+    clientSideActions,
+    visitedEdges,
+    setVariableHistory,
+    newSessionState,
+  } = props.state
+    ? await continueBotFlow(props.reply, {
+        version: 2,
+        sessionStore: props.sessionStore,
+        state: props.state,
+        textBubbleContentFormat: "richText",
+      })
+    : await props.startSession({
+        incomingMessage: props.reply,
+        sessionStore: props.sessionStore,
+      });
+
+  const result = await sendChatReplyToChannel({
+    channel: props.channel,
+    to: props.to,
+    messages,
+    input,
+    isFirstChatChunk: props.isFirstChatChunk,
+    clientSideActions,
+    credentials: props.credentials,
+    state: newSessionState,
+  });
+  if (result?.type === "replyToSend")
+    return resumeFlowAndSendMessages({
+      ...props,
+      state: newSessionState,
+      reply: result.replyToSend
+        ? {
+            type: "text",
+            text: result.replyToSend,
+          }
+        : undefined,
+    });
+
+  return {
+    input,
+    logs,
+    visitedEdges,
+    setVariableHistory,
+    newSessionState,
+    isWaitingForWebhook: result?.type === "shouldWaitForWebhook",
+  };
+};
+
+/**
+ * Leverages Redis to aggregate incoming media messages because some channels
+ * send them as multiple sequential messages.
+ */
+const aggregateParallelMediaMessagesIfRedisEnabled = async <TIncomingMessage>({
+  receivedMessages,
+  sessionId,
+  isAggregatedMessage,
+}: {
+  receivedMessages: TIncomingMessage[];
+  sessionId: string;
+  isAggregatedMessage?: (message: TIncomingMessage) => boolean;
+}): Promise<
+  | {
+      status: "treat as unique message";
+      incomingMessages: TIncomingMessage[];
+    }
+  | {
+      status: "found newer message";
+    }
+  | {
+      status: "ready to reply";
+      incomingMessages: TIncomingMessage[];
+    }
+> => {
+  if (redis && isAggregatedMessage?.(receivedMessages[0])) {
+    const redisKey = `channelsession:${sessionId}`;
+    try {
+      const len = await redis.rpush(
+        redisKey,
+        JSON.stringify(receivedMessages[0]),
+      );
+
+      if (len === 1) {
+        await upsertSession(sessionId, {
+          isReplying: true,
+        });
+      }
+
+      await new Promise((resolve) =>
+        setTimeout(resolve, INCOMING_MEDIA_MESSAGE_DEBOUNCE),
+      );
+
+      const newMessagesResponse = await redis.lrange(redisKey, 0, -1);
+
+      if (!newMessagesResponse || newMessagesResponse.length > len)
+        return { status: "found newer message" };
+
+      redis.del(redisKey).then();
+
+      return {
+        status: "ready to reply",
+        incomingMessages: newMessagesResponse.map((msgStr) =>
+          JSON.parse(msgStr),
+        ),
+      };
+    } catch (error) {
+      console.error(
+        "Failed to process webhook event:",
+        error,
+        receivedMessages,
+      );
+    }
+  }
+
+  return {
+    status: "treat as unique message",
+    incomingMessages: receivedMessages,
+  };
+};
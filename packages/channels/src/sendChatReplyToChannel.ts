@@ -0,0 +1,265 @@
+import { BubbleBlockType } from "@typebot.io/blocks-bubbles/constants";
+import { InputBlockType } from "@typebot.io/blocks-inputs/constants";
+import type { ClientSideAction } from "@typebot.io/chat-api/clientSideAction";
+import type { ContinueChatResponse } from "@typebot.io/chat-api/schemas";
+import type { SessionState } from "@typebot.io/chat-session/schemas";
+import { isNotDefined } from "@typebot.io/lib/utils";
+import { computeTypingDuration } from "@typebot.io/settings/computeTypingDuration";
+import { defaultSettings } from "@typebot.io/settings/constants";
+import type { Channel } from "./types";
+
+type Props<TIncomingMessage, TSendingMessage, TCredentials> = {
+  channel: Channel<TIncomingMessage, TSendingMessage, TCredentials>;
+  to: string;
+  isFirstChatChunk: boolean;
+  credentials: TCredentials;
+  state: SessionState;
+} & Pick<ContinueChatResponse, "messages" | "input" | "clientSideActions">;
+
+export type ClientSideActionExecutionResult =
+  | { type: "replyToSend"; replyToSend: string | undefined }
+  | { type: "shouldWaitForWebhook" }
+  | undefined;
+
+export const sendChatReplyToChannel = async <
+  TIncomingMessage,
+  TSendingMessage,
+  TCredentials,
+>({
+  channel,
+  to,
+  isFirstChatChunk,
+  messages,
+  input,
+  clientSideActions,
+  credentials,
+  state,
+}: Props<
+  TIncomingMessage,
+  TSendingMessage,
+  TCredentials
+>): Promise<ClientSideActionExecutionResult> => {
+  const messagesBeforeInput = isLastMessageIncludedInInput(
+    input,
+    messages.at(-1),
+  )
+    ? messages.slice(0, -1)
+    : messages;
+
+  const sentMessages: TSendingMessage[] = [];
+
+  const sendMessage = async (
+    message: TSendingMessage,
+    { blockId }: { blockId?: string },
+  ) => {
+    // Batched messages are sent all at once by `flushMessages`
+    if (channel.sendMessages) {
+      sentMessages.push(message);
+      return;
+    }
+    const sentMessage = await channel.sendMessage({
+      to,
+      message,
+      credentials,
+    });
+    sentMessages.push(message);
+    if (sentMessage && sentMessage.messageId && channel.saveSentMessage)
+      await channel.saveSentMessage({
+        messageId: sentMessage.messageId,
+        blockId,
+        state,
+      });
+  };
+
+  const sendActionMessage = async (message: TSendingMessage) => {
+    if (channel.sendMessages) {
+      sentMessages.push(message);
+      return;
+    }
+    await channel.sendMessage({
+      to,
+      message,
+      credentials,
+    });
+  };
+
+  const flushMessages = async () => {
+    if (!channel.sendMessages || sentMessages.length === 0) return;
+    await channel.sendMessages({
+      to,
+      messages: sentMessages,
+      credentials,
+    });
+  };
+
+  const clientSideActionsBeforeMessages =
+    clientSideActions?.filter((action) =>
+      isNotDefined(action.lastBubbleBlockId),
+    ) ?? [];
+
+  const result = await executeClientSideActions({
+    clientSideActions: clientSideActionsBeforeMessages,
+    channel,
+    sendMessage: sendActionMessage,
+  });
+
+  if (result) {
+    await flushMessages();
+    return result;
+  }
+
+  const getTypingDuration = (
+    message: TSendingMessage,
+    { isFirstMessage }: { isFirstMessage: boolean },
+  ) => {
+    if (channel.sendMessages) return;
+    const lastSentMessage = sentMessages.at(-1);
+    if (
+      channel.mediaDeliveryTimeout &&
+      lastSentMessage &&
+      channel.isMediaMessage(lastSentMessage) &&
+      !state.publicTypebotId
+    )
+      return channel.mediaDeliveryTimeout;
+    if (
+      isFirstChatChunk &&
+      isFirstMessage &&
+      (state.typingEmulation?.isDisabledOnFirstMessage ??
+        defaultSettings.typingEmulation.isDisabledOnFirstMessage)
+    )
+      return 0;
+    const text = channel.getMessageText(message);
+    if (!text) return;
+    return computeTypingDuration({
+      bubbleContent: text,
+      typingSettings: state.typingEmulation,
+    });
+  };
+
+  let i = -1;
+  for (const message of messagesBeforeInput) {
+    i += 1;
+    const delayBetweenBubbles =
+      state.typingEmulation?.delayBetweenBubbles ??
+      defaultSettings.typingEmulation.delayBetweenBubbles;
+    if (i > 0 && delayBetweenBubbles > 0 && !channel.sendMessages) {
+      await new Promise((resolve) =>
+        setTimeout(resolve, delayBetweenBubbles * 1000),
+      );
+    }
+    const channelMessage = await channel.convertMessage({
+      message,
+      credentials,
+      state,
+    });
+    if (isNotDefined(channelMessage)) continue;
+    const typingDuration = getTypingDuration(channelMessage, {
+      isFirstMessage: i === 0,
+    });
+    if ((typingDuration ?? 0) > 0)
+      await new Promise((resolve) => setTimeout(resolve, typingDuration));
+    await sendMessage(channelMessage, { blockId: message.id });
+    const clientSideActionsAfterMessage =
+      clientSideActions?.filter(
+        (action) => action.lastBubbleBlockId === message.id,
+      ) ?? [];
+    const result = await executeClientSideActions({
+      clientSideActions: clientSideActionsAfterMessage,
+      channel,
+      sendMessage: sendActionMessage,
+    });
+    if (result) {
+      await flushMessages();
+      return result;
+    }
+  }
+
+  if (input) {
+    const inputMessages = await channel.convertInput({
+      input,
+      lastMessage: messages.at(-1),
+      credentials,
+      state,
+    });
+    for (const message of inputMessages) {
+      const typingDuration = getTypingDuration(message, {
+        isFirstMessage: false,
+      });
+      if (typingDuration)
+        await new Promise((resolve) => setTimeout(resolve, typingDuration));
+      await sendMessage(message, { blockId: input.id });
+    }
+  }
+
+  await flushMessages();
+};
+
+const isLastMessageIncludedInInput = (
+  input: ContinueChatResponse["input"],
+  lastMessage?: ContinueChatResponse["messages"][number],
+): boolean => {
+  if (isNotDefined(input)) return false;
+  return (
+    input.type === InputBlockType.CHOICE &&
+    (!lastMessage || lastMessage.type === BubbleBlockType.TEXT)
+  );
+};
+
+const executeClientSideActions = async <
+  TIncomingMessage,
+  TSendingMessage,
+  TCredentials,
+>({
+  clientSideActions,
+  ...context
+}: {
+  clientSideActions: ClientSideAction[];
+  channel: Channel<TIncomingMessage, TSendingMessage, TCredentials>;
+  sendMessage: (message: TSendingMessage) => Promise<void>;
+}) => {
+  for (const action of clientSideActions) {
+    const result = await executeClientSideAction(context)(action);
+    if (result) return result;
+  }
+};
+
+const executeClientSideAction =
+  <TIncomingMessage, TSendingMessage, TCredentials>(context: {
+    channel: Channel<TIncomingMessage, TSendingMessage, TCredentials>;
+    sendMessage: (message: TSendingMessage) => Promise<void>;
+  }) =>
+  async (
+    clientSideAction: ClientSideAction,
+  ): Promise<ClientSideActionExecutionResult> => {
+    if ("wait" in clientSideAction) {
+      await new Promise((resolve) =>
+        setTimeout(
+          resolve,
+          Math.min(clientSideAction.wait.secondsToWaitFor, 10) * 1000,
+        ),
+      );
+      if (!clientSideAction.expectsDedicatedReply) return;
+      return {
+        type: "replyToSend",
+        replyToSend: undefined,
+      };
+    }
+    if ("redirect" in clientSideAction && clientSideAction.redirect.url) {
+      await context.sendMessage(
+        context.channel.convertRedirectUrl(clientSideAction.redirect.url),
+      );
+    }
+    if (
+      clientSideAction.type === "whatsAppTemplate" &&
+      context.channel.convertWhatsAppTemplate
+    ) {
+      const message = context.channel.convertWhatsAppTemplate(
+        clientSideAction.whatsAppTemplate,
+      );
+      if (message) await context.sendMessage(message);
+    }
+    if (clientSideAction.type === "listenForWebhook")
+      return {
+        type: "shouldWaitForWebhook",
+      };
+  };
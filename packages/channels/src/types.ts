@@ -0,0 +1,114 @@
+import type { Block } from "@typebot.io/blocks-core/schemas/schema";
+import type { ClientSideAction } from "@typebot.io/chat-api/clientSideAction";
+import type {
+  ContinueChatResponse,
+  Message,
+} from "@typebot.io/chat-api/schemas";
+import type { SessionState } from "@typebot.io/chat-session/schemas";
+import type { ChatProvider } from "@typebot.io/prisma/enum";
+
+/** Incoming messages sent by a single external user to a channel account */
+export type ChannelIncomingUpdate<TIncomingMessage> = {
+  /**
+   * Account the messages were sent to, i.e. the WhatsApp phone number ID. Not
+   * set when the webhook request doesn't include it, i.e. Telegram updates.
+   */
+  accountId?: string;
+  externalUserId: string;
+  contactName: string;
+  messages: TIncomingMessage[];
+};
+
+export type ChannelMediaFile = {
+  file: Blob;
+  mimeType: string;
+};
+
+/**
+ * Everything a messaging channel needs to implement so that a flow can be
+ * executed on it with `resumeChannelFlow` and `sendChatReplyToChannel`.
+ */
+export type Channel<TIncomingMessage, TSendingMessage, TCredentials> = {
+  /** Prefix of the chat session IDs, see `getChannelSessionId` */
+  sessionIdPrefix: string;
+  parseWebhookRequest: (
+    body: unknown,
+  ) => ChannelIncomingUpdate<TIncomingMessage>[];
+  convertIncomingMessages: (props: {
+    messages: TIncomingMessage[];
+    credentials: TCredentials;
+    workspaceId?: string;
+    typebotId?: string;
+    resultId?: string;
+    block?: Block;
+  }) => Promise<Message | undefined>;
+  /**
+   * Media messages the channel splits into several sequential messages. They
+   * are aggregated into a single reply if Redis is available.
+   */
+  isAggregatedIncomingMessage?: (message: TIncomingMessage) => boolean;
+  convertMessage: (props: {
+    message: ContinueChatResponse["messages"][number];
+    credentials: TCredentials;
+    state: SessionState;
+  }) => Promise<TSendingMessage | null | undefined>;
+  convertInput: (props: {
+    input: NonNullable<ContinueChatResponse["input"]>;
+    lastMessage: ContinueChatResponse["messages"][number] | undefined;
+    credentials: TCredentials;
+    state: SessionState;
+  }) => Promise<TSendingMessage[]>;
+  convertRedirectUrl: (url: string) => TSendingMessage;
+  /**
+   * Converts the options of a "Send WhatsApp template" block. Channels that
+   * don't support templates skip the block.
+   */
+  convertWhatsAppTemplate?: (
+    options: Extract<
+      ClientSideAction,
+      { type: "whatsAppTemplate" }
+    >["whatsAppTemplate"],
+  ) => TSendingMessage | undefined;
+  /** Text used to compute the typing emulation duration */
+  getMessageText: (message: TSendingMessage) => string | undefined;
+  isMediaMessage: (message: TSendingMessage) => boolean;
+  /**
+   * Delay in milliseconds to wait after a media sent by URL, if the channel
+   * can deliver the next message before the media is downloaded.
+   */
+  mediaDeliveryTimeout?: number;
+  sendMessage: (props: {
+    to: string;
+    message: TSendingMessage;
+    credentials: TCredentials;
+  }) => Promise<{ messageId?: string } | void>;
+  /**
+   * Sends all the messages of a reply at once instead of one by one, i.e. as
+   * a single email. Typing emulation is skipped when defined.
+   */
+  sendMessages?: (props: {
+    to: string;
+    messages: TSendingMessage[];
+    credentials: TCredentials;
+  }) => Promise<void>;
+  /**
+   * Persists a sent message so that its delivery status, received later on
+   * the webhook, can be attached to the result.
+   */
+  saveSentMessage?: (props: {
+    messageId: string;
+    blockId?: string;
+    state: SessionState;
+  }) => Promise<void>;
+  sendTypingIndicator?: (props: {
+    to: string;
+    messageId: string;
+    credentials: TCredentials;
+  }) => Promise<void>;
+  getMediaCacheProvider?: (credentials: TCredentials) => ChatProvider;
+  /** Uploads a media to the channel and returns its ID */
+  uploadMedia?: (
+    media: ChannelMediaFile,
+    credentials: TCredentials,
+  ) => Promise<string>;
+};
@@ -2,6 +2,7 @@ import { googleAnalyticsOptionsSchema } from "@typebot.io/blocks-integrations/go
 import { executableHttpRequestSchema } from "@typebot.io/blocks-integrations/httpRequest/schema";
 import { nativeMessageSchema } from "@typebot.io/blocks-integrations/openai/schema";
 import { pixelOptionsSchema } from "@typebot.io/blocks-integrations/pixel/schema";
+import { whatsAppTemplateOptionsSchema } from "@typebot.io/blocks-integrations/whatsAppTemplate/schema";
 import { redirectOptionsSchema } from "@typebot.io/blocks-logic/redirect/schema";
 import { listVariableValue } from "@typebot.io/variables/schemas";
 import { z } from "@typebot.io/zod";
@@ -124,5 +125,16 @@ export const clientSideActionSchema = z.discriminatedUnion("type", [
       type: z.literal("listenForWebhook"),
     })
     .merge(clientSideActionBaseSchema),
+  z
+    .object({
+      type: z.literal("listenForAgent"),
+    })
+    .merge(clientSideActionBaseSchema),
+  z
+    .object({
+      type: z.literal("whatsAppTemplate"),
+      whatsAppTemplate: whatsAppTemplateOptionsSchema,
+    })
+    .merge(clientSideActionBaseSchema),
 ]);
 export type ClientSideAction = z.infer<typeof clientSideActionSchema>;
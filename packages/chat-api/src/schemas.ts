@@ -5,9 +5,11 @@ import { imageBubbleContentSchema } from "@typebot.io/blocks-bubbles/image/schem
 import { videoBubbleContentSchema } from "@typebot.io/blocks-bubbles/video/schema";
 import { cardsBlockSchema } from "@typebot.io/blocks-inputs/cards/schema";
 import { buttonsInputSchemas } from "@typebot.io/blocks-inputs/choice/schema";
+import { contactInputSchema } from "@typebot.io/blocks-inputs/contact/schema";
 import { dateInputSchema } from "@typebot.io/blocks-inputs/date/schema";
 import { emailInputSchema } from "@typebot.io/blocks-inputs/email/schema";
 import { fileInputBlockSchemas } from "@typebot.io/blocks-inputs/file/schema";
+import { locationInputSchema } from "@typebot.io/blocks-inputs/location/schema";
 import { numberInputSchema } from "@typebot.io/blocks-inputs/number/schema";
 import {
   paymentInputRuntimeOptionsSchema,
@@ -30,10 +32,34 @@ import {
 import { z } from "@typebot.io/zod";
 import { clientSideActionSchema } from "./clientSideAction";
 
+const sharedLocationSchema = z.object({
+  latitude: z.number(),
+  longitude: z.number(),
+  name: z.string().optional(),
+  address: z.string().optional(),
+});
+export type SharedLocation = z.infer<typeof sharedLocationSchema>;
+
+const sharedContactSchema = z.object({
+  name: z.string().optional(),
+  phoneNumber: z.string(),
+});
+export type SharedContact = z.infer<typeof sharedContactSchema>;
+
 export const textMessageSchema = z.object({
   type: z.literal("text"),
   text: z.string(),
-  metadata: z.object({ replyId: z.string().optional() }).optional(),
+  metadata: z
+    .object({
+      replyId: z.string().optional(),
+      location: sharedLocationSchema
+        .optional()
+        .describe("Can be provided if current input block is a location input"),
+      contact: sharedContactSchema
+        .optional()
+        .describe("Can be provided if current input block is a contact input"),
+    })
+    .optional(),
   attachedFileUrls: z
     .array(z.string())
     .optional()
@@ -56,18 +82,33 @@ export const commandMessageSchema = z.object({
   command: z.string(),
 });
 
+export const inactivityMessageSchema = z
+  .object({
+    type: z.literal("inactivity"),
+  })
+  .describe(
+    "Send it when the user did not answer the current input before `input.inactivityTimeout` seconds",
+  );
+
 const inputMessageSchemas = [textMessageSchema, audioMessageSchema] as const;
 
 export const messageSchema = z.preprocess(
   (val) => (typeof val === "string" ? { type: "text", text: val } : val),
-  z.discriminatedUnion("type", [...inputMessageSchemas, commandMessageSchema]),
+  z.discriminatedUnion("type", [
+    ...inputMessageSchemas,
+    commandMessageSchema,
+    inactivityMessageSchema,
+  ]),
 );
 export type Message = z.infer<typeof messageSchema>;
 
 export const inputMessageSchema = z.discriminatedUnion("type", [
   ...inputMessageSchemas,
 ]);
-export type InputMessage = Exclude<Message, { type: "command" }>;
+export type InputMessage = Exclude<
+  Message,
+  { type: "command" } | { type: "inactivity" }
+>;
 
 const textBubbleSchema = z.object({
   type: z.literal(BubbleBlockType.TEXT),
@@ -166,6 +207,7 @@ export const startTypebotSchema = z
   .and(
     z.object({
       publicTypebotId: z.string().optional(),
+      publishedSnapshotId: z.string().optional(),
     }),
   );
 export type StartTypebot = StartTypebotV6 | StartTypebotV5;
@@ -296,6 +338,8 @@ const chatResponseBaseSchema = z.object({
         fileInputBlockSchemas.v6,
         pictureChoiceBlockSchemas.v6,
         cardsBlockSchema,
+        locationInputSchema,
+        contactInputSchema,
       ]),
       z.discriminatedUnion("type", [
         buttonsInputSchemas.v5,
@@ -307,6 +351,12 @@ const chatResponseBaseSchema = z.object({
       z.object({
         prefilledValue: z.string().optional(),
         runtimeOptions: runtimeOptionsSchema.optional(),
+        inactivityTimeout: z
+          .number()
+          .optional()
+          .describe(
+            "If set, send an `inactivity` message when the user did not answer after this number of seconds.",
+          ),
       }),
     )
     .optional(),
@@ -0,0 +1,2 @@
+/** Messaging channels, other than WhatsApp, a session can run on */
+export const messagingChannelTypes = ["telegram", "email", "sms"] as const;
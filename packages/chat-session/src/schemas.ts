@@ -6,6 +6,7 @@ import {
   answerSchema,
 } from "@typebot.io/results/schemas/answers";
 import {
+  scheduleSettingsSchema,
   settingsSchema,
   systemMessagesSchema,
 } from "@typebot.io/settings/schemas";
@@ -20,6 +21,7 @@ import {
   variableWithValueSchema,
 } from "@typebot.io/variables/schemas";
 import { z } from "@typebot.io/zod";
+import { messagingChannelTypes } from "./constants";
 
 const typebotInSessionStatePick = {
   version: true,
@@ -33,9 +35,16 @@ const typebotInSessionExtension = {
   systemMessages: systemMessagesSchema
     .pick({
       invalidMessage: true,
+      botClosed: true,
       whatsAppPictureChoiceSelectLabel: true,
     })
     .optional(),
+  schedule: scheduleSettingsSchema
+    .pick({
+      timeZone: true,
+      availability: true,
+    })
+    .optional(),
 };
 
 const typebotV5InSessionStateSchema = publicTypebotSchemaV5
@@ -84,6 +93,18 @@ const sessionStateSchemaV2 = z.object({
   typebotsQueue: z.array(
     z.object({
       queuedEdgeIds: z.array(z.string()).optional(),
+      loopIndexes: z
+        .record(z.number())
+        .optional()
+        .describe("Current iteration of the For each blocks, by block ID"),
+      outputVariableMappings: z
+        .array(
+          z.object({ fromVariableId: z.string(), toVariableId: z.string() }),
+        )
+        .optional()
+        .describe(
+          "Variables to set on the parent typebot when this linked typebot returns",
+        ),
       isMergingWithParent: z.boolean().optional(),
       resultId: z.string().optional(),
       answers: z.array(answerInSessionStateSchemaV2),
@@ -111,6 +132,25 @@ const sessionStateSchemaV2 = z.object({
       }),
     })
     .optional(),
+  channel: z
+    .object({
+      type: z.enum(messagingChannelTypes),
+      contact: z.object({
+        id: z.string(),
+        name: z.string(),
+      }),
+      thread: z
+        .object({
+          subject: z.string(),
+          address: z.string().describe("Address the user replies to"),
+          messageIds: z
+            .array(z.string())
+            .describe("Latest message IDs of the thread, sent as references"),
+        })
+        .optional()
+        .describe("Email thread the replies are sent in"),
+    })
+    .optional(),
   expiryTimeout: z
     .number()
     .min(1)
@@ -159,6 +199,37 @@ const sessionStateSchemaV3 = sessionStateSchemaV2
       })
       .optional(),
     publicTypebotId: z.string().optional(),
+    publishedSnapshotId: z
+      .string()
+      .optional()
+      .describe("Published snapshot the session was started from"),
+    campaignId: z
+      .string()
+      .optional()
+      .describe("WhatsApp campaign the session was started from"),
+    pendingResultUpdate: z
+      .object({
+        status: z.enum(["NEW", "IN_PROGRESS", "DONE"]).optional(),
+        tagsToAdd: z.array(z.string()).optional(),
+        tagsToRemove: z.array(z.string()).optional(),
+        notes: z.string().optional(),
+      })
+      .optional()
+      .describe(
+        "Set by Tag result blocks, applied to the result when the state is saved",
+      ),
+    hasResultWebhooks: z
+      .boolean()
+      .optional()
+      .describe(
+        "Whether the workspace had enabled result webhooks when the session started, result events are not dispatched otherwise",
+      ),
+    isInactivityEventTriggered: z
+      .boolean()
+      .optional()
+      .describe(
+        "Set when the Inactivity event is triggered so that it runs only once until the user replies",
+      ),
   });
 
 export type SessionState = z.infer<typeof sessionStateSchemaV3>;
@@ -0,0 +1,160 @@
+import { describe, expect, it, mock } from "bun:test";
+import type { SessionStore } from "@typebot.io/runtime-session-store";
+import type { Variable, VariableType } from "@typebot.io/variables/schemas";
+import { ComparisonOperators } from "./constants";
+
+// Inline code is not evaluated in these tests and the native module can't be
+// loaded by Bun.
+mock.module("isolated-vm", () => ({ default: {} }));
+
+const { executeCondition } = await import("./executeCondition");
+
+const sessionStore = {} as SessionStore;
+
+const compareVariable = (
+  {
+    value,
+    type,
+  }: { value: Variable["value"]; type?: VariableType | undefined },
+  comparisonOperator: ComparisonOperators,
+  comparedValue: string,
+) =>
+  executeCondition(
+    {
+      comparisons: [
+        {
+          id: "comparison",
+          variableId: "variable",
+          comparisonOperator,
+          value: comparedValue,
+        },
+      ],
+    },
+    {
+      sessionStore,
+      variables: [{ id: "variable", name: "Variable", value, type }],
+    },
+  );
+
+describe("executeCondition", () => {
+  describe("number variables", () => {
+    const variable = { value: "10", type: "number" } as const;
+
+    it("should compare numerically", () => {
+      expect(compareVariable(variable, ComparisonOperators.GREATER, "9")).toBe(
+        true,
+      );
+      expect(compareVariable(variable, ComparisonOperators.LESS, "9")).toBe(
+        false,
+      );
+      expect(
+        compareVariable(variable, ComparisonOperators.LESS_OR_EQUAL, "10.0"),
+      ).toBe(true);
+    });
+
+    it("should accept a comma as decimal separator", () => {
+      expect(compareVariable(variable, ComparisonOperators.EQUAL, "10,0")).toBe(
+        true,
+      );
+    });
+  });
+
+  describe("date variables", () => {
+    const variable = { value: "2024-01-05", type: "date" } as const;
+
+    it("should compare chronologically", () => {
+      expect(
+        compareVariable(variable, ComparisonOperators.GREATER, "2023-12-31"),
+      ).toBe(true);
+      expect(
+        compareVariable(variable, ComparisonOperators.LESS, "2024-02-01"),
+      ).toBe(true);
+    });
+
+    it("should compare ISO strings with timestamps", () => {
+      expect(
+        compareVariable(
+          { value: "2024-01-05T10:00:00.000Z", type: "date" },
+          ComparisonOperators.EQUAL,
+          new Date("2024-01-05T10:00:00.000Z").getTime().toString(),
+        ),
+      ).toBe(true);
+    });
+  });
+
+  describe("boolean variables", () => {
+    it("should compare the parsed booleans", () => {
+      expect(
+        compareVariable(
+          { value: "yes", type: "boolean" },
+          ComparisonOperators.EQUAL,
+          "true",
+        ),
+      ).toBe(true);
+      expect(
+        compareVariable(
+          { value: "off", type: "boolean" },
+          ComparisonOperators.NOT_EQUAL,
+          "0",
+        ),
+      ).toBe(false);
+    });
+  });
+
+  describe("string variables", () => {
+    const variable = { value: "10", type: "string" } as const;
+
+    it("should compare alphabetically", () => {
+      expect(compareVariable(variable, ComparisonOperators.LESS, "9")).toBe(
+        true,
+      );
+      expect(
+        compareVariable(
+          { value: "banana", type: "string" },
+          ComparisonOperators.GREATER,
+          "apple",
+        ),
+      ).toBe(true);
+    });
+  });
+
+  describe("mismatched values", () => {
+    const variable = { value: "abc", type: "number" } as const;
+
+    it("should only satisfy the not equal operator", () => {
+      expect(compareVariable(variable, ComparisonOperators.EQUAL, "1")).toBe(
+        false,
+      );
+      expect(compareVariable(variable, ComparisonOperators.GREATER, "1")).toBe(
+        false,
+      );
+      expect(compareVariable(variable, ComparisonOperators.LESS, "1")).toBe(
+        false,
+      );
+      expect(
+        compareVariable(variable, ComparisonOperators.NOT_EQUAL, "1"),
+      ).toBe(true);
+    });
+
+    it("should not match a date compared to an invalid date", () => {
+      expect(
+        compareVariable(
+          { value: "2024-01-05", type: "date" },
+          ComparisonOperators.GREATER_OR_EQUAL,
+          "not a date",
+        ),
+      ).toBe(false);
+    });
+  });
+
+  describe("untyped variables", () => {
+    it("should keep guessing the type", () => {
+      expect(
+        compareVariable({ value: "10" }, ComparisonOperators.GREATER, "9"),
+      ).toBe(true);
+      expect(
+        compareVariable({ value: "Hello" }, ComparisonOperators.EQUAL, "Hello"),
+      ).toBe(true);
+    });
+  });
+});
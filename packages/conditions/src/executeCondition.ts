@@ -1,8 +1,13 @@
 import { isDefined, isNotDefined } from "@typebot.io/lib/utils";
 import type { SessionStore } from "@typebot.io/runtime-session-store";
+import {
+  parseBoolean,
+  parseDate,
+  parseNumber,
+} from "@typebot.io/variables/coerceVariableValue";
 import { findUniqueVariable } from "@typebot.io/variables/findUniqueVariable";
 import { parseVariables } from "@typebot.io/variables/parseVariables";
-import type { Variable } from "@typebot.io/variables/schemas";
+import type { Variable, VariableType } from "@typebot.io/variables/schemas";
 import { ComparisonOperators, LogicalOperator } from "./constants";
 import type { Comparison, Condition } from "./schemas";
 
@@ -33,8 +38,8 @@ const executeComparison = (
   }: { sessionStore: SessionStore; variables: Variable[] },
 ): boolean => {
   if (!comparison?.variableId) return false;
-  const inputValue =
-    variables.find((v) => v.id === comparison.variableId)?.value ?? null;
+  const variable = variables.find((v) => v.id === comparison.variableId);
+  const inputValue = variable?.value ?? null;
   const value =
     comparison.value === "undefined" || comparison.value === "null"
       ? null
@@ -44,6 +49,7 @@ const executeComparison = (
           sessionStore,
         }));
   if (isNotDefined(comparison.comparisonOperator)) return false;
+  const typedOrder = compareTypedValues(inputValue, value, variable?.type);
   switch (comparison.comparisonOperator) {
     case ComparisonOperators.CONTAINS: {
       if (Array.isArray(inputValue)) {
@@ -84,6 +90,7 @@ const executeComparison = (
       return compare(notContains, inputValue, value);
     }
     case ComparisonOperators.EQUAL: {
+      if (typedOrder !== undefined) return typedOrder === 0;
       return compare(
         (a, b) => {
           if (typeof a === "string" && typeof b === "string")
@@ -95,6 +102,7 @@ const executeComparison = (
       );
     }
     case ComparisonOperators.NOT_EQUAL: {
+      if (typedOrder !== undefined) return typedOrder !== 0;
       return compare(
         (a, b) => {
           if (typeof a === "string" && typeof b === "string")
@@ -106,6 +114,7 @@ const executeComparison = (
       );
     }
     case ComparisonOperators.GREATER: {
+      if (typedOrder !== undefined) return typedOrder > 0;
       if (isNotDefined(inputValue) || isNotDefined(value)) return false;
       if (typeof inputValue === "string") {
         if (typeof value === "string")
@@ -119,6 +128,7 @@ const executeComparison = (
       return inputValue.length > value.length;
     }
     case ComparisonOperators.LESS: {
+      if (typedOrder !== undefined) return typedOrder < 0;
       if (isNotDefined(inputValue) || isNotDefined(value)) return false;
       if (typeof inputValue === "string") {
         if (typeof value === "string")
@@ -132,6 +142,7 @@ const executeComparison = (
       return inputValue.length < value.length;
     }
     case ComparisonOperators.GREATER_OR_EQUAL: {
+      if (typedOrder !== undefined) return typedOrder >= 0;
       if (isNotDefined(inputValue) || isNotDefined(value)) return false;
       if (typeof inputValue === "string") {
         if (typeof value === "string")
@@ -145,6 +156,7 @@ const executeComparison = (
       return inputValue.length >= value.length;
     }
     case ComparisonOperators.LESS_OR_EQUAL: {
+      if (typedOrder !== undefined) return typedOrder <= 0;
       if (isNotDefined(inputValue) || isNotDefined(value)) return false;
       if (typeof inputValue === "string") {
         if (typeof value === "string")
@@ -233,6 +245,45 @@ const compare = (
   return a.some((a) => b.some((b) => compareStrings(a, b)));
 };
 
+/**
+ * Orders two single values based on the declared type of the variable.
+ * Returns `NaN` if a value does not match the declared type and `undefined`
+ * when the comparison should fall back to guessing the type.
+ */
+const compareTypedValues = (
+  a: Variable["value"],
+  b: Variable["value"],
+  type: VariableType | undefined,
+): number | undefined => {
+  if (typeof a !== "string" || typeof b !== "string") return;
+  switch (type) {
+    case "number": {
+      const numberA = parseNumber(a);
+      const numberB = parseNumber(b);
+      if (numberA === undefined || numberB === undefined) return NaN;
+      return numberA - numberB;
+    }
+    case "date": {
+      const dateA = parseDate(a);
+      const dateB = parseDate(b);
+      if (!dateA || !dateB) return NaN;
+      return dateA.getTime() - dateB.getTime();
+    }
+    case "boolean": {
+      const booleanA = parseBoolean(a);
+      const booleanB = parseBoolean(b);
+      if (booleanA === undefined || booleanB === undefined) return NaN;
+      return Number(booleanA) - Number(booleanB);
+    }
+    case "string":
+      return a.normalize().localeCompare(b.normalize());
+    case "list":
+    case "json":
+    case undefined:
+      return;
+  }
+};
+
 const parseDateOrNumberOrStringLength = (value: string): number => {
   const parsed = value.startsWith("+") ? NaN : Number(value);
   if (isNaN(parsed)) {
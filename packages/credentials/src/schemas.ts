@@ -26,6 +26,45 @@ export const whatsAppCredentialsSchema = z
   .merge(credentialsBaseSchema);
 export type WhatsAppCredentials = z.infer<typeof whatsAppCredentialsSchema>;
 
+export const telegramCredentialsSchema = z
+  .object({
+    type: z.literal("telegram"),
+    data: z.object({
+      botToken: z.string(),
+    }),
+  })
+  .merge(credentialsBaseSchema);
+export type TelegramCredentials = z.infer<typeof telegramCredentialsSchema>;
+
+export const twilioCredentialsSchema = z
+  .object({
+    type: z.literal("twilio"),
+    data: z.object({
+      accountSid: z.string(),
+      authToken: z.string(),
+      phoneNumber: z.string(),
+    }),
+  })
+  .merge(credentialsBaseSchema);
+export type TwilioCredentials = z.infer<typeof twilioCredentialsSchema>;
+
+export const s3CredentialsSchema = z
+  .object({
+    type: z.literal("s3"),
+    data: z.object({
+      endpoint: z
+        .string()
+        .optional()
+        .describe("Leave empty to use AWS, set it for S3-compatible storages"),
+      region: z.string().optional(),
+      bucket: z.string(),
+      accessKeyId: z.string(),
+      secretAccessKey: z.string(),
+    }),
+  })
+  .merge(credentialsBaseSchema);
+export type S3Credentials = z.infer<typeof s3CredentialsSchema>;
+
 export const stripeCredentialsSchema = z
   .object({
     type: z.literal("stripe"),
@@ -93,6 +132,9 @@ export const creatableCredentialsSchemas = [
   googleSheetsCredentialsSchema,
   stripeCredentialsSchema,
   whatsAppCredentialsSchema,
+  telegramCredentialsSchema,
+  twilioCredentialsSchema,
+  s3CredentialsSchema,
 ] as const;
 
 const credentialsSchema = z.discriminatedUnion("type", [
@@ -108,11 +150,18 @@ const creatableCredentials = z.discriminatedUnion("type", [
 ]);
 export type CreatableCredentials = z.infer<typeof creatableCredentials>;
 
+export type ForgedCredentials = z.infer<
+  (typeof forgedCredentialsSchemas)[keyof typeof forgedCredentialsSchemas]
+>;
+
 export const credentialsTypes = [
   "smtp",
   "google sheets",
   "stripe",
   "whatsApp",
+  "telegram",
+  "twilio",
+  "s3",
   "http proxy",
   ...(Object.keys(forgedCredentialsSchemas) as Array<
     keyof typeof forgedCredentialsSchemas
@@ -0,0 +1,102 @@
+import { ORPCError } from "@orpc/server";
+import * as Sentry from "@sentry/nextjs";
+import { ChannelError } from "@typebot.io/channels/ChannelError";
+import { getChannelSessionId } from "@typebot.io/channels/getChannelSessionId";
+import { isValidWebhookSecret } from "@typebot.io/channels/isValidWebhookSecret";
+import { env } from "@typebot.io/env";
+import { parseUnknownError } from "@typebot.io/lib/parseUnknownError";
+import prisma from "@typebot.io/prisma";
+import { z } from "@typebot.io/zod";
+import { after } from "next/server";
+import {
+  emailSecretTokenHeaderName,
+  WEBHOOK_SUCCESS_MESSAGE,
+} from "../constants";
+import { emailChannel } from "../emailChannel";
+import { getEmailThread } from "../getEmailThread";
+import { getEmailWebhookSecretToken } from "../getEmailWebhookSecretToken";
+import { resumeEmailFlow } from "../resumeEmailFlow";
+
+export const emailWebhookInputSchema = z.object({
+  params: z.object({
+    publicId: z.string(),
+  }),
+  headers: z.object({
+    [emailSecretTokenHeaderName]: z.string().optional(),
+  }),
+  body: z.unknown(),
+});
+
+export const handleEmailWebhookRequest = async ({
+  input: {
+    params: { publicId },
+    headers,
+    body,
+  },
+}: {
+  input: z.infer<typeof emailWebhookInputSchema>;
+}) => {
+  const typebot = await prisma.typebot.findFirst({
+    where: { publicId, isArchived: false },
+    select: { id: true, emailWebhookSecretRotatedAt: true },
+  });
+  if (!typebot)
+    throw new ORPCError("NOT_FOUND", { message: "Typebot not found" });
+
+  if (
+    !isValidWebhookSecret(
+      headers[emailSecretTokenHeaderName],
+      getEmailWebhookSecretToken(typebot),
+    )
+  )
+    throw new ORPCError("UNAUTHORIZED", {
+      message: "Invalid secret token",
+    });
+
+  if (!env.NEXT_PUBLIC_SMTP_FROM)
+    throw new ORPCError("PRECONDITION_FAILED", {
+      message: "SMTP is not configured, replies can't be sent",
+    });
+
+  const incomingUpdates = emailChannel.parseWebhookRequest(body);
+  if (incomingUpdates.length === 0) return WEBHOOK_SUCCESS_MESSAGE;
+
+  after(async () => {
+    for (const update of incomingUpdates) {
+      const [incomingMessage] = update.messages;
+      if (incomingMessage?.type !== "email") continue;
+      const { email } = incomingMessage;
+      try {
+        await resumeEmailFlow({
+          receivedMessages: update.messages,
+          sessionId: getChannelSessionId({
+            sessionIdPrefix: emailChannel.sessionIdPrefix,
+            accountId: typebot.id,
+            externalUserId: update.externalUserId,
+          }),
+          to: email.from.address,
+          thread: getEmailThread(email),
+          publicId,
+          contact: {
+            id: email.from.address,
+            name: update.contactName,
+          },
+        });
+      } catch (err) {
+        if (err instanceof ChannelError) {
+          console.log("Known email channel error", err.message, err.details);
+        } else {
+          console.log("Sending unknown error to Sentry");
+          const parsedError = await parseUnknownError({ err });
+          console.log(parsedError);
+          Sentry.addBreadcrumb({
+            data: { details: parsedError.details },
+          });
+          Sentry.captureException(err);
+        }
+      }
+    }
+  });
+
+  return WEBHOOK_SUCCESS_MESSAGE;
+};
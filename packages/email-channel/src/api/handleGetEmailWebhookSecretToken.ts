@@ -0,0 +1,24 @@
+import { ORPCError } from "@orpc/server";
+import type { User } from "@typebot.io/user/schemas";
+import { z } from "@typebot.io/zod";
+import { findWritableTypebot } from "../findWritableTypebot";
+import { getEmailWebhookSecretToken } from "../getEmailWebhookSecretToken";
+
+export const getEmailWebhookSecretTokenInputSchema = z.object({
+  typebotId: z.string(),
+});
+
+export const handleGetEmailWebhookSecretToken = async ({
+  input: { typebotId },
+  context: { user },
+}: {
+  input: z.infer<typeof getEmailWebhookSecretTokenInputSchema>;
+  context: { user: Pick<User, "id" | "email"> };
+}) => {
+  const typebot = await findWritableTypebot({ typebotId, user });
+  if (!typebot)
+    throw new ORPCError("NOT_FOUND", { message: "Typebot not found" });
+  return {
+    secretToken: getEmailWebhookSecretToken(typebot),
+  };
+};
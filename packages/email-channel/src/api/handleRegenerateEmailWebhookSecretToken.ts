@@ -0,0 +1,32 @@
+import { ORPCError } from "@orpc/server";
+import prisma from "@typebot.io/prisma";
+import type { User } from "@typebot.io/user/schemas";
+import { z } from "@typebot.io/zod";
+import { findWritableTypebot } from "../findWritableTypebot";
+import { getEmailWebhookSecretToken } from "../getEmailWebhookSecretToken";
+
+export const regenerateEmailWebhookSecretTokenInputSchema = z.object({
+  typebotId: z.string(),
+});
+
+export const handleRegenerateEmailWebhookSecretToken = async ({
+  input: { typebotId },
+  context: { user },
+}: {
+  input: z.infer<typeof regenerateEmailWebhookSecretTokenInputSchema>;
+  context: { user: Pick<User, "id" | "email"> };
+}) => {
+  const typebot = await findWritableTypebot({ typebotId, user });
+  if (!typebot)
+    throw new ORPCError("NOT_FOUND", { message: "Typebot not found" });
+
+  const updatedTypebot = await prisma.typebot.update({
+    where: { id: typebot.id },
+    data: { emailWebhookSecretRotatedAt: new Date() },
+    select: { id: true, emailWebhookSecretRotatedAt: true },
+  });
+
+  return {
+    secretToken: getEmailWebhookSecretToken(updatedTypebot),
+  };
+};
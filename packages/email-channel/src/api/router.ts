@@ -0,0 +1,41 @@
+import { authenticatedProcedure } from "@typebot.io/config/orpc/builder/middlewares";
+import { publicProcedure as chatPublicProcedure } from "@typebot.io/config/orpc/viewer/middlewares";
+import { z } from "@typebot.io/zod";
+import { WEBHOOK_SUCCESS_MESSAGE } from "../constants";
+import {
+  emailWebhookInputSchema,
+  handleEmailWebhookRequest,
+} from "./handleEmailWebhookRequest";
+import {
+  getEmailWebhookSecretTokenInputSchema,
+  handleGetEmailWebhookSecretToken,
+} from "./handleGetEmailWebhookSecretToken";
+import {
+  handleRegenerateEmailWebhookSecretToken,
+  regenerateEmailWebhookSecretTokenInputSchema,
+} from "./handleRegenerateEmailWebhookSecretToken";
+
+export const chatEmailRouter = {
+  emailWebhookProcedure: chatPublicProcedure
+    .route({
+      method: "POST",
+      path: "/v1/typebots/{publicId}/email/webhook",
+      tags: ["Email"],
+      inputStructure: "detailed",
+      summary: "Receive an inbound email",
+      description:
+        "Starts or continues the email session of the sender. The bot replies by email in the same thread.",
+    })
+    .input(emailWebhookInputSchema)
+    .output(z.literal(WEBHOOK_SUCCESS_MESSAGE))
+    .handler(handleEmailWebhookRequest),
+};
+
+export const builderEmailRouter = {
+  getWebhookSecretToken: authenticatedProcedure
+    .input(getEmailWebhookSecretTokenInputSchema)
+    .handler(handleGetEmailWebhookSecretToken),
+  regenerateWebhookSecretToken: authenticatedProcedure
+    .input(regenerateEmailWebhookSecretTokenInputSchema)
+    .handler(handleRegenerateEmailWebhookSecretToken),
+};
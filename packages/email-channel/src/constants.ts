@@ -0,0 +1,7 @@
+export const WEBHOOK_SUCCESS_MESSAGE = "Email received" as const;
+export const EMAIL_SESSION_ID_PREFIX = "email-" as const;
+
+export const emailSecretTokenHeaderName = "x-typebot-email-secret-token";
+
+/** Number of message IDs of a thread kept as references of the replies */
+export const MAX_THREAD_REFERENCES = 10;
@@ -0,0 +1,33 @@
+import type { Block } from "@typebot.io/blocks-core/schemas/schema";
+import { parseNumberedReplyId } from "@typebot.io/channels/getReplyOptions";
+import type { Message } from "@typebot.io/chat-api/schemas";
+import { parseEmailReply } from "./parseEmailReply";
+import type { EmailIncomingMessage } from "./schemas";
+
+export const convertEmailToTypebotMessage = async ({
+  messages,
+  block,
+}: {
+  messages: EmailIncomingMessage[];
+  block?: Block;
+}): Promise<Message | undefined> => {
+  let text = "";
+  const append = (s: string) => (text = text !== "" ? `${text}\n\n${s}` : s);
+  for (const message of messages) {
+    switch (message.type) {
+      case "email":
+        append(parseEmailReply(message.email));
+        break;
+      case "webhook": {
+        if (!message.webhook.data) return;
+        text = message.webhook.data;
+      }
+    }
+  }
+
+  return {
+    type: "text",
+    text,
+    metadata: { replyId: parseNumberedReplyId(text, block) },
+  };
+};
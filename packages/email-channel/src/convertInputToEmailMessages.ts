@@ -0,0 +1,64 @@
+import { BubbleBlockType } from "@typebot.io/blocks-bubbles/constants";
+import { defaultChoiceInputOptions } from "@typebot.io/blocks-inputs/choice/constants";
+import { InputBlockType } from "@typebot.io/blocks-inputs/constants";
+import { defaultPictureChoiceOptions } from "@typebot.io/blocks-inputs/pictureChoice/constants";
+import { getReplyOptions } from "@typebot.io/channels/getReplyOptions";
+import type { ContinueChatResponse } from "@typebot.io/chat-api/schemas";
+import { convertMessageToEmailMessage } from "./convertMessageToEmailMessage";
+import type { EmailSendingMessage, EmailThread } from "./schemas";
+
+type Props = {
+  input: NonNullable<ContinueChatResponse["input"]>;
+  lastMessage: ContinueChatResponse["messages"][number] | undefined;
+  thread: EmailThread;
+};
+
+export const convertInputToEmailMessages = ({
+  input,
+  lastMessage,
+  thread,
+}: Props): EmailSendingMessage[] => {
+  const options = getReplyOptions(input);
+  if (!options || options.length === 0) return [];
+  const isMultipleChoice =
+    input.type === InputBlockType.CHOICE
+      ? (input.options?.isMultipleChoice ??
+        defaultChoiceInputOptions.isMultipleChoice)
+      : input.type === InputBlockType.PICTURE_CHOICE
+        ? (input.options?.isMultipleChoice ??
+          defaultPictureChoiceOptions.isMultipleChoice)
+        : false;
+  // The text bubble preceding a choice input is sent along with it
+  const questionMessage =
+    input.type === InputBlockType.CHOICE &&
+    lastMessage?.type === BubbleBlockType.TEXT
+      ? convertMessageToEmailMessage(lastMessage)
+      : undefined;
+  return [
+    ...(questionMessage ? [questionMessage] : []),
+    {
+      type: "choices",
+      instructions: isMultipleChoice
+        ? "Reply with the numbers of your choices, separated by commas."
+        : "Reply with the number of your choice, or click on it.",
+      items: options.map((option, idx) => ({
+        number: idx + 1,
+        label: option.label,
+        description: option.description,
+        imageUrl: option.imageUrl,
+        href: isMultipleChoice
+          ? undefined
+          : getReplyMailtoLink({ thread, body: `${idx + 1}` }),
+      })),
+    },
+  ];
+};
+
+const getReplyMailtoLink = ({
+  thread,
+  body,
+}: {
+  thread: EmailThread;
+  body: string;
+}) =>
+  `mailto:${thread.address}?subject=${encodeURIComponent(`Re: ${thread.subject}`)}&body=${encodeURIComponent(body)}`;
@@ -0,0 +1,65 @@
+import { BubbleBlockType } from "@typebot.io/blocks-bubbles/constants";
+import {
+  embedBaseUrls,
+  embeddableVideoTypes,
+  VideoBubbleContentType,
+} from "@typebot.io/blocks-bubbles/video/constants";
+import type { EmbeddableVideoBubbleContentType } from "@typebot.io/blocks-bubbles/video/schema";
+import type { ContinueChatResponse } from "@typebot.io/chat-api/schemas";
+import { convertRichTextToMarkdown } from "@typebot.io/rich-text/convertRichTextToMarkdown";
+import type { EmailSendingMessage } from "./schemas";
+
+export const convertMessageToEmailMessage = (
+  message: ContinueChatResponse["messages"][number],
+): EmailSendingMessage | null => {
+  switch (message.type) {
+    case BubbleBlockType.TEXT: {
+      const markdown =
+        message.content.type === "markdown"
+          ? message.content.markdown
+          : convertRichTextToMarkdown(message.content.richText ?? []);
+      if (!markdown) return null;
+      return {
+        type: "text",
+        markdown,
+      };
+    }
+    case BubbleBlockType.IMAGE:
+      if (!message.content.url) return null;
+      return {
+        type: "image",
+        url: message.content.url,
+        alt: message.content.clickLink?.alt,
+      };
+    case BubbleBlockType.AUDIO:
+      if (!message.content.url) return null;
+      return {
+        type: "link",
+        url: message.content.url,
+      };
+    case BubbleBlockType.VIDEO:
+      if (!message.content.url) return null;
+      if (message.content.type === VideoBubbleContentType.URL)
+        return {
+          type: "link",
+          url: message.content.url,
+        };
+      if (
+        embeddableVideoTypes.includes(
+          message.content.type as EmbeddableVideoBubbleContentType,
+        )
+      )
+        return {
+          type: "link",
+          url: `${embedBaseUrls[message.content.type as EmbeddableVideoBubbleContentType]}/${message.content.id}`,
+        };
+      return null;
+    case BubbleBlockType.EMBED:
+    case "custom-embed":
+      if (!message.content.url) return null;
+      return {
+        type: "link",
+        url: message.content.url,
+      };
+  }
+};
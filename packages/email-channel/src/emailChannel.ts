@@ -0,0 +1,66 @@
+import type { Channel } from "@typebot.io/channels/types";
+import { EMAIL_SESSION_ID_PREFIX } from "./constants";
+import { convertEmailToTypebotMessage } from "./convertEmailToTypebotMessage";
+import { convertInputToEmailMessages } from "./convertInputToEmailMessages";
+import { convertMessageToEmailMessage } from "./convertMessageToEmailMessage";
+import { getEmailThreadKey } from "./getEmailThread";
+import {
+  type EmailIncomingMessage,
+  type EmailSendingMessage,
+  type EmailThread,
+  inboundEmailSchema,
+} from "./schemas";
+import { sendEmailReply } from "./sendEmailReply";
+
+/**
+ * Emails don't need credentials, the thread the replies are sent in is
+ * passed instead.
+ */
+export const emailChannel: Channel<
+  EmailIncomingMessage,
+  EmailSendingMessage,
+  EmailThread
+> = {
+  sessionIdPrefix: EMAIL_SESSION_ID_PREFIX,
+  parseWebhookRequest: (body) => {
+    const parsedBody = inboundEmailSchema.safeParse(body);
+    if (!parsedBody.success || parsedBody.data.isAutoReply) return [];
+    const email = parsedBody.data;
+    return [
+      {
+        externalUserId: getEmailThreadKey(email),
+        contactName: email.from.name ?? email.from.address,
+        messages: [{ type: "email", email }],
+      },
+    ];
+  },
+  convertIncomingMessages: convertEmailToTypebotMessage,
+  convertMessage: async ({ message }) => convertMessageToEmailMessage(message),
+  convertInput: async ({ input, lastMessage, credentials }) =>
+    convertInputToEmailMessages({
+      input,
+      lastMessage,
+      thread: credentials,
+    }),
+  convertRedirectUrl: (url) => ({
+    type: "link",
+    url,
+  }),
+  getMessageText: (message) => {
+    switch (message.type) {
+      case "text":
+        return message.markdown;
+      case "choices":
+        return message.instructions;
+      case "image":
+      case "link":
+        return;
+    }
+  },
+  isMediaMessage: (message) => message.type === "image",
+  sendMessage: ({ to, message, credentials }) =>
+    sendEmailReply({ to, messages: [message], thread: credentials }),
+  // All the messages of a reply are sent in a single email
+  sendMessages: ({ to, messages, credentials }) =>
+    sendEmailReply({ to, messages, thread: credentials }),
+};
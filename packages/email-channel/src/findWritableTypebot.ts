@@ -0,0 +1,35 @@
+import prisma from "@typebot.io/prisma";
+import type { User } from "@typebot.io/user/schemas";
+
+/**
+ * The webhook secret token lets the caller inject emails in any session of
+ * the typebot so it is only available to the members who can edit it.
+ */
+export const findWritableTypebot = ({
+  typebotId,
+  user,
+}: {
+  typebotId: string;
+  user: Pick<User, "id">;
+}) =>
+  prisma.typebot.findFirst({
+    where: {
+      id: typebotId,
+      workspace: { isSuspended: false, isPastDue: false },
+      OR: [
+        {
+          workspace: {
+            members: {
+              some: { userId: user.id, role: { in: ["ADMIN", "MEMBER"] } },
+            },
+          },
+        },
+        {
+          collaborators: {
+            some: { userId: user.id, type: { in: ["WRITE"] } },
+          },
+        },
+      ],
+    },
+    select: { id: true, emailWebhookSecretRotatedAt: true },
+  });
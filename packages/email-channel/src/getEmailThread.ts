@@ -0,0 +1,31 @@
+import { createHash } from "node:crypto";
+import { MAX_THREAD_REFERENCES } from "./constants";
+import type { EmailThread, InboundEmail } from "./schemas";
+
+const replyPrefixRegex = /^\s*((re|fwd?|aw|sv|tr)(\[\d+\])?\s*:\s*)+/i;
+
+export const stripEmailSubjectPrefixes = (subject: string) =>
+  subject.replace(replyPrefixRegex, "").trim();
+
+/**
+ * Replies are matched to their thread by sender and subject rather than by
+ * `References` so that answers sent from a `mailto:` choice link, which can't
+ * carry the references, continue the same session.
+ */
+export const getEmailThreadKey = (
+  email: Pick<InboundEmail, "from" | "subject">,
+) =>
+  createHash("sha256")
+    .update(
+      `${email.from.address.toLowerCase()}\n${stripEmailSubjectPrefixes(email.subject ?? "").toLowerCase()}`,
+    )
+    .digest("hex")
+    .slice(0, 32);
+
+export const getEmailThread = (email: InboundEmail): EmailThread => ({
+  subject: stripEmailSubjectPrefixes(email.subject ?? ""),
+  address: email.to,
+  messageIds: [
+    ...new Set([...(email.references ?? []), email.messageId]),
+  ].slice(-MAX_THREAD_REFERENCES),
+});
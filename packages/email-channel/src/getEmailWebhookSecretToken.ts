@@ -0,0 +1,17 @@
+import { createHmac } from "node:crypto";
+import { env } from "@typebot.io/env";
+
+/**
+ * Secret token the inbound email relay sends along every email so that we
+ * can verify the request was issued for this typebot. Regenerating it changes
+ * `emailWebhookSecretRotatedAt` which invalidates the previous token.
+ */
+export const getEmailWebhookSecretToken = (typebot: {
+  id: string;
+  emailWebhookSecretRotatedAt: Date | null;
+}) =>
+  createHmac("sha256", env.ENCRYPTION_SECRET)
+    .update(
+      `email-webhook-${typebot.id}-${typebot.emailWebhookSecretRotatedAt?.getTime() ?? ""}`,
+    )
+    .digest("hex");
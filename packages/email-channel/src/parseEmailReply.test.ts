@@ -0,0 +1,74 @@
+import { describe, expect, it } from "bun:test";
+import { parseEmailReply } from "./parseEmailReply";
+
+describe("parseEmailReply", () => {
+  it("should strip the quoted message of a Gmail reply", () => {
+    expect(
+      parseEmailReply({
+        text: [
+          "2",
+          "",
+          "On Mon, Oct 19, 2026 at 10:00 AM Typebot <bot@typebot.io> wrote:",
+          "> What can I help you with?",
+          "> 1. Pricing",
+          "> 2. Support",
+        ].join("\n"),
+      }),
+    ).toBe("2");
+  });
+
+  it("should strip a quote header wrapped over two lines", () => {
+    expect(
+      parseEmailReply({
+        text: [
+          "I need help with my invoice",
+          "",
+          "On Mon, Oct 19, 2026 at 10:00 AM Typebot <",
+          "bot@typebot.io> wrote:",
+          "> What can I help you with?",
+        ].join("\n"),
+      }),
+    ).toBe("I need help with my invoice");
+  });
+
+  it("should strip the quoted message of an Outlook reply", () => {
+    expect(
+      parseEmailReply({
+        text: [
+          "Yes please",
+          "",
+          "From: Typebot <bot@typebot.io>",
+          "Sent: Monday, October 19, 2026 10:00 AM",
+          "Subject: Re: Hello",
+          "",
+          "Do you want a demo?",
+        ].join("\r\n"),
+      }),
+    ).toBe("Yes please");
+  });
+
+  it("should strip the signature", () => {
+    expect(
+      parseEmailReply({
+        text: ["Thanks!", "", "-- ", "John Doe", "CEO"].join("\n"),
+      }),
+    ).toBe("Thanks!");
+    expect(
+      parseEmailReply({ text: "Sounds good\n\nSent from my iPhone" }),
+    ).toBe("Sounds good");
+  });
+
+  it("should keep multiline replies", () => {
+    expect(
+      parseEmailReply({ text: "First line\nSecond line\n\nThird line" }),
+    ).toBe("First line\nSecond line\n\nThird line");
+  });
+
+  it("should convert HTML replies and strip the quoted message", () => {
+    expect(
+      parseEmailReply({
+        html: '<div dir="ltr">Tom &amp; Jerry<br>are here</div><br><div class="gmail_quote"><div class="gmail_attr">On Mon wrote:</div><blockquote>Who are you?</blockquote></div>',
+      }),
+    ).toBe("Tom & Jerry\nare here");
+  });
+});
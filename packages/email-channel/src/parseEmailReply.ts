@@ -0,0 +1,68 @@
+import type { InboundEmail } from "./schemas";
+
+const quoteHeaderRegexes = [
+  /^On\s.+wrote:$/i,
+  /^Le\s.+a écrit\s?:$/i,
+  /^Am\s.+schrieb.*:$/i,
+  /^El\s.+escribió:$/i,
+  /^-{2,}\s*Original Message\s*-{2,}$/i,
+  /^_{10,}$/,
+];
+
+const signatureRegexes = [/^--\s?$/, /^Sent from my\s/i];
+
+/**
+ * Extracts what the user wrote in an email reply, without the quoted previous
+ * messages and the signature.
+ */
+export const parseEmailReply = ({
+  text,
+  html,
+}: Pick<InboundEmail, "text" | "html">) => {
+  const lines = (text ?? (html ? convertHtmlToText(html) : ""))
+    .replace(/\r\n/g, "\n")
+    .split("\n");
+  const replyLines: string[] = [];
+  for (const [index, line] of lines.entries()) {
+    const trimmedLine = line.trim();
+    if (isQuoteHeader(trimmedLine, lines[index + 1]?.trim())) break;
+    if (signatureRegexes.some((regex) => regex.test(trimmedLine))) break;
+    if (trimmedLine.startsWith(">")) continue;
+    replyLines.push(line.trimEnd());
+  }
+  return replyLines.join("\n").trim();
+};
+
+const isQuoteHeader = (line: string, nextLine: string | undefined) => {
+  if (quoteHeaderRegexes.some((regex) => regex.test(line))) return true;
+  // Some clients wrap the "On ... wrote:" header over two lines
+  if (
+    nextLine &&
+    /^On\s/i.test(line) &&
+    quoteHeaderRegexes[0].test(`${line} ${nextLine}`)
+  )
+    return true;
+  // Outlook quotes the previous message below a "From:" / "Sent:" header
+  return /^From:\s/i.test(line) && /^(Sent|Date):\s/i.test(nextLine ?? "");
+};
+
+const htmlEntities: Record<string, string> = {
+  "&nbsp;": " ",
+  "&amp;": "&",
+  "&lt;": "<",
+  "&gt;": ">",
+  "&quot;": '"',
+  "&#39;": "'",
+};
+
+const convertHtmlToText = (html: string) => {
+  const quoteIndex = html.search(
+    /<blockquote|<div[^>]+class="[^"]*(gmail_quote|moz-cite-prefix)/i,
+  );
+  return (quoteIndex === -1 ? html : html.slice(0, quoteIndex))
+    .replace(/<(style|script)[\s\S]*?<\/\1>/gi, "")
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<\/(p|div|li|h[1-6])>/gi, "\n")
+    .replace(/<[^>]+>/g, "")
+    .replace(/&(nbsp|amp|lt|gt|quot|#39);/g, (entity) => htmlEntities[entity]);
+};
@@ -0,0 +1,64 @@
+import { resumeChannelFlow } from "@typebot.io/channels/resumeChannelFlow";
+import type { SessionState } from "@typebot.io/chat-session/schemas";
+import { EmailChannelError } from "./EmailChannelError";
+import { emailChannel } from "./emailChannel";
+import type { EmailIncomingMessage, EmailThread } from "./schemas";
+import { startEmailSession } from "./startEmailSession";
+
+type Props = {
+  receivedMessages: EmailIncomingMessage[];
+  sessionId: string;
+  /** Email address the replies are sent to */
+  to: string;
+  thread: EmailThread;
+  /** Public ID of the typebot the session is started on */
+  publicId?: string;
+  contact?: NonNullable<SessionState["channel"]>["contact"];
+  callFrom?: "webhook";
+};
+
+export const resumeEmailFlow = async ({
+  receivedMessages,
+  sessionId,
+  to,
+  thread,
+  publicId,
+  contact,
+  callFrom,
+}: Props) => {
+  if (receivedMessages.length === 0)
+    throw new EmailChannelError("Received messages is empty");
+
+  await resumeChannelFlow({
+    channel: emailChannel,
+    receivedMessages,
+    sessionId,
+    credentials: thread,
+    to,
+    callFrom,
+    updateState: (state) =>
+      contact
+        ? {
+            ...state,
+            channel: {
+              type: "email",
+              contact,
+              thread,
+            },
+          }
+        : state,
+    startSession: ({ incomingMessage, sessionStore }) => {
+      if (!contact || !publicId)
+        throw new EmailChannelError(
+          "Can't start email session without contact",
+        );
+      return startEmailSession({
+        incomingMessage,
+        publicId,
+        contact,
+        thread,
+        sessionStore,
+      });
+    },
+  });
+};
@@ -0,0 +1,51 @@
+import type { SessionState } from "@typebot.io/chat-session/schemas";
+import type { BotReplyEmailMessage } from "@typebot.io/emails/transactional/BotReplyEmail";
+import { z } from "@typebot.io/zod";
+
+/**
+ * Email forwarded by the inbound email relay (i.e. an SMTP server or an
+ * inbound parse webhook of an email provider).
+ */
+export const inboundEmailSchema = z.object({
+  from: z.object({
+    address: z.string().email(),
+    name: z.string().optional(),
+  }),
+  to: z
+    .string()
+    .email()
+    .describe("Address the email was sent to. Users reply to this address."),
+  subject: z.string().optional(),
+  text: z.string().optional(),
+  html: z.string().optional(),
+  messageId: z.string(),
+  inReplyTo: z.string().optional(),
+  references: z.array(z.string()).optional(),
+  isAutoReply: z
+    .boolean()
+    .optional()
+    .describe(
+      "Set it if the email has an `Auto-Submitted` header. Auto replies are ignored to avoid loops.",
+    ),
+});
+export type InboundEmail = z.infer<typeof inboundEmailSchema>;
+
+export const emailIncomingMessageSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("email"),
+    email: inboundEmailSchema,
+  }),
+  z.object({
+    type: z.literal("webhook"),
+    webhook: z.object({
+      data: z.string().optional(),
+    }),
+  }),
+]);
+export type EmailIncomingMessage = z.infer<typeof emailIncomingMessageSchema>;
+
+export type EmailSendingMessage = BotReplyEmailMessage;
+
+export type EmailThread = NonNullable<
+  NonNullable<SessionState["channel"]>["thread"]
+>;
@@ -0,0 +1,22 @@
+import { sendEmail } from "@typebot.io/emails/helpers/sendEmail";
+import { renderBotReplyEmail } from "@typebot.io/emails/transactional/BotReplyEmail";
+import type { EmailSendingMessage, EmailThread } from "./schemas";
+
+type Props = {
+  to: string;
+  messages: EmailSendingMessage[];
+  thread: EmailThread;
+};
+
+export const sendEmailReply = async ({ to, messages, thread }: Props) => {
+  const { html, text } = await renderBotReplyEmail({ messages });
+  await sendEmail({
+    to,
+    subject: `Re: ${thread.subject}`,
+    html,
+    text,
+    replyTo: thread.address,
+    inReplyTo: thread.messageIds.at(-1),
+    references: thread.messageIds,
+  });
+};
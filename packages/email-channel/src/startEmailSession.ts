@@ -0,0 +1,71 @@
+import { startSession } from "@typebot.io/bot-engine/startSession";
+import type { ChannelFlowResponse } from "@typebot.io/channels/resumeChannelFlow";
+import type { Message } from "@typebot.io/chat-api/schemas";
+import type { SessionState } from "@typebot.io/chat-session/schemas";
+import prisma from "@typebot.io/prisma";
+import type { SessionStore } from "@typebot.io/runtime-session-store";
+import { defaultSessionExpiryTimeout } from "@typebot.io/settings/constants";
+import { getScheduleStatus } from "@typebot.io/settings/getScheduleStatus";
+import type { Settings } from "@typebot.io/settings/schemas";
+import { EmailChannelError } from "./EmailChannelError";
+import type { EmailThread } from "./schemas";
+
+type Props = {
+  incomingMessage?: Message;
+  publicId: string;
+  contact: NonNullable<SessionState["channel"]>["contact"];
+  thread: EmailThread;
+  sessionStore: SessionStore;
+};
+
+export const startEmailSession = async ({
+  incomingMessage,
+  publicId,
+  contact,
+  thread,
+  sessionStore,
+}: Props): Promise<ChannelFlowResponse> => {
+  const publicTypebot = await prisma.publicTypebot.findFirst({
+    where: {
+      typebot: { publicId, isArchived: false },
+    },
+    select: {
+      settings: true,
+    },
+  });
+  const settings = publicTypebot?.settings as Settings | undefined;
+  const scheduleStatus = getScheduleStatus(settings?.schedule);
+
+  if (
+    !settings?.email?.isEnabled ||
+    scheduleStatus === "notPublishedYet" ||
+    scheduleStatus === "unpublished"
+  )
+    throw new EmailChannelError(
+      "No public typebot with email integration found",
+    );
+
+  const sessionExpiryTimeoutHours =
+    settings.email.sessionExpiryTimeout ?? defaultSessionExpiryTimeout;
+
+  return startSession({
+    version: 2,
+    startParams: {
+      type: "live",
+      publicId,
+      isOnlyRegistering: false,
+      isStreamEnabled: false,
+      textBubbleContentFormat: "richText",
+      message: incomingMessage,
+    },
+    initialSessionState: {
+      channel: {
+        type: "email",
+        contact,
+        thread,
+      },
+      expiryTimeout: sessionExpiryTimeoutHours * 60 * 60 * 1000,
+    },
+    sessionStore,
+  });
+};
@@ -2,7 +2,10 @@ import { env } from "@typebot.io/env";
 import { createTransport, type SendMailOptions } from "nodemailer";
 
 export const sendEmail = (
-  props: Pick<SendMailOptions, "to" | "html" | "subject" | "replyTo" | "text">,
+  props: Pick<
+    SendMailOptions,
+    "to" | "html" | "subject" | "replyTo" | "text" | "inReplyTo" | "references"
+  >,
 ) => {
   const transporter = createTransport({
     host: env.SMTP_HOST,
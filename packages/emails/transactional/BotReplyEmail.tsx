@@ -0,0 +1,144 @@
+import {
+  Body,
+  Container,
+  Head,
+  Html,
+  Img,
+  Link,
+  Markdown,
+  Section,
+  Text,
+} from "@react-email/components";
+import { render } from "@react-email/render";
+import type { ComponentProps } from "react";
+// biome-ignore lint/correctness/noUnusedImports: Need it for tsx execution
+import React from "react";
+import { bodyText, container, main } from "./styles";
+
+export type BotReplyEmailMessage =
+  | { type: "text"; markdown: string }
+  | { type: "image"; url: string; alt?: string }
+  | { type: "link"; url: string; label?: string }
+  | {
+      type: "choices";
+      instructions: string;
+      items: {
+        number: number;
+        label: string;
+        description?: string;
+        imageUrl?: string;
+        href?: string;
+      }[];
+    };
+
+interface Props {
+  messages: BotReplyEmailMessage[];
+}
+
+export const BotReplyEmail = ({ messages }: Props) => {
+  return (
+    <Html>
+      <Head />
+      <Body style={main}>
+        <Container style={container}>
+          {messages.map((message, idx) => (
+            <BotReplyEmailMessageSection key={idx} message={message} />
+          ))}
+        </Container>
+      </Body>
+    </Html>
+  );
+};
+
+const BotReplyEmailMessageSection = ({
+  message,
+}: {
+  message: BotReplyEmailMessage;
+}) => {
+  switch (message.type) {
+    case "text":
+      return (
+        <Markdown markdownContainerStyles={bodyText}>
+          {message.markdown}
+        </Markdown>
+      );
+    case "image":
+      return (
+        <Img
+          src={message.url}
+          alt={message.alt}
+          style={{ maxWidth: "100%", margin: "15px 0" }}
+        />
+      );
+    case "link":
+      return (
+        <Text style={bodyText}>
+          <Link href={message.url}>{message.label ?? message.url}</Link>
+        </Text>
+      );
+    case "choices":
+      return (
+        <Section>
+          {message.items.map((item) => (
+            <Section key={item.number} style={choiceItem}>
+              {item.imageUrl && (
+                <Img
+                  src={item.imageUrl}
+                  alt={item.label}
+                  style={{ maxWidth: "100%" }}
+                />
+              )}
+              <Text style={bodyText}>
+                <b>{item.number}.</b>{" "}
+                {item.href ? (
+                  <Link href={item.href}>{item.label}</Link>
+                ) : (
+                  item.label
+                )}
+                {item.description && (
+                  <>
+                    <br />
+                    {item.description}
+                  </>
+                )}
+              </Text>
+            </Section>
+          ))}
+          <Text style={instructionsText}>{message.instructions}</Text>
+        </Section>
+      );
+  }
+};
+
+const choiceItem = {
+  margin: "8px 0",
+};
+
+const instructionsText = {
+  ...bodyText,
+  color: "#8a8f98",
+  fontSize: "13px",
+};
+
+BotReplyEmail.PreviewProps = {
+  messages: [
+    { type: "text", markdown: "Hi there 👋\n\nWhat can I help you with?" },
+    {
+      type: "choices",
+      instructions: "Reply with the number of your choice.",
+      items: [
+        { number: 1, label: "Pricing", href: "mailto:bot@typebot.io?body=1" },
+        { number: 2, label: "Support", href: "mailto:bot@typebot.io?body=2" },
+      ],
+    },
+  ],
+} as Props;
+
+export default BotReplyEmail;
+
+export const renderBotReplyEmail = async (
+  props: ComponentProps<typeof BotReplyEmail>,
+) => ({
+  html: await render(<BotReplyEmail {...props} />),
+  text: await render(<BotReplyEmail {...props} />, { plainText: true }),
+});
@@ -11,9 +11,14 @@ interface Props {
   typebotName: string;
   fileUrl: string;
   email: string;
+  isScheduled?: boolean;
 }
 
-export const ResultsExportLinkEmail = ({ typebotName, fileUrl }: Props) => {
+export const ResultsExportLinkEmail = ({
+  typebotName,
+  fileUrl,
+  isScheduled,
+}: Props) => {
   return (
     <Html>
       <Head />
@@ -21,8 +26,18 @@ export const ResultsExportLinkEmail = ({ typebotName, fileUrl }: Props) => {
         <Container style={container}>
           <Logo />
           <Text style={paragraph}>
-            You've requested a results export for <strong>{typebotName}</strong>
-            . It was processed and is now ready.
+            {isScheduled ? (
+              <>
+                Your scheduled results export for <strong>{typebotName}</strong>{" "}
+                is ready.
+              </>
+            ) : (
+              <>
+                You've requested a results export for{" "}
+                <strong>{typebotName}</strong>. It was processed and is now
+                ready.
+              </>
+            )}
             <br />
             <br />
             You can download it <a href={fileUrl}>here</a>.
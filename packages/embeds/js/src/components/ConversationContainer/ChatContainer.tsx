@@ -96,6 +96,7 @@ export const ChatContainer = (props: Props) => {
     storage: props.context.storage,
   });
   const [isSending, setIsSending] = createSignal(false);
+  let inactivityTimeout: ReturnType<typeof setTimeout> | undefined;
   const [isLastAutoScrollAtBottom, setIsLastAutoScrollAtBottom] =
     createSignal(true);
 
@@ -178,6 +179,7 @@ export const ChatContainer = (props: Props) => {
   const sendMessage = async (
     answer?: InputSubmitContent | ClientSideResult,
   ) => {
+    clearTimeout(inactivityTimeout);
     const currentChunk = chatChunks().at(-1);
     if (answer && answer.type !== "clientSideResult")
       setChatChunks(addAnswerToLastChunk(answer));
@@ -215,6 +217,13 @@ export const ChatContainer = (props: Props) => {
     });
     clearTimeout(longRequest);
     setIsSending(false);
+    // The flow was resumed by an external event (i.e. an agent reply) while the input was still unanswered
+    if (
+      (!answer || answer.type === "clientSideResult") &&
+      chatChunks().at(-1)?.input?.id &&
+      data
+    )
+      setChatChunks(updateIsInputHiddenOnLastChunk);
 
     await processContinueChatResponse({ data, error });
   };
@@ -317,6 +326,14 @@ export const ChatContainer = (props: Props) => {
     if (isNotDefined(lastChunk.input)) {
       setIsEnded(true);
       props.onEnd?.();
+      return;
+    }
+    if (lastChunk.input.inactivityTimeout && !lastChunk.input.answer) {
+      clearTimeout(inactivityTimeout);
+      inactivityTimeout = setTimeout(
+        sendInactivityAndProcessResponse,
+        lastChunk.input.inactivityTimeout * 1000,
+      );
     }
   };
 
@@ -399,6 +416,7 @@ export const ChatContainer = (props: Props) => {
 
   onCleanup(() => {
     window.removeEventListener("message", processIncomingEvent);
+    clearTimeout(inactivityTimeout);
   });
 
   const processIncomingEvent = async (event: MessageEvent<CommandData>) => {
@@ -426,6 +444,7 @@ export const ChatContainer = (props: Props) => {
       return sendCommandAndProcessResponse(command, retryCount + 1, maxRetries);
     }
 
+    clearTimeout(inactivityTimeout);
     const longRequest = setTimeout(() => {
       setIsSending(true);
     }, 1000);
@@ -446,6 +465,20 @@ export const ChatContainer = (props: Props) => {
     return processContinueChatResponse({ data, error });
   };
 
+  const sendInactivityAndProcessResponse = async () => {
+    if (isSending() || isEnded()) return;
+    const { data, error } = await continueChatQuery({
+      apiHost: props.context.apiHost,
+      sessionId: props.initialChatReply.sessionId,
+      message: {
+        type: "inactivity",
+      },
+    });
+    if (chatChunks().at(-1)?.input?.id && data)
+      setChatChunks(updateIsInputHiddenOnLastChunk);
+    return processContinueChatResponse({ data, error });
+  };
+
   const handleSkip = (label: string) => {
     setChatChunks(addAnswerToLastChunk({ type: "text", value: label }));
     sendMessage(undefined);
@@ -1,9 +1,11 @@
 import type { CardsBlock } from "@typebot.io/blocks-inputs/cards/schema";
 import type { ChoiceInputBlock } from "@typebot.io/blocks-inputs/choice/schema";
 import { InputBlockType } from "@typebot.io/blocks-inputs/constants";
+import type { ContactInputBlock } from "@typebot.io/blocks-inputs/contact/schema";
 import type { DateInputBlock } from "@typebot.io/blocks-inputs/date/schema";
 import type { EmailInputBlock } from "@typebot.io/blocks-inputs/email/schema";
 import type { FileInputBlock } from "@typebot.io/blocks-inputs/file/schema";
+import type { LocationInputBlock } from "@typebot.io/blocks-inputs/location/schema";
 import type { NumberInputBlock } from "@typebot.io/blocks-inputs/number/schema";
 import { defaultPaymentInputOptions } from "@typebot.io/blocks-inputs/payment/constants";
 import type { PaymentInputBlock } from "@typebot.io/blocks-inputs/payment/schema";
@@ -24,9 +26,11 @@ import { Match, Show, Switch } from "solid-js";
 import { Buttons } from "@/features/blocks/inputs/buttons/components/Buttons";
 import { MultipleChoicesForm } from "@/features/blocks/inputs/buttons/components/MultipleChoicesForm";
 import { CardsCaroussel } from "@/features/blocks/inputs/cards/CardsCaroussel";
+import { ContactInput } from "@/features/blocks/inputs/contact/components/ContactInput";
 import { DateForm } from "@/features/blocks/inputs/date/components/DateForm";
 import { EmailInput } from "@/features/blocks/inputs/email/components/EmailInput";
 import { FileUploadForm } from "@/features/blocks/inputs/fileUpload/components/FileUploadForm";
+import { LocationInput } from "@/features/blocks/inputs/location/components/LocationInput";
 import { NumberInput } from "@/features/blocks/inputs/number/components/NumberInput";
 import { PaymentForm } from "@/features/blocks/inputs/payment/components/PaymentForm";
 import { PhoneInput } from "@/features/blocks/inputs/phone/components/PhoneInput";
@@ -186,6 +190,20 @@ const Input = (props: {
           onSubmit={props.onSubmit}
         />
       </Match>
+      <Match when={props.block.type === InputBlockType.LOCATION}>
+        <LocationInput
+          block={props.block as LocationInputBlock}
+          defaultValue={getPrefilledValue()}
+          onSubmit={props.onSubmit}
+        />
+      </Match>
+      <Match when={props.block.type === InputBlockType.CONTACT}>
+        <ContactInput
+          block={props.block as ContactInputBlock}
+          defaultValue={getPrefilledValue()}
+          onSubmit={props.onSubmit}
+        />
+      </Match>
       <Match when={isButtonsBlock(props.block)} keyed>
         {(block) => (
           <Switch>
@@ -0,0 +1,92 @@
+import { defaultContactInputOptions } from "@typebot.io/blocks-inputs/contact/constants";
+import type { ContactInputBlock } from "@typebot.io/blocks-inputs/contact/schema";
+import { guessDeviceIsMobile } from "@typebot.io/lib/guessDeviceIsMobile";
+import { isEmpty } from "@typebot.io/lib/utils";
+import { createSignal, onCleanup, onMount } from "solid-js";
+import { ShortTextInput } from "@/components/inputs/ShortTextInput";
+import { SendButton } from "@/components/SendButton";
+import type { CommandData } from "@/features/commands/types";
+import type { InputSubmitContent } from "@/types";
+
+type Props = {
+  block: ContactInputBlock;
+  defaultValue?: string;
+  onSubmit: (value: InputSubmitContent) => void;
+};
+
+export const ContactInput = (props: Props) => {
+  const [name, setName] = createSignal("");
+  const [phoneNumber, setPhoneNumber] = createSignal(props.defaultValue ?? "");
+  let nameInputRef: HTMLInputElement | undefined;
+  let phoneInputRef: HTMLInputElement | undefined;
+
+  const submit = () => {
+    if (isEmpty(phoneNumber()) || !phoneInputRef?.reportValidity())
+      return phoneInputRef?.focus();
+    const contactName = isEmpty(name()) ? undefined : name().trim();
+    props.onSubmit({
+      type: "text",
+      value: phoneNumber(),
+      label: contactName ? `${contactName} (${phoneNumber()})` : undefined,
+      metadata: {
+        contact: { name: contactName, phoneNumber: phoneNumber() },
+      },
+    });
+  };
+
+  const submitWhenEnter = (e: KeyboardEvent) => {
+    if (e.key === "Enter") submit();
+  };
+
+  onMount(() => {
+    if (!guessDeviceIsMobile() && nameInputRef)
+      nameInputRef.focus({ preventScroll: true });
+    window.addEventListener("message", processIncomingEvent);
+  });
+
+  onCleanup(() => {
+    window.removeEventListener("message", processIncomingEvent);
+  });
+
+  const processIncomingEvent = (event: MessageEvent<CommandData>) => {
+    const { data } = event;
+    if (!data.isFromTypebot) return;
+    if (data.command === "setInputValue") setPhoneNumber(data.value);
+    if (data.command === "submitInput") submit();
+  };
+
+  return (
+    <div
+      class="typebot-input-form flex w-full gap-2 items-end max-w-[350px]"
+      onKeyDown={submitWhenEnter}
+    >
+      <div class={"flex flex-col typebot-input w-full"}>
+        <ShortTextInput
+          ref={nameInputRef as HTMLInputElement}
+          value={name()}
+          placeholder={
+            props.block.options?.labels?.namePlaceholder ??
+            defaultContactInputOptions.labels.namePlaceholder
+          }
+          onInput={setName}
+          autocomplete="name"
+        />
+        <ShortTextInput
+          ref={phoneInputRef as HTMLInputElement}
+          value={phoneNumber()}
+          placeholder={
+            props.block.options?.labels?.phonePlaceholder ??
+            defaultContactInputOptions.labels.phonePlaceholder
+          }
+          onInput={setPhoneNumber}
+          type="tel"
+          autocomplete="tel"
+        />
+      </div>
+      <SendButton type="button" class="h-[56px]" on:click={submit}>
+        {props.block.options?.labels?.button ??
+          defaultContactInputOptions.labels.button}
+      </SendButton>
+    </div>
+  );
+};
@@ -0,0 +1,143 @@
+import { defaultLocationInputOptions } from "@typebot.io/blocks-inputs/location/constants";
+import type { LocationInputBlock } from "@typebot.io/blocks-inputs/location/schema";
+import type { SharedLocation } from "@typebot.io/chat-api/schemas";
+import { guessDeviceIsMobile } from "@typebot.io/lib/guessDeviceIsMobile";
+import { isEmpty } from "@typebot.io/lib/utils";
+import { createSignal, onCleanup, onMount, Show } from "solid-js";
+import { Button } from "@/components/Button";
+import { MapPinIcon } from "@/components/icons/MapPinIcon";
+import { ShortTextInput } from "@/components/inputs/ShortTextInput";
+import { SendButton } from "@/components/SendButton";
+import type { CommandData } from "@/features/commands/types";
+import type { InputSubmitContent } from "@/types";
+
+type Props = {
+  block: LocationInputBlock;
+  defaultValue?: string;
+  onSubmit: (value: InputSubmitContent) => void;
+};
+
+export const LocationInput = (props: Props) => {
+  const [inputValue, setInputValue] = createSignal(props.defaultValue ?? "");
+  const [location, setLocation] = createSignal<SharedLocation>();
+  const [isLocating, setIsLocating] = createSignal(false);
+  const [isGeolocationUnavailable, setIsGeolocationUnavailable] = createSignal(
+    !("geolocation" in navigator),
+  );
+  let inputRef: HTMLInputElement | undefined;
+
+  const shareCurrentLocation = () => {
+    setIsLocating(true);
+    navigator.geolocation.getCurrentPosition(
+      ({ coords }) => {
+        setIsLocating(false);
+        setLocation({
+          latitude: roundCoordinate(coords.latitude),
+          longitude: roundCoordinate(coords.longitude),
+        });
+      },
+      () => {
+        // Permission denied or position unavailable, the user can still type an address
+        setIsLocating(false);
+        setIsGeolocationUnavailable(true);
+        inputRef?.focus();
+      },
+      { enableHighAccuracy: true, timeout: 10000 },
+    );
+  };
+
+  const submit = () => {
+    const sharedLocation = location();
+    if (sharedLocation) {
+      return props.onSubmit({
+        type: "text",
+        value: formatCoordinates(sharedLocation),
+        metadata: { location: sharedLocation },
+      });
+    }
+    if (isEmpty(inputValue())) return inputRef?.focus();
+    props.onSubmit({ type: "text", value: inputValue() });
+  };
+
+  const submitWhenEnter = (e: KeyboardEvent) => {
+    if (e.key === "Enter") submit();
+  };
+
+  onMount(() => {
+    if (!guessDeviceIsMobile() && inputRef && isGeolocationUnavailable())
+      inputRef.focus({ preventScroll: true });
+    window.addEventListener("message", processIncomingEvent);
+  });
+
+  onCleanup(() => {
+    window.removeEventListener("message", processIncomingEvent);
+  });
+
+  const processIncomingEvent = (event: MessageEvent<CommandData>) => {
+    const { data } = event;
+    if (!data.isFromTypebot) return;
+    if (data.command === "setInputValue") setInputValue(data.value);
+    if (data.command === "submitInput") submit();
+  };
+
+  return (
+    <div class="flex flex-col w-full gap-2 items-end max-w-[350px]">
+      <Show
+        when={location()}
+        fallback={
+          <Show when={!isGeolocationUnavailable()}>
+            <Button
+              variant="secondary"
+              class="w-full items-center gap-2"
+              isLoading={isLocating()}
+              on:click={shareCurrentLocation}
+            >
+              <MapPinIcon class="w-4 h-4" />
+              {props.block.options?.labels?.shareButton ??
+                defaultLocationInputOptions.labels.shareButton}
+            </Button>
+          </Show>
+        }
+      >
+        {(location) => (
+          <div class="flex typebot-input w-full items-center gap-2 px-4 h-[56px]">
+            <MapPinIcon class="w-4 h-4 flex-shrink-0" />
+            <span class="truncate">{formatCoordinates(location())}</span>
+          </div>
+        )}
+      </Show>
+      <div
+        class="typebot-input-form flex w-full gap-2 items-end"
+        onKeyDown={submitWhenEnter}
+      >
+        <Show when={!location()}>
+          <div class={"flex typebot-input w-full"}>
+            <ShortTextInput
+              ref={inputRef as HTMLInputElement}
+              value={inputValue()}
+              placeholder={
+                props.block.options?.labels?.placeholder ??
+                defaultLocationInputOptions.labels.placeholder
+              }
+              onInput={setInputValue}
+              autocomplete="street-address"
+            />
+          </div>
+        </Show>
+        <SendButton
+          type="button"
+          class={location() ? "w-full h-[56px]" : "h-[56px]"}
+          on:click={submit}
+        >
+          {props.block.options?.labels?.button ??
+            defaultLocationInputOptions.labels.button}
+        </SendButton>
+      </div>
+    </div>
+  );
+};
+
+const roundCoordinate = (value: number) => Math.round(value * 1e6) / 1e6;
+
+const formatCoordinates = ({ latitude, longitude }: SharedLocation) =>
+  `${latitude}, ${longitude}`;
@@ -0,0 +1,44 @@
+import type { LogInSession } from "@typebot.io/logs/schemas";
+import PartySocket from "partysocket";
+import type { ClientSideActionContext } from "@/types";
+import { getPartyKitHost } from "@/utils/getPartyKitHost";
+
+type Props = {
+  resultId?: string;
+  context: ClientSideActionContext;
+};
+
+// Only the listener of the latest chat chunk should resume the flow
+let currentSocket: PartySocket | undefined;
+
+export const listenForAgent = ({ resultId, context }: Props) => {
+  currentSocket?.close();
+  currentSocket = undefined;
+  if (!resultId) return;
+  const ws = new PartySocket({
+    host: getPartyKitHost(context.wsHost),
+    room: `${resultId}/handoff`,
+  });
+  currentSocket = ws;
+  return new Promise<
+    { replyToSend: string | undefined } | { logs: LogInSession[] }
+  >((resolve) => {
+    ws.addEventListener("message", () => {
+      ws.close();
+      currentSocket = undefined;
+      resolve({ replyToSend: undefined });
+    });
+
+    ws.addEventListener("error", (error) => {
+      resolve({
+        logs: [
+          {
+            status: "error",
+            description: "Websocket returned an error",
+            details: JSON.stringify(error, null, 2),
+          },
+        ],
+      });
+    });
+  });
+};
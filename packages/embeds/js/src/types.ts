@@ -1,5 +1,7 @@
 import type {
   ContinueChatResponse,
+  SharedContact,
+  SharedLocation,
   StartChatResponse,
 } from "@typebot.io/chat-api/schemas";
 
@@ -45,6 +47,8 @@ export type TextInputSubmitContent = {
   label?: string;
   metadata?: {
     replyId?: string;
+    location?: SharedLocation;
+    contact?: SharedContact;
   };
   attachments?: Attachment[];
 };
@@ -5,6 +5,7 @@ import { executeGoogleAnalyticsBlock } from "@/features/blocks/integrations/goog
 import { executeHttpRequest } from "@/features/blocks/integrations/httpRequest/executeHttpRequest";
 import { streamChat } from "@/features/blocks/integrations/openai/streamChat";
 import { executePixel } from "@/features/blocks/integrations/pixel/executePixel";
+import { listenForAgent } from "@/features/blocks/logic/handoff/listenForAgent";
 import { executeRedirect } from "@/features/blocks/logic/redirect/utils/executeRedirect";
 import {
   executeCode,
@@ -111,4 +112,10 @@ export const executeClientSideAction = async ({
       context,
     });
   }
+  if (clientSideAction.type === "listenForAgent") {
+    return listenForAgent({
+      resultId: context.resultId,
+      context,
+    });
+  }
 };
@@ -3,4 +3,11 @@ export enum EventType {
   COMMAND = "command",
   REPLY = "reply",
   INVALID_REPLY = "invalidReply",
+  INACTIVITY = "inactivity",
 }
+
+export const defaultInactivityEventOptions = {
+  timeout: 60,
+} as const;
+
+export const maxInactivityEventTimeout = 24 * 60 * 60;
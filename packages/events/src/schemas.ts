@@ -1,5 +1,5 @@
 import { z } from "@typebot.io/zod";
-import { EventType } from "./constants";
+import { EventType, maxInactivityEventTimeout } from "./constants";
 
 const eventBaseSchema = z.object({
   id: z.string(),
@@ -45,10 +45,28 @@ export const invalidReplyEventSchema = eventBaseSchema.extend({
 });
 export type InvalidReplyEvent = z.infer<typeof invalidReplyEventSchema>;
 
+export const inactivityEventSchema = eventBaseSchema.extend({
+  type: z.literal(EventType.INACTIVITY),
+  options: z
+    .object({
+      timeout: z
+        .number()
+        .min(1)
+        .max(maxInactivityEventTimeout)
+        .optional()
+        .describe(
+          "Number of seconds without an answer to the current input before the event is triggered",
+        ),
+    })
+    .optional(),
+});
+export type InactivityEvent = z.infer<typeof inactivityEventSchema>;
+
 const draggableEventSchemas = [
   commandEventSchema,
   replyEventSchema,
   invalidReplyEventSchema,
+  inactivityEventSchema,
 ] as const;
 
 export const eventSchema = z.discriminatedUnion("type", [
@@ -2,8 +2,14 @@ import { channel, type Realtime, topic } from "@inngest/realtime";
 import { sendResultsExportLinkEmail } from "@typebot.io/emails/transactional/ResultsExportLinkEmail";
 import { uploadFileToBucket } from "@typebot.io/lib/s3/uploadFileToBucket";
 import prisma from "@typebot.io/prisma";
+import {
+  defaultResultsExportFormat,
+  resultsExportFormats,
+  resultsExportMimeTypes,
+} from "@typebot.io/results/constants";
 import { getExportFileName } from "@typebot.io/results/getExportFileName";
-import { streamAllResultsToCsv } from "@typebot.io/results/streamAllResultsToCsv";
+import { streamAllResultsToFile } from "@typebot.io/results/streamAllResultsToFile";
+import { resultsFilterSchema } from "@typebot.io/typebot/schemas/resultsFilter";
 import { z } from "@typebot.io/zod";
 import { NonRetriableError } from "inngest";
 import { PassThrough } from "stream";
@@ -36,6 +42,8 @@ export const SEND_EMAIL_REQUESTED_EVENT_NAME =
 export const exportResultsEventDataSchema = z.object({
   userId: z.string(),
   typebotId: z.string(),
+  format: z.enum(resultsExportFormats).optional(),
+  filter: resultsFilterSchema.optional(),
 });
 
 const cancelEventConfig = {
@@ -54,11 +62,15 @@ export const exportResults = inngest.createFunction(
     step,
     publish,
   }: {
-    event: { data: { userId: string; typebotId: string } };
+    event: { data: z.infer<typeof exportResultsEventDataSchema> };
     step: Parameters<Parameters<typeof inngest.createFunction>[2]>[0]["step"];
     publish: Realtime.PublishFn;
   }) => {
-    const { typebotId } = exportResultsEventDataSchema.parse(event.data);
+    const {
+      typebotId,
+      format = defaultResultsExportFormat,
+      filter,
+    } = exportResultsEventDataSchema.parse(event.data);
 
     const typebot = await step.run("get-typebot", async () => {
       const typebot = await prisma.typebot.findUnique({
@@ -86,11 +98,14 @@ export const exportResults = inngest.createFunction(
     const { fileUrl, fileName } = await step.run(
       "stream-results-to-bucket",
       async () => {
-        const fileName = getExportFileName({
-          id: typebotId,
-          name: typebot.name,
-          publicId: typebot.publicId,
-        });
+        const fileName = getExportFileName(
+          {
+            id: typebotId,
+            name: typebot.name,
+            publicId: typebot.publicId,
+          },
+          format,
+        );
 
         const passThrough = new PassThrough();
 
@@ -98,11 +113,13 @@ export const exportResults = inngest.createFunction(
           visibility: "private",
           key: `tmp/workspaces/${typebot.workspaceId}/typebots/${typebotId}/results-exports/${fileName}`,
           file: passThrough,
-          mimeType: "text/csv",
+          mimeType: resultsExportMimeTypes[format],
         });
 
-        const streamPromise = streamAllResultsToCsv(typebotId, {
+        const streamPromise = streamAllResultsToFile(typebotId, {
           writableStream: passThrough,
+          format,
+          filter,
           onProgressUpdate: async (progress) => {
             await publish(
               userChannel(event.data.userId).jobStatus({
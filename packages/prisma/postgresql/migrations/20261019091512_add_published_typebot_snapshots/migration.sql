@@ -0,0 +1,35 @@
+-- AlterTable
+ALTER TABLE "PublicTypebot" ADD COLUMN     "snapshotId" TEXT;
+
+-- AlterTable
+ALTER TABLE "Result" ADD COLUMN     "publishedSnapshotId" TEXT;
+
+-- CreateTable
+CREATE TABLE "PublishedTypebotSnapshot" (
+    "id" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "typebotId" TEXT NOT NULL,
+    "authorId" TEXT,
+    "restoredFromId" TEXT,
+    "version" TEXT,
+    "groups" JSONB NOT NULL,
+    "events" JSONB,
+    "variables" JSONB NOT NULL,
+    "edges" JSONB NOT NULL,
+    "theme" JSONB NOT NULL,
+    "settings" JSONB NOT NULL,
+
+    CONSTRAINT "PublishedTypebotSnapshot_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "PublishedTypebotSnapshot_typebotId_createdAt_idx" ON "PublishedTypebotSnapshot"("typebotId", "createdAt" DESC);
+
+-- AddForeignKey
+ALTER TABLE "PublishedTypebotSnapshot" ADD CONSTRAINT "PublishedTypebotSnapshot_typebotId_fkey" FOREIGN KEY ("typebotId") REFERENCES "Typebot"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PublishedTypebotSnapshot" ADD CONSTRAINT "PublishedTypebotSnapshot_authorId_fkey" FOREIGN KEY ("authorId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Result" ADD CONSTRAINT "Result_publishedSnapshotId_fkey" FOREIGN KEY ("publishedSnapshotId") REFERENCES "PublishedTypebotSnapshot"("id") ON DELETE SET NULL ON UPDATE CASCADE;
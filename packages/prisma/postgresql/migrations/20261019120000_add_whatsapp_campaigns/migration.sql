@@ -0,0 +1,60 @@
+-- CreateEnum
+CREATE TYPE "WhatsAppCampaignStatus" AS ENUM ('PENDING', 'RUNNING', 'COMPLETED', 'FAILED');
+
+-- CreateEnum
+CREATE TYPE "WhatsAppCampaignRecipientStatus" AS ENUM ('PENDING', 'SENT', 'FAILED');
+
+-- AlterTable
+ALTER TABLE "Result" ADD COLUMN     "campaignId" TEXT;
+
+-- CreateTable
+CREATE TABLE "WhatsAppCampaign" (
+    "id" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "name" TEXT NOT NULL,
+    "typebotId" TEXT NOT NULL,
+    "template" JSONB NOT NULL,
+    "status" "WhatsAppCampaignStatus" NOT NULL DEFAULT 'PENDING',
+
+    CONSTRAINT "WhatsAppCampaign_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "WhatsAppCampaignRecipient" (
+    "id" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "campaignId" TEXT NOT NULL,
+    "phoneNumber" TEXT NOT NULL,
+    "prefilledVariables" JSONB,
+    "status" "WhatsAppCampaignRecipientStatus" NOT NULL DEFAULT 'PENDING',
+    "error" TEXT,
+    "messageId" TEXT,
+    "sessionId" TEXT,
+    "resultId" TEXT,
+    "sentAt" TIMESTAMP(3),
+
+    CONSTRAINT "WhatsAppCampaignRecipient_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "WhatsAppCampaign_typebotId_createdAt_idx" ON "WhatsAppCampaign"("typebotId", "createdAt" DESC);
+
+-- CreateIndex
+CREATE INDEX "WhatsAppCampaignRecipient_campaignId_status_idx" ON "WhatsAppCampaignRecipient"("campaignId", "status");
+
+-- CreateIndex
+CREATE INDEX "WhatsAppCampaignRecipient_messageId_idx" ON "WhatsAppCampaignRecipient"("messageId");
+
+-- CreateIndex
+CREATE INDEX "Result_campaignId_idx" ON "Result"("campaignId");
+
+-- AddForeignKey
+ALTER TABLE "Result" ADD CONSTRAINT "Result_campaignId_fkey" FOREIGN KEY ("campaignId") REFERENCES "WhatsAppCampaign"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "WhatsAppCampaign" ADD CONSTRAINT "WhatsAppCampaign_typebotId_fkey" FOREIGN KEY ("typebotId") REFERENCES "Typebot"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "WhatsAppCampaignRecipient" ADD CONSTRAINT "WhatsAppCampaignRecipient_campaignId_fkey" FOREIGN KEY ("campaignId") REFERENCES "WhatsAppCampaign"("id") ON DELETE CASCADE ON UPDATE CASCADE;
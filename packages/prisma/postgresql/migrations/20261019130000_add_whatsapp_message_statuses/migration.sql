@@ -0,0 +1,26 @@
+-- CreateEnum
+CREATE TYPE "WhatsAppMessageStatus" AS ENUM ('SENT', 'DELIVERED', 'READ', 'FAILED');
+
+-- CreateTable
+CREATE TABLE "WhatsAppMessage" (
+    "id" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "typebotId" TEXT NOT NULL,
+    "resultId" TEXT NOT NULL,
+    "blockId" TEXT,
+    "status" "WhatsAppMessageStatus" NOT NULL DEFAULT 'SENT',
+    "errorCode" INTEGER,
+    "errorMessage" TEXT,
+
+    CONSTRAINT "WhatsAppMessage_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "WhatsAppMessage_typebotId_createdAt_idx" ON "WhatsAppMessage"("typebotId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "WhatsAppMessage_resultId_idx" ON "WhatsAppMessage"("resultId");
+
+-- AddForeignKey
+ALTER TABLE "WhatsAppMessage" ADD CONSTRAINT "WhatsAppMessage_typebotId_fkey" FOREIGN KEY ("typebotId") REFERENCES "Typebot"("id") ON DELETE CASCADE ON UPDATE CASCADE;
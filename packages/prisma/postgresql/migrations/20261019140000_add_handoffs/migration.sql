@@ -0,0 +1,52 @@
+-- CreateEnum
+CREATE TYPE "HandoffStatus" AS ENUM ('WAITING', 'ACTIVE', 'CLOSED');
+
+-- CreateEnum
+CREATE TYPE "HandoffMessageRole" AS ENUM ('USER', 'AGENT');
+
+-- CreateTable
+CREATE TABLE "Handoff" (
+    "id" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "typebotId" TEXT NOT NULL,
+    "resultId" TEXT NOT NULL,
+    "blockId" TEXT NOT NULL,
+    "status" "HandoffStatus" NOT NULL DEFAULT 'WAITING',
+    "assignedUserId" TEXT,
+    "handBackGroupId" TEXT,
+    "closedAt" TIMESTAMP(3),
+
+    CONSTRAINT "Handoff_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "HandoffMessage" (
+    "id" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "handoffId" TEXT NOT NULL,
+    "role" "HandoffMessageRole" NOT NULL,
+    "content" TEXT NOT NULL,
+    "authorId" TEXT,
+    "deliveredAt" TIMESTAMP(3),
+
+    CONSTRAINT "HandoffMessage_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Handoff_typebotId_status_idx" ON "Handoff"("typebotId", "status");
+
+-- CreateIndex
+CREATE INDEX "Handoff_resultId_idx" ON "Handoff"("resultId");
+
+-- CreateIndex
+CREATE INDEX "HandoffMessage_handoffId_createdAt_idx" ON "HandoffMessage"("handoffId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "Handoff" ADD CONSTRAINT "Handoff_typebotId_fkey" FOREIGN KEY ("typebotId") REFERENCES "Typebot"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Handoff" ADD CONSTRAINT "Handoff_assignedUserId_fkey" FOREIGN KEY ("assignedUserId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "HandoffMessage" ADD CONSTRAINT "HandoffMessage_handoffId_fkey" FOREIGN KEY ("handoffId") REFERENCES "Handoff"("id") ON DELETE CASCADE ON UPDATE CASCADE;
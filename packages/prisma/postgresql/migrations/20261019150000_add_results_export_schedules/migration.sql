@@ -0,0 +1,50 @@
+-- CreateEnum
+CREATE TYPE "ResultsExportRunStatus" AS ENUM ('PENDING', 'RUNNING', 'SUCCEEDED', 'FAILED');
+
+-- CreateTable
+CREATE TABLE "ResultsExportSchedule" (
+    "id" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "typebotId" TEXT NOT NULL,
+    "isEnabled" BOOLEAN NOT NULL DEFAULT true,
+    "cronExpression" TEXT NOT NULL,
+    "timeZone" TEXT,
+    "format" TEXT NOT NULL,
+    "isIncremental" BOOLEAN NOT NULL DEFAULT false,
+    "destination" JSONB NOT NULL,
+    "nextRunAt" TIMESTAMP(3),
+    "lastExportedUntil" TIMESTAMP(3),
+
+    CONSTRAINT "ResultsExportSchedule_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ResultsExportRun" (
+    "id" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "scheduleId" TEXT NOT NULL,
+    "scheduledAt" TIMESTAMP(3) NOT NULL,
+    "status" "ResultsExportRunStatus" NOT NULL DEFAULT 'PENDING',
+    "totalRowsExported" INTEGER,
+    "fileUrl" TEXT,
+    "error" TEXT,
+    "finishedAt" TIMESTAMP(3),
+
+    CONSTRAINT "ResultsExportRun_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ResultsExportSchedule_typebotId_idx" ON "ResultsExportSchedule"("typebotId");
+
+-- CreateIndex
+CREATE INDEX "ResultsExportSchedule_isEnabled_nextRunAt_idx" ON "ResultsExportSchedule"("isEnabled", "nextRunAt");
+
+-- CreateIndex
+CREATE INDEX "ResultsExportRun_scheduleId_createdAt_idx" ON "ResultsExportRun"("scheduleId", "createdAt" DESC);
+
+-- AddForeignKey
+ALTER TABLE "ResultsExportSchedule" ADD CONSTRAINT "ResultsExportSchedule_typebotId_fkey" FOREIGN KEY ("typebotId") REFERENCES "Typebot"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ResultsExportRun" ADD CONSTRAINT "ResultsExportRun_scheduleId_fkey" FOREIGN KEY ("scheduleId") REFERENCES "ResultsExportSchedule"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,56 @@
+-- CreateEnum
+CREATE TYPE "ResultWebhookEvent" AS ENUM ('RESULT_CREATED', 'ANSWER_ADDED', 'RESULT_COMPLETED', 'RESULT_ABANDONED');
+
+-- CreateEnum
+CREATE TYPE "ResultWebhookDeliveryStatus" AS ENUM ('PENDING', 'SUCCEEDED', 'FAILED');
+
+-- CreateTable
+CREATE TABLE "ResultWebhook" (
+    "id" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "workspaceId" TEXT NOT NULL,
+    "typebotId" TEXT,
+    "isEnabled" BOOLEAN NOT NULL DEFAULT true,
+    "url" TEXT NOT NULL,
+    "secret" TEXT NOT NULL,
+    "events" JSONB NOT NULL,
+    "abandonmentTimeout" INTEGER,
+
+    CONSTRAINT "ResultWebhook_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ResultWebhookDelivery" (
+    "id" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "webhookId" TEXT NOT NULL,
+    "resultId" TEXT NOT NULL,
+    "event" "ResultWebhookEvent" NOT NULL,
+    "status" "ResultWebhookDeliveryStatus" NOT NULL DEFAULT 'PENDING',
+    "payload" JSONB NOT NULL,
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "responseStatus" INTEGER,
+    "error" TEXT,
+    "lastAttemptAt" TIMESTAMP(3),
+
+    CONSTRAINT "ResultWebhookDelivery_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ResultWebhook_workspaceId_isEnabled_idx" ON "ResultWebhook"("workspaceId", "isEnabled");
+
+-- CreateIndex
+CREATE INDEX "ResultWebhook_typebotId_idx" ON "ResultWebhook"("typebotId");
+
+-- CreateIndex
+CREATE INDEX "ResultWebhookDelivery_webhookId_createdAt_idx" ON "ResultWebhookDelivery"("webhookId", "createdAt" DESC);
+
+-- AddForeignKey
+ALTER TABLE "ResultWebhook" ADD CONSTRAINT "ResultWebhook_workspaceId_fkey" FOREIGN KEY ("workspaceId") REFERENCES "Workspace"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ResultWebhook" ADD CONSTRAINT "ResultWebhook_typebotId_fkey" FOREIGN KEY ("typebotId") REFERENCES "Typebot"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ResultWebhookDelivery" ADD CONSTRAINT "ResultWebhookDelivery_webhookId_fkey" FOREIGN KEY ("webhookId") REFERENCES "ResultWebhook"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,10 @@
+-- CreateEnum
+CREATE TYPE "ResultStatus" AS ENUM ('NEW', 'IN_PROGRESS', 'DONE');
+
+-- AlterTable
+ALTER TABLE "Result" ADD COLUMN     "notes" TEXT,
+ADD COLUMN     "status" "ResultStatus" NOT NULL DEFAULT 'NEW',
+ADD COLUMN     "tags" JSONB;
+
+-- CreateIndex
+CREATE INDEX "Result_typebotId_status_idx" ON "Result"("typebotId", "status");
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Typebot" ADD COLUMN     "emailWebhookSecretRotatedAt" TIMESTAMP(3);
@@ -2,8 +2,17 @@ import {
   ChatProvider,
   CollaborationType,
   GraphNavigation,
+  HandoffMessageRole,
+  HandoffStatus,
   Plan,
   Prisma,
+  ResultStatus,
+  ResultsExportRunStatus,
+  ResultWebhookDeliveryStatus,
+  ResultWebhookEvent,
+  WhatsAppCampaignRecipientStatus,
+  WhatsAppCampaignStatus,
+  WhatsAppMessageStatus,
   WorkspaceRole,
 } from "@prisma/client";
 
@@ -21,4 +30,13 @@ export {
   DbNull,
   PrismaClientKnownRequestError,
   ChatProvider,
+  WhatsAppCampaignStatus,
+  WhatsAppMessageStatus,
+  WhatsAppCampaignRecipientStatus,
+  HandoffStatus,
+  HandoffMessageRole,
+  ResultsExportRunStatus,
+  ResultWebhookEvent,
+  ResultWebhookDeliveryStatus,
+  ResultStatus,
 };
@@ -0,0 +1,52 @@
+import type { ResultStatus } from "@typebot.io/prisma/enum";
+
+export const resultsExportFormats = [
+  "csv",
+  "xlsx",
+  "jsonl",
+  "parquet",
+] as const;
+
+export type ResultsExportFormat = (typeof resultsExportFormats)[number];
+
+export const defaultResultsExportFormat = "csv" satisfies ResultsExportFormat;
+
+export const resultsExportMimeTypes = {
+  csv: "text/csv",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  jsonl: "application/jsonl",
+  parquet: "application/vnd.apache.parquet",
+} as const satisfies Record<ResultsExportFormat, string>;
+
+export const defaultResultsExportScheduleTimeZone = "UTC";
+
+export const MAX_RESULTS_EXPORT_RUNS_PER_SCHEDULE = 10;
+
+export const RESULTS_EXPORT_RUNS_RETENTION_DAYS = 90;
+
+export const RESULT_WEBHOOK_SIGNATURE_HEADER = "x-typebot-signature";
+
+export const RESULT_WEBHOOK_REQUEST_TIMEOUT_MS = 10000;
+
+// Delays before each retry: 30s, 2min, 8min, 32min, ~2h
+export const RESULT_WEBHOOK_RETRY_DELAYS_SECONDS = [
+  30, 120, 480, 1920, 7680,
+] as const;
+
+export const RESULT_WEBHOOK_DELIVERIES_RETENTION_DAYS = 30;
+
+export const MAX_RESULT_WEBHOOKS_PER_WORKSPACE = 20;
+
+export const defaultResultWebhookAbandonmentTimeout = 30;
+
+export const resultStatusLabels = {
+  NEW: "New",
+  IN_PROGRESS: "In progress",
+  DONE: "Done",
+} as const satisfies Record<ResultStatus, string>;
+
+export const MAX_RESULT_TAGS = 20;
+
+export const MAX_RESULT_TAG_LENGTH = 50;
+
+export const MAX_RESULT_NOTES_LENGTH = 10000;
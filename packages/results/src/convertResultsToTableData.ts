@@ -2,6 +2,7 @@ import { InputBlockType } from "@typebot.io/blocks-inputs/constants";
 import { isDefined } from "@typebot.io/lib/utils";
 import type { VariableWithValue } from "@typebot.io/variables/schemas";
 import type { JSX } from "react";
+import { resultStatusLabels } from "./constants";
 import type { Answer } from "./schemas/answers";
 import type {
   ResultHeaderCell,
@@ -43,6 +44,9 @@ export const convertResultsToTableData = ({
     date: {
       plainText: convertDateToReadable(result.createdAt),
     },
+    status: { plainText: resultStatusLabels[result.status] },
+    tags: { plainText: (result.tags ?? []).join(", ") },
+    notes: { plainText: result.notes ?? "" },
     ...[...result.answers, ...result.variables].reduce<{
       [key: string]: { element?: JSX.Element; plainText: string };
     }>((tableData, answerOrVariable) => {
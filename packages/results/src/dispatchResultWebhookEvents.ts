@@ -0,0 +1,31 @@
+import { WorkflowsAppConfig } from "@typebot.io/config";
+import type { ResultWebhookEvent } from "@typebot.io/prisma/enum";
+import { Effect } from "effect";
+import { ResultsWorkflowsRpcClient } from "./workflows/rpc";
+
+type Props = {
+  resultId: string;
+  events: ResultWebhookEvent[];
+};
+
+/**
+ * Enqueues the events in the workflows app that finds the matching webhooks
+ * and delivers them with retries. Never fails so that a chat is not
+ * interrupted by a webhook issue.
+ */
+export const dispatchResultWebhookEvents = ({ resultId, events }: Props) =>
+  Effect.gen(function* () {
+    if (events.length === 0) return;
+    const triggeredAt = Date.now();
+    const client = yield* ResultsWorkflowsRpcClient;
+    yield* Effect.forEach(events, (event) =>
+      client.DispatchResultWebhookEvent({ resultId, event, triggeredAt }),
+    );
+  }).pipe(
+    Effect.scoped,
+    Effect.provide(ResultsWorkflowsRpcClient.Default),
+    Effect.provide(WorkflowsAppConfig.layer),
+    Effect.tapError((error) => Effect.logError(error)),
+    Effect.ignore,
+    Effect.runPromise,
+  );
@@ -0,0 +1,165 @@
+import { describe, expect, it } from "bun:test";
+import {
+  ComparisonOperators,
+  LogicalOperator,
+} from "@typebot.io/conditions/constants";
+import {
+  isResultMatchingFilter,
+  parseResultsFilterWhereInput,
+} from "./filterResults";
+
+const result = {
+  answers: [
+    { blockId: "email", content: "John@Acme.com", createdAt: new Date() },
+    { blockId: "rating", content: "2", createdAt: new Date() },
+  ],
+};
+
+const cells = {
+  date: "2026-10-19T10:00:00.000Z",
+  email: "John@Acme.com",
+  rating: "2",
+};
+
+describe("isResultMatchingFilter", () => {
+  it("should search answers case insensitively", () => {
+    expect(
+      isResultMatchingFilter({ result, cells, filter: { search: "acme" } }),
+    ).toBe(true);
+    expect(
+      isResultMatchingFilter({ result, cells, filter: { search: "globex" } }),
+    ).toBe(false);
+  });
+
+  it("should match every comparison by default", () => {
+    const filter = {
+      comparisons: [
+        {
+          id: "1",
+          columnId: "email",
+          comparisonOperator: ComparisonOperators.CONTAINS,
+          value: "@acme.com",
+        },
+        {
+          id: "2",
+          columnId: "rating",
+          comparisonOperator: ComparisonOperators.LESS,
+          value: "3",
+        },
+      ],
+    };
+    expect(isResultMatchingFilter({ result, cells, filter })).toBe(true);
+    expect(
+      isResultMatchingFilter({
+        result,
+        cells: { ...cells, rating: "4" },
+        filter,
+      }),
+    ).toBe(false);
+    expect(
+      isResultMatchingFilter({
+        result,
+        cells: { ...cells, rating: "4" },
+        filter: { ...filter, logicalOperator: LogicalOperator.OR },
+      }),
+    ).toBe(true);
+  });
+
+  it("should compare dates", () => {
+    const comparison = {
+      id: "1",
+      columnId: "date",
+      comparisonOperator: ComparisonOperators.GREATER_OR_EQUAL,
+      value: "2026-10-01",
+    };
+    expect(
+      isResultMatchingFilter({
+        result,
+        cells,
+        filter: { comparisons: [comparison] },
+      }),
+    ).toBe(true);
+    expect(
+      isResultMatchingFilter({
+        result,
+        cells,
+        filter: { comparisons: [{ ...comparison, value: "2026-11-01" }] },
+      }),
+    ).toBe(false);
+  });
+
+  it("should handle empty and missing columns", () => {
+    expect(
+      isResultMatchingFilter({
+        result,
+        cells,
+        filter: {
+          comparisons: [
+            {
+              id: "1",
+              columnId: "name",
+              comparisonOperator: ComparisonOperators.IS_EMPTY,
+            },
+            {
+              id: "2",
+              columnId: "email",
+              comparisonOperator: ComparisonOperators.IS_SET,
+            },
+          ],
+        },
+      }),
+    ).toBe(true);
+  });
+
+  it("should ignore incomplete comparisons", () => {
+    expect(
+      isResultMatchingFilter({
+        result,
+        cells,
+        filter: { comparisons: [{ id: "1", columnId: "email" }] },
+      }),
+    ).toBe(true);
+  });
+
+  it("should match regexes", () => {
+    expect(
+      isResultMatchingFilter({
+        result,
+        cells,
+        filter: {
+          comparisons: [
+            {
+              id: "1",
+              columnId: "email",
+              comparisonOperator: ComparisonOperators.MATCHES_REGEX,
+              value: "/^john@/i",
+            },
+          ],
+        },
+      }),
+    ).toBe(true);
+  });
+});
+
+describe("parseResultsFilterWhereInput", () => {
+  it("should combine completion, status and tags", () => {
+    expect(
+      parseResultsFilterWhereInput({
+        status: "completed",
+        resultStatus: "IN_PROGRESS",
+        tags: ["lead", "vip"],
+      }),
+    ).toEqual({
+      isCompleted: true,
+      status: "IN_PROGRESS",
+      tags: { array_contains: ["lead", "vip"] },
+    });
+  });
+
+  it("should ignore an empty tags list", () => {
+    expect(parseResultsFilterWhereInput({ tags: [] })).toEqual({
+      status: undefined,
+      tags: undefined,
+    });
+  });
+});
@@ -0,0 +1,175 @@
+import {
+  ComparisonOperators,
+  LogicalOperator,
+} from "@typebot.io/conditions/constants";
+import type { Prisma } from "@typebot.io/prisma/types";
+import type {
+  ResultsFilter,
+  ResultsFilterComparison,
+} from "@typebot.io/typebot/schemas/resultsFilter";
+import { convertResultsToTableData } from "./convertResultsToTableData";
+import type { ResultHeaderCell, ResultWithAnswers } from "./schemas/results";
+
+/**
+ * Parts of the filter that can be resolved by the database. Answer search and
+ * column comparisons are applied afterwards with `filterResults` because
+ * answers and variables are not queryable the same way across providers.
+ */
+export const parseResultsFilterWhereInput = (
+  filter: ResultsFilter | undefined,
+): Prisma.Prisma.ResultWhereInput => ({
+  ...parseCompletionWhereInput(filter?.status),
+  status: filter?.resultStatus,
+  tags: filter?.tags?.length ? { array_contains: filter.tags } : undefined,
+});
+
+const parseCompletionWhereInput = (
+  status: ResultsFilter["status"],
+): Prisma.Prisma.ResultWhereInput => {
+  switch (status) {
+    case "completed":
+      return { isCompleted: true };
+    case "uncompleted":
+      return { isCompleted: false };
+    case undefined:
+      return {};
+  }
+};
+
+export const isResultsFilterInMemory = (
+  filter: ResultsFilter | undefined,
+): filter is ResultsFilter =>
+  Boolean(filter?.search?.trim()) ||
+  (filter?.comparisons ?? []).some(isComparisonComplete);
+
+export const filterResults = <T extends ResultWithAnswers>({
+  results,
+  filter,
+  headerCells,
+  blockIdVariableIdMap,
+}: {
+  results: T[];
+  filter: ResultsFilter | undefined;
+  headerCells: ResultHeaderCell[];
+  blockIdVariableIdMap: Record<string, string>;
+}): T[] => {
+  if (!isResultsFilterInMemory(filter)) return results;
+  const tableData = convertResultsToTableData({
+    results,
+    headerCells,
+    blockIdVariableIdMap,
+  });
+  return results.filter((result, index) =>
+    isResultMatchingFilter({
+      result,
+      cells: Object.fromEntries(
+        Object.entries(tableData[index]).map(([columnId, cell]) => [
+          columnId,
+          // Readable dates can't be compared, the raw date is used instead
+          columnId === "date" ? result.createdAt.toISOString() : cell.plainText,
+        ]),
+      ),
+      filter,
+    }),
+  );
+};
+
+export const isResultMatchingFilter = ({
+  result,
+  cells,
+  filter,
+}: {
+  result: Pick<ResultWithAnswers, "answers">;
+  cells: Record<string, string | undefined>;
+  filter: ResultsFilter;
+}) => {
+  const search = normalize(filter.search ?? "");
+  if (
+    search &&
+    !result.answers.some((answer) => normalize(answer.content).includes(search))
+  )
+    return false;
+  const comparisons = (filter.comparisons ?? []).filter(isComparisonComplete);
+  if (comparisons.length === 0) return true;
+  const isMatchingComparison = (comparison: ResultsFilterComparison) =>
+    executeComparison(cells[comparison.columnId!], comparison);
+  return filter.logicalOperator === LogicalOperator.OR
+    ? comparisons.some(isMatchingComparison)
+    : comparisons.every(isMatchingComparison);
+};
+
+const isComparisonComplete = (comparison: ResultsFilterComparison) =>
+  Boolean(comparison.columnId && comparison.comparisonOperator);
+
+const executeComparison = (
+  cellValue: string | undefined,
+  { comparisonOperator, value = "" }: ResultsFilterComparison,
+): boolean => {
+  const input = normalize(cellValue ?? "");
+  const expected = normalize(value);
+  switch (comparisonOperator) {
+    case ComparisonOperators.IS_SET:
+      return input.length > 0;
+    case ComparisonOperators.IS_EMPTY:
+      return input.length === 0;
+    case ComparisonOperators.EQUAL:
+      return input === expected;
+    case ComparisonOperators.NOT_EQUAL:
+      return input !== expected;
+    case ComparisonOperators.CONTAINS:
+      return input.length > 0 && input.includes(expected);
+    case ComparisonOperators.NOT_CONTAINS:
+      return !input.includes(expected);
+    case ComparisonOperators.STARTS_WITH:
+      return input.length > 0 && input.startsWith(expected);
+    case ComparisonOperators.ENDS_WITH:
+      return input.length > 0 && input.endsWith(expected);
+    case ComparisonOperators.GREATER:
+      return compareOrderedValues(cellValue, value, (a, b) => a > b);
+    case ComparisonOperators.GREATER_OR_EQUAL:
+      return compareOrderedValues(cellValue, value, (a, b) => a >= b);
+    case ComparisonOperators.LESS:
+      return compareOrderedValues(cellValue, value, (a, b) => a < b);
+    case ComparisonOperators.LESS_OR_EQUAL:
+      return compareOrderedValues(cellValue, value, (a, b) => a <= b);
+    case ComparisonOperators.MATCHES_REGEX:
+      return testRegex(cellValue, value) === true;
+    case ComparisonOperators.NOT_MATCH_REGEX:
+      return testRegex(cellValue, value) === false;
+    case undefined:
+      return true;
+  }
+};
+
+const normalize = (value: string) => value.normalize().trim().toLowerCase();
+
+const compareOrderedValues = (
+  a: string | undefined,
+  b: string,
+  compare: (a: number, b: number) => boolean,
+) => {
+  if (!a?.trim() || !b.trim()) return false;
+  const parsedA = parseNumberOrDate(a);
+  const parsedB = parseNumberOrDate(b);
+  if (parsedA === undefined || parsedB === undefined) return false;
+  return compare(parsedA, parsedB);
+};
+
+const parseNumberOrDate = (value: string) => {
+  const number = Number(value.trim());
+  if (!Number.isNaN(number)) return number;
+  const time = Date.parse(value);
+  if (!Number.isNaN(time)) return time;
+};
+
+const testRegex = (input: string | undefined, regex: string) => {
+  if (!input || !regex) return;
+  const regexWithFlags = regex.match(/\/(.+)\/([gimuy]*)$/);
+  try {
+    return regexWithFlags
+      ? new RegExp(regexWithFlags[1], regexWithFlags[2]).test(input)
+      : new RegExp(regex).test(input);
+  } catch {
+    return;
+  }
+};
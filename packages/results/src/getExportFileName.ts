@@ -1,10 +1,20 @@
 import { getPublicId } from "@typebot.io/typebot/helpers/getPublicId";
 import type { Typebot } from "@typebot.io/typebot/schemas/typebot";
+import {
+  defaultResultsExportFormat,
+  type ResultsExportFormat,
+} from "./constants";
 
 export const getExportFileName = (
   typebot: Pick<Typebot, "name" | "id" | "publicId">,
+  format: ResultsExportFormat = defaultResultsExportFormat,
+  {
+    date = new Date(),
+    withTime = false,
+  }: { date?: Date; withTime?: boolean } = {},
 ) => {
-  return `typebot-${getPublicId(typebot)}-${new Date()
-    .toISOString()
-    .slice(0, 10)}.csv`;
+  const isoDate = date.toISOString();
+  // Scheduled exports can run several times a day
+  const time = withTime ? `-${isoDate.slice(11, 16).replace(":", "")}` : "";
+  return `typebot-${getPublicId(typebot)}-${isoDate.slice(0, 10)}${time}.${format}`;
 };
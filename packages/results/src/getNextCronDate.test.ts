@@ -0,0 +1,61 @@
+import { describe, expect, it } from "bun:test";
+import { getNextCronDate, parseCronExpression } from "./getNextCronDate";
+
+describe("parseCronExpression", () => {
+  it("should parse lists, ranges, steps and names", () => {
+    expect(parseCronExpression("*/15 9-17 * * 1,3,7")).toMatchObject({
+      minutes: new Set([0, 15, 30, 45]),
+      hours: new Set([9, 10, 11, 12, 13, 14, 15, 16, 17]),
+      weekdays: new Set([0, 1, 3]),
+    });
+    expect(parseCronExpression("0 9 * * mon")).toBeDefined();
+  });
+
+  it("should reject invalid expressions", () => {
+    expect(parseCronExpression("* * * *")).toBeUndefined();
+    expect(parseCronExpression("60 * * * *")).toBeUndefined();
+    expect(parseCronExpression("0 * * * * *")).toBeUndefined();
+    expect(parseCronExpression("* * * * *", "Nope/Zone")).toBeUndefined();
+  });
+});
+
+describe("getNextCronDate", () => {
+  it("should return the next matching minute", () => {
+    expect(
+      getNextCronDate("0 9 * * 1", {
+        after: new Date("2026-10-19T09:00:00.000Z"),
+      }),
+    ).toEqual(new Date("2026-10-26T09:00:00.000Z"));
+  });
+
+  it("should evaluate the expression in the time zone", () => {
+    expect(
+      getNextCronDate("30 8 * * *", {
+        after: new Date("2026-10-19T12:00:00.000Z"),
+        timeZone: "America/New_York",
+      }),
+    ).toEqual(new Date("2026-10-19T12:30:00.000Z"));
+    expect(
+      getNextCronDate("30 8 * * *", {
+        after: new Date("2026-11-01T12:00:00.000Z"),
+        timeZone: "America/New_York",
+      }),
+    ).toEqual(new Date("2026-11-01T13:30:00.000Z"));
+  });
+
+  it("should match either day field when both are restricted", () => {
+    expect(
+      getNextCronDate("0 0 1 * 5", {
+        after: new Date("2026-10-19T00:00:00.000Z"),
+      }),
+    ).toEqual(new Date("2026-10-23T00:00:00.000Z"));
+  });
+
+  it("should return undefined when no date matches", () => {
+    expect(
+      getNextCronDate("0 0 30 2 *", {
+        after: new Date("2026-10-19T00:00:00.000Z"),
+      }),
+    ).toBeUndefined();
+  });
+});
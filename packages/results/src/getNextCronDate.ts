@@ -0,0 +1,39 @@
+import { Cron, DateTime, Either, Option } from "effect";
+import { defaultResultsExportScheduleTimeZone } from "./constants";
+
+/**
+ * Parses a standard 5 fields cron expression (minute, hour, day of month,
+ * month, day of week), evaluated in the given time zone.
+ */
+export const parseCronExpression = (
+  expression: string,
+  timeZone = defaultResultsExportScheduleTimeZone,
+): Cron.Cron | undefined => {
+  // Cron also accepts a leading seconds field, schedules run at most every minute
+  if (expression.trim().split(/\s+/).length !== 5) return;
+  return Either.getOrUndefined(Cron.parse(expression, timeZone));
+};
+
+/**
+ * Next date strictly after `after` matching the cron expression, evaluated in
+ * the given time zone.
+ */
+export const getNextCronDate = (
+  expression: string,
+  {
+    after,
+    timeZone = defaultResultsExportScheduleTimeZone,
+  }: { after: Date; timeZone?: string },
+): Date | undefined => {
+  const cron = parseCronExpression(expression, timeZone);
+  if (!cron) return;
+  try {
+    return Cron.next(cron, after);
+  } catch {
+    // No matching date, i.e. February 30th
+    return;
+  }
+};
+
+export const isValidTimeZone = (timeZone: string) =>
+  Option.isSome(DateTime.zoneMakeNamed(timeZone));
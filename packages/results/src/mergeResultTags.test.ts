@@ -0,0 +1,33 @@
+import { describe, expect, it } from "bun:test";
+import { MAX_RESULT_TAGS } from "./constants";
+import { mergeResultTags } from "./mergeResultTags";
+
+describe("mergeResultTags", () => {
+  it("should add new tags without duplicates", () => {
+    expect(
+      mergeResultTags({
+        tags: ["lead", "vip"],
+        tagsToAdd: [" vip ", "hot", ""],
+      }),
+    ).toEqual(["lead", "vip", "hot"]);
+  });
+
+  it("should remove tags even if they are added at the same time", () => {
+    expect(
+      mergeResultTags({
+        tags: ["lead", "cold"],
+        tagsToAdd: ["hot"],
+        tagsToRemove: ["cold", "hot"],
+      }),
+    ).toEqual(["lead"]);
+  });
+
+  it("should cap the number of tags", () => {
+    expect(
+      mergeResultTags({
+        tags: null,
+        tagsToAdd: Array.from({ length: 30 }, (_, index) => `tag${index}`),
+      }),
+    ).toHaveLength(MAX_RESULT_TAGS);
+  });
+});
@@ -0,0 +1,18 @@
+import { MAX_RESULT_TAG_LENGTH, MAX_RESULT_TAGS } from "./constants";
+
+export const mergeResultTags = ({
+  tags,
+  tagsToAdd = [],
+  tagsToRemove = [],
+}: {
+  tags: string[] | null | undefined;
+  tagsToAdd?: string[];
+  tagsToRemove?: string[];
+}): string[] => {
+  const removedTags = new Set(tagsToRemove.map(parseTag));
+  return [...new Set([...(tags ?? []), ...tagsToAdd].map(parseTag))]
+    .filter((tag) => tag !== "" && !removedTags.has(tag))
+    .slice(0, MAX_RESULT_TAGS);
+};
+
+const parseTag = (tag: string) => tag.trim().slice(0, MAX_RESULT_TAG_LENGTH);
@@ -7,5 +7,13 @@ export const parseColumnsOrder = (
   return existingOrder?.at(0) === "select"
     ? // Old format potentially broken, reset to default
       ["select", ...resultHeader.map((h) => h.id), "logs"]
-    : ["select", ...(existingOrder ?? resultHeader.map((h) => h.id)), "logs"];
+    : [
+        "select",
+        ...(existingOrder ?? []),
+        // Columns added after the order was saved are appended
+        ...resultHeader
+          .map((h) => h.id)
+          .filter((id) => !existingOrder?.includes(id)),
+        "logs",
+      ];
 };
@@ -0,0 +1,116 @@
+import { describe, expect, it } from "bun:test";
+import { InputBlockType } from "@typebot.io/blocks-inputs/constants";
+import {
+  parseExportCellValue,
+  parseExportColumns,
+  parseExportSheets,
+} from "./parseExportColumns";
+import type { ResultHeaderCell } from "./schemas/results";
+
+const resultHeader: ResultHeaderCell[] = [
+  { id: "date", label: "Submitted at" },
+  {
+    id: "name",
+    label: "Name",
+    blocks: [{ id: "name", groupId: "group1" }],
+    blockType: InputBlockType.TEXT,
+  },
+  {
+    id: "rating",
+    label: "Rating",
+    blocks: [{ id: "rating", groupId: "linkedGroup1" }],
+    blockType: InputBlockType.RATING,
+  },
+  { id: "isVip", label: "Is VIP", variableIds: ["isVip"] },
+];
+
+describe("parseExportColumns", () => {
+  it("should type columns and skip hidden ones", () => {
+    expect(
+      parseExportColumns({
+        resultHeader,
+        resultsTablePreferences: {
+          columnsOrder: ["date", "rating", "name", "isVip"],
+          columnsVisibility: { name: false },
+          columnsWidth: {},
+        },
+        variables: [{ id: "isVip", type: "boolean" }],
+      }),
+    ).toEqual([
+      { id: "date", label: "Submitted at", type: "date" },
+      { id: "rating", label: "Rating", type: "number" },
+      { id: "isVip", label: "Is VIP", type: "boolean" },
+    ]);
+  });
+});
+
+describe("parseExportSheets", () => {
+  it("should move linked bot columns to their own sheet", () => {
+    const columns = parseExportColumns({
+      resultHeader,
+      resultsTablePreferences: null,
+      variables: [],
+    });
+    const sheets = parseExportSheets({
+      typebot: { name: "Lead: qualification" },
+      linkedTypebots: [
+        {
+          name: "Survey",
+          groups: [{ id: "linkedGroup1" }],
+          variables: [],
+        },
+      ],
+      columns,
+      resultHeader,
+    });
+    expect(
+      sheets.map((sheet) => ({
+        name: sheet.name,
+        columnIds: sheet.columns.map((column) => column.id),
+      })),
+    ).toEqual([
+      { name: "Lead qualification", columnIds: ["date", "name", "isVip"] },
+      { name: "Survey", columnIds: ["date", "rating"] },
+    ]);
+  });
+});
+
+describe("parseExportCellValue", () => {
+  const result = { createdAt: new Date("2026-10-19T10:00:00.000Z") };
+
+  it("should convert values to the column type", () => {
+    expect(
+      parseExportCellValue(
+        { id: "date", label: "Submitted at", type: "date" },
+        { result, cell: { plainText: "10/19/2026" } },
+      ),
+    ).toEqual(result.createdAt);
+    expect(
+      parseExportCellValue(
+        { id: "rating", label: "Rating", type: "number" },
+        { result, cell: { plainText: "4" } },
+      ),
+    ).toBe(4);
+    expect(
+      parseExportCellValue(
+        { id: "isVip", label: "Is VIP", type: "boolean" },
+        { result, cell: { plainText: "true" } },
+      ),
+    ).toBe(true);
+  });
+
+  it("should keep the raw text when it can't be converted", () => {
+    expect(
+      parseExportCellValue(
+        { id: "rating", label: "Rating", type: "number" },
+        { result, cell: { plainText: "N/A" } },
+      ),
+    ).toBe("N/A");
+    expect(
+      parseExportCellValue(
+        { id: "name", label: "Name", type: "string" },
+        { result, cell: undefined },
+      ),
+    ).toBeUndefined();
+  });
+});
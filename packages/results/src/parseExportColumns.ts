@@ -0,0 +1,196 @@
+import { InputBlockType } from "@typebot.io/blocks-inputs/constants";
+import type { Group } from "@typebot.io/groups/schemas";
+import { parseUniqueKey } from "@typebot.io/lib/parseUniqueKey";
+import { byId, isNotEmpty } from "@typebot.io/lib/utils";
+import type { ResultsTablePreferences } from "@typebot.io/typebot/schemas/typebot";
+import type { Variable } from "@typebot.io/variables/schemas";
+import { parseColumnsOrder } from "./parseColumnsOrder";
+import type {
+  CellValueType,
+  ResultHeaderCell,
+  ResultWithAnswers,
+} from "./schemas/results";
+
+export type ExportColumnType = "string" | "number" | "boolean" | "date";
+
+export type ExportColumn = {
+  id: string;
+  label: string;
+  type: ExportColumnType;
+};
+
+export type ExportSheet = {
+  name: string;
+  columns: ExportColumn[];
+  isLinkedTypebot: boolean;
+};
+
+const MAX_SHEET_NAME_LENGTH = 31;
+
+/**
+ * Visible columns in the order of the results table, with unique labels and
+ * the type typed formats (XLSX, Parquet) should store their values as.
+ */
+export const parseExportColumns = ({
+  resultHeader,
+  resultsTablePreferences,
+  variables,
+}: {
+  resultHeader: ResultHeaderCell[];
+  resultsTablePreferences: ResultsTablePreferences | null | undefined;
+  variables: Pick<Variable, "id" | "type">[];
+}): ExportColumn[] =>
+  parseColumnsOrder(resultsTablePreferences?.columnsOrder, resultHeader).reduce<
+    ExportColumn[]
+  >((columns, columnId) => {
+    if (resultsTablePreferences?.columnsVisibility[columnId] === false)
+      return columns;
+    const headerCell = resultHeader.find(byId(columnId));
+    if (!headerCell) return columns;
+    return [
+      ...columns,
+      {
+        id: headerCell.id,
+        label: parseUniqueKey(
+          headerCell.label,
+          columns.map((column) => column.label),
+        ),
+        type: parseColumnType(headerCell, variables),
+      },
+    ];
+  }, []);
+
+const parseColumnType = (
+  headerCell: ResultHeaderCell,
+  variables: Pick<Variable, "id" | "type">[],
+): ExportColumnType => {
+  if (headerCell.id === "date") return "date";
+  if (
+    headerCell.blockType === InputBlockType.NUMBER ||
+    headerCell.blockType === InputBlockType.RATING
+  )
+    return "number";
+  const variableType = headerCell.variableIds
+    ?.map((variableId) => variables.find(byId(variableId))?.type)
+    .find(isNotEmpty);
+  switch (variableType) {
+    case "number":
+    case "boolean":
+    case "date":
+      return variableType;
+    default:
+      return "string";
+  }
+};
+
+/**
+ * Splits the columns into one sheet for the bot and one sheet per linked bot.
+ * The submission date is repeated on every sheet so rows can be matched.
+ */
+export const parseExportSheets = ({
+  typebot,
+  linkedTypebots,
+  columns,
+  resultHeader,
+}: {
+  typebot: { name: string };
+  linkedTypebots: {
+    name: string;
+    groups: Pick<Group, "id">[];
+    variables: Pick<Variable, "id">[];
+  }[];
+  columns: ExportColumn[];
+  resultHeader: ResultHeaderCell[];
+}): ExportSheet[] => {
+  const linkedSheets = linkedTypebots.map((linkedTypebot) => {
+    const groupIds = new Set(linkedTypebot.groups.map((group) => group.id));
+    const variableIds = new Set(
+      linkedTypebot.variables.map((variable) => variable.id),
+    );
+    return {
+      name: linkedTypebot.name,
+      isLinkedTypebot: true,
+      columns: columns.filter((column) => {
+        const headerCell = resultHeader.find(byId(column.id));
+        if (headerCell?.blocks?.length)
+          return headerCell.blocks.every((block) =>
+            groupIds.has(block.groupId),
+          );
+        return (
+          headerCell?.variableIds?.length &&
+          headerCell.variableIds.every((variableId) =>
+            variableIds.has(variableId),
+          )
+        );
+      }),
+    };
+  });
+  const linkedColumnIds = new Set(
+    linkedSheets.flatMap((sheet) => sheet.columns.map((column) => column.id)),
+  );
+  const dateColumn = columns.find(byId("date"));
+  return [
+    {
+      name: typebot.name,
+      isLinkedTypebot: false,
+      columns: columns.filter((column) => !linkedColumnIds.has(column.id)),
+    },
+    ...linkedSheets
+      .filter((sheet) => sheet.columns.length > 0)
+      .map((sheet) => ({
+        ...sheet,
+        columns: dateColumn ? [dateColumn, ...sheet.columns] : sheet.columns,
+      })),
+  ].reduce<ExportSheet[]>(
+    (sheets, sheet) => [
+      ...sheets,
+      { ...sheet, name: parseSheetName(sheet.name, sheets) },
+    ],
+    [],
+  );
+};
+
+const parseSheetName = (name: string, existingSheets: ExportSheet[]) => {
+  const sanitizedName =
+    name
+      .replace(/[[\]:*?/\\]/g, " ")
+      .replace(/\s+/g, " ")
+      .trim()
+      .slice(0, MAX_SHEET_NAME_LENGTH - 4) || "Results";
+  return parseUniqueKey(
+    sanitizedName,
+    existingSheets.map((sheet) => sheet.name),
+  );
+};
+
+export const parseExportCellValue = (
+  column: ExportColumn,
+  {
+    result,
+    cell,
+  }: {
+    result: Pick<ResultWithAnswers, "createdAt">;
+    cell: CellValueType | undefined;
+  },
+): string | number | boolean | Date | undefined => {
+  if (column.id === "date") return result.createdAt;
+  const plainText = cell?.plainText;
+  if (!plainText) return;
+  switch (column.type) {
+    case "number": {
+      const number = Number(plainText.replace(",", "."));
+      return Number.isFinite(number) ? number : plainText;
+    }
+    case "boolean": {
+      if (plainText === "true") return true;
+      if (plainText === "false") return false;
+      return plainText;
+    }
+    case "date": {
+      const time = Date.parse(plainText);
+      return Number.isNaN(time) ? plainText : new Date(time);
+    }
+    case "string":
+      return plainText;
+  }
+};
@@ -0,0 +1,22 @@
+import type { Block } from "@typebot.io/blocks-core/schemas/schema";
+import { LogicBlockType } from "@typebot.io/blocks-logic/constants";
+import type { GroupV6 } from "@typebot.io/groups/schemas";
+
+/**
+ * Ids of the bots linked with a Typebot link block that merges its results
+ * into the current bot results.
+ */
+export const parseLinkedTypebotIds = (groups: Pick<GroupV6, "blocks">[]) =>
+  groups
+    .flatMap<Block>((group) => group.blocks)
+    .reduce<string[]>((typebotIds, block) => {
+      if (block.type !== LogicBlockType.TYPEBOT_LINK) return typebotIds;
+      const typebotId = block.options?.typebotId;
+      if (
+        !typebotId ||
+        typebotIds.includes(typebotId) ||
+        block.options?.mergeResults === false
+      )
+        return typebotIds;
+      return [...typebotIds, typebotId];
+    }, []);
@@ -43,6 +43,9 @@ export const parseResultHeader = ({
   });
   return [
     { label: "Submitted at", id: "date" },
+    { label: "Status", id: "status" },
+    { label: "Tags", id: "tags" },
+    { label: "Notes", id: "notes" },
     ...inputsResultHeader,
     ...parseVariablesHeaders({
       variables: parsedVariables,
@@ -0,0 +1,68 @@
+import { ResultsExportRunStatus } from "@typebot.io/prisma/enum";
+import { z } from "@typebot.io/zod";
+import { resultsExportFormats } from "../constants";
+import { isValidTimeZone, parseCronExpression } from "../getNextCronDate";
+
+export const resultsExportDestinationSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("email"),
+    emails: z.array(z.string().email()).min(1).max(10),
+  }),
+  z.object({
+    type: z.literal("s3"),
+    credentialsId: z.string(),
+    pathPrefix: z
+      .string()
+      .optional()
+      .describe("Folder in which the files are uploaded, i.e. `exports/leads`"),
+  }),
+]);
+export type ResultsExportDestination = z.infer<
+  typeof resultsExportDestinationSchema
+>;
+
+export const resultsExportScheduleInputSchema = z.object({
+  isEnabled: z.boolean(),
+  cronExpression: z
+    .string()
+    .refine((expression) => parseCronExpression(expression) !== undefined, {
+      message: "Invalid cron expression",
+    })
+    .describe(
+      "5 fields cron expression (minute, hour, day of month, month, day of week), i.e. `0 9 * * 1` for every Monday at 9:00",
+    ),
+  timeZone: z
+    .string()
+    .refine(isValidTimeZone, { message: "Invalid time zone" })
+    .optional()
+    .describe("IANA time zone used to evaluate the schedule. Defaults to UTC."),
+  format: z.enum(resultsExportFormats),
+  isIncremental: z
+    .boolean()
+    .describe(
+      "Only export the results created since the last successful export",
+    ),
+  destination: resultsExportDestinationSchema,
+});
+
+export const resultsExportRunSchema = z.object({
+  id: z.string(),
+  createdAt: z.date(),
+  scheduledAt: z.date(),
+  status: z.nativeEnum(ResultsExportRunStatus),
+  totalRowsExported: z.number().nullable(),
+  fileUrl: z.string().nullable(),
+  error: z.string().nullable(),
+  finishedAt: z.date().nullable(),
+});
+export type ResultsExportRun = z.infer<typeof resultsExportRunSchema>;
+
+export const resultsExportScheduleSchema =
+  resultsExportScheduleInputSchema.extend({
+    id: z.string(),
+    createdAt: z.date(),
+    nextRunAt: z.date().nullable(),
+    lastExportedUntil: z.date().nullable(),
+    runs: z.array(resultsExportRunSchema),
+  });
+export type ResultsExportSchedule = z.infer<typeof resultsExportScheduleSchema>;
@@ -1,4 +1,5 @@
 import type { InputBlockType } from "@typebot.io/blocks-inputs/constants";
+import { ResultStatus } from "@typebot.io/prisma/enum";
 import type { Prisma } from "@typebot.io/prisma/types";
 import { variableWithValueSchema } from "@typebot.io/variables/schemas";
 import { z } from "@typebot.io/zod";
@@ -14,6 +15,11 @@ export const resultSchema = z.object({
   hasStarted: z.boolean().nullable(),
   isArchived: z.boolean().nullable(),
   lastChatSessionId: z.string().nullable(),
+  publishedSnapshotId: z.string().nullable(),
+  campaignId: z.string().nullable(),
+  status: z.nativeEnum(ResultStatus),
+  tags: z.array(z.string()).nullable(),
+  notes: z.string().nullable(),
 }) satisfies z.ZodType<Prisma.Result>;
 
 export const resultWithAnswersSchema = resultSchema.merge(
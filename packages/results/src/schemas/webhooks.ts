@@ -0,0 +1,76 @@
+import { validateHttpReqUrl } from "@typebot.io/lib/ssrf/validateHttpReqUrl";
+import {
+  ResultWebhookDeliveryStatus,
+  ResultWebhookEvent,
+} from "@typebot.io/prisma/enum";
+import { z } from "@typebot.io/zod";
+import { resultWithAnswersSchema } from "./results";
+
+export const resultWebhookEventSchema = z.nativeEnum(ResultWebhookEvent);
+
+export const resultWebhookInputSchema = z.object({
+  typebotId: z
+    .string()
+    .nullable()
+    .describe(
+      "Bot the webhook listens to. If `null`, the webhook listens to every bot of the workspace.",
+    ),
+  isEnabled: z.boolean(),
+  url: z
+    .string()
+    .url()
+    .refine(
+      (url) => {
+        try {
+          validateHttpReqUrl(url);
+          return true;
+        } catch {
+          return false;
+        }
+      },
+      { message: "URL is not allowed" },
+    ),
+  events: z.array(resultWebhookEventSchema).min(1),
+  abandonmentTimeout: z
+    .number()
+    .int()
+    .min(1)
+    .max(60 * 24 * 7)
+    .nullable()
+    .describe(
+      "Minutes without any new answer after which a started result that is not completed is considered abandoned. Required to receive `RESULT_ABANDONED` events.",
+    ),
+});
+
+export const resultWebhookSchema = resultWebhookInputSchema.extend({
+  id: z.string(),
+  createdAt: z.date(),
+  workspaceId: z.string(),
+  secret: z
+    .string()
+    .describe(
+      "Used to sign the requests. See the `x-typebot-signature` header.",
+    ),
+});
+export type ResultWebhook = z.infer<typeof resultWebhookSchema>;
+
+export const resultWebhookDeliverySchema = z.object({
+  id: z.string(),
+  createdAt: z.date(),
+  resultId: z.string(),
+  event: resultWebhookEventSchema,
+  status: z.nativeEnum(ResultWebhookDeliveryStatus),
+  attempts: z.number(),
+  responseStatus: z.number().nullable(),
+  error: z.string().nullable(),
+  lastAttemptAt: z.date().nullable(),
+});
+export type ResultWebhookDelivery = z.infer<typeof resultWebhookDeliverySchema>;
+
+export const resultWebhookPayloadSchema = z.object({
+  id: z.string().describe("Delivery ID, identical across retries"),
+  event: resultWebhookEventSchema,
+  createdAt: z.date().describe("Date at which the event occurred"),
+  result: resultWithAnswersSchema,
+});
+export type ResultWebhookPayload = z.infer<typeof resultWebhookPayloadSchema>;
@@ -0,0 +1,28 @@
+import { describe, expect, it } from "bun:test";
+import { createHmac } from "node:crypto";
+import { signResultWebhookPayload } from "./signResultWebhookPayload";
+
+describe("signResultWebhookPayload", () => {
+  it("should sign the timestamp and the body", () => {
+    const body = JSON.stringify({ event: "RESULT_COMPLETED" });
+    const signature = signResultWebhookPayload({
+      body,
+      secret: "whsec_test",
+      timestamp: 1792400000,
+    });
+
+    expect(signature).toBe(
+      `t=1792400000,v1=${createHmac("sha256", "whsec_test")
+        .update(`1792400000.${body}`)
+        .digest("hex")}`,
+    );
+  });
+
+  it("should produce a different signature for another timestamp", () => {
+    const props = { body: "{}", secret: "whsec_test" };
+
+    expect(signResultWebhookPayload({ ...props, timestamp: 1 })).not.toBe(
+      signResultWebhookPayload({ ...props, timestamp: 2 }),
+    );
+  });
+});
@@ -0,0 +1,19 @@
+import { createHmac } from "node:crypto";
+
+/**
+ * Signature sent in the `x-typebot-signature` header:
+ * `t=<unix timestamp>,v1=<hex HMAC-SHA256 of "<timestamp>.<body>">`.
+ * Signing the timestamp with the body lets receivers reject replayed requests.
+ */
+export const signResultWebhookPayload = ({
+  body,
+  secret,
+  timestamp,
+}: {
+  body: string;
+  secret: string;
+  timestamp: number;
+}) =>
+  `t=${timestamp},v1=${createHmac("sha256", secret)
+    .update(`${timestamp}.${body}`)
+    .digest("hex")}`;
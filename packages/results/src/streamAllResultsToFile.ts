@@ -0,0 +1,222 @@
+import { parseGroups } from "@typebot.io/groups/helpers/parseGroups";
+import type { GroupV6 } from "@typebot.io/groups/schemas";
+import prisma from "@typebot.io/prisma";
+import type { ResultsFilter } from "@typebot.io/typebot/schemas/resultsFilter";
+import { typebotV6Schema } from "@typebot.io/typebot/schemas/typebot";
+import { z } from "@typebot.io/zod";
+import { createWriteStream, type PathLike } from "fs";
+import type { Writable } from "stream";
+import {
+  defaultResultsExportFormat,
+  type ResultsExportFormat,
+} from "./constants";
+import { convertResultsToTableData } from "./convertResultsToTableData";
+import { filterResults, parseResultsFilterWhereInput } from "./filterResults";
+import { parseBlockIdVariableIdMap } from "./parseBlockIdVariableIdMap";
+import { parseExportColumns, parseExportSheets } from "./parseExportColumns";
+import { parseLinkedTypebotIds } from "./parseLinkedTypebotIds";
+import { parseResultHeader } from "./parseResultHeader";
+import { resultWithAnswersSchema } from "./schemas/results";
+import { createResultsExportWriter } from "./writers/createResultsExportWriter";
+
+const BATCH_SIZE = 500;
+
+export const streamAllResultsToFile = async (
+  typebotId: string,
+  {
+    writeStreamPath,
+    writableStream,
+    format = defaultResultsExportFormat,
+    filter,
+    onProgressUpdate,
+  }: {
+    writeStreamPath?: PathLike;
+    writableStream?: Writable;
+    format?: ResultsExportFormat;
+    filter?: ResultsFilter;
+    onProgressUpdate: (progress: number) => void;
+  },
+): Promise<
+  | {
+      status: "error";
+      message: string;
+    }
+  | {
+      status: "success";
+    }
+> => {
+  if (!writeStreamPath && !writableStream)
+    return { status: "error", message: "No stream provided" };
+
+  const typebot = await prisma.typebot.findUnique({
+    where: {
+      id: typebotId,
+    },
+    select: {
+      name: true,
+      version: true,
+      groups: true,
+      variables: true,
+      resultsTablePreferences: true,
+    },
+  });
+
+  const totalResultsToExport = await prisma.result.count({
+    where: {
+      typebotId,
+      hasStarted: true,
+      isArchived: false,
+      ...parseResultsFilterWhereInput(filter),
+    },
+  });
+
+  if (!typebot) {
+    writableStream?.end();
+    return { status: "error", message: "Typebot not found" };
+  }
+
+  if (Number(typebot.version) < 6) {
+    writableStream?.end();
+    return { status: "error", message: "Typebot is not at least v6" };
+  }
+
+  const groups = parseGroups(typebot.groups, {
+    typebotVersion: typebot.version,
+  }) as GroupV6[];
+  const variables = typebotV6Schema.shape.variables.parse(typebot?.variables);
+  const linkedTypebotIds = parseLinkedTypebotIds(groups);
+  const linkedTypebots =
+    linkedTypebotIds.length > 0
+      ? (
+          await prisma.typebot.findMany({
+            where: { id: { in: linkedTypebotIds } },
+            select: {
+              name: true,
+              version: true,
+              groups: true,
+              variables: true,
+            },
+          })
+        ).map((linkedTypebot) => ({
+          name: linkedTypebot.name,
+          groups: parseGroups(linkedTypebot.groups, {
+            typebotVersion: linkedTypebot.version,
+          }) as GroupV6[],
+          variables: typebotV6Schema.shape.variables.parse(
+            linkedTypebot.variables,
+          ),
+        }))
+      : [];
+  const resultHeader = parseResultHeader({
+    typebot: {
+      groups,
+      variables,
+    },
+    linkedTypebots,
+  });
+  const blockIdVariableIdMap = parseBlockIdVariableIdMap(groups);
+
+  const columns = parseExportColumns({
+    resultHeader,
+    resultsTablePreferences:
+      typebotV6Schema.shape.resultsTablePreferences.parse(
+        typebot?.resultsTablePreferences,
+      ),
+    variables: [
+      ...variables,
+      ...linkedTypebots.flatMap((linkedTypebot) => linkedTypebot.variables),
+    ],
+  });
+
+  const stream = writableStream ?? createWriteStream(writeStreamPath!);
+  const writer = await createResultsExportWriter(format, {
+    stream,
+    columns,
+    sheets: parseExportSheets({
+      typebot,
+      linkedTypebots,
+      columns,
+      resultHeader,
+    }),
+    resultHeader,
+  });
+
+  try {
+    let lastCreatedAt: Date | null = null;
+    const processedIds = new Set<string>();
+    let processedCount = 0;
+
+    while (processedCount < totalResultsToExport) {
+      const rawBatch = z.array(resultWithAnswersSchema).parse(
+        (
+          await prisma.result.findMany({
+            take: BATCH_SIZE,
+            where: {
+              typebotId,
+              hasStarted: true,
+              isArchived: false,
+              ...parseResultsFilterWhereInput(filter),
+              ...(lastCreatedAt ? { createdAt: { lte: lastCreatedAt } } : {}),
+            },
+            orderBy: {
+              createdAt: "desc",
+            },
+            include: {
+              answers: {
+                select: {
+                  content: true,
+                  blockId: true,
+                },
+              },
+              answersV2: {
+                select: {
+                  content: true,
+                  blockId: true,
+                },
+              },
+            },
+          })
+        ).map((r) => ({ ...r, answers: r.answersV2.concat(r.answers) })),
+      );
+
+      const batch = rawBatch.filter((r) => !processedIds.has(r.id));
+
+      if (batch.length === 0) break;
+
+      batch.forEach((r) => processedIds.add(r.id));
+
+      const filteredBatch = filterResults({
+        results: batch,
+        filter,
+        headerCells: resultHeader,
+        blockIdVariableIdMap,
+      });
+
+      const tableData = convertResultsToTableData({
+        results: filteredBatch,
+        headerCells: resultHeader,
+        blockIdVariableIdMap,
+      });
+
+      await writer.write(
+        filteredBatch.map((result, index) => ({
+          result,
+          cells: tableData[index],
+        })),
+      );
+
+      lastCreatedAt = batch[batch.length - 1].createdAt;
+      processedCount += batch.length;
+      onProgressUpdate(
+        Math.round((processedCount / totalResultsToExport) * 100),
+      );
+    }
+
+    await writer.close();
+  } catch (error) {
+    stream.destroy(error instanceof Error ? error : undefined);
+    throw error;
+  }
+
+  return { status: "success" };
+};
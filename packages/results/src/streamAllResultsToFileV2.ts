@@ -0,0 +1,276 @@
+import { FileSystem, Path } from "@effect/platform";
+import { InputBlockType } from "@typebot.io/blocks-inputs/constants";
+import type { ResultsFilter } from "@typebot.io/typebot/schemas/resultsFilter";
+import {
+  type TypebotV6,
+  typebotV6Schema,
+} from "@typebot.io/typebot/schemas/typebot";
+import { z } from "@typebot.io/zod";
+import { Context, Effect, Schema } from "effect";
+import { createWriteStream } from "fs";
+import type { ResultsExportFormat } from "./constants";
+import { convertResultsToTableData } from "./convertResultsToTableData";
+import { filterResults, parseResultsFilterWhereInput } from "./filterResults";
+import { parseBlockIdVariableIdMap } from "./parseBlockIdVariableIdMap";
+import { parseExportColumns, parseExportSheets } from "./parseExportColumns";
+import { parseResultHeader } from "./parseResultHeader";
+import { resultWithAnswersSchema } from "./schemas/results";
+import { ResultsService } from "./services/ResultsService";
+import { createResultsExportWriter } from "./writers/createResultsExportWriter";
+
+export class ProgressReporterError extends Schema.TaggedError<ProgressReporterError>()(
+  "@typebot/ProgressReporterError",
+  {
+    message: Schema.String,
+  },
+) {}
+
+export class ExportWriterError extends Schema.TaggedError<ExportWriterError>()(
+  "@typebot/ExportWriterError",
+  {
+    message: Schema.String,
+  },
+) {}
+
+export class ProgressReporter extends Context.Tag("@typebot/ProgressReporter")<
+  ProgressReporter,
+  {
+    readonly report: (
+      progress: number,
+    ) => Effect.Effect<void, ProgressReporterError>;
+  }
+>() {}
+
+const BATCH_SIZE = 100;
+
+const tryWriter = <T>(promise: () => Promise<T>) =>
+  Effect.tryPromise({
+    try: promise,
+    catch: (error) =>
+      new ExportWriterError({
+        message: error instanceof Error ? error.message : "Unknown error",
+      }),
+  });
+
+export const streamResultsToFileV2 = (
+  typebot: Pick<
+    TypebotV6,
+    "id" | "name" | "groups" | "variables" | "resultsTablePreferences"
+  >,
+  {
+    outputPath,
+    format,
+    linkedTypebots = [],
+    includeDeletedBlocks,
+    filter,
+    createdAfter,
+    createdBefore,
+  }: {
+    outputPath: string;
+    format: ResultsExportFormat;
+    linkedTypebots?: Pick<TypebotV6, "name" | "groups" | "variables">[];
+    includeDeletedBlocks?: boolean;
+    filter?: ResultsFilter;
+    createdAfter?: Date;
+    createdBefore?: Date;
+  },
+) =>
+  Effect.gen(function* () {
+    const progressReporter = yield* ProgressReporter;
+    const fs = yield* FileSystem.FileSystem;
+    const path = yield* Path.Path;
+    const resultsService = yield* ResultsService;
+
+    const variables = typebotV6Schema.shape.variables.parse(typebot?.variables);
+
+    const baseResultHeader = parseResultHeader({
+      typebot: {
+        groups: typebot.groups,
+        variables,
+      },
+      linkedTypebots,
+    });
+
+    const deletedBlockHeaders = includeDeletedBlocks
+      ? yield* getDeletedBlockHeaders({
+          typebotId: typebot.id,
+          existingHeaderIds: baseResultHeader.map((h) => h.id),
+          groups: typebot.groups,
+          resultsService,
+        })
+      : [];
+
+    const resultHeader = [...baseResultHeader, ...deletedBlockHeaders];
+
+    const blockIdVariableIdMap = parseBlockIdVariableIdMap(typebot.groups);
+
+    const columns = parseExportColumns({
+      resultHeader,
+      resultsTablePreferences:
+        typebotV6Schema.shape.resultsTablePreferences.parse(
+          typebot?.resultsTablePreferences,
+        ),
+      variables: [
+        ...variables,
+        ...linkedTypebots.flatMap((linkedTypebot) => linkedTypebot.variables),
+      ],
+    });
+
+    const totalResultsToExport = yield* resultsService.count({
+      where: {
+        typebotId: typebot.id,
+        hasStarted: true,
+        isArchived: false,
+        ...parseResultsFilterWhereInput(filter),
+        createdAt: { gt: createdAfter, lte: createdBefore },
+      },
+    });
+
+    yield* Effect.logInfo("Starting export file generation").pipe(
+      Effect.annotateLogs({ totalResultsToExport, format }),
+    );
+
+    yield* fs.makeDirectory(path.dirname(outputPath), { recursive: true }).pipe(
+      Effect.catchAll((error) => {
+        return Effect.logWarning(error.message);
+      }),
+    );
+
+    const writer = yield* tryWriter(() =>
+      createResultsExportWriter(format, {
+        stream: createWriteStream(outputPath),
+        columns,
+        sheets: parseExportSheets({
+          typebot,
+          linkedTypebots,
+          columns,
+          resultHeader,
+        }),
+        resultHeader,
+      }),
+    );
+
+    let processedCount = 0;
+    let totalRowsExported = 0;
+    let lastCreatedAt: Date | null = null;
+    const processedIds = new Set<string>();
+
+    while (processedCount < totalResultsToExport) {
+      const rawBatch = z.array(resultWithAnswersSchema).parse(
+        (yield* resultsService.findMany({
+          take: BATCH_SIZE,
+          where: {
+            typebotId: typebot.id,
+            hasStarted: true,
+            isArchived: false,
+            ...parseResultsFilterWhereInput(filter),
+            createdAt: {
+              gt: createdAfter,
+              lte: lastCreatedAt ?? createdBefore,
+            },
+          },
+          orderBy: {
+            createdAt: "desc",
+          },
+          include: {
+            answers: {
+              select: {
+                content: true,
+                blockId: true,
+              },
+            },
+            answersV2: {
+              select: {
+                content: true,
+                blockId: true,
+              },
+            },
+          },
+        })).map((r) => ({
+          ...r,
+          answers: r.answersV2.concat(r.answers),
+        })),
+      );
+
+      const batch = rawBatch.filter((r) => !processedIds.has(r.id));
+
+      if (batch.length === 0) break;
+
+      batch.forEach((r) => processedIds.add(r.id));
+
+      const filteredBatch = filterResults({
+        results: batch,
+        filter,
+        headerCells: resultHeader,
+        blockIdVariableIdMap,
+      });
+
+      const tableData = convertResultsToTableData({
+        results: filteredBatch,
+        headerCells: resultHeader,
+        blockIdVariableIdMap,
+      });
+
+      yield* tryWriter(() =>
+        writer.write(
+          filteredBatch.map((result, index) => ({
+            result,
+            cells: tableData[index],
+          })),
+        ),
+      );
+
+      totalRowsExported += filteredBatch.length;
+      processedCount += batch.length;
+      lastCreatedAt = batch[batch.length - 1].createdAt;
+
+      yield* progressReporter.report(
+        Math.round((processedCount / totalResultsToExport) * 100),
+      );
+    }
+
+    yield* tryWriter(() => writer.close());
+
+    yield* Effect.logInfo("Export file generation finished").pipe(
+      Effect.annotateLogs({ totalRowsExported }),
+    );
+
+    return { totalRowsExported };
+  }).pipe(
+    Effect.withSpan("streamResultsToFile", {
+      attributes: { typebotId: typebot.id, format },
+    }),
+  );
+
+const getDeletedBlockHeaders = ({
+  typebotId,
+  existingHeaderIds,
+  groups,
+  resultsService,
+}: {
+  typebotId: string;
+  existingHeaderIds: string[];
+  groups: TypebotV6["groups"];
+  resultsService: Context.Tag.Service<typeof ResultsService>;
+}) =>
+  Effect.gen(function* () {
+    const allAnswerBlockIds =
+      yield* resultsService.findDistinctAnswerBlockIds(typebotId);
+
+    const existingBlockIds = new Set(
+      groups.flatMap((group) => group.blocks.map((block) => block.id)),
+    );
+    const existingHeaderIdSet = new Set(existingHeaderIds);
+
+    const deletedBlockIds = allAnswerBlockIds.filter(
+      (blockId) =>
+        !existingBlockIds.has(blockId) && !existingHeaderIdSet.has(blockId),
+    );
+
+    return deletedBlockIds.map((blockId) => ({
+      id: blockId,
+      label: `${blockId} (deleted block)`,
+      blocks: [{ id: blockId, groupId: "" }],
+      blockType: InputBlockType.TEXT,
+    }));
+  });
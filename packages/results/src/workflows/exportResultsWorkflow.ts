@@ -2,22 +2,42 @@ import { FileSystem } from "@effect/platform";
 import { PlatformError } from "@effect/platform/Error";
 import { Activity, Workflow } from "@effect/workflow";
 import { MultipartUpload } from "@effect-aws/s3";
+import {
+  ComparisonOperators,
+  LogicalOperator,
+} from "@typebot.io/conditions/constants";
 import { S3ReadableConfig, WorkflowsAppConfig } from "@typebot.io/config";
+import { decrypt } from "@typebot.io/credentials/decrypt";
+import { getCredentials } from "@typebot.io/credentials/getCredentials";
+import {
+  type S3Credentials,
+  s3CredentialsSchema,
+} from "@typebot.io/credentials/schemas";
 import { renderResultsExportLinkEmail } from "@typebot.io/emails/transactional/ResultsExportLinkEmail";
 import { parseGroups } from "@typebot.io/groups/helpers/parseGroups";
+import type { GroupV6 } from "@typebot.io/groups/schemas";
 import {
   NodemailerClient,
   NodemailerError,
 } from "@typebot.io/lib/nodemailer/NodemailerClient";
 import { RedisClient } from "@typebot.io/lib/redis/RedisClient";
+import { ResultStatus } from "@typebot.io/prisma/enum";
+import { resultStatusFilterValues } from "@typebot.io/typebot/schemas/resultsFilter";
 import { TypebotService } from "@typebot.io/typebot/services/TypebotService";
 import { Context, Effect, Layer, Option, Schema } from "effect";
+import {
+  defaultResultsExportFormat,
+  resultsExportFormats,
+  resultsExportMimeTypes,
+} from "../constants";
 import { getExportFileName } from "../getExportFileName";
+import { parseLinkedTypebotIds } from "../parseLinkedTypebotIds";
 import {
+  ExportWriterError,
   ProgressReporter,
   ProgressReporterError,
-  streamResultsToCsvV2,
-} from "../streamAllResultsToCsvV2";
+  streamResultsToFileV2,
+} from "../streamAllResultsToFileV2";
 
 // Errors
 export class PrismaConnectionError extends Schema.TaggedError<PrismaConnectionError>()(
@@ -58,11 +78,31 @@ export class RedisConfigError extends Schema.TaggedError<RedisConfigError>()(
   },
 ) {}
 
+// Mirrors resultsFilterSchema, unknown fields are dropped when decoding the payload
+const ResultsFilter = Schema.Struct({
+  search: Schema.String.pipe(Schema.optional),
+  status: Schema.Literal(...resultStatusFilterValues).pipe(Schema.optional),
+  resultStatus: Schema.Enums(ResultStatus).pipe(Schema.optional),
+  tags: Schema.Array(Schema.String).pipe(Schema.mutable, Schema.optional),
+  logicalOperator: Schema.Enums(LogicalOperator).pipe(Schema.optional),
+  comparisons: Schema.Array(
+    Schema.Struct({
+      id: Schema.String,
+      columnId: Schema.String.pipe(Schema.optional),
+      comparisonOperator: Schema.Enums(ComparisonOperators).pipe(
+        Schema.optional,
+      ),
+      value: Schema.String.pipe(Schema.optional),
+    }),
+  ).pipe(Schema.mutable, Schema.optional),
+});
+
 export const ExportResultsWorkflow = Workflow.make({
   name: "ExportResultsWorkflow",
   success: Schema.Struct({
     fileUrl: Schema.URL,
     typebotName: Schema.String,
+    totalRowsExported: Schema.Number,
   }),
   error: Schema.Union(
     PrismaConnectionError,
@@ -73,12 +113,22 @@ export const ExportResultsWorkflow = Workflow.make({
     PlatformError,
     S3UploadError,
     ProgressReporterError,
+    ExportWriterError,
     NodemailerError,
   ),
   payload: {
     id: Schema.String,
     typebotId: Schema.String,
+    format: Schema.Literal(...resultsExportFormats).pipe(Schema.optional),
     includeDeletedBlocks: Schema.Boolean.pipe(Schema.optional),
+    filter: ResultsFilter.pipe(Schema.optional),
+    createdAfter: Schema.Number.pipe(Schema.optional),
+    createdBefore: Schema.Number.pipe(Schema.optional),
+    fileName: Schema.String.pipe(Schema.optional),
+    destination: Schema.Struct({
+      credentialsId: Schema.String,
+      pathPrefix: Schema.String.pipe(Schema.optional),
+    }).pipe(Schema.optional),
   },
   idempotencyKey: ({ id }) => id,
 });
@@ -117,6 +167,13 @@ export const ExportResultsWorkflowLayer = ExportResultsWorkflow.toLayer(
         publicId: Schema.NullOr(Schema.String),
         resultsTablePreferences: Schema.Any,
         workspaceId: Schema.String,
+        linkedTypebots: Schema.Array(
+          Schema.Struct({
+            name: Schema.String,
+            groups: Schema.Any,
+            variables: Schema.Any,
+          }),
+        ).pipe(Schema.mutable),
       }),
       execute: Effect.gen(function* () {
         const totalAttempts = yield* Activity.CurrentAttempt;
@@ -147,11 +204,35 @@ export const ExportResultsWorkflowLayer = ExportResultsWorkflow.toLayer(
         if (Number(typebot.version) < 6)
           return yield* new TypebotVersionTooLowError();
 
+        const groups = parseGroups(typebot.groups, {
+          typebotVersion: typebot.version,
+        }) as GroupV6[];
+
+        const linkedTypebotIds = parseLinkedTypebotIds(groups);
+
+        const linkedTypebots =
+          linkedTypebotIds.length > 0
+            ? yield* typebotService.findMany({
+                where: { id: { in: linkedTypebotIds } },
+                select: {
+                  name: true,
+                  version: true,
+                  groups: true,
+                  variables: true,
+                },
+              })
+            : [];
+
         return {
           ...typebot,
-          groups: parseGroups(typebot.groups, {
-            typebotVersion: typebot.version,
-          }),
+          groups,
+          linkedTypebots: linkedTypebots.map((linkedTypebot) => ({
+            name: linkedTypebot.name,
+            groups: parseGroups(linkedTypebot.groups, {
+              typebotVersion: linkedTypebot.version,
+            }),
+            variables: linkedTypebot.variables,
+          })),
         };
       }).pipe(
         Effect.tapError((error) => Effect.logError(error)),
@@ -161,11 +242,18 @@ export const ExportResultsWorkflowLayer = ExportResultsWorkflow.toLayer(
       ),
     });
 
-    const fileName = getExportFileName({
-      id: payload.typebotId,
-      name: typebot.name,
-      publicId: typebot.publicId,
-    });
+    const format = payload.format ?? defaultResultsExportFormat;
+
+    const fileName =
+      payload.fileName ??
+      getExportFileName(
+        {
+          id: payload.typebotId,
+          name: typebot.name,
+          publicId: typebot.publicId,
+        },
+        format,
+      );
 
     const tmpPath = `.effect/tmp/workspaces/${typebot.workspaceId}/typebots/${payload.typebotId}/results-exports/${fileName}`;
     const s3Key = `private/tmp/workspaces/${typebot.workspaceId}/typebots/${payload.typebotId}/results-exports/${fileName}`;
@@ -180,6 +268,7 @@ export const ExportResultsWorkflowLayer = ExportResultsWorkflow.toLayer(
         TooManyAttemptsError,
         RedisConfigError,
         ProgressReporterError,
+        ExportWriterError,
       ),
       success: Schema.Struct({
         totalRowsExported: Schema.Number,
@@ -193,9 +282,18 @@ export const ExportResultsWorkflowLayer = ExportResultsWorkflow.toLayer(
           });
         }
 
-        return yield* streamResultsToCsvV2(typebot, {
+        return yield* streamResultsToFileV2(typebot, {
           outputPath: tmpPath,
+          format,
+          linkedTypebots: typebot.linkedTypebots,
           includeDeletedBlocks: payload.includeDeletedBlocks,
+          filter: payload.filter,
+          createdAfter: payload.createdAfter
+            ? new Date(payload.createdAfter)
+            : undefined,
+          createdBefore: payload.createdBefore
+            ? new Date(payload.createdBefore)
+            : undefined,
         });
       }).pipe(
         Effect.provide(
@@ -210,36 +308,53 @@ export const ExportResultsWorkflowLayer = ExportResultsWorkflow.toLayer(
       ),
     });
 
-    const fs = yield* FileSystem.FileSystem;
+    const destination = payload.destination;
 
-    yield* Activity.make({
+    const fileUrl = yield* Activity.make({
       name: "UploadFileToBucket",
       error: Schema.Union(S3UploadError, PlatformError),
+      success: Schema.URL,
       execute: Effect.gen(function* () {
         yield* Effect.logDebug("Uploading file to bucket...");
-        const s3Config = yield* S3ReadableConfig;
         const fs = yield* FileSystem.FileSystem;
+        const body = yield* fs.readFile(tmpPath);
+
+        if (destination) {
+          // Credentials are fetched in the activity so that secrets are never
+          // persisted in the workflow journal
+          const credentials = yield* getS3DestinationCredentials({
+            credentialsId: destination.credentialsId,
+            workspaceId: typebot.workspaceId,
+          });
+          const key = [
+            destination.pathPrefix?.replace(/^\/+|\/+$/g, ""),
+            fileName,
+          ]
+            .filter(Boolean)
+            .join("/");
+          yield* uploadFile({
+            Bucket: credentials.bucket,
+            Key: key,
+            Body: body,
+            ContentType: resultsExportMimeTypes[format],
+          }).pipe(Effect.provide(S3DestinationLayer(credentials)));
+          return new URL(`s3://${credentials.bucket}/${key}`);
+        }
 
-        yield* MultipartUpload.uploadObject({
+        const s3Config = yield* S3ReadableConfig;
+        yield* uploadFile({
           Bucket: s3Config.bucket,
           Key: s3Key,
-          Body: yield* fs.readFile(tmpPath),
-        }).pipe(
-          Effect.tapError((error) => Effect.logError(error)),
-          Effect.mapError(
-            (error) =>
-              new S3UploadError({
-                message:
-                  error instanceof Error ? error.message : "Unknown error",
-              }),
-          ),
-        );
+          Body: body,
+          ContentType: resultsExportMimeTypes[format],
+        });
+        return new URL(`/api/s3/${s3Key}`, nextAuthUrl);
       }),
     });
 
-    yield* fs.remove(tmpPath, { recursive: true });
+    const fs = yield* FileSystem.FileSystem;
 
-    const fileUrl = new URL(`/api/s3/${s3Key}`, nextAuthUrl);
+    yield* fs.remove(tmpPath, { recursive: true });
 
     yield* Effect.logInfo("Export workflow completed").pipe(
       Effect.annotateLogs({
@@ -250,6 +365,7 @@ export const ExportResultsWorkflowLayer = ExportResultsWorkflow.toLayer(
     return {
       fileUrl,
       typebotName: typebot.name,
+      totalRowsExported,
     };
   }),
 );
@@ -260,6 +376,8 @@ export const SendExportToEmailWorkflow = Workflow.make({
     exportResultsWorkflowId: Schema.String,
     email: Schema.String,
     typebotId: Schema.String,
+    format: Schema.Literal(...resultsExportFormats).pipe(Schema.optional),
+    filter: ResultsFilter.pipe(Schema.optional),
   },
   error: Schema.Union(NodemailerError),
   idempotencyKey: ({ exportResultsWorkflowId }) => exportResultsWorkflowId,
@@ -281,6 +399,8 @@ export const SendExportToEmailWorkflowLayer = SendExportToEmailWorkflow.toLayer(
     const exportResult = yield* ExportResultsWorkflow.execute({
       id: payload.exportResultsWorkflowId,
       typebotId: payload.typebotId,
+      format: payload.format,
+      filter: payload.filter,
     }).pipe(Effect.timeout("1 hour"), Effect.option);
 
     if (Option.isNone(exportResult)) {
@@ -320,6 +440,51 @@ export const SendExportToEmailWorkflowLayer = SendExportToEmailWorkflow.toLayer(
   }),
 );
 
+const uploadFile = (
+  params: Parameters<typeof MultipartUpload.uploadObject>[0],
+) =>
+  MultipartUpload.uploadObject(params).pipe(
+    Effect.tapError((error) => Effect.logError(error)),
+    Effect.mapError(
+      (error) =>
+        new S3UploadError({
+          message: error instanceof Error ? error.message : "Unknown error",
+        }),
+    ),
+  );
+
+const getS3DestinationCredentials = ({
+  credentialsId,
+  workspaceId,
+}: {
+  credentialsId: string;
+  workspaceId: string;
+}) =>
+  Effect.tryPromise({
+    try: async () => {
+      const credentials = await getCredentials(credentialsId, workspaceId);
+      if (!credentials) throw new Error("S3 credentials not found");
+      return s3CredentialsSchema.shape.data.parse(
+        await decrypt(credentials.data, credentials.iv),
+      );
+    },
+    catch: (error) =>
+      new S3UploadError({
+        message: error instanceof Error ? error.message : "Unknown error",
+      }),
+  });
+
+const S3DestinationLayer = (credentials: S3Credentials["data"]) =>
+  MultipartUpload.layer({
+    endpoint: credentials.endpoint || undefined,
+    region: credentials.region || "us-east-1",
+    credentials: {
+      accessKeyId: credentials.accessKeyId,
+      secretAccessKey: credentials.secretAccessKey,
+    },
+    forcePathStyle: Boolean(credentials.endpoint),
+  });
+
 class WorkflowId extends Context.Tag("@typebot/WorkflowId")<
   WorkflowId,
   string
@@ -0,0 +1,116 @@
+import { beforeEach, describe, expect, it, mock } from "bun:test";
+
+const minutesAgo = (minutes: number) =>
+  new Date(Date.now() - minutes * 60 * 1000);
+
+const createResultRow = ({
+  isCompleted = false,
+  answerDates = [],
+}: {
+  isCompleted?: boolean;
+  answerDates?: Date[];
+}) => ({
+  id: "result",
+  createdAt: minutesAgo(120),
+  typebotId: "typebot",
+  variables: [],
+  isCompleted,
+  hasStarted: answerDates.length > 0,
+  isArchived: false,
+  lastChatSessionId: null,
+  publishedSnapshotId: null,
+  campaignId: null,
+  status: "NEW",
+  tags: null,
+  notes: null,
+  typebot: { workspaceId: "workspace" },
+  answers: answerDates.map((createdAt) => ({
+    blockId: "block",
+    content: "answer",
+    createdAt,
+  })),
+  answersV2: [],
+});
+
+let resultRow: ReturnType<typeof createResultRow> | null = null;
+const createDeliveries = mock((_args: { data: unknown[] }) =>
+  Promise.resolve(),
+);
+
+mock.module("@typebot.io/prisma", () => ({
+  default: {
+    result: { findUnique: () => Promise.resolve(resultRow) },
+    resultWebhook: {
+      findMany: () =>
+        Promise.resolve([
+          {
+            id: "webhook",
+            events: ["RESULT_ABANDONED"],
+            abandonmentTimeout: 30,
+          },
+        ]),
+    },
+    resultWebhookDelivery: {
+      deleteMany: () => Promise.resolve(),
+      createMany: createDeliveries,
+    },
+    $transaction: (queries: Promise<unknown>[]) => Promise.all(queries),
+  },
+}));
+
+const { checkAbandonment } = await import("./resultWebhooksWorkflow");
+
+const check = () =>
+  checkAbandonment({ webhookId: "webhook", resultId: "result", timeout: 30 });
+
+describe("checkAbandonment", () => {
+  beforeEach(() => {
+    createDeliveries.mockClear();
+  });
+
+  it("should wait for the timeout after the last answer", async () => {
+    resultRow = createResultRow({
+      answerDates: [minutesAgo(60), minutesAgo(10)],
+    });
+    const status = await check();
+    expect(status.type).toBe("active");
+    if (status.type !== "active") return;
+    expect(status.remainingMs).toBeGreaterThan(19 * 60 * 1000);
+    expect(status.remainingMs).toBeLessThanOrEqual(20 * 60 * 1000);
+    expect(createDeliveries).not.toHaveBeenCalled();
+  });
+
+  it("should deliver the abandonment once the timeout is reached", async () => {
+    resultRow = createResultRow({ answerDates: [minutesAgo(40)] });
+    const status = await check();
+    expect(status.type).toBe("abandoned");
+    const [delivery] = createDeliveries.mock.calls[0][0].data as {
+      id: string;
+      event: string;
+      payload: { result: Record<string, unknown> };
+    }[];
+    expect(status).toEqual({ type: "abandoned", deliveryId: delivery.id });
+    expect(delivery.event).toBe("RESULT_ABANDONED");
+    expect(delivery.payload.result.id).toBe("result");
+    expect(delivery.payload.result.workspaceId).toBeUndefined();
+  });
+
+  it("should stop checking completed results", async () => {
+    resultRow = createResultRow({
+      isCompleted: true,
+      answerDates: [minutesAgo(40)],
+    });
+    expect(await check()).toEqual({ type: "done" });
+  });
+
+  it("should stop checking results without answers", async () => {
+    resultRow = createResultRow({});
+    expect(await check()).toEqual({ type: "done" });
+    expect(createDeliveries).not.toHaveBeenCalled();
+  });
+
+  it("should stop checking deleted results", async () => {
+    resultRow = null;
+    expect(await check()).toEqual({ type: "done" });
+  });
+});
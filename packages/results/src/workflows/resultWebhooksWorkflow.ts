@@ -0,0 +1,473 @@
+import { Activity, DurableClock, Workflow } from "@effect/workflow";
+import { createId } from "@typebot.io/lib/createId";
+import { validateHttpReqUrl } from "@typebot.io/lib/ssrf/validateHttpReqUrl";
+import prisma from "@typebot.io/prisma";
+import {
+  ResultWebhookDeliveryStatus,
+  ResultWebhookEvent,
+} from "@typebot.io/prisma/enum";
+import { z } from "@typebot.io/zod";
+import { Duration, Effect, Schema } from "effect";
+import {
+  RESULT_WEBHOOK_DELIVERIES_RETENTION_DAYS,
+  RESULT_WEBHOOK_REQUEST_TIMEOUT_MS,
+  RESULT_WEBHOOK_RETRY_DELAYS_SECONDS,
+  RESULT_WEBHOOK_SIGNATURE_HEADER,
+} from "../constants";
+import {
+  type ResultWithAnswers,
+  resultWithAnswersSchema,
+} from "../schemas/results";
+import {
+  type ResultWebhookPayload,
+  resultWebhookEventSchema,
+} from "../schemas/webhooks";
+import { signResultWebhookPayload } from "../signResultWebhookPayload";
+
+// Each answer postpones the abandonment check, this caps very long chats
+const MAX_ABANDONMENT_CHECKS = 50;
+
+const MAX_ERROR_LENGTH = 500;
+
+export class ResultWebhookError extends Schema.TaggedError<ResultWebhookError>()(
+  "@typebot/ResultWebhookError",
+  {
+    message: Schema.String,
+  },
+) {}
+
+export const ResultWebhookDeliveryWorkflow = Workflow.make({
+  name: "ResultWebhookDeliveryWorkflow",
+  payload: {
+    deliveryId: Schema.String,
+  },
+  error: ResultWebhookError,
+  idempotencyKey: ({ deliveryId }) => deliveryId,
+});
+
+export const ResultWebhookDeliveryWorkflowLayer =
+  ResultWebhookDeliveryWorkflow.toLayer(
+    Effect.fn(function* ({ deliveryId }) {
+      yield* Effect.annotateLogsScoped({ deliveryId });
+
+      const maxAttempts = RESULT_WEBHOOK_RETRY_DELAYS_SECONDS.length + 1;
+      for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+        const isDone = yield* Activity.make({
+          name: `Attempt${attempt}`,
+          success: Schema.Boolean,
+          error: ResultWebhookError,
+          execute: Effect.tryPromise({
+            try: () =>
+              attemptDelivery({
+                deliveryId,
+                isLastAttempt: attempt === maxAttempts,
+              }),
+            catch: toResultWebhookError,
+          }),
+        }).pipe(Effect.tapError((error) => Effect.logError(error)));
+        if (isDone || attempt === maxAttempts) return;
+        yield* DurableClock.sleep({
+          name: `RetryDelay${attempt}`,
+          duration: Duration.seconds(
+            RESULT_WEBHOOK_RETRY_DELAYS_SECONDS[attempt - 1],
+          ),
+        });
+      }
+    }),
+  );
+
+export const ResultAbandonmentWorkflow = Workflow.make({
+  name: "ResultAbandonmentWorkflow",
+  payload: {
+    webhookId: Schema.String,
+    resultId: Schema.String,
+    timeout: Schema.Number,
+  },
+  error: ResultWebhookError,
+  idempotencyKey: ({ webhookId, resultId }) => `${webhookId}-${resultId}`,
+});
+
+export const ResultAbandonmentWorkflowLayer = ResultAbandonmentWorkflow.toLayer(
+  Effect.fn(function* (payload) {
+    yield* Effect.annotateLogsScoped({
+      webhookId: payload.webhookId,
+      resultId: payload.resultId,
+    });
+
+    let delay = Duration.minutes(payload.timeout);
+    for (let check = 1; check <= MAX_ABANDONMENT_CHECKS; check++) {
+      yield* DurableClock.sleep({
+        name: `InactivityTimeout${check}`,
+        duration: delay,
+      });
+      const status = yield* Activity.make({
+        name: `CheckAbandonment${check}`,
+        success: Schema.Union(
+          Schema.Struct({ type: Schema.Literal("done") }),
+          Schema.Struct({
+            type: Schema.Literal("active"),
+            remainingMs: Schema.Number,
+          }),
+          Schema.Struct({
+            type: Schema.Literal("abandoned"),
+            deliveryId: Schema.String,
+          }),
+        ),
+        error: ResultWebhookError,
+        execute: Effect.tryPromise({
+          try: () => checkAbandonment(payload),
+          catch: toResultWebhookError,
+        }),
+      }).pipe(Effect.tapError((error) => Effect.logError(error)));
+      if (status.type === "done") return;
+      if (status.type === "abandoned")
+        return yield* ResultWebhookDeliveryWorkflow.execute(
+          { deliveryId: status.deliveryId },
+          { discard: true },
+        );
+      delay = Duration.millis(status.remainingMs);
+    }
+  }),
+);
+
+export const ResultWebhookEventWorkflow = Workflow.make({
+  name: "ResultWebhookEventWorkflow",
+  payload: {
+    resultId: Schema.String,
+    event: Schema.Enums(ResultWebhookEvent),
+    triggeredAt: Schema.Number,
+  },
+  error: ResultWebhookError,
+  idempotencyKey: ({ resultId, event, triggeredAt }) =>
+    `${resultId}-${event}-${triggeredAt}`,
+});
+
+export const ResultWebhookEventWorkflowLayer =
+  ResultWebhookEventWorkflow.toLayer(
+    Effect.fn(function* (payload) {
+      yield* Effect.annotateLogsScoped({
+        resultId: payload.resultId,
+        event: payload.event,
+      });
+
+      const { deliveryIds, abandonmentWebhooks } = yield* Activity.make({
+        name: "CreateDeliveries",
+        success: Schema.Struct({
+          deliveryIds: Schema.Array(Schema.String),
+          abandonmentWebhooks: Schema.Array(
+            Schema.Struct({
+              id: Schema.String,
+              abandonmentTimeout: Schema.Number,
+            }),
+          ),
+        }),
+        error: ResultWebhookError,
+        execute: Effect.tryPromise({
+          try: () => createEventDeliveries(payload),
+          catch: toResultWebhookError,
+        }),
+      }).pipe(Effect.tapError((error) => Effect.logError(error)));
+
+      for (const deliveryId of deliveryIds)
+        yield* ResultWebhookDeliveryWorkflow.execute(
+          { deliveryId },
+          { discard: true },
+        );
+
+      for (const webhook of abandonmentWebhooks)
+        yield* ResultAbandonmentWorkflow.execute(
+          {
+            webhookId: webhook.id,
+            resultId: payload.resultId,
+            timeout: webhook.abandonmentTimeout,
+          },
+          { discard: true },
+        );
+    }),
+  );
+
+const createEventDeliveries = async ({
+  resultId,
+  event,
+  triggeredAt,
+}: {
+  resultId: string;
+  event: ResultWebhookEvent;
+  triggeredAt: number;
+}) => {
+  const resultData = await findResultWithAnswers(resultId);
+  if (!resultData) return { deliveryIds: [], abandonmentWebhooks: [] };
+  const { result, workspaceId } = resultData;
+  const webhooks = await findResultWebhooks({
+    workspaceId,
+    typebotId: result.typebotId,
+  });
+  const deliveryIds = await createDeliveries({
+    webhooks: webhooks.filter((webhook) => webhook.events.includes(event)),
+    event,
+    result,
+    createdAt: new Date(triggeredAt),
+  });
+  return {
+    deliveryIds,
+    abandonmentWebhooks:
+      event === ResultWebhookEvent.RESULT_CREATED
+        ? webhooks.flatMap((webhook) =>
+            webhook.abandonmentTimeout &&
+            webhook.events.includes(ResultWebhookEvent.RESULT_ABANDONED)
+              ? [
+                  {
+                    id: webhook.id,
+                    abandonmentTimeout: webhook.abandonmentTimeout,
+                  },
+                ]
+              : [],
+          )
+        : [],
+  };
+};
+
+export const checkAbandonment = async ({
+  webhookId,
+  resultId,
+  timeout,
+}: {
+  webhookId: string;
+  resultId: string;
+  timeout: number;
+}) => {
+  const resultData = await findResultWithAnswers(resultId);
+  if (!resultData || resultData.result.isCompleted)
+    return { type: "done" as const };
+  const { result, workspaceId, lastActivityAt } = resultData;
+  const remainingMs =
+    lastActivityAt.getTime() + timeout * 60 * 1000 - Date.now();
+  if (remainingMs > 0) return { type: "active" as const, remainingMs };
+  // Visitors who never answered are not listed in the results either
+  if (!result.hasStarted) return { type: "done" as const };
+  const [webhook] = await findResultWebhooks({
+    workspaceId,
+    typebotId: result.typebotId,
+    webhookId,
+  });
+  if (!webhook?.events.includes(ResultWebhookEvent.RESULT_ABANDONED))
+    return { type: "done" as const };
+  const [deliveryId] = await createDeliveries({
+    webhooks: [webhook],
+    event: ResultWebhookEvent.RESULT_ABANDONED,
+    result,
+    createdAt: new Date(),
+  });
+  return { type: "abandoned" as const, deliveryId };
+};
+
+const attemptDelivery = async ({
+  deliveryId,
+  isLastAttempt,
+}: {
+  deliveryId: string;
+  isLastAttempt: boolean;
+}) => {
+  const delivery = await prisma.resultWebhookDelivery.findUnique({
+    where: { id: deliveryId },
+    select: {
+      event: true,
+      payload: true,
+      webhook: {
+        select: { url: true, secret: true, isEnabled: true },
+      },
+    },
+  });
+  if (!delivery) return true;
+  if (!delivery.webhook.isEnabled) {
+    await prisma.resultWebhookDelivery.update({
+      where: { id: deliveryId },
+      data: {
+        status: ResultWebhookDeliveryStatus.FAILED,
+        error: "Webhook was disabled",
+      },
+    });
+    return true;
+  }
+  const response = await sendWebhookRequest({
+    url: delivery.webhook.url,
+    secret: delivery.webhook.secret,
+    body: JSON.stringify(delivery.payload),
+    headers: {
+      "x-typebot-event": delivery.event,
+      "x-typebot-delivery": deliveryId,
+    },
+  });
+  await prisma.resultWebhookDelivery.update({
+    where: { id: deliveryId },
+    data: {
+      status: response.isSuccess
+        ? ResultWebhookDeliveryStatus.SUCCEEDED
+        : isLastAttempt
+          ? ResultWebhookDeliveryStatus.FAILED
+          : ResultWebhookDeliveryStatus.PENDING,
+      attempts: { increment: 1 },
+      responseStatus: response.status ?? null,
+      error: response.error ?? null,
+      lastAttemptAt: new Date(),
+    },
+  });
+  return response.isSuccess;
+};
+
+const sendWebhookRequest = async ({
+  url,
+  secret,
+  body,
+  headers,
+}: {
+  url: string;
+  secret: string;
+  body: string;
+  headers: Record<string, string>;
+}): Promise<{ isSuccess: boolean; status?: number; error?: string }> => {
+  try {
+    validateHttpReqUrl(url);
+    const response = await fetch(url, {
+      method: "POST",
+      headers: {
+        ...headers,
+        "Content-Type": "application/json",
+        [RESULT_WEBHOOK_SIGNATURE_HEADER]: signResultWebhookPayload({
+          body,
+          secret,
+          timestamp: Math.floor(Date.now() / 1000),
+        }),
+      },
+      body,
+      // Following redirects would bypass the URL validation
+      redirect: "manual",
+      signal: AbortSignal.timeout(RESULT_WEBHOOK_REQUEST_TIMEOUT_MS),
+    });
+    if (response.ok) return { isSuccess: true, status: response.status };
+    const responseText = await response.text().catch(() => "");
+    return {
+      isSuccess: false,
+      status: response.status,
+      error:
+        `HTTP ${response.status}${responseText ? `: ${responseText}` : ""}`.slice(
+          0,
+          MAX_ERROR_LENGTH,
+        ),
+    };
+  } catch (error) {
+    return {
+      isSuccess: false,
+      error: (error instanceof Error ? error.message : "Unknown error").slice(
+        0,
+        MAX_ERROR_LENGTH,
+      ),
+    };
+  }
+};
+
+const findResultWithAnswers = async (
+  resultId: string,
+): Promise<
+  | { result: ResultWithAnswers; workspaceId: string; lastActivityAt: Date }
+  | undefined
+> => {
+  const result = await prisma.result.findUnique({
+    where: { id: resultId },
+    include: {
+      typebot: { select: { workspaceId: true } },
+      answers: {
+        select: { blockId: true, content: true, createdAt: true },
+      },
+      answersV2: {
+        select: { blockId: true, content: true, createdAt: true },
+      },
+    },
+  });
+  if (!result) return;
+  const { answers, answersV2, typebot, ...rest } = result;
+  const sortedAnswers = answers
+    .concat(answersV2)
+    .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  return {
+    // Answer dates are not part of the parsed result
+    result: resultWithAnswersSchema.parse({ ...rest, answers: sortedAnswers }),
+    workspaceId: typebot.workspaceId,
+    lastActivityAt: sortedAnswers.at(-1)?.createdAt ?? result.createdAt,
+  };
+};
+
+const findResultWebhooks = async ({
+  workspaceId,
+  typebotId,
+  webhookId,
+}: {
+  workspaceId: string;
+  typebotId: string;
+  webhookId?: string;
+}) => {
+  const webhooks = await prisma.resultWebhook.findMany({
+    where: {
+      id: webhookId,
+      workspaceId,
+      isEnabled: true,
+      OR: [{ typebotId: null }, { typebotId }],
+    },
+    select: { id: true, events: true, abandonmentTimeout: true },
+  });
+  return webhooks.map((webhook) => ({
+    ...webhook,
+    events: z.array(resultWebhookEventSchema).catch([]).parse(webhook.events),
+  }));
+};
+
+const createDeliveries = async ({
+  webhooks,
+  event,
+  result,
+  createdAt,
+}: {
+  webhooks: { id: string }[];
+  event: ResultWebhookEvent;
+  result: ResultWithAnswers;
+  createdAt: Date;
+}) => {
+  if (webhooks.length === 0) return [];
+  const deliveries = webhooks.map((webhook) => {
+    const id = createId();
+    const payload = {
+      id,
+      event,
+      createdAt,
+      result,
+    } satisfies ResultWebhookPayload;
+    return {
+      id,
+      webhookId: webhook.id,
+      resultId: result.id,
+      event,
+      // Dates are stored as ISO strings, as they are sent
+      payload: JSON.parse(JSON.stringify(payload)),
+    };
+  });
+  await prisma.$transaction([
+    prisma.resultWebhookDelivery.deleteMany({
+      where: {
+        webhookId: { in: webhooks.map((webhook) => webhook.id) },
+        createdAt: {
+          lt: new Date(
+            createdAt.getTime() -
+              RESULT_WEBHOOK_DELIVERIES_RETENTION_DAYS * 24 * 60 * 60 * 1000,
+          ),
+        },
+      },
+    }),
+    prisma.resultWebhookDelivery.createMany({ data: deliveries }),
+  ]);
+  return deliveries.map((delivery) => delivery.id);
+};
+
+const toResultWebhookError = (error: unknown) =>
+  new ResultWebhookError({
+    message: error instanceof Error ? error.message : "Unknown error",
+  });
@@ -1,12 +1,17 @@
 import { describe, expect, it } from "bun:test";
 import { WorkflowEngine } from "@effect/workflow";
+import {
+  ComparisonOperators,
+  LogicalOperator,
+} from "@typebot.io/conditions/constants";
 import {
   RedisClient,
   RedisGetError,
   RedisPublishError,
   RedisSetError,
 } from "@typebot.io/lib/redis/RedisClient";
-import { Chunk, Effect, Fiber, Layer, Queue, Stream } from "effect";
+import type { ResultsFilter } from "@typebot.io/typebot/schemas/resultsFilter";
+import { Chunk, Effect, Fiber, Layer, Queue, Schema, Stream } from "effect";
 import { ExportResultsWorkflow } from "./exportResultsWorkflow";
 import { executeExportResultsWorkflowHandler } from "./rpc";
 
@@ -82,3 +87,36 @@ describe("ExecuteExportResultsWorkflow", () => {
     });
   });
 });
+
+describe("ExportResultsWorkflow payload", () => {
+  it("should keep every filter field through the RPC serialization", () => {
+    const filter: ResultsFilter = {
+      search: "john",
+      status: "completed",
+      resultStatus: "DONE",
+      tags: ["vip"],
+      logicalOperator: LogicalOperator.AND,
+      comparisons: [
+        {
+          id: "comparison",
+          columnId: "date",
+          comparisonOperator: ComparisonOperators.GREATER,
+          value: "2026-01-01",
+        },
+      ],
+    };
+    const payload = {
+      id: "test-workflow-id",
+      typebotId: "test-typebot-id",
+      filter,
+    };
+    const encoded = JSON.parse(
+      JSON.stringify(
+        Schema.encodeSync(ExportResultsWorkflow.payloadSchema)(payload),
+      ),
+    );
+    expect(
+      Schema.decodeUnknownSync(ExportResultsWorkflow.payloadSchema)(encoded),
+    ).toEqual(payload);
+  });
+});
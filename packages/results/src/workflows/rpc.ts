@@ -15,6 +15,7 @@ import {
   ExportResultsWorkflow,
   SendExportToEmailWorkflow,
 } from "./exportResultsWorkflow";
+import { ResultWebhookEventWorkflow } from "./resultWebhooksWorkflow";
 
 export const RPC_SECRET_HEADER_KEY = "x-rpc-secret";
 
@@ -48,13 +49,15 @@ export class ResultsWorkflowsRpc extends RpcGroup.make(
     error: SendExportToEmailWorkflow.errorSchema,
     payload: SendExportToEmailWorkflow.payloadSchema,
   }),
+  Rpc.make("DispatchResultWebhookEvent", {
+    error: ResultWebhookEventWorkflow.errorSchema,
+    payload: ResultWebhookEventWorkflow.payloadSchema,
+  }),
 ) {}
 
-export const executeExportResultsWorkflowHandler = (payload: {
-  readonly id: string;
-  readonly typebotId: string;
-  readonly includeDeletedBlocks?: boolean;
-}) =>
+export const executeExportResultsWorkflowHandler = (
+  payload: typeof ExportResultsWorkflow.payloadSchema.Type,
+) =>
   Effect.gen(function* () {
     const redis = yield* RedisClient;
 
@@ -95,6 +98,10 @@ export const ResultsWorkflowsRpcLayer = ResultsWorkflowsRpc.toLayer(
       SendExportToEmailWorkflow.execute(payload, {
         discard: true,
       }),
+    DispatchResultWebhookEvent: (payload) =>
+      ResultWebhookEventWorkflow.execute(payload, {
+        discard: true,
+      }),
   }),
 );
 
@@ -0,0 +1,287 @@
+import { Activity, Workflow } from "@effect/workflow";
+import { renderResultsExportLinkEmail } from "@typebot.io/emails/transactional/ResultsExportLinkEmail";
+import {
+  NodemailerClient,
+  NodemailerError,
+} from "@typebot.io/lib/nodemailer/NodemailerClient";
+import prisma from "@typebot.io/prisma";
+import { ResultsExportRunStatus } from "@typebot.io/prisma/enum";
+import { z } from "@typebot.io/zod";
+import { Effect, Layer, Schedule, Schema } from "effect";
+import {
+  RESULTS_EXPORT_RUNS_RETENTION_DAYS,
+  resultsExportFormats,
+} from "../constants";
+import { getExportFileName } from "../getExportFileName";
+import { getNextCronDate } from "../getNextCronDate";
+import { resultsExportDestinationSchema } from "../schemas/exportSchedules";
+import { ExportResultsWorkflow } from "./exportResultsWorkflow";
+
+export class ScheduledExportError extends Schema.TaggedError<ScheduledExportError>()(
+  "@typebot/ScheduledExportError",
+  {
+    message: Schema.String,
+  },
+) {}
+
+export const ScheduledExportWorkflow = Workflow.make({
+  name: "ScheduledExportWorkflow",
+  payload: {
+    runId: Schema.String,
+  },
+  error: Schema.Union(
+    ScheduledExportError,
+    ExportResultsWorkflow.errorSchema,
+    NodemailerError,
+  ),
+  idempotencyKey: ({ runId }) => runId,
+});
+
+export const ScheduledExportWorkflowLayer = ScheduledExportWorkflow.toLayer(
+  Effect.fn(function* (payload) {
+    yield* Effect.annotateLogsScoped({
+      runId: payload.runId,
+    });
+
+    yield* runScheduledExport(payload).pipe(
+      Effect.tapError((error) =>
+        Effect.tryPromise(() =>
+          prisma.resultsExportRun.update({
+            where: { id: payload.runId },
+            data: {
+              status: ResultsExportRunStatus.FAILED,
+              error: parseRunErrorMessage(error),
+              finishedAt: new Date(),
+            },
+          }),
+        ).pipe(Effect.ignore, Effect.zipRight(Effect.logError(error))),
+      ),
+    );
+  }),
+);
+
+const runScheduledExport = (payload: { runId: string }) =>
+  Effect.gen(function* () {
+    const run = yield* Activity.make({
+      name: "StartRun",
+      error: ScheduledExportError,
+      success: Schema.Struct({
+        typebotId: Schema.String,
+        fileName: Schema.String,
+        format: Schema.Literal(...resultsExportFormats),
+        createdAfter: Schema.Number.pipe(Schema.optional),
+        createdBefore: Schema.Number,
+        destination: Schema.Union(
+          Schema.Struct({
+            type: Schema.Literal("email"),
+            emails: Schema.Array(Schema.String),
+          }),
+          Schema.Struct({
+            type: Schema.Literal("s3"),
+            credentialsId: Schema.String,
+            pathPrefix: Schema.String.pipe(Schema.optional),
+          }),
+        ),
+      }),
+      execute: Effect.tryPromise({
+        try: async () => {
+          const run = await prisma.resultsExportRun.update({
+            where: { id: payload.runId },
+            data: { status: ResultsExportRunStatus.RUNNING },
+            select: {
+              scheduledAt: true,
+              schedule: {
+                select: {
+                  format: true,
+                  isIncremental: true,
+                  destination: true,
+                  lastExportedUntil: true,
+                  typebot: {
+                    select: {
+                      id: true,
+                      name: true,
+                      publicId: true,
+                    },
+                  },
+                },
+              },
+            },
+          });
+          const format = z
+            .enum(resultsExportFormats)
+            .parse(run.schedule.format);
+          return {
+            typebotId: run.schedule.typebot.id,
+            fileName: getExportFileName(run.schedule.typebot, format, {
+              date: run.scheduledAt,
+              withTime: true,
+            }),
+            format,
+            createdAfter:
+              run.schedule.isIncremental && run.schedule.lastExportedUntil
+                ? run.schedule.lastExportedUntil.getTime()
+                : undefined,
+            createdBefore: run.scheduledAt.getTime(),
+            destination: resultsExportDestinationSchema.parse(
+              run.schedule.destination,
+            ),
+          };
+        },
+        catch: toScheduledExportError,
+      }),
+    });
+
+    const exportResult = yield* ExportResultsWorkflow.execute({
+      id: `scheduled-${payload.runId}`,
+      typebotId: run.typebotId,
+      format: run.format,
+      fileName: run.fileName,
+      createdAfter: run.createdAfter,
+      createdBefore: run.createdBefore,
+      destination:
+        run.destination.type === "s3"
+          ? {
+              credentialsId: run.destination.credentialsId,
+              pathPrefix: run.destination.pathPrefix,
+            }
+          : undefined,
+    });
+
+    if (run.destination.type === "email") {
+      const emails = run.destination.emails;
+      yield* Activity.make({
+        name: "SendEmail",
+        error: NodemailerError,
+        execute: Effect.gen(function* () {
+          const emailClient = yield* NodemailerClient;
+          for (const email of emails) {
+            const html = yield* Effect.tryPromise({
+              try: () =>
+                renderResultsExportLinkEmail({
+                  email,
+                  typebotName: exportResult.typebotName,
+                  fileUrl: exportResult.fileUrl.toString(),
+                  isScheduled: true,
+                }),
+              catch: (error) => new NodemailerError({ cause: error }),
+            });
+            yield* emailClient.sendMail({
+              to: email,
+              subject: `Your scheduled results export is ready`,
+              html,
+            });
+          }
+        }),
+      });
+    }
+
+    yield* Activity.make({
+      name: "CompleteRun",
+      error: ScheduledExportError,
+      execute: Effect.tryPromise({
+        try: async () => {
+          const { scheduleId } = await prisma.resultsExportRun.update({
+            where: { id: payload.runId },
+            data: {
+              status: ResultsExportRunStatus.SUCCEEDED,
+              totalRowsExported: exportResult.totalRowsExported,
+              fileUrl: exportResult.fileUrl.toString(),
+              finishedAt: new Date(),
+            },
+          });
+          // Incremental exports resume from there. A failed run is not
+          // recorded so its results are included in the next one.
+          await prisma.resultsExportSchedule.update({
+            where: { id: scheduleId },
+            data: { lastExportedUntil: new Date(run.createdBefore) },
+          });
+        },
+        catch: toScheduledExportError,
+      }),
+    });
+  });
+
+const parseRunErrorMessage = (error: { _tag: string }) =>
+  "message" in error && typeof error.message === "string" && error.message
+    ? error.message
+    : error._tag.replace("@typebot/", "");
+
+const toScheduledExportError = (error: unknown) =>
+  new ScheduledExportError({
+    message: error instanceof Error ? error.message : "Unknown error",
+  });
+
+/**
+ * Checks every minute for schedules that are due. Each due schedule is claimed
+ * by moving its `nextRunAt` forward so that a run is only started once even if
+ * several instances of the workflows app are running.
+ */
+export const ResultsExportSchedulerLayer = Layer.scopedDiscard(
+  Effect.gen(function* () {
+    const now = new Date();
+    const dueSchedules = yield* Effect.tryPromise(() =>
+      prisma.resultsExportSchedule.findMany({
+        where: { isEnabled: true, nextRunAt: { lte: now } },
+        select: {
+          id: true,
+          nextRunAt: true,
+          cronExpression: true,
+          timeZone: true,
+        },
+        orderBy: { nextRunAt: "asc" },
+        take: 100,
+      }),
+    );
+    for (const schedule of dueSchedules) {
+      const runId = yield* Effect.tryPromise(() =>
+        claimScheduledExportRun(schedule, { now }),
+      );
+      if (!runId) continue;
+      yield* ScheduledExportWorkflow.execute({ runId }, { discard: true });
+    }
+  }).pipe(
+    Effect.catchAll((error) => Effect.logError(error)),
+    Effect.repeat(Schedule.spaced("1 minute")),
+    Effect.forkScoped,
+  ),
+);
+
+const claimScheduledExportRun = (
+  schedule: {
+    id: string;
+    nextRunAt: Date | null;
+    cronExpression: string;
+    timeZone: string | null;
+  },
+  { now }: { now: Date },
+) =>
+  prisma.$transaction(async (tx) => {
+    if (!schedule.nextRunAt) return;
+    const { count } = await tx.resultsExportSchedule.updateMany({
+      where: { id: schedule.id, nextRunAt: schedule.nextRunAt },
+      data: {
+        nextRunAt:
+          getNextCronDate(schedule.cronExpression, {
+            after: now,
+            timeZone: schedule.timeZone ?? undefined,
+          }) ?? null,
+      },
+    });
+    if (count === 0) return;
+    await tx.resultsExportRun.deleteMany({
+      where: {
+        scheduleId: schedule.id,
+        createdAt: {
+          lt: new Date(
+            now.getTime() -
+              RESULTS_EXPORT_RUNS_RETENTION_DAYS * 24 * 60 * 60 * 1000,
+          ),
+        },
+      },
+    });
+    const run = await tx.resultsExportRun.create({
+      data: { scheduleId: schedule.id, scheduledAt: schedule.nextRunAt },
+      select: { id: true },
+    });
+    return run.id;
+  });
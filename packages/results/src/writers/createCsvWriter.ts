@@ -0,0 +1,38 @@
+import { unparse } from "papaparse";
+import type { ResultsExportWriter, ResultsExportWriterProps } from "./types";
+import { endStream, writeToStream } from "./writeToStream";
+
+export const createCsvWriter = ({
+  stream,
+  columns,
+}: ResultsExportWriterProps): ResultsExportWriter => {
+  let isHeaderWritten = false;
+
+  const writeHeader = async () => {
+    if (isHeaderWritten) return;
+    await writeToStream(
+      stream,
+      unparse([columns.map((column) => column.label)]) + "\n",
+    );
+    isHeaderWritten = true;
+  };
+
+  return {
+    write: async (rows) => {
+      await writeHeader();
+      if (rows.length === 0) return;
+      await writeToStream(
+        stream,
+        unparse(
+          rows.map(({ cells }) =>
+            columns.map((column) => cells[column.id]?.plainText ?? ""),
+          ),
+        ) + "\n",
+      );
+    },
+    close: async () => {
+      await writeHeader();
+      await endStream(stream);
+    },
+  };
+};
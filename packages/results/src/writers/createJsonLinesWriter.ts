@@ -0,0 +1,45 @@
+import type { ResultsExportWriter, ResultsExportWriterProps } from "./types";
+import { endStream, writeToStream } from "./writeToStream";
+
+export const createJsonLinesWriter = ({
+  stream,
+  resultHeader,
+}: ResultsExportWriterProps): ResultsExportWriter => {
+  const columnLabelByBlockId = new Map(
+    resultHeader.flatMap((headerCell) =>
+      (headerCell.blocks ?? []).map((block) => [block.id, headerCell.label]),
+    ),
+  );
+
+  return {
+    write: async (rows) => {
+      if (rows.length === 0) return;
+      await writeToStream(
+        stream,
+        rows
+          .map(({ result }) =>
+            JSON.stringify({
+              id: result.id,
+              createdAt: result.createdAt,
+              isCompleted: result.isCompleted,
+              status: result.status,
+              tags: result.tags ?? [],
+              notes: result.notes,
+              answers: result.answers.map((answer) => ({
+                blockId: answer.blockId,
+                column: columnLabelByBlockId.get(answer.blockId),
+                content: answer.content,
+              })),
+              variables: result.variables.map((variable) => ({
+                id: variable.id,
+                name: variable.name,
+                value: variable.value,
+              })),
+            }),
+          )
+          .join("\n") + "\n",
+      );
+    },
+    close: () => endStream(stream),
+  };
+};
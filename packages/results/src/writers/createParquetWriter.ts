@@ -0,0 +1,53 @@
+import { ParquetSchema, ParquetWriter } from "@dsnp/parquetjs";
+import {
+  type ExportColumnType,
+  parseExportCellValue,
+} from "../parseExportColumns";
+import type { ResultsExportWriter, ResultsExportWriterProps } from "./types";
+
+const parquetTypes = {
+  string: "UTF8",
+  number: "DOUBLE",
+  boolean: "BOOLEAN",
+  date: "TIMESTAMP_MILLIS",
+} as const satisfies Record<ExportColumnType, string>;
+
+export const createParquetWriter = async ({
+  stream,
+  columns,
+}: ResultsExportWriterProps): Promise<ResultsExportWriter> => {
+  const writer = await ParquetWriter.openStream(
+    new ParquetSchema(
+      Object.fromEntries(
+        columns.map((column) => [
+          column.label,
+          { type: parquetTypes[column.type], optional: true },
+        ]),
+      ),
+    ),
+    stream,
+  );
+
+  return {
+    write: async (rows) => {
+      for (const { result, cells } of rows) {
+        const row: Record<string, string | number | boolean | Date> = {};
+        for (const column of columns) {
+          const value = parseExportCellValue(column, {
+            result,
+            cell: cells[column.id],
+          });
+          // Values that can't be converted to the column type are left empty
+          if (
+            value === undefined ||
+            (column.type !== "string" && typeof value === "string")
+          )
+            continue;
+          row[column.label] = value;
+        }
+        await writer.appendRow(row);
+      }
+    },
+    close: () => writer.close(),
+  };
+};
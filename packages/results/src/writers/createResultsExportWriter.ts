@@ -0,0 +1,22 @@
+import type { ResultsExportFormat } from "../constants";
+import { createCsvWriter } from "./createCsvWriter";
+import { createJsonLinesWriter } from "./createJsonLinesWriter";
+import { createParquetWriter } from "./createParquetWriter";
+import { createXlsxWriter } from "./createXlsxWriter";
+import type { ResultsExportWriter, ResultsExportWriterProps } from "./types";
+
+export const createResultsExportWriter = async (
+  format: ResultsExportFormat,
+  props: ResultsExportWriterProps,
+): Promise<ResultsExportWriter> => {
+  switch (format) {
+    case "csv":
+      return createCsvWriter(props);
+    case "jsonl":
+      return createJsonLinesWriter(props);
+    case "xlsx":
+      return createXlsxWriter(props);
+    case "parquet":
+      return createParquetWriter(props);
+  }
+};
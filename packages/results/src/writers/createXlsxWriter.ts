@@ -0,0 +1,51 @@
+import ExcelJS from "exceljs";
+import { parseExportCellValue } from "../parseExportColumns";
+import type { ResultsExportWriter, ResultsExportWriterProps } from "./types";
+
+const dateFormat = "yyyy-mm-dd hh:mm:ss";
+
+export const createXlsxWriter = ({
+  stream,
+  sheets,
+}: ResultsExportWriterProps): ResultsExportWriter => {
+  const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({
+    stream,
+    useStyles: true,
+  });
+  const worksheets = sheets.map((sheet) => {
+    const worksheet = workbook.addWorksheet(sheet.name);
+    worksheet.columns = sheet.columns.map((column) => ({
+      header: column.label,
+      key: column.id,
+      width: column.type === "string" ? 30 : 20,
+      style: column.type === "date" ? { numFmt: dateFormat } : undefined,
+    }));
+    return { sheet, worksheet };
+  });
+
+  return {
+    write: async (rows) => {
+      for (const { sheet, worksheet } of worksheets) {
+        for (const { result, cells } of rows) {
+          const values = sheet.columns.map((column) =>
+            parseExportCellValue(column, { result, cell: cells[column.id] }),
+          );
+          // Results that never reached a linked bot get no row in its sheet
+          if (
+            sheet.isLinkedTypebot &&
+            sheet.columns.every(
+              (column, index) =>
+                column.id === "date" || values[index] === undefined,
+            )
+          )
+            continue;
+          worksheet.addRow(values).commit();
+        }
+      }
+    },
+    close: async () => {
+      for (const { worksheet } of worksheets) worksheet.commit();
+      await workbook.commit();
+    },
+  };
+};
@@ -0,0 +1,24 @@
+import type { Writable } from "stream";
+import type { ExportColumn, ExportSheet } from "../parseExportColumns";
+import type {
+  ResultHeaderCell,
+  ResultWithAnswers,
+  TableData,
+} from "../schemas/results";
+
+export type ResultsExportRow = {
+  result: ResultWithAnswers;
+  cells: TableData;
+};
+
+export type ResultsExportWriterProps = {
+  stream: Writable;
+  columns: ExportColumn[];
+  sheets: ExportSheet[];
+  resultHeader: ResultHeaderCell[];
+};
+
+export type ResultsExportWriter = {
+  write: (rows: ResultsExportRow[]) => Promise<void>;
+  close: () => Promise<void>;
+};
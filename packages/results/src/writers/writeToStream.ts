@@ -0,0 +1,11 @@
+import { once } from "events";
+import type { Writable } from "stream";
+
+export const writeToStream = async (stream: Writable, chunk: string) => {
+  if (!stream.write(chunk)) await once(stream, "drain");
+};
+
+export const endStream = async (stream: Writable) => {
+  stream.end();
+  if (!stream.writableFinished) await once(stream, "finish");
+};
@@ -173,6 +173,112 @@ describe("convertRichTextToMarkdown", () => {
     );
   });
 
+  it("should convert to Telegram syntax correctly", () => {
+    const richText: TElement[] = [
+      {
+        type: "p",
+        children: [{ text: "bold", bold: true }],
+      },
+      {
+        type: "p",
+        children: [{ text: "" }],
+      },
+      {
+        children: [
+          {
+            children: [
+              {
+                children: [
+                  {
+                    text: "One",
+                  },
+                ],
+                type: "lic",
+              },
+            ],
+            type: "li",
+          },
+        ],
+        type: "ul",
+      },
+      {
+        type: "p",
+        children: [
+          { text: "italic", italic: true },
+          { text: " " },
+          {
+            children: [{ text: "link" }],
+            type: "a",
+            url: "https://typebot.io",
+          },
+        ],
+      },
+      {
+        type: "p",
+        children: [{ text: "striked", strikethrough: true }],
+      },
+    ];
+    const markdown = convertRichTextToMarkdown(richText, {
+      flavour: "telegram",
+    });
+    expect(markdown).toBe(
+      "*bold*\n\n- One\n_italic_ [link](https://typebot.io)\nstriked",
+    );
+  });
+
+  it("should convert to SMS plain text correctly", () => {
+    const richText: TElement[] = [
+      {
+        type: "p",
+        children: [{ text: "bold", bold: true }],
+      },
+      {
+        type: "p",
+        children: [{ text: "" }],
+      },
+      {
+        children: [
+          {
+            children: [
+              {
+                children: [
+                  {
+                    text: "One",
+                  },
+                ],
+                type: "lic",
+              },
+            ],
+            type: "li",
+          },
+        ],
+        type: "ul",
+      },
+      {
+        type: "p",
+        children: [
+          { text: "italic", italic: true },
+          { text: " " },
+          {
+            children: [{ text: "link" }],
+            type: "a",
+            url: "https://typebot.io",
+          },
+        ],
+      },
+      {
+        type: "p",
+        children: [{ text: "striked", strikethrough: true }],
+      },
+    ];
+    const markdown = convertRichTextToMarkdown(richText, {
+      flavour: "sms",
+    });
+    expect(markdown).toBe(
+      "bold\n\n- One\nitalic link (https://typebot.io)\nstriked",
+    );
+  });
+
   it("should convert variable link correctly", () => {
     const richText: TElement[] = [
       {
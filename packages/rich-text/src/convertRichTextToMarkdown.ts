@@ -3,7 +3,7 @@ import { createSlateEditor, type Descendant, type Element } from "./plate";
 import { plateCorePlugins } from "./plateCorePlugins";
 
 type Options = {
-  flavour?: "commonmark" | "whatsapp";
+  flavour?: "commonmark" | "whatsapp" | "telegram" | "sms";
 };
 
 const defaultOptions = {
@@ -57,15 +57,60 @@ export const convertRichTextToMarkdown = (
                 },
               },
             }
-          : {
-              handlers: {
-                text: textHandler,
-                link: (node, _parent, state, info) => {
-                  const text = state.containerPhrasing(node, info);
-                  return text ? `[${text}](${node.url})` : node.url;
+          : flavour === "telegram"
+            ? {
+                // Telegram legacy Markdown uses `*` for bold, so list items can't use it.
+                bullet: "-",
+                handlers: {
+                  text: textHandler,
+                  link: (node, _parent, state, info) => {
+                    const text = state.containerPhrasing(node, info);
+                    return text ? `[${text}](${node.url})` : node.url;
+                  },
+                  delete: (node, _parent, state, info) =>
+                    state.containerPhrasing(node, info),
+                  strong: (node, _parent, state, info) => {
+                    const value = state.containerPhrasing(node, info);
+                    return `*${value}*`;
+                  },
+                  mdxJsxTextElement: (node, _parent, state, info) => {
+                    return state.containerPhrasing(node, info);
+                  },
                 },
-              },
-            }),
+              }
+            : flavour === "sms"
+              ? {
+                  // SMS can't be formatted, only the text is kept.
+                  bullet: "-",
+                  handlers: {
+                    text: textHandler,
+                    link: (node, _parent, state, info) => {
+                      const text = state.containerPhrasing(node, info);
+                      return text && text !== node.url
+                        ? `${text} (${node.url})`
+                        : node.url;
+                    },
+                    delete: (node, _parent, state, info) =>
+                      state.containerPhrasing(node, info),
+                    strong: (node, _parent, state, info) =>
+                      state.containerPhrasing(node, info),
+                    emphasis: (node, _parent, state, info) =>
+                      state.containerPhrasing(node, info),
+                    inlineCode: (node) => node.value,
+                    mdxJsxTextElement: (node, _parent, state, info) => {
+                      return state.containerPhrasing(node, info);
+                    },
+                  },
+                }
+              : {
+                  handlers: {
+                    text: textHandler,
+                    link: (node, _parent, state, info) => {
+                      const text = state.containerPhrasing(node, info);
+                      return text ? `[${text}](${node.url})` : node.url;
+                    },
+                  },
+                }),
       },
     })
     .slice(0, -1);
@@ -1,5 +1,5 @@
 import * as p from "@clack/prompts";
-import { streamAllResultsToCsv } from "@typebot.io/results/streamAllResultsToCsv";
+import { streamAllResultsToFile } from "@typebot.io/results/streamAllResultsToFile";
 import cliProgress from "cli-progress";
 
 export const exportResults = async () => {
@@ -19,7 +19,7 @@ export const exportResults = async () => {
 
   progressBar.start(100, 0);
 
-  const result = await streamAllResultsToCsv(typebotId, {
+  const result = await streamAllResultsToFile(typebotId, {
     onProgressUpdate: (progress) => {
       progressBar.update(progress);
     },
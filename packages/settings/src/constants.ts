@@ -41,8 +41,11 @@ export const defaultSystemMessages = {
   fileUploadError: "An error occured while uploading the files",
   fileUploadSizeError: "[[file]] is larger than [[limit]]MB",
   whatsAppPictureChoiceSelectLabel: "Select",
+  whatsAppListButtonLabel: "Choose",
 } as const satisfies NonNullable<Settings["general"]>["systemMessages"];
 
 export const defaultSessionExpiryTimeout = 4;
 
+export const defaultScheduleTimeZone = "UTC";
+
 export const rememberUserStorages = ["session", "local"] as const;
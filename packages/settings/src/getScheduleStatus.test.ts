@@ -0,0 +1,83 @@
+import { describe, expect, it } from "bun:test";
+import { getScheduleStatus } from "./getScheduleStatus";
+
+// 2026-03-02 is a Monday
+const mondayAt = (time: string) => new Date(`2026-03-02T${time}:00.000Z`);
+
+describe("getScheduleStatus", () => {
+  it("should be open without schedule", () => {
+    expect(getScheduleStatus(undefined)).toBe("open");
+  });
+
+  it("should respect publish dates", () => {
+    const schedule = {
+      publishAt: "2026-03-02T10:00:00.000Z",
+      unpublishAt: "2026-03-03T10:00:00.000Z",
+    };
+    expect(getScheduleStatus(schedule, { now: mondayAt("09:59") })).toBe(
+      "notPublishedYet",
+    );
+    expect(getScheduleStatus(schedule, { now: mondayAt("10:00") })).toBe(
+      "open",
+    );
+    expect(
+      getScheduleStatus(schedule, {
+        now: new Date("2026-03-03T10:00:00.000Z"),
+      }),
+    ).toBe("unpublished");
+  });
+
+  it("should ignore invalid dates", () => {
+    expect(
+      getScheduleStatus({ publishAt: "tomorrow" }, { now: mondayAt("09:00") }),
+    ).toBe("open");
+  });
+
+  it("should check availability windows in the configured time zone", () => {
+    const schedule = {
+      timeZone: "Europe/Paris",
+      availability: {
+        isEnabled: true,
+        windows: [
+          { id: "1", weekday: 1, startTime: "09:00", endTime: "18:00" },
+        ],
+      },
+    };
+    // 08:30 UTC is 09:30 in Paris in winter
+    expect(getScheduleStatus(schedule, { now: mondayAt("08:30") })).toBe(
+      "open",
+    );
+    expect(getScheduleStatus(schedule, { now: mondayAt("07:30") })).toBe(
+      "outsideAvailability",
+    );
+    expect(getScheduleStatus(schedule, { now: mondayAt("17:00") })).toBe(
+      "outsideAvailability",
+    );
+  });
+
+  it("should support windows spanning over midnight", () => {
+    const schedule = {
+      availability: {
+        isEnabled: true,
+        windows: [
+          { id: "1", weekday: 0, startTime: "22:00", endTime: "02:00" },
+        ],
+      },
+    };
+    expect(getScheduleStatus(schedule, { now: mondayAt("01:59") })).toBe(
+      "open",
+    );
+    expect(getScheduleStatus(schedule, { now: mondayAt("02:00") })).toBe(
+      "outsideAvailability",
+    );
+  });
+
+  it("should be open when availability is disabled", () => {
+    expect(
+      getScheduleStatus(
+        { availability: { isEnabled: false, windows: [] } },
+        { now: mondayAt("03:00") },
+      ),
+    ).toBe("open");
+  });
+});
@@ -0,0 +1,96 @@
+import { defaultScheduleTimeZone } from "./constants";
+import type { AvailabilityWindow, ScheduleSettings } from "./schemas";
+
+export type ScheduleStatus =
+  | "open"
+  | "notPublishedYet"
+  | "unpublished"
+  | "outsideAvailability";
+
+export const getScheduleStatus = (
+  schedule: ScheduleSettings | undefined,
+  { now = new Date() }: { now?: Date } = {},
+): ScheduleStatus => {
+  if (!schedule) return "open";
+  const publishAt = parseDate(schedule.publishAt);
+  if (publishAt && now < publishAt) return "notPublishedYet";
+  const unpublishAt = parseDate(schedule.unpublishAt);
+  if (unpublishAt && now >= unpublishAt) return "unpublished";
+  if (
+    schedule.availability?.isEnabled &&
+    !isWithinAvailabilityWindows(schedule.availability.windows ?? [], {
+      now,
+      timeZone: schedule.timeZone,
+    })
+  )
+    return "outsideAvailability";
+  return "open";
+};
+
+const isWithinAvailabilityWindows = (
+  windows: AvailabilityWindow[],
+  { now, timeZone }: { now: Date; timeZone?: string },
+) => {
+  const { weekday, minutes } = getZonedWeekdayAndMinutes(now, timeZone);
+  return windows.some((window) => {
+    const startMinutes = parseTimeOfDay(window.startTime);
+    const endMinutes = parseTimeOfDay(window.endTime);
+    if (startMinutes === undefined || endMinutes === undefined) return false;
+    if (startMinutes < endMinutes)
+      return (
+        weekday === window.weekday &&
+        minutes >= startMinutes &&
+        minutes < endMinutes
+      );
+    // Window spans over midnight, i.e. 22:00 - 02:00
+    return (
+      (weekday === window.weekday && minutes >= startMinutes) ||
+      (weekday === (window.weekday + 1) % 7 && minutes < endMinutes)
+    );
+  });
+};
+
+const weekdays = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+const getZonedWeekdayAndMinutes = (date: Date, timeZone?: string) => {
+  const parts = formatToParts(date, timeZone ?? defaultScheduleTimeZone);
+  const getPart = (type: Intl.DateTimeFormatPartTypes) =>
+    parts.find((part) => part.type === type)?.value ?? "";
+  return {
+    weekday: weekdays.indexOf(getPart("weekday")),
+    minutes: Number(getPart("hour")) * 60 + Number(getPart("minute")),
+  };
+};
+
+const formatToParts = (date: Date, timeZone: string) => {
+  const options = {
+    weekday: "short",
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  } as const;
+  try {
+    return new Intl.DateTimeFormat("en-US", {
+      ...options,
+      timeZone,
+    }).formatToParts(date);
+  } catch {
+    return new Intl.DateTimeFormat("en-US", {
+      ...options,
+      timeZone: defaultScheduleTimeZone,
+    }).formatToParts(date);
+  }
+};
+
+const parseTimeOfDay = (time: string) => {
+  const match = time.match(/^([01]?\d|2[0-3]):([0-5]\d)$/);
+  if (!match) return;
+  return Number(match[1]) * 60 + Number(match[2]);
+};
+
+const parseDate = (date: string | undefined) => {
+  if (!date) return;
+  const parsedDate = new Date(date);
+  if (Number.isNaN(parsedDate.getTime())) return;
+  return parsedDate;
+};
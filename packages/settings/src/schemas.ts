@@ -16,6 +16,7 @@ export const systemMessagesSchema = z.object({
   fileUploadError: z.string().optional(),
   fileUploadSizeError: z.string().optional(),
   whatsAppPictureChoiceSelectLabel: z.string().optional(),
+  whatsAppListButtonLabel: z.string().optional(),
 });
 export type SystemMessages = z.infer<typeof systemMessagesSchema>;
 
@@ -78,11 +79,90 @@ export const whatsAppSettingsSchema = z.object({
     .describe("Expiration delay in hours after latest interaction"),
 });
 
+export const telegramSettingsSchema = z.object({
+  isEnabled: z.boolean().optional(),
+  credentialsId: z
+    .string()
+    .optional()
+    .describe("ID of the Telegram bot credentials the typebot is deployed on"),
+  sessionExpiryTimeout: z
+    .number()
+    .max(48)
+    .min(0.01)
+    .optional()
+    .describe("Expiration delay in hours after latest interaction"),
+});
+
+export const emailSettingsSchema = z.object({
+  isEnabled: z.boolean().optional(),
+  sessionExpiryTimeout: z
+    .number()
+    .max(48)
+    .min(0.01)
+    .optional()
+    .describe("Expiration delay in hours after latest interaction"),
+});
+
+export const smsSettingsSchema = z.object({
+  isEnabled: z.boolean().optional(),
+  credentialsId: z
+    .string()
+    .optional()
+    .describe("ID of the Twilio credentials the typebot is deployed on"),
+  sessionExpiryTimeout: z
+    .number()
+    .max(48)
+    .min(0.01)
+    .optional()
+    .describe("Expiration delay in hours after latest interaction"),
+});
+
+const timeOfDaySchema = z.string().describe("Time of day in HH:mm format");
+
+const availabilityWindowSchema = z.object({
+  id: z.string(),
+  weekday: z.number().int().min(0).max(6).describe("0 is Sunday"),
+  startTime: timeOfDaySchema,
+  endTime: timeOfDaySchema,
+});
+export type AvailabilityWindow = z.infer<typeof availabilityWindowSchema>;
+
+export const scheduleSettingsSchema = z.object({
+  timeZone: z
+    .string()
+    .optional()
+    .describe("IANA time zone, i.e. `Europe/Paris`. Defaults to UTC."),
+  publishAt: z
+    .string()
+    .optional()
+    .describe("ISO 8601 date. The bot can't be started before this date"),
+  unpublishAt: z
+    .string()
+    .optional()
+    .describe("ISO 8601 date. The bot can't be started after this date"),
+  availability: z
+    .object({
+      isEnabled: z.boolean().optional(),
+      windows: z.array(availabilityWindowSchema).optional(),
+      closedGroupId: z
+        .string()
+        .optional()
+        .describe(
+          "Group the bot starts from outside of the availability windows. If not set, the bot is closed.",
+        ),
+    })
+    .optional(),
+});
+export type ScheduleSettings = z.infer<typeof scheduleSettingsSchema>;
+
 export const settingsSchema = z.object({
   general: generalSettings.optional(),
   typingEmulation: typingEmulation.optional(),
   metadata: metadataSchema.optional(),
   whatsApp: whatsAppSettingsSchema.optional(),
+  telegram: telegramSettingsSchema.optional(),
+  email: emailSettingsSchema.optional(),
+  sms: smsSettingsSchema.optional(),
   publicShare: z
     .object({
       isEnabled: z.boolean().optional(),
@@ -93,6 +173,7 @@ export const settingsSchema = z.object({
       allowedOrigins: z.array(z.string()).optional(),
     })
     .optional(),
+  schedule: scheduleSettingsSchema.optional(),
 });
 
 export type Settings = z.infer<typeof settingsSchema>;
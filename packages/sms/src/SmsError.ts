@@ -0,0 +1,3 @@
+import { ChannelError } from "@typebot.io/channels/ChannelError";
+
+export class SmsError extends ChannelError {}
@@ -0,0 +1,99 @@
+import { ORPCError } from "@orpc/server";
+import * as Sentry from "@sentry/nextjs";
+import { ChannelError } from "@typebot.io/channels/ChannelError";
+import { getChannelSessionId } from "@typebot.io/channels/getChannelSessionId";
+import { parseUnknownError } from "@typebot.io/lib/parseUnknownError";
+import { z } from "@typebot.io/zod";
+import { after } from "next/server";
+import { EMPTY_TWIML_RESPONSE, twilioSignatureHeaderName } from "../constants";
+import { getSmsWebhookUrl } from "../getSmsWebhookUrl";
+import { getTwilioCredentials, resumeSmsFlow } from "../resumeSmsFlow";
+import { smsChannel } from "../smsChannel";
+import { validateTwilioSignature } from "../validateTwilioSignature";
+
+export const smsWebhookInputSchema = z.object({
+  params: z.object({
+    workspaceId: z.string(),
+    credentialsId: z.string(),
+  }),
+  headers: z.object({
+    [twilioSignatureHeaderName]: z.string().optional(),
+  }),
+  body: z.record(z.string()),
+});
+
+export const handleSmsWebhookRequest = async ({
+  input: {
+    params: { workspaceId, credentialsId },
+    headers,
+    body,
+  },
+}: {
+  input: z.infer<typeof smsWebhookInputSchema>;
+}) => {
+  const credentials = await getTwilioCredentials({
+    credentialsId,
+    workspaceId,
+  });
+  if (!credentials)
+    throw new ORPCError("NOT_FOUND", { message: "Credentials not found" });
+
+  if (
+    !validateTwilioSignature({
+      authToken: credentials.authToken,
+      url: getSmsWebhookUrl({ workspaceId, credentialsId }),
+      params: body,
+      signature: headers[twilioSignatureHeaderName],
+    })
+  )
+    throw new ORPCError("UNAUTHORIZED", {
+      message: "Invalid signature",
+    });
+
+  const incomingUpdates = smsChannel.parseWebhookRequest(body);
+  if (incomingUpdates.length === 0) return emptyTwimlResponse();
+
+  // Twilio times out the request after 15 seconds
+  after(async () => {
+    for (const update of incomingUpdates) {
+      try {
+        await resumeSmsFlow({
+          receivedMessages: update.messages,
+          sessionId: getChannelSessionId({
+            sessionIdPrefix: smsChannel.sessionIdPrefix,
+            accountId: credentialsId,
+            externalUserId: update.externalUserId,
+          }),
+          phoneNumber: update.externalUserId,
+          credentialsId,
+          workspaceId,
+          contact: {
+            id: update.externalUserId,
+            name: update.contactName,
+          },
+        });
+      } catch (err) {
+        if (err instanceof ChannelError) {
+          console.log("Known SMS error", err.message, err.details);
+        } else {
+          console.log("Sending unknown error to Sentry");
+          const parsedError = await parseUnknownError({ err });
+          console.log(parsedError);
+          Sentry.addBreadcrumb({
+            data: { details: parsedError.details },
+          });
+          Sentry.captureException(err);
+        }
+      }
+    }
+  });
+
+  return emptyTwimlResponse();
+};
+
+const emptyTwimlResponse = () => ({
+  headers: {
+    "content-type": "text/xml",
+  },
+  body: new Blob([EMPTY_TWIML_RESPONSE], { type: "text/xml" }),
+});
@@ -0,0 +1,27 @@
+import { publicProcedure as chatPublicProcedure } from "@typebot.io/config/orpc/viewer/middlewares";
+import { z } from "@typebot.io/zod";
+import {
+  handleSmsWebhookRequest,
+  smsWebhookInputSchema,
+} from "./handleSmsWebhookRequest";
+
+export const chatSmsRouter = {
+  smsWebhookProcedure: chatPublicProcedure
+    .route({
+      method: "POST",
+      path: "/v1/workspaces/{workspaceId}/sms/{credentialsId}/webhook",
+      tags: ["SMS"],
+      inputStructure: "detailed",
+      outputStructure: "detailed",
+    })
+    .input(smsWebhookInputSchema)
+    .output(
+      z.object({
+        headers: z.object({
+          "content-type": z.string(),
+        }),
+        body: z.instanceof(Blob),
+      }),
+    )
+    .handler(handleSmsWebhookRequest),
+};
@@ -0,0 +1,20 @@
+/**
+ * Twilio expects a TwiML document in response to its webhooks, an empty one
+ * acknowledges the message without replying since the bot replies are sent
+ * through the API.
+ */
+export const EMPTY_TWIML_RESPONSE =
+  '<?xml version="1.0" encoding="UTF-8"?><Response/>';
+export const SMS_SESSION_ID_PREFIX = "sms-" as const;
+
+export const twilioApiBaseUrl = "https://api.twilio.com/2010-04-01";
+export const twilioSignatureHeaderName = "x-twilio-signature";
+
+/**
+ * Twilio rejects messages longer than 1600 characters, longer texts are split
+ * into several messages of at most this number of segments.
+ */
+export const MAX_SEGMENTS_PER_MESSAGE = 10;
+
+export const getTwilioApiUrl = (accountSid: string, path: string) =>
+  `${twilioApiBaseUrl}/Accounts/${accountSid}${path}`;
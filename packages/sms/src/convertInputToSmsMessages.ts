@@ -0,0 +1,53 @@
+import { BubbleBlockType } from "@typebot.io/blocks-bubbles/constants";
+import { defaultChoiceInputOptions } from "@typebot.io/blocks-inputs/choice/constants";
+import { InputBlockType } from "@typebot.io/blocks-inputs/constants";
+import { defaultPictureChoiceOptions } from "@typebot.io/blocks-inputs/pictureChoice/constants";
+import { getReplyOptions } from "@typebot.io/channels/getReplyOptions";
+import type { ContinueChatResponse } from "@typebot.io/chat-api/schemas";
+import { convertMessageToSmsMessage } from "./convertMessageToSmsMessage";
+import type { SmsSendingMessage } from "./schemas";
+
+type Props = {
+  input: NonNullable<ContinueChatResponse["input"]>;
+  lastMessage: ContinueChatResponse["messages"][number] | undefined;
+};
+
+export const convertInputToSmsMessages = ({
+  input,
+  lastMessage,
+}: Props): SmsSendingMessage[] => {
+  const options = getReplyOptions(input);
+  if (!options || options.length === 0) return [];
+  const isMultipleChoice =
+    input.type === InputBlockType.CHOICE
+      ? (input.options?.isMultipleChoice ??
+        defaultChoiceInputOptions.isMultipleChoice)
+      : input.type === InputBlockType.PICTURE_CHOICE
+        ? (input.options?.isMultipleChoice ??
+          defaultPictureChoiceOptions.isMultipleChoice)
+        : false;
+  // The text bubble preceding a choice input is sent along with it
+  const questionMessage =
+    input.type === InputBlockType.CHOICE &&
+    lastMessage?.type === BubbleBlockType.TEXT
+      ? convertMessageToSmsMessage(lastMessage)
+      : undefined;
+  const list = options
+    .map((option, idx) =>
+      [`${idx + 1}. ${option.label}`, option.description, option.imageUrl]
+        .filter(Boolean)
+        .join("\n"),
+    )
+    .join("\n");
+  const instructions = isMultipleChoice
+    ? "Reply with the numbers of your choices, separated by commas."
+    : "Reply with the number of your choice.";
+  return [
+    {
+      type: "text",
+      text: [questionMessage?.text, list, instructions]
+        .filter(Boolean)
+        .join("\n\n"),
+    },
+  ];
+};
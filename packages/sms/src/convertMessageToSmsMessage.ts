@@ -0,0 +1,45 @@
+import { BubbleBlockType } from "@typebot.io/blocks-bubbles/constants";
+import {
+  embedBaseUrls,
+  embeddableVideoTypes,
+} from "@typebot.io/blocks-bubbles/video/constants";
+import type { EmbeddableVideoBubbleContentType } from "@typebot.io/blocks-bubbles/video/schema";
+import type { ContinueChatResponse } from "@typebot.io/chat-api/schemas";
+import { convertRichTextToMarkdown } from "@typebot.io/rich-text/convertRichTextToMarkdown";
+import type { SmsSendingMessage } from "./schemas";
+
+export const convertMessageToSmsMessage = (
+  message: ContinueChatResponse["messages"][number],
+): SmsSendingMessage | null => {
+  switch (message.type) {
+    case BubbleBlockType.TEXT: {
+      if (message.content.type === "markdown")
+        throw new Error("Expect rich text message");
+      if (!message.content.richText || message.content.richText.length === 0)
+        return null;
+      const text = convertRichTextToMarkdown(message.content.richText, {
+        flavour: "sms",
+      });
+      if (!text) return null;
+      return { type: "text", text };
+    }
+    case BubbleBlockType.VIDEO:
+      if (!message.content.url) return null;
+      if (
+        embeddableVideoTypes.includes(
+          message.content.type as EmbeddableVideoBubbleContentType,
+        )
+      )
+        return {
+          type: "text",
+          text: `${embedBaseUrls[message.content.type as EmbeddableVideoBubbleContentType]}/${message.content.id}`,
+        };
+      return { type: "text", text: message.content.url };
+    case BubbleBlockType.IMAGE:
+    case BubbleBlockType.AUDIO:
+    case BubbleBlockType.EMBED:
+    case "custom-embed":
+      if (!message.content.url) return null;
+      return { type: "text", text: message.content.url };
+  }
+};
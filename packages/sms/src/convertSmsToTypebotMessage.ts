@@ -0,0 +1,43 @@
+import type { Block } from "@typebot.io/blocks-core/schemas/schema";
+import { InputBlockType } from "@typebot.io/blocks-inputs/constants";
+import { parseNumberedReplyId } from "@typebot.io/channels/getReplyOptions";
+import type { Message } from "@typebot.io/chat-api/schemas";
+import type { SmsIncomingMessage } from "./schemas";
+
+export const convertSmsToTypebotMessage = async ({
+  messages,
+  block,
+}: {
+  messages: SmsIncomingMessage[];
+  block?: Block;
+}): Promise<Message | undefined> => {
+  let text = "";
+  const append = (s: string) => (text = text !== "" ? `${text}\n\n${s}` : s);
+  const attachedFileUrls: string[] = [];
+  for (const message of messages) {
+    switch (message.type) {
+      case "sms": {
+        const { body, media } = message.sms;
+        if (body) append(body);
+        // MMS media are hosted by the provider, their URLs are kept as is
+        for (const { url } of media) {
+          if (block?.type === InputBlockType.FILE) append(url);
+          else if (block?.type === InputBlockType.TEXT)
+            attachedFileUrls.push(url);
+        }
+        break;
+      }
+      case "webhook": {
+        if (!message.webhook.data) return;
+        text = message.webhook.data;
+      }
+    }
+  }
+
+  return {
+    type: "text",
+    text,
+    attachedFileUrls,
+    metadata: { replyId: parseNumberedReplyId(text, block) },
+  };
+};
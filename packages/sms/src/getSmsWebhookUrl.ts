@@ -0,0 +1,13 @@
+import { env } from "@typebot.io/env";
+
+/** Viewer route Twilio posts the incoming SMS of these credentials to */
+export const getSmsWebhookUrl = ({
+  workspaceId,
+  credentialsId,
+}: {
+  workspaceId: string;
+  credentialsId: string;
+}) =>
+  `${
+    env.NEXT_PUBLIC_VIEWER_URL.at(1) ?? env.NEXT_PUBLIC_VIEWER_URL[0]
+  }/api/v1/workspaces/${workspaceId}/sms/${credentialsId}/webhook`;
@@ -0,0 +1,28 @@
+import type { TwilioCredentials } from "@typebot.io/credentials/schemas";
+import { ky } from "@typebot.io/lib/ky";
+import { getTwilioApiUrl } from "./constants";
+import { getTwilioAuthorizationHeaders } from "./sendSmsMessage";
+
+type Props = {
+  credentials: TwilioCredentials["data"];
+};
+
+/** Finds the phone number of the credentials in the Twilio account */
+export const getTwilioPhoneNumber = async ({ credentials }: Props) => {
+  const { incoming_phone_numbers } = await ky
+    .get(
+      getTwilioApiUrl(credentials.accountSid, "/IncomingPhoneNumbers.json"),
+      {
+        headers: getTwilioAuthorizationHeaders(credentials),
+        searchParams: { PhoneNumber: credentials.phoneNumber },
+      },
+    )
+    .json<{
+      incoming_phone_numbers: {
+        sid: string;
+        phone_number: string;
+        friendly_name: string;
+      }[];
+    }>();
+  return incoming_phone_numbers.at(0);
+};
@@ -0,0 +1,89 @@
+import { resumeChannelFlow } from "@typebot.io/channels/resumeChannelFlow";
+import type { SessionState } from "@typebot.io/chat-session/schemas";
+import { decrypt } from "@typebot.io/credentials/decrypt";
+import { getCredentials } from "@typebot.io/credentials/getCredentials";
+import type { TwilioCredentials } from "@typebot.io/credentials/schemas";
+import { SmsError } from "./SmsError";
+import type { SmsIncomingMessage } from "./schemas";
+import { smsChannel } from "./smsChannel";
+import { startSmsSession } from "./startSmsSession";
+
+type Props = {
+  receivedMessages: SmsIncomingMessage[];
+  sessionId: string;
+  /** Phone number the replies are sent to */
+  phoneNumber: string;
+  credentialsId: string;
+  workspaceId: string;
+  contact?: NonNullable<SessionState["channel"]>["contact"];
+  callFrom?: "webhook";
+};
+
+export const resumeSmsFlow = async ({
+  receivedMessages,
+  sessionId,
+  phoneNumber,
+  credentialsId,
+  workspaceId,
+  contact,
+  callFrom,
+}: Props) => {
+  if (receivedMessages.length === 0)
+    throw new SmsError("Received messages is empty");
+
+  const credentials = await getTwilioCredentials({
+    credentialsId,
+    workspaceId,
+  });
+  if (!credentials) throw new SmsError("Could not find credentials");
+
+  const lastMessage = receivedMessages.at(-1);
+
+  await resumeChannelFlow({
+    channel: smsChannel,
+    receivedMessages,
+    sessionId,
+    credentials,
+    to: phoneNumber,
+    messageId:
+      lastMessage?.type === "sms" ? lastMessage.sms.messageSid : undefined,
+    workspaceId,
+    callFrom,
+    updateState: (state) =>
+      contact
+        ? {
+            ...state,
+            channel: {
+              type: "sms",
+              contact,
+            },
+          }
+        : state,
+    startSession: ({ incomingMessage, sessionStore }) => {
+      if (!contact)
+        throw new SmsError("Can't start SMS session without contact");
+      return startSmsSession({
+        incomingMessage,
+        workspaceId,
+        credentialsId,
+        contact,
+        sessionStore,
+      });
+    },
+  });
+};
+
+export const getTwilioCredentials = async ({
+  credentialsId,
+  workspaceId,
+}: {
+  credentialsId: string;
+  workspaceId: string;
+}): Promise<TwilioCredentials["data"] | undefined> => {
+  const credentials = await getCredentials(credentialsId, workspaceId);
+  if (!credentials) return;
+  return (await decrypt(
+    credentials.data,
+    credentials.iv,
+  )) as TwilioCredentials["data"];
+};
@@ -0,0 +1,44 @@
+import { z } from "@typebot.io/zod";
+
+/** Form body Twilio posts to the messaging webhook for each incoming SMS */
+export const twilioIncomingSmsSchema = z
+  .object({
+    MessageSid: z.string(),
+    AccountSid: z.string(),
+    From: z.string(),
+    To: z.string(),
+    Body: z.string().default(""),
+    NumMedia: z.coerce.number().default(0),
+  })
+  .passthrough();
+export type TwilioIncomingSms = z.infer<typeof twilioIncomingSmsSchema>;
+
+const mediaSchema = z.object({
+  url: z.string(),
+  contentType: z.string().optional(),
+});
+
+export const smsIncomingMessageSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("sms"),
+    sms: z.object({
+      messageSid: z.string(),
+      body: z.string(),
+      media: z.array(mediaSchema),
+    }),
+  }),
+  z.object({
+    type: z.literal("webhook"),
+    webhook: z.object({
+      data: z.string().optional(),
+    }),
+  }),
+]);
+export type SmsIncomingMessage = z.infer<typeof smsIncomingMessageSchema>;
+
+// SMS are plain text only, media are sent as links
+export const smsSendingMessageSchema = z.object({
+  type: z.literal("text"),
+  text: z.string(),
+});
+export type SmsSendingMessage = z.infer<typeof smsSendingMessageSchema>;
@@ -0,0 +1,41 @@
+import * as Sentry from "@sentry/nextjs";
+import type { TwilioCredentials } from "@typebot.io/credentials/schemas";
+import { ky } from "@typebot.io/lib/ky";
+import { getTwilioApiUrl } from "./constants";
+import type { SmsSendingMessage } from "./schemas";
+import { splitSmsText } from "./splitSmsText";
+
+type Props = {
+  to: string;
+  message: SmsSendingMessage;
+  credentials: TwilioCredentials["data"];
+};
+
+export const sendSmsMessage = async ({ to, message, credentials }: Props) => {
+  // Long texts are sent as several SMS to stay under the segment limit
+  for (const text of splitSmsText(message.text)) {
+    try {
+      await ky.post(getTwilioApiUrl(credentials.accountSid, "/Messages.json"), {
+        headers: getTwilioAuthorizationHeaders(credentials),
+        body: new URLSearchParams({
+          From: credentials.phoneNumber,
+          To: to,
+          Body: text,
+        }),
+      });
+    } catch (err) {
+      Sentry.addBreadcrumb({
+        message: JSON.stringify(message),
+      });
+      throw err;
+    }
+  }
+};
+
+export const getTwilioAuthorizationHeaders = (
+  credentials: Pick<TwilioCredentials["data"], "accountSid" | "authToken">,
+) => ({
+  authorization: `Basic ${Buffer.from(
+    `${credentials.accountSid}:${credentials.authToken}`,
+  ).toString("base64")}`,
+});
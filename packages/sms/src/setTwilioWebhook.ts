@@ -0,0 +1,39 @@
+import type { TwilioCredentials } from "@typebot.io/credentials/schemas";
+import { ky } from "@typebot.io/lib/ky";
+import { getTwilioApiUrl } from "./constants";
+import { getSmsWebhookUrl } from "./getSmsWebhookUrl";
+import { getTwilioPhoneNumber } from "./getTwilioPhoneNumber";
+import { SmsError } from "./SmsError";
+import { getTwilioAuthorizationHeaders } from "./sendSmsMessage";
+
+type Props = {
+  workspaceId: string;
+  credentialsId: string;
+  credentials: TwilioCredentials["data"];
+};
+
+/** Points the incoming SMS of the phone number to the viewer webhook route */
+export const setTwilioWebhook = async ({
+  workspaceId,
+  credentialsId,
+  credentials,
+}: Props) => {
+  const phoneNumber = await getTwilioPhoneNumber({ credentials });
+  if (!phoneNumber)
+    throw new SmsError("Phone number not found in the Twilio account", {
+      phoneNumber: credentials.phoneNumber,
+    });
+  await ky.post(
+    getTwilioApiUrl(
+      credentials.accountSid,
+      `/IncomingPhoneNumbers/${phoneNumber.sid}.json`,
+    ),
+    {
+      headers: getTwilioAuthorizationHeaders(credentials),
+      body: new URLSearchParams({
+        SmsUrl: getSmsWebhookUrl({ workspaceId, credentialsId }),
+        SmsMethod: "POST",
+      }),
+    },
+  );
+};
@@ -0,0 +1,57 @@
+import type { Channel } from "@typebot.io/channels/types";
+import type { TwilioCredentials } from "@typebot.io/credentials/schemas";
+import { SMS_SESSION_ID_PREFIX } from "./constants";
+import { convertInputToSmsMessages } from "./convertInputToSmsMessages";
+import { convertMessageToSmsMessage } from "./convertMessageToSmsMessage";
+import { convertSmsToTypebotMessage } from "./convertSmsToTypebotMessage";
+import {
+  type SmsIncomingMessage,
+  type SmsSendingMessage,
+  twilioIncomingSmsSchema,
+} from "./schemas";
+import { sendSmsMessage } from "./sendSmsMessage";
+
+export const smsChannel: Channel<
+  SmsIncomingMessage,
+  SmsSendingMessage,
+  TwilioCredentials["data"]
+> = {
+  sessionIdPrefix: SMS_SESSION_ID_PREFIX,
+  parseWebhookRequest: (body) => {
+    const parsedBody = twilioIncomingSmsSchema.safeParse(body);
+    if (!parsedBody.success) return [];
+    const sms = parsedBody.data;
+    return [
+      {
+        externalUserId: sms.From,
+        contactName: sms.From,
+        messages: [
+          {
+            type: "sms",
+            sms: {
+              messageSid: sms.MessageSid,
+              body: sms.Body,
+              media: Array.from({ length: sms.NumMedia }, (_, idx) => ({
+                url: sms[`MediaUrl${idx}`] as string,
+                contentType: sms[`MediaContentType${idx}`] as
+                  | string
+                  | undefined,
+              })).filter((media) => media.url),
+            },
+          },
+        ],
+      },
+    ];
+  },
+  convertIncomingMessages: convertSmsToTypebotMessage,
+  convertMessage: async ({ message }) => convertMessageToSmsMessage(message),
+  convertInput: async ({ input, lastMessage }) =>
+    convertInputToSmsMessages({ input, lastMessage }),
+  convertRedirectUrl: (url) => ({
+    type: "text",
+    text: url,
+  }),
+  getMessageText: (message) => message.text,
+  isMediaMessage: () => false,
+  sendMessage: sendSmsMessage,
+};
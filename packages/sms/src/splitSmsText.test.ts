@@ -0,0 +1,51 @@
+import { describe, expect, it } from "bun:test";
+import { getSmsSegmentCount, splitSmsText } from "./splitSmsText";
+
+describe("splitSmsText", () => {
+  it("should keep short texts in a single message", () => {
+    expect(splitSmsText("  Hello there!\n")).toEqual(["Hello there!"]);
+  });
+
+  it("should split on line breaks first", () => {
+    const firstParagraph = "a".repeat(120);
+    const secondParagraph = "b ".repeat(30).trim();
+    expect(
+      splitSmsText(`${firstParagraph}\n${secondParagraph}`, { maxSegments: 1 }),
+    ).toEqual([firstParagraph, secondParagraph]);
+  });
+
+  it("should split on spaces when there is no line break", () => {
+    const text = "word ".repeat(40).trim();
+    const chunks = splitSmsText(text, { maxSegments: 1 });
+    expect(chunks).toHaveLength(2);
+    expect(chunks.every((chunk) => chunk.length <= 160)).toBe(true);
+    expect(chunks.join(" ")).toBe(text);
+  });
+
+  it("should use the UCS-2 limits when the text has emojis", () => {
+    const text = `${"😀".repeat(40)}`;
+    const chunks = splitSmsText(text, { maxSegments: 1 });
+    expect(chunks).toEqual(["😀".repeat(35), "😀".repeat(5)]);
+  });
+
+  it("should fit each message in the max number of segments", () => {
+    const text = "a".repeat(2000);
+    const chunks = splitSmsText(text);
+    expect(chunks.map((chunk) => chunk.length)).toEqual([1530, 470]);
+    expect(chunks.map(getSmsSegmentCount)).toEqual([10, 4]);
+  });
+});
+
+describe("getSmsSegmentCount", () => {
+  it("should count extension characters twice", () => {
+    expect(getSmsSegmentCount("a".repeat(160))).toBe(1);
+    expect(getSmsSegmentCount(`${"a".repeat(159)}€`)).toBe(2);
+  });
+
+  it("should count UCS-2 segments", () => {
+    expect(getSmsSegmentCount("é".repeat(160))).toBe(1);
+    expect(getSmsSegmentCount(`${"a".repeat(70)}`)).toBe(1);
+    expect(getSmsSegmentCount(`${"a".repeat(69)}ć`)).toBe(1);
+    expect(getSmsSegmentCount(`${"a".repeat(70)}ć`)).toBe(2);
+  });
+});
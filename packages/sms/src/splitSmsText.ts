@@ -0,0 +1,78 @@
+import { MAX_SEGMENTS_PER_MESSAGE } from "./constants";
+
+const gsm7Chars = new Set(
+  Array.from(
+    "@£$¥èéùìòÇ\nØø\rÅåΔ_ΦΓΛΩΠΨΣΘΞÆæßÉ !\"#¤%&'()*+,-./0123456789:;<=>?¡ABCDEFGHIJKLMNOPQRSTUVWXYZÄÖÑÜ§¿abcdefghijklmnopqrstuvwxyzäöñüà",
+  ),
+);
+// Characters of the GSM-7 extension table take 2 characters of a segment
+const gsm7ExtensionChars = new Set(Array.from("^{}\\[~]|€\f"));
+
+type SmsEncoding = "GSM-7" | "UCS-2";
+
+const singleSegmentLength = { "GSM-7": 160, "UCS-2": 70 } as const;
+// Concatenated segments keep a few characters for the reassembly header
+const concatenatedSegmentLength = { "GSM-7": 153, "UCS-2": 67 } as const;
+
+/**
+ * Splits a text into SMS that each fit in at most `maxSegments` segments. The
+ * text is preferably split on line breaks, then on spaces.
+ */
+export const splitSmsText = (
+  text: string,
+  { maxSegments = MAX_SEGMENTS_PER_MESSAGE }: { maxSegments?: number } = {},
+): string[] => {
+  const encoding = getSmsEncoding(text);
+  const maxLength =
+    maxSegments === 1
+      ? singleSegmentLength[encoding]
+      : concatenatedSegmentLength[encoding] * maxSegments;
+  const chunks: string[] = [];
+  let chars = Array.from(text.trim());
+  while (chars.length > 0) {
+    let length = 0;
+    let end = 0;
+    while (end < chars.length) {
+      const charLength = getCharLength(chars[end], encoding);
+      if (length + charLength > maxLength) break;
+      length += charLength;
+      end += 1;
+    }
+    if (end < chars.length) end = getBreakIndex(chars, end);
+    chunks.push(chars.slice(0, end).join("").trimEnd());
+    chars = Array.from(chars.slice(end).join("").trimStart());
+  }
+  return chunks;
+};
+
+/** Number of segments the SMS is billed and delivered as */
+export const getSmsSegmentCount = (text: string) => {
+  const encoding = getSmsEncoding(text);
+  const length = Array.from(text).reduce(
+    (length, char) => length + getCharLength(char, encoding),
+    0,
+  );
+  if (length <= singleSegmentLength[encoding]) return 1;
+  return Math.ceil(length / concatenatedSegmentLength[encoding]);
+};
+
+const getSmsEncoding = (text: string): SmsEncoding =>
+  Array.from(text).every(
+    (char) => gsm7Chars.has(char) || gsm7ExtensionChars.has(char),
+  )
+    ? "GSM-7"
+    : "UCS-2";
+
+const getCharLength = (char: string, encoding: SmsEncoding) => {
+  if (encoding === "UCS-2") return char.length;
+  return gsm7ExtensionChars.has(char) ? 2 : 1;
+};
+
+const getBreakIndex = (chars: string[], end: number) => {
+  let spaceIndex: number | undefined;
+  for (let i = end; i > end / 2; i--) {
+    if (chars[i] === "\n") return i;
+    if (spaceIndex === undefined && /\s/.test(chars[i])) spaceIndex = i;
+  }
+  return spaceIndex ?? end;
+};
@@ -0,0 +1,29 @@
+import { createHmac } from "node:crypto";
+import { isValidWebhookSecret } from "@typebot.io/channels/isValidWebhookSecret";
+
+type Props = {
+  authToken: string;
+  /** Full URL Twilio posted the request to */
+  url: string;
+  params: Record<string, string>;
+  signature: string | undefined;
+};
+
+/**
+ * Checks the `X-Twilio-Signature` header, computed from the request URL and
+ * its sorted form parameters signed with the account auth token.
+ */
+export const validateTwilioSignature = ({
+  authToken,
+  url,
+  params,
+  signature,
+}: Props) => {
+  const data = Object.keys(params)
+    .sort()
+    .reduce((data, key) => `${data}${key}${params[key]}`, url);
+  return isValidWebhookSecret(
+    signature,
+    createHmac("sha1", authToken).update(data).digest("base64"),
+  );
+};
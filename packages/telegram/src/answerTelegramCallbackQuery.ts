@@ -0,0 +1,23 @@
+import type { TelegramCredentials } from "@typebot.io/credentials/schemas";
+import { ky } from "@typebot.io/lib/ky";
+import { getTelegramBotApiUrl } from "./constants";
+
+type Props = {
+  callbackQueryId: string;
+  credentials: TelegramCredentials["data"];
+};
+
+/** Stops the loading indicator Telegram displays on the clicked button */
+export const answerTelegramCallbackQuery = async ({
+  callbackQueryId,
+  credentials,
+}: Props) => {
+  await ky.post(
+    getTelegramBotApiUrl(credentials.botToken, "answerCallbackQuery"),
+    {
+      json: {
+        callback_query_id: callbackQueryId,
+      },
+    },
+  );
+};
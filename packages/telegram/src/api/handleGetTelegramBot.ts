@@ -0,0 +1,46 @@
+import { ORPCError } from "@orpc/server";
+import { decrypt } from "@typebot.io/credentials/decrypt";
+import type { TelegramCredentials } from "@typebot.io/credentials/schemas";
+import { env } from "@typebot.io/env";
+import { createToastORPCError } from "@typebot.io/lib/createToastORPCError";
+import prisma from "@typebot.io/prisma";
+import type { User } from "@typebot.io/user/schemas";
+import { z } from "@typebot.io/zod";
+import { getTelegramBot } from "../getTelegramBot";
+
+export const getTelegramBotInputSchema = z.object({
+  credentialsId: z.string(),
+});
+
+export const handleGetTelegramBot = async ({
+  input: { credentialsId },
+  context: { user },
+}: {
+  input: z.infer<typeof getTelegramBotInputSchema>;
+  context: { user: Pick<User, "id" | "email"> };
+}) => {
+  const credentials = await prisma.credentials.findFirst({
+    where: {
+      id: credentialsId,
+      type: "telegram",
+      workspace: env.ADMIN_EMAIL?.includes(user.email)
+        ? undefined
+        : { members: { some: { userId: user.id } } },
+    },
+  });
+  if (!credentials)
+    throw new ORPCError("NOT_FOUND", { message: "Credentials not found" });
+  const data = (await decrypt(
+    credentials.data,
+    credentials.iv,
+  )) as TelegramCredentials["data"];
+  try {
+    const bot = await getTelegramBot({ credentials: data });
+    return {
+      name: bot.first_name,
+      username: bot.username,
+    };
+  } catch (err) {
+    throw await createToastORPCError(err);
+  }
+};
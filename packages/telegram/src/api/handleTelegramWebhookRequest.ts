@@ -0,0 +1,104 @@
+import { ORPCError } from "@orpc/server";
+import * as Sentry from "@sentry/nextjs";
+import { ChannelError } from "@typebot.io/channels/ChannelError";
+import { getChannelSessionId } from "@typebot.io/channels/getChannelSessionId";
+import { isValidWebhookSecret } from "@typebot.io/channels/isValidWebhookSecret";
+import { parseUnknownError } from "@typebot.io/lib/parseUnknownError";
+import { z } from "@typebot.io/zod";
+import { after } from "next/server";
+import { answerTelegramCallbackQuery } from "../answerTelegramCallbackQuery";
+import {
+  telegramSecretTokenHeaderName,
+  WEBHOOK_SUCCESS_MESSAGE,
+} from "../constants";
+import { getTelegramWebhookSecretToken } from "../getTelegramWebhookSecretToken";
+import {
+  getTelegramCredentials,
+  resumeTelegramFlow,
+} from "../resumeTelegramFlow";
+import { telegramChannel } from "../telegramChannel";
+
+export const telegramWebhookInputSchema = z.object({
+  params: z.object({
+    workspaceId: z.string(),
+    credentialsId: z.string(),
+  }),
+  headers: z.object({
+    [telegramSecretTokenHeaderName]: z.string().optional(),
+  }),
+  body: z.unknown(),
+});
+
+export const handleTelegramWebhookRequest = async ({
+  input: {
+    params: { workspaceId, credentialsId },
+    headers,
+    body,
+  },
+}: {
+  input: z.infer<typeof telegramWebhookInputSchema>;
+}) => {
+  if (
+    !isValidWebhookSecret(
+      headers[telegramSecretTokenHeaderName],
+      getTelegramWebhookSecretToken(credentialsId),
+    )
+  )
+    throw new ORPCError("UNAUTHORIZED", {
+      message: "Invalid secret token",
+    });
+
+  const incomingUpdates = telegramChannel.parseWebhookRequest(body);
+  if (incomingUpdates.length === 0) return WEBHOOK_SUCCESS_MESSAGE;
+
+  // Telegram retries the update if the response takes too long
+  after(async () => {
+    for (const update of incomingUpdates) {
+      try {
+        const callbackQuery = update.messages.find(
+          (message) => message.type === "callback_query",
+        );
+        if (callbackQuery) {
+          const credentials = await getTelegramCredentials({
+            credentialsId,
+            workspaceId,
+          });
+          if (credentials)
+            await answerTelegramCallbackQuery({
+              callbackQueryId: callbackQuery.callbackQuery.id,
+              credentials,
+            });
+        }
+        await resumeTelegramFlow({
+          receivedMessages: update.messages,
+          sessionId: getChannelSessionId({
+            sessionIdPrefix: telegramChannel.sessionIdPrefix,
+            accountId: credentialsId,
+            externalUserId: update.externalUserId,
+          }),
+          chatId: update.externalUserId,
+          credentialsId,
+          workspaceId,
+          contact: {
+            id: update.externalUserId,
+            name: update.contactName,
+          },
+        });
+      } catch (err) {
+        if (err instanceof ChannelError) {
+          console.log("Known Telegram error", err.message, err.details);
+        } else {
+          console.log("Sending unknown error to Sentry");
+          const parsedError = await parseUnknownError({ err });
+          console.log(parsedError);
+          Sentry.addBreadcrumb({
+            data: { details: parsedError.details },
+          });
+          Sentry.captureException(err);
+        }
+      }
+    }
+  });
+
+  return WEBHOOK_SUCCESS_MESSAGE;
+};
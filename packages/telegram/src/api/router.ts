@@ -0,0 +1,31 @@
+import { authenticatedProcedure } from "@typebot.io/config/orpc/builder/middlewares";
+import { publicProcedure as chatPublicProcedure } from "@typebot.io/config/orpc/viewer/middlewares";
+import { z } from "@typebot.io/zod";
+import { WEBHOOK_SUCCESS_MESSAGE } from "../constants";
+import {
+  getTelegramBotInputSchema,
+  handleGetTelegramBot,
+} from "./handleGetTelegramBot";
+import {
+  handleTelegramWebhookRequest,
+  telegramWebhookInputSchema,
+} from "./handleTelegramWebhookRequest";
+
+export const chatTelegramRouter = {
+  telegramWebhookProcedure: chatPublicProcedure
+    .route({
+      method: "POST",
+      path: "/v1/workspaces/{workspaceId}/telegram/{credentialsId}/webhook",
+      tags: ["Telegram"],
+      inputStructure: "detailed",
+    })
+    .input(telegramWebhookInputSchema)
+    .output(z.literal(WEBHOOK_SUCCESS_MESSAGE))
+    .handler(handleTelegramWebhookRequest),
+};
+
+export const builderTelegramRouter = {
+  getBot: authenticatedProcedure
+    .input(getTelegramBotInputSchema)
+    .handler(handleGetTelegramBot),
+};
@@ -0,0 +1,8 @@
+export const WEBHOOK_SUCCESS_MESSAGE = "Update received" as const;
+export const TELEGRAM_SESSION_ID_PREFIX = "tg-" as const;
+
+export const telegramApiBaseUrl = "https://api.telegram.org";
+export const telegramSecretTokenHeaderName = "x-telegram-bot-api-secret-token";
+
+export const getTelegramBotApiUrl = (botToken: string, method: string) =>
+  `${telegramApiBaseUrl}/bot${botToken}/${method}`;
@@ -0,0 +1,113 @@
+import { describe, expect, it } from "bun:test";
+import { BubbleBlockType } from "@typebot.io/blocks-bubbles/constants";
+import { InputBlockType } from "@typebot.io/blocks-inputs/constants";
+import type { ContinueChatResponse } from "@typebot.io/chat-api/schemas";
+import { convertInputToTelegramMessages } from "./convertInputToTelegramMessages";
+
+const lastMessage: ContinueChatResponse["messages"][number] = {
+  id: "msg1",
+  type: BubbleBlockType.TEXT,
+  content: {
+    type: "richText",
+    richText: [{ type: "p", children: [{ text: "Choose one:" }] }],
+  },
+};
+
+describe("convertInputToTelegramMessages", () => {
+  it("should return empty array for simple input types", () => {
+    const input = {
+      type: InputBlockType.TEXT,
+      id: "input1",
+      options: {},
+    } as NonNullable<ContinueChatResponse["input"]>;
+
+    expect(convertInputToTelegramMessages({ input, lastMessage })).toEqual([]);
+  });
+
+  it("should convert single choice to an inline keyboard", () => {
+    const input: NonNullable<ContinueChatResponse["input"]> = {
+      type: InputBlockType.CHOICE,
+      id: "input1",
+      items: [
+        { id: "choice1", content: "Option 1", outgoingEdgeId: "edge1" },
+        { id: "choice2", content: "Option 2", outgoingEdgeId: "edge1" },
+      ],
+    };
+
+    expect(convertInputToTelegramMessages({ input, lastMessage })).toEqual([
+      {
+        type: "text",
+        text: "Choose one:",
+        parse_mode: "Markdown",
+        reply_markup: {
+          inline_keyboard: [
+            [{ text: "Option 1", callback_data: "choice1" }],
+            [{ text: "Option 2", callback_data: "choice2" }],
+          ],
+        },
+      },
+    ]);
+  });
+
+  it("should convert multiple choice to a numbered list", () => {
+    const input: NonNullable<ContinueChatResponse["input"]> = {
+      type: InputBlockType.CHOICE,
+      id: "input1",
+      options: { isMultipleChoice: true },
+      items: [
+        { id: "choice1", content: "Option 1", outgoingEdgeId: "edge1" },
+        { id: "choice2", content: "Option 2", outgoingEdgeId: "edge1" },
+      ],
+    };
+
+    expect(convertInputToTelegramMessages({ input, lastMessage })).toEqual([
+      {
+        type: "text",
+        text: "Choose one:\n\n1. Option 1\n2. Option 2",
+        parse_mode: "Markdown",
+      },
+    ]);
+  });
+
+  it("should convert picture choice items to photos with a select button", () => {
+    const input: NonNullable<ContinueChatResponse["input"]> = {
+      type: InputBlockType.PICTURE_CHOICE,
+      id: "input1",
+      items: [
+        {
+          id: "picture1",
+          title: "Red",
+          description: "A red car",
+          pictureSrc: "https://example.com/red.jpg",
+        },
+        { id: "picture2", title: "Blue" },
+      ],
+    };
+
+    expect(
+      convertInputToTelegramMessages({
+        input,
+        lastMessage: undefined,
+        systemMessages: { whatsAppPictureChoiceSelectLabel: "Pick" },
+      }),
+    ).toEqual([
+      {
+        type: "photo",
+        photo: "https://example.com/red.jpg",
+        caption: "*Red*\n\nA red car",
+        parse_mode: "Markdown",
+        reply_markup: {
+          inline_keyboard: [[{ text: "Pick", callback_data: "picture1" }]],
+        },
+      },
+      {
+        type: "text",
+        text: "*Blue*",
+        parse_mode: "Markdown",
+        reply_markup: {
+          inline_keyboard: [[{ text: "Pick", callback_data: "picture2" }]],
+        },
+      },
+    ]);
+  });
+});
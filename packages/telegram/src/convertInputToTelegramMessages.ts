@@ -0,0 +1,162 @@
+import { BubbleBlockType } from "@typebot.io/blocks-bubbles/constants";
+import { defaultChoiceInputOptions } from "@typebot.io/blocks-inputs/choice/constants";
+import { InputBlockType } from "@typebot.io/blocks-inputs/constants";
+import { defaultPictureChoiceOptions } from "@typebot.io/blocks-inputs/pictureChoice/constants";
+import type { ContinueChatResponse } from "@typebot.io/chat-api/schemas";
+import { isDefined } from "@typebot.io/lib/utils";
+import { convertRichTextToMarkdown } from "@typebot.io/rich-text/convertRichTextToMarkdown";
+import { defaultSystemMessages } from "@typebot.io/settings/constants";
+import type { SystemMessages } from "@typebot.io/settings/schemas";
+import type {
+  TelegramInlineKeyboardMarkup,
+  TelegramSendingMessage,
+} from "./schemas";
+
+type Props = {
+  input: NonNullable<ContinueChatResponse["input"]>;
+  lastMessage: ContinueChatResponse["messages"][number] | undefined;
+  systemMessages?: Pick<SystemMessages, "whatsAppPictureChoiceSelectLabel">;
+};
+
+export const convertInputToTelegramMessages = ({
+  input,
+  lastMessage,
+  systemMessages,
+}: Props): TelegramSendingMessage[] => {
+  const lastMessageText =
+    lastMessage?.type === BubbleBlockType.TEXT &&
+    lastMessage.content.type === "richText"
+      ? convertRichTextToMarkdown(lastMessage.content.richText ?? [], {
+          flavour: "telegram",
+        })
+      : undefined;
+  switch (input.type) {
+    case InputBlockType.DATE:
+    case InputBlockType.TIME:
+    case InputBlockType.EMAIL:
+    case InputBlockType.FILE:
+    case InputBlockType.NUMBER:
+    case InputBlockType.PHONE:
+    case InputBlockType.URL:
+    case InputBlockType.PAYMENT:
+    case InputBlockType.RATING:
+    case InputBlockType.TEXT:
+    case InputBlockType.LOCATION:
+    case InputBlockType.CONTACT:
+      return [];
+    case InputBlockType.PICTURE_CHOICE: {
+      const isMultipleChoice =
+        input.options?.isMultipleChoice ??
+        defaultPictureChoiceOptions.isMultipleChoice;
+      return input.items.map((item, idx) => {
+        const text = [
+          isMultipleChoice ? `${idx + 1}.` : undefined,
+          item.title ? `*${item.title}*` : undefined,
+        ]
+          .filter(isDefined)
+          .join(" ");
+        const caption = [text, item.description]
+          .filter((part) => isDefined(part) && part !== "")
+          .join("\n\n");
+        const reply_markup = isMultipleChoice
+          ? undefined
+          : toInlineKeyboard([
+              {
+                id: item.id,
+                text:
+                  systemMessages?.whatsAppPictureChoiceSelectLabel ??
+                  defaultSystemMessages.whatsAppPictureChoiceSelectLabel,
+              },
+            ]);
+        if (item.pictureSrc)
+          return {
+            type: "photo",
+            photo: item.pictureSrc,
+            caption: caption || undefined,
+            parse_mode: "Markdown",
+            reply_markup,
+          };
+        return {
+          type: "text",
+          text: caption || "―",
+          parse_mode: "Markdown",
+          reply_markup,
+        };
+      });
+    }
+    case InputBlockType.CHOICE: {
+      const items = input.items.filter((item) => isDefined(item.content));
+      if (
+        input.options?.isMultipleChoice ??
+        defaultChoiceInputOptions.isMultipleChoice
+      ) {
+        const list = items
+          .map((item, idx) => `${idx + 1}. ${item.content}`)
+          .join("\n");
+        return [
+          {
+            type: "text",
+            text: lastMessageText ? `${lastMessageText}\n\n${list}` : list,
+            parse_mode: "Markdown",
+          },
+        ];
+      }
+      return [
+        {
+          type: "text",
+          text: lastMessageText || "―",
+          parse_mode: "Markdown",
+          reply_markup: toInlineKeyboard(
+            items.map((item) => ({
+              id: item.id,
+              text: item.content as string,
+            })),
+          ),
+        },
+      ];
+    }
+    case InputBlockType.CARDS: {
+      return input.items.map((item) => {
+        const caption = [
+          item.title ? `*${item.title}*` : undefined,
+          item.description,
+        ]
+          .filter((part) => isDefined(part) && part !== "")
+          .join("\n\n");
+        const reply_markup = toInlineKeyboard(
+          (item.paths ?? []).map((path) => ({
+            id: path.id,
+            text: path.text ?? "",
+          })),
+        );
+        if (item.imageUrl)
+          return {
+            type: "photo",
+            photo: item.imageUrl,
+            caption: caption || undefined,
+            parse_mode: "Markdown",
+            reply_markup,
+          };
+        return {
+          type: "text",
+          text: caption || "―",
+          parse_mode: "Markdown",
+          reply_markup,
+        };
+      });
+    }
+  }
+};
+
+// Telegram displays buttons of the same row side by side, so each button
+// gets its own row to keep long labels readable.
+const toInlineKeyboard = (
+  buttons: { id: string; text: string }[],
+): TelegramInlineKeyboardMarkup | undefined => {
+  if (buttons.length === 0) return;
+  return {
+    inline_keyboard: buttons.map((button) => [
+      { text: button.text, callback_data: button.id },
+    ]),
+  };
+};
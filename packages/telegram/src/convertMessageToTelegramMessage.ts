@@ -0,0 +1,101 @@
+import { BubbleBlockType } from "@typebot.io/blocks-bubbles/constants";
+import {
+  embedBaseUrls,
+  embeddableVideoTypes,
+  VideoBubbleContentType,
+} from "@typebot.io/blocks-bubbles/video/constants";
+import type { EmbeddableVideoBubbleContentType } from "@typebot.io/blocks-bubbles/video/schema";
+import type { ContinueChatResponse } from "@typebot.io/chat-api/schemas";
+import { extensionFromMimeType } from "@typebot.io/lib/extensionFromMimeType";
+import { isSvgSrc } from "@typebot.io/lib/utils";
+import { convertRichTextToMarkdown } from "@typebot.io/rich-text/convertRichTextToMarkdown";
+import type { TelegramSendingMessage } from "./schemas";
+
+export const convertMessageToTelegramMessage = (
+  message: ContinueChatResponse["messages"][number],
+): TelegramSendingMessage | null => {
+  switch (message.type) {
+    case BubbleBlockType.TEXT: {
+      if (message.content.type === "markdown")
+        throw new Error("Expect rich text message");
+      if (!message.content.richText || message.content.richText.length === 0)
+        return null;
+      const text = convertRichTextToMarkdown(message.content.richText, {
+        flavour: "telegram",
+      });
+      if (!text) return null;
+      return {
+        type: "text",
+        text,
+        parse_mode: "Markdown",
+      };
+    }
+    case BubbleBlockType.IMAGE: {
+      const url = message.content.url;
+      if (!url || !isHttpUrl(url) || isSvgSrc(url)) return null;
+      if (url.split("?")[0].endsWith(".gif"))
+        return {
+          type: "animation",
+          animation: url,
+        };
+      return {
+        type: "photo",
+        photo: url,
+      };
+    }
+    case BubbleBlockType.AUDIO:
+      if (!message.content.url) return null;
+      return {
+        type: "audio",
+        audio: message.content.url,
+      };
+    case BubbleBlockType.VIDEO:
+      if (!message.content.url) return null;
+      if (message.content.type === VideoBubbleContentType.URL)
+        return {
+          type: "video",
+          video: message.content.url,
+        };
+      if (
+        embeddableVideoTypes.includes(
+          message.content.type as EmbeddableVideoBubbleContentType,
+        )
+      )
+        return {
+          type: "text",
+          text: `${embedBaseUrls[message.content.type as EmbeddableVideoBubbleContentType]}/${message.content.id}`,
+        };
+      return null;
+    case BubbleBlockType.EMBED: {
+      if (!message.content.url) return null;
+      const fileExtension = message.content.url.split(".").pop();
+      if (
+        fileExtension &&
+        Object.entries(extensionFromMimeType).some(
+          ([mimeType, extension]) =>
+            !mimeType.includes("audio") &&
+            !mimeType.includes("video") &&
+            !mimeType.includes("image") &&
+            extension === fileExtension,
+        )
+      )
+        return {
+          type: "document",
+          document: message.content.url,
+        };
+      return {
+        type: "text",
+        text: message.content.url,
+      };
+    }
+    case "custom-embed":
+      if (!message.content.url) return null;
+      return {
+        type: "text",
+        text: message.content.url,
+      };
+  }
+};
+
+const isHttpUrl = (text: string) =>
+  text.startsWith("http://") || text.startsWith("https://");
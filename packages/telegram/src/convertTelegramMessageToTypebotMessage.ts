@@ -0,0 +1,152 @@
+import type { Block } from "@typebot.io/blocks-core/schemas/schema";
+import { InputBlockType } from "@typebot.io/blocks-inputs/constants";
+import type {
+  Message,
+  SharedContact,
+  SharedLocation,
+} from "@typebot.io/chat-api/schemas";
+import type { TelegramCredentials } from "@typebot.io/credentials/schemas";
+import { extensionFromMimeType } from "@typebot.io/lib/extensionFromMimeType";
+import { uploadFileToBucket } from "@typebot.io/lib/s3/uploadFileToBucket";
+import { downloadTelegramFile } from "./downloadTelegramFile";
+import type { TelegramIncomingMessage } from "./schemas";
+
+export const convertTelegramMessageToTypebotMessage = async ({
+  messages,
+  workspaceId,
+  credentials,
+  typebotId,
+  resultId,
+  block,
+}: {
+  messages: TelegramIncomingMessage[];
+  workspaceId?: string;
+  credentials: TelegramCredentials["data"];
+  typebotId?: string;
+  resultId?: string;
+  block?: Block;
+}): Promise<Message | undefined> => {
+  let text = "";
+  const append = (s: string) => (text = text !== "" ? `${text}\n\n${s}` : s);
+  let replyId: string | undefined;
+  let location: SharedLocation | undefined;
+  let contact: SharedContact | undefined;
+  const attachedFileUrls: string[] = [];
+  for (const message of messages) {
+    switch (message.type) {
+      case "callback_query": {
+        const { data, message: keyboardMessage } = message.callbackQuery;
+        if (!data) continue;
+        replyId = data;
+        const button = keyboardMessage?.reply_markup?.inline_keyboard
+          .flat()
+          .find((button) => button.callback_data === data);
+        append(button?.text ?? data);
+        break;
+      }
+      case "message": {
+        const { message: telegramMessage } = message;
+        if (telegramMessage.text) append(telegramMessage.text);
+        if (telegramMessage.location) {
+          location = telegramMessage.location;
+          append(`${location.latitude}, ${location.longitude}`);
+        }
+        if (telegramMessage.contact) {
+          contact = {
+            name: [
+              telegramMessage.contact.first_name,
+              telegramMessage.contact.last_name,
+            ]
+              .filter(Boolean)
+              .join(" "),
+            phoneNumber: telegramMessage.contact.phone_number,
+          };
+          append(contact.phoneNumber);
+        }
+        const media = getMedia(telegramMessage);
+        if (!media) break;
+
+        const fileVisibility =
+          block?.type === InputBlockType.TEXT &&
+          block.options?.audioClip?.isEnabled &&
+          media.isAudio
+            ? block.options?.audioClip.visibility
+            : block?.type === InputBlockType.FILE
+              ? block.options?.visibility
+              : block?.type === InputBlockType.TEXT
+                ? block.options?.attachments?.visibility
+                : undefined;
+        const { file, filePath, mimeType } = await downloadTelegramFile({
+          fileId: media.fileId,
+          credentials,
+        });
+        const extension =
+          extensionFromMimeType[media.mimeType ?? mimeType] ??
+          filePath.split(".").pop();
+        const fileName = `${media.fileUniqueId}${extension ? `.${extension}` : ""}`;
+        const fileUrl = await uploadFileToBucket({
+          file,
+          key:
+            resultId && workspaceId && typebotId
+              ? `workspaces/${workspaceId}/typebots/${typebotId}/results/${resultId}/${fileName}`
+              : `tmp/telegram/media/${fileName}`,
+          mimeType: media.mimeType ?? mimeType,
+          visibility: fileVisibility === "Public" ? "public" : "private",
+        });
+        if (media.isAudio)
+          return {
+            type: "audio",
+            url: fileUrl,
+          };
+        if (block?.type === InputBlockType.FILE) {
+          append(fileUrl);
+        } else if (block?.type === InputBlockType.TEXT) {
+          if (telegramMessage.caption) append(telegramMessage.caption);
+          attachedFileUrls.push(fileUrl);
+        }
+        break;
+      }
+      case "webhook": {
+        if (!message.webhook.data) return;
+        text = message.webhook.data;
+      }
+    }
+  }
+
+  return {
+    type: "text",
+    text,
+    attachedFileUrls,
+    metadata: { replyId, location, contact },
+  };
+};
+
+const getMedia = (
+  message: Extract<TelegramIncomingMessage, { type: "message" }>["message"],
+):
+  | {
+      fileId: string;
+      fileUniqueId: string;
+      mimeType?: string;
+      isAudio: boolean;
+    }
+  | undefined => {
+  // Photos are received in several sizes, the last one being the largest
+  const photo = message.photo?.at(-1);
+  if (photo)
+    return {
+      fileId: photo.file_id,
+      fileUniqueId: photo.file_unique_id,
+      mimeType: "image/jpeg",
+      isAudio: false,
+    };
+  const file =
+    message.voice ?? message.audio ?? message.video ?? message.document;
+  if (!file) return;
+  return {
+    fileId: file.file_id,
+    fileUniqueId: file.file_unique_id,
+    mimeType: file.mime_type,
+    isAudio: Boolean(message.voice ?? message.audio),
+  };
+};
@@ -0,0 +1,30 @@
+import type { TelegramCredentials } from "@typebot.io/credentials/schemas";
+import { ky } from "@typebot.io/lib/ky";
+import { getTelegramBotApiUrl, telegramApiBaseUrl } from "./constants";
+
+type Props = {
+  fileId: string;
+  credentials: TelegramCredentials["data"];
+};
+
+export const downloadTelegramFile = async ({
+  fileId,
+  credentials,
+}: Props): Promise<{ file: Buffer; filePath: string; mimeType: string }> => {
+  const { result } = await ky
+    .get(getTelegramBotApiUrl(credentials.botToken, "getFile"), {
+      searchParams: { file_id: fileId },
+    })
+    .json<{ result: { file_path: string } }>();
+
+  const response = await ky.get(
+    `${telegramApiBaseUrl}/file/bot${credentials.botToken}/${result.file_path}`,
+  );
+
+  return {
+    file: Buffer.from(await response.arrayBuffer()),
+    filePath: result.file_path,
+    mimeType:
+      response.headers.get("content-type") ?? "application/octet-stream",
+  };
+};
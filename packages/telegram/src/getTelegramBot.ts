@@ -0,0 +1,14 @@
+import type { TelegramCredentials } from "@typebot.io/credentials/schemas";
+import { ky } from "@typebot.io/lib/ky";
+import { getTelegramBotApiUrl } from "./constants";
+
+type Props = {
+  credentials: TelegramCredentials["data"];
+};
+
+export const getTelegramBot = async ({ credentials }: Props) => {
+  const { result } = await ky
+    .get(getTelegramBotApiUrl(credentials.botToken, "getMe"))
+    .json<{ result: { id: number; first_name: string; username: string } }>();
+  return result;
+};
@@ -0,0 +1,11 @@
+import { createHmac } from "node:crypto";
+import { env } from "@typebot.io/env";
+
+/**
+ * Secret token Telegram sends along every update of the webhook so that we
+ * can verify the request was issued by Telegram for these credentials.
+ */
+export const getTelegramWebhookSecretToken = (credentialsId: string) =>
+  createHmac("sha256", env.ENCRYPTION_SECRET)
+    .update(`telegram-webhook-${credentialsId}`)
+    .digest("hex");
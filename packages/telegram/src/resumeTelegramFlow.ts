@@ -0,0 +1,104 @@
+import { resumeChannelFlow } from "@typebot.io/channels/resumeChannelFlow";
+import type { SessionState } from "@typebot.io/chat-session/schemas";
+import { decrypt } from "@typebot.io/credentials/decrypt";
+import { getCredentials } from "@typebot.io/credentials/getCredentials";
+import type { TelegramCredentials } from "@typebot.io/credentials/schemas";
+import type { TelegramIncomingMessage } from "./schemas";
+import { startTelegramSession } from "./startTelegramSession";
+import { TelegramError } from "./TelegramError";
+import { telegramChannel } from "./telegramChannel";
+
+const MESSAGE_TOO_OLD_ELAPSED_MS = 3 * 60 * 1000; // 3 minutes
+
+type Props = {
+  receivedMessages: TelegramIncomingMessage[];
+  sessionId: string;
+  /** Chat ID the replies are sent to */
+  chatId: string;
+  credentialsId: string;
+  workspaceId: string;
+  contact?: NonNullable<SessionState["channel"]>["contact"];
+  callFrom?: "webhook";
+};
+
+const areMessagesTooOld = (receivedMessages: TelegramIncomingMessage[]) =>
+  receivedMessages.every(
+    (message) =>
+      message.type === "message" &&
+      message.message.date * 1000 < Date.now() - MESSAGE_TOO_OLD_ELAPSED_MS,
+  );
+
+export const resumeTelegramFlow = async ({
+  receivedMessages,
+  sessionId,
+  chatId,
+  credentialsId,
+  workspaceId,
+  contact,
+  callFrom,
+}: Props) => {
+  if (receivedMessages.length === 0)
+    throw new TelegramError("Received messages is empty");
+  if (areMessagesTooOld(receivedMessages))
+    throw new TelegramError("Message is too old");
+
+  const credentials = await getTelegramCredentials({
+    credentialsId,
+    workspaceId,
+  });
+  if (!credentials) throw new TelegramError("Could not find credentials");
+
+  const lastMessage = receivedMessages.at(-1);
+
+  await resumeChannelFlow({
+    channel: telegramChannel,
+    receivedMessages,
+    sessionId,
+    credentials,
+    to: chatId,
+    messageId:
+      lastMessage?.type === "message"
+        ? lastMessage.message.message_id.toString()
+        : lastMessage?.type === "callback_query"
+          ? lastMessage.callbackQuery.id
+          : undefined,
+    workspaceId,
+    callFrom,
+    updateState: (state) =>
+      contact
+        ? {
+            ...state,
+            channel: {
+              type: "telegram",
+              contact,
+            },
+          }
+        : state,
+    startSession: ({ incomingMessage, sessionStore }) => {
+      if (!contact)
+        throw new TelegramError("Can't start Telegram session without contact");
+      return startTelegramSession({
+        incomingMessage,
+        workspaceId,
+        credentialsId,
+        contact,
+        sessionStore,
+      });
+    },
+  });
+};
+
+export const getTelegramCredentials = async ({
+  credentialsId,
+  workspaceId,
+}: {
+  credentialsId: string;
+  workspaceId: string;
+}): Promise<TelegramCredentials["data"] | undefined> => {
+  const credentials = await getCredentials(credentialsId, workspaceId);
+  if (!credentials) return;
+  return (await decrypt(
+    credentials.data,
+    credentials.iv,
+  )) as TelegramCredentials["data"];
+};
@@ -0,0 +1,138 @@
+import { z } from "@typebot.io/zod";
+
+const userSchema = z.object({
+  id: z.number(),
+  first_name: z.string(),
+  last_name: z.string().optional(),
+  username: z.string().optional(),
+});
+
+const fileSchema = z.object({
+  file_id: z.string(),
+  file_unique_id: z.string(),
+  file_name: z.string().optional(),
+  mime_type: z.string().optional(),
+});
+
+const inlineKeyboardButtonSchema = z.object({
+  text: z.string(),
+  callback_data: z.string().optional(),
+  url: z.string().optional(),
+});
+
+const inlineKeyboardMarkupSchema = z.object({
+  inline_keyboard: z.array(z.array(inlineKeyboardButtonSchema)),
+});
+
+const incomingMessageSchema = z.object({
+  message_id: z.number(),
+  date: z.number(),
+  chat: z.object({
+    id: z.number(),
+    type: z.string(),
+  }),
+  from: userSchema.optional(),
+  media_group_id: z.string().optional(),
+  text: z.string().optional(),
+  caption: z.string().optional(),
+  photo: z
+    .array(
+      fileSchema.extend({
+        width: z.number(),
+        height: z.number(),
+      }),
+    )
+    .optional(),
+  document: fileSchema.optional(),
+  audio: fileSchema.optional(),
+  voice: fileSchema.optional(),
+  video: fileSchema.optional(),
+  location: z
+    .object({
+      latitude: z.number(),
+      longitude: z.number(),
+    })
+    .optional(),
+  contact: z
+    .object({
+      phone_number: z.string(),
+      first_name: z.string(),
+      last_name: z.string().optional(),
+    })
+    .optional(),
+  reply_markup: inlineKeyboardMarkupSchema.optional(),
+});
+
+const callbackQuerySchema = z.object({
+  id: z.string(),
+  from: userSchema,
+  message: incomingMessageSchema.optional(),
+  data: z.string().optional(),
+});
+
+export const telegramUpdateSchema = z.object({
+  update_id: z.number(),
+  message: incomingMessageSchema.optional(),
+  callback_query: callbackQuerySchema.optional(),
+});
+export type TelegramUpdate = z.infer<typeof telegramUpdateSchema>;
+
+export const telegramIncomingMessageSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("message"),
+    message: incomingMessageSchema,
+  }),
+  z.object({
+    type: z.literal("callback_query"),
+    callbackQuery: callbackQuerySchema,
+  }),
+  z.object({
+    type: z.literal("webhook"),
+    webhook: z.object({
+      data: z.string().optional(),
+    }),
+  }),
+]);
+export type TelegramIncomingMessage = z.infer<
+  typeof telegramIncomingMessageSchema
+>;
+
+const parseModeSchema = z.literal("Markdown");
+
+export const telegramSendingMessageSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("text"),
+    text: z.string(),
+    parse_mode: parseModeSchema.optional(),
+    reply_markup: inlineKeyboardMarkupSchema.optional(),
+  }),
+  z.object({
+    type: z.literal("photo"),
+    photo: z.string(),
+    caption: z.string().optional(),
+    parse_mode: parseModeSchema.optional(),
+    reply_markup: inlineKeyboardMarkupSchema.optional(),
+  }),
+  z.object({
+    type: z.literal("animation"),
+    animation: z.string(),
+  }),
+  z.object({
+    type: z.literal("video"),
+    video: z.string(),
+  }),
+  z.object({
+    type: z.literal("audio"),
+    audio: z.string(),
+  }),
+  z.object({
+    type: z.literal("document"),
+    document: z.string(),
+  }),
+]);
+export type TelegramSendingMessage = z.infer<
+  typeof telegramSendingMessageSchema
+>;
+export type TelegramInlineKeyboardMarkup = z.infer<
+  typeof inlineKeyboardMarkupSchema
+>;
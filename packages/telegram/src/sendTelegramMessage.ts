@@ -0,0 +1,60 @@
+import * as Sentry from "@sentry/nextjs";
+import type { TelegramCredentials } from "@typebot.io/credentials/schemas";
+import { ky } from "@typebot.io/lib/ky";
+import { HTTPError } from "ky";
+import { getTelegramBotApiUrl } from "./constants";
+import type { TelegramSendingMessage } from "./schemas";
+
+type Props = {
+  to: string;
+  message: TelegramSendingMessage;
+  credentials: TelegramCredentials["data"];
+};
+
+const sendMethodByType = {
+  text: "sendMessage",
+  photo: "sendPhoto",
+  animation: "sendAnimation",
+  video: "sendVideo",
+  audio: "sendAudio",
+  document: "sendDocument",
+} as const satisfies Record<TelegramSendingMessage["type"], string>;
+
+export const sendTelegramMessage = async ({
+  to,
+  message,
+  credentials,
+}: Props) => {
+  const { type, ...json } = message;
+  const url = getTelegramBotApiUrl(
+    credentials.botToken,
+    sendMethodByType[type],
+  );
+  try {
+    await ky.post(url, {
+      json: { chat_id: to, ...json },
+    });
+  } catch (err) {
+    // Variable values can contain characters that break the Markdown parsing
+    if ("parse_mode" in json && (await isParseEntitiesError(err))) {
+      const { parse_mode: _, ...plainJson } = json;
+      await ky.post(url, {
+        json: { chat_id: to, ...plainJson },
+      });
+      return;
+    }
+    Sentry.addBreadcrumb({
+      message: JSON.stringify(message),
+    });
+    throw err;
+  }
+};
+
+const isParseEntitiesError = async (err: unknown) => {
+  if (!(err instanceof HTTPError) || err.response.status !== 400) return false;
+  const body = (await err.response
+    .clone()
+    .json()
+    .catch(() => undefined)) as { description?: string } | undefined;
+  return body?.description?.includes("can't parse entities") ?? false;
+};
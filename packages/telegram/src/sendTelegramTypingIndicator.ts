@@ -0,0 +1,33 @@
+import * as Sentry from "@sentry/nextjs";
+import type { TelegramCredentials } from "@typebot.io/credentials/schemas";
+import { ky } from "@typebot.io/lib/ky";
+import { getTelegramBotApiUrl } from "./constants";
+
+type Props = {
+  to: string;
+  credentials: TelegramCredentials["data"];
+};
+
+export const sendTelegramTypingIndicator = async ({
+  to,
+  credentials,
+}: Props) => {
+  try {
+    await ky.post(
+      getTelegramBotApiUrl(credentials.botToken, "sendChatAction"),
+      {
+        json: {
+          chat_id: to,
+          action: "typing",
+        },
+      },
+    );
+  } catch (err) {
+    // Typing indicators are non-critical, log the error but don't throw
+    Sentry.captureException(err, {
+      tags: {
+        context: "telegram-typing-indicator",
+      },
+    });
+  }
+};
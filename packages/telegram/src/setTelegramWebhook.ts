@@ -0,0 +1,28 @@
+import type { TelegramCredentials } from "@typebot.io/credentials/schemas";
+import { env } from "@typebot.io/env";
+import { ky } from "@typebot.io/lib/ky";
+import { getTelegramBotApiUrl } from "./constants";
+import { getTelegramWebhookSecretToken } from "./getTelegramWebhookSecretToken";
+
+type Props = {
+  workspaceId: string;
+  credentialsId: string;
+  credentials: TelegramCredentials["data"];
+};
+
+/** Points the bot updates to the viewer webhook route of these credentials */
+export const setTelegramWebhook = async ({
+  workspaceId,
+  credentialsId,
+  credentials,
+}: Props) => {
+  await ky.post(getTelegramBotApiUrl(credentials.botToken, "setWebhook"), {
+    json: {
+      url: `${
+        env.NEXT_PUBLIC_VIEWER_URL.at(1) ?? env.NEXT_PUBLIC_VIEWER_URL[0]
+      }/api/v1/workspaces/${workspaceId}/telegram/${credentialsId}/webhook`,
+      secret_token: getTelegramWebhookSecretToken(credentialsId),
+      allowed_updates: ["message", "callback_query"],
+    },
+  });
+};
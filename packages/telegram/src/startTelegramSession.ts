@@ -0,0 +1,88 @@
+import { startSession } from "@typebot.io/bot-engine/startSession";
+import type { ChannelFlowResponse } from "@typebot.io/channels/resumeChannelFlow";
+import type { Message } from "@typebot.io/chat-api/schemas";
+import type { SessionState } from "@typebot.io/chat-session/schemas";
+import prisma from "@typebot.io/prisma";
+import type { SessionStore } from "@typebot.io/runtime-session-store";
+import { defaultSessionExpiryTimeout } from "@typebot.io/settings/constants";
+import { getScheduleStatus } from "@typebot.io/settings/getScheduleStatus";
+import type { PublicTypebot } from "@typebot.io/typebot/schemas/publicTypebot";
+import type { Typebot } from "@typebot.io/typebot/schemas/typebot";
+import { TelegramError } from "./TelegramError";
+
+type Props = {
+  incomingMessage?: Message;
+  workspaceId: string;
+  credentialsId: string;
+  contact: NonNullable<SessionState["channel"]>["contact"];
+  sessionStore: SessionStore;
+};
+
+export const startTelegramSession = async ({
+  incomingMessage,
+  workspaceId,
+  credentialsId,
+  contact,
+  sessionStore,
+}: Props): Promise<ChannelFlowResponse> => {
+  const publicTypebots = (await prisma.publicTypebot.findMany({
+    where: {
+      typebot: { workspaceId, isArchived: false },
+    },
+    select: {
+      settings: true,
+      typebot: {
+        select: {
+          publicId: true,
+        },
+      },
+    },
+  })) as (Pick<PublicTypebot, "settings"> & {
+    typebot: Pick<Typebot, "publicId">;
+  })[];
+
+  const publicTypebot = publicTypebots.find((publicTypebot) => {
+    const scheduleStatus = getScheduleStatus(publicTypebot.settings.schedule);
+    return (
+      publicTypebot.typebot.publicId &&
+      publicTypebot.settings.telegram?.isEnabled &&
+      publicTypebot.settings.telegram.credentialsId === credentialsId &&
+      scheduleStatus !== "notPublishedYet" &&
+      scheduleStatus !== "unpublished"
+    );
+  });
+
+  if (!publicTypebot)
+    throw new TelegramError(
+      "No public typebot with Telegram integration found",
+    );
+
+  const sessionExpiryTimeoutHours =
+    publicTypebot.settings.telegram?.sessionExpiryTimeout ??
+    defaultSessionExpiryTimeout;
+
+  return startSession({
+    version: 2,
+    startParams: {
+      type: "live",
+      publicId: publicTypebot.typebot.publicId as string,
+      isOnlyRegistering: false,
+      isStreamEnabled: false,
+      textBubbleContentFormat: "richText",
+      // `/start` is sent by Telegram when the user opens the bot, it is not an answer
+      message:
+        incomingMessage?.type === "text" &&
+        incomingMessage.text.startsWith("/start")
+          ? undefined
+          : incomingMessage,
+    },
+    initialSessionState: {
+      channel: {
+        type: "telegram",
+        contact,
+      },
+      expiryTimeout: sessionExpiryTimeoutHours * 60 * 60 * 1000,
+    },
+    sessionStore,
+  });
+};
@@ -0,0 +1,76 @@
+import type { Channel } from "@typebot.io/channels/types";
+import type { TelegramCredentials } from "@typebot.io/credentials/schemas";
+import { TELEGRAM_SESSION_ID_PREFIX } from "./constants";
+import { convertInputToTelegramMessages } from "./convertInputToTelegramMessages";
+import { convertMessageToTelegramMessage } from "./convertMessageToTelegramMessage";
+import { convertTelegramMessageToTypebotMessage } from "./convertTelegramMessageToTypebotMessage";
+import {
+  type TelegramIncomingMessage,
+  type TelegramSendingMessage,
+  telegramUpdateSchema,
+} from "./schemas";
+import { sendTelegramMessage } from "./sendTelegramMessage";
+import { sendTelegramTypingIndicator } from "./sendTelegramTypingIndicator";
+
+export const telegramChannel: Channel<
+  TelegramIncomingMessage,
+  TelegramSendingMessage,
+  TelegramCredentials["data"]
+> = {
+  sessionIdPrefix: TELEGRAM_SESSION_ID_PREFIX,
+  parseWebhookRequest: (body) => {
+    const parsedBody = telegramUpdateSchema.safeParse(body);
+    if (!parsedBody.success) return [];
+    const { message, callback_query } = parsedBody.data;
+    const chat = message?.chat ?? callback_query?.message?.chat;
+    const from = message?.from ?? callback_query?.from;
+    // Only private chats are supported, chat ID is then the user ID
+    if (!chat || chat.type !== "private" || !from) return [];
+    return [
+      {
+        externalUserId: chat.id.toString(),
+        contactName: [from.first_name, from.last_name]
+          .filter(Boolean)
+          .join(" "),
+        messages: message
+          ? [{ type: "message", message }]
+          : callback_query
+            ? [{ type: "callback_query", callbackQuery: callback_query }]
+            : [],
+      },
+    ];
+  },
+  convertIncomingMessages: convertTelegramMessageToTypebotMessage,
+  // Telegram sends each media of an album as a separate update
+  isAggregatedIncomingMessage: (message) =>
+    message.type === "message" && message.message.media_group_id !== undefined,
+  convertMessage: async ({ message }) =>
+    convertMessageToTelegramMessage(message),
+  convertInput: async ({ input, lastMessage, state }) =>
+    convertInputToTelegramMessages({
+      input,
+      lastMessage,
+      systemMessages: state.typebotsQueue[0].typebot.systemMessages,
+    }),
+  convertRedirectUrl: (url) => ({
+    type: "text",
+    text: url,
+  }),
+  getMessageText: (message) => {
+    switch (message.type) {
+      case "text":
+        return message.text;
+      case "photo":
+        return message.caption;
+      case "animation":
+      case "video":
+      case "audio":
+      case "document":
+        return;
+    }
+  },
+  isMediaMessage: (message) =>
+    ["photo", "animation", "video", "audio"].includes(message.type),
+  sendMessage: sendTelegramMessage,
+  sendTypingIndicator: sendTelegramTypingIndicator,
+};
@@ -0,0 +1,65 @@
+import { describe, expect, it } from "bun:test";
+import { computeTypebotsDiff } from "./computeTypebotsDiff";
+
+const createContent = (
+  groups: { id: string; title?: string; blockIds: string[] }[],
+) =>
+  ({
+    groups: groups.map((group) => ({
+      id: group.id,
+      title: group.title ?? group.id,
+      graphCoordinates: { x: 0, y: 0 },
+      blocks: group.blockIds.map((id) => ({ id, type: "text" })),
+    })),
+    edges: [],
+    events: [],
+    variables: [],
+    settings: {},
+    theme: {},
+  }) as unknown as Parameters<typeof computeTypebotsDiff>[0];
+
+describe("computeTypebotsDiff", () => {
+  it("should list added, removed and modified blocks", () => {
+    const from = createContent([{ id: "g1", blockIds: ["b1", "b2"] }]);
+    const to = createContent([{ id: "g1", blockIds: ["b1", "b3"] }]);
+    (to.groups[0].blocks[0] as { options?: unknown }).options = {
+      isEnabled: true,
+    };
+    const diff = computeTypebotsDiff(from, to);
+    expect(diff.blocks.added).toEqual(["b3"]);
+    expect(diff.blocks.removed).toEqual(["b2"]);
+    expect(diff.blocks.modified).toEqual(["b1"]);
+    expect(diff.blocks.moved).toEqual([]);
+    expect(diff.groups.modified).toEqual([]);
+  });
+
+  it("should detect blocks moved to another group", () => {
+    const from = createContent([
+      { id: "g1", blockIds: ["b1", "b2"] },
+      { id: "g2", blockIds: ["b3"] },
+    ]);
+    const to = createContent([
+      { id: "g1", blockIds: ["b1"] },
+      { id: "g2", blockIds: ["b2", "b3"] },
+    ]);
+    expect(computeTypebotsDiff(from, to).blocks.moved).toEqual([
+      { id: "b2", fromGroupId: "g1", toGroupId: "g2" },
+    ]);
+  });
+
+  it("should not flag following blocks as moved when a block is inserted", () => {
+    const from = createContent([{ id: "g1", blockIds: ["b1", "b2"] }]);
+    const to = createContent([{ id: "g1", blockIds: ["b0", "b1", "b2"] }]);
+    const diff = computeTypebotsDiff(from, to);
+    expect(diff.blocks.added).toEqual(["b0"]);
+    expect(diff.blocks.moved).toEqual([]);
+  });
+
+  it("should only flag group metadata changes on groups", () => {
+    const from = createContent([{ id: "g1", blockIds: ["b1"] }]);
+    const to = createContent([{ id: "g1", title: "Renamed", blockIds: [] }]);
+    const diff = computeTypebotsDiff(from, to);
+    expect(diff.groups.modified).toEqual(["g1"]);
+    expect(diff.blocks.removed).toEqual(["b1"]);
+  });
+});
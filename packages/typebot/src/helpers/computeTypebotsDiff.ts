@@ -0,0 +1,119 @@
+import { dequal } from "dequal";
+import type { PublicTypebot } from "../schemas/publicTypebot";
+import type { TypebotsDiff } from "../schemas/typebotsDiff";
+
+type TypebotContent = Pick<
+  PublicTypebot,
+  "groups" | "edges" | "events" | "variables" | "settings" | "theme"
+>;
+
+export const computeTypebotsDiff = (
+  from: TypebotContent,
+  to: TypebotContent,
+): TypebotsDiff => {
+  const variablesDiff = computeItemsDiff(from.variables, to.variables);
+  const fromGroups: GroupContent[] = from.groups;
+  const toGroups: GroupContent[] = to.groups;
+  return {
+    groups: computeItemsDiff(
+      fromGroups.map(omitBlocks),
+      toGroups.map(omitBlocks),
+    ),
+    blocks: computeBlocksDiff(fromGroups, toGroups),
+    edges: computeItemsDiff(from.edges, to.edges),
+    events: computeItemsDiff(from.events ?? [], to.events ?? []),
+    variables: {
+      ...variablesDiff,
+      renamed: to.variables.flatMap((variable) => {
+        const previousVariable = from.variables.find(
+          (v) => v.id === variable.id,
+        );
+        if (!previousVariable || previousVariable.name === variable.name)
+          return [];
+        return [
+          { id: variable.id, from: previousVariable.name, to: variable.name },
+        ];
+      }),
+    },
+    hasSettingsChanged: !isJsonEqual(from.settings, to.settings),
+    hasThemeChanged: !isJsonEqual(from.theme, to.theme),
+  };
+};
+
+type GroupContent = { id: string; blocks: { id: string }[] };
+
+const omitBlocks = ({ blocks: _, ...group }: GroupContent) => group;
+
+const computeBlocksDiff = (
+  fromGroups: GroupContent[],
+  toGroups: GroupContent[],
+): TypebotsDiff["blocks"] => {
+  const fromGroupIdByBlockId = new Map(
+    fromGroups.flatMap((group) =>
+      group.blocks.map((block) => [block.id, group.id] as const),
+    ),
+  );
+  const toGroupIdByBlockId = new Map(
+    toGroups.flatMap((group) =>
+      group.blocks.map((block) => [block.id, group.id] as const),
+    ),
+  );
+  return {
+    ...computeItemsDiff(
+      fromGroups.flatMap((group) => group.blocks),
+      toGroups.flatMap((group) => group.blocks),
+    ),
+    moved: toGroups.flatMap((toGroup) => {
+      const fromGroup = fromGroups.find((group) => group.id === toGroup.id);
+      // Only compare the order of blocks that stayed in the same group so that
+      // adding or removing a block does not flag all the following ones.
+      const isStillInGroup = (blockId: string) =>
+        fromGroupIdByBlockId.get(blockId) === toGroup.id &&
+        toGroupIdByBlockId.get(blockId) === toGroup.id;
+      const fromOrder = (fromGroup?.blocks ?? [])
+        .map((block) => block.id)
+        .filter(isStillInGroup);
+      const toOrder = toGroup.blocks
+        .map((block) => block.id)
+        .filter(isStillInGroup);
+      return toGroup.blocks.flatMap((block) => {
+        const fromGroupId = fromGroupIdByBlockId.get(block.id);
+        if (!fromGroupId) return [];
+        if (
+          fromGroupId === toGroup.id &&
+          fromOrder.indexOf(block.id) === toOrder.indexOf(block.id)
+        )
+          return [];
+        return [{ id: block.id, fromGroupId, toGroupId: toGroup.id }];
+      });
+    }),
+  };
+};
+
+const computeItemsDiff = <T extends { id: string }>(
+  fromItems: T[],
+  toItems: T[],
+) => {
+  const fromItemsById = new Map(fromItems.map((item) => [item.id, item]));
+  const toItemIds = new Set(toItems.map((item) => item.id));
+  return {
+    added: toItems
+      .filter((item) => !fromItemsById.has(item.id))
+      .map((item) => item.id),
+    removed: fromItems
+      .filter((item) => !toItemIds.has(item.id))
+      .map((item) => item.id),
+    modified: toItems
+      .filter((item) => {
+        const fromItem = fromItemsById.get(item.id);
+        return fromItem && !isJsonEqual(fromItem, item);
+      })
+      .map((item) => item.id),
+  };
+};
+
+export const isJsonEqual = (a: unknown, b: unknown) =>
+  dequal(
+    JSON.parse(JSON.stringify(a ?? null)),
+    JSON.parse(JSON.stringify(b ?? null)),
+  );
@@ -22,6 +22,7 @@ export const publicTypebotSchemaV5 = (
       updatedAt: z.date(),
       lastActivityAt: z.date().nullish(),
       typebotId: z.string(),
+      snapshotId: z.string().nullish(),
       groups: z.array(groupV5Schema),
       events: z.null(),
       edges: z.array(edgeSchema),
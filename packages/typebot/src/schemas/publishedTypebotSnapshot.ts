@@ -0,0 +1,61 @@
+import { z } from "@typebot.io/zod";
+import { preprocessTypebot } from "../preprocessTypebot";
+import { publicTypebotSchemaV5, publicTypebotSchemaV6 } from "./publicTypebot";
+
+const snapshotOmit = {
+  updatedAt: true,
+  lastActivityAt: true,
+  snapshotId: true,
+} as const;
+const snapshotExtension = {
+  authorId: z.string().nullable(),
+  restoredFromId: z
+    .string()
+    .nullable()
+    .describe("ID of the snapshot this one was restored from"),
+};
+
+export const publishedTypebotSnapshotSchemaV5 = publicTypebotSchemaV5
+  .omit(snapshotOmit)
+  .extend(snapshotExtension);
+export type PublishedTypebotSnapshotV5 = z.infer<
+  typeof publishedTypebotSnapshotSchemaV5
+>;
+
+export const publishedTypebotSnapshotSchemaV6 = publicTypebotSchemaV6
+  .omit(snapshotOmit)
+  .extend(snapshotExtension);
+export type PublishedTypebotSnapshotV6 = z.infer<
+  typeof publishedTypebotSnapshotSchemaV6
+>;
+
+export const publishedTypebotSnapshotSchema = z.preprocess(
+  preprocessTypebot,
+  z.discriminatedUnion("version", [
+    publishedTypebotSnapshotSchemaV6,
+    publishedTypebotSnapshotSchemaV5,
+  ]),
+);
+export type PublishedTypebotSnapshot =
+  | PublishedTypebotSnapshotV5
+  | PublishedTypebotSnapshotV6;
+
+export const publishedTypebotSnapshotSummarySchema = z.object({
+  id: z.string(),
+  createdAt: z.date(),
+  version: z.string().nullable(),
+  restoredFromId: z.string().nullable(),
+  isCurrent: z
+    .boolean()
+    .describe("Whether this snapshot is the one currently live"),
+  author: z
+    .object({
+      id: z.string(),
+      name: z.string().nullable(),
+      image: z.string().nullable(),
+    })
+    .nullable(),
+});
+export type PublishedTypebotSnapshotSummary = z.infer<
+  typeof publishedTypebotSnapshotSummarySchema
+>;
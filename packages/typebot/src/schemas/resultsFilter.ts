@@ -0,0 +1,49 @@
+import {
+  ComparisonOperators,
+  LogicalOperator,
+} from "@typebot.io/conditions/constants";
+import { z } from "@typebot.io/zod";
+
+export const resultStatusFilterValues = ["completed", "uncompleted"] as const;
+
+export const resultsFilterComparisonSchema = z.object({
+  id: z.string(),
+  columnId: z
+    .string()
+    .optional()
+    .describe(
+      "Id of the column to compare: `date`, an input block id or a variable id",
+    ),
+  comparisonOperator: z.nativeEnum(ComparisonOperators).optional(),
+  value: z.string().optional(),
+});
+
+export const resultsFilterSchema = z.object({
+  search: z
+    .string()
+    .optional()
+    .describe("Only keep results with an answer containing this text"),
+  status: z.enum(resultStatusFilterValues).optional(),
+  resultStatus: z
+    .enum(["NEW", "IN_PROGRESS", "DONE"])
+    .optional()
+    .describe("Only keep results with this status"),
+  tags: z
+    .array(z.string())
+    .optional()
+    .describe("Only keep results with all of these tags"),
+  logicalOperator: z.nativeEnum(LogicalOperator).optional(),
+  comparisons: z.array(resultsFilterComparisonSchema).optional(),
+});
+
+export const resultsFilterViewSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  filter: resultsFilterSchema,
+});
+
+export type ResultsFilterComparison = z.infer<
+  typeof resultsFilterComparisonSchema
+>;
+export type ResultsFilter = z.infer<typeof resultsFilterSchema>;
+export type ResultsFilterView = z.infer<typeof resultsFilterViewSchema>;
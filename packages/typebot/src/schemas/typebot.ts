@@ -14,6 +14,7 @@ import {
   preprocessTypebot,
 } from "../preprocessTypebot";
 import { edgeSchema } from "./edge";
+import { resultsFilterViewSchema } from "./resultsFilter";
 
 export const resultsTablePreferencesSchema = z.object({
   columnsOrder: z.array(z.string()),
@@ -22,6 +23,7 @@ export const resultsTablePreferencesSchema = z.object({
     preprocessColumnsWidthResults,
     z.record(z.string(), z.number()),
   ),
+  filterViews: z.array(resultsFilterViewSchema).optional(),
 });
 
 const isDomainNameWithPathNameCompatible = (str: string) =>
@@ -0,0 +1,40 @@
+import { z } from "@typebot.io/zod";
+
+const itemsDiffSchema = z.object({
+  added: z.array(z.string()),
+  removed: z.array(z.string()),
+  modified: z.array(z.string()),
+});
+
+export const typebotsDiffSchema = z.object({
+  groups: itemsDiffSchema.describe(
+    "Group IDs. A group is modified when its title or position changed.",
+  ),
+  blocks: itemsDiffSchema
+    .extend({
+      moved: z.array(
+        z.object({
+          id: z.string(),
+          fromGroupId: z.string(),
+          toGroupId: z.string(),
+        }),
+      ),
+    })
+    .describe("Block IDs"),
+  edges: itemsDiffSchema.describe("Edge IDs"),
+  events: itemsDiffSchema.describe("Event IDs"),
+  variables: itemsDiffSchema
+    .extend({
+      renamed: z.array(
+        z.object({
+          id: z.string(),
+          from: z.string(),
+          to: z.string(),
+        }),
+      ),
+    })
+    .describe("Variable IDs"),
+  hasSettingsChanged: z.boolean(),
+  hasThemeChanged: z.boolean(),
+});
+export type TypebotsDiff = z.infer<typeof typebotsDiffSchema>;
@@ -5,6 +5,7 @@ export class TypebotService extends Context.Tag("@typebot/TypebotService")<
   TypebotService,
   {
     findUnique: PrismaService["typebot"]["findUnique"];
+    findMany: PrismaService["typebot"]["findMany"];
   }
 >() {}
 
@@ -15,6 +16,7 @@ export const TypebotServiceLayer = Layer.effect(
 
     return {
       findUnique: prisma.typebot.findUnique,
+      findMany: prisma.typebot.findMany,
     };
   }),
 );
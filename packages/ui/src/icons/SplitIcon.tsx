@@ -0,0 +1,8 @@
+import { Icon } from "../components/Icon";
+
+export const SplitIcon = ({ className }: { className?: string }) => (
+  <Icon className={className}>
+    <path d="M3 12H21M9 12C13 12 13 5 17 5H21M9 12C13 12 13 19 17 19H21" />
+    <path d="M18 2L21 5L18 8M18 9L21 12L18 15M18 16L21 19L18 22" />
+  </Icon>
+);
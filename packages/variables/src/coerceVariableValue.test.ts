@@ -0,0 +1,46 @@
+import { describe, expect, it } from "bun:test";
+import { coerceVariableValue } from "./coerceVariableValue";
+
+describe("coerceVariableValue", () => {
+  it("should return the value untouched when no type is declared", () => {
+    expect(coerceVariableValue("10", undefined)).toBe("10");
+    expect(coerceVariableValue(["a"], undefined)).toEqual(["a"]);
+  });
+
+  it("should coerce numbers", () => {
+    expect(coerceVariableValue("10", "number")).toBe(10);
+    expect(coerceVariableValue(" 3,5 ", "number")).toBe(3.5);
+    expect(coerceVariableValue("10 apples", "number")).toBe("10 apples");
+  });
+
+  it("should coerce booleans", () => {
+    expect(coerceVariableValue("Yes", "boolean")).toBe(true);
+    expect(coerceVariableValue("0", "boolean")).toBe(false);
+    expect(coerceVariableValue("maybe", "boolean")).toBe("maybe");
+  });
+
+  it("should coerce dates to ISO strings", () => {
+    expect(coerceVariableValue("2024-01-05T10:00:00Z", "date")).toBe(
+      "2024-01-05T10:00:00.000Z",
+    );
+    expect(coerceVariableValue("1704448800000", "date")).toBe(
+      "2024-01-05T10:00:00.000Z",
+    );
+    expect(coerceVariableValue("tomorrow", "date")).toBe("tomorrow");
+  });
+
+  it("should coerce lists", () => {
+    expect(coerceVariableValue('["a","b"]', "list")).toEqual(["a", "b"]);
+    expect(coerceVariableValue("a", "list")).toEqual(["a"]);
+  });
+
+  it("should coerce JSON objects", () => {
+    expect(coerceVariableValue('{"a":1}', "json")).toEqual({ a: 1 });
+    expect(coerceVariableValue("not json", "json")).toBe("not json");
+  });
+
+  it("should coerce to strings", () => {
+    expect(coerceVariableValue(["a", "b"], "string")).toBe("a, b");
+    expect(coerceVariableValue(12, "string")).toBe("12");
+  });
+});
@@ -0,0 +1,73 @@
+import { safeStringify } from "@typebot.io/lib/safeStringify";
+import type { VariableType } from "./schemas";
+
+/**
+ * Coerces a value to the declared variable type. Returns the original value
+ * when it can't be represented with that type so that no data is lost.
+ */
+export const coerceVariableValue = (
+  value: unknown,
+  type: VariableType | undefined,
+): unknown => {
+  if (!type || value === null || value === undefined) return value;
+  switch (type) {
+    case "string":
+      return Array.isArray(value)
+        ? value.map(safeStringify).join(", ")
+        : safeStringify(value);
+    case "number":
+      return parseNumber(value) ?? value;
+    case "boolean":
+      return parseBoolean(value) ?? value;
+    case "date":
+      return parseDate(value)?.toISOString() ?? value;
+    case "list": {
+      if (Array.isArray(value)) return value;
+      const parsedValue =
+        typeof value === "string" ? safeJsonParse(value) : value;
+      return Array.isArray(parsedValue) ? parsedValue : [value];
+    }
+    case "json": {
+      const parsedValue =
+        typeof value === "string" ? safeJsonParse(value) : value;
+      return typeof parsedValue === "object" && parsedValue !== null
+        ? parsedValue
+        : value;
+    }
+  }
+};
+
+export const parseNumber = (value: unknown): number | undefined => {
+  if (typeof value === "number")
+    return Number.isFinite(value) ? value : undefined;
+  if (typeof value !== "string" || value.trim() === "") return;
+  const parsedValue = Number(value.trim().replace(",", "."));
+  return Number.isFinite(parsedValue) ? parsedValue : undefined;
+};
+
+export const parseDate = (value: unknown): Date | undefined => {
+  if (typeof value !== "string" && typeof value !== "number") return;
+  const date =
+    typeof value === "number" || /^-?\d+$/.test(value.trim())
+      ? new Date(Number(value))
+      : new Date(value);
+  return Number.isNaN(date.getTime()) ? undefined : date;
+};
+
+const truthyValues = ["true", "1", "yes", "on"];
+const falsyValues = ["false", "0", "no", "off"];
+
+export const parseBoolean = (value: unknown): boolean | undefined => {
+  if (typeof value === "boolean") return value;
+  const normalizedValue = String(value).trim().toLowerCase();
+  if (truthyValues.includes(normalizedValue)) return true;
+  if (falsyValues.includes(normalizedValue)) return false;
+};
+
+const safeJsonParse = (value: string): unknown => {
+  try {
+    return JSON.parse(value);
+  } catch {
+    return;
+  }
+};
@@ -0,0 +1,8 @@
+export const variableTypes = [
+  "string",
+  "number",
+  "boolean",
+  "date",
+  "list",
+  "json",
+] as const;
@@ -0,0 +1,59 @@
+import { describe, expect, it } from "bun:test";
+import { findVariableWithPath, parsePath } from "./findVariableWithPath";
+
+const variables = [
+  {
+    id: "v1",
+    name: "order",
+    value: JSON.stringify({
+      id: "o1",
+      items: [{ sku: "A1" }, { sku: "B2", "unit price": 3 }],
+    }),
+  },
+  { id: "v2", name: "order.id", value: "exact" },
+  { id: "v3", name: "skus", value: ['{"sku":"A1"}', '{"sku":"B2"}'] },
+];
+
+describe("parsePath", () => {
+  it("should parse dot, index and quoted segments", () => {
+    expect(parsePath('.items[0]["unit price"]')).toEqual([
+      "items",
+      0,
+      "unit price",
+    ]);
+  });
+
+  it("should reject invalid paths", () => {
+    expect(parsePath(".items[abc]")).toBeUndefined();
+    expect(parsePath("items")).toBeUndefined();
+  });
+});
+
+describe("findVariableWithPath", () => {
+  it("should prefer variables with the exact name", () => {
+    expect(findVariableWithPath(variables, "order.id")?.value).toBe("exact");
+  });
+
+  it("should resolve nested values of JSON variables", () => {
+    expect(findVariableWithPath(variables, "order.items[1].sku")?.value).toBe(
+      "B2",
+    );
+    expect(
+      findVariableWithPath(variables, 'order.items[-1]["unit price"]')?.value,
+    ).toBe(3);
+    expect(findVariableWithPath(variables, "order.items[0]")?.value).toEqual({
+      sku: "A1",
+    });
+  });
+
+  it("should resolve paths inside list items", () => {
+    expect(findVariableWithPath(variables, "skus[1].sku")?.value).toBe("B2");
+  });
+
+  it("should return undefined for missing values", () => {
+    expect(
+      findVariableWithPath(variables, "order.items[5].sku")?.value,
+    ).toBeUndefined();
+    expect(findVariableWithPath(variables, "unknown.path")).toBeUndefined();
+  });
+});
@@ -0,0 +1,74 @@
+import type { Variable } from "./schemas";
+
+type PathSegment = string | number;
+
+// .key, [0], [-1], ["key"] and ['key']
+const pathSegmentRegex =
+  /\.([^.[\]]+)|\[(-?\d+)\]|\["([^"]*)"\]|\['([^']*)'\]/g;
+
+/**
+ * Finds the variable referenced by `name`. If no variable has this exact name,
+ * `name` can also be a path to a nested value of a JSON variable, i.e.
+ * `order.items[0].sku`.
+ */
+export const findVariableWithPath = (
+  variables: Pick<Variable, "id" | "name" | "value">[],
+  name: string,
+):
+  | { variable: Pick<Variable, "id" | "name" | "value">; value: unknown }
+  | undefined => {
+  const variable = variables.find((variable) => variable.name === name);
+  if (variable) return { variable, value: variable.value };
+  // Longest variable name first so that `a.b.c` resolves to the `a.b`
+  // variable rather than `a` when both exist.
+  for (let index = name.length - 1; index > 0; index--) {
+    if (name[index] !== "." && name[index] !== "[") continue;
+    const path = parsePath(name.slice(index));
+    if (!path) continue;
+    const variable = variables.find(
+      (variable) => variable.name === name.slice(0, index),
+    );
+    if (!variable) continue;
+    return { variable, value: getValueAtPath(variable.value, path) };
+  }
+};
+
+export const parsePath = (path: string): PathSegment[] | undefined => {
+  const segments: PathSegment[] = [];
+  let lastIndex = 0;
+  for (const match of path.matchAll(pathSegmentRegex)) {
+    if (match.index !== lastIndex) return;
+    lastIndex = match.index + match[0].length;
+    if (match[2] !== undefined) segments.push(Number(match[2]));
+    else segments.push(match[1] ?? match[3] ?? match[4] ?? "");
+  }
+  if (lastIndex !== path.length || segments.length === 0) return;
+  return segments;
+};
+
+export const getValueAtPath = (
+  value: unknown,
+  path: PathSegment[],
+): unknown => {
+  let current = value;
+  for (const segment of path) {
+    if (typeof current === "string") current = safeJsonParse(current);
+    if (current === null || typeof current !== "object") return;
+    if (Array.isArray(current)) {
+      const index = Number(segment);
+      if (!Number.isInteger(index)) return;
+      current = current.at(index);
+      continue;
+    }
+    current = (current as Record<string, unknown>)[segment.toString()];
+  }
+  return current;
+};
+
+const safeJsonParse = (value: string): unknown => {
+  try {
+    return JSON.parse(value);
+  } catch {
+    return;
+  }
+};
@@ -2,6 +2,7 @@ import { safeStringify } from "@typebot.io/lib/safeStringify";
 import { isDefined, isNotDefined, isNotEmpty } from "@typebot.io/lib/utils";
 import type { SessionStore } from "@typebot.io/runtime-session-store";
 import { createInlineSyncCodeRunner } from "./codeRunners";
+import { findVariableWithPath } from "./findVariableWithPath";
 import type { Variable, VariableWithValue } from "./schemas";
 
 export type ParseVariablesOptions = {
@@ -52,15 +53,18 @@ export const parseVariables = (
     (_full, nameInCurlyBraces, _dollarSign, nameInTemplateLitteral) => {
       const dollarSign = (_dollarSign ?? "") as string;
       const matchedVarName = nameInCurlyBraces ?? nameInTemplateLitteral;
-      const variable = variables.find((variable) => {
-        return (
-          matchedVarName === variable.name &&
-          (fieldToParse === "id" || isDefined(variable.value))
+      if (fieldToParse === "id") {
+        const variable = variables.find(
+          (variable) => matchedVarName === variable.name,
         );
-      }) as VariableWithValue | undefined;
-      if (!variable) return dollarSign + "";
-      if (fieldToParse === "id") return dollarSign + variable.id;
-      const { value } = variable;
+        return dollarSign + (variable?.id ?? "");
+      }
+      const value =
+        variables.find(
+          (variable) =>
+            matchedVarName === variable.name && isDefined(variable.value),
+        )?.value ?? findVariableWithPath(variables, matchedVarName)?.value;
+      if (isNotDefined(value)) return dollarSign + "";
       if (isInsideJson) return dollarSign + parseVariableValueInJson(value);
       const parsedValue =
         dollarSign +
@@ -149,9 +153,8 @@ export const getVariablesToParseInfoInText = (
     if (isPartOfInlineCode) return;
     const hasDollarSign = isNotEmpty(match[2] ?? "");
     const matchedVarName = match[1] ?? match[3];
-    const variable = variables.find((variable) => {
-      return matchedVarName === variable.name;
-    }) as VariableWithValue | undefined;
+    const { variable, value } =
+      findVariableWithPath(variables, matchedVarName) ?? {};
     const startIndex = match.index + (hasDollarSign ? 1 : 0);
     variablesParseInfo.push({
       startIndex,
@@ -159,9 +162,9 @@ export const getVariablesToParseInfoInText = (
       textToReplace: match[0],
       value:
         safeStringify(
-          takeLatestIfList && Array.isArray(variable?.value)
-            ? variable?.value[variable?.value.length - 1]
-            : variable?.value,
+          takeLatestIfList && Array.isArray(value)
+            ? value[value.length - 1]
+            : value,
         ) ?? "",
       variableId: variable?.id,
     });
@@ -171,7 +174,7 @@ export const getVariablesToParseInfoInText = (
     .sort((a, b) => a.startIndex - b.startIndex);
 };
 
-const parseVariableValueInJson = (value: VariableWithValue["value"]) => {
+const parseVariableValueInJson = (value: unknown) => {
   const stringifiedValue = JSON.stringify(value);
   if (typeof value === "string") return stringifiedValue.slice(1, -1);
   return stringifiedValue;
@@ -1,6 +1,7 @@
 import { safeParseFloat } from "@typebot.io/lib/safeParseFloat";
 import type { Prisma } from "@typebot.io/prisma/types";
 import { z } from "@typebot.io/zod";
+import { variableTypes } from "./constants";
 import { isSingleVariable } from "./isSingleVariable";
 
 export const listVariableValue = z.array(z.string().nullable());
@@ -9,7 +10,14 @@ const baseVariableSchema = z.object({
   id: z.string(),
   name: z.string(),
   isSessionVariable: z.boolean().optional(),
+  type: z
+    .enum(variableTypes)
+    .optional()
+    .describe(
+      "Declared type. Values are coerced to this type when set and it drives how the variable is compared in conditions.",
+    ),
 });
+export type VariableType = (typeof variableTypes)[number];
 
 export const variableSchema = baseVariableSchema.extend({
   value: z.string().or(listVariableValue).nullish(),
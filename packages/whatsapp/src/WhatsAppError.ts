@@ -1,14 +1,3 @@
-type Details = {
-  [key: string]: unknown;
-};
+import { ChannelError } from "@typebot.io/channels/ChannelError";
 
-export class WhatsAppError extends Error {
-  message: string;
-  details?: Details;
-
-  constructor(message: string, details?: Details) {
-    super(message);
-    this.message = message;
-    this.details = details;
-  }
-}
+export class WhatsAppError extends ChannelError {}
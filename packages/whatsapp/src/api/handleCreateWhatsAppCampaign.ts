@@ -0,0 +1,151 @@
+import { ORPCError } from "@orpc/server";
+import prisma from "@typebot.io/prisma";
+import { WhatsAppCampaignStatus } from "@typebot.io/prisma/enum";
+import type { Prisma } from "@typebot.io/prisma/types";
+import type { Settings } from "@typebot.io/settings/schemas";
+import type { User } from "@typebot.io/user/schemas";
+import { z } from "@typebot.io/zod";
+import { MAX_CAMPAIGN_RECIPIENTS } from "../constants";
+import { getWhatsAppCredentials } from "../resumeWhatsAppFlow";
+import {
+  recipientPhoneNumberSchema,
+  type WhatsAppCampaign,
+  whatsAppTemplateSchema,
+} from "../schemas";
+import { startWhatsAppCampaign } from "../startWhatsAppCampaign";
+
+export const createWhatsAppCampaignInputSchema = z.object({
+  typebotId: z.string(),
+  name: z.string().min(1),
+  template: whatsAppTemplateSchema.describe(
+    "Approved template sent to each recipient. The bot starts when the recipient replies to it.",
+  ),
+  recipients: z
+    .array(
+      z.object({
+        phoneNumber: recipientPhoneNumberSchema.describe(
+          "Phone number of the recipient, with the country code.",
+        ),
+        prefilledVariables: z
+          .record(z.unknown())
+          .optional()
+          .describe(
+            "[More info about prefilled variables.](../../editor/variables#prefilled-variables)",
+          ),
+      }),
+    )
+    .min(1)
+    .max(MAX_CAMPAIGN_RECIPIENTS),
+});
+
+export const handleCreateWhatsAppCampaign = async ({
+  input: { typebotId, name, template, recipients },
+  context: { user },
+}: {
+  input: z.infer<typeof createWhatsAppCampaignInputSchema>;
+  context: { user: Pick<User, "id" | "email"> };
+}): Promise<{ campaign: WhatsAppCampaign }> => {
+  const typebot = await prisma.typebot.findFirst({
+    where: {
+      id: typebotId,
+      workspace: { isSuspended: false, isPastDue: false },
+      OR: [
+        {
+          workspace: {
+            members: {
+              some: { userId: user.id, role: { in: ["ADMIN", "MEMBER"] } },
+            },
+          },
+        },
+        {
+          collaborators: {
+            some: { userId: user.id, type: { in: ["WRITE"] } },
+          },
+        },
+      ],
+    },
+    select: {
+      publicId: true,
+      whatsAppCredentialsId: true,
+      publishedTypebot: {
+        select: {
+          settings: true,
+        },
+      },
+      workspace: {
+        select: {
+          id: true,
+        },
+      },
+    },
+  });
+  if (!typebot)
+    throw new ORPCError("NOT_FOUND", { message: "Typebot not found" });
+
+  const publishedSettings = typebot.publishedTypebot?.settings as
+    | Settings
+    | undefined;
+  if (
+    !typebot.publicId ||
+    !typebot.whatsAppCredentialsId ||
+    !publishedSettings?.whatsApp?.isEnabled
+  )
+    throw new ORPCError("BAD_REQUEST", {
+      message: "WhatsApp is not enabled on the published typebot",
+    });
+
+  const credentials = await getWhatsAppCredentials({
+    credentialsId: typebot.whatsAppCredentialsId,
+    workspaceId: typebot.workspace.id,
+    isPreview: false,
+  });
+  if (!credentials)
+    throw new ORPCError("NOT_FOUND", {
+      message: "WhatsApp credentials not found",
+    });
+  if (credentials.provider === "360dialog")
+    throw new ORPCError("BAD_REQUEST", {
+      message: "Campaigns are only supported with Meta credentials",
+    });
+
+  const campaign = await prisma.whatsAppCampaign.create({
+    data: {
+      name,
+      typebotId,
+      template,
+      recipients: {
+        createMany: {
+          data: recipients.map((recipient) => ({
+            phoneNumber: recipient.phoneNumber,
+            prefilledVariables: recipient.prefilledVariables as
+              | Prisma.Prisma.InputJsonObject
+              | undefined,
+          })),
+        },
+      },
+    },
+  });
+
+  try {
+    await startWhatsAppCampaign({ campaignId: campaign.id });
+  } catch {
+    await prisma.whatsAppCampaign.update({
+      where: { id: campaign.id },
+      data: { status: WhatsAppCampaignStatus.FAILED },
+    });
+    throw new ORPCError("INTERNAL_SERVER_ERROR", {
+      message: "Could not start the campaign",
+    });
+  }
+
+  return {
+    campaign: {
+      id: campaign.id,
+      createdAt: campaign.createdAt,
+      name: campaign.name,
+      status: campaign.status,
+      template,
+      recipientsCount: { PENDING: recipients.length },
+    },
+  };
+};
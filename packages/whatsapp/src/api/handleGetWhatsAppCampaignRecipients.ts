@@ -0,0 +1,86 @@
+import { ORPCError } from "@orpc/server";
+import { isDefined } from "@typebot.io/lib/utils";
+import prisma from "@typebot.io/prisma";
+import { WhatsAppCampaignRecipientStatus } from "@typebot.io/prisma/enum";
+import { isReadTypebotForbidden } from "@typebot.io/typebot/helpers/isReadTypebotForbidden";
+import type { User } from "@typebot.io/user/schemas";
+import { z } from "@typebot.io/zod";
+import type { WhatsAppCampaignRecipient } from "../schemas";
+
+const MAX_LIMIT = 100;
+
+export const getWhatsAppCampaignRecipientsInputSchema = z.object({
+  typebotId: z.string(),
+  campaignId: z.string(),
+  status: z.nativeEnum(WhatsAppCampaignRecipientStatus).optional(),
+  limit: z.coerce.number().min(1).max(MAX_LIMIT).default(50),
+  cursor: z.coerce.number().optional(),
+});
+
+export const handleGetWhatsAppCampaignRecipients = async ({
+  input: { typebotId, campaignId, status, limit, cursor },
+  context: { user },
+}: {
+  input: z.infer<typeof getWhatsAppCampaignRecipientsInputSchema>;
+  context: { user: Pick<User, "id" | "email"> };
+}): Promise<{
+  recipients: WhatsAppCampaignRecipient[];
+  nextCursor?: number;
+}> => {
+  const campaign = await prisma.whatsAppCampaign.findFirst({
+    where: {
+      id: campaignId,
+      typebotId,
+    },
+    select: {
+      typebot: {
+        select: {
+          workspace: {
+            select: {
+              isSuspended: true,
+              isPastDue: true,
+              members: {
+                select: {
+                  userId: true,
+                },
+              },
+            },
+          },
+          collaborators: {
+            select: {
+              userId: true,
+            },
+          },
+        },
+      },
+    },
+  });
+  if (!campaign || (await isReadTypebotForbidden(campaign.typebot, user)))
+    throw new ORPCError("NOT_FOUND", { message: "Campaign not found" });
+
+  const recipients = await prisma.whatsAppCampaignRecipient.findMany({
+    where: {
+      campaignId,
+      status,
+    },
+    take: limit + 1,
+    skip: cursor,
+    orderBy: { createdAt: "asc" },
+    select: {
+      id: true,
+      phoneNumber: true,
+      status: true,
+      error: true,
+      sentAt: true,
+      resultId: true,
+    },
+  });
+
+  let nextCursor: number | undefined;
+  if (recipients.length > limit) {
+    recipients.pop();
+    nextCursor = (isDefined(cursor) ? cursor : 0) + limit;
+  }
+
+  return { recipients, nextCursor };
+};
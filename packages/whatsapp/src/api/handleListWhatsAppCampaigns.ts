@@ -0,0 +1,76 @@
+import { ORPCError } from "@orpc/server";
+import prisma from "@typebot.io/prisma";
+import { isReadTypebotForbidden } from "@typebot.io/typebot/helpers/isReadTypebotForbidden";
+import type { User } from "@typebot.io/user/schemas";
+import { z } from "@typebot.io/zod";
+import type { WhatsAppCampaign, WhatsAppTemplate } from "../schemas";
+
+export const listWhatsAppCampaignsInputSchema = z.object({
+  typebotId: z.string(),
+});
+
+export const handleListWhatsAppCampaigns = async ({
+  input: { typebotId },
+  context: { user },
+}: {
+  input: z.infer<typeof listWhatsAppCampaignsInputSchema>;
+  context: { user: Pick<User, "id" | "email"> };
+}): Promise<{ campaigns: WhatsAppCampaign[] }> => {
+  const typebot = await prisma.typebot.findFirst({
+    where: {
+      id: typebotId,
+    },
+    select: {
+      workspace: {
+        select: {
+          isSuspended: true,
+          isPastDue: true,
+          members: {
+            select: {
+              userId: true,
+            },
+          },
+        },
+      },
+      collaborators: {
+        select: {
+          userId: true,
+        },
+      },
+    },
+  });
+  if (!typebot || (await isReadTypebotForbidden(typebot, user)))
+    throw new ORPCError("NOT_FOUND", { message: "Typebot not found" });
+
+  const campaigns = await prisma.whatsAppCampaign.findMany({
+    where: { typebotId },
+    orderBy: { createdAt: "desc" },
+    select: {
+      id: true,
+      createdAt: true,
+      name: true,
+      status: true,
+      template: true,
+    },
+  });
+
+  const counts = await prisma.whatsAppCampaignRecipient.groupBy({
+    by: ["campaignId", "status"],
+    where: {
+      campaignId: { in: campaigns.map((campaign) => campaign.id) },
+    },
+    _count: { _all: true },
+  });
+
+  return {
+    campaigns: campaigns.map((campaign) => ({
+      ...campaign,
+      template: campaign.template as WhatsAppTemplate,
+      recipientsCount: Object.fromEntries(
+        counts
+          .filter((count) => count.campaignId === campaign.id)
+          .map((count) => [count.status, count._count._all]),
+      ),
+    })),
+  };
+};
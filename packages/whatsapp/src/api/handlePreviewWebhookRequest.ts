@@ -1,4 +1,6 @@
 import * as Sentry from "@sentry/nextjs";
+import { ChannelError } from "@typebot.io/channels/ChannelError";
+import { getChannelSessionId } from "@typebot.io/channels/getChannelSessionId";
 import { deleteSession } from "@typebot.io/chat-session/queries/deleteSession";
 import { env } from "@typebot.io/env";
 import { parseUnknownError } from "@typebot.io/lib/parseUnknownError";
@@ -9,10 +11,9 @@ import {
   WHATSAPP_PREVIEW_SESSION_ID_PREFIX,
 } from "../constants";
 import { extractErrorsFromEntry } from "../extractErrorsFromEntry";
-import { groupIncomingWebhookEntriesPerUser } from "../groupIncomingWebhookEntriesPerUser";
 import { resumeWhatsAppFlow } from "../resumeWhatsAppFlow";
 import type { WhatsAppWebhookRequestBody } from "../schemas";
-import { WhatsAppError } from "../WhatsAppError";
+import { whatsAppChannel } from "../whatsAppChannel";
 
 export const handlePreviewWebhookRequest = async ({
   input: { entry },
@@ -49,30 +50,29 @@ export const handlePreviewWebhookRequest = async ({
     }
   }
 
-  const incomingMessagesDetails = groupIncomingWebhookEntriesPerUser(entry);
-  if (incomingMessagesDetails.size === 0) return WEBHOOK_SUCCESS_MESSAGE;
+  const incomingUpdates = whatsAppChannel.parseWebhookRequest({ entry });
+  if (incomingUpdates.length === 0) return WEBHOOK_SUCCESS_MESSAGE;
 
   after(async () => {
-    for (const [phoneNumberId, fromMap] of incomingMessagesDetails.entries()) {
-      if (phoneNumberId !== env.WHATSAPP_PREVIEW_FROM_PHONE_NUMBER_ID) {
+    for (const update of incomingUpdates) {
+      if (update.accountId !== env.WHATSAPP_PREVIEW_FROM_PHONE_NUMBER_ID) {
         console.log("Phone number ID is not the preview phone number ID");
         continue;
       }
-      for (const [from, parsedEntries] of fromMap.entries()) {
-        try {
-          await resumeWhatsAppFlow({
-            receivedMessages: parsedEntries.map(
-              (parsedEntry) => parsedEntry.receivedMessages,
-            ),
-            sessionId: `${WHATSAPP_PREVIEW_SESSION_ID_PREFIX}${from}`,
-            contact: {
-              name: parsedEntries[0].contactName,
-              phoneNumber: parsedEntries[0].contactPhoneNumber,
-            },
-          });
-        } catch (err) {
-          await handleUnknownError(err);
-        }
+      try {
+        await resumeWhatsAppFlow({
+          receivedMessages: update.messages,
+          sessionId: getChannelSessionId({
+            sessionIdPrefix: whatsAppChannel.sessionIdPrefix,
+            externalUserId: update.externalUserId,
+          }),
+          contact: {
+            name: update.contactName,
+            phoneNumber: update.externalUserId,
+          },
+        });
+      } catch (err) {
+        await handleUnknownError(err);
       }
     }
   });
@@ -80,7 +80,7 @@ export const handlePreviewWebhookRequest = async ({
 };
 
 const handleUnknownError = async (err: unknown) => {
-  if (err instanceof WhatsAppError) {
+  if (err instanceof ChannelError) {
     Sentry.captureMessage(err.message, err.details);
   } else {
     console.log("Sending unkown error to Sentry");
@@ -1,15 +1,15 @@
 import * as Sentry from "@sentry/nextjs";
+import { ChannelError } from "@typebot.io/channels/ChannelError";
+import { getChannelSessionId } from "@typebot.io/channels/getChannelSessionId";
 import { parseUnknownError } from "@typebot.io/lib/parseUnknownError";
 import { after } from "next/server";
-import {
-  WEBHOOK_SUCCESS_MESSAGE,
-  WHATSAPP_SESSION_ID_PREFIX,
-} from "../constants";
+import { WEBHOOK_SUCCESS_MESSAGE } from "../constants";
 import { extractErrorsFromEntry } from "../extractErrorsFromEntry";
-import { groupIncomingWebhookEntriesPerUser } from "../groupIncomingWebhookEntriesPerUser";
+import { extractStatusesFromEntry } from "../extractStatusesFromEntry";
+import { updateWhatsAppMessageStatuses } from "../queries/updateWhatsAppMessageStatuses";
 import { resumeWhatsAppFlow } from "../resumeWhatsAppFlow";
 import type { WhatsAppWebhookRequestBody } from "../schemas";
-import { WhatsAppError } from "../WhatsAppError";
+import { whatsAppChannel } from "../whatsAppChannel";
 
 export const handleProductionWebhookRequest = async ({
   input: { entry, workspaceId, credentialsId },
@@ -32,47 +32,53 @@ export const handleProductionWebhookRequest = async ({
     });
   }
 
-  const incomingMessagesDetails = groupIncomingWebhookEntriesPerUser(entry);
-  if (incomingMessagesDetails.size === 0) return WEBHOOK_SUCCESS_MESSAGE;
+  const statuses = extractStatusesFromEntry(entry);
+  const incomingUpdates = whatsAppChannel.parseWebhookRequest({ entry });
+  if (incomingUpdates.length === 0 && statuses.length === 0)
+    return WEBHOOK_SUCCESS_MESSAGE;
 
   // Allows us to process the event in the background and return the response right away
   // because WhatsApp expects a response in less than 3 seconds
   after(async () => {
-    for (const [phoneNumberId, fromMap] of incomingMessagesDetails.entries()) {
-      for (const [from, parsedEntries] of fromMap.entries()) {
-        try {
-          await resumeWhatsAppFlow({
-            receivedMessages: parsedEntries.map(
-              (parsedEntry) => parsedEntry.receivedMessages,
-            ),
-            sessionId: `${WHATSAPP_SESSION_ID_PREFIX}${phoneNumberId}-${from}`,
-            phoneNumberId,
-            credentialsId,
-            workspaceId,
-            contact: {
-              name: parsedEntries[0].contactName,
-              phoneNumber: parsedEntries[0].contactPhoneNumber,
-            },
-            referral: parsedEntries[0].referral,
+    if (statuses.length > 0)
+      await updateWhatsAppMessageStatuses(statuses).catch((err) => {
+        console.error("Could not update WhatsApp message statuses", err);
+      });
+    for (const update of incomingUpdates) {
+      try {
+        await resumeWhatsAppFlow({
+          receivedMessages: update.messages,
+          sessionId: getChannelSessionId({
+            sessionIdPrefix: whatsAppChannel.sessionIdPrefix,
+            accountId: update.accountId,
+            externalUserId: update.externalUserId,
+          }),
+          phoneNumberId: update.accountId,
+          credentialsId,
+          workspaceId,
+          contact: {
+            name: update.contactName,
+            phoneNumber: update.externalUserId,
+          },
+          referral: update.messages[0].referral,
+        });
+      } catch (err) {
+        if (err instanceof ChannelError) {
+          console.log("Known WA error", err.message, err.details);
+        } else {
+          console.log("Sending unknown error to Sentry");
+          const parsedError = await parseUnknownError({ err });
+          console.log(parsedError);
+          const details = safeJsonParse(parsedError.details);
+          Sentry.addBreadcrumb({
+            data:
+              typeof details === "object" && details
+                ? details
+                : {
+                    details,
+                  },
           });
-        } catch (err) {
-          if (err instanceof WhatsAppError) {
-            console.log("Known WA error", err.message, err.details);
-          } else {
-            console.log("Sending unknown error to Sentry");
-            const parsedError = await parseUnknownError({ err });
-            console.log(parsedError);
-            const details = safeJsonParse(parsedError.details);
-            Sentry.addBreadcrumb({
-              data:
-                typeof details === "object" && details
-                  ? details
-                  : {
-                      details,
-                    },
-            });
-            Sentry.captureException(err);
-          }
+          Sentry.captureException(err);
         }
       }
     }
@@ -1,6 +1,7 @@
 import { ORPCError } from "@orpc/server";
 import { saveStateToDatabase } from "@typebot.io/bot-engine/saveStateToDatabase";
 import { startSession } from "@typebot.io/bot-engine/startSession";
+import { getChannelSessionId } from "@typebot.io/channels/getChannelSessionId";
 import { startFromSchema } from "@typebot.io/chat-api/schemas";
 import { restartSession } from "@typebot.io/chat-session/queries/restartSession";
 import type { SessionState } from "@typebot.io/chat-session/schemas";
@@ -15,6 +16,7 @@ import { isReadTypebotForbidden } from "@typebot.io/typebot/helpers/isReadTypebo
 import type { User } from "@typebot.io/user/schemas";
 import { sendChatReplyToWhatsApp } from "@typebot.io/whatsapp/sendChatReplyToWhatsApp";
 import { sendWhatsAppMessage } from "@typebot.io/whatsapp/sendWhatsAppMessage";
+import { whatsAppChannel } from "@typebot.io/whatsapp/whatsAppChannel";
 import { z } from "@typebot.io/zod";
 
 export const startWhatsAppPreviewInputSchema = z.object({
@@ -75,7 +77,10 @@ export const handleStartWhatsAppPreview = async ({
   )
     throw new ORPCError("NOT_FOUND", { message: "Typebot not found" });
 
-  const sessionId = `wa-preview-${to}`;
+  const sessionId = getChannelSessionId({
+    sessionIdPrefix: whatsAppChannel.sessionIdPrefix,
+    externalUserId: to,
+  });
 
   const existingSession = await prisma.chatSession.findFirst({
     where: {
@@ -0,0 +1,114 @@
+import { ORPCError } from "@orpc/server";
+import { parseUnknownError } from "@typebot.io/lib/parseUnknownError";
+import prisma from "@typebot.io/prisma";
+import type { Settings } from "@typebot.io/settings/schemas";
+import type { User } from "@typebot.io/user/schemas";
+import { z } from "@typebot.io/zod";
+import { getWhatsAppCredentials } from "../resumeWhatsAppFlow";
+import { recipientPhoneNumberSchema, whatsAppTemplateSchema } from "../schemas";
+import { startWhatsAppSessionFromTemplate } from "../startWhatsAppSessionFromTemplate";
+
+export const startWhatsAppSessionInputSchema = z.object({
+  typebotId: z.string(),
+  to: recipientPhoneNumberSchema.describe(
+    "Phone number of the recipient, with the country code.",
+  ),
+  template: whatsAppTemplateSchema.describe(
+    "Approved template sent to open the conversation. The bot starts when the user replies to it.",
+  ),
+  prefilledVariables: z
+    .record(z.unknown())
+    .optional()
+    .describe(
+      "[More info about prefilled variables.](../../editor/variables#prefilled-variables)",
+    ),
+});
+
+export const handleStartWhatsAppSession = async ({
+  input: { typebotId, to, template, prefilledVariables },
+  context: { user },
+}: {
+  input: z.infer<typeof startWhatsAppSessionInputSchema>;
+  context: { user: Pick<User, "id" | "email"> };
+}) => {
+  const typebot = await prisma.typebot.findFirst({
+    where: {
+      id: typebotId,
+      workspace: { isSuspended: false, isPastDue: false },
+      OR: [
+        {
+          workspace: {
+            members: {
+              some: { userId: user.id, role: { in: ["ADMIN", "MEMBER"] } },
+            },
+          },
+        },
+        {
+          collaborators: {
+            some: { userId: user.id, type: { in: ["WRITE"] } },
+          },
+        },
+      ],
+    },
+    select: {
+      publicId: true,
+      whatsAppCredentialsId: true,
+      publishedTypebot: {
+        select: {
+          settings: true,
+        },
+      },
+      workspace: {
+        select: {
+          id: true,
+        },
+      },
+    },
+  });
+  if (!typebot)
+    throw new ORPCError("NOT_FOUND", { message: "Typebot not found" });
+
+  const publishedSettings = typebot.publishedTypebot?.settings as
+    | Settings
+    | undefined;
+  if (
+    !typebot.publicId ||
+    !typebot.whatsAppCredentialsId ||
+    !publishedSettings?.whatsApp?.isEnabled
+  )
+    throw new ORPCError("BAD_REQUEST", {
+      message: "WhatsApp is not enabled on the published typebot",
+    });
+
+  const credentials = await getWhatsAppCredentials({
+    credentialsId: typebot.whatsAppCredentialsId,
+    workspaceId: typebot.workspace.id,
+    isPreview: false,
+  });
+  if (!credentials)
+    throw new ORPCError("NOT_FOUND", {
+      message: "WhatsApp credentials not found",
+    });
+  if (credentials.provider === "360dialog")
+    throw new ORPCError("BAD_REQUEST", {
+      message: "Starting a session is only supported with Meta credentials",
+    });
+
+  try {
+    const { sessionId } = await startWhatsAppSessionFromTemplate({
+      publicId: typebot.publicId,
+      credentials,
+      to,
+      template,
+      prefilledVariables,
+      sessionExpiryTimeout: publishedSettings.whatsApp.sessionExpiryTimeout,
+    });
+    return { sessionId };
+  } catch (err) {
+    const { description, details } = await parseUnknownError({ err });
+    throw new ORPCError("BAD_REQUEST", {
+      message: "Could not send WhatsApp template",
+      data: { description, details },
+    });
+  }
+};
@@ -2,10 +2,21 @@ import {
   authenticatedProcedure,
   publicProcedure as builderPublicProcedure,
 } from "@typebot.io/config/orpc/builder/middlewares";
-import { publicProcedure as chatPublicProcedure } from "@typebot.io/config/orpc/viewer/middlewares";
+import {
+  protectedProcedure as chatProtectedProcedure,
+  publicProcedure as chatPublicProcedure,
+} from "@typebot.io/config/orpc/viewer/middlewares";
 import { z } from "@typebot.io/zod";
 import { WEBHOOK_SUCCESS_MESSAGE } from "../constants";
-import { whatsAppWebhookRequestBodySchema } from "../schemas";
+import {
+  whatsAppCampaignRecipientSchema,
+  whatsAppCampaignSchema,
+  whatsAppWebhookRequestBodySchema,
+} from "../schemas";
+import {
+  createWhatsAppCampaignInputSchema,
+  handleCreateWhatsAppCampaign,
+} from "./handleCreateWhatsAppCampaign";
 import { handleGenerateVerificationToken } from "./handleGenerateVerificationToken";
 import {
   getPhoneNumberInputSchema,
@@ -15,6 +26,10 @@ import {
   getSystemTokenInfoInputSchema,
   handleGetSystemTokenInfo,
 } from "./handleGetSystemTokenInfo";
+import {
+  getWhatsAppCampaignRecipientsInputSchema,
+  handleGetWhatsAppCampaignRecipients,
+} from "./handleGetWhatsAppCampaignRecipients";
 import {
   getWhatsAppMediaInputSchema,
   handleGetWhatsAppMedia,
@@ -23,12 +38,20 @@ import {
   getWhatsAppMediaPreviewInputSchema,
   handleGetWhatsAppMediaPreview,
 } from "./handleGetWhatsAppMediaPreview";
+import {
+  handleListWhatsAppCampaigns,
+  listWhatsAppCampaignsInputSchema,
+} from "./handleListWhatsAppCampaigns";
 import { handlePreviewWebhookRequest } from "./handlePreviewWebhookRequest";
 import { handleProductionWebhookRequest } from "./handleProductionWebhookRequest";
 import {
   handleStartWhatsAppPreview,
   startWhatsAppPreviewInputSchema,
 } from "./handleStartWhatsAppPreview";
+import {
+  handleStartWhatsAppSession,
+  startWhatsAppSessionInputSchema,
+} from "./handleStartWhatsAppSession";
 import {
   handleSubscribePreviewWebhook,
   subscribePreviewWebhookInputSchema,
@@ -67,6 +90,18 @@ export const chatWhatsAppRouter = {
     )
     .output(z.literal(WEBHOOK_SUCCESS_MESSAGE))
     .handler(handleProductionWebhookRequest),
+  startWhatsAppSessionProcedure: chatProtectedProcedure
+    .route({
+      method: "POST",
+      path: "/v1/typebots/{typebotId}/whatsapp/start",
+      summary: "Start WhatsApp session",
+      description:
+        "Send a template message to a phone number and register a session so that the bot starts when the user replies. Templates can be sent outside of the 24h customer service window.",
+      tags: ["WhatsApp"],
+    })
+    .input(startWhatsAppSessionInputSchema)
+    .output(z.object({ sessionId: z.string() }))
+    .handler(handleStartWhatsAppSession),
 };
 
 export const builderWhatsAppRouter = {
@@ -105,6 +140,47 @@ export const builderWhatsAppRouter = {
     .output(z.number())
     .handler(handleSubscribePreviewWebhook),
 
+  createWhatsAppCampaign: authenticatedProcedure
+    .route({
+      method: "POST",
+      path: "/v1/typebots/{typebotId}/whatsapp/campaigns",
+      summary: "Create campaign",
+      description:
+        "Send a template message to a list of phone numbers, each with its own prefilled variables. Messages are sent in the background, throttled to respect WhatsApp rate limits. Results are tagged with the campaign ID.",
+      tags: ["WhatsApp"],
+    })
+    .input(createWhatsAppCampaignInputSchema)
+    .output(z.object({ campaign: whatsAppCampaignSchema }))
+    .handler(handleCreateWhatsAppCampaign),
+
+  listWhatsAppCampaigns: authenticatedProcedure
+    .route({
+      method: "GET",
+      path: "/v1/typebots/{typebotId}/whatsapp/campaigns",
+      summary: "List campaigns",
+      tags: ["WhatsApp"],
+    })
+    .input(listWhatsAppCampaignsInputSchema)
+    .output(z.object({ campaigns: z.array(whatsAppCampaignSchema) }))
+    .handler(handleListWhatsAppCampaigns),
+
+  getWhatsAppCampaignRecipients: authenticatedProcedure
+    .route({
+      method: "GET",
+      path: "/v1/typebots/{typebotId}/whatsapp/campaigns/{campaignId}/recipients",
+      summary: "List campaign recipients",
+      description: "Get the delivery status of each recipient of a campaign.",
+      tags: ["WhatsApp"],
+    })
+    .input(getWhatsAppCampaignRecipientsInputSchema)
+    .output(
+      z.object({
+        recipients: z.array(whatsAppCampaignRecipientSchema),
+        nextCursor: z.number().optional(),
+      }),
+    )
+    .handler(handleGetWhatsAppCampaignRecipients),
+
   getPhoneNumber: authenticatedProcedure
     .input(getPhoneNumberInputSchema)
     .handler(handleGetPhoneNumber),
@@ -10,3 +10,8 @@ export const incomingWebhookErrorCodes = {
 
 export const dialog360BaseUrl = "https://waba-v2.360dialog.io";
 export const dialog360AuthHeaderName = "D360-API-KEY";
+
+// Stays well below the Cloud API throughput of a standard phone number
+export const CAMPAIGN_MESSAGES_PER_SECOND = 20;
+export const CAMPAIGN_BATCH_SIZE = 100;
+export const MAX_CAMPAIGN_RECIPIENTS = 10000;
@@ -21,6 +21,7 @@ describe("Simple input types", async () => {
       InputBlockType.PAYMENT,
       InputBlockType.RATING,
       InputBlockType.TEXT,
+      InputBlockType.CONTACT,
     ];
 
     for (const type of simpleInputTypes) {
@@ -147,22 +148,91 @@ describe("Choice input", async () => {
     );
   });
 
-  it("should group buttons when exceeding group size", async () => {
+  it("should return a list message when exceeding 3 items", async () => {
     const input = createMockButtonsInput([
       { id: "choice1", content: "Option 1" },
       { id: "choice2", content: "Option 2" },
       { id: "choice3", content: "Option 3" },
-      { id: "choice4", content: "Option 4" },
+      {
+        id: "choice4",
+        content: "This is a very long option that exceeds 24 characters",
+      },
     ]);
     const lastMessage = createMockTextMessage("Choose:");
 
+    const result = await convertInputToWhatsAppMessages({
+      input,
+      lastMessage,
+      systemMessages: { whatsAppListButtonLabel: "See options" },
+    });
+
+    expect(result).toEqual([
+      {
+        type: "interactive",
+        interactive: {
+          type: "list",
+          body: {
+            text: "Choose:",
+          },
+          action: {
+            button: "See options",
+            sections: [
+              {
+                rows: [
+                  { id: "choice1", title: "Option 1", description: undefined },
+                  { id: "choice2", title: "Option 2", description: undefined },
+                  { id: "choice3", title: "Option 3", description: undefined },
+                  {
+                    id: "choice4",
+                    title: "This is a very long op..",
+                    description:
+                      "This is a very long option that exceeds 24 characters",
+                  },
+                ],
+              },
+            ],
+          },
+        },
+      } satisfies WhatsAppSendingMessage,
+    ]);
+  });
+
+  it("should split list messages every 10 items", async () => {
+    const input = createMockButtonsInput(
+      Array.from({ length: 12 }, (_, idx) => ({
+        id: `choice${idx}`,
+        content: `Option ${idx}`,
+      })),
+    );
+    const lastMessage = createMockTextMessage("Choose:");
+
     const result = await convertInputToWhatsAppMessages({ input, lastMessage });
 
     expect(result).toHaveLength(2);
-    const firstMessage = expectInteractiveMessage(result[0]);
-    const secondMessage = expectInteractiveMessage(result[1]);
-    expect(firstMessage.interactive.body?.text).toBe("Choose:");
-    expect(secondMessage.interactive.body?.text).toBe("―");
+    const [firstMessage, secondMessage] = result.map(expectListMessage);
+    expect(firstMessage.interactive.body.text).toBe("Choose:");
+    expect(firstMessage.interactive.action.sections[0].rows).toHaveLength(10);
+    expect(secondMessage.interactive.body.text).toBe("―");
+    expect(secondMessage.interactive.action.sections[0].rows).toHaveLength(2);
+  });
+
+  it("should return a list message for dynamic items", async () => {
+    const input = createMockButtonsInput([
+      { id: "choice0", content: "Option 1" },
+      { id: "choice1", content: "Option 2" },
+    ]);
+
+    const result = await convertInputToWhatsAppMessages({
+      input: {
+        ...input,
+        options: { dynamicVariableId: "variable1" },
+      } as NonNullable<ContinueChatResponse["input"]>,
+      lastMessage: undefined,
+    });
+
+    const listMessage = expectListMessage(result[0]);
+    expect(listMessage.interactive.action.button).toBe("Choose");
+    expect(listMessage.interactive.action.sections[0].rows).toHaveLength(2);
   });
 
   it("should filter out items with no content", async () => {
@@ -444,6 +514,32 @@ describe("Cards input", async () => {
   });
 });
 
+describe("Location input", async () => {
+  it("should send a location request message", async () => {
+    const input = {
+      type: InputBlockType.LOCATION,
+      id: "input1",
+      options: { labels: { shareButton: "Where should we deliver?" } },
+    } as NonNullable<ContinueChatResponse["input"]>;
+
+    const result = await convertInputToWhatsAppMessages({
+      input,
+      lastMessage: undefined,
+    });
+
+    expect(result).toEqual([
+      {
+        type: "interactive",
+        interactive: {
+          type: "location_request_message",
+          body: { text: "Where should we deliver?" },
+          action: { name: "send_location" },
+        },
+      },
+    ]);
+  });
+});
+
 describe("Edge cases", async () => {
   it("should handle undefined lastMessage", async () => {
     const input = createMockButtonsInput([
@@ -480,13 +576,33 @@ describe("Edge cases", async () => {
   });
 });
 
+type InteractiveMessage = Extract<
+  WhatsAppSendingMessage,
+  { type: "interactive" }
+>;
+
 const expectInteractiveMessage = (
   message: WhatsAppSendingMessage,
-): Extract<WhatsAppSendingMessage, { type: "interactive" }> => {
-  if (message.type !== "interactive") {
-    throw new Error(`Expected interactive message, got ${message.type}`);
+): InteractiveMessage & {
+  interactive: Extract<InteractiveMessage["interactive"], { type: "button" }>;
+} => {
+  if (message.type !== "interactive" || message.interactive.type !== "button") {
+    throw new Error(
+      `Expected interactive buttons message, got ${message.type}`,
+    );
+  }
+  return { ...message, interactive: message.interactive };
+};
+
+const expectListMessage = (
+  message: WhatsAppSendingMessage,
+): InteractiveMessage & {
+  interactive: Extract<InteractiveMessage["interactive"], { type: "list" }>;
+} => {
+  if (message.type !== "interactive" || message.interactive.type !== "list") {
+    throw new Error(`Expected interactive list message, got ${message.type}`);
   }
-  return message;
+  return { ...message, interactive: message.interactive };
 };
 
 const createMockTextMessage = (
@@ -2,6 +2,7 @@ import { BubbleBlockType } from "@typebot.io/blocks-bubbles/constants";
 import { defaultChoiceInputOptions } from "@typebot.io/blocks-inputs/choice/constants";
 import type { ButtonItem } from "@typebot.io/blocks-inputs/choice/schema";
 import { InputBlockType } from "@typebot.io/blocks-inputs/constants";
+import { defaultLocationInputOptions } from "@typebot.io/blocks-inputs/location/constants";
 import { defaultPictureChoiceOptions } from "@typebot.io/blocks-inputs/pictureChoice/constants";
 import type { ContinueChatResponse } from "@typebot.io/chat-api/schemas";
 import { env } from "@typebot.io/env";
@@ -15,7 +16,10 @@ import type { WhatsAppSendingMessage } from "./schemas";
 type Props = {
   input: NonNullable<ContinueChatResponse["input"]>;
   lastMessage: ContinueChatResponse["messages"][number] | undefined;
-  systemMessages?: Pick<SystemMessages, "whatsAppPictureChoiceSelectLabel">;
+  systemMessages?: Pick<
+    SystemMessages,
+    "whatsAppPictureChoiceSelectLabel" | "whatsAppListButtonLabel"
+  >;
   mediaCache?: UploadMediaCache;
 };
 
@@ -43,7 +47,23 @@ export const convertInputToWhatsAppMessages = async ({
     case InputBlockType.PAYMENT:
     case InputBlockType.RATING:
     case InputBlockType.TEXT:
+    case InputBlockType.CONTACT:
       return [];
+    case InputBlockType.LOCATION:
+      return [
+        {
+          type: "interactive",
+          interactive: {
+            type: "location_request_message",
+            body: {
+              text:
+                input.options?.labels?.shareButton ??
+                defaultLocationInputOptions.labels.shareButton,
+            },
+            action: { name: "send_location" },
+          },
+        },
+      ];
     case InputBlockType.PICTURE_CHOICE: {
       if (
         input.options?.isMultipleChoice ??
@@ -160,8 +180,21 @@ export const convertInputToWhatsAppMessages = async ({
             },
           },
         ];
+      const nonEmptyItems = input.items.filter((item) =>
+        isDefined(item.content),
+      );
+      if (
+        nonEmptyItems.length > MAX_REPLY_BUTTONS ||
+        input.options?.dynamicVariableId
+      )
+        return convertItemsToListMessages(nonEmptyItems, {
+          bodyText: lastMessageText,
+          buttonLabel:
+            systemMessages?.whatsAppListButtonLabel ??
+            defaultSystemMessages.whatsAppListButtonLabel,
+        });
       const items = groupArrayByArraySize(
-        input.items.filter((item) => isDefined(item.content)),
+        nonEmptyItems,
         env.WHATSAPP_INTERACTIVE_GROUP_SIZE,
       ) as ButtonItem[][];
       return items.map((items, idx) => ({
@@ -250,6 +283,51 @@ export const convertInputToWhatsAppMessages = async ({
   }
 };
 
+// https://developers.facebook.com/docs/whatsapp/cloud-api/messages/interactive-list-messages
+const MAX_REPLY_BUTTONS = 3;
+const MAX_LIST_ROWS = 10;
+const MAX_LIST_BUTTON_LENGTH = 20;
+const MAX_LIST_ROW_TITLE_LENGTH = 24;
+const MAX_LIST_ROW_DESCRIPTION_LENGTH = 72;
+
+const convertItemsToListMessages = (
+  items: ButtonItem[],
+  { bodyText, buttonLabel }: { bodyText?: string; buttonLabel: string },
+): WhatsAppSendingMessage[] =>
+  (groupArrayByArraySize(items, MAX_LIST_ROWS) as ButtonItem[][]).map(
+    (items, idx) => ({
+      type: "interactive",
+      interactive: {
+        type: "list",
+        body: {
+          text: idx === 0 ? bodyText || "―" : "―",
+        },
+        action: {
+          button: trimText(buttonLabel, MAX_LIST_BUTTON_LENGTH),
+          sections: [
+            {
+              rows: items.map((item) => {
+                const content = item.content as string;
+                return {
+                  id: item.id,
+                  title: trimText(content, MAX_LIST_ROW_TITLE_LENGTH),
+                  // Full content is displayed below the title if it doesn't fit
+                  description:
+                    content.length > MAX_LIST_ROW_TITLE_LENGTH
+                      ? trimText(content, MAX_LIST_ROW_DESCRIPTION_LENGTH)
+                      : undefined,
+                };
+              }),
+            },
+          ],
+        },
+      },
+    }),
+  );
+
+const trimText = (text: string, maxLength: number) =>
+  text.length > maxLength ? `${text.slice(0, maxLength - 2)}..` : text;
+
 const trimTextTo20Chars = (
   text: string,
   existingTitles: string[] = [],
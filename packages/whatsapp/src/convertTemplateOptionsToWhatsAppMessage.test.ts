@@ -0,0 +1,80 @@
+import { describe, expect, it } from "bun:test";
+import { convertTemplateOptionsToWhatsAppMessage } from "./convertTemplateOptionsToWhatsAppMessage";
+
+describe("convertTemplateOptionsToWhatsAppMessage", () => {
+  it("should return undefined without template name", () => {
+    expect(
+      convertTemplateOptionsToWhatsAppMessage({ languageCode: "fr" }),
+    ).toBeUndefined();
+  });
+
+  it("should fallback to the default language", () => {
+    expect(
+      convertTemplateOptionsToWhatsAppMessage({ templateName: "reminder" }),
+    ).toEqual({
+      type: "template",
+      template: {
+        name: "reminder",
+        language: { code: "en_US" },
+        components: undefined,
+      },
+    });
+  });
+
+  it("should convert header, body and button parameters", () => {
+    expect(
+      convertTemplateOptionsToWhatsAppMessage({
+        templateName: "order_update",
+        languageCode: "fr",
+        header: { type: "image", value: "https://example.com/order.png" },
+        bodyParameters: [
+          { id: "param1", value: "John" },
+          { id: "param2" },
+          { id: "param3", value: "#1234" },
+        ],
+        buttonParameters: [
+          { id: "button1", value: "orders/1234" },
+          { id: "button2", type: "quick_reply", index: 2, value: "stop" },
+          { id: "button3", type: "quick_reply" },
+        ],
+      }),
+    ).toEqual({
+      type: "template",
+      template: {
+        name: "order_update",
+        language: { code: "fr" },
+        components: [
+          {
+            type: "header",
+            parameters: [
+              {
+                type: "image",
+                image: { link: "https://example.com/order.png" },
+              },
+            ],
+          },
+          {
+            type: "body",
+            parameters: [
+              { type: "text", text: "John" },
+              { type: "text", text: "" },
+              { type: "text", text: "#1234" },
+            ],
+          },
+          {
+            type: "button",
+            sub_type: "url",
+            index: "0",
+            parameters: [{ type: "text", text: "orders/1234" }],
+          },
+          {
+            type: "button",
+            sub_type: "quick_reply",
+            index: "2",
+            parameters: [{ type: "payload", payload: "stop" }],
+          },
+        ],
+      },
+    });
+  });
+});
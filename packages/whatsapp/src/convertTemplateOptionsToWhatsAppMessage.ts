@@ -0,0 +1,83 @@
+import {
+  defaultWhatsAppTemplateButtonType,
+  defaultWhatsAppTemplateOptions,
+  type whatsAppTemplateHeaderTypes,
+} from "@typebot.io/blocks-integrations/whatsAppTemplate/constants";
+import type { WhatsAppTemplateBlock } from "@typebot.io/blocks-integrations/whatsAppTemplate/schema";
+import { isEmpty } from "@typebot.io/lib/utils";
+import type {
+  WhatsAppSendingMessage,
+  WhatsAppTemplateComponent,
+} from "./schemas";
+
+type TemplateParameter = WhatsAppTemplateComponent["parameters"][number];
+
+export const convertTemplateOptionsToWhatsAppMessage = (
+  options: NonNullable<WhatsAppTemplateBlock["options"]>,
+): WhatsAppSendingMessage | undefined => {
+  if (isEmpty(options.templateName)) return;
+
+  const components: WhatsAppTemplateComponent[] = [];
+
+  if (options.header?.type && !isEmpty(options.header.value))
+    components.push({
+      type: "header",
+      parameters: [
+        convertHeaderParameter(options.header.type, options.header.value),
+      ],
+    });
+
+  // Body parameters are positional ({{1}}, {{2}}...) so none can be skipped
+  if (options.bodyParameters && options.bodyParameters.length > 0)
+    components.push({
+      type: "body",
+      parameters: options.bodyParameters.map((parameter) => ({
+        type: "text",
+        text: parameter.value ?? "",
+      })),
+    });
+
+  options.buttonParameters?.forEach((button, idx) => {
+    if (isEmpty(button.value)) return;
+    const subType = button.type ?? defaultWhatsAppTemplateButtonType;
+    components.push({
+      type: "button",
+      sub_type: subType,
+      index: (button.index ?? idx).toString(),
+      parameters: [
+        subType === "quick_reply"
+          ? { type: "payload", payload: button.value }
+          : { type: "text", text: button.value },
+      ],
+    });
+  });
+
+  return {
+    type: "template",
+    template: {
+      name: options.templateName,
+      language: {
+        code: isEmpty(options.languageCode)
+          ? defaultWhatsAppTemplateOptions.languageCode
+          : options.languageCode,
+      },
+      components: components.length > 0 ? components : undefined,
+    },
+  };
+};
+
+const convertHeaderParameter = (
+  type: (typeof whatsAppTemplateHeaderTypes)[number],
+  value: string,
+): TemplateParameter => {
+  switch (type) {
+    case "text":
+      return { type: "text", text: value };
+    case "image":
+      return { type: "image", image: { link: value } };
+    case "video":
+      return { type: "video", video: { link: value } };
+    case "document":
+      return { type: "document", document: { link: value } };
+  }
+};
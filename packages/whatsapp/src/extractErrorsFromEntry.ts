@@ -1,6 +1,9 @@
-import type { WhatsAppWebhookRequestBody } from "./schemas";
+import type {
+  WhatsAppIncomingError,
+  WhatsAppWebhookRequestBody,
+} from "./schemas";
 
-type ExtractedError = { code: number; message: string; details: string };
+export type ExtractedError = { code: number; message: string; details: string };
 
 export const extractErrorsFromEntry = (
   entry: WhatsAppWebhookRequestBody["entry"],
@@ -9,14 +12,16 @@ export const extractErrorsFromEntry = (
   for (const { changes } of entry) {
     for (const { value } of changes) {
       if (!value.errors) continue;
-      for (const error of value.errors) {
-        errors.push({
-          code: error.code,
-          message: error.message ?? error.title,
-          details: error.error_data.details,
-        });
-      }
+      for (const error of value.errors) errors.push(parseIncomingError(error));
     }
   }
   return errors;
 };
+
+export const parseIncomingError = (
+  error: WhatsAppIncomingError,
+): ExtractedError => ({
+  code: error.code,
+  message: error.message ?? error.title,
+  details: error.error_data.details,
+});
@@ -0,0 +1,47 @@
+import { describe, expect, it } from "bun:test";
+import { extractStatusesFromEntry } from "./extractStatusesFromEntry";
+
+describe("extractStatusesFromEntry", () => {
+  it("should extract known statuses with their first error", () => {
+    expect(
+      extractStatusesFromEntry([
+        {
+          changes: [
+            {
+              value: {
+                statuses: [
+                  { id: "wamid.1", status: "delivered", recipient_id: "33" },
+                  {
+                    id: "wamid.2",
+                    status: "failed",
+                    recipient_id: "33",
+                    errors: [
+                      {
+                        code: 131047,
+                        title: "Re-engagement message",
+                        error_data: { details: "More than 24 hours" },
+                      },
+                    ],
+                  },
+                  { id: "wamid.3", status: "deleted", recipient_id: "33" },
+                  { status: "read", recipient_id: "33" },
+                ],
+              },
+            },
+          ],
+        },
+      ]),
+    ).toEqual([
+      { messageId: "wamid.1", status: "DELIVERED", error: undefined },
+      {
+        messageId: "wamid.2",
+        status: "FAILED",
+        error: {
+          code: 131047,
+          message: "Re-engagement message",
+          details: "More than 24 hours",
+        },
+      },
+    ]);
+  });
+});
@@ -0,0 +1,40 @@
+import { WhatsAppMessageStatus } from "@typebot.io/prisma/enum";
+import {
+  type ExtractedError,
+  parseIncomingError,
+} from "./extractErrorsFromEntry";
+import type { WhatsAppWebhookRequestBody } from "./schemas";
+
+export type ExtractedStatus = {
+  messageId: string;
+  status: WhatsAppMessageStatus;
+  error?: ExtractedError;
+};
+
+const statusesMap: Record<string, WhatsAppMessageStatus> = {
+  sent: WhatsAppMessageStatus.SENT,
+  delivered: WhatsAppMessageStatus.DELIVERED,
+  read: WhatsAppMessageStatus.READ,
+  failed: WhatsAppMessageStatus.FAILED,
+};
+
+export const extractStatusesFromEntry = (
+  entry: WhatsAppWebhookRequestBody["entry"],
+): ExtractedStatus[] => {
+  const statuses: ExtractedStatus[] = [];
+  for (const { changes } of entry) {
+    for (const { value } of changes) {
+      if (!value.statuses) continue;
+      for (const { id, status, errors } of value.statuses) {
+        const parsedStatus = status ? statusesMap[status] : undefined;
+        if (!id || !parsedStatus) continue;
+        statuses.push({
+          messageId: id,
+          status: parsedStatus,
+          error: errors?.[0] ? parseIncomingError(errors[0]) : undefined,
+        });
+      }
+    }
+  }
+  return statuses;
+};
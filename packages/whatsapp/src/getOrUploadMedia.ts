@@ -1,5 +1,5 @@
-import { getMediaIdFromCache } from "@typebot.io/bot-engine/mediaCache/getMediaIdFromCache";
-import { insertMediaIdToCache } from "@typebot.io/bot-engine/mediaCache/insertMediaIdToCache";
+import { getOrUploadChannelMedia } from "@typebot.io/channels/getOrUploadChannelMedia";
+import type { ChannelMediaFile } from "@typebot.io/channels/types";
 import type { WhatsAppCredentials } from "@typebot.io/credentials/schemas";
 import { env } from "@typebot.io/env";
 import { ky } from "@typebot.io/lib/ky";
@@ -15,98 +15,64 @@ export type UploadMediaCache = {
  * Uploads media to WhatsApp and returns the media ID for immediate use in messages.
  * This eliminates the need for fixed timeouts when sending media messages.
  *
- * Supports both direct buffer uploads and URL-based uploads with automatic downloading.
  * Falls back gracefully by returning null if the upload fails.
- *
- * @param input - Either a buffer with mimeType or a URL to download and upload
- * @param credentials - WhatsApp credentials for API authentication
- * @param cache - Cache configuration
- * @returns Promise resolving to the media ID, or null if upload fails
  */
-export const getOrUploadMedia = async ({
+export const getOrUploadMedia = ({
   url,
   cache,
 }: {
   url: string;
   cache: UploadMediaCache;
-}): Promise<string | null> => {
-  try {
-    const urlWithoutQueryParams = url.split("?")[0];
-    if (cache) {
-      const mediaId = await getMediaIdFromCache({
-        url: urlWithoutQueryParams,
-        provider:
-          cache.credentials.provider === "360dialog"
-            ? ChatProvider.DIALOG360
-            : ChatProvider.WHATSAPP,
-        publicTypebotId: cache.publicTypebotId,
-      });
-      if (mediaId) return mediaId;
-    }
-
-    // Download the media file from the URL
-    const response = await ky.get(url);
-    const arrayBuffer = await response.arrayBuffer();
-
-    // Get the MIME type from the response headers
-    const mimeType =
-      response.headers.get("content-type") ?? "application/octet-stream";
+}): Promise<string | null> =>
+  getOrUploadChannelMedia({
+    url,
+    provider: getWhatsAppMediaCacheProvider(cache.credentials),
+    publicTypebotId: cache.publicTypebotId,
+    upload: (media) => uploadWhatsAppMedia(media, cache.credentials),
+  });
 
-    // Upload to WhatsApp
-    const formData = new FormData();
-    const fileBlob = new Blob([arrayBuffer], { type: mimeType });
-    formData.append("file", fileBlob);
-    formData.append("type", mimeType);
-    formData.append("messaging_product", "whatsapp");
+export const getWhatsAppMediaCacheProvider = (
+  credentials: WhatsAppCredentials["data"],
+) =>
+  credentials.provider === "360dialog"
+    ? ChatProvider.DIALOG360
+    : ChatProvider.WHATSAPP;
 
-    let mediaId: string;
+export const uploadWhatsAppMedia = async (
+  { file, mimeType }: ChannelMediaFile,
+  credentials: WhatsAppCredentials["data"],
+): Promise<string> => {
+  const formData = new FormData();
+  formData.append("file", file);
+  formData.append("type", mimeType);
+  formData.append("messaging_product", "whatsapp");
 
-    if (cache.credentials.provider === "360dialog") {
-      const response = await ky
-        .post(`${dialog360BaseUrl}/media`, {
-          headers: {
-            [dialog360AuthHeaderName]: cache.credentials.apiKey,
-          },
-          body: formData,
-          timeout: false,
-        })
-        .json<{ id: string }>();
+  if (credentials.provider === "360dialog") {
+    const response = await ky
+      .post(`${dialog360BaseUrl}/media`, {
+        headers: {
+          [dialog360AuthHeaderName]: credentials.apiKey,
+        },
+        body: formData,
+        timeout: false,
+      })
+      .json<{ id: string }>();
 
-      mediaId = response.id;
-    } else {
-      const response = await ky
-        .post(
-          `${env.WHATSAPP_CLOUD_API_URL}/v21.0/${cache.credentials.phoneNumberId}/media`,
-          {
-            headers: {
-              Authorization: `Bearer ${cache.credentials.systemUserAccessToken}`,
-            },
-            body: formData,
-            timeout: false,
-          },
-        )
-        .json<{ id: string }>();
-
-      mediaId = response.id;
-    }
+    return response.id;
+  }
 
-    if (cache) {
-      insertMediaIdToCache({
-        url: urlWithoutQueryParams,
-        mediaId,
-        provider:
-          cache.credentials.provider === "360dialog"
-            ? ChatProvider.DIALOG360
-            : ChatProvider.WHATSAPP,
-        publicTypebotId: cache.publicTypebotId,
-        expiresAt: new Date(Date.now() + 1000 * 60 * 60 * 24 * 30), // 30 days
-      });
-    }
+  const response = await ky
+    .post(
+      `${env.WHATSAPP_CLOUD_API_URL}/v21.0/${credentials.phoneNumberId}/media`,
+      {
+        headers: {
+          Authorization: `Bearer ${credentials.systemUserAccessToken}`,
+        },
+        body: formData,
+        timeout: false,
+      },
+    )
+    .json<{ id: string }>();
 
-    return mediaId;
-  } catch (error) {
-    // If upload fails, we'll fall back to using the original approach
-    console.warn("Failed to upload media to WhatsApp:", error);
-    return null;
-  }
+  return response.id;
 };
@@ -1,24 +1,13 @@
+import type { ChannelIncomingUpdate } from "@typebot.io/channels/types";
 import type {
   WhatsAppIncomingMessage,
-  WhatsAppMessageReferral,
   WhatsAppWebhookRequestBody,
 } from "./schemas";
 
-type PhoneNumberId = string;
-type From = string;
-
-type ParsedEntry = {
-  receivedMessages: WhatsAppIncomingMessage;
-  contactName: string;
-  contactPhoneNumber: string;
-  phoneNumberId: string;
-  referral?: WhatsAppMessageReferral;
-};
-
 export const groupIncomingWebhookEntriesPerUser = (
   entry: WhatsAppWebhookRequestBody["entry"],
-): Map<PhoneNumberId, Map<From, ParsedEntry[]>> => {
-  const result = new Map<PhoneNumberId, Map<From, ParsedEntry[]>>();
+): ChannelIncomingUpdate<WhatsAppIncomingMessage>[] => {
+  const updates: ChannelIncomingUpdate<WhatsAppIncomingMessage>[] = [];
 
   for (const { changes } of entry) {
     for (const change of changes) {
@@ -34,27 +23,25 @@ export const groupIncomingWebhookEntriesPerUser = (
 
         if (message.type === "reaction") continue;
 
-        const details = {
-          receivedMessages: message,
-          contactName: change.value.contacts?.at(0)?.profile?.name ?? "",
-          contactPhoneNumber: from,
-          phoneNumberId,
-          referral: message.referral,
-        };
-
-        if (!result.has(phoneNumberId)) {
-          result.set(phoneNumberId, new Map());
-        }
-
-        const fromMap = result.get(phoneNumberId)!;
-        if (!fromMap.has(from)) {
-          fromMap.set(from, []);
+        const existingUpdate = updates.find(
+          (update) =>
+            update.accountId === phoneNumberId &&
+            update.externalUserId === from,
+        );
+        if (existingUpdate) {
+          existingUpdate.messages.push(message);
+          continue;
         }
 
-        fromMap.get(from)!.push(details);
+        updates.push({
+          accountId: phoneNumberId,
+          externalUserId: from,
+          contactName: change.value.contacts?.at(0)?.profile?.name ?? "",
+          messages: [message],
+        });
       }
     }
   }
 
-  return result;
+  return updates;
 };
@@ -0,0 +1,14 @@
+import prisma from "@typebot.io/prisma";
+
+type Props = {
+  id: string;
+  typebotId: string;
+  resultId: string;
+  blockId?: string;
+};
+
+export const createWhatsAppMessage = (data: Props) =>
+  prisma.whatsAppMessage.createMany({
+    data,
+    skipDuplicates: true,
+  });
@@ -0,0 +1,39 @@
+import prisma from "@typebot.io/prisma";
+import { WhatsAppMessageStatus } from "@typebot.io/prisma/enum";
+import type { ExtractedStatus } from "../extractStatusesFromEntry";
+
+// Webhooks can be received out of order, a status never overrides a later one
+const previousStatuses: Record<WhatsAppMessageStatus, WhatsAppMessageStatus[]> =
+  {
+    [WhatsAppMessageStatus.SENT]: [],
+    [WhatsAppMessageStatus.DELIVERED]: [WhatsAppMessageStatus.SENT],
+    [WhatsAppMessageStatus.READ]: [
+      WhatsAppMessageStatus.SENT,
+      WhatsAppMessageStatus.DELIVERED,
+    ],
+    [WhatsAppMessageStatus.FAILED]: [
+      WhatsAppMessageStatus.SENT,
+      WhatsAppMessageStatus.DELIVERED,
+    ],
+  };
+
+export const updateWhatsAppMessageStatuses = (statuses: ExtractedStatus[]) =>
+  prisma.$transaction(
+    statuses
+      .filter(({ status }) => previousStatuses[status].length > 0)
+      .map(({ messageId, status, error }) =>
+        prisma.whatsAppMessage.updateMany({
+          where: {
+            id: messageId,
+            status: { in: previousStatuses[status] },
+          },
+          data: {
+            status,
+            errorCode: error?.code,
+            errorMessage: error
+              ? [error.message, error.details].filter(Boolean).join(": ")
+              : undefined,
+          },
+        }),
+      ),
+  );
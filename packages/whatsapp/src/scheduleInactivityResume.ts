@@ -0,0 +1,33 @@
+import { WorkflowsAppConfig } from "@typebot.io/config";
+import { Effect } from "effect";
+import { WhatsAppWorkflowsRpcClient } from "./workflows/rpc";
+
+type Props = {
+  sessionId: string;
+  blockId: string;
+  from: string;
+  timeout: number;
+  workspaceId?: string;
+  credentialsId?: string;
+};
+
+/**
+ * WhatsApp has no client able to keep a timer running so the inactivity
+ * timeout is handled by a durable workflow that resumes the session once
+ * it is elapsed.
+ */
+export const scheduleInactivityResume = (props: Props) =>
+  Effect.gen(function* () {
+    const client = yield* WhatsAppWorkflowsRpcClient;
+    yield* client.ScheduleInactivityResume({
+      ...props,
+      scheduledAt: Date.now(),
+    });
+  }).pipe(
+    Effect.scoped,
+    Effect.provide(WhatsAppWorkflowsRpcClient.Default),
+    Effect.provide(WorkflowsAppConfig.layer),
+    Effect.tapError((error) => Effect.logError(error)),
+    Effect.ignore,
+    Effect.runPromise,
+  );
@@ -1,4 +1,8 @@
 import { ComparisonOperators } from "@typebot.io/conditions/constants";
+import {
+  WhatsAppCampaignRecipientStatus,
+  WhatsAppCampaignStatus,
+} from "@typebot.io/prisma/enum";
 import { z } from "@typebot.io/zod";
 
 const mediaSchema = z
@@ -47,20 +51,132 @@ const actionSchema = z.object({
   ),
 });
 
-const templateSchema = z.object({
+const templateParameterSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("text"),
+    text: z.string(),
+  }),
+  z.object({
+    type: z.literal("payload"),
+    payload: z.string(),
+  }),
+  z.object({
+    type: z.literal("image"),
+    image: mediaSchema,
+  }),
+  z.object({
+    type: z.literal("video"),
+    video: mediaSchema,
+  }),
+  z.object({
+    type: z.literal("document"),
+    document: documentSchema,
+  }),
+]);
+
+// https://developers.facebook.com/docs/whatsapp/cloud-api/guides/send-message-templates
+const templateComponentSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("header"),
+    parameters: z.array(templateParameterSchema),
+  }),
+  z.object({
+    type: z.literal("body"),
+    parameters: z.array(templateParameterSchema),
+  }),
+  z.object({
+    type: z.literal("button"),
+    sub_type: z.enum(["quick_reply", "url"]),
+    index: z.string(),
+    parameters: z.array(templateParameterSchema),
+  }),
+]);
+export type WhatsAppTemplateComponent = z.infer<typeof templateComponentSchema>;
+
+export const recipientPhoneNumberSchema = z
+  .string()
+  .min(1)
+  .transform((value) =>
+    value.replace(/\s/g, "").replace(/\+/g, "").replace(/-/g, ""),
+  );
+
+export const whatsAppTemplateSchema = z.object({
   name: z.string(),
   language: z.object({
     code: z.string(),
   }),
+  components: z.array(templateComponentSchema).optional(),
+});
+export type WhatsAppTemplate = z.infer<typeof whatsAppTemplateSchema>;
+
+export const whatsAppCampaignSchema = z.object({
+  id: z.string(),
+  createdAt: z.date(),
+  name: z.string(),
+  status: z.nativeEnum(WhatsAppCampaignStatus),
+  template: whatsAppTemplateSchema,
+  recipientsCount: z.record(
+    z.nativeEnum(WhatsAppCampaignRecipientStatus),
+    z.number(),
+  ),
 });
+export type WhatsAppCampaign = z.infer<typeof whatsAppCampaignSchema>;
 
-const interactiveSchema = z.object({
-  type: z.literal("button"),
-  header: headerSchema.optional(),
-  body: bodySchema.optional(),
-  action: actionSchema,
+export const whatsAppCampaignRecipientSchema = z.object({
+  id: z.string(),
+  phoneNumber: z.string(),
+  status: z.nativeEnum(WhatsAppCampaignRecipientStatus),
+  error: z.string().nullable(),
+  sentAt: z.date().nullable(),
+  resultId: z.string().nullable(),
+});
+export type WhatsAppCampaignRecipient = z.infer<
+  typeof whatsAppCampaignRecipientSchema
+>;
+
+const listActionSchema = z.object({
+  button: z.string(),
+  sections: z.array(
+    z.object({
+      title: z.string().optional(),
+      rows: z.array(
+        z.object({
+          id: z.string(),
+          title: z.string(),
+          description: z.string().optional(),
+        }),
+      ),
+    }),
+  ),
 });
 
+const interactiveSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("button"),
+    header: headerSchema.optional(),
+    body: bodySchema.optional(),
+    action: actionSchema,
+  }),
+  z.object({
+    type: z.literal("list"),
+    header: z
+      .object({
+        type: z.literal("text"),
+        text: z.string(),
+      })
+      .optional(),
+    body: bodySchema,
+    action: listActionSchema,
+  }),
+  z.object({
+    type: z.literal("location_request_message"),
+    body: bodySchema,
+    action: z.object({
+      name: z.literal("send_location"),
+    }),
+  }),
+]);
+
 // https://developers.facebook.com/docs/whatsapp/cloud-api/reference/messages#message-object
 const sendingMessageSchema = z.discriminatedUnion("type", [
   z.object({
@@ -92,7 +208,7 @@ const sendingMessageSchema = z.discriminatedUnion("type", [
   }),
   z.object({
     type: z.literal("template"),
-    template: templateSchema,
+    template: whatsAppTemplateSchema,
   }),
 ]);
 
@@ -184,6 +300,8 @@ export const incomingMessageSchema = z.discriminatedUnion("type", [
     location: z.object({
       latitude: z.number(),
       longitude: z.number(),
+      name: z.string().optional(),
+      address: z.string().optional(),
     }),
   }),
   sharedIncomingMessageFieldsSchema.extend({
@@ -244,7 +362,12 @@ const whatsAppError = z.object({
 });
 export type WhatsAppIncomingError = z.infer<typeof whatsAppError>;
 
+// https://developers.facebook.com/docs/whatsapp/cloud-api/webhooks/components#statuses-object
 const incomingStatuses = z.object({
+  id: z.string().optional(),
+  // sent, delivered, read or failed
+  status: z.string().optional(),
+  timestamp: z.string().optional(),
   recipient_id: z.string(),
   // Most likely something with the outbound message
   errors: z.array(whatsAppError).optional(),
@@ -5,6 +5,10 @@ import { ky } from "@typebot.io/lib/ky";
 import { dialog360AuthHeaderName, dialog360BaseUrl } from "./constants";
 import type { WhatsAppSendingMessage } from "./schemas";
 
+type SendMessageResponse = {
+  messages?: { id: string }[];
+};
+
 type Props = {
   to: string;
   message: WhatsAppSendingMessage;
@@ -23,24 +27,28 @@ export const sendWhatsAppMessage = async ({
       ...message,
     };
 
-    if (credentials.provider === "360dialog") {
-      await ky.post(`${dialog360BaseUrl}/messages`, {
-        headers: {
-          [dialog360AuthHeaderName]: credentials.apiKey,
-        },
-        json,
-      });
-    } else {
-      await ky.post(
-        `${env.WHATSAPP_CLOUD_API_URL}/v21.0/${credentials.phoneNumberId}/messages`,
-        {
-          headers: {
-            Authorization: `Bearer ${credentials.systemUserAccessToken}`,
-          },
-          json,
-        },
-      );
-    }
+    const response =
+      credentials.provider === "360dialog"
+        ? await ky
+            .post(`${dialog360BaseUrl}/messages`, {
+              headers: {
+                [dialog360AuthHeaderName]: credentials.apiKey,
+              },
+              json,
+            })
+            .json<SendMessageResponse>()
+        : await ky
+            .post(
+              `${env.WHATSAPP_CLOUD_API_URL}/v21.0/${credentials.phoneNumberId}/messages`,
+              {
+                headers: {
+                  Authorization: `Bearer ${credentials.systemUserAccessToken}`,
+                },
+                json,
+              },
+            )
+            .json<SendMessageResponse>();
+    return { messageId: response?.messages?.at(0)?.id };
   } catch (err) {
     Sentry.addBreadcrumb({
       message: JSON.stringify(message),
@@ -0,0 +1,19 @@
+import { WorkflowsAppConfig } from "@typebot.io/config";
+import { Effect } from "effect";
+import { WhatsAppWorkflowsRpcClient } from "./workflows/rpc";
+
+/**
+ * Campaigns can target thousands of recipients so they are sent by a durable
+ * workflow that throttles the messages and survives restarts.
+ */
+export const startWhatsAppCampaign = ({ campaignId }: { campaignId: string }) =>
+  Effect.gen(function* () {
+    const client = yield* WhatsAppWorkflowsRpcClient;
+    yield* client.StartCampaign({ campaignId });
+  }).pipe(
+    Effect.scoped,
+    Effect.provide(WhatsAppWorkflowsRpcClient.Default),
+    Effect.provide(WorkflowsAppConfig.layer),
+    Effect.tapError((error) => Effect.logError(error)),
+    Effect.runPromise,
+  );
@@ -14,6 +14,7 @@ import prisma from "@typebot.io/prisma";
 import type { Prisma } from "@typebot.io/prisma/types";
 import type { SessionStore } from "@typebot.io/runtime-session-store";
 import { defaultSessionExpiryTimeout } from "@typebot.io/settings/constants";
+import { getScheduleStatus } from "@typebot.io/settings/getScheduleStatus";
 import type { Settings } from "@typebot.io/settings/schemas";
 import type { PublicTypebot } from "@typebot.io/typebot/schemas/publicTypebot";
 import type { Typebot } from "@typebot.io/typebot/schemas/typebot";
@@ -64,7 +65,8 @@ export const startWhatsAppSession = async ({
   const botsWithWhatsAppEnabled = publicTypebotsWithWhatsAppEnabled.filter(
     (publicTypebot) =>
       publicTypebot.typebot.publicId &&
-      publicTypebot.settings.whatsApp?.isEnabled,
+      publicTypebot.settings.whatsApp?.isEnabled &&
+      isWithinPublishWindow(publicTypebot.settings),
   );
 
   const publicTypebotWithMatchedCondition = botsWithWhatsAppEnabled.find(
@@ -121,6 +123,13 @@ export const startWhatsAppSession = async ({
   });
 };
 
+const isWithinPublishWindow = (settings: Settings) => {
+  const scheduleStatus = getScheduleStatus(settings.schedule);
+  return (
+    scheduleStatus !== "notPublishedYet" && scheduleStatus !== "unpublished"
+  );
+};
+
 export const messageMatchStartCondition = (
   message: Message | undefined,
   startCondition: NonNullable<Settings["whatsApp"]>["startCondition"],
@@ -0,0 +1,98 @@
+import { startSession } from "@typebot.io/bot-engine/startSession";
+import { getChannelSessionId } from "@typebot.io/channels/getChannelSessionId";
+import { restartSession } from "@typebot.io/chat-session/queries/restartSession";
+import type { WhatsAppCredentials } from "@typebot.io/credentials/schemas";
+import {
+  deleteSessionStore,
+  getSessionStore,
+} from "@typebot.io/runtime-session-store";
+import { defaultSessionExpiryTimeout } from "@typebot.io/settings/constants";
+import { createWhatsAppMessage } from "./queries/createWhatsAppMessage";
+import type { WhatsAppTemplate } from "./schemas";
+import { sendWhatsAppMessage } from "./sendWhatsAppMessage";
+import { whatsAppChannel } from "./whatsAppChannel";
+
+type Props = {
+  publicId: string;
+  credentials: Exclude<WhatsAppCredentials["data"], { provider: "360dialog" }>;
+  to: string;
+  template: WhatsAppTemplate;
+  prefilledVariables?: Record<string, unknown>;
+  sessionExpiryTimeout?: number;
+  campaignId?: string;
+};
+
+/**
+ * Registers a session waiting for the user's reply and sends the template
+ * that opens the conversation. The bot starts when the user replies.
+ */
+export const startWhatsAppSessionFromTemplate = async ({
+  publicId,
+  credentials,
+  to,
+  template,
+  prefilledVariables,
+  sessionExpiryTimeout,
+  campaignId,
+}: Props) => {
+  // Production sessions are keyed by the phone number ID received in webhooks
+  const sessionId = getChannelSessionId({
+    sessionIdPrefix: whatsAppChannel.sessionIdPrefix,
+    accountId: credentials.phoneNumberId,
+    externalUserId: to,
+  });
+
+  const sessionStore = getSessionStore(sessionId);
+  const { newSessionState } = await startSession({
+    version: 2,
+    sessionStore,
+    startParams: {
+      type: "live",
+      publicId,
+      isOnlyRegistering: true,
+      isStreamEnabled: false,
+      textBubbleContentFormat: "richText",
+      prefilledVariables,
+    },
+    initialSessionState: {
+      whatsApp: {
+        contact: {
+          name: "",
+          phoneNumber: to,
+        },
+      },
+      expiryTimeout:
+        (sessionExpiryTimeout ?? defaultSessionExpiryTimeout) * 60 * 60 * 1000,
+      campaignId,
+    },
+  });
+  deleteSessionStore(sessionId);
+
+  await restartSession({
+    state: newSessionState,
+    id: sessionId,
+  });
+
+  const { messageId } = await sendWhatsAppMessage({
+    to,
+    message: {
+      type: "template",
+      template,
+    },
+    credentials,
+  });
+
+  const { resultId, typebot } = newSessionState.typebotsQueue[0];
+  if (messageId && resultId)
+    await createWhatsAppMessage({
+      id: messageId,
+      typebotId: typebot.id,
+      resultId,
+    });
+
+  return {
+    sessionId,
+    resultId,
+    messageId,
+  };
+};
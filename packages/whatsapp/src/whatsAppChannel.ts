@@ -0,0 +1,93 @@
+import type { Channel } from "@typebot.io/channels/types";
+import type { WhatsAppCredentials } from "@typebot.io/credentials/schemas";
+import { WHATSAPP_SESSION_ID_PREFIX } from "./constants";
+import { convertInputToWhatsAppMessages } from "./convertInputToWhatsAppMessage";
+import { convertMessageToWhatsAppMessage } from "./convertMessageToWhatsAppMessage";
+import { convertTemplateOptionsToWhatsAppMessage } from "./convertTemplateOptionsToWhatsAppMessage";
+import { convertWhatsAppMessageToTypebotMessage } from "./convertWhatsAppMessageToTypebotMessage";
+import {
+  getWhatsAppMediaCacheProvider,
+  uploadWhatsAppMedia,
+} from "./getOrUploadMedia";
+import { groupIncomingWebhookEntriesPerUser } from "./groupIncomingWebhookEntriesPerUser";
+import { createWhatsAppMessage } from "./queries/createWhatsAppMessage";
+import {
+  type WhatsAppIncomingMessage,
+  type WhatsAppSendingMessage,
+  whatsAppWebhookRequestBodySchema,
+} from "./schemas";
+import { sendWhatsAppMessage } from "./sendWhatsAppMessage";
+import { sendWhatsAppTypingIndicator } from "./sendWhatsAppTypingIndicator";
+
+export const whatsAppChannel: Channel<
+  WhatsAppIncomingMessage,
+  WhatsAppSendingMessage,
+  WhatsAppCredentials["data"]
+> = {
+  sessionIdPrefix: WHATSAPP_SESSION_ID_PREFIX,
+  parseWebhookRequest: (body) => {
+    const parsedBody = whatsAppWebhookRequestBodySchema.safeParse(body);
+    if (!parsedBody.success) return [];
+    return groupIncomingWebhookEntriesPerUser(parsedBody.data.entry);
+  },
+  convertIncomingMessages: convertWhatsAppMessageToTypebotMessage,
+  // WhatsApp sends each media of a gallery as a separate message
+  isAggregatedIncomingMessage: (message) =>
+    ["document", "video", "image"].includes(message.type),
+  convertMessage: ({ message, credentials, state }) =>
+    convertMessageToWhatsAppMessage({
+      message,
+      mediaCache: state.publicTypebotId
+        ? { publicTypebotId: state.publicTypebotId, credentials }
+        : undefined,
+    }),
+  convertInput: ({ input, lastMessage, credentials, state }) =>
+    convertInputToWhatsAppMessages({
+      input,
+      lastMessage,
+      systemMessages: state.typebotsQueue[0].typebot.systemMessages,
+      mediaCache: state.publicTypebotId
+        ? { publicTypebotId: state.publicTypebotId, credentials }
+        : undefined,
+    }),
+  convertRedirectUrl: (url) => ({
+    type: "text",
+    text: {
+      body: url,
+      preview_url: true,
+    },
+  }),
+  convertWhatsAppTemplate: convertTemplateOptionsToWhatsAppMessage,
+  getMessageText: (message) => {
+    switch (message.type) {
+      case "text":
+        return message.text.body;
+      case "interactive":
+        return message.interactive.body?.text;
+      case "audio":
+      case "video":
+      case "image":
+      case "template":
+        return;
+    }
+  },
+  isMediaMessage: (message) =>
+    ["audio", "video", "image"].includes(message.type),
+  // If not using mediaId, it can take some time to be delivered. This make sure we don't send a message before the media is delivered.
+  mediaDeliveryTimeout: 5000,
+  sendMessage: sendWhatsAppMessage,
+  saveSentMessage: async ({ messageId, blockId, state }) => {
+    const { resultId, typebot } = state.typebotsQueue[0];
+    // Preview sessions have no result to attach the message to
+    if (!resultId) return;
+    await createWhatsAppMessage({
+      id: messageId,
+      typebotId: typebot.id,
+      resultId,
+      blockId,
+    });
+  },
+  sendTypingIndicator: sendWhatsAppTypingIndicator,
+  getMediaCacheProvider: getWhatsAppMediaCacheProvider,
+  uploadMedia: uploadWhatsAppMedia,
+};
@@ -0,0 +1,207 @@
+import { Activity, Workflow } from "@effect/workflow";
+import { parseUnknownError } from "@typebot.io/lib/parseUnknownError";
+import prisma from "@typebot.io/prisma";
+import {
+  WhatsAppCampaignRecipientStatus,
+  WhatsAppCampaignStatus,
+} from "@typebot.io/prisma/enum";
+import type { Settings } from "@typebot.io/settings/schemas";
+import { Array as Arr, Effect, Schema } from "effect";
+import {
+  CAMPAIGN_BATCH_SIZE,
+  CAMPAIGN_MESSAGES_PER_SECOND,
+} from "../constants";
+import { getWhatsAppCredentials } from "../resumeWhatsAppFlow";
+import type { WhatsAppTemplate } from "../schemas";
+import { startWhatsAppSessionFromTemplate } from "../startWhatsAppSessionFromTemplate";
+
+export class WhatsAppCampaignError extends Schema.TaggedError<WhatsAppCampaignError>()(
+  "@typebot/WhatsAppCampaignError",
+  {
+    message: Schema.String,
+  },
+) {}
+
+export const WhatsAppCampaignWorkflow = Workflow.make({
+  name: "WhatsAppCampaignWorkflow",
+  payload: {
+    campaignId: Schema.String,
+  },
+  error: WhatsAppCampaignError,
+  idempotencyKey: ({ campaignId }) => campaignId,
+});
+
+export const WhatsAppCampaignWorkflowLayer = WhatsAppCampaignWorkflow.toLayer(
+  Effect.fn(function* (payload) {
+    yield* Effect.annotateLogsScoped({
+      campaignId: payload.campaignId,
+    });
+
+    const recipientIds = yield* Activity.make({
+      name: "StartCampaign",
+      error: WhatsAppCampaignError,
+      success: Schema.Array(Schema.String),
+      execute: Effect.tryPromise({
+        try: async () => {
+          await prisma.whatsAppCampaign.update({
+            where: { id: payload.campaignId },
+            data: { status: WhatsAppCampaignStatus.RUNNING },
+          });
+          const recipients = await prisma.whatsAppCampaignRecipient.findMany({
+            where: {
+              campaignId: payload.campaignId,
+              status: WhatsAppCampaignRecipientStatus.PENDING,
+            },
+            select: { id: true },
+            orderBy: { createdAt: "asc" },
+          });
+          return recipients.map((recipient) => recipient.id);
+        },
+        catch: toCampaignError,
+      }),
+    });
+
+    // Each batch is its own activity so that a restarted workflow only
+    // resumes the batches that did not complete yet
+    for (const [index, batch] of Arr.chunksOf(
+      recipientIds,
+      CAMPAIGN_BATCH_SIZE,
+    ).entries()) {
+      yield* Activity.make({
+        name: `SendBatch-${index}`,
+        error: WhatsAppCampaignError,
+        execute: Effect.tryPromise({
+          try: () =>
+            sendCampaignBatch({
+              campaignId: payload.campaignId,
+              recipientIds: batch,
+            }),
+          catch: toCampaignError,
+        }),
+      }).pipe(
+        Effect.tapError((error) =>
+          Effect.tryPromise(() =>
+            prisma.whatsAppCampaign.update({
+              where: { id: payload.campaignId },
+              data: { status: WhatsAppCampaignStatus.FAILED },
+            }),
+          ).pipe(Effect.ignore, Effect.zipRight(Effect.logError(error))),
+        ),
+      );
+    }
+
+    yield* Activity.make({
+      name: "CompleteCampaign",
+      error: WhatsAppCampaignError,
+      execute: Effect.tryPromise({
+        try: async () => {
+          await prisma.whatsAppCampaign.update({
+            where: { id: payload.campaignId },
+            data: { status: WhatsAppCampaignStatus.COMPLETED },
+          });
+        },
+        catch: toCampaignError,
+      }),
+    }).pipe(Effect.tapError((error) => Effect.logError(error)));
+  }),
+);
+
+const sendCampaignBatch = async ({
+  campaignId,
+  recipientIds,
+}: {
+  campaignId: string;
+  recipientIds: readonly string[];
+}) => {
+  const campaign = await prisma.whatsAppCampaign.findUnique({
+    where: { id: campaignId },
+    select: {
+      template: true,
+      typebot: {
+        select: {
+          publicId: true,
+          whatsAppCredentialsId: true,
+          workspaceId: true,
+          publishedTypebot: {
+            select: {
+              settings: true,
+            },
+          },
+        },
+      },
+    },
+  });
+  if (!campaign?.typebot.publicId || !campaign.typebot.whatsAppCredentialsId)
+    throw new Error("Campaign typebot is not published on WhatsApp");
+  const credentials = await getWhatsAppCredentials({
+    credentialsId: campaign.typebot.whatsAppCredentialsId,
+    workspaceId: campaign.typebot.workspaceId,
+    isPreview: false,
+  });
+  if (!credentials || credentials.provider === "360dialog")
+    throw new Error("Campaigns can only be sent with Meta credentials");
+  const sessionExpiryTimeout = (
+    campaign.typebot.publishedTypebot?.settings as Settings | undefined
+  )?.whatsApp?.sessionExpiryTimeout;
+
+  // Recipients already processed by a previous attempt are skipped
+  const recipients = await prisma.whatsAppCampaignRecipient.findMany({
+    where: {
+      id: { in: [...recipientIds] },
+      status: WhatsAppCampaignRecipientStatus.PENDING,
+    },
+    select: {
+      id: true,
+      phoneNumber: true,
+      prefilledVariables: true,
+    },
+  });
+
+  for (const recipient of recipients) {
+    const startedAt = Date.now();
+    try {
+      const { sessionId, resultId, messageId } =
+        await startWhatsAppSessionFromTemplate({
+          publicId: campaign.typebot.publicId,
+          credentials,
+          to: recipient.phoneNumber,
+          template: campaign.template as WhatsAppTemplate,
+          prefilledVariables: (recipient.prefilledVariables ?? undefined) as
+            | Record<string, unknown>
+            | undefined,
+          sessionExpiryTimeout,
+          campaignId,
+        });
+      await prisma.whatsAppCampaignRecipient.update({
+        where: { id: recipient.id },
+        data: {
+          status: WhatsAppCampaignRecipientStatus.SENT,
+          sessionId,
+          resultId,
+          messageId,
+          sentAt: new Date(),
+        },
+      });
+    } catch (err) {
+      const { description, details } = await parseUnknownError({ err });
+      await prisma.whatsAppCampaignRecipient.update({
+        where: { id: recipient.id },
+        data: {
+          status: WhatsAppCampaignRecipientStatus.FAILED,
+          error: details ? `${description}: ${details}` : description,
+        },
+      });
+    }
+    const elapsed = Date.now() - startedAt;
+    const minInterval = 1000 / CAMPAIGN_MESSAGES_PER_SECOND;
+    if (elapsed < minInterval)
+      await new Promise((resolve) =>
+        setTimeout(resolve, minInterval - elapsed),
+      );
+  }
+};
+
+const toCampaignError = (error: unknown) =>
+  new WhatsAppCampaignError({
+    message: error instanceof Error ? error.message : "Unknown error",
+  });
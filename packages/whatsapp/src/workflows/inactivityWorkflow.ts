@@ -0,0 +1,90 @@
+import { Activity, DurableClock, Workflow } from "@effect/workflow";
+import { resumeChannelFlow } from "@typebot.io/channels/resumeChannelFlow";
+import { getSession } from "@typebot.io/chat-session/queries/getSession";
+import { Duration, Effect, Schema } from "effect";
+import { getWhatsAppCredentials } from "../resumeWhatsAppFlow";
+import { WhatsAppError } from "../WhatsAppError";
+import { whatsAppChannel } from "../whatsAppChannel";
+
+export class ResumeInactiveSessionError extends Schema.TaggedError<ResumeInactiveSessionError>()(
+  "@typebot/ResumeInactiveSessionError",
+  {
+    message: Schema.String,
+  },
+) {}
+
+export const WhatsAppInactivityWorkflow = Workflow.make({
+  name: "WhatsAppInactivityWorkflow",
+  payload: {
+    sessionId: Schema.String,
+    blockId: Schema.String,
+    from: Schema.String,
+    timeout: Schema.Number,
+    scheduledAt: Schema.Number,
+    workspaceId: Schema.String.pipe(Schema.optional),
+    credentialsId: Schema.String.pipe(Schema.optional),
+  },
+  error: ResumeInactiveSessionError,
+  idempotencyKey: ({ sessionId, blockId, scheduledAt }) =>
+    `${sessionId}-${blockId}-${scheduledAt}`,
+});
+
+export const WhatsAppInactivityWorkflowLayer =
+  WhatsAppInactivityWorkflow.toLayer(
+    Effect.fn(function* (payload) {
+      yield* Effect.annotateLogsScoped({
+        sessionId: payload.sessionId,
+        blockId: payload.blockId,
+      });
+
+      yield* DurableClock.sleep({
+        name: "InactivityTimeout",
+        duration: Duration.seconds(payload.timeout),
+      });
+
+      yield* Activity.make({
+        name: "ResumeInactiveSession",
+        error: ResumeInactiveSessionError,
+        execute: Effect.tryPromise({
+          try: async () => {
+            const session = await getSession(payload.sessionId);
+            // The user answered or the flow moved on since the timer was scheduled
+            if (
+              !session?.state ||
+              session.isReplying ||
+              session.state.currentBlockId !== payload.blockId ||
+              session.updatedAt.getTime() > payload.scheduledAt
+            )
+              return;
+            const credentials = await getWhatsAppCredentials({
+              credentialsId: payload.credentialsId,
+              workspaceId: payload.workspaceId,
+              isPreview:
+                payload.workspaceId === undefined ||
+                payload.credentialsId === undefined,
+            });
+            if (!credentials)
+              throw new WhatsAppError("Could not find credentials");
+            await resumeChannelFlow({
+              channel: whatsAppChannel,
+              receivedMessages: [],
+              reply: { type: "inactivity" },
+              sessionId: payload.sessionId,
+              credentials,
+              to: payload.from,
+              workspaceId: payload.workspaceId,
+              startSession: () => {
+                throw new WhatsAppError(
+                  "Can't trigger the inactivity event without a session",
+                );
+              },
+            });
+          },
+          catch: (error) =>
+            new ResumeInactiveSessionError({
+              message: error instanceof Error ? error.message : "Unknown error",
+            }),
+        }),
+      }).pipe(Effect.tapError((error) => Effect.logError(error)));
+    }),
+  );
@@ -0,0 +1,66 @@
+import {
+  FetchHttpClient,
+  HttpClient,
+  HttpClientRequest,
+} from "@effect/platform";
+import { Rpc, RpcClient, RpcGroup, RpcSerialization } from "@effect/rpc";
+import { WorkflowsAppConfig } from "@typebot.io/config";
+import { Effect, Layer, Redacted } from "effect";
+import { WhatsAppCampaignWorkflow } from "./campaignWorkflow";
+import { WhatsAppInactivityWorkflow } from "./inactivityWorkflow";
+
+const RPC_SECRET_HEADER_KEY = "x-rpc-secret";
+
+export class WhatsAppWorkflowsRpc extends RpcGroup.make(
+  Rpc.make("ScheduleInactivityResume", {
+    error: WhatsAppInactivityWorkflow.errorSchema,
+    payload: WhatsAppInactivityWorkflow.payloadSchema,
+  }),
+  Rpc.make("StartCampaign", {
+    error: WhatsAppCampaignWorkflow.errorSchema,
+    payload: WhatsAppCampaignWorkflow.payloadSchema,
+  }),
+) {}
+
+export const WhatsAppWorkflowsRpcLayer = WhatsAppWorkflowsRpc.toLayer(
+  Effect.succeed({
+    ScheduleInactivityResume: (payload) =>
+      WhatsAppInactivityWorkflow.execute(payload, {
+        discard: true,
+      }),
+    StartCampaign: (payload) =>
+      WhatsAppCampaignWorkflow.execute(payload, {
+        discard: true,
+      }),
+  }),
+);
+
+// Client
+
+const ProtocolLive = Effect.gen(function* () {
+  const { workflowsServer } = yield* WorkflowsAppConfig;
+  return RpcClient.layerProtocolHttp({
+    url: workflowsServer.rpcUrl.toString(),
+    transformClient: (client) =>
+      HttpClient.mapRequest(client, (request) =>
+        request.pipe(
+          HttpClientRequest.setHeader(
+            RPC_SECRET_HEADER_KEY,
+            Redacted.value(workflowsServer.rpcSecret),
+          ),
+        ),
+      ),
+  });
+}).pipe(
+  Layer.unwrapEffect,
+  Layer.provide(FetchHttpClient.layer),
+  Layer.provide(RpcSerialization.layerNdjson),
+);
+
+export class WhatsAppWorkflowsRpcClient extends Effect.Service<WhatsAppWorkflowsRpcClient>()(
+  "@typebot/WhatsAppWorkflowsRpcClient",
+  {
+    scoped: RpcClient.make(WhatsAppWorkflowsRpc),
+    dependencies: [ProtocolLive],
+  },
+) {}